@@ -30,6 +30,7 @@ export default function RootLayout() {
             <Stack.Screen name="tileSetCreator/editor" options={{ headerShown: false }} />
             <Stack.Screen name="tileSetCreator/modifyTile" options={{ headerShown: false }} />
             <Stack.Screen name="manual" options={{ title: 'Manual' }} />
+            <Stack.Screen name="open" options={{ headerShown: false }} />
           </Stack>
         </View>
       </TabBarVisibleProvider>
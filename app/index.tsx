@@ -6,7 +6,8 @@ import * as DocumentPicker from 'expo-document-picker';
 import * as FileSystem from 'expo-file-system';
 import { Image as ExpoImage } from 'expo-image';
 import { LinearGradient } from 'expo-linear-gradient';
-import { useRouter } from 'expo-router';
+import * as Linking from 'expo-linking';
+import { useLocalSearchParams, useRouter } from 'expo-router';
 import * as Sharing from 'expo-sharing';
 import { memo, startTransition, useCallback, useDeferredValue, useEffect, useMemo, useRef, useState } from 'react';
 import {
@@ -18,9 +19,11 @@ import {
     Platform,
     Pressable,
     ScrollView,
+    Share,
     StyleSheet,
     Switch,
     Text,
+    TextInput,
     TouchableOpacity,
     useWindowDimensions,
     View,
@@ -41,10 +44,14 @@ import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
 import { clearTileAssetCache, prefetchTileAssets, TileAsset } from '@/components/tile-asset';
 import { TileAtlasSprite } from '@/components/tile-atlas-sprite';
-import { clearBrushFavorites } from '@/components/tile-brush-panel';
+import {
+    clearBrushFavorites,
+    reloadBrushFavorites,
+    useBrushTileWeight,
+} from '@/components/tile-brush-panel';
 import { LayerSidePanel } from '@/components/layer-side-panel';
 import { ModifyPalette } from '@/components/modify-palette';
-import { TileDebugOverlay } from '@/components/tile-debug-overlay';
+import { TileDebugOverlay, TileSeamOverlay } from '@/components/tile-debug-overlay';
 import { TileGridCanvas } from '@/components/tile-grid-canvas';
 import { TAB_BAR_HEIGHT, useTabBarVisible } from '@/contexts/tab-bar-visible';
 import { useIsMobileWeb } from '@/hooks/use-is-mobile-web';
@@ -54,8 +61,59 @@ import { useTileFiles, type TileFile } from '@/hooks/use-tile-files';
 import { useTileGrid } from '@/hooks/use-tile-grid';
 import { useTilePatterns } from '@/hooks/use-tile-patterns';
 import { useTileSets } from '@/hooks/use-tile-sets';
+import {
+    combineSelection,
+    getCellsWithSameTile,
+    getConnectedCells,
+    getFootprintCells,
+    getLassoCells,
+    getSelectionCells,
+    invertSelection,
+    mapSelectionToLevel,
+    offsetSelection,
+    SELECTION_COMBINE_MODES,
+    SELECTION_TOOLS,
+    type CanvasSelection,
+    type SelectionCombineMode,
+    type SelectionTool,
+} from '@/utils/cell-selection';
 import { clearAllLocalData } from '@/utils/clear-local-data';
+import { confirmImportText } from '@/utils/confirm-import';
+import {
+    chooseLibraryConflictPolicy,
+    chooseLibraryRestoreMode,
+} from '@/utils/confirm-library-restore';
 import { downloadUgcTileFile } from '@/utils/download-ugc-tile';
+import {
+  canMoveFolder,
+  countFolderFiles,
+  DEFAULT_FILE_SORT,
+  FILE_SORT_OPTIONS,
+  flattenFolderTree,
+  getChildFolders,
+  getFolderPath,
+  getVisibleFiles,
+  isFileSortKey,
+  normalizeTags,
+  sortFiles,
+} from '@/utils/file-browser';
+import {
+  deleteFileSnapshot,
+  listFileSnapshots,
+  readFileSnapshot,
+  recordFileSnapshot,
+  type FileSnapshot,
+} from '@/utils/file-snapshots';
+import {
+    createLibraryBackupZip,
+    findLibraryConflicts,
+    readLibraryBackupZip,
+    readStoredPreferences,
+    restoreLibrary,
+    writeLibraryToStorage,
+    type LibraryContents,
+    type LibraryConflictPolicy,
+} from '@/utils/library-backup';
 import {
     getSampleThumbnailDataUrl,
     loadSampleFileContents,
@@ -73,6 +131,20 @@ import {
     getCellIndicesInRegion,
     getLockedBoundaryEdges,
 } from '@/utils/locked-regions';
+import { buildPlotterSvg, type PlotterLayerInput } from '@/utils/plotter-svg';
+import {
+  buildPrintPdf,
+  DEFAULT_PDF_PRINT_OPTIONS,
+  PDF_BLEED_OPTIONS_MM,
+  PDF_CELL_SIZE_OPTIONS_MM,
+  PDF_DPI_OPTIONS,
+  PDF_MARGIN_OPTIONS_MM,
+  PDF_PAGE_SIZES,
+  type PdfPageSize,
+  type PdfPrintDesign,
+  type PdfPrintOptions,
+  type PdfPrintScale,
+} from '@/utils/pdf-print';
 import {
     buildPreviewPath,
     getFilePreviewUri,
@@ -81,6 +153,21 @@ import {
     isOwnPreviewUri,
     showPreview as showPreviewState,
 } from '@/utils/preview-state';
+import { generateSeed, normalizeSeed } from '@/utils/seeded-random';
+import { decodeSharePayload, encodeSharePayload, SHARE_LINK_PATH } from '@/utils/share-link';
+import { buildTileAtlas } from '@/utils/tile-atlas';
+import {
+  dataUrlToRgba,
+  DEFAULT_TIMELAPSE_OPTIONS,
+  encodeTimelapse,
+  getTimelapseFileExtension,
+  getTimelapseMimeType,
+  type RgbaFrame,
+  sampleTimelapseFrames,
+  TIMELAPSE_FPS_OPTIONS,
+  TIMELAPSE_MAX_FRAME_OPTIONS,
+  type TimelapseOptions,
+} from '@/utils/timelapse-export';
 import {
     getSetIdAndLegacyFromQualifiedName,
     parseBakedName,
@@ -89,6 +176,7 @@ import {
     deserializeBundle,
     fileUsesUgc,
     getSetIdsFromPatternTiles,
+    normalizeBundledTileSet,
     remapFilePayload,
     remapPatternTileNames,
     serializeFileBundle,
@@ -102,8 +190,22 @@ import {
     type OverlayLayerParams,
     renderTileCanvasToDataUrl,
     renderTileCanvasToSvg,
+    type RenderSvgOverlayLayer,
 } from '@/utils/tile-export';
-import { deserializeTileFile, serializeTileFile } from '@/utils/tile-format';
+import {
+  deserializeTileFile,
+  serializeTileFile,
+  type TileFileEncoding,
+  type TileFilePayload,
+} from '@/utils/tile-format';
+import { formatReconcileSummary } from '@/utils/tile-seams';
+import {
+  getExtraSymmetryTransforms,
+  isSymmetryModeAvailable,
+  SYMMETRY_MODES,
+  transformCell,
+  transformTileBySymmetry,
+} from '@/utils/tile-symmetry';
 import {
     buildInitialTiles,
     computeFixedGridLayout,
@@ -125,6 +227,15 @@ import { displayToPatternCell, getRotatedDimensions } from '@/utils/pattern-tran
 import { applyGroupRotationToTile, normalizeRotationCW, rotateCell } from '@/utils/tile-group-rotate';
 import type { CrossLayerContext } from '@/utils/cross-layer-compat';
 import { deserializePattern, deserializeTileSet, serializePattern } from '@/utils/tile-ugc-format';
+import {
+  buildTiledMap,
+  isTiledMapText,
+  parseTiledMap,
+  serializeTiledJson,
+  serializeTmx,
+  tiledMapToTileFile,
+} from '@/utils/tiled-format';
+import { sameTiles } from '@/utils/undo-log';
 import JSZip from 'jszip';
 
 const GRID_GAP = 0;
@@ -171,11 +282,15 @@ const DEFAULT_CATEGORY = (TILE_CATEGORIES as string[]).includes('angular')
 /** New files use max resolution: tile size 25 (Large on mobile, 25px on web). */
 const NEW_FILE_TILE_SIZE = 25;
 const ERROR_TILE = require('@/assets/images/tiles/tile_error.svg');
+/** Longest side of timelapse frames in pixels (keeps GIF/APNG files shareable). */
+const TIMELAPSE_MAX_DIMENSION = 720;
 const PREVIEW_DIR = `${FileSystem.cacheDirectory ?? ''}tile-previews/`;
 /** Max file thumbnail display size (web cap): narrow = this, desktop = 2×. */
 const FILE_THUMB_DISPLAY_SIZE = 200;
 /** Generated file thumbnail resolution (2× display for sharp rendering on desktop). */
 const FILE_THUMB_SIZE = 400;
+/** Size of the snapshot thumbnails in the file history. */
+const SNAPSHOT_THUMB_SIZE = 64;
 /** Min content width to treat as desktop (web); above this, thumbnails use 2× display size. */
 const FILE_VIEW_DESKTOP_BREAKPOINT = 768;
 const buildUserTileSourceFromName = (name: string): TileSource | null => {
@@ -788,47 +903,12 @@ function computePatternTileFromData(
   };
 }
 
-/** Snapshot all non-editing layers from activeFile for undo side effects. */
-function snapshotOtherLayers(
-  activeFile: TileFile | null,
-  editingLevel: number,
-  maxLevel: number,
-): Record<number, Tile[]> {
-  if (!activeFile) return {};
-  const snap: Record<number, Tile[]> = {};
-  for (let level = 1; level <= maxLevel; level++) {
-    if (level === editingLevel) continue;
-    snap[level] = [...(level === 1 ? (activeFile.tiles ?? []) : (activeFile.layers?.[level] ?? []))];
-  }
-  return snap;
-}
-
-/** Build post-snapshot by applying accumulated cell updates to pre-snapshot. */
-function applyAccumulatedUpdates(
-  pre: Record<number, Tile[]>,
-  accumulated: Record<number, Record<number, Tile>>,
-): Record<number, Tile[]> {
-  const post: Record<number, Tile[]> = {};
-  for (const [levelStr, preTiles] of Object.entries(pre)) {
-    const level = parseInt(levelStr, 10);
-    const updates = accumulated[level];
-    if (updates && Object.keys(updates).length > 0) {
-      const postTiles = [...preTiles];
-      for (const [idxStr, tile] of Object.entries(updates)) {
-        postTiles[parseInt(idxStr, 10)] = tile;
-      }
-      post[level] = postTiles;
-    } else {
-      post[level] = preTiles;
-    }
-  }
-  return post;
-}
-
 export default function TestScreen() {
   const { width, height } = useWindowDimensions();
   const insets = useSafeAreaInsets();
   const router = useRouter();
+  const { d: sharedLinkPayload } = useLocalSearchParams<{ d?: string }>();
+  const handledShareLinkRef = useRef<string | null>(null);
   const { tabBarVisible, setHideTabBarOverModify, setHideTabBarOverOverlay } =
     useTabBarVisible();
   const gridRef = useRef<View>(null);
@@ -870,14 +950,43 @@ export default function TestScreen() {
     }).start(() => setShowModifyTileSetBanner(false));
   }, [modifyBannerTranslateY]);
   const [fileMenuTargetId, setFileMenuTargetId] = useState<string | null>(null);
+  /** Folder the File view shows (null = top level) and its search (utils/file-browser.ts). */
+  const [currentFolderId, setCurrentFolderId] = useState<string | null>(null);
+  const [fileSearchQuery, setFileSearchQuery] = useState('');
+  const [showFileSortMenu, setShowFileSortMenu] = useState(false);
+  const [folderMenuTargetId, setFolderMenuTargetId] = useState<string | null>(null);
+  /** Folder name being entered: for a new folder (id null) or a rename. */
+  const [folderNameDraft, setFolderNameDraft] = useState<{ id: string | null; name: string } | null>(
+    null
+  );
+  /** Files or a folder being moved with the "Move to" picker. */
+  const [moveToFolderTarget, setMoveToFolderTarget] = useState<
+    { fileIds: string[] } | { folderId: string } | null
+  >(null);
+  const [tagsTargetId, setTagsTargetId] = useState<string | null>(null);
+  const [tagsDraft, setTagsDraft] = useState('');
+  /** File whose version history is shown; entries are newest first, thumbnails filled in on web. */
+  const [historyFileId, setHistoryFileId] = useState<string | null>(null);
+  const [historyEntries, setHistoryEntries] = useState<
+    { snapshot: FileSnapshot; payload: TileFilePayload | null; thumbnailUri: string | null }[]
+  >([]);
+  const [checkpointNameDraft, setCheckpointNameDraft] = useState('');
+  const historyLoadIdRef = useRef(0);
   const importTileInputRef = useRef<HTMLInputElement | null>(null);
   const importPatternInputRef = useRef<HTMLInputElement | null>(null);
   const applyImportedPatternRef = useRef<
     (content: string, options?: { thumbnailUri?: string | null }) => { ok: false; error: string } | { ok: true }
   >(() => ({ ok: false, error: 'Not ready' }));
-  const applyImportedTileFileRef = useRef<(content: string) => void>(() => {});
+  const applyImportedTileFileRef = useRef<(content: string, fileName?: string) => void>(() => {});
   const [downloadTargetId, setDownloadTargetId] = useState<string | null>(null);
   const [isDownloading, setIsDownloading] = useState(false);
+  const [showTimelapseDialog, setShowTimelapseDialog] = useState(false);
+  const [timelapseOptions, setTimelapseOptions] =
+    useState<TimelapseOptions>(DEFAULT_TIMELAPSE_OPTIONS);
+  const [isExportingTimelapse, setIsExportingTimelapse] = useState(false);
+  const [showPdfDialog, setShowPdfDialog] = useState(false);
+  const [pdfOptions, setPdfOptions] = useState<PdfPrintOptions>(DEFAULT_PDF_PRINT_OPTIONS);
+  const [isExportingPdf, setIsExportingPdf] = useState(false);
   const [showDownloadOverlay, setShowDownloadOverlay] = useState(false);
   const [downloadRenderKey, setDownloadRenderKey] = useState(0);
   const [downloadLoadedCount, setDownloadLoadedCount] = useState(0);
@@ -955,18 +1064,24 @@ export default function TestScreen() {
   const [paletteMirrorsY, setPaletteMirrorsY] = useState<Record<number, boolean>>(
     {}
   );
-  const { patterns, patternsByCategory, createPattern, deletePatterns, clearAllPatterns } = useTilePatterns();
+  const {
+    patterns,
+    patternsByCategory,
+    createPattern,
+    deletePatterns,
+    clearAllPatterns,
+    reloadPatterns,
+  } = useTilePatterns();
   const [selectedPatternId, setSelectedPatternId] = useState<string | null>(null);
   const [isPatternCreationMode, setIsPatternCreationMode] = useState(false);
-  const [patternSelection, setPatternSelection] = useState<{
-    start: number;
-    end: number;
-  } | null>(null);
+  const [patternSelection, setPatternSelection] = useState<CanvasSelection | null>(null);
   const [isSelectionMode, setIsSelectionMode] = useState(false);
-  const [canvasSelection, setCanvasSelection] = useState<{
-    start: number;
-    end: number;
-  } | null>(null);
+  const [canvasSelection, setCanvasSelection] = useState<CanvasSelection | null>(null);
+  const [selectionTool, setSelectionTool] = useState<SelectionTool>('rect');
+  const [selectionCombineMode, setSelectionCombineMode] = useState<SelectionCombineMode>('replace');
+  const [showSelectionToolsDialog, setShowSelectionToolsDialog] = useState(false);
+  /** Selection drag in progress: the selection it combines onto and the canvas cells visited. */
+  const selectionGestureRef = useRef<{ base: CanvasSelection | null; path: number[] } | null>(null);
   // Refs for stable ModifyPalette callbacks (avoid re-creating closures every render)
   const brushRef = useRef(brush);
   brushRef.current = brush;
@@ -1009,11 +1124,13 @@ export default function TestScreen() {
   /** Accumulated finer-layer cell updates during pattern painting. Flushed on debounce timer. */
   const finerLayerPendingRef = useRef<Record<number, Record<number, Tile>>>({});
   const finerLayerFlushTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  /** Pre-snapshot of non-editing layers at drag start (for drag-stroke undo). */
-  const dragLayerPreSnapshotRef = useRef<Record<number, Tile[]> | null>(null);
-  /** Accumulated cell updates during a drag stroke (for building post-snapshot). */
-  const dragLayerAccumulatedRef = useRef<Record<number, Record<number, Tile>>>({});
   const [showPatternSaveModal, setShowPatternSaveModal] = useState(false);
+  const [showSeedDialog, setShowSeedDialog] = useState(false);
+  const [showSymmetryDialog, setShowSymmetryDialog] = useState(false);
+  const [drawPathMode, setDrawPathMode] = useState(false);
+  /** After Reconcile leaves broken seams, keep highlighting them until the next Reconcile or file switch. */
+  const [showReconcileSeams, setShowReconcileSeams] = useState(false);
+  const [seedDraft, setSeedDraft] = useState('');
   const [showPatternExportMenu, setShowPatternExportMenu] = useState(false);
   const [selectedPatternIdsForExport, setSelectedPatternIdsForExport] = useState<string[]>([]);
   const [patternRotations, setPatternRotations] = useState<Record<string, number>>(
@@ -1103,16 +1220,24 @@ export default function TestScreen() {
 
   const {
     files,
+    folders,
     activeFile,
     activeFileId,
     setActive,
     createFile,
     createFileFromTileData,
+    restoreFileFromPayload,
     duplicateFile,
     downloadFile,
     downloadTileFile,
     deleteFile,
     clearAllFiles,
+    createFolder,
+    renameFolder,
+    moveFolder,
+    deleteFolder,
+    moveFilesToFolder,
+    setFileTags,
     upsertActiveFile,
     updateActiveFileLockedCells,
     updateActiveFileLockedCellsForLayer,
@@ -1122,8 +1247,16 @@ export default function TestScreen() {
     updateActiveFileLayerVisibility,
     updateActiveFileLayerLocked,
     updateActiveFileLayerEmphasized,
+    updateActiveFileSeed,
+    updateActiveFileTileable,
+    beginUndoStep,
+    endUndoStep,
+    undoActiveFile,
+    redoActiveFile,
     replaceTileSourceNames,
     replaceTileSourceNamesWithError,
+    loadFileBodies,
+    reloadFiles,
     ready,
   } = useTileFiles(DEFAULT_CATEGORY);
   const {
@@ -1407,19 +1540,36 @@ export default function TestScreen() {
     resolveSourceName,
     getSourcesForFile,
   ]);
-  const userFiles = useMemo(
-    () =>
-      [...files]
-        .filter((f) => !f.isSample)
-        .sort((a, b) => b.updatedAt - a.updatedAt),
-    [files]
+  const fileSort = isFileSortKey(settings.fileSort) ? settings.fileSort : DEFAULT_FILE_SORT;
+  const isSearchingFiles = fileSearchQuery.trim().length > 0;
+  const tileSetNamesById = useMemo(
+    () => new Map(userTileSets.map((set) => [set.id, set.name])),
+    [userTileSets]
   );
-  const sampleFiles = useMemo(
+  // The open folder was deleted (or a restore replaced the folders): back to the top level.
+  useEffect(() => {
+    if (currentFolderId !== null && !folders.some((folder) => folder.id === currentFolderId)) {
+      setCurrentFolderId(null);
+    }
+  }, [currentFolderId, folders]);
+  const visibleFiles = useMemo(
     () =>
-      [...files]
-        .filter((f) => f.isSample)
-        .sort((a, b) => b.updatedAt - a.updatedAt),
-    [files]
+      sortFiles(
+        getVisibleFiles(files, folders, currentFolderId, fileSearchQuery),
+        fileSort,
+        tileSetNamesById
+      ),
+    [files, folders, currentFolderId, fileSearchQuery, fileSort, tileSetNamesById]
+  );
+  const userFiles = useMemo(() => visibleFiles.filter((f) => !f.isSample), [visibleFiles]);
+  const sampleFiles = useMemo(() => visibleFiles.filter((f) => f.isSample), [visibleFiles]);
+  const visibleFolders = useMemo(
+    () => (isSearchingFiles ? [] : getChildFolders(folders, currentFolderId)),
+    [folders, currentFolderId, isSearchingFiles]
+  );
+  const currentFolderPath = useMemo(
+    () => getFolderPath(folders, currentFolderId),
+    [folders, currentFolderId]
   );
   const fileSourceNamesForMapping =
     activeFileSourceNames.length > 0 ? activeFileSourceNames : fileSourceNames;
@@ -1502,6 +1652,7 @@ export default function TestScreen() {
     () => paletteIndexToFileIndex.filter((index) => index >= 0),
     [paletteIndexToFileIndex]
   );
+  const getTileWeight = useBrushTileWeight();
   const ensureFileSourceNames = useCallback(
     (sources: TileSource[]) => {
       const base =
@@ -1827,34 +1978,7 @@ export default function TestScreen() {
     if (!canvasSelection || !isEditingHigherLayer || !levelGridInfo) return canvasSelection;
     const fullCols = activeFile?.grid.columns ?? 0;
     if (fullCols <= 0) return null;
-    const startRow = Math.floor(canvasSelection.start / fullCols);
-    const startCol = canvasSelection.start % fullCols;
-    const endRow = Math.floor(canvasSelection.end / fullCols);
-    const endCol = canvasSelection.end % fullCols;
-    const minRow = Math.min(startRow, endRow);
-    const maxRow = Math.max(startRow, endRow);
-    const minCol = Math.min(startCol, endCol);
-    const maxCol = Math.max(startCol, endCol);
-    const { levelCols } = levelGridInfo;
-    let layerMinRow = Infinity;
-    let layerMaxRow = -Infinity;
-    let layerMinCol = Infinity;
-    let layerMaxCol = -Infinity;
-    levelGridInfo.cells.forEach((cell, idx) => {
-      if (
-        cell.minRow >= minRow && cell.maxRow <= maxRow &&
-        cell.minCol >= minCol && cell.maxCol <= maxCol
-      ) {
-        const layerRow = Math.floor(idx / levelCols);
-        const layerCol = idx % levelCols;
-        if (layerRow < layerMinRow) layerMinRow = layerRow;
-        if (layerRow > layerMaxRow) layerMaxRow = layerRow;
-        if (layerCol < layerMinCol) layerMinCol = layerCol;
-        if (layerCol > layerMaxCol) layerMaxCol = layerCol;
-      }
-    });
-    if (layerMinRow === Infinity) return null;
-    return { start: layerMinRow * levelCols + layerMinCol, end: layerMaxRow * levelCols + layerMaxCol };
+    return mapSelectionToLevel(canvasSelection, fullCols, levelGridInfo.cells, levelGridInfo.levelCols);
   }, [canvasSelection, isEditingHigherLayer, levelGridInfo, activeFile?.grid.columns]);
 
   /** Cross-layer context: tiles from other layers for connectivity checking. */
@@ -1873,7 +1997,7 @@ export default function TestScreen() {
       if (l1Tiles && l1Tiles.length > 0) {
         const l1GridInfo = getLevelGridInfo(baseCols, baseRows, 1);
         if (l1GridInfo) {
-          otherLayers[1] = { tiles: l1Tiles, gridInfo: l1GridInfo };
+          otherLayers[1] = { tiles: l1Tiles, gridInfo: l1GridInfo, lockedCells: activeFile.lockedCells };
         }
       }
     }
@@ -1891,7 +2015,11 @@ export default function TestScreen() {
         if (!hasAny) continue;
         const layerGridInfo = getLevelGridInfo(baseCols, baseRows, level);
         if (layerGridInfo) {
-          otherLayers[level] = { tiles: layerTiles, gridInfo: layerGridInfo };
+          otherLayers[level] = {
+            tiles: layerTiles,
+            gridInfo: layerGridInfo,
+            lockedCells: activeFile.lockedCellsPerLayer?.[level],
+          };
         }
       }
     }
@@ -1903,6 +2031,7 @@ export default function TestScreen() {
       baseColumns: baseCols,
       baseRows: baseRows,
       otherLayers,
+      tileable: activeFile.tileable === true,
     };
   }, [activeFile, editingLevel, settings.crossLayerConnectivity]);
 
@@ -1954,11 +2083,6 @@ export default function TestScreen() {
 
       if (Object.keys(cellUpdates).length > 0) {
         updateActiveFileLayerCells(M, cellUpdates);
-        // Accumulate for drag-stroke undo side-effect
-        if (dragLayerPreSnapshotRef.current) {
-          if (!dragLayerAccumulatedRef.current[M]) dragLayerAccumulatedRef.current[M] = {};
-          Object.assign(dragLayerAccumulatedRef.current[M], cellUpdates);
-        }
       }
     }
   }, [activeFile, editingLevel, levelGridInfo, updateActiveFileLayerCells]);
@@ -1970,15 +2094,15 @@ export default function TestScreen() {
     floodFill,
     floodComplete,
     reconcileTiles,
+    reconcileAllLayers,
+    invalidEdges,
     controlledRandomize,
+    generateTiles,
+    reseedRandom,
     resetTiles,
     loadTiles,
-    undo,
-    redo,
     pushUndoForDragStart,
-    patchLastUndoSideEffect,
-    canUndo,
-    canRedo,
+    getEditHistory,
     clearCloneSource,
     setCloneSource,
     cloneSourceIndex,
@@ -1986,6 +2110,7 @@ export default function TestScreen() {
     cloneAnchorIndex,
     cloneCursorIndex,
     clearDrawStroke,
+    drawPathStartIndex,
     fullGridColumnsForZoom,
     fullGridRowsForZoom,
     moveRegion,
@@ -1994,11 +2119,6 @@ export default function TestScreen() {
     fullTilesForSave,
     fullGridLayoutForSave,
     mirrorZoomRegionToRestOfGrid,
-    pendingUndoSideEffectRef,
-    lastUndoSideEffectRef,
-    lastRedoSideEffectRef,
-    undoSideEffectVersion,
-    redoSideEffectVersion,
   } = useTileGrid({
     tileSources,
     availableWidth,
@@ -2006,8 +2126,11 @@ export default function TestScreen() {
     gridGap: GRID_GAP,
     preferredTileSize: fileTileSize,
     allowEdgeConnections: settings.allowEdgeConnections,
+    // Only the tile grid wraps; resolution layers keep their partial border cells.
+    wrapEdges: activeFile?.tileable === true && !isEditingHigherLayer,
     suspendRemap: true,
     randomSourceIndices,
+    getTileWeight,
     fixedRows: isEditingHigherLayer ? levelGridInfo!.levelRows : (activeFile?.grid.rows ?? 0),
     fixedColumns: isEditingHigherLayer ? levelGridInfo!.levelCols : (activeFile?.grid.columns ?? 0),
     fixedTileSize: layerFixedTileSize,
@@ -2023,9 +2146,11 @@ export default function TestScreen() {
           }
         : undefined,
     onClonePaint: applyCloneToFinerLayers,
+    onUndoStep: () => startUndoStep(),
     brush,
     mirrorHorizontal: settings.mirrorHorizontal,
     mirrorVertical: settings.mirrorVertical,
+    symmetryMode: settings.symmetryMode,
     pattern: effectivePatternForHook ?? null,
     patternAnchorKey: selectedPattern?.id ?? null,
     getFixedBrushSourceName: () => fixedBrushSourceNameRef.current,
@@ -2037,24 +2162,32 @@ export default function TestScreen() {
     fullGridColumns: viewMode === 'modify' && zoomRegion ? (activeFile?.grid.columns ?? undefined) : undefined,
     fullGridRows: viewMode === 'modify' && zoomRegion ? (activeFile?.grid.rows ?? undefined) : undefined,
     crossLayerContext,
+    randomSeed: activeFile?.seed ?? null,
+    trackInvalidEdges:
+      viewMode === 'modify' && !isEditingHigherLayer && (showReconcileSeams || settings.showDebug),
+    drawPathMode,
+    onDrawPathError: (message: string) => {
+      if (Platform.OS === 'web') {
+        window.alert(message);
+      } else {
+        Alert.alert('Path', message);
+      }
+    },
   });
 
-  /** Finalize multi-layer undo for a completed drag stroke. */
-  const finalizeDragLayerUndo = useCallback(() => {
-    const pre = dragLayerPreSnapshotRef.current;
-    if (!pre) return;
-    flushFinerLayerPending();
-    const accumulated = dragLayerAccumulatedRef.current;
-    if (Object.keys(accumulated).length > 0) {
-      const post = applyAccumulatedUpdates(pre, accumulated);
-      patchLastUndoSideEffect({ preClear: pre, postClear: post });
-    }
-    dragLayerPreSnapshotRef.current = null;
-    dragLayerAccumulatedRef.current = {};
-  }, [flushFinerLayerPending, patchLastUndoSideEffect]);
+  /** Rotation / diagonal symmetry applies to the current grid (4-fold and diagonal need a square grid). */
+  const symmetryModeActive =
+    settings.symmetryMode !== 'none' &&
+    isSymmetryModeAvailable(settings.symmetryMode, gridLayout.rows, gridLayout.columns);
+  const mirrorOrSymmetryOn =
+    settings.mirrorHorizontal || settings.mirrorVertical || symmetryModeActive;
+  const symmetryModeLabel =
+    SYMMETRY_MODES.find((option) => option.mode === settings.symmetryMode)?.label ?? 'None';
 
   /** When switching resolution layer or file, load that layer's tiles into the grid hook. */
   const lastLayerLoadRef = useRef({ editingLevel: 0, fileId: '' });
+  /** Set by undo/redo: the next file update reloads the grid even though file and layer are unchanged. */
+  const reloadGridFromFileRef = useRef(false);
   // Reset the guard on each new load so returning to the same file/layer always re-runs the load.
   useEffect(() => {
     lastLayerLoadRef.current = { editingLevel: 0, fileId: '' };
@@ -2062,22 +2195,24 @@ export default function TestScreen() {
   useEffect(() => {
     if (!activeFile || viewMode !== 'modify') return;
     const key = { editingLevel, fileId: activeFile.id };
-    if (
+    // Reloading the same layer (undo/redo) keeps the timelapse edit history.
+    const keepEditHistory =
       lastLayerLoadRef.current.editingLevel === key.editingLevel &&
-      lastLayerLoadRef.current.fileId === key.fileId
-    ) {
+      lastLayerLoadRef.current.fileId === key.fileId;
+    if (!reloadGridFromFileRef.current && keepEditHistory) {
       return;
     }
+    reloadGridFromFileRef.current = false;
     lastLayerLoadRef.current = key;
     if (editingLevel >= 2 && levelGridInfo) {
       const raw = activeFile.layers?.[editingLevel];
-      loadTiles(normalizeTiles(raw, levelGridInfo.cells.length, tileSources.length));
+      loadTiles(normalizeTiles(raw, levelGridInfo.cells.length, tileSources.length), { keepEditHistory });
     } else {
       const cols = activeFile.grid?.columns ?? 0;
       const rows = activeFile.grid?.rows ?? 0;
       const n = cols * rows;
       if (n > 0) {
-        loadTiles(normalizeTiles(activeFile.tiles, n, tileSources.length));
+        loadTiles(normalizeTiles(activeFile.tiles, n, tileSources.length), { keepEditHistory });
       }
     }
     setHookLoadedLevel(editingLevel);
@@ -2271,61 +2406,66 @@ export default function TestScreen() {
     };
   }, []);
 
-  /** Restore other-layer data when undoing an operation with side effects. */
-  useEffect(() => {
-    const sideEffect = lastUndoSideEffectRef.current;
-    if (!sideEffect || !activeFile) return;
-    const { preClear } = sideEffect;
-    const rows = activeFile.grid?.rows ?? 0;
-    const cols = activeFile.grid?.columns ?? 0;
-    for (const levelStr of Object.keys(preClear)) {
-      const level = parseInt(levelStr, 10);
-      if (level === editingLevel) continue;
-      const tiles = preClear[level];
-      if (tiles === undefined) continue;
-      if (level === 1) {
-        upsertActiveFile({
-          ...activeFile,
-          tiles,
-          gridLayout: { rows, columns: cols, tileSize: activeFile.preferredTileSize },
-          category: activeFile.category,
-          categories: activeFile.categories,
-          preferredTileSize: activeFile.preferredTileSize,
-        });
-      } else {
-        updateActiveFileLayer(level, tiles);
+  /**
+   * Write grid edits still waiting for the debounced save into the active file, so the file's
+   * undo log (utils/undo-log.ts) records them in the step they were made in.
+   */
+  const syncGridToFile = () => {
+    flushFinerLayerPending();
+    if (!activeFile || viewMode !== 'modify' || isHydratingFile || hookLoadedLevel !== editingLevel) {
+      return;
+    }
+    if (editingLevel >= 2) {
+      if (
+        levelGridInfo &&
+        tiles.length === levelGridInfo.cells.length &&
+        !sameTiles(tiles, activeFile.layers?.[editingLevel])
+      ) {
+        updateActiveFileLayer(editingLevel, tiles);
       }
+    } else if (
+      fullTilesForSave.length === activeFile.grid.rows * activeFile.grid.columns &&
+      !sameTiles(fullTilesForSave, activeFile.tiles)
+    ) {
+      updateActiveFileTilesL1(fullTilesForSave);
     }
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [undoSideEffectVersion]);
+  };
 
-  /** Restore other-layer data when redoing an operation with side effects. */
-  useEffect(() => {
-    const sideEffect = lastRedoSideEffectRef.current;
-    if (!sideEffect || !activeFile) return;
-    const { postClear } = sideEffect;
-    const rows = activeFile.grid?.rows ?? 0;
-    const cols = activeFile.grid?.columns ?? 0;
-    for (const levelStr of Object.keys(postClear)) {
-      const level = parseInt(levelStr, 10);
-      if (level === editingLevel) continue;
-      const tiles = postClear[level];
-      if (tiles === undefined) continue;
-      if (level === 1) {
-        upsertActiveFile({
-          ...activeFile,
-          tiles,
-          gridLayout: { rows, columns: cols, tileSize: activeFile.preferredTileSize },
-          category: activeFile.category,
-          categories: activeFile.categories,
-          preferredTileSize: activeFile.preferredTileSize,
-        });
-      } else {
-        updateActiveFileLayer(level, tiles);
-      }
+  /** File whose open undo step may hold edits that have not reached its undo log yet. */
+  const [pendingUndoFileId, setPendingUndoFileId] = useState<string | null>(null);
+  /** Start a new undo step: everything edited from here on (any layer) is undone together. */
+  const startUndoStep = () => {
+    if (viewMode !== 'modify' || isHydratingFile) return;
+    syncGridToFile();
+    beginUndoStep();
+    setPendingUndoFileId(activeFile?.id ?? null);
+  };
+  const canUndo =
+    (!!activeFile && pendingUndoFileId === activeFile.id) || (activeFile?.undoLog?.past.length ?? 0) > 0;
+  const canRedo = (activeFile?.undoLog?.future.length ?? 0) > 0;
+
+  /** Undo or redo the active file's last step and reload the grid from the file. */
+  const applyFileUndo = (direction: 'undo' | 'redo') => {
+    if (direction === 'undo' ? !canUndo : !canRedo) return;
+    if (finerLayerFlushTimerRef.current) {
+      clearTimeout(finerLayerFlushTimerRef.current);
+      finerLayerFlushTimerRef.current = null;
     }
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [redoSideEffectVersion]);
+    syncGridToFile();
+    if (saveTimeoutRef.current) {
+      clearTimeout(saveTimeoutRef.current);
+      saveTimeoutRef.current = null;
+    }
+    setPendingUndoFileId(null);
+    reloadGridFromFileRef.current = true;
+    if (direction === 'undo') {
+      undoActiveFile();
+    } else {
+      redoActiveFile();
+    }
+  };
+  const undo = () => applyFileUndo('undo');
+  const redo = () => applyFileUndo('redo');
 
   const tilesSignature = useMemo(
     () =>
@@ -2350,17 +2490,9 @@ export default function TestScreen() {
                 selectedPattern, editingLevel
               )
             : null;
+        startUndoStep();
         if (isEditingHigherLayer) {
-          const pre = snapshotOtherLayers(activeFile, editingLevel, maxDisplayLevel);
-          const postTilesMap = applyPatternFloodToAllLayers(false);
-          if (Object.keys(pre).length > 0) {
-            const postClear: Record<number, Tile[]> = {};
-            for (const levelStr of Object.keys(pre)) {
-              const lv = parseInt(levelStr, 10);
-              postClear[lv] = postTilesMap[lv] ?? pre[lv];
-            }
-            pendingUndoSideEffectRef.current = { preClear: pre, postClear };
-          }
+          applyPatternFloodToAllLayers(false);
         }
         floodFill(_pfOrigin?.row, _pfOrigin?.col);
         if (!isEditingHigherLayer) {
@@ -2779,6 +2911,7 @@ export default function TestScreen() {
       lineColor: activeLineColor,
       tileSetIds: selectedTileSetIds,
       sourceNames: initialSources,
+      folderId: currentFolderId,
     });
     setFileSourceNames(initialSources);
     setZoomRegion(null);
@@ -2805,6 +2938,7 @@ export default function TestScreen() {
     selectedTileSetIds,
     getSourcesForSelection,
     createFile,
+    currentFolderId,
     activeLineWidth,
     activeLineColor,
     availableWidth,
@@ -3172,6 +3306,7 @@ export default function TestScreen() {
   useEffect(() => {
     fileSourcesReadyRef.current = false;
     fileSourcesInitIdRef.current = null;
+    setShowReconcileSeams(false);
   }, [activeFileId]);
 
   const remapTilesForCategories = useCallback(
@@ -4053,6 +4188,21 @@ export default function TestScreen() {
     upsertActiveFile,
   ]);
 
+  // Version history: each background save of the open file records an auto snapshot of the
+  // saved tiles (unchanged files are skipped and a burst of saves keeps one entry).
+  const recordAutoSnapshot = useCallback((savedTiles: Tile[], savedLayout: { rows: number; columns: number }) => {
+    const file = activeFileRef.current;
+    if (!file) {
+      return;
+    }
+    const snapshotFile: TileFile = {
+      ...file,
+      tiles: savedTiles,
+      grid: { rows: savedLayout.rows, columns: savedLayout.columns },
+    };
+    void recordFileSnapshot(snapshotFile, null).catch(() => {});
+  }, []);
+
   useEffect(() => {
     if (!ready || !activeFileId || viewMode !== 'modify') {
       return;
@@ -4118,6 +4268,7 @@ export default function TestScreen() {
           payload.sourceNames = resolvedSourceNames;
         }
         upsertActiveFile(payload);
+        recordAutoSnapshot(payload.tiles, payload.gridLayout);
       })();
     }, 150);
     if (previewSaveTimeoutRef.current) {
@@ -4319,6 +4470,7 @@ export default function TestScreen() {
     ready,
     activeFileId,
     upsertActiveFile,
+    recordAutoSnapshot,
     isHydratingFile,
     gridVisible,
     isCapturingPreview,
@@ -4484,6 +4636,7 @@ export default function TestScreen() {
 
   const clearCanvas = () => {
     clearSequenceRef.current += 1;
+    startUndoStep();
     if (canvasSelection) {
       const emptyTile = { imageIndex: -1, rotation: 0, mirrorX: false, mirrorY: false };
       const fullCols = activeFile?.grid?.columns ?? 0;
@@ -4494,24 +4647,18 @@ export default function TestScreen() {
       }
       // Clear selected region on all OTHER unlocked/visible layers
       if (activeFile && fullCols > 0 && fullRows > 0) {
-        const startRow = Math.floor(canvasSelection.start / fullCols);
-        const startCol = canvasSelection.start % fullCols;
-        const endRow = Math.floor(canvasSelection.end / fullCols);
-        const endCol = canvasSelection.end % fullCols;
-        const minRow = Math.min(startRow, endRow);
-        const maxRow = Math.max(startRow, endRow);
-        const minCol = Math.min(startCol, endCol);
-        const maxCol = Math.max(startCol, endCol);
+        // A layer cell is cleared when its whole footprint is selected (see mapSelectionToLevel).
+        const getLayerSelectedCells = (info: LevelGridInfo) => {
+          const layerSelection = mapSelectionToLevel(canvasSelection, fullCols, info.cells, info.levelCols);
+          return new Set(layerSelection ? getSelectionCells(layerSelection, info.levelCols) : []);
+        };
         // Clear L1 if not the current editing level
         if (editingLevel !== 1 && !isLayerLocked(activeFile, 1) && isLayerVisible(activeFile, 1)) {
           const lockedL1Set = new Set(activeFile.lockedCells ?? []);
           const currentL1 = activeFile.tiles ? [...activeFile.tiles] : buildInitialTiles(fullRows * fullCols);
-          for (let r = minRow; r <= maxRow; r++) {
-            for (let c = minCol; c <= maxCol; c++) {
-              const idx = r * fullCols + c;
-              if (!lockedL1Set.has(idx) && idx < currentL1.length) {
-                currentL1[idx] = { ...emptyTile };
-              }
+          for (const idx of getSelectionCells(canvasSelection, fullCols)) {
+            if (!lockedL1Set.has(idx) && idx < currentL1.length) {
+              currentL1[idx] = { ...emptyTile };
             }
           }
           upsertActiveFile({
@@ -4532,13 +4679,9 @@ export default function TestScreen() {
           const lockedL2Set = new Set(activeFile.lockedCellsPerLayer?.[2] ?? []);
           const l2Count = level2GridInfo.cells.length;
           const currentL2 = activeFile.layers?.[2] ? [...activeFile.layers[2]] : Array.from({ length: l2Count }, () => ({ ...emptyTile }));
-          level2GridInfo.cells.forEach((cell, idx) => {
-            if (
-              cell.minRow >= minRow && cell.maxRow <= maxRow &&
-              cell.minCol >= minCol && cell.maxCol <= maxCol &&
-              !lockedL2Set.has(idx)
-            ) {
-              if (idx < currentL2.length) currentL2[idx] = { ...emptyTile };
+          getLayerSelectedCells(level2GridInfo).forEach((idx) => {
+            if (!lockedL2Set.has(idx) && idx < currentL2.length) {
+              currentL2[idx] = { ...emptyTile };
             }
           });
           updateActiveFileLayer(2, currentL2);
@@ -4548,13 +4691,9 @@ export default function TestScreen() {
           const lockedL3Set = new Set(activeFile.lockedCellsPerLayer?.[3] ?? []);
           const l3Count = level3GridInfo.cells.length;
           const currentL3 = activeFile.layers?.[3] ? [...activeFile.layers[3]] : Array.from({ length: l3Count }, () => ({ ...emptyTile }));
-          level3GridInfo.cells.forEach((cell, idx) => {
-            if (
-              cell.minRow >= minRow && cell.maxRow <= maxRow &&
-              cell.minCol >= minCol && cell.maxCol <= maxCol &&
-              !lockedL3Set.has(idx)
-            ) {
-              if (idx < currentL3.length) currentL3[idx] = { ...emptyTile };
+          getLayerSelectedCells(level3GridInfo).forEach((idx) => {
+            if (!lockedL3Set.has(idx) && idx < currentL3.length) {
+              currentL3[idx] = { ...emptyTile };
             }
           });
           updateActiveFileLayer(3, currentL3);
@@ -4638,26 +4777,6 @@ export default function TestScreen() {
     }
     if (l2Count > 0) updateActiveFileLayer(2, newL2);
     if (l3Count > 0) updateActiveFileLayer(3, newL3);
-    // Attach side-effect data to the undo entry so other layers can be restored on undo/redo.
-    {
-      const preClear: { [level: number]: Tile[] } = {};
-      const postClear: { [level: number]: Tile[] } = {};
-      if (editingLevel !== 1 && activeFile && !isLayerLocked(activeFile, 1)) {
-        preClear[1] = activeFile.tiles ?? [];
-        postClear[1] = newTiles;
-      }
-      if (editingLevel !== 2 && l2Count > 0 && activeFile && !isLayerLocked(activeFile, 2)) {
-        preClear[2] = activeFile.layers?.[2] ?? [];
-        postClear[2] = newL2;
-      }
-      if (editingLevel !== 3 && l3Count > 0 && activeFile && !isLayerLocked(activeFile, 3)) {
-        preClear[3] = activeFile.layers?.[3] ?? [];
-        postClear[3] = newL3;
-      }
-      if (Object.keys(preClear).length > 0) {
-        pendingUndoSideEffectRef.current = { preClear, postClear };
-      }
-    }
     resetTiles();
     requestAnimationFrame(() => {
       requestAnimationFrame(() => {
@@ -4812,11 +4931,6 @@ export default function TestScreen() {
         if (Object.keys(cellUpdates).length > 0) {
           if (!finerLayerPendingRef.current[M]) finerLayerPendingRef.current[M] = {};
           Object.assign(finerLayerPendingRef.current[M], cellUpdates);
-          // Accumulate for drag-stroke undo side-effect
-          if (dragLayerPreSnapshotRef.current) {
-            if (!dragLayerAccumulatedRef.current[M]) dragLayerAccumulatedRef.current[M] = {};
-            Object.assign(dragLayerAccumulatedRef.current[M], cellUpdates);
-          }
         }
       }
       scheduleFinerLayerFlush();
@@ -4953,6 +5067,129 @@ export default function TestScreen() {
 
   const fullGridRows = activeFile?.grid.rows ?? 0;
 
+  /** Freeform selections (selection.cells) are outlined edge by edge instead of with canvasSelectionRect. */
+  const canvasSelectionEdges = useMemo(() => {
+    if (!canvasSelection?.cells || fullGridColumnsForMapping <= 0 || fullGridRows <= 0) return [];
+    const fullCols = fullGridColumnsForMapping;
+    const tileSize = zoomRegion ? effectiveTileSize : level1DisplayLayout.tileSize;
+    const originRow = zoomRegion?.minRow ?? 0;
+    const originCol = zoomRegion?.minCol ?? 0;
+    const visRows = zoomRegion ? zoomRegion.maxRow - zoomRegion.minRow + 1 : fullGridRows;
+    const visCols = zoomRegion ? zoomRegion.maxCol - zoomRegion.minCol + 1 : fullCols;
+    const visibleCells: number[] = [];
+    for (const index of canvasSelection.cells) {
+      const row = Math.floor(index / fullCols) - originRow;
+      const col = (index % fullCols) - originCol;
+      if (row >= 0 && row < visRows && col >= 0 && col < visCols) {
+        visibleCells.push(row * visCols + col);
+      }
+    }
+    return getLockedBoundaryEdges(visibleCells, visCols, visRows, tileSize, GRID_GAP);
+  }, [canvasSelection, fullGridColumnsForMapping, fullGridRows, zoomRegion, effectiveTileSize, level1DisplayLayout.tileSize]);
+
+  /** Level-1 cells under these canvas cells (a higher-layer cell covers a block of level-1 cells). */
+  const getLevel1CellsForCanvasCells = (canvasCells: number[]) =>
+    canvasCells.flatMap((cellIndex) => {
+      const b = getLevel1BoundsForCanvasCell(cellIndex);
+      return fullGridColumnsForMapping > 0
+        ? getCellIndicesInRegion(b.minIdx, b.maxIdx, fullGridColumnsForMapping)
+        : [b.minIdx];
+    });
+
+  const getSelectionTileConnections = (tile: Tile) => {
+    const name = tile.name ?? (tileSources as TileSource[])[tile.imageIndex]?.name;
+    return name ? getTransformedConnectionsForName(name, tile.rotation, tile.mirrorX, tile.mirrorY) : null;
+  };
+
+  /** Same-tile and connected picks, made on the editing layer and returned as level-1 cells. */
+  const getPickedSelectionCells = (cellIndex: number, tool: 'sameTile' | 'connected') => {
+    const higher = isEditingHigherLayer && levelGridInfo ? levelGridInfo : null;
+    const layerIndex = higher ? cellIndex : getFullIndexForCanvas(cellIndex);
+    const layerCells =
+      tool === 'sameTile'
+        ? getCellsWithSameTile(fullTilesForSave, layerIndex)
+        : getConnectedCells(
+            {
+              tiles: fullTilesForSave,
+              columns: higher ? higher.levelCols : fullGridColumnsForMapping,
+              rows: higher ? higher.levelRows : fullGridRows,
+              getConnections: getSelectionTileConnections,
+              wrap: !higher && activeFile?.tileable === true,
+            },
+            layerIndex
+          );
+    if (!higher) return layerCells;
+    return layerCells.flatMap((index) => {
+      const cell = higher.cells[index];
+      return cell ? getFootprintCells(cell, fullGridColumnsForMapping) : [];
+    });
+  };
+
+  const applySelectionGestureCells = (cells: number[]) => {
+    const gesture = selectionGestureRef.current;
+    if (!gesture) return;
+    setCanvasSelection(
+      combineSelection(gesture.base, cells, selectionCombineMode, fullGridColumnsForMapping)
+    );
+  };
+
+  /**
+   * Selection gestures (mouse, web touch and native touch all call these). The rectangle tool
+   * in Replace mode keeps the original grow-only drag; the other tools and combine modes
+   * rebuild the gesture's cells on each move and combine them with the selection from the
+   * start of the drag.
+   */
+  const beginSelectionGesture = (cellIndex: number) => {
+    selectionGestureRef.current = { base: canvasSelection, path: [cellIndex] };
+    if (selectionTool === 'rect' && selectionCombineMode === 'replace') {
+      const b = getLevel1BoundsForCanvasCell(cellIndex);
+      setCanvasSelection({ start: b.minIdx, end: b.maxIdx });
+      return;
+    }
+    if (selectionTool === 'sameTile' || selectionTool === 'connected') {
+      applySelectionGestureCells(getPickedSelectionCells(cellIndex, selectionTool));
+      return;
+    }
+    applySelectionGestureCells(getLevel1CellsForCanvasCells([cellIndex]));
+  };
+
+  const extendSelectionGesture = (cellIndex: number) => {
+    if (selectionTool === 'rect' && selectionCombineMode === 'replace') {
+      const b = getLevel1BoundsForCanvasCell(cellIndex);
+      setCanvasSelection((prev) =>
+        prev
+          ? {
+              start: Math.min(prev.start, b.minIdx),
+              end: Math.max(prev.end, b.maxIdx),
+            }
+          : prev
+      );
+      return;
+    }
+    const gesture = selectionGestureRef.current;
+    if (!gesture || selectionTool === 'sameTile' || selectionTool === 'connected') return;
+    if (gesture.path[gesture.path.length - 1] === cellIndex) return;
+    gesture.path.push(cellIndex);
+    const canvasCells =
+      selectionTool === 'lasso'
+        ? getLassoCells(gesture.path, gridLayout.columns, gridLayout.rows)
+        : getCellIndicesInRegion(gesture.path[0], cellIndex, gridLayout.columns);
+    applySelectionGestureCells(getLevel1CellsForCanvasCells(canvasCells));
+  };
+
+  const endSelectionGesture = () => {
+    selectionGestureRef.current = null;
+    // A tap with the rectangle tool clears the selection.
+    if (
+      selectionTool === 'rect' &&
+      selectionCombineMode === 'replace' &&
+      canvasSelection &&
+      canvasSelection.start === canvasSelection.end
+    ) {
+      setCanvasSelection(null);
+    }
+  };
+
   const movePreviewRect = useMemo(() => {
     if (!isMoveMode || !canvasSelection || !moveDragOffset || !selectionBoundsFullGrid) {
       return null;
@@ -5191,6 +5428,15 @@ export default function TestScreen() {
       const rotCW = ((rotation % 360) + 360) % 360;
       const { rotW, rotH } = getRotatedDimensions(rotCW, patternWidth, patternHeight);
       const { levelCols: mCols, levelRows: mRows } = mInfo;
+      const extraTransforms = getExtraSymmetryTransforms(
+        {
+          mirrorHorizontal: settings.mirrorHorizontal,
+          mirrorVertical: settings.mirrorVertical,
+          symmetryMode: settings.symmetryMode,
+        },
+        mRows,
+        mCols
+      );
       const rot = normalizeRotationCW(rotCW);
       const cellUpdates: Record<number, Tile> = {};
       for (let dr = 0; dr < rotH; dr++) {
@@ -5229,6 +5475,10 @@ export default function TestScreen() {
             if (mrm >= 0 && mrm < mRows && mcm >= 0 && mcm < mCols)
               cellUpdates[mrm * mCols + mcm] = { ...primaryTile, rotation: (primaryTile.rotation + 180) % 360 };
           }
+          for (const transform of extraTransforms) {
+            const image = transformCell(mr, mc, mRows, mCols, transform);
+            if (image) cellUpdates[image.row * mCols + image.col] = transformTileBySymmetry(primaryTile, transform);
+          }
         }
       }
       if (Object.keys(cellUpdates).length > 0) {
@@ -5237,7 +5487,14 @@ export default function TestScreen() {
       }
       return null;
     },
-    [activeFile?.grid.columns, activeFile?.grid.rows, updateActiveFileLayerCells, settings.mirrorHorizontal, settings.mirrorVertical]
+    [
+      activeFile?.grid.columns,
+      activeFile?.grid.rows,
+      updateActiveFileLayerCells,
+      settings.mirrorHorizontal,
+      settings.mirrorVertical,
+      settings.symmetryMode,
+    ]
   );
 
   const stampPreviewRect = useMemo(() => {
@@ -5375,11 +5632,13 @@ export default function TestScreen() {
       setShowPatternSaveModal(false);
       return;
     }
+    // Cells outside a freeform selection are left empty in the pattern.
+    const shapeCells = patternSelection.cells ? new Set(patternSelection.cells) : null;
     const nextTiles: Tile[] = [];
     for (let row = minRow; row <= maxRow; row += 1) {
       for (let col = minCol; col <= maxCol; col += 1) {
         const index = row * gridLayout.columns + col;
-        const tile = tiles[index] ?? {
+        const tile = (!shapeCells || shapeCells.has(index) ? tiles[index] : undefined) ?? {
           imageIndex: -1,
           rotation: 0,
           mirrorX: false,
@@ -5409,6 +5668,15 @@ export default function TestScreen() {
             if (cell.maxCol > l1MaxCol) l1MaxCol = cell.maxCol;
           }
         }
+        // Level-1 cells under a freeform selection; finer cells outside it are left empty.
+        const l1ShapeCells = shapeCells
+          ? new Set(
+              [...shapeCells].flatMap((cellIdx) => {
+                const cell = levelGridInfo.cells[cellIdx];
+                return cell ? getFootprintCells(cell, gridCols) : [];
+              })
+            )
+          : null;
         if (l1MinRow !== Infinity) {
           allLayerCaptures = {};
           for (let M = 1; M < editingLevel; M++) {
@@ -5436,7 +5704,10 @@ export default function TestScreen() {
             const mTiles: Tile[] = [];
             for (let mr = mMinRow; mr <= mMaxRow; mr++) {
               for (let mc = mMinCol; mc <= mMaxCol; mc++) {
-                const src = sourceTiles[mr * mLevelCols + mc];
+                const mCell = mInfo.cells[mr * mLevelCols + mc];
+                const inShape =
+                  !l1ShapeCells || (mCell && getFootprintCells(mCell, gridCols).every((i) => l1ShapeCells.has(i)));
+                const src = inShape ? sourceTiles[mr * mLevelCols + mc] : undefined;
                 mTiles.push(src ? { ...src } : { imageIndex: -1, rotation: 0, mirrorX: false, mirrorY: false });
               }
             }
@@ -5603,6 +5874,50 @@ export default function TestScreen() {
     return postTilesMap;
   };
 
+  /**
+   * Store seed on the active file, restart the random stream from it and run Flood.
+   * Same seed + palette + locks/selection reproduces the same canvas.
+   */
+  const rerollFloodWithSeed = (seed: number) => {
+    if (!canEditCurrentLayer) return;
+    if (pendingFloodCompleteRef.current) {
+      clearTimeout(pendingFloodCompleteRef.current);
+      pendingFloodCompleteRef.current = null;
+    }
+    updateActiveFileSeed(seed);
+    reseedRandom(seed);
+    const _pfOrigin =
+      brush.mode === 'pattern' && selectedPattern && activeFile
+        ? getPatternFloodOrigin(
+            activeFile.grid.columns, activeFile.grid.rows,
+            selectedPattern, editingLevel
+          )
+        : null;
+    startUndoStep();
+    if (isEditingHigherLayer) {
+      applyPatternFloodToAllLayers(false);
+    }
+    floodFill(_pfOrigin?.row, _pfOrigin?.col);
+    if (!isEditingHigherLayer) {
+      applyPatternFloodToAllLayers(false);
+    }
+  };
+
+  const handleConfirmSeedDialog = () => {
+    const seed = normalizeSeed(seedDraft);
+    if (seed === null) {
+      const message = 'Seed must be a whole number from 0 to 4294967295.';
+      if (Platform.OS === 'web') {
+        window.alert(message);
+      } else {
+        Alert.alert('Invalid seed', message);
+      }
+      return;
+    }
+    setShowSeedDialog(false);
+    rerollFloodWithSeed(seed);
+  };
+
   const pendingPatternPreview = useMemo(() => {
     if (!patternSelection || gridLayout.columns === 0) {
       return null;
@@ -5627,12 +5942,14 @@ export default function TestScreen() {
       Math.floor(120 / Math.max(1, height))
     );
     // Base layer tiles (current editing layer)
+    const shapeCells = patternSelection.cells ? new Set(patternSelection.cells) : null;
     const baseTiles: Tile[] = [];
     for (let row = minRow; row <= maxRow; row += 1) {
       for (let col = minCol; col <= maxCol; col += 1) {
         const index = row * gridLayout.columns + col;
         baseTiles.push(
-          tiles[index] ?? { imageIndex: -1, rotation: 0, mirrorX: false, mirrorY: false }
+          (!shapeCells || shapeCells.has(index) ? tiles[index] : undefined) ??
+            { imageIndex: -1, rotation: 0, mirrorX: false, mirrorY: false }
         );
       }
     }
@@ -5654,6 +5971,15 @@ export default function TestScreen() {
             if (cell.maxCol > l1MaxCol) l1MaxCol = cell.maxCol;
           }
         }
+        // Level-1 cells under a freeform selection; finer cells outside it are left empty.
+        const l1ShapeCells = shapeCells
+          ? new Set(
+              [...shapeCells].flatMap((cellIdx) => {
+                const cell = levelGridInfo.cells[cellIdx];
+                return cell ? getFootprintCells(cell, gridCols) : [];
+              })
+            )
+          : null;
         if (l1MinRow !== Infinity) {
           layerTiles = {};
           for (let M = 1; M < editingLevel; M++) {
@@ -5681,7 +6007,10 @@ export default function TestScreen() {
             const mTiles: Tile[] = [];
             for (let mr = mMinRow; mr <= mMaxRow; mr++) {
               for (let mc = mMinCol; mc <= mMaxCol; mc++) {
-                const src = sourceTiles[mr * mLevelCols + mc];
+                const mCell = mInfo.cells[mr * mLevelCols + mc];
+                const inShape =
+                  !l1ShapeCells || (mCell && getFootprintCells(mCell, gridCols).every((i) => l1ShapeCells.has(i)));
+                const src = inShape ? sourceTiles[mr * mLevelCols + mc] : undefined;
                 mTiles.push(src ? { ...src } : { imageIndex: -1, rotation: 0, mirrorX: false, mirrorY: false });
               }
             }
@@ -5796,6 +6125,7 @@ export default function TestScreen() {
             ? fileSourceNames
             : tileSources.map((source) => source.name),
       });
+      recordAutoSnapshot(tilesForSaveImage, gridLayoutForSaveImage);
       if (fileSourceNames.length === 0 && tileSources.length > 0) {
         setFileSourceNames(tileSources.map((source) => source.name));
       }
@@ -5843,6 +6173,7 @@ export default function TestScreen() {
           ? fileSourceNames
           : tileSources.map((source) => source.name),
     });
+    recordAutoSnapshot(tilesForSaveImage, gridLayoutForSaveImage);
     if (fileSourceNames.length === 0 && tileSources.length > 0) {
       setFileSourceNames(tileSources.map((source) => source.name));
     }
@@ -5893,7 +6224,7 @@ export default function TestScreen() {
     }
     flushFinerLayerPending();
     await persistActiveFileNow();
-    const file = files.find((entry) => entry.id === fileId);
+    const [file] = await loadFileBodies([fileId]);
     if (!file) {
       return;
     }
@@ -5908,19 +6239,51 @@ export default function TestScreen() {
   };
 
   const applyImportedTileFile = useCallback(
-    (content: string) => {
+    (content: string, fileName?: string) => {
+      if (isTiledMapText(content)) {
+        const parsed = parseTiledMap(content);
+        const result = parsed.ok
+          ? tiledMapToTileFile(parsed.map, {
+              name: fileName?.replace(/\.[^.]+$/, '') || 'Tiled map',
+              category: selectedCategories[0] ?? DEFAULT_CATEGORY,
+              isKnownName: (name) => {
+                const resolved = resolveSourceName(name, []);
+                return !!resolved && resolved.source !== ERROR_TILE;
+              },
+            })
+          : parsed;
+        if (!result.ok) {
+          if (Platform.OS === 'web') {
+            window.alert(result.error);
+          } else {
+            Alert.alert('Invalid Tiled map', result.error);
+          }
+          return;
+        }
+        createFileFromTileData(result.payload, { folderId: currentFolderId });
+        setZoomRegion(null);
+        setLoadRequestId((prev) => prev + 1);
+        setLoadPreviewUri(null);
+        setSuspendTiles(true);
+        setLoadedToken(0);
+        setHydrating(true);
+        setShowModifyTileSetBanner(false);
+        setViewMode('modify');
+        return;
+      }
       const bundleResult = deserializeBundle(content);
       if (bundleResult.ok && bundleResult.kind === 'fileBundle') {
         const oldToNewSetId = new Map<string, string>();
         for (const { setId, payload } of bundleResult.payload.tileSets) {
-          const newId = importTileSet(payload, { preserveBakedNames: true });
+          const newId = importTileSet(normalizeBundledTileSet(payload), { preserveBakedNames: true });
           oldToNewSetId.set(setId, newId);
         }
+        const fileResult = deserializeTileFile(JSON.stringify(bundleResult.payload.file));
         const remapped = remapFilePayload(
-          bundleResult.payload.file,
+          fileResult.ok ? fileResult.payload : bundleResult.payload.file,
           oldToNewSetId
         );
-        createFileFromTileData(remapped);
+        createFileFromTileData(remapped, { folderId: currentFolderId });
         setZoomRegion(null);
         setLoadRequestId((prev) => prev + 1);
         setLoadPreviewUri(null);
@@ -5940,7 +6303,7 @@ export default function TestScreen() {
         }
         return;
       }
-      const newId = createFileFromTileData(result.payload);
+      const newId = createFileFromTileData(result.payload, { folderId: currentFolderId });
       setZoomRegion(null);
       setLoadRequestId((prev) => prev + 1);
       setLoadPreviewUri(null);
@@ -5950,7 +6313,7 @@ export default function TestScreen() {
       setShowModifyTileSetBanner(false);
       setViewMode('modify');
     },
-    [createFileFromTileData, importTileSet]
+    [createFileFromTileData, currentFolderId, importTileSet, resolveSourceName, selectedCategories]
   );
 
   const handleImportTileFilePress = useCallback(async () => {
@@ -5966,11 +6329,14 @@ export default function TestScreen() {
       if (result.canceled) {
         return;
       }
-      const uri = result.assets[0].uri;
+      const { uri, name } = result.assets[0];
       const content = await FileSystem.readAsStringAsync(uri, {
         encoding: FileSystem.EncodingType.UTF8,
       });
-      applyImportedTileFile(content);
+      if (!isTiledMapText(content) && !(await confirmImportText(content, 'file', 'Invalid .tile file'))) {
+        return;
+      }
+      applyImportedTileFile(content, name);
     } catch {
       Alert.alert('Import failed', 'Could not read the selected file.');
     }
@@ -5986,7 +6352,7 @@ export default function TestScreen() {
     }
     const input = document.createElement('input');
     input.type = 'file';
-    input.accept = '.tile,.json,application/octet-stream';
+    input.accept = '.tile,.json,.tmx,application/octet-stream';
     input.style.display = 'none';
     input.onchange = (e: Event) => {
       const target = e.target as HTMLInputElement;
@@ -5995,9 +6361,12 @@ export default function TestScreen() {
         return;
       }
       const reader = new FileReader();
-      reader.onload = () => {
+      reader.onload = async () => {
         const text = reader.result as string;
-        applyImportedTileFileRef.current(text);
+        if (!isTiledMapText(text) && !(await confirmImportText(text, 'file', 'Invalid .tile file'))) {
+          return;
+        }
+        applyImportedTileFileRef.current(text, file.name);
       };
       reader.readAsText(file);
       target.value = '';
@@ -6040,17 +6409,224 @@ export default function TestScreen() {
     clearSelection();
   };
 
+  const saveFolderName = () => {
+    const name = folderNameDraft?.name.trim() ?? '';
+    if (folderNameDraft && name.length > 0) {
+      if (folderNameDraft.id === null) {
+        createFolder(name, currentFolderId);
+      } else {
+        renameFolder(folderNameDraft.id, name);
+      }
+    }
+    setFolderNameDraft(null);
+  };
+
+  /** Deleting a folder keeps its contents: they move up into its parent (see deleteFolder). */
+  const confirmDeleteFolder = (folderId: string) => {
+    const folder = folders.find((entry) => entry.id === folderId);
+    if (!folder) return;
+    const parent = folders.find((entry) => entry.id === folder.parentId);
+    const fileCount = countFolderFiles(files, folders, folderId);
+    const message = `Delete folder "${folder.name}"? Its ${fileCount} file${fileCount === 1 ? '' : 's'} and folders move to ${parent ? `"${parent.name}"` : 'the top level'}.`;
+    if (Platform.OS === 'web') {
+      if (window.confirm(message)) {
+        deleteFolder(folderId);
+      }
+    } else {
+      Alert.alert('Delete folder?', message, [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => deleteFolder(folderId) },
+      ]);
+    }
+  };
+
+  const moveToFolder = (folderId: string | null) => {
+    if (moveToFolderTarget && 'fileIds' in moveToFolderTarget) {
+      moveFilesToFolder(moveToFolderTarget.fileIds, folderId);
+      if (isSelectMode) {
+        clearSelection();
+      }
+    } else if (moveToFolderTarget) {
+      moveFolder(moveToFolderTarget.folderId, folderId);
+    }
+    setMoveToFolderTarget(null);
+  };
+
+  const openFileTags = (fileId: string) => {
+    const file = files.find((entry) => entry.id === fileId);
+    setTagsDraft((file?.tags ?? []).join(', '));
+    setTagsTargetId(fileId);
+  };
+
+  const saveFileTags = () => {
+    if (tagsTargetId) {
+      setFileTags(tagsTargetId, normalizeTags(tagsDraft));
+    }
+    setTagsTargetId(null);
+  };
+
   const selectedFiles = useMemo(
     () => files.filter((f) => selectedFileIds.has(f.id)),
     [files, selectedFileIds]
   );
 
-  const exportSelectedPatternsAsTile = useCallback(async () => {
-    if (selectedPatternIdsForExport.length === 0) {
-      setShowPatternExportMenu(false);
+  // Files are listed before their tiles are read (hooks/use-tile-files.ts): read the ones the
+  // File view draws from tiles or is about to export, download or duplicate.
+  useEffect(() => {
+    const ids = files
+      .filter(
+        (file) =>
+          selectedFileIds.has(file.id) ||
+          file.id === fileMenuTargetId ||
+          file.id === downloadTargetId ||
+          !hasCachedThumbnail(file)
+      )
+      .map((file) => file.id);
+    if (ids.length > 0) {
+      void loadFileBodies(ids);
+    }
+  }, [files, selectedFileIds, fileMenuTargetId, downloadTargetId, loadFileBodies]);
+
+  /** Everything a library backup holds, with every file's body loaded. */
+  const collectLibrary = async (): Promise<LibraryContents> => {
+    await persistActiveFileNow();
+    const [loadedFiles, preferences] = await Promise.all([
+      loadFileBodies(files.map((file) => file.id)),
+      readStoredPreferences(),
+    ]);
+    return { files: loadedFiles, folders, tileSets: userTileSets, patterns, ...preferences };
+  };
+
+  const backUpLibrary = async () => {
+    try {
+      const zip = createLibraryBackupZip(await collectLibrary());
+      const fileName = `tile-library-${new Date().toISOString().slice(0, 10)}.zip`;
+      if (Platform.OS === 'web') {
+        const blob = await zip.generateAsync({ type: 'blob' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = fileName;
+        document.body.appendChild(link);
+        link.click();
+        link.remove();
+        URL.revokeObjectURL(url);
+      } else {
+        const target = `${FileSystem.cacheDirectory}${fileName}`;
+        await FileSystem.writeAsStringAsync(target, await zip.generateAsync({ type: 'base64' }), {
+          encoding: FileSystem.EncodingType.Base64,
+        });
+        if (await Sharing.isAvailableAsync()) {
+          await Sharing.shareAsync(target, { mimeType: 'application/zip' });
+        }
+      }
+    } catch (error) {
+      console.warn('Failed to back up library', error);
+      if (Platform.OS === 'web') {
+        window.alert('Backup failed.');
+      } else {
+        Alert.alert('Backup failed', 'Could not write the library backup.');
+      }
+    }
+  };
+
+  const restoreLibraryBackup = async (
+    data: ArrayBuffer | string,
+    options?: { base64?: boolean }
+  ) => {
+    const showMessage = (title: string, message: string) => {
+      if (Platform.OS === 'web') {
+        window.alert(`${title}\n\n${message}`);
+      } else {
+        Alert.alert(title, message);
+      }
+    };
+    const result = await readLibraryBackupZip(data, options);
+    if (!result.ok) {
+      showMessage('Invalid library backup', result.error);
       return;
     }
-    const selectedPatternsList = activePatterns.filter((p) =>
+    const backup = result.library;
+    const summary = [
+      `Backup from ${new Date(result.createdAt).toLocaleString()}: ${backup.files.length} files, ${backup.tileSets.length} tile sets, ${backup.patterns.length} patterns.`,
+      ...(result.skipped.length > 0
+        ? [`${result.skipped.length} unreadable entries will be skipped (${result.skipped.slice(0, 3).join(', ')}${result.skipped.length > 3 ? ', …' : ''}).`]
+        : []),
+    ].join('\n');
+    const mode = await chooseLibraryRestoreMode(summary);
+    if (!mode) {
+      return;
+    }
+    const current = await collectLibrary();
+    let policy: LibraryConflictPolicy = 'keepCurrent';
+    if (mode === 'merge') {
+      const conflicts = findLibraryConflicts(current, backup);
+      const count = conflicts.files.length + conflicts.tileSets.length + conflicts.patterns.length;
+      if (count > 0) {
+        const chosen = await chooseLibraryConflictPolicy(count);
+        if (!chosen) {
+          return;
+        }
+        policy = chosen;
+      }
+    }
+    const next = restoreLibrary(current, backup, mode, policy);
+    const preservedDeveloperMode = settings.developerMode;
+    try {
+      await writeLibraryToStorage(next);
+    } catch (error) {
+      console.warn('Failed to restore library', error);
+      showMessage('Restore failed', 'Could not write the restored library.');
+      return;
+    }
+    await Promise.all([reloadFiles(), reloadTileSets(), reloadPatterns(), reloadBrushFavorites()]);
+    if (next.settings) {
+      await reloadSettings();
+      setSettings((prev) => ({ ...prev, developerMode: preservedDeveloperMode }));
+    } else {
+      setSettings({ ...getDefaultSettings(), developerMode: preservedDeveloperMode });
+    }
+    setShowSettingsOverlay(false);
+    setViewMode('file');
+  };
+
+  const pickLibraryBackup = async () => {
+    if (Platform.OS === 'web') {
+      const input = document.createElement('input');
+      input.type = 'file';
+      input.accept = '.zip,application/zip';
+      input.onchange = async () => {
+        const file = input.files?.[0];
+        if (file) {
+          await restoreLibraryBackup(await file.arrayBuffer());
+        }
+      };
+      input.click();
+      return;
+    }
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['application/zip', 'application/octet-stream'],
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled) {
+        return;
+      }
+      const base64 = await FileSystem.readAsStringAsync(result.assets[0].uri, {
+        encoding: FileSystem.EncodingType.Base64,
+      });
+      await restoreLibraryBackup(base64, { base64: true });
+    } catch {
+      Alert.alert('Restore failed', 'Could not read the selected file.');
+    }
+  };
+
+  const exportSelectedPatternsAsTile = useCallback(async () => {
+    if (selectedPatternIdsForExport.length === 0) {
+      setShowPatternExportMenu(false);
+      return;
+    }
+    const selectedPatternsList = activePatterns.filter((p) =>
       selectedPatternIdsForExport.includes(p.id)
     );
     if (selectedPatternsList.length === 0) {
@@ -6101,17 +6677,62 @@ export default function TestScreen() {
     URL.revokeObjectURL(url);
   }, [activePatterns, selectedPatternIdsForExport, patterns, userTileSets]);
 
+  const shareDesignLink = useCallback(async (bundleJson: string) => {
+    const encoded = encodeSharePayload(bundleJson);
+    if (!encoded.ok) {
+      if (Platform.OS === 'web') {
+        window.alert(encoded.error);
+      } else {
+        Alert.alert('Cannot share link', encoded.error);
+      }
+      return;
+    }
+    const url = Linking.createURL(SHARE_LINK_PATH, { queryParams: { d: encoded.payload } });
+    if (Platform.OS === 'web') {
+      try {
+        await navigator.clipboard.writeText(url);
+        window.alert('Share link copied to the clipboard.');
+      } catch {
+        window.prompt('Copy this share link:', url);
+      }
+      return;
+    }
+    await Share.share({ message: url });
+  }, []);
+
+  const shareSelectedFileLink = useCallback(async () => {
+    setShowExportMenu(false);
+    if (selectedFiles.length !== 1) {
+      return;
+    }
+    const tileSetsById = new Map(userTileSets.map((s) => [s.id, s]));
+    await shareDesignLink(serializeFileBundle(selectedFiles[0], tileSetsById));
+  }, [selectedFiles, userTileSets, shareDesignLink]);
+
+  const shareSelectedPatternLink = useCallback(async () => {
+    setShowPatternExportMenu(false);
+    const pattern = activePatterns.find((p) => selectedPatternIdsForExport.includes(p.id));
+    if (!pattern || selectedPatternIdsForExport.length !== 1) {
+      return;
+    }
+    const tileSetsById = new Map(userTileSets.map((s) => [s.id, s]));
+    await shareDesignLink(serializePatternBundle(pattern, tileSetsById));
+  }, [activePatterns, selectedPatternIdsForExport, userTileSets, shareDesignLink]);
+
   const applyImportedPattern = useCallback(
     (content: string, options?: { thumbnailUri?: string | null }): { ok: false; error: string } | { ok: true } => {
       const bundleResult = deserializeBundle(content);
       if (bundleResult.ok && bundleResult.kind === 'patternBundle') {
         const oldToNewSetId = new Map<string, string>();
         for (const { setId, payload } of bundleResult.payload.tileSets) {
-          const newId = importTileSet(payload, { preserveBakedNames: true });
+          const newId = importTileSet(normalizeBundledTileSet(payload), { preserveBakedNames: true });
           oldToNewSetId.set(setId, newId);
         }
+        const patternResult = deserializePattern(
+          JSON.stringify({ ...bundleResult.payload.pattern, kind: 'pattern' })
+        );
         const remapped = remapPatternTileNames(
-          bundleResult.payload.pattern,
+          patternResult.ok ? patternResult.payload : bundleResult.payload.pattern,
           oldToNewSetId
         );
         const patternTileSetIds = Array.from(oldToNewSetId.values());
@@ -6186,6 +6807,9 @@ export default function TestScreen() {
       const content = await FileSystem.readAsStringAsync(uri, {
         encoding: FileSystem.EncodingType.UTF8,
       });
+      if (!(await confirmImportText(content, 'pattern', 'Invalid .tilepattern file'))) {
+        return;
+      }
       const applyResult = applyImportedPattern(content);
       if (!applyResult.ok) {
         Alert.alert('Invalid .tilepattern file', applyResult.error);
@@ -6199,6 +6823,57 @@ export default function TestScreen() {
     applyImportedPatternRef.current = applyImportedPattern;
   }, [applyImportedPattern]);
 
+  // Share links (/open?d=…) arrive here as the `d` param; import once tile sets are loaded.
+  useEffect(() => {
+    if (
+      !ready ||
+      !tileSetsLoaded ||
+      typeof sharedLinkPayload !== 'string' ||
+      sharedLinkPayload.length === 0 ||
+      handledShareLinkRef.current === sharedLinkPayload
+    ) {
+      return;
+    }
+    handledShareLinkRef.current = sharedLinkPayload;
+    router.setParams({ d: undefined });
+    const decoded = decodeSharePayload(sharedLinkPayload);
+    const showMessage = (title: string, message: string) => {
+      if (Platform.OS === 'web') {
+        window.alert(message);
+      } else {
+        Alert.alert(title, message);
+      }
+    };
+    if (!decoded.ok) {
+      showMessage('Cannot open link', decoded.error);
+      return;
+    }
+    void (async () => {
+      if (decoded.kind === 'fileBundle') {
+        if (await confirmImportText(decoded.content, 'file', 'Invalid shared file')) {
+          applyImportedTileFile(decoded.content);
+        }
+        return;
+      }
+      if (!(await confirmImportText(decoded.content, 'pattern', 'Invalid shared pattern'))) {
+        return;
+      }
+      const result = applyImportedPattern(decoded.content);
+      if (result.ok) {
+        showMessage('Pattern added', 'The shared pattern was added to your patterns.');
+      } else {
+        showMessage('Cannot open link', result.error);
+      }
+    })();
+  }, [
+    ready,
+    tileSetsLoaded,
+    sharedLinkPayload,
+    router,
+    applyImportedTileFile,
+    applyImportedPattern,
+  ]);
+
   // Stable callbacks for ModifyPalette (use refs to avoid recreating on every render)
   const handlePaletteResolveTileForPatternList = useCallback(
     (tile: Tile, tileSetIds?: string[]) =>
@@ -6417,6 +7092,11 @@ export default function TestScreen() {
     dismissModifyBanner();
     setShowTileSetChooser(true);
   }, [dismissModifyBanner]);
+  const handlePaletteDrawLongPress = useCallback(() => {
+    dismissModifyBanner();
+    if (brushRef.current.mode !== 'draw') setBrush({ mode: 'draw' });
+    setDrawPathMode((prev) => !prev);
+  }, [dismissModifyBanner]);
 
   // Load sample files, patterns, and tile sets only on app load when the user has none (once per session).
   useEffect(() => {
@@ -6560,8 +7240,11 @@ export default function TestScreen() {
         return;
       }
       const reader = new FileReader();
-      reader.onload = () => {
+      reader.onload = async () => {
         const text = reader.result as string;
+        if (!(await confirmImportText(text, 'pattern', 'Invalid .tilepattern file'))) {
+          return;
+        }
         const applyResult = applyImportedPatternRef.current(text);
         if (!applyResult.ok && typeof window !== 'undefined' && window.alert) {
           window.alert(`Invalid .tilepattern file: ${applyResult.error}`);
@@ -6580,6 +7263,60 @@ export default function TestScreen() {
     };
   }, [applyImportedPattern]);
 
+  const exportTimelapse = async () => {
+    if (Platform.OS !== 'web' || !activeFile) {
+      return;
+    }
+    setIsExportingTimelapse(true);
+    try {
+      const history = sampleTimelapseFrames(getEditHistory(), timelapseOptions.maxFrames);
+      const frames: RgbaFrame[] = [];
+      for (const frameTiles of history) {
+        const dataUrl = await renderTileCanvasToDataUrl({
+          tiles: frameTiles,
+          gridLayout: {
+            rows: fullGridLayoutForSave.rows,
+            columns: fullGridLayoutForSave.columns,
+            tileSize: fullGridLayoutForSave.tileSize,
+          },
+          tileSources: tileSources as TileSource[],
+          gridGap: 0,
+          blankSource: null,
+          errorSource: null,
+          lineColor: activeLineColor,
+          lineWidth: activeLineWidth,
+          tileable: activeFile.tileable === true && editingLevel === 1,
+          backgroundColor: settings.backgroundColor,
+          strokeScaleByName,
+          maxDimension: TIMELAPSE_MAX_DIMENSION,
+        });
+        if (dataUrl) {
+          frames.push(await dataUrlToRgba(dataUrl, frames[0]));
+        }
+      }
+      if (frames.length === 0) {
+        window.alert('Nothing to export yet.');
+        return;
+      }
+      const bytes = encodeTimelapse(frames, timelapseOptions);
+      const blob = new Blob([bytes as BlobPart], { type: getTimelapseMimeType(timelapseOptions.format) });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${activeFile.name.replace(/[^\w-]+/g, '_')}_timelapse.${getTimelapseFileExtension(timelapseOptions.format)}`;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+      setShowTimelapseDialog(false);
+    } catch (error) {
+      console.warn('Timelapse export failed', error);
+      window.alert('Timelapse export failed.');
+    } finally {
+      setIsExportingTimelapse(false);
+    }
+  };
+
   const handleDownloadPng = async () => {
     if (!downloadTargetFile) {
       return;
@@ -6697,6 +7434,7 @@ export default function TestScreen() {
         const l2Tiles = file.layers?.[2] ?? [];
         if (level2Info && l2Tiles.length === level2Info.cells.length) {
           layers.push({
+            level: 2,
             tiles: l2Tiles,
             levelInfo: level2Info,
             level1TileSize,
@@ -6712,6 +7450,7 @@ export default function TestScreen() {
         const l3Tiles = file.layers?.[3] ?? [];
         if (level3Info && l3Tiles.length === level3Info.cells.length) {
           layers.push({
+            level: 3,
             tiles: l3Tiles,
             levelInfo: level3Info,
             level1TileSize,
@@ -6878,6 +7617,7 @@ export default function TestScreen() {
         errorSource: null,
         lineColor: file.lineColor,
         lineWidth: file.lineWidth,
+        tileable: file.tileable,
         backgroundColor: settings.backgroundColor,
         strokeScaleByName,
         overlayLayers: getOverlayLayersForFile(file),
@@ -6924,6 +7664,7 @@ export default function TestScreen() {
           errorSource: ERROR_TILE,
           lineColor: file.lineColor,
           lineWidth: file.lineWidth,
+          tileable: file.tileable,
           backgroundColor: settings.backgroundColor,
           strokeScaleByName,
           sourceXmlCache,
@@ -6963,6 +7704,7 @@ export default function TestScreen() {
         errorSource: ERROR_TILE,
         lineColor: file.lineColor,
         lineWidth: file.lineWidth,
+        tileable: file.tileable,
         backgroundColor: settings.backgroundColor,
         sourceXmlCache,
         ugcXmlBySourceName,
@@ -6995,6 +7737,248 @@ export default function TestScreen() {
     getBaseTilesForExportFile,
   ]);
 
+  const exportSelectedAsPdf = useCallback(async () => {
+    if (selectedFiles.length === 0 || Platform.OS !== 'web') {
+      setShowPdfDialog(false);
+      return;
+    }
+    setIsExportingPdf(true);
+    try {
+      const designs: PdfPrintDesign[] = [];
+      for (const file of selectedFiles) {
+        const sources = getSourcesForSvgExport(file);
+        const ugcXmlBySourceName = await buildUgcXmlBySourceName(file, sources);
+        const sourcesWithInlineUgc = await replaceUgcSourcesWithDataUris(sources);
+        const sourceXmlCache = await buildSourceXmlCache(sourcesWithInlineUgc);
+        const svg = await renderTileCanvasToSvg({
+          tiles: getBaseTilesForExportFile(file),
+          gridLayout: {
+            rows: file.grid.rows,
+            columns: file.grid.columns,
+            tileSize: file.preferredTileSize,
+          },
+          tileSources: sourcesWithInlineUgc as TileSource[],
+          gridGap: GRID_GAP,
+          errorSource: ERROR_TILE,
+          lineColor: file.lineColor,
+          lineWidth: file.lineWidth,
+          tileable: file.tileable,
+          backgroundColor: settings.backgroundColor,
+          sourceXmlCache,
+          ugcXmlBySourceName,
+          strokeScaleByName,
+          overlayLayers: getOverlayLayersForFile(file),
+        });
+        if (svg) {
+          designs.push({
+            name: file.name,
+            svg,
+            tileSizePx: file.preferredTileSize + GRID_GAP,
+            backgroundColor: settings.backgroundColor,
+          });
+        }
+      }
+      const result = await buildPrintPdf(designs, pdfOptions);
+      if (!result.ok) {
+        window.alert(result.error);
+        return;
+      }
+      const blob = new Blob([result.data], { type: 'application/pdf' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download =
+        selectedFiles.length === 1
+          ? `${selectedFiles[0].name.replace(/[^\w-]+/g, '_')}.pdf`
+          : 'exports.pdf';
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+      setShowPdfDialog(false);
+    } catch (error) {
+      console.warn('PDF export failed', error);
+      window.alert('PDF export failed.');
+    } finally {
+      setIsExportingPdf(false);
+    }
+  }, [
+    selectedFiles,
+    pdfOptions,
+    getSourcesForSvgExport,
+    buildUgcXmlBySourceName,
+    replaceUgcSourcesWithDataUris,
+    settings.backgroundColor,
+    strokeScaleByName,
+    getOverlayLayersForFile,
+    getBaseTilesForExportFile,
+  ]);
+
+  const exportSelectedAsPlotterSvg = useCallback(async () => {
+    setShowExportMenu(false);
+    if (selectedFiles.length === 0 || Platform.OS !== 'web') {
+      return;
+    }
+    const outputs: { fileName: string; svg: string }[] = [];
+    let skippedImages = 0;
+    for (const file of selectedFiles) {
+      const sources = getSourcesForSvgExport(file);
+      const ugcXmlBySourceName = await buildUgcXmlBySourceName(file, sources);
+      const sourcesWithInlineUgc = await replaceUgcSourcesWithDataUris(sources);
+      const sourceXmlCache = await buildSourceXmlCache(sourcesWithInlineUgc);
+      const renderLayer = (tiles: Tile[], overlayLayers?: RenderSvgOverlayLayer[]) =>
+        renderTileCanvasToSvg({
+          tiles,
+          gridLayout: {
+            rows: file.grid.rows,
+            columns: file.grid.columns,
+            tileSize: file.preferredTileSize,
+          },
+          tileSources: sourcesWithInlineUgc as TileSource[],
+          gridGap: GRID_GAP,
+          errorSource: null,
+          lineColor: file.lineColor,
+          lineWidth: file.lineWidth,
+          tileable: file.tileable,
+          sourceXmlCache,
+          ugcXmlBySourceName,
+          strokeScaleByName,
+          overlayLayers,
+        });
+      // One SVG per level (base grid, then each overlay alone) so levels stay separate layers.
+      const layers: PlotterLayerInput[] = [];
+      const baseSvg = await renderLayer(getBaseTilesForExportFile(file));
+      if (baseSvg) {
+        layers.push({ label: 'Level 1', svg: baseSvg });
+      }
+      for (const overlay of getOverlayLayersForFile(file) ?? []) {
+        const svg = await renderLayer([], [overlay]);
+        if (svg) {
+          layers.push({ label: `Level ${overlay.level ?? layers.length + 1}`, svg });
+        }
+      }
+      const result = buildPlotterSvg(layers);
+      if (!result.ok) {
+        window.alert(selectedFiles.length > 1 ? `${file.name}: ${result.error}` : result.error);
+        continue;
+      }
+      skippedImages += result.skippedImages;
+      outputs.push({
+        fileName: `${file.name.replace(/[^\w-]+/g, '_')}_plotter.svg`,
+        svg: result.svg,
+      });
+    }
+    if (outputs.length === 0) {
+      return;
+    }
+    let blob: Blob;
+    let downloadName: string;
+    if (outputs.length === 1) {
+      blob = new Blob([outputs[0].svg], { type: 'image/svg+xml' });
+      downloadName = outputs[0].fileName;
+    } else {
+      const zip = new JSZip();
+      for (const output of outputs) {
+        zip.file(output.fileName, output.svg);
+      }
+      blob = await zip.generateAsync({ type: 'blob' });
+      downloadName = 'exports.zip';
+    }
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = downloadName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+    if (skippedImages > 0) {
+      window.alert(
+        `${skippedImages} image tile${skippedImages === 1 ? ' was' : 's were'} left out: only vector tiles can be converted to paths.`
+      );
+    }
+  }, [
+    selectedFiles,
+    getSourcesForSvgExport,
+    buildUgcXmlBySourceName,
+    replaceUgcSourcesWithDataUris,
+    strokeScaleByName,
+    getOverlayLayersForFile,
+    getBaseTilesForExportFile,
+  ]);
+
+  const exportSelectedAsTiled = useCallback(async () => {
+    setShowExportMenu(false);
+    if (selectedFiles.length === 0 || Platform.OS !== 'web') {
+      return;
+    }
+    const zip = new JSZip();
+    for (const file of selectedFiles) {
+      const sources = getSourcesForFile(file) as TileSource[];
+      const safeName = file.name.replace(/[^\w-]+/g, '_');
+      const atlasOptions = {
+        tileSources: sources,
+        strokeColor: file.lineColor,
+        strokeWidth: file.lineWidth,
+        strokeScaleByName,
+      };
+      const atlas = await buildTileAtlas({ ...atlasOptions, tileSize: file.preferredTileSize });
+      if (!atlas) {
+        continue;
+      }
+      const usedLevels = Object.entries(file.layers ?? {})
+        .filter(([, tiles]) => tiles.some((tile) => tile.imageIndex >= 0))
+        .map(([level]) => Number(level));
+      const maxLevel = Math.max(1, ...usedLevels);
+      const largeAtlas =
+        maxLevel > 1
+          ? await buildTileAtlas({
+              ...atlasOptions,
+              tileSize: Math.min(1024, file.preferredTileSize * Math.pow(2, maxLevel - 1)),
+            })
+          : null;
+      const map = buildTiledMap({
+        columns: file.grid.columns,
+        rows: file.grid.rows,
+        tileSize: file.preferredTileSize,
+        sourceNames: sources.map((source) => source.name),
+        tiles: file.tiles,
+        layers: file.layers,
+        layerVisibility: file.layerVisibility,
+        tileset: { ...atlas, image: `${safeName}_tiles.png` },
+        ...(largeAtlas && {
+          largeTileset: { ...largeAtlas, image: `${safeName}_tiles_large.png` },
+        }),
+      });
+      zip.file(`${safeName}.tmx`, serializeTmx(map));
+      zip.file(`${safeName}.json`, serializeTiledJson(map));
+      zip.file(`${safeName}_tiles.png`, atlas.uri.replace(/^data:image\/\w+;base64,/, ''), {
+        base64: true,
+      });
+      if (largeAtlas) {
+        zip.file(
+          `${safeName}_tiles_large.png`,
+          largeAtlas.uri.replace(/^data:image\/\w+;base64,/, ''),
+          { base64: true }
+        );
+      }
+    }
+    const blob = await zip.generateAsync({ type: 'blob' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download =
+      selectedFiles.length === 1
+        ? `${selectedFiles[0].name.replace(/[^\w-]+/g, '_')}_tiled.zip`
+        : 'exports.zip';
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+  }, [selectedFiles, getSourcesForFile, strokeScaleByName]);
+
+  const tileExportEncoding: TileFileEncoding = settings.compactTileExport ? 'deflated' : 'json';
+
   const downloadSingleFileAsTile = useCallback(
     async (file: TileFile) => {
       const sortedFiles = [...files].sort((a, b) => b.updatedAt - a.updatedAt);
@@ -7004,10 +7988,146 @@ export default function TestScreen() {
       const tileSetsById = new Map(userTileSets.map((s) => [s.id, s]));
       const content = fileUsesUgc(file)
         ? serializeFileBundle(file, tileSetsById)
-        : serializeTileFile(file);
+        : serializeTileFile(file, { encoding: tileExportEncoding });
       await downloadUgcTileFile(content, fileName);
     },
-    [files, userTileSets]
+    [files, userTileSets, tileExportEncoding]
+  );
+
+  /** The file as it was in a snapshot, for thumbnails (keeps id and settings not in the payload). */
+  const getSnapshotPreviewFile = useCallback(
+    (file: TileFile, payload: TileFilePayload): TileFile => ({
+      ...file,
+      tiles: payload.tiles,
+      grid: payload.grid,
+      layers: payload.layers as Record<number, Tile[]> | undefined,
+      sourceNames: payload.sourceNames,
+      tileSetIds: payload.tileSetIds,
+      preferredTileSize: payload.preferredTileSize,
+      lineWidth: payload.lineWidth,
+      lineColor: payload.lineColor,
+      layerVisibility: payload.layerVisibility,
+      tileable: payload.tileable,
+    }),
+    []
+  );
+
+  const loadFileHistory = useCallback(
+    async (fileId: string) => {
+      const loadId = ++historyLoadIdRef.current;
+      const snapshots = await listFileSnapshots(fileId);
+      const entries: typeof historyEntries = [];
+      for (const snapshot of snapshots) {
+        const result = await readFileSnapshot(fileId, snapshot.id);
+        entries.push({ snapshot, payload: result.ok ? result.payload : null, thumbnailUri: null });
+      }
+      if (loadId !== historyLoadIdRef.current) return;
+      setHistoryEntries(entries);
+      const file = files.find((entry) => entry.id === fileId);
+      if (Platform.OS !== 'web' || !file) return;
+      for (const entry of entries) {
+        if (!entry.payload) continue;
+        const preview = getSnapshotPreviewFile(file, entry.payload);
+        const thumbnailUri = await renderTileCanvasToDataUrl({
+          tiles: preview.tiles,
+          gridLayout: {
+            rows: preview.grid.rows,
+            columns: preview.grid.columns,
+            tileSize: preview.preferredTileSize,
+          },
+          tileSources: getSourcesForFile(preview) as TileSource[],
+          gridGap: GRID_GAP,
+          blankSource: null,
+          errorSource: ERROR_TILE,
+          lineColor: preview.lineColor,
+          lineWidth: preview.lineWidth,
+          tileable: preview.tileable,
+          strokeScaleByName,
+          overlayLayers: getOverlayLayersForFile(preview),
+          maxDimension: SNAPSHOT_THUMB_SIZE * 2,
+        });
+        if (loadId !== historyLoadIdRef.current) return;
+        setHistoryEntries((prev) =>
+          prev.map((item) =>
+            item.snapshot.id === entry.snapshot.id ? { ...item, thumbnailUri } : item
+          )
+        );
+      }
+    },
+    [files, getSnapshotPreviewFile, getSourcesForFile, getOverlayLayersForFile, strokeScaleByName]
+  );
+
+  const openFileHistory = useCallback(
+    (fileId: string) => {
+      setHistoryEntries([]);
+      setCheckpointNameDraft('');
+      setHistoryFileId(fileId);
+      void loadFileHistory(fileId);
+    },
+    [loadFileHistory]
+  );
+
+  const closeFileHistory = useCallback(() => {
+    historyLoadIdRef.current += 1;
+    setHistoryFileId(null);
+    setHistoryEntries([]);
+  }, []);
+
+  const saveFileCheckpoint = useCallback(async () => {
+    if (!historyFileId) return;
+    const [file] = await loadFileBodies([historyFileId]);
+    if (!file) return;
+    const name = checkpointNameDraft.trim() || `Checkpoint ${new Date().toLocaleString()}`;
+    await recordFileSnapshot(file, name);
+    setCheckpointNameDraft('');
+    await loadFileHistory(historyFileId);
+  }, [historyFileId, checkpointNameDraft, loadFileBodies, loadFileHistory]);
+
+  const restoreFileSnapshot = useCallback(
+    (snapshot: FileSnapshot, payload: TileFilePayload) => {
+      const fileId = historyFileId;
+      if (!fileId) return;
+      const doRestore = async () => {
+        const [file] = await loadFileBodies([fileId]);
+        if (!file) return;
+        // The current version stays in the history, so a restore can itself be undone.
+        await recordFileSnapshot(file, 'Before restore');
+        restoreFileFromPayload(fileId, payload);
+        await loadFileHistory(fileId);
+      };
+      const label = snapshot.name ?? 'this auto-save';
+      const message = `Restore "${label}" from ${new Date(snapshot.createdAt).toLocaleString()}? The current version is kept in the history as "Before restore".`;
+      if (Platform.OS === 'web') {
+        if (window.confirm(message)) {
+          void doRestore();
+        }
+      } else {
+        Alert.alert('Restore version?', message, [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Restore', onPress: () => void doRestore() },
+        ]);
+      }
+    },
+    [historyFileId, loadFileBodies, restoreFileFromPayload, loadFileHistory]
+  );
+
+  const duplicateFileSnapshot = useCallback(
+    (snapshot: FileSnapshot, payload: TileFilePayload) => {
+      const file = files.find((entry) => entry.id === historyFileId);
+      const label = snapshot.name ?? new Date(snapshot.createdAt).toLocaleString();
+      createFileFromTileData({ ...payload, name: `${file?.name ?? payload.name} (${label})` });
+      closeFileHistory();
+    },
+    [files, historyFileId, createFileFromTileData, closeFileHistory]
+  );
+
+  const removeFileSnapshot = useCallback(
+    async (snapshot: FileSnapshot) => {
+      if (!historyFileId) return;
+      await deleteFileSnapshot(historyFileId, snapshot.id);
+      await loadFileHistory(historyFileId);
+    },
+    [historyFileId, loadFileHistory]
   );
 
   const exportSelectedAsTile = useCallback(async () => {
@@ -7031,7 +8151,7 @@ export default function TestScreen() {
     for (const file of selectedFiles) {
       const content = fileUsesUgc(file)
         ? serializeFileBundle(file, tileSetsById)
-        : serializeTileFile(file);
+        : serializeTileFile(file, { encoding: tileExportEncoding });
       const fileIndex = sortedFiles.findIndex((f) => f.id === file.id);
       const index = fileIndex >= 0 ? fileIndex : 0;
       zip.file(`TileCanvas_${index}.tile`, content);
@@ -7045,7 +8165,7 @@ export default function TestScreen() {
     link.click();
     link.remove();
     URL.revokeObjectURL(url);
-  }, [selectedFiles, files, userTileSets, downloadSingleFileAsTile]);
+  }, [selectedFiles, files, userTileSets, downloadSingleFileAsTile, tileExportEncoding]);
 
   const handleDownloadSvg = async () => {
     if (!downloadTargetFile) {
@@ -7069,6 +8189,7 @@ export default function TestScreen() {
         errorSource: ERROR_TILE,
         lineColor: downloadTargetFile.lineColor,
         lineWidth: downloadTargetFile.lineWidth,
+        tileable: downloadTargetFile.tileable,
         backgroundColor: includeDownloadBackground
           ? settings.backgroundColor
           : undefined,
@@ -7156,6 +8277,12 @@ export default function TestScreen() {
               color="#fff"
               onPress={handleCreateNewFile}
             />
+            <ToolbarButton
+              label="Create new folder"
+              icon="folder-plus-outline"
+              color="#fff"
+              onPress={() => setFolderNameDraft({ id: null, name: '' })}
+            />
             <ToolbarButton
               label="Import .tile file"
               icon="upload"
@@ -7235,6 +8362,32 @@ export default function TestScreen() {
                 Export
               </ThemedText>
             </Pressable>
+            <ThemedText type="defaultSemiBold" style={styles.fileSelectPipe}>
+              {' | '}
+            </ThemedText>
+            <Pressable
+              onPress={() =>
+                selectedFileIds.size > 0 &&
+                setMoveToFolderTarget({ fileIds: [...selectedFileIds] })
+              }
+              style={[
+                styles.fileSelectExport,
+                selectedFileIds.size === 0 && styles.fileSelectExportDisabled,
+              ]}
+              disabled={selectedFileIds.size === 0}
+              accessibilityRole="button"
+              accessibilityLabel="Move selected files to a folder"
+            >
+              <ThemedText
+                type="defaultSemiBold"
+                style={[
+                  styles.fileSelectExportText,
+                  selectedFileIds.size === 0 && styles.fileSelectExportTextDisabled,
+                ]}
+              >
+                Move
+              </ThemedText>
+            </Pressable>
           </View>
           {!isMobileWeb && (
             <ThemedText type="defaultSemiBold" style={styles.fileSelectCount}>
@@ -7252,6 +8405,86 @@ export default function TestScreen() {
             </ThemedText>
           </Pressable>
         </Animated.View>
+        <ThemedView style={styles.fileBrowserBar}>
+          <ThemedView style={styles.fileSearchField}>
+            <MaterialCommunityIcons name="magnify" size={18} color="#9ca3af" />
+            <TextInput
+              value={fileSearchQuery}
+              onChangeText={setFileSearchQuery}
+              style={styles.fileSearchInput}
+              placeholder={currentFolderId === null ? 'Search names and #tags' : 'Search this folder'}
+              placeholderTextColor="#6b7280"
+              autoCapitalize="none"
+              autoCorrect={false}
+              returnKeyType="search"
+              accessibilityLabel="Search files by name or tag"
+            />
+            {fileSearchQuery.length > 0 && (
+              <Pressable
+                onPress={() => setFileSearchQuery('')}
+                accessibilityRole="button"
+                accessibilityLabel="Clear search"
+              >
+                <MaterialCommunityIcons name="close-circle" size={18} color="#9ca3af" />
+              </Pressable>
+            )}
+          </ThemedView>
+          <Pressable
+            onPress={() => setShowFileSortMenu(true)}
+            style={styles.fileSortButton}
+            accessibilityRole="button"
+            accessibilityLabel="Sort files"
+          >
+            <MaterialCommunityIcons name="sort" size={18} color="#9ca3af" />
+            <ThemedText type="defaultSemiBold" style={styles.fileSortButtonText}>
+              {FILE_SORT_OPTIONS.find((option) => option.key === fileSort)?.label}
+            </ThemedText>
+          </Pressable>
+        </ThemedView>
+        {currentFolderPath.length > 0 && (
+          <ThemedView style={styles.fileBreadcrumbs}>
+            <Pressable
+              onPress={() => setCurrentFolderId(null)}
+              accessibilityRole="button"
+              accessibilityLabel="Show top-level files"
+            >
+              <ThemedText type="defaultSemiBold" style={styles.fileBreadcrumbText}>
+                Files
+              </ThemedText>
+            </Pressable>
+            {currentFolderPath.map((folder, index) => {
+              const isCurrent = index === currentFolderPath.length - 1;
+              return (
+                <ThemedView key={folder.id} style={styles.fileBreadcrumbItem}>
+                  <MaterialCommunityIcons name="chevron-right" size={16} color="#6b7280" />
+                  <Pressable
+                    onPress={() => setCurrentFolderId(folder.id)}
+                    onLongPress={() => setFolderMenuTargetId(folder.id)}
+                    delayLongPress={320}
+                    accessibilityRole="button"
+                    accessibilityLabel={isCurrent ? `Folder ${folder.name}` : `Open folder ${folder.name}`}
+                  >
+                    <ThemedText
+                      type="defaultSemiBold"
+                      style={[styles.fileBreadcrumbText, isCurrent && styles.fileBreadcrumbTextCurrent]}
+                    >
+                      {folder.name}
+                    </ThemedText>
+                  </Pressable>
+                  {isCurrent && (
+                    <Pressable
+                      onPress={() => setFolderMenuTargetId(folder.id)}
+                      accessibilityRole="button"
+                      accessibilityLabel={`Folder options for ${folder.name}`}
+                    >
+                      <MaterialCommunityIcons name="dots-horizontal" size={18} color="#9ca3af" />
+                    </Pressable>
+                  )}
+                </ThemedView>
+              );
+            })}
+          </ThemedView>
+        )}
         <ScrollView
           style={styles.fileScroll}
           contentContainerStyle={[
@@ -7264,7 +8497,38 @@ export default function TestScreen() {
           ]}
           showsVerticalScrollIndicator
         >
-          {userFiles.length === 0 && (
+          {visibleFolders.map((folder) => {
+            const fileCount = countFolderFiles(files, folders, folder.id);
+            return (
+              <Pressable
+                key={folder.id}
+                style={[styles.fileCard, { width: fileCardWidth }]}
+                onPress={() => setCurrentFolderId(folder.id)}
+                onLongPress={() => setFolderMenuTargetId(folder.id)}
+                delayLongPress={320}
+                accessibilityRole="button"
+                accessibilityLabel={`Open folder ${folder.name}`}
+              >
+                <ThemedView style={styles.folderCard}>
+                  <MaterialCommunityIcons name="folder" size={28} color="#9ca3af" />
+                  <ThemedView style={styles.folderCardText}>
+                    <ThemedText type="defaultSemiBold" style={styles.folderCardName} numberOfLines={1}>
+                      {folder.name}
+                    </ThemedText>
+                    <ThemedText style={styles.folderCardCount}>
+                      {fileCount} file{fileCount === 1 ? '' : 's'}
+                    </ThemedText>
+                  </ThemedView>
+                </ThemedView>
+              </Pressable>
+            );
+          })}
+          {isSearchingFiles && visibleFiles.length === 0 && (
+            <ThemedText style={styles.fileSearchEmptyText}>
+              No files match “{fileSearchQuery.trim()}”.
+            </ThemedText>
+          )}
+          {!isSearchingFiles && userFiles.length === 0 && (
             <Pressable
               style={[styles.fileCard, { width: fileCardWidth }]}
               onPress={handleCreateNewFile}
@@ -7416,8 +8680,12 @@ export default function TestScreen() {
               </Pressable>
             );
           })}
-          <View style={styles.fileGridSectionDivider} />
-          <ThemedText style={styles.fileGridSectionTitle}>Samples</ThemedText>
+          {(sampleFiles.length > 0 || (currentFolderId === null && !isSearchingFiles)) && (
+            <>
+              <View style={styles.fileGridSectionDivider} />
+              <ThemedText style={styles.fileGridSectionTitle}>Samples</ThemedText>
+            </>
+          )}
           {sampleFiles.length > 0 ? (
             sampleFiles.map((file) => {
               const sources = getSourcesForFile(file);
@@ -7527,7 +8795,7 @@ export default function TestScreen() {
                 </Pressable>
               );
             })
-          ) : (
+          ) : currentFolderId === null && !isSearchingFiles ? (
             <Pressable
               onPress={() => void handleReimportSamples()}
               style={styles.reimportSamplesButton}
@@ -7538,7 +8806,7 @@ export default function TestScreen() {
                 Reimport
               </ThemedText>
             </Pressable>
-          )}
+          ) : null}
         </ScrollView>
         {downloadTargetFile && Platform.OS !== 'web' && showDownloadOverlay && (
           <ThemedView style={styles.overlay} accessibilityRole="dialog">
@@ -7792,6 +9060,7 @@ export default function TestScreen() {
                           errorSource: ERROR_TILE,
                           lineColor: file.lineColor,
                           lineWidth: file.lineWidth,
+                          tileable: file.tileable,
                           backgroundColor: includeDownloadBackground
                             ? settings.backgroundColor
                             : undefined,
@@ -7824,6 +9093,39 @@ export default function TestScreen() {
               >
                 <ThemedText type="defaultSemiBold">Download .tile</ThemedText>
               </Pressable>
+              <Pressable
+                style={styles.fileMenuButton}
+                onPress={() => {
+                  openFileTags(fileMenuTargetId);
+                  setFileMenuTargetId(null);
+                }}
+                accessibilityRole="button"
+                accessibilityLabel="Edit file tags"
+              >
+                <ThemedText type="defaultSemiBold">Tags</ThemedText>
+              </Pressable>
+              <Pressable
+                style={styles.fileMenuButton}
+                onPress={() => {
+                  setMoveToFolderTarget({ fileIds: [fileMenuTargetId] });
+                  setFileMenuTargetId(null);
+                }}
+                accessibilityRole="button"
+                accessibilityLabel="Move file to a folder"
+              >
+                <ThemedText type="defaultSemiBold">Move to folder</ThemedText>
+              </Pressable>
+              <Pressable
+                style={styles.fileMenuButton}
+                onPress={() => {
+                  openFileHistory(fileMenuTargetId);
+                  setFileMenuTargetId(null);
+                }}
+                accessibilityRole="button"
+                accessibilityLabel="File history"
+              >
+                <ThemedText type="defaultSemiBold">History</ThemedText>
+              </Pressable>
               <Pressable
                 style={styles.fileMenuButton}
                 onPress={() => {
@@ -7851,6 +9153,376 @@ export default function TestScreen() {
             </ThemedView>
           </ThemedView>
         )}
+        {folderMenuTargetId && (
+          <ThemedView style={styles.overlay}>
+            <Pressable
+              style={styles.overlayBackdrop}
+              onPress={() => setFolderMenuTargetId(null)}
+              accessibilityRole="button"
+              accessibilityLabel="Close folder options"
+            />
+            <ThemedView style={styles.fileMenuPanel}>
+              <Pressable
+                style={styles.fileMenuButton}
+                onPress={() => {
+                  const folder = folders.find((entry) => entry.id === folderMenuTargetId);
+                  setFolderNameDraft({ id: folderMenuTargetId, name: folder?.name ?? '' });
+                  setFolderMenuTargetId(null);
+                }}
+                accessibilityRole="button"
+                accessibilityLabel="Rename folder"
+              >
+                <ThemedText type="defaultSemiBold">Rename</ThemedText>
+              </Pressable>
+              <Pressable
+                style={styles.fileMenuButton}
+                onPress={() => {
+                  setMoveToFolderTarget({ folderId: folderMenuTargetId });
+                  setFolderMenuTargetId(null);
+                }}
+                accessibilityRole="button"
+                accessibilityLabel="Move folder"
+              >
+                <ThemedText type="defaultSemiBold">Move to folder</ThemedText>
+              </Pressable>
+              <Pressable
+                style={[styles.fileMenuButton, styles.fileMenuButtonLast]}
+                onPress={() => {
+                  confirmDeleteFolder(folderMenuTargetId);
+                  setFolderMenuTargetId(null);
+                }}
+                accessibilityRole="button"
+                accessibilityLabel="Delete folder"
+              >
+                <ThemedText type="defaultSemiBold" style={styles.fileMenuDeleteText}>
+                  Delete
+                </ThemedText>
+              </Pressable>
+            </ThemedView>
+          </ThemedView>
+        )}
+        {folderNameDraft && (
+          <ThemedView style={styles.overlay}>
+            <Pressable
+              style={styles.overlayBackdrop}
+              onPress={() => setFolderNameDraft(null)}
+              accessibilityRole="button"
+              accessibilityLabel="Cancel folder name"
+            />
+            <ThemedView style={styles.overlayPanel}>
+              <ThemedText type="title">
+                {folderNameDraft.id === null ? 'New folder' : 'Rename folder'}
+              </ThemedText>
+              <TextInput
+                value={folderNameDraft.name}
+                onChangeText={(name) => setFolderNameDraft((prev) => (prev ? { ...prev, name } : prev))}
+                style={styles.seedInput}
+                placeholder="Folder name"
+                placeholderTextColor="#9ca3af"
+                autoFocus
+                returnKeyType="done"
+                onSubmitEditing={saveFolderName}
+                accessibilityLabel="Folder name"
+              />
+              <ThemedView style={styles.historyCheckpointRow}>
+                <Pressable
+                  onPress={() => setFolderNameDraft(null)}
+                  style={[styles.overlayItem, styles.historyCheckpointInput]}
+                  accessibilityRole="button"
+                  accessibilityLabel="Cancel"
+                >
+                  <ThemedText type="defaultSemiBold">Cancel</ThemedText>
+                </Pressable>
+                <Pressable
+                  onPress={saveFolderName}
+                  style={[styles.overlayItem, styles.overlayItemSelected, styles.historyCheckpointInput]}
+                  accessibilityRole="button"
+                  accessibilityLabel="Save folder name"
+                >
+                  <ThemedText type="defaultSemiBold">Save</ThemedText>
+                </Pressable>
+              </ThemedView>
+            </ThemedView>
+          </ThemedView>
+        )}
+        {moveToFolderTarget && (
+          <ThemedView style={styles.overlay}>
+            <Pressable
+              style={styles.overlayBackdrop}
+              onPress={() => setMoveToFolderTarget(null)}
+              accessibilityRole="button"
+              accessibilityLabel="Cancel move to folder"
+            />
+            <ThemedView style={styles.overlayPanel}>
+              <ThemedText type="title">Move to</ThemedText>
+              <ScrollView style={styles.historyScroll} contentContainerStyle={styles.overlayList}>
+                {[
+                  { id: null, name: 'Files (top level)', depth: 0 },
+                  ...flattenFolderTree(folders).map(({ folder, depth }) => ({
+                    id: folder.id as string | null,
+                    name: folder.name,
+                    depth: depth + 1,
+                  })),
+                ].map((entry) => {
+                  const disabled =
+                    'folderId' in moveToFolderTarget &&
+                    !canMoveFolder(folders, moveToFolderTarget.folderId, entry.id);
+                  return (
+                    <Pressable
+                      key={entry.id ?? 'top-level'}
+                      onPress={() => moveToFolder(entry.id)}
+                      disabled={disabled}
+                      style={[
+                        styles.overlayItem,
+                        { marginLeft: entry.depth * 16 },
+                        disabled && styles.moveToFolderItemDisabled,
+                      ]}
+                      accessibilityRole="button"
+                      accessibilityLabel={`Move to ${entry.name}`}
+                    >
+                      <ThemedText type="defaultSemiBold">{entry.name}</ThemedText>
+                    </Pressable>
+                  );
+                })}
+              </ScrollView>
+              <Pressable
+                onPress={() => setMoveToFolderTarget(null)}
+                style={styles.overlayItem}
+                accessibilityRole="button"
+                accessibilityLabel="Cancel"
+              >
+                <ThemedText type="defaultSemiBold">Cancel</ThemedText>
+              </Pressable>
+            </ThemedView>
+          </ThemedView>
+        )}
+        {tagsTargetId && (
+          <ThemedView style={styles.overlay}>
+            <Pressable
+              style={styles.overlayBackdrop}
+              onPress={() => setTagsTargetId(null)}
+              accessibilityRole="button"
+              accessibilityLabel="Cancel tags"
+            />
+            <ThemedView style={styles.overlayPanel}>
+              <ThemedText type="title">Tags</ThemedText>
+              <ThemedText type="defaultSemiBold">
+                {files.find((entry) => entry.id === tagsTargetId)?.name ?? ''}
+              </ThemedText>
+              <TextInput
+                value={tagsDraft}
+                onChangeText={setTagsDraft}
+                style={styles.seedInput}
+                placeholder="e.g. client, blue, wip"
+                placeholderTextColor="#9ca3af"
+                autoCapitalize="none"
+                autoCorrect={false}
+                autoFocus
+                returnKeyType="done"
+                onSubmitEditing={saveFileTags}
+                accessibilityLabel="Tags, separated by commas or spaces"
+              />
+              <ThemedView style={styles.historyCheckpointRow}>
+                <Pressable
+                  onPress={() => setTagsTargetId(null)}
+                  style={[styles.overlayItem, styles.historyCheckpointInput]}
+                  accessibilityRole="button"
+                  accessibilityLabel="Cancel"
+                >
+                  <ThemedText type="defaultSemiBold">Cancel</ThemedText>
+                </Pressable>
+                <Pressable
+                  onPress={saveFileTags}
+                  style={[styles.overlayItem, styles.overlayItemSelected, styles.historyCheckpointInput]}
+                  accessibilityRole="button"
+                  accessibilityLabel="Save tags"
+                >
+                  <ThemedText type="defaultSemiBold">Save</ThemedText>
+                </Pressable>
+              </ThemedView>
+            </ThemedView>
+          </ThemedView>
+        )}
+        {showFileSortMenu && (
+          <ThemedView style={styles.overlay}>
+            <Pressable
+              style={styles.overlayBackdrop}
+              onPress={() => setShowFileSortMenu(false)}
+              accessibilityRole="button"
+              accessibilityLabel="Close sort options"
+            />
+            <ThemedView style={styles.fileMenuPanel}>
+              {FILE_SORT_OPTIONS.map((option, index) => (
+                <Pressable
+                  key={option.key}
+                  style={[
+                    styles.fileMenuButton,
+                    index === FILE_SORT_OPTIONS.length - 1 && styles.fileMenuButtonLast,
+                  ]}
+                  onPress={() => {
+                    setSettings((prev) => ({ ...prev, fileSort: option.key }));
+                    setShowFileSortMenu(false);
+                  }}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected: option.key === fileSort }}
+                  accessibilityLabel={`Sort by ${option.label}`}
+                >
+                  <ThemedText
+                    type="defaultSemiBold"
+                    style={option.key === fileSort && styles.fileSortOptionSelected}
+                  >
+                    {option.label}
+                  </ThemedText>
+                </Pressable>
+              ))}
+            </ThemedView>
+          </ThemedView>
+        )}
+        {historyFileId && (
+          <ThemedView style={styles.overlay}>
+            <Pressable
+              style={styles.overlayBackdrop}
+              onPress={closeFileHistory}
+              accessibilityRole="button"
+              accessibilityLabel="Close history"
+            />
+            <ThemedView style={styles.overlayPanel}>
+              <ThemedText type="title">History</ThemedText>
+              <ThemedText type="defaultSemiBold">
+                {files.find((entry) => entry.id === historyFileId)?.name ?? ''}
+              </ThemedText>
+              <ThemedView style={styles.historyCheckpointRow}>
+                <TextInput
+                  value={checkpointNameDraft}
+                  onChangeText={setCheckpointNameDraft}
+                  style={[styles.seedInput, styles.historyCheckpointInput]}
+                  placeholder="Checkpoint name"
+                  placeholderTextColor="#9ca3af"
+                  returnKeyType="done"
+                  onSubmitEditing={() => void saveFileCheckpoint()}
+                  accessibilityLabel="Checkpoint name"
+                />
+                <Pressable
+                  onPress={() => void saveFileCheckpoint()}
+                  style={[styles.overlayItem, styles.overlayItemSelected]}
+                  accessibilityRole="button"
+                  accessibilityLabel="Save checkpoint"
+                >
+                  <ThemedText type="defaultSemiBold">Save checkpoint</ThemedText>
+                </Pressable>
+              </ThemedView>
+              <ScrollView style={styles.historyScroll} contentContainerStyle={styles.overlayList}>
+                {historyEntries.length === 0 && (
+                  <ThemedText style={styles.historyEmptyText}>
+                    No versions yet. Versions are saved while you edit the file.
+                  </ThemedText>
+                )}
+                {historyEntries.map(({ snapshot, payload, thumbnailUri }) => {
+                  const file = files.find((entry) => entry.id === historyFileId);
+                  const preview = file && payload ? getSnapshotPreviewFile(file, payload) : null;
+                  const thumbTileSize = preview
+                    ? SNAPSHOT_THUMB_SIZE /
+                      Math.max(1, preview.grid.columns, preview.grid.rows)
+                    : 0;
+                  const previewSources =
+                    preview && Platform.OS !== 'web'
+                      ? (getSourcesForFile(preview) as TileSource[])
+                      : [];
+                  return (
+                    <ThemedView key={snapshot.id} style={styles.historyRow}>
+                      <ThemedView style={styles.historyThumb}>
+                        {thumbnailUri ? (
+                          <TileAsset
+                            source={{ uri: thumbnailUri }}
+                            name="thumbnail.png"
+                            style={styles.fileThumbImage}
+                            resizeMode="contain"
+                          />
+                        ) : (
+                          preview &&
+                          Platform.OS !== 'web' && (
+                            <PatternThumbnail
+                              pattern={{
+                                id: snapshot.id,
+                                tiles: preview.tiles,
+                                width: preview.grid.columns,
+                                height: preview.grid.rows,
+                              }}
+                              rotationCW={0}
+                              mirrorX={false}
+                              tileSize={thumbTileSize}
+                              resolveTile={(tile) =>
+                                resolveTileAssetForFile(tile, previewSources, preview.tileSetIds ?? [])
+                              }
+                              strokeColor={preview.lineColor}
+                              strokeWidth={preview.lineWidth * (thumbTileSize / preview.preferredTileSize)}
+                              strokeScaleByName={strokeScaleByName}
+                            />
+                          )
+                        )}
+                      </ThemedView>
+                      <ThemedView style={styles.historyInfo}>
+                        <ThemedText type="defaultSemiBold" numberOfLines={1}>
+                          {snapshot.name ?? 'Auto-save'}
+                        </ThemedText>
+                        <ThemedText style={styles.historyDateText}>
+                          {new Date(snapshot.createdAt).toLocaleString()}
+                        </ThemedText>
+                        {payload ? (
+                          <ThemedView style={styles.inlineOptions}>
+                            <Pressable
+                              onPress={() => restoreFileSnapshot(snapshot, payload)}
+                              style={styles.historyAction}
+                              accessibilityRole="button"
+                              accessibilityLabel="Restore this version"
+                            >
+                              <ThemedText>Restore</ThemedText>
+                            </Pressable>
+                            <Pressable
+                              onPress={() => duplicateFileSnapshot(snapshot, payload)}
+                              style={styles.historyAction}
+                              accessibilityRole="button"
+                              accessibilityLabel="Duplicate this version as a new file"
+                            >
+                              <ThemedText>Duplicate</ThemedText>
+                            </Pressable>
+                            <Pressable
+                              onPress={() => void removeFileSnapshot(snapshot)}
+                              style={styles.historyAction}
+                              accessibilityRole="button"
+                              accessibilityLabel="Delete this version"
+                            >
+                              <ThemedText style={styles.fileMenuDeleteText}>Delete</ThemedText>
+                            </Pressable>
+                          </ThemedView>
+                        ) : (
+                          <Pressable
+                            onPress={() => void removeFileSnapshot(snapshot)}
+                            style={styles.historyAction}
+                            accessibilityRole="button"
+                            accessibilityLabel="Delete unreadable version"
+                          >
+                            <ThemedText style={styles.fileMenuDeleteText}>
+                              Unreadable. Delete
+                            </ThemedText>
+                          </Pressable>
+                        )}
+                      </ThemedView>
+                    </ThemedView>
+                  );
+                })}
+              </ScrollView>
+              <Pressable
+                onPress={closeFileHistory}
+                style={styles.overlayItem}
+                accessibilityRole="button"
+                accessibilityLabel="Close history"
+              >
+                <ThemedText type="defaultSemiBold">Close</ThemedText>
+              </Pressable>
+            </ThemedView>
+          </ThemedView>
+        )}
         {showExportMenu && (
           <ThemedView style={styles.overlay} accessibilityRole="dialog">
             <Pressable
@@ -7876,14 +9548,63 @@ export default function TestScreen() {
               >
                 <ThemedText type="defaultSemiBold">Export SVG</ThemedText>
               </Pressable>
+              {Platform.OS === 'web' && (
+                <Pressable
+                  style={styles.fileMenuButton}
+                  onPress={() => {
+                    setShowExportMenu(false);
+                    setShowPdfDialog(true);
+                  }}
+                  accessibilityRole="button"
+                  accessibilityLabel="Export print PDF"
+                >
+                  <ThemedText type="defaultSemiBold">Export PDF</ThemedText>
+                </Pressable>
+              )}
+              {Platform.OS === 'web' && (
+                <Pressable
+                  style={styles.fileMenuButton}
+                  onPress={() => void exportSelectedAsPlotterSvg()}
+                  accessibilityRole="button"
+                  accessibilityLabel="Export plotter SVG with paths only"
+                >
+                  <ThemedText type="defaultSemiBold">Export Plotter SVG</ThemedText>
+                </Pressable>
+              )}
               <Pressable
-                style={[styles.fileMenuButton, styles.fileMenuButtonLast]}
+                style={[
+                  styles.fileMenuButton,
+                  Platform.OS !== 'web' && selectedFiles.length !== 1 && styles.fileMenuButtonLast,
+                ]}
                 onPress={() => void exportSelectedAsTile()}
                 accessibilityRole="button"
                 accessibilityLabel="Export .tile file"
               >
                 <ThemedText type="defaultSemiBold">Export .tile</ThemedText>
               </Pressable>
+              {Platform.OS === 'web' && (
+                <Pressable
+                  style={[
+                    styles.fileMenuButton,
+                    selectedFiles.length !== 1 && styles.fileMenuButtonLast,
+                  ]}
+                  onPress={() => void exportSelectedAsTiled()}
+                  accessibilityRole="button"
+                  accessibilityLabel="Export Tiled map"
+                >
+                  <ThemedText type="defaultSemiBold">Export Tiled Map</ThemedText>
+                </Pressable>
+              )}
+              {selectedFiles.length === 1 && (
+                <Pressable
+                  style={[styles.fileMenuButton, styles.fileMenuButtonLast]}
+                  onPress={() => void shareSelectedFileLink()}
+                  accessibilityRole="button"
+                  accessibilityLabel="Share link to file"
+                >
+                  <ThemedText type="defaultSemiBold">Share Link</ThemedText>
+                </Pressable>
+              )}
             </ThemedView>
           </ThemedView>
         )}
@@ -7950,6 +9671,16 @@ export default function TestScreen() {
                   accessibilityLabel="Toggle debug overlay"
                 />
               </ThemedView>
+              <ThemedView style={styles.toggleRow}>
+                <ThemedText type="defaultSemiBold">Compact .tile export</ThemedText>
+                <Switch
+                  value={settings.compactTileExport}
+                  onValueChange={(value) =>
+                    setSettings((prev) => ({ ...prev, compactTileExport: value }))
+                  }
+                  accessibilityLabel="Toggle compact .tile export"
+                />
+              </ThemedView>
               {settings.developerMode && Platform.OS === 'web' && (
                 <Pressable
                   style={styles.settingsAction}
@@ -7975,6 +9706,7 @@ export default function TestScreen() {
                         errorSource: null,
                         lineColor: file.lineColor,
                         lineWidth: file.lineWidth,
+                        tileable: file.tileable,
                         strokeScaleByName,
                         overlayLayers,
                         maxDimension: 256,
@@ -8047,6 +9779,22 @@ export default function TestScreen() {
                   <ThemedText type="defaultSemiBold">Generate Sample Thumbnails</ThemedText>
                 </Pressable>
               )}
+              <Pressable
+                style={styles.settingsAction}
+                onPress={() => void backUpLibrary()}
+                accessibilityRole="button"
+                accessibilityLabel="Back up library"
+              >
+                <ThemedText type="defaultSemiBold">Back up library</ThemedText>
+              </Pressable>
+              <Pressable
+                style={styles.settingsAction}
+                onPress={() => void pickLibraryBackup()}
+                accessibilityRole="button"
+                accessibilityLabel="Restore library from backup"
+              >
+                <ThemedText type="defaultSemiBold">Restore library</ThemedText>
+              </Pressable>
               <TouchableOpacity
                 style={[styles.settingsAction, styles.settingsActionDanger]}
                 onPress={() => {
@@ -8123,7 +9871,7 @@ export default function TestScreen() {
             <Pressable
               onPress={() => {
                 if (zoomRegion) {
-                  if (settings.mirrorHorizontal || settings.mirrorVertical) {
+                  if (mirrorOrSymmetryOn) {
                     setShowZoomOutMirrorConfirm(true);
                   } else {
                     setZoomRegion(null);
@@ -8133,7 +9881,8 @@ export default function TestScreen() {
                     clearTimeout(finerLayerFlushTimerRef.current);
                     finerLayerFlushTimerRef.current = null;
                   }
-                  flushFinerLayerPending();
+                  syncGridToFile();
+                  endUndoStep();
                   persistActiveFileNow();  // fire-and-forget background save
                   setViewMode('file');
                 }
@@ -8153,7 +9902,8 @@ export default function TestScreen() {
                   clearTimeout(finerLayerFlushTimerRef.current);
                   finerLayerFlushTimerRef.current = null;
                 }
-                flushFinerLayerPending();
+                syncGridToFile();
+                endUndoStep();
                 persistActiveFileNow();  // fire-and-forget background save
                 setViewMode('file');
               }}
@@ -8256,6 +10006,10 @@ export default function TestScreen() {
                   setPendingMoveOffset(null);
                   setMoveDragOffset(null);
                 }}
+                onLongPress={() => {
+                  dismissModifyBanner();
+                  setShowSelectionToolsDialog(true);
+                }}
               />
               {regionToolsVisible && (
                 <Animated.View
@@ -8272,25 +10026,12 @@ export default function TestScreen() {
                 >
                   <View style={styles.regionToolsBarInner}>
                   {showLockButton && (() => {
-                    // canvasSelection.start/end are always level-1 indices.
-                    // For higher layers use selectionBoundsLayerGrid (layer-N row/col space).
+                    // hookCanvasSelection is the selection in editing-layer indices (level-1 on the base layer).
                     const selectionIndices = (() => {
-                      if (!canvasSelection) return [];
-                      if (isEditingHigherLayer && levelGridInfo && selectionBoundsLayerGrid) {
-                        const { minRow, maxRow, minCol, maxCol } = selectionBoundsLayerGrid;
-                        const lCols = levelGridInfo.levelCols;
-                        return getCellIndicesInRegion(
-                          minRow * lCols + minCol,
-                          maxRow * lCols + maxCol,
-                          lCols
-                        );
-                      }
-                      if (fullGridColumnsForMapping <= 0) return [];
-                      return getCellIndicesInRegion(
-                        canvasSelection.start,
-                        canvasSelection.end,
-                        fullGridColumnsForMapping
-                      );
+                      if (!hookCanvasSelection) return [];
+                      const selectionCols =
+                        isEditingHigherLayer && levelGridInfo ? levelGridInfo.levelCols : fullGridColumnsForMapping;
+                      return selectionCols > 0 ? getSelectionCells(hookCanvasSelection, selectionCols) : [];
                     })();
                     const allSelectedLocked =
                       selectionIndices.length > 0 &&
@@ -8306,6 +10047,7 @@ export default function TestScreen() {
                         onPress={() => {
                           dismissModifyBanner();
                           if (selectionIndices.length === 0) return;
+                          startUndoStep();
                           const currentLocked = isEditingHigherLayer
                             ? (activeFile?.lockedCellsPerLayer?.[editingLevel] ?? [])
                             : (activeFile?.lockedCells ?? []);
@@ -8377,151 +10119,159 @@ export default function TestScreen() {
                       setPendingMoveOffset(null);
                     }}
                   />
-                  <ToolbarButton
-                    label="Rotate region"
-                    icon="rotate-right"
-                    onPress={() => {
-                      dismissModifyBanner();
-                      if (!canvasSelection || fullGridColumnsForMapping === 0 || !selectionBoundsFullGrid) return;
-                      const { minRow, maxRow, minCol, maxCol } = selectionBoundsFullGrid;
-                      const height = maxRow - minRow + 1;
-                      const width = maxCol - minCol + 1;
-                      const centerRow = (minRow + maxRow) / 2;
-                      const centerCol = (minCol + maxCol) / 2;
-                      const newHeight = width;
-                      const newWidth = height;
-                      const cols = fullGridColumnsForMapping;
-                      const rows = fullGridRows;
-                      let newMinRow = Math.round(centerRow - (newHeight - 1) / 2);
-                      let newMaxRow = newMinRow + newHeight - 1;
-                      let newMinCol = Math.round(centerCol - (newWidth - 1) / 2);
-                      let newMaxCol = newMinCol + newWidth - 1;
-                      newMinRow = Math.max(0, Math.min(newMinRow, rows - 1));
-                      newMaxRow = Math.max(0, Math.min(newMaxRow, rows - 1));
-                      newMinCol = Math.max(0, Math.min(newMinCol, cols - 1));
-                      newMaxCol = Math.max(0, Math.min(newMaxCol, cols - 1));
-
-                      if (isEditingHigherLayer && selectionBoundsLayerGrid && levelGridInfo && activeFile) {
-                        // Snapshot non-editing layers for undo side-effect.
-                        const rotatePre = snapshotOtherLayers(activeFile, editingLevel, maxDisplayLevel);
-                        const rotatePostTiles: Record<number, Tile[]> = {};
-
-                        const { minRow: lyrMinRow, maxRow: lyrMaxRow, minCol: lyrMinCol, maxCol: lyrMaxCol } = selectionBoundsLayerGrid;
-
-                        const fullCols = activeFile.grid.columns;
-                        const fullRows = activeFile.grid.rows;
-                        const emptyTile: Tile = { imageIndex: -1, rotation: 0, mirrorX: false, mirrorY: false };
-
-                        // Rotate L1 tiles (file.tiles) - compute post-tiles
-                        if (fullCols > 0 && fullRows > 0) {
-                          const l1Count = fullCols * fullRows;
-                          const l1Src = normalizeTiles(activeFile.tiles, l1Count, tileSources.length);
-                          const l1Pairs: Array<{ fromIdx: number; relR: number; relC: number; tile: Tile }> = [];
-                          for (let r = minRow; r <= maxRow; r += 1) {
-                            for (let c = minCol; c <= maxCol; c += 1) {
-                              const idx = r * fullCols + c;
-                              l1Pairs.push({ fromIdx: idx, relR: r - minRow, relC: c - minCol, tile: l1Src[idx] ?? { ...emptyTile } });
+                  {/* Rotation turns the bounding rectangle, so it needs a rectangular selection. */}
+                  {!canvasSelection?.cells && (
+                    <ToolbarButton
+                      label="Rotate region"
+                      icon="rotate-right"
+                      onPress={() => {
+                        dismissModifyBanner();
+                        if (!canvasSelection || fullGridColumnsForMapping === 0 || !selectionBoundsFullGrid) return;
+                        const { minRow, maxRow, minCol, maxCol } = selectionBoundsFullGrid;
+                        const height = maxRow - minRow + 1;
+                        const width = maxCol - minCol + 1;
+                        const centerRow = (minRow + maxRow) / 2;
+                        const centerCol = (minCol + maxCol) / 2;
+                        const newHeight = width;
+                        const newWidth = height;
+                        const cols = fullGridColumnsForMapping;
+                        const rows = fullGridRows;
+                        let newMinRow = Math.round(centerRow - (newHeight - 1) / 2);
+                        let newMaxRow = newMinRow + newHeight - 1;
+                        let newMinCol = Math.round(centerCol - (newWidth - 1) / 2);
+                        let newMaxCol = newMinCol + newWidth - 1;
+                        newMinRow = Math.max(0, Math.min(newMinRow, rows - 1));
+                        newMaxRow = Math.max(0, Math.min(newMaxRow, rows - 1));
+                        newMinCol = Math.max(0, Math.min(newMinCol, cols - 1));
+                        newMaxCol = Math.max(0, Math.min(newMaxCol, cols - 1));
+
+                        if (isEditingHigherLayer && selectionBoundsLayerGrid && levelGridInfo && activeFile) {
+                          // Rotating the editing layer and the finer layers is one undo step.
+                          startUndoStep();
+                          const rotatePostTiles: Record<number, Tile[]> = {};
+
+                          const { minRow: lyrMinRow, maxRow: lyrMaxRow, minCol: lyrMinCol, maxCol: lyrMaxCol } = selectionBoundsLayerGrid;
+
+                          const fullCols = activeFile.grid.columns;
+                          const fullRows = activeFile.grid.rows;
+                          const emptyTile: Tile = { imageIndex: -1, rotation: 0, mirrorX: false, mirrorY: false };
+
+                          // Rotate L1 tiles (file.tiles) - compute post-tiles
+                          if (fullCols > 0 && fullRows > 0) {
+                            const l1Count = fullCols * fullRows;
+                            const l1Src = normalizeTiles(activeFile.tiles, l1Count, tileSources.length);
+                            const l1Pairs: Array<{ fromIdx: number; relR: number; relC: number; tile: Tile }> = [];
+                            for (let r = minRow; r <= maxRow; r += 1) {
+                              for (let c = minCol; c <= maxCol; c += 1) {
+                                const idx = r * fullCols + c;
+                                l1Pairs.push({ fromIdx: idx, relR: r - minRow, relC: c - minCol, tile: l1Src[idx] ?? { ...emptyTile } });
+                              }
+                            }
+                            if (l1Pairs.length > 0) {
+                              const nextL1 = [...l1Src];
+                              l1Pairs.forEach(({ fromIdx }) => { nextL1[fromIdx] = { ...emptyTile }; });
+                              l1Pairs.forEach(({ relR, relC, tile }) => {
+                                const { newR, newC } = rotateCell(relR, relC, height, width, 90);
+                                const toR = newMinRow + newR;
+                                const toC = newMinCol + newC;
+                                if (toR >= 0 && toR < fullRows && toC >= 0 && toC < fullCols) {
+                                  const transformed = applyGroupRotationToTile(tile.rotation, tile.mirrorX, tile.mirrorY, 90);
+                                  nextL1[toR * fullCols + toC] = { ...tile, rotation: transformed.rotation, mirrorX: transformed.mirrorX, mirrorY: transformed.mirrorY };
+                                }
+                              });
+                              rotatePostTiles[1] = nextL1;
                             }
                           }
-                          if (l1Pairs.length > 0) {
-                            const nextL1 = [...l1Src];
-                            l1Pairs.forEach(({ fromIdx }) => { nextL1[fromIdx] = { ...emptyTile }; });
-                            l1Pairs.forEach(({ relR, relC, tile }) => {
-                              const { newR, newC } = rotateCell(relR, relC, height, width, 90);
-                              const toR = newMinRow + newR;
-                              const toC = newMinCol + newC;
-                              if (toR >= 0 && toR < fullRows && toC >= 0 && toC < fullCols) {
+
+                          // Rotate intermediate layers (internal levels 2..editingLevel-1)
+                          for (let M = 2; M < editingLevel; M += 1) {
+                            const levelMInfo = getLevelGridInfo(fullCols, fullRows, M);
+                            if (!levelMInfo) continue;
+                            const mCols = levelMInfo.levelCols;
+                            const mRows = levelMInfo.levelRows;
+                            const mCount = levelMInfo.cells.length;
+                            const mSrc = normalizeTiles(activeFile?.layers?.[M] ?? [], mCount, tileSources.length);
+                            let mSelMinRow = Infinity, mSelMaxRow = -Infinity, mSelMinCol = Infinity, mSelMaxCol = -Infinity;
+                            const mPairs: Array<{ fromIdx: number; mRow: number; mCol: number; tile: Tile }> = [];
+                            levelMInfo.cells.forEach((cell, idx) => {
+                              if (
+                                cell.minRow >= minRow && cell.maxRow <= maxRow &&
+                                cell.minCol >= minCol && cell.maxCol <= maxCol
+                              ) {
+                                const mRow = Math.floor(idx / mCols);
+                                const mCol = idx % mCols;
+                                if (mRow < mSelMinRow) mSelMinRow = mRow;
+                                if (mRow > mSelMaxRow) mSelMaxRow = mRow;
+                                if (mCol < mSelMinCol) mSelMinCol = mCol;
+                                if (mCol > mSelMaxCol) mSelMaxCol = mCol;
+                                mPairs.push({ fromIdx: idx, mRow, mCol, tile: mSrc[idx] ?? { ...emptyTile } });
+                              }
+                            });
+                            if (mPairs.length === 0) continue;
+                            const mSelHeight = mSelMaxRow - mSelMinRow + 1;
+                            const mSelWidth = mSelMaxCol - mSelMinCol + 1;
+                            const mCenterRow = (mSelMinRow + mSelMaxRow) / 2;
+                            const mCenterCol = (mSelMinCol + mSelMaxCol) / 2;
+                            const mNewHeight = mSelWidth;
+                            const mNewWidth = mSelHeight;
+                            let mNewMinRow = Math.round(mCenterRow - (mNewHeight - 1) / 2);
+                            let mNewMaxRow = mNewMinRow + mNewHeight - 1;
+                            let mNewMinCol = Math.round(mCenterCol - (mNewWidth - 1) / 2);
+                            let mNewMaxCol = mNewMinCol + mNewWidth - 1;
+                            mNewMinRow = Math.max(0, Math.min(mNewMinRow, mRows - 1));
+                            mNewMaxRow = Math.max(0, Math.min(mNewMaxRow, mRows - 1));
+                            mNewMinCol = Math.max(0, Math.min(mNewMinCol, mCols - 1));
+                            mNewMaxCol = Math.max(0, Math.min(mNewMaxCol, mCols - 1));
+                            const nextM = [...mSrc];
+                            mPairs.forEach(({ fromIdx }) => { nextM[fromIdx] = { ...emptyTile }; });
+                            mPairs.forEach(({ mRow, mCol, tile }) => {
+                              const relR = mRow - mSelMinRow;
+                              const relC = mCol - mSelMinCol;
+                              const { newR, newC } = rotateCell(relR, relC, mSelHeight, mSelWidth, 90);
+                              const toR = mNewMinRow + newR;
+                              const toC = mNewMinCol + newC;
+                              if (toR >= 0 && toR < mRows && toC >= 0 && toC < mCols) {
                                 const transformed = applyGroupRotationToTile(tile.rotation, tile.mirrorX, tile.mirrorY, 90);
-                                nextL1[toR * fullCols + toC] = { ...tile, rotation: transformed.rotation, mirrorX: transformed.mirrorX, mirrorY: transformed.mirrorY };
+                                nextM[toR * mCols + toC] = { ...tile, rotation: transformed.rotation, mirrorX: transformed.mirrorX, mirrorY: transformed.mirrorY };
                               }
                             });
-                            rotatePostTiles[1] = nextL1;
+                            rotatePostTiles[M] = nextM;
                           }
-                        }
 
-                        // Rotate intermediate layers (internal levels 2..editingLevel-1)
-                        for (let M = 2; M < editingLevel; M += 1) {
-                          const levelMInfo = getLevelGridInfo(fullCols, fullRows, M);
-                          if (!levelMInfo) continue;
-                          const mCols = levelMInfo.levelCols;
-                          const mRows = levelMInfo.levelRows;
-                          const mCount = levelMInfo.cells.length;
-                          const mSrc = normalizeTiles(activeFile?.layers?.[M] ?? [], mCount, tileSources.length);
-                          let mSelMinRow = Infinity, mSelMaxRow = -Infinity, mSelMinCol = Infinity, mSelMaxCol = -Infinity;
-                          const mPairs: Array<{ fromIdx: number; mRow: number; mCol: number; tile: Tile }> = [];
-                          levelMInfo.cells.forEach((cell, idx) => {
-                            if (
-                              cell.minRow >= minRow && cell.maxRow <= maxRow &&
-                              cell.minCol >= minCol && cell.maxCol <= maxCol
-                            ) {
-                              const mRow = Math.floor(idx / mCols);
-                              const mCol = idx % mCols;
-                              if (mRow < mSelMinRow) mSelMinRow = mRow;
-                              if (mRow > mSelMaxRow) mSelMaxRow = mRow;
-                              if (mCol < mSelMinCol) mSelMinCol = mCol;
-                              if (mCol > mSelMaxCol) mSelMaxCol = mCol;
-                              mPairs.push({ fromIdx: idx, mRow, mCol, tile: mSrc[idx] ?? { ...emptyTile } });
-                            }
-                          });
-                          if (mPairs.length === 0) continue;
-                          const mSelHeight = mSelMaxRow - mSelMinRow + 1;
-                          const mSelWidth = mSelMaxCol - mSelMinCol + 1;
-                          const mCenterRow = (mSelMinRow + mSelMaxRow) / 2;
-                          const mCenterCol = (mSelMinCol + mSelMaxCol) / 2;
-                          const mNewHeight = mSelWidth;
-                          const mNewWidth = mSelHeight;
-                          let mNewMinRow = Math.round(mCenterRow - (mNewHeight - 1) / 2);
-                          let mNewMaxRow = mNewMinRow + mNewHeight - 1;
-                          let mNewMinCol = Math.round(mCenterCol - (mNewWidth - 1) / 2);
-                          let mNewMaxCol = mNewMinCol + mNewWidth - 1;
-                          mNewMinRow = Math.max(0, Math.min(mNewMinRow, mRows - 1));
-                          mNewMaxRow = Math.max(0, Math.min(mNewMaxRow, mRows - 1));
-                          mNewMinCol = Math.max(0, Math.min(mNewMinCol, mCols - 1));
-                          mNewMaxCol = Math.max(0, Math.min(mNewMaxCol, mCols - 1));
-                          const nextM = [...mSrc];
-                          mPairs.forEach(({ fromIdx }) => { nextM[fromIdx] = { ...emptyTile }; });
-                          mPairs.forEach(({ mRow, mCol, tile }) => {
-                            const relR = mRow - mSelMinRow;
-                            const relC = mCol - mSelMinCol;
-                            const { newR, newC } = rotateCell(relR, relC, mSelHeight, mSelWidth, 90);
-                            const toR = mNewMinRow + newR;
-                            const toC = mNewMinCol + newC;
-                            if (toR >= 0 && toR < mRows && toC >= 0 && toC < mCols) {
-                              const transformed = applyGroupRotationToTile(tile.rotation, tile.mirrorX, tile.mirrorY, 90);
-                              nextM[toR * mCols + toC] = { ...tile, rotation: transformed.rotation, mirrorX: transformed.mirrorX, mirrorY: transformed.mirrorY };
-                            }
-                          });
-                          rotatePostTiles[M] = nextM;
-                        }
+                          // Rotate editing-level tiles using layer-cell coordinates
+                          rotateRegion(lyrMinRow, lyrMaxRow, lyrMinCol, lyrMaxCol, levelGridInfo.levelCols);
 
-                        // Set side effect before rotateRegion pushes undo.
-                        if (Object.keys(rotatePre).length > 0) {
-                          const rotatePost: Record<number, Tile[]> = {};
-                          for (const levelStr of Object.keys(rotatePre)) {
-                            const lv = parseInt(levelStr, 10);
-                            rotatePost[lv] = rotatePostTiles[lv] ?? rotatePre[lv];
+                          // Write computed post-tiles to file state.
+                          if (rotatePostTiles[1]) updateActiveFileTilesL1(rotatePostTiles[1]);
+                          for (let M = 2; M < editingLevel; M += 1) {
+                            if (rotatePostTiles[M]) updateActiveFileLayer(M, rotatePostTiles[M]);
                           }
-                          pendingUndoSideEffectRef.current = { preClear: rotatePre, postClear: rotatePost };
-                        }
-
-                        // Rotate editing-level tiles using layer-cell coordinates
-                        rotateRegion(lyrMinRow, lyrMaxRow, lyrMinCol, lyrMaxCol, levelGridInfo.levelCols);
-
-                        // Write computed post-tiles to file state.
-                        if (rotatePostTiles[1]) updateActiveFileTilesL1(rotatePostTiles[1]);
-                        for (let M = 2; M < editingLevel; M += 1) {
-                          if (rotatePostTiles[M]) updateActiveFileLayer(M, rotatePostTiles[M]);
+                        } else {
+                          // Level 1: rotate via hook (existing behavior)
+                          rotateRegion(minRow, maxRow, minCol, maxCol, cols);
                         }
-                      } else {
-                        // Level 1: rotate via hook (existing behavior)
-                        rotateRegion(minRow, maxRow, minCol, maxCol, cols);
-                      }
 
-                      const newStart = newMinRow * cols + newMinCol;
-                      const newEnd = newMaxRow * cols + newMaxCol;
-                      setCanvasSelection({ start: newStart, end: newEnd });
-                    }}
-                  />
+                        const newStart = newMinRow * cols + newMinCol;
+                        const newEnd = newMaxRow * cols + newMaxCol;
+                        setCanvasSelection({ start: newStart, end: newEnd });
+                      }}
+                    />
+                  )}
+                  {!zoomRegion && (
+                    <ToolbarButton
+                      label="Save selection as pattern"
+                      icon="content-save-outline"
+                      onPress={() => {
+                        dismissModifyBanner();
+                        if (!hookCanvasSelection) return;
+                        // Cells outside a freeform selection are saved as empty pattern cells.
+                        setBrush({ mode: 'pattern' });
+                        setIsPatternCreationMode(true);
+                        setPatternSelection(hookCanvasSelection);
+                        setShowPatternSaveModal(true);
+                      }}
+                    />
+                  )}
                   </View>
                 </Animated.View>
               )}
@@ -8549,17 +10299,9 @@ export default function TestScreen() {
                           selectedPattern, editingLevel
                         )
                       : null;
+                  startUndoStep();
                   if (isEditingHigherLayer) {
-                    const pre = snapshotOtherLayers(activeFile, editingLevel, maxDisplayLevel);
-                    const postTilesMap = applyPatternFloodToAllLayers(false);
-                    if (Object.keys(pre).length > 0) {
-                      const postClear: Record<number, Tile[]> = {};
-                      for (const levelStr of Object.keys(pre)) {
-                        const lv = parseInt(levelStr, 10);
-                        postClear[lv] = postTilesMap[lv] ?? pre[lv];
-                      }
-                      pendingUndoSideEffectRef.current = { preClear: pre, postClear };
-                    }
+                    applyPatternFloodToAllLayers(false);
                   }
                   floodFill(_pfOrigin?.row, _pfOrigin?.col);
                   if (!isEditingHigherLayer) {
@@ -8582,17 +10324,9 @@ export default function TestScreen() {
                         selectedPattern, editingLevel
                       )
                     : null;
+                startUndoStep();
                 if (isEditingHigherLayer) {
-                  const pre = snapshotOtherLayers(activeFile, editingLevel, maxDisplayLevel);
-                  const postTilesMap = applyPatternFloodToAllLayers(true);
-                  if (Object.keys(pre).length > 0) {
-                    const postClear: Record<number, Tile[]> = {};
-                    for (const levelStr of Object.keys(pre)) {
-                      const lv = parseInt(levelStr, 10);
-                      postClear[lv] = postTilesMap[lv] ?? pre[lv];
-                    }
-                    pendingUndoSideEffectRef.current = { preClear: pre, postClear };
-                  }
+                  applyPatternFloodToAllLayers(true);
                 }
                 floodComplete(_pfOriginC?.row, _pfOriginC?.col);
                 if (!isEditingHigherLayer) {
@@ -8610,7 +10344,33 @@ export default function TestScreen() {
                   clearTimeout(pendingFloodCompleteRef.current);
                   pendingFloodCompleteRef.current = null;
                 }
-                reconcileTiles();
+                let summary: string;
+                // A selection scopes Reconcile to the editing layer's selected cells.
+                if (settings.reconcileAllLayers && crossLayerContext && !hookCanvasSelection) {
+                  startUndoStep();
+                  const result = reconcileAllLayers();
+                  if (!result) return;
+                  result.changedLevels
+                    .filter((level) => level !== editingLevel)
+                    .forEach((level) => {
+                      if (level === 1) {
+                        updateActiveFileTilesL1(result.layers[level]);
+                      } else {
+                        updateActiveFileLayer(level, result.layers[level]);
+                      }
+                    });
+                  setShowReconcileSeams(result.unfixable > 0);
+                  summary = formatReconcileSummary(result);
+                } else {
+                  const report = reconcileTiles();
+                  setShowReconcileSeams(report.unfixable > 0);
+                  summary = formatReconcileSummary(report);
+                }
+                if (Platform.OS === 'web') {
+                  window.alert(summary);
+                } else {
+                  Alert.alert('Reconcile', summary);
+                }
               }}
               onLongPress={() => {
                 dismissModifyBanner();
@@ -8622,31 +10382,64 @@ export default function TestScreen() {
                 controlledRandomize();
               }}
             />
+            <ToolbarButton
+              label="Generate"
+              icon="auto-fix"
+              onPress={() => {
+                dismissModifyBanner();
+                if (!canEditCurrentLayer) return;
+                if (pendingFloodCompleteRef.current) {
+                  clearTimeout(pendingFloodCompleteRef.current);
+                  pendingFloodCompleteRef.current = null;
+                }
+                const result = generateTiles();
+                if (!result.ok) {
+                  if (Platform.OS === 'web') {
+                    window.alert(result.error);
+                  } else {
+                    Alert.alert('Generate failed', result.error);
+                  }
+                }
+              }}
+            />
+            <ToolbarButton
+              label="Re-roll"
+              icon="dice-multiple"
+              onPress={() => {
+                dismissModifyBanner();
+                rerollFloodWithSeed(generateSeed());
+              }}
+              onLongPress={() => {
+                dismissModifyBanner();
+                if (!canEditCurrentLayer) return;
+                setSeedDraft(activeFile?.seed != null ? String(activeFile.seed) : '');
+                setShowSeedDialog(true);
+              }}
+            />
             <ToolbarButton
               label={
-                !settings.mirrorHorizontal && !settings.mirrorVertical
+                (!settings.mirrorHorizontal && !settings.mirrorVertical
                   ? 'Mirror (off)'
                   : settings.mirrorHorizontal && settings.mirrorVertical
                     ? 'Mirror: Horizontal + Vertical'
                     : settings.mirrorHorizontal
                       ? 'Mirror: Horizontal'
-                      : 'Mirror: Vertical'
+                      : 'Mirror: Vertical') +
+                (symmetryModeActive ? `, Symmetry: ${symmetryModeLabel}` : '')
               }
               icon={
                 !settings.mirrorHorizontal && !settings.mirrorVertical
-                  ? 'flip-horizontal'
+                  ? symmetryModeActive
+                    ? 'rotate-orbit'
+                    : 'flip-horizontal'
                   : settings.mirrorHorizontal && settings.mirrorVertical
                     ? 'arrow-all'
                     : settings.mirrorHorizontal
                       ? 'flip-horizontal'
                       : 'flip-vertical'
               }
-              active={settings.mirrorHorizontal || settings.mirrorVertical}
-              color={
-                settings.mirrorHorizontal || settings.mirrorVertical
-                  ? '#3b82f6'
-                  : undefined
-              }
+              active={mirrorOrSymmetryOn}
+              color={mirrorOrSymmetryOn ? '#3b82f6' : undefined}
               onPress={() => {
                 dismissModifyBanner();
                 setSettings((prev) => {
@@ -8657,6 +10450,10 @@ export default function TestScreen() {
                   return { ...prev, mirrorVertical: false };
                 });
               }}
+              onLongPress={() => {
+                dismissModifyBanner();
+                setShowSymmetryDialog(true);
+              }}
             />
             {settings.developerMode && (
               <ToolbarButton
@@ -8706,7 +10503,7 @@ export default function TestScreen() {
                 </Text>
                 <Pressable
                   onPress={() => {
-                    if (settings.mirrorHorizontal || settings.mirrorVertical) {
+                    if (mirrorOrSymmetryOn) {
                       setShowZoomOutMirrorConfirm(true);
                     } else {
                       setZoomRegion(null);
@@ -8731,7 +10528,10 @@ export default function TestScreen() {
                   Currently editing invisible layer
                 </Text>
                 <Pressable
-                  onPress={() => updateActiveFileLayerVisibility(editingLevel, true)}
+                  onPress={() => {
+                    startUndoStep();
+                    updateActiveFileLayerVisibility(editingLevel, true);
+                  }}
                   hitSlop={8}
                   style={({ pressed }) => [styles.zoomedBannerBackLink, pressed && { opacity: 0.7 }]}
                   accessibilityRole="button"
@@ -8805,7 +10605,7 @@ export default function TestScreen() {
               )}
             </>
           )}
-          {(settings.mirrorHorizontal || settings.mirrorVertical) &&
+          {mirrorOrSymmetryOn &&
             actualGridWidth > 0 &&
             actualGridHeight > 0 && (
               <View style={[styles.mirrorLines, { pointerEvents: 'none' }]}>
@@ -8833,6 +10633,37 @@ export default function TestScreen() {
                     ]}
                   />
                 )}
+                {symmetryModeActive && settings.symmetryMode === 'diagonal' && (
+                  <View
+                    style={[
+                      styles.mirrorLineDiagonal,
+                      {
+                        left: (actualGridWidth - Math.hypot(actualGridWidth, actualGridHeight)) / 2,
+                        top: actualGridHeight / 2 - 1,
+                        width: Math.hypot(actualGridWidth, actualGridHeight),
+                        height: 2,
+                        transform: [
+                          { rotate: `${Math.atan2(actualGridHeight, actualGridWidth)}rad` },
+                        ],
+                      },
+                    ]}
+                  />
+                )}
+                {symmetryModeActive &&
+                  (settings.symmetryMode === 'rotate2' || settings.symmetryMode === 'rotate4') && (
+                    <View
+                      style={[
+                        styles.symmetryCenter,
+                        {
+                          left: actualGridWidth / 2 - 8,
+                          top: actualGridHeight / 2 - 8,
+                          width: 16,
+                          height: 16,
+                          borderRadius: settings.symmetryMode === 'rotate4' ? 2 : 8,
+                        },
+                      ]}
+                    />
+                  )}
               </View>
             )}
           {isPatternCreationMode && patternSelectionRect && (
@@ -8840,7 +10671,7 @@ export default function TestScreen() {
               style={[styles.patternSelection, patternSelectionRect, { pointerEvents: 'none' }]}
             />
           )}
-          {canvasSelectionRect && (
+          {canvasSelectionRect && !canvasSelection?.cells && (
             <View
               style={[
                 styles.canvasSelectionBox,
@@ -8850,6 +10681,17 @@ export default function TestScreen() {
               ]}
             />
           )}
+          {canvasSelectionEdges.map((rect, idx) => (
+            <View
+              key={`selection-edge-${idx}`}
+              style={[
+                styles.canvasSelectionEdge,
+                rect,
+                isMoveMode && moveDragOffset && styles.canvasSelectionBoxDimmed,
+                { pointerEvents: 'none' },
+              ]}
+            />
+          ))}
           {movePreviewRect && (
             <View style={[styles.movePreviewBox, movePreviewRect, { pointerEvents: 'none' }]} />
           )}
@@ -8862,6 +10704,18 @@ export default function TestScreen() {
               style={[styles.lockedBoundaryEdge, rect, { pointerEvents: 'none' }]}
             />
           ))}
+          {!isEditingHigherLayer && (
+            <TileSeamOverlay
+              edges={invalidEdges}
+              columns={fullGridColumnsForMapping}
+              tileSize={gridLayout.tileSize}
+              gap={GRID_GAP}
+              minRow={zoomRegionForGrid?.minRow}
+              minCol={zoomRegionForGrid?.minCol}
+              visibleRows={gridLayout.rows}
+              visibleColumns={gridLayout.columns}
+            />
+          )}
           {patternAlignmentRect && (
             <View
               style={[styles.patternAlignment, patternAlignmentRect, { pointerEvents: 'none' }]}
@@ -8905,8 +10759,7 @@ export default function TestScreen() {
                     return;
                   }
                   if (isSelectionMode) {
-                    const b = getLevel1BoundsForCanvasCell(cellIndex);
-                    setCanvasSelection({ start: b.minIdx, end: b.maxIdx });
+                    beginSelectionGesture(cellIndex);
                     return;
                   }
                   if (isPatternCreationMode) {
@@ -8915,8 +10768,7 @@ export default function TestScreen() {
                   }
                   if (lockedCellIndicesSet?.has(getFullIndexForCanvas(cellIndex))) {
                     setIsSelectionMode(true);
-                    const b = getLevel1BoundsForCanvasCell(cellIndex);
-                    setCanvasSelection({ start: b.minIdx, end: b.maxIdx });
+                    beginSelectionGesture(cellIndex);
                     return;
                   }
                   if (brush.mode === 'clone' && cloneSourceIndex === null) {
@@ -8927,10 +10779,6 @@ export default function TestScreen() {
                   if (!isPartOfDragRef.current) {
                     pushUndoForDragStart();
                     isPartOfDragRef.current = true;
-                    if (isEditingHigherLayer && (brush.mode === 'pattern' || brush.mode === 'clone')) {
-                      dragLayerPreSnapshotRef.current = snapshotOtherLayers(activeFile, editingLevel, maxDisplayLevel);
-                      dragLayerAccumulatedRef.current = {};
-                    }
                   }
                   handlePaintAt(point.x, point.y);
                 }
@@ -8960,15 +10808,7 @@ export default function TestScreen() {
                     if (isSelectionMode) {
                       const cellIndex = getCellIndexForPoint(point.x, point.y);
                       if (cellIndex !== null) {
-                        const b = getLevel1BoundsForCanvasCell(cellIndex);
-                        setCanvasSelection((prev) =>
-                          prev
-                            ? {
-                                start: Math.min(prev.start, b.minIdx),
-                                end: Math.max(prev.end, b.maxIdx),
-                              }
-                            : prev
-                        );
+                        extendSelectionGesture(cellIndex);
                       }
                       return;
                     }
@@ -8986,7 +10826,6 @@ export default function TestScreen() {
                 }
               }}
               onMouseLeave={() => {
-                finalizeDragLayerUndo();
                 isPartOfDragRef.current = false;
                 clearDrawStroke();
                 setInteracting(false);
@@ -9003,7 +10842,6 @@ export default function TestScreen() {
                   setInteracting(false);
                   return;
                 }
-                finalizeDragLayerUndo();
                 isPartOfDragRef.current = false;
                 clearDrawStroke();
                 setInteracting(false);
@@ -9020,9 +10858,7 @@ export default function TestScreen() {
                 }
                 lastCanvasClickTimeRef.current = now;
                 if (isSelectionMode) {
-                  if (canvasSelection && canvasSelection.start === canvasSelection.end) {
-                    setCanvasSelection(null);
-                  }
+                  endSelectionGesture();
                   return;
                 }
                 if (isPatternCreationMode) {
@@ -9079,8 +10915,7 @@ export default function TestScreen() {
                       if (lockedCellIndicesSet?.has(getFullIndexForCanvas(cellIndex))) {
                         multiFingerTouchCountRef.current = 0;
                         setIsSelectionMode(true);
-                        const b = getLevel1BoundsForCanvasCell(cellIndex);
-                        setCanvasSelection({ start: b.minIdx, end: b.maxIdx });
+                        beginSelectionGesture(cellIndex);
                         return;
                       }
                       pendingSingleTouchPointRef.current = { x: point.x, y: point.y };
@@ -9117,8 +10952,7 @@ export default function TestScreen() {
                     return;
                   }
                   if (isSelectionMode) {
-                    const b = getLevel1BoundsForCanvasCell(cellIndex);
-                    setCanvasSelection({ start: b.minIdx, end: b.maxIdx });
+                    beginSelectionGesture(cellIndex);
                     return;
                   }
                   if (isPatternCreationMode) {
@@ -9127,8 +10961,7 @@ export default function TestScreen() {
                   }
                   if (lockedCellIndicesSet?.has(getFullIndexForCanvas(cellIndex))) {
                     setIsSelectionMode(true);
-                    const b = getLevel1BoundsForCanvasCell(cellIndex);
-                    setCanvasSelection({ start: b.minIdx, end: b.maxIdx });
+                    beginSelectionGesture(cellIndex);
                     return;
                   }
                   if (brush.mode === 'clone' && cloneSourceIndex === null) {
@@ -9139,10 +10972,6 @@ export default function TestScreen() {
                   if (!isPartOfDragRef.current) {
                     pushUndoForDragStart();
                     isPartOfDragRef.current = true;
-                    if (isEditingHigherLayer && (brush.mode === 'pattern' || brush.mode === 'clone')) {
-                      dragLayerPreSnapshotRef.current = snapshotOtherLayers(activeFile, editingLevel, maxDisplayLevel);
-                      dragLayerAccumulatedRef.current = {};
-                    }
                   }
                   handlePaintAt(point.x, point.y);
                 }
@@ -9170,10 +10999,6 @@ export default function TestScreen() {
                     if (!isPartOfDragRef.current) {
                       pushUndoForDragStart();
                       isPartOfDragRef.current = true;
-                      if (isEditingHigherLayer && (brush.mode === 'pattern' || brush.mode === 'clone')) {
-                        dragLayerPreSnapshotRef.current = snapshotOtherLayers(activeFile, editingLevel, maxDisplayLevel);
-                        dragLayerAccumulatedRef.current = {};
-                      }
                     }
                     handlePaintAt(pt.x, pt.y);
                   }
@@ -9193,15 +11018,7 @@ export default function TestScreen() {
                   if (isSelectionMode) {
                     const cellIndex = getCellIndexForPoint(point.x, point.y);
                     if (cellIndex !== null) {
-                      const b = getLevel1BoundsForCanvasCell(cellIndex);
-                      setCanvasSelection((prev) =>
-                        prev
-                          ? {
-                              start: Math.min(prev.start, b.minIdx),
-                              end: Math.max(prev.end, b.maxIdx),
-                            }
-                          : prev
-                      );
+                      extendSelectionGesture(cellIndex);
                     }
                     return;
                   }
@@ -9235,10 +11052,6 @@ export default function TestScreen() {
                   if (!isPartOfDragRef.current) {
                     pushUndoForDragStart();
                     isPartOfDragRef.current = true;
-                    if (isEditingHigherLayer && (brush.mode === 'pattern' || brush.mode === 'clone')) {
-                      dragLayerPreSnapshotRef.current = snapshotOtherLayers(activeFile, editingLevel, maxDisplayLevel);
-                      dragLayerAccumulatedRef.current = {};
-                    }
                   }
                   handlePaintAt(pt.x, pt.y);
                 }
@@ -9268,7 +11081,6 @@ export default function TestScreen() {
                     return;
                   }
                 }
-                finalizeDragLayerUndo();
                 isPartOfDragRef.current = false;
                 clearDrawStroke();
                 isTouchDragActiveRef.current = false;
@@ -9285,9 +11097,7 @@ export default function TestScreen() {
                 }
                 lastCanvasTapTimeRef.current = now;
                 if (isSelectionMode) {
-                  if (canvasSelection && canvasSelection.start === canvasSelection.end) {
-                    setCanvasSelection(null);
-                  }
+                  endSelectionGesture();
                   return;
                 }
                 if (isPatternCreationMode) {
@@ -9302,7 +11112,6 @@ export default function TestScreen() {
                 pendingSingleTouchPointRef.current = null;
                 pendingSingleTouchStartTimeRef.current = 0;
                 multiFingerTouchCountRef.current = 0;
-                finalizeDragLayerUndo();
                 isPartOfDragRef.current = false;
                 clearDrawStroke();
                 isTouchDragActiveRef.current = false;
@@ -9338,7 +11147,9 @@ export default function TestScreen() {
                         resolveUgcSourceFromName={buildUserTileSourceFromName}
                         showOverlays={showOverlays}
                         isCloneSource={
-                          !isEditingHigherLayer && brush.mode === 'clone' && cloneSourceIndex === cellIndex
+                          !isEditingHigherLayer &&
+                          ((brush.mode === 'clone' && cloneSourceIndex === cellIndex) ||
+                            drawPathStartIndex === cellIndex)
                         }
                         isCloneSample={
                           !isEditingHigherLayer && brush.mode === 'clone' && cloneSampleIndex === cellIndex
@@ -9680,7 +11491,13 @@ export default function TestScreen() {
                   strokeScaleByName={strokeScaleByName}
                   showDebug={settings.showDebug}
                   showOverlays={showOverlays}
-                  cloneSourceIndex={brush.mode === 'clone' && !isEditingHigherLayer ? cloneSourceIndex : null}
+                  cloneSourceIndex={
+                    isEditingHigherLayer
+                      ? null
+                      : brush.mode === 'clone'
+                        ? cloneSourceIndex
+                        : drawPathStartIndex
+                  }
                   cloneSampleIndex={brush.mode === 'clone' && !isEditingHigherLayer ? cloneSampleIndex : null}
                   cloneAnchorIndex={brush.mode === 'clone' && !isEditingHigherLayer ? cloneAnchorIndex : null}
                   cloneCursorIndex={brush.mode === 'clone' && !isEditingHigherLayer ? cloneCursorIndex : null}
@@ -9721,7 +11538,9 @@ export default function TestScreen() {
                           resolveUgcSourceFromName={buildUserTileSourceFromName}
                           showOverlays={showOverlays}
                           isCloneSource={
-                            !isEditingHigherLayer && brush.mode === 'clone' && cloneSourceIndex === cellIndex
+                            !isEditingHigherLayer &&
+                            ((brush.mode === 'clone' && cloneSourceIndex === cellIndex) ||
+                              drawPathStartIndex === cellIndex)
                           }
                           isCloneSample={
                             !isEditingHigherLayer && brush.mode === 'clone' && cloneSampleIndex === cellIndex
@@ -10065,8 +11884,7 @@ export default function TestScreen() {
                       return;
                     }
                     if (isSelectionMode) {
-                      const b = getLevel1BoundsForCanvasCell(cellIndex);
-                      setCanvasSelection({ start: b.minIdx, end: b.maxIdx });
+                      beginSelectionGesture(cellIndex);
                       return;
                     }
                     if (isPatternCreationMode) {
@@ -10088,10 +11906,6 @@ export default function TestScreen() {
                       if (!isPartOfDragRef.current) {
                         pushUndoForDragStart();
                         isPartOfDragRef.current = true;
-                        if (isEditingHigherLayer && brush.mode === 'pattern') {
-                          dragLayerPreSnapshotRef.current = snapshotOtherLayers(activeFile, editingLevel, maxDisplayLevel);
-                          dragLayerAccumulatedRef.current = {};
-                        }
                       }
                       paintCellIndex(cellIndex);
                     } else if (cloneSourceIndex === null) {
@@ -10121,15 +11935,7 @@ export default function TestScreen() {
                     if (isSelectionMode) {
                       const cellIndex = getCellIndexForPoint(point.x, point.y);
                       if (cellIndex !== null) {
-                        const b = getLevel1BoundsForCanvasCell(cellIndex);
-                        setCanvasSelection((prev) =>
-                          prev
-                            ? {
-                                start: Math.min(prev.start, b.minIdx),
-                                end: Math.max(prev.end, b.maxIdx),
-                              }
-                            : prev
-                        );
+                        extendSelectionGesture(cellIndex);
                       }
                       return;
                     }
@@ -10160,7 +11966,6 @@ export default function TestScreen() {
                     setInteracting(false);
                     return;
                   }
-                  finalizeDragLayerUndo();
                   isPartOfDragRef.current = false;
                   clearDrawStroke();
                   setInteracting(false);
@@ -10176,9 +11981,7 @@ export default function TestScreen() {
                   }
                   lastCanvasTapTimeRef.current = now;
                   if (isSelectionMode) {
-                    if (canvasSelection && canvasSelection.start === canvasSelection.end) {
-                      setCanvasSelection(null);
-                    }
+                    endSelectionGesture();
                     return;
                   }
                   if (isPatternCreationMode) {
@@ -10197,7 +12000,6 @@ export default function TestScreen() {
                   lastPaintedRef.current = null;
                 }}
                 onResponderTerminate={() => {
-                  finalizeDragLayerUndo();
                   isPartOfDragRef.current = false;
                   clearDrawStroke();
                   setInteracting(false);
@@ -10227,9 +12029,18 @@ export default function TestScreen() {
               onSelectLayer={(internalLevel) =>
                 setSettings((prev) => ({ ...prev, gridResolutionLevel: internalLevel }))
               }
-              onToggleVisibility={updateActiveFileLayerVisibility}
-              onToggleLocked={updateActiveFileLayerLocked}
-              onToggleEmphasized={updateActiveFileLayerEmphasized}
+              onToggleVisibility={(internalLevel, visible) => {
+                startUndoStep();
+                updateActiveFileLayerVisibility(internalLevel, visible);
+              }}
+              onToggleLocked={(internalLevel, locked) => {
+                startUndoStep();
+                updateActiveFileLayerLocked(internalLevel, locked);
+              }}
+              onToggleEmphasized={(internalLevel, emphasized) => {
+                startUndoStep();
+                updateActiveFileLayerEmphasized(internalLevel, emphasized);
+              }}
             />
           )}
           {showZoomOutMirrorConfirm && zoomRegion && (
@@ -10307,19 +12118,15 @@ export default function TestScreen() {
                     <Pressable
                       onPress={() => {
                         if (isEditingHigherLayer && levelGridInfo && selectionBoundsLayerGrid) {
-                          // Snapshot non-editing layers for undo side-effect.
-                          const movePre = snapshotOtherLayers(activeFile, editingLevel, maxDisplayLevel);
+                          // Moving the editing layer and the finer layers is one undo step.
+                          startUndoStep();
                           const movePostTiles: Record<number, Tile[]> = {};
 
                           // Higher layer (L2/L3): indices are layer-cell indices, not L1 indices.
                           const layerCols = levelGridInfo.levelCols;
-                          const { minRow: lyrMinRow, maxRow: lyrMaxRow, minCol: lyrMinCol, maxCol: lyrMaxCol } = selectionBoundsLayerGrid;
-                          const layerFromIndices: number[] = [];
-                          for (let r = lyrMinRow; r <= lyrMaxRow; r += 1) {
-                            for (let c = lyrMinCol; c <= lyrMaxCol; c += 1) {
-                              layerFromIndices.push(r * layerCols + c);
-                            }
-                          }
+                          const layerFromIndices = hookCanvasSelection
+                            ? getSelectionCells(hookCanvasSelection, layerCols)
+                            : [];
                           const layerToIndices = layerFromIndices.map((i) => {
                             const r = Math.floor(i / layerCols);
                             const c = i % layerCols;
@@ -10332,18 +12139,16 @@ export default function TestScreen() {
                           const cellTilesN = Math.pow(2, editingLevel - 1);
                           const dRowL1 = pendingMoveOffset.dRow * cellTilesN;
                           const dColL1 = pendingMoveOffset.dCol * cellTilesN;
-                          const { minRow: selMinRow, maxRow: selMaxRow, minCol: selMinCol, maxCol: selMaxCol } = selectionBoundsFullGrid;
+                          const selectedL1Cells = getSelectionCells(canvasSelection, fullCols);
+                          const selectedL1Set = new Set(selectedL1Cells);
                           const emptyTile = { imageIndex: -1, rotation: 0, mirrorX: false, mirrorY: false };
                           // Level 1 (file.tiles) - compute post-tiles
                           if (fullCols > 0 && fullRows > 0) {
                             const l1Count = fullCols * fullRows;
                             const l1Src = normalizeTiles(activeFile!.tiles, l1Count, tileSources.length);
                             const l1Pairs: Array<{ fromIdx: number; tile: Tile }> = [];
-                            for (let r = selMinRow; r <= selMaxRow; r += 1) {
-                              for (let c = selMinCol; c <= selMaxCol; c += 1) {
-                                const fromIdx = r * fullCols + c;
-                                l1Pairs.push({ fromIdx, tile: l1Src[fromIdx] ?? { ...emptyTile } });
-                              }
+                            for (const fromIdx of selectedL1Cells) {
+                              l1Pairs.push({ fromIdx, tile: l1Src[fromIdx] ?? { ...emptyTile } });
                             }
                             if (l1Pairs.length > 0) {
                               const nextL1 = [...l1Src];
@@ -10371,10 +12176,7 @@ export default function TestScreen() {
                             const dColM = pendingMoveOffset.dCol * Math.pow(2, editingLevel - M);
                             const mPairs: Array<{ fromIdx: number; tile: Tile }> = [];
                             levelMInfo.cells.forEach((cell, idx) => {
-                              if (
-                                cell.minRow >= selMinRow && cell.maxRow <= selMaxRow &&
-                                cell.minCol >= selMinCol && cell.maxCol <= selMaxCol
-                              ) {
+                              if (getFootprintCells(cell, fullCols).every((i) => selectedL1Set.has(i))) {
                                 mPairs.push({ fromIdx: idx, tile: mSrc[idx] ?? { ...emptyTile } });
                               }
                             });
@@ -10393,16 +12195,6 @@ export default function TestScreen() {
                             movePostTiles[M] = nextM;
                           }
 
-                          // Set side effect before moveRegion pushes undo.
-                          if (Object.keys(movePre).length > 0) {
-                            const movePost: Record<number, Tile[]> = {};
-                            for (const levelStr of Object.keys(movePre)) {
-                              const lv = parseInt(levelStr, 10);
-                              movePost[lv] = movePostTiles[lv] ?? movePre[lv];
-                            }
-                            pendingUndoSideEffectRef.current = { preClear: movePre, postClear: movePost };
-                          }
-
                           moveRegion(layerFromIndices, layerToIndices);
 
                           // Write computed post-tiles to file state.
@@ -10412,35 +12204,26 @@ export default function TestScreen() {
                           }
                           // Update selection in L1 coordinates (each layer cell spans cellTiles L1 cells).
                           const cellTiles = Math.pow(2, editingLevel - 1);
-                          const { minRow, maxRow, minCol, maxCol } = selectionBoundsFullGrid;
-                          const newMinRow = minRow + pendingMoveOffset.dRow * cellTiles;
-                          const newMinCol = minCol + pendingMoveOffset.dCol * cellTiles;
-                          const newMaxRow = maxRow + pendingMoveOffset.dRow * cellTiles;
-                          const newMaxCol = maxCol + pendingMoveOffset.dCol * cellTiles;
-                          const newStart = newMinRow * fullGridColumnsForMapping + newMinCol;
-                          const newEnd = newMaxRow * fullGridColumnsForMapping + newMaxCol;
-                          setCanvasSelection({ start: newStart, end: newEnd });
+                          setCanvasSelection(
+                            offsetSelection(
+                              canvasSelection,
+                              pendingMoveOffset.dRow * cellTiles,
+                              pendingMoveOffset.dCol * cellTiles,
+                              fullGridColumnsForMapping
+                            )
+                          );
                         } else {
                           const cols = fullGridColumnsForMapping;
-                          const fromIndices = getCellIndicesInRegion(
-                            canvasSelection.start,
-                            canvasSelection.end,
-                            cols
-                          );
+                          const fromIndices = getSelectionCells(canvasSelection, cols);
                           const toIndices = fromIndices.map((i) => {
                             const r = Math.floor(i / cols);
                             const c = i % cols;
                             return (r + pendingMoveOffset.dRow) * cols + (c + pendingMoveOffset.dCol);
                           });
                           moveRegion(fromIndices, toIndices);
-                          const { minRow, maxRow, minCol, maxCol } = selectionBoundsFullGrid;
-                          const newMinRow = minRow + pendingMoveOffset.dRow;
-                          const newMinCol = minCol + pendingMoveOffset.dCol;
-                          const newMaxRow = maxRow + pendingMoveOffset.dRow;
-                          const newMaxCol = maxCol + pendingMoveOffset.dCol;
-                          const newStart = newMinRow * cols + newMinCol;
-                          const newEnd = newMaxRow * cols + newMaxCol;
-                          setCanvasSelection({ start: newStart, end: newEnd });
+                          setCanvasSelection(
+                            offsetSelection(canvasSelection, pendingMoveOffset.dRow, pendingMoveOffset.dCol, cols)
+                          );
                         }
                         setShowMoveConfirmDialog(false);
                         setPendingMoveOffset(null);
@@ -10506,34 +12289,23 @@ export default function TestScreen() {
                               ? { tiles: p.tiles, width: p.width, height: p.height }
                               : (p.layerTiles?.[editingLevel] ?? null);
 
-                          // Step 1: Snapshot non-editing layers for undo side-effect.
-                          const stampPre = isEditingHigherLayer
-                            ? snapshotOtherLayers(activeFile, editingLevel, maxDisplayLevel)
-                            : {};
+                          // Step 1: Start the undo step that every level's stamp joins.
+                          startUndoStep();
 
                           // Step 2: Write all OTHER levels directly to the file.
                           // The hook only autosaves editingLevel, so these writes are safe.
-                          const stampAccumulated: Record<number, Record<number, Tile>> = {};
                           if (mainLevel !== editingLevel) {
-                            const updates = applyStampToFileLevel(mainLevel, anchorRow_L1, anchorCol_L1, p.tiles, p.width, p.height, rotation, mirrorX);
-                            if (updates) stampAccumulated[mainLevel] = updates;
+                            applyStampToFileLevel(mainLevel, anchorRow_L1, anchorCol_L1, p.tiles, p.width, p.height, rotation, mirrorX);
                           }
                           if (p.layerTiles) {
                             for (const [levelStr, layerData] of Object.entries(p.layerTiles)) {
                               const M = parseInt(levelStr, 10);
                               if (M === editingLevel) continue;
-                              const updates = applyStampToFileLevel(M, anchorRow_L1, anchorCol_L1, layerData.tiles, layerData.width, layerData.height, rotation, mirrorX);
-                              if (updates) stampAccumulated[M] = updates;
+                              applyStampToFileLevel(M, anchorRow_L1, anchorCol_L1, layerData.tiles, layerData.width, layerData.height, rotation, mirrorX);
                             }
                           }
 
-                          // Step 3: Set side effect before placeStamp pushes undo.
-                          if (isEditingHigherLayer && Object.keys(stampPre).length > 0) {
-                            const stampPost = applyAccumulatedUpdates(stampPre, stampAccumulated);
-                            pendingUndoSideEffectRef.current = { preClear: stampPre, postClear: stampPost };
-                          }
-
-                          // Step 4: Write the current editing level via placeStamp so the hook's
+                          // Step 3: Write the current editing level via placeStamp so the hook's
                           // live state is updated (and undo is pushed).
                           if (editingLevelTileData) {
                             if (editingLevel === 1) {
@@ -10793,6 +12565,8 @@ export default function TestScreen() {
           onPatternDoubleTap={handlePalettePatternPress}
           onRandomLongPress={handlePaletteRandomLongPress}
           onRandomDoubleTap={handlePaletteRandomLongPress}
+          drawPathMode={drawPathMode}
+          onDrawLongPress={handlePaletteDrawLongPress}
           onPatternStampDragStart={handlePatternStampDragStart}
           onPatternStampDragMove={handlePatternStampDragMove}
           onPatternStampDragEnd={handlePatternStampDragEnd}
@@ -10811,20 +12585,278 @@ export default function TestScreen() {
               <ThemedText type="defaultSemiBold">Export .tilepattern?</ThemedText>
               <ThemedView style={styles.inlineOptions}>
                 <Pressable
-                  onPress={() => setShowPatternExportMenu(false)}
+                  onPress={() => setShowPatternExportMenu(false)}
+                  style={styles.overlayItem}
+                  accessibilityRole="button"
+                  accessibilityLabel="Cancel export"
+                >
+                  <ThemedText type="defaultSemiBold">Cancel</ThemedText>
+                </Pressable>
+                {selectedPatternIdsForExport.length === 1 && (
+                  <Pressable
+                    onPress={() => void shareSelectedPatternLink()}
+                    style={styles.overlayItem}
+                    accessibilityRole="button"
+                    accessibilityLabel="Share link to pattern"
+                  >
+                    <ThemedText type="defaultSemiBold">Share Link</ThemedText>
+                  </Pressable>
+                )}
+                <Pressable
+                  onPress={() => void exportSelectedPatternsAsTile()}
+                  style={[styles.overlayItem, styles.overlayItemSelected]}
+                  accessibilityRole="button"
+                  accessibilityLabel="Export .tilepattern file"
+                >
+                  <ThemedText type="defaultSemiBold">Export</ThemedText>
+                </Pressable>
+              </ThemedView>
+            </ThemedView>
+          </ThemedView>
+        )}
+        {showPdfDialog && (
+          <ThemedView style={[styles.overlay, { zIndex: 40 }]}>
+            <Pressable
+              style={styles.overlayBackdrop}
+              onPress={() => setShowPdfDialog(false)}
+              accessibilityRole="button"
+              accessibilityLabel="Close PDF export"
+            />
+            <ThemedView style={styles.overlayPanel}>
+              <ThemedText type="defaultSemiBold">Export PDF</ThemedText>
+              <ScrollView contentContainerStyle={{ gap: 12 }}>
+                <ThemedText type="defaultSemiBold">Page</ThemedText>
+                <ThemedView style={styles.inlineOptions}>
+                  {(Object.keys(PDF_PAGE_SIZES) as PdfPageSize[]).map((pageSize) => (
+                    <Pressable
+                      key={pageSize}
+                      onPress={() => setPdfOptions((prev) => ({ ...prev, pageSize }))}
+                      style={[
+                        styles.overlayItem,
+                        pdfOptions.pageSize === pageSize && styles.overlayItemSelected,
+                      ]}
+                      accessibilityRole="button"
+                      accessibilityLabel={`Page size ${PDF_PAGE_SIZES[pageSize].label}`}
+                      accessibilityState={{ selected: pdfOptions.pageSize === pageSize }}
+                    >
+                      <ThemedText type="defaultSemiBold">{PDF_PAGE_SIZES[pageSize].label}</ThemedText>
+                    </Pressable>
+                  ))}
+                </ThemedView>
+                <ThemedView style={styles.inlineOptions}>
+                  {(['portrait', 'landscape'] as const).map((orientation) => (
+                    <Pressable
+                      key={orientation}
+                      onPress={() => setPdfOptions((prev) => ({ ...prev, orientation }))}
+                      style={[
+                        styles.overlayItem,
+                        pdfOptions.orientation === orientation && styles.overlayItemSelected,
+                      ]}
+                      accessibilityRole="button"
+                      accessibilityLabel={`Orientation ${orientation}`}
+                      accessibilityState={{ selected: pdfOptions.orientation === orientation }}
+                    >
+                      <ThemedText type="defaultSemiBold">
+                        {orientation === 'portrait' ? 'Portrait' : 'Landscape'}
+                      </ThemedText>
+                    </Pressable>
+                  ))}
+                </ThemedView>
+                <ThemedText type="defaultSemiBold">Scale</ThemedText>
+                <ThemedView style={styles.inlineOptions}>
+                  {[
+                    ...PDF_CELL_SIZE_OPTIONS_MM.map(
+                      (cellSizeMm): PdfPrintScale => ({ mode: 'cell', cellSizeMm })
+                    ),
+                    ...PDF_DPI_OPTIONS.map((dpi): PdfPrintScale => ({ mode: 'dpi', dpi })),
+                    { mode: 'fit' } as PdfPrintScale,
+                  ].map((scale) => {
+                    const label =
+                      scale.mode === 'cell'
+                        ? `${scale.cellSizeMm / 10} cm tile`
+                        : scale.mode === 'dpi'
+                          ? `${scale.dpi} DPI`
+                          : 'Fit page';
+                    const selected = JSON.stringify(pdfOptions.scale) === JSON.stringify(scale);
+                    return (
+                      <Pressable
+                        key={label}
+                        onPress={() => setPdfOptions((prev) => ({ ...prev, scale }))}
+                        style={[styles.overlayItem, selected && styles.overlayItemSelected]}
+                        accessibilityRole="button"
+                        accessibilityLabel={`Scale ${label}`}
+                        accessibilityState={{ selected }}
+                      >
+                        <ThemedText type="defaultSemiBold">{label}</ThemedText>
+                      </Pressable>
+                    );
+                  })}
+                </ThemedView>
+                <ThemedText type="defaultSemiBold">Margin</ThemedText>
+                <ThemedView style={styles.inlineOptions}>
+                  {PDF_MARGIN_OPTIONS_MM.map((value) => (
+                    <Pressable
+                      key={value}
+                      onPress={() => setPdfOptions((prev) => ({ ...prev, marginMm: value }))}
+                      style={[
+                        styles.overlayItem,
+                        pdfOptions.marginMm === value && styles.overlayItemSelected,
+                      ]}
+                      accessibilityRole="button"
+                      accessibilityLabel={`Margin ${value} mm`}
+                      accessibilityState={{ selected: pdfOptions.marginMm === value }}
+                    >
+                      <ThemedText type="defaultSemiBold">{`${value} mm`}</ThemedText>
+                    </Pressable>
+                  ))}
+                </ThemedView>
+                <ThemedText type="defaultSemiBold">Bleed</ThemedText>
+                <ThemedView style={styles.inlineOptions}>
+                  {PDF_BLEED_OPTIONS_MM.map((value) => (
+                    <Pressable
+                      key={value}
+                      onPress={() => setPdfOptions((prev) => ({ ...prev, bleedMm: value }))}
+                      style={[
+                        styles.overlayItem,
+                        pdfOptions.bleedMm === value && styles.overlayItemSelected,
+                      ]}
+                      accessibilityRole="button"
+                      accessibilityLabel={`Bleed ${value} mm`}
+                      accessibilityState={{ selected: pdfOptions.bleedMm === value }}
+                    >
+                      <ThemedText type="defaultSemiBold">{`${value} mm`}</ThemedText>
+                    </Pressable>
+                  ))}
+                </ThemedView>
+                <ThemedView style={styles.toggleRow}>
+                  <ThemedText type="defaultSemiBold">Crop marks</ThemedText>
+                  <Switch
+                    value={pdfOptions.cropMarks}
+                    onValueChange={(value) => setPdfOptions((prev) => ({ ...prev, cropMarks: value }))}
+                    accessibilityLabel="Toggle crop marks"
+                  />
+                </ThemedView>
+                <ThemedView style={styles.toggleRow}>
+                  <ThemedText type="defaultSemiBold">Poster tiling</ThemedText>
+                  <Switch
+                    value={pdfOptions.posterTiling}
+                    onValueChange={(value) =>
+                      setPdfOptions((prev) => ({ ...prev, posterTiling: value }))
+                    }
+                    accessibilityLabel="Toggle poster tiling across pages"
+                  />
+                </ThemedView>
+              </ScrollView>
+              <ThemedView style={styles.inlineOptions}>
+                <Pressable
+                  onPress={() => setShowPdfDialog(false)}
+                  style={styles.overlayItem}
+                  accessibilityRole="button"
+                  accessibilityLabel="Cancel PDF export"
+                >
+                  <ThemedText type="defaultSemiBold">Cancel</ThemedText>
+                </Pressable>
+                <Pressable
+                  onPress={() => void exportSelectedAsPdf()}
+                  disabled={isExportingPdf}
+                  style={[styles.overlayItem, styles.overlayItemSelected]}
+                  accessibilityRole="button"
+                  accessibilityLabel="Export PDF"
+                >
+                  <ThemedText type="defaultSemiBold">
+                    {isExportingPdf ? 'Exporting…' : 'Export'}
+                  </ThemedText>
+                </Pressable>
+              </ThemedView>
+            </ThemedView>
+          </ThemedView>
+        )}
+        {showTimelapseDialog && (
+          <ThemedView style={[styles.overlay, { zIndex: 40 }]}>
+            <Pressable
+              style={styles.overlayBackdrop}
+              onPress={() => setShowTimelapseDialog(false)}
+              accessibilityRole="button"
+              accessibilityLabel="Close timelapse export"
+            />
+            <ThemedView style={styles.overlayPanel}>
+              <ThemedText type="defaultSemiBold">Export Timelapse</ThemedText>
+              <ThemedText type="default">
+                {`${getEditHistory().length} steps recorded since this layer was opened.`}
+              </ThemedText>
+              <ThemedText type="defaultSemiBold">Format</ThemedText>
+              <ThemedView style={styles.inlineOptions}>
+                {(['gif', 'apng'] as const).map((format) => (
+                  <Pressable
+                    key={format}
+                    onPress={() => setTimelapseOptions((prev) => ({ ...prev, format }))}
+                    style={[
+                      styles.overlayItem,
+                      timelapseOptions.format === format && styles.overlayItemSelected,
+                    ]}
+                    accessibilityRole="button"
+                    accessibilityLabel={`Format ${format === 'gif' ? 'GIF' : 'APNG'}`}
+                    accessibilityState={{ selected: timelapseOptions.format === format }}
+                  >
+                    <ThemedText type="defaultSemiBold">{format === 'gif' ? 'GIF' : 'APNG'}</ThemedText>
+                  </Pressable>
+                ))}
+              </ThemedView>
+              <ThemedText type="defaultSemiBold">Frames per second</ThemedText>
+              <ThemedView style={styles.inlineOptions}>
+                {TIMELAPSE_FPS_OPTIONS.map((fps) => (
+                  <Pressable
+                    key={fps}
+                    onPress={() => setTimelapseOptions((prev) => ({ ...prev, fps }))}
+                    style={[
+                      styles.overlayItem,
+                      timelapseOptions.fps === fps && styles.overlayItemSelected,
+                    ]}
+                    accessibilityRole="button"
+                    accessibilityLabel={`${fps} frames per second`}
+                    accessibilityState={{ selected: timelapseOptions.fps === fps }}
+                  >
+                    <ThemedText type="defaultSemiBold">{fps}</ThemedText>
+                  </Pressable>
+                ))}
+              </ThemedView>
+              <ThemedText type="defaultSemiBold">Max frames</ThemedText>
+              <ThemedView style={styles.inlineOptions}>
+                {TIMELAPSE_MAX_FRAME_OPTIONS.map((maxFrames) => (
+                  <Pressable
+                    key={maxFrames}
+                    onPress={() => setTimelapseOptions((prev) => ({ ...prev, maxFrames }))}
+                    style={[
+                      styles.overlayItem,
+                      timelapseOptions.maxFrames === maxFrames && styles.overlayItemSelected,
+                    ]}
+                    accessibilityRole="button"
+                    accessibilityLabel={`At most ${maxFrames} frames`}
+                    accessibilityState={{ selected: timelapseOptions.maxFrames === maxFrames }}
+                  >
+                    <ThemedText type="defaultSemiBold">{maxFrames}</ThemedText>
+                  </Pressable>
+                ))}
+              </ThemedView>
+              <ThemedView style={styles.inlineOptions}>
+                <Pressable
+                  onPress={() => setShowTimelapseDialog(false)}
                   style={styles.overlayItem}
                   accessibilityRole="button"
-                  accessibilityLabel="Cancel export"
+                  accessibilityLabel="Cancel timelapse export"
                 >
                   <ThemedText type="defaultSemiBold">Cancel</ThemedText>
                 </Pressable>
                 <Pressable
-                  onPress={() => void exportSelectedPatternsAsTile()}
+                  onPress={() => void exportTimelapse()}
+                  disabled={isExportingTimelapse}
                   style={[styles.overlayItem, styles.overlayItemSelected]}
                   accessibilityRole="button"
-                  accessibilityLabel="Export .tilepattern file"
+                  accessibilityLabel="Export timelapse"
                 >
-                  <ThemedText type="defaultSemiBold">Export</ThemedText>
+                  <ThemedText type="defaultSemiBold">
+                    {isExportingTimelapse ? 'Exporting…' : 'Export'}
+                  </ThemedText>
                 </Pressable>
               </ThemedView>
             </ThemedView>
@@ -10920,6 +12952,19 @@ export default function TestScreen() {
               >
                 <ThemedText type="defaultSemiBold">Download PNG</ThemedText>
               </Pressable>
+              {Platform.OS === 'web' && (
+                <Pressable
+                  onPress={() => {
+                    setShowSettingsOverlay(false);
+                    setShowTimelapseDialog(true);
+                  }}
+                  style={styles.settingsAction}
+                  accessibilityRole="button"
+                  accessibilityLabel="Export timelapse of edit history"
+                >
+                  <ThemedText type="defaultSemiBold">Export Timelapse</ThemedText>
+                </Pressable>
+              )}
               <ThemedView style={styles.toggleRow}>
                 <ThemedText type="defaultSemiBold">Developer mode</ThemedText>
                 <Switch
@@ -10989,6 +13034,193 @@ export default function TestScreen() {
             </ScrollView>
           </ThemedView>
         )}
+        {showSeedDialog && (
+          <ThemedView style={styles.overlay}>
+            <Pressable
+              style={styles.overlayBackdrop}
+              onPress={() => setShowSeedDialog(false)}
+              accessibilityRole="button"
+              accessibilityLabel="Cancel re-roll"
+            />
+            <ThemedView style={styles.overlayPanel}>
+              <ThemedText type="title">Re-roll with Seed</ThemedText>
+              <ThemedText type="defaultSemiBold">
+                Flood again using this seed. The same seed and palette always give the same canvas.
+              </ThemedText>
+              <TextInput
+                value={seedDraft}
+                onChangeText={setSeedDraft}
+                style={styles.seedInput}
+                placeholder="Seed"
+                placeholderTextColor="#9ca3af"
+                keyboardType="number-pad"
+                returnKeyType="done"
+                onSubmitEditing={handleConfirmSeedDialog}
+                accessibilityLabel="Random seed"
+              />
+              <ThemedView style={styles.inlineOptions}>
+                <Pressable
+                  onPress={() => setShowSeedDialog(false)}
+                  style={styles.overlayItem}
+                  accessibilityRole="button"
+                  accessibilityLabel="Cancel re-roll"
+                >
+                  <ThemedText type="defaultSemiBold">Cancel</ThemedText>
+                </Pressable>
+                <Pressable
+                  onPress={() => setSeedDraft(String(generateSeed()))}
+                  style={styles.overlayItem}
+                  accessibilityRole="button"
+                  accessibilityLabel="Pick a random seed"
+                >
+                  <ThemedText type="defaultSemiBold">Random</ThemedText>
+                </Pressable>
+                <Pressable
+                  onPress={handleConfirmSeedDialog}
+                  style={[styles.overlayItem, styles.overlayItemSelected]}
+                  accessibilityRole="button"
+                  accessibilityLabel="Re-roll with seed"
+                >
+                  <ThemedText type="defaultSemiBold">Re-roll</ThemedText>
+                </Pressable>
+              </ThemedView>
+            </ThemedView>
+          </ThemedView>
+        )}
+        {showSelectionToolsDialog && (
+          <ThemedView style={styles.overlay}>
+            <Pressable
+              style={styles.overlayBackdrop}
+              onPress={() => setShowSelectionToolsDialog(false)}
+              accessibilityRole="button"
+              accessibilityLabel="Close selection tools"
+            />
+            <ThemedView style={styles.overlayPanel}>
+              <ThemedText type="title">Selection</ThemedText>
+              <ThemedText type="defaultSemiBold">
+                Rectangle and Lasso select by dragging; Same Tile and Connected select with a tap.
+                Add and Subtract combine each new selection with the current one.
+              </ThemedText>
+              {SELECTION_TOOLS.map((option) => {
+                const selected = selectionTool === option.tool;
+                return (
+                  <Pressable
+                    key={option.tool}
+                    onPress={() => {
+                      setSelectionTool(option.tool);
+                      setIsSelectionMode(true);
+                      setIsMoveMode(false);
+                    }}
+                    style={[styles.overlayItem, selected && styles.overlayItemSelected]}
+                    accessibilityRole="button"
+                    accessibilityLabel={`Selection tool: ${option.label}`}
+                    accessibilityState={{ selected }}
+                  >
+                    <ThemedText type="defaultSemiBold">{option.label}</ThemedText>
+                  </Pressable>
+                );
+              })}
+              <ThemedView style={styles.selectionCombineRow}>
+                {SELECTION_COMBINE_MODES.map((option) => {
+                  const selected = selectionCombineMode === option.mode;
+                  return (
+                    <Pressable
+                      key={option.mode}
+                      onPress={() => setSelectionCombineMode(option.mode)}
+                      style={[
+                        styles.overlayItem,
+                        styles.selectionCombineItem,
+                        selected && styles.overlayItemSelected,
+                      ]}
+                      accessibilityRole="button"
+                      accessibilityLabel={`Selection mode: ${option.label}`}
+                      accessibilityState={{ selected }}
+                    >
+                      <ThemedText type="defaultSemiBold">{option.label}</ThemedText>
+                    </Pressable>
+                  );
+                })}
+              </ThemedView>
+              <ThemedView style={styles.selectionCombineRow}>
+                <Pressable
+                  onPress={() => {
+                    setCanvasSelection(invertSelection(null, fullGridColumnsForMapping, fullGridRows));
+                    setIsSelectionMode(true);
+                    setShowSelectionToolsDialog(false);
+                  }}
+                  style={[styles.overlayItem, styles.selectionCombineItem]}
+                  accessibilityRole="button"
+                  accessibilityLabel="Select all"
+                >
+                  <ThemedText type="defaultSemiBold">Select All</ThemedText>
+                </Pressable>
+                <Pressable
+                  onPress={() => {
+                    setCanvasSelection(
+                      invertSelection(canvasSelection, fullGridColumnsForMapping, fullGridRows)
+                    );
+                    setIsSelectionMode(true);
+                    setIsMoveMode(false);
+                    setShowSelectionToolsDialog(false);
+                  }}
+                  style={[styles.overlayItem, styles.selectionCombineItem]}
+                  accessibilityRole="button"
+                  accessibilityLabel="Invert selection"
+                >
+                  <ThemedText type="defaultSemiBold">Invert</ThemedText>
+                </Pressable>
+              </ThemedView>
+            </ThemedView>
+          </ThemedView>
+        )}
+        {showSymmetryDialog && (
+          <ThemedView style={styles.overlay}>
+            <Pressable
+              style={styles.overlayBackdrop}
+              onPress={() => setShowSymmetryDialog(false)}
+              accessibilityRole="button"
+              accessibilityLabel="Close symmetry"
+            />
+            <ThemedView style={styles.overlayPanel}>
+              <ThemedText type="title">Symmetry</ThemedText>
+              <ThemedText type="defaultSemiBold">
+                Copies every edit around the canvas center, on top of the mirror setting. 4-fold
+                rotation and diagonal mirror need a square grid.
+              </ThemedText>
+              {SYMMETRY_MODES.map((option) => {
+                const available = isSymmetryModeAvailable(
+                  option.mode,
+                  gridLayout.rows,
+                  gridLayout.columns
+                );
+                const selected = settings.symmetryMode === option.mode;
+                return (
+                  <Pressable
+                    key={option.mode}
+                    onPress={() => {
+                      if (!available) return;
+                      setSettings((prev) => ({ ...prev, symmetryMode: option.mode }));
+                      setShowSymmetryDialog(false);
+                    }}
+                    style={[
+                      styles.overlayItem,
+                      selected && styles.overlayItemSelected,
+                      !available && styles.symmetryOptionDisabled,
+                    ]}
+                    accessibilityRole="button"
+                    accessibilityLabel={`Symmetry: ${option.label}`}
+                    accessibilityState={{ selected, disabled: !available }}
+                  >
+                    <ThemedText type="defaultSemiBold">
+                      {option.label}
+                      {!available ? ' (square grids only)' : ''}
+                    </ThemedText>
+                  </Pressable>
+                );
+              })}
+            </ThemedView>
+          </ThemedView>
+        )}
         {showDebugModal && (
           <ThemedView style={styles.overlay} accessibilityRole="dialog">
             <Pressable
@@ -11053,6 +13285,16 @@ export default function TestScreen() {
                   accessibilityLabel="Toggle edge connections"
                 />
               </ThemedView>
+              {activeFile && (
+                <ThemedView style={styles.toggleRow}>
+                  <ThemedText type="defaultSemiBold">Tileable (Wrap Edges)</ThemedText>
+                  <Switch
+                    value={activeFile.tileable === true}
+                    onValueChange={updateActiveFileTileable}
+                    accessibilityLabel="Toggle tileable wrap-around canvas"
+                  />
+                </ThemedView>
+              )}
               <ThemedView style={styles.toggleRow}>
                 <ThemedText type="defaultSemiBold">Cross-Layer Connectivity</ThemedText>
                 <Switch
@@ -11063,6 +13305,18 @@ export default function TestScreen() {
                   accessibilityLabel="Toggle cross-layer connectivity"
                 />
               </ThemedView>
+              {settings.crossLayerConnectivity && (
+                <ThemedView style={styles.toggleRow}>
+                  <ThemedText type="defaultSemiBold">Reconcile All Layers</ThemedText>
+                  <Switch
+                    value={settings.reconcileAllLayers}
+                    onValueChange={(value) =>
+                      setSettings((prev) => ({ ...prev, reconcileAllLayers: value }))
+                    }
+                    accessibilityLabel="Toggle reconcile all layers"
+                  />
+                </ThemedView>
+              )}
               <ScrollView
                 style={styles.tileSetChooserScroll}
                 contentContainerStyle={styles.tileSetChooserScrollContent}
@@ -11664,6 +13918,15 @@ const styles = StyleSheet.create({
   overlayItemSelected: {
     borderColor: '#22c55e',
   },
+  seedInput: {
+    borderWidth: 1,
+    borderColor: '#1f1f1f',
+    borderRadius: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    color: '#111',
+    backgroundColor: '#fff',
+  },
   errorText: {
     color: '#ef4444',
     marginTop: 6,
@@ -11774,6 +14037,91 @@ const styles = StyleSheet.create({
     paddingTop: FILE_GRID_GAP + 8,
     paddingBottom: 12,
   },
+  fileBrowserBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: FILE_GRID_SIDE_PADDING,
+    paddingTop: 8,
+    backgroundColor: 'transparent',
+  },
+  fileSearchField: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    borderWidth: 1,
+    borderColor: '#2a2a2a',
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    backgroundColor: '#111',
+  },
+  fileSearchInput: {
+    flex: 1,
+    paddingVertical: 6,
+    color: '#fff',
+  },
+  fileSortButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 6,
+    paddingHorizontal: 6,
+  },
+  fileSortButtonText: {
+    color: '#9ca3af',
+  },
+  fileSortOptionSelected: {
+    color: '#22c55e',
+  },
+  fileBreadcrumbs: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    paddingHorizontal: FILE_GRID_SIDE_PADDING,
+    paddingTop: 8,
+    backgroundColor: 'transparent',
+  },
+  fileBreadcrumbItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+    backgroundColor: 'transparent',
+  },
+  fileBreadcrumbText: {
+    color: '#9ca3af',
+  },
+  fileBreadcrumbTextCurrent: {
+    color: '#fff',
+  },
+  folderCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    borderWidth: 1,
+    borderColor: '#1f1f1f',
+    backgroundColor: '#111',
+    paddingVertical: 10,
+    paddingHorizontal: 10,
+  },
+  folderCardText: {
+    flex: 1,
+    backgroundColor: 'transparent',
+  },
+  folderCardName: {
+    color: '#fff',
+  },
+  folderCardCount: {
+    fontSize: 12,
+    color: '#6b7280',
+  },
+  fileSearchEmptyText: {
+    width: '100%',
+    color: '#6b7280',
+  },
+  moveToFolderItemDisabled: {
+    opacity: 0.4,
+  },
   fileGridSectionDivider: {
     width: '100%',
     height: 1,
@@ -11885,6 +14233,51 @@ const styles = StyleSheet.create({
   fileMenuDeleteText: {
     color: '#dc2626',
   },
+  historyCheckpointRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  historyCheckpointInput: {
+    flex: 1,
+  },
+  historyScroll: {
+    flexShrink: 1,
+  },
+  historyEmptyText: {
+    color: '#6b7280',
+  },
+  historyRow: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  historyThumb: {
+    width: SNAPSHOT_THUMB_SIZE,
+    height: SNAPSHOT_THUMB_SIZE,
+    borderRadius: 4,
+    backgroundColor: '#0f0f0f',
+    alignItems: 'center',
+    justifyContent: 'center',
+    overflow: 'hidden',
+  },
+  historyInfo: {
+    flex: 1,
+    gap: 4,
+  },
+  historyDateText: {
+    color: '#6b7280',
+    fontSize: 13,
+  },
+  historyAction: {
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 6,
+  },
   patternModal: {
     ...StyleSheet.absoluteFillObject,
     zIndex: 30,
@@ -12356,6 +14749,19 @@ const styles = StyleSheet.create({
   canvasSelectionBoxDimmed: {
     opacity: 0.5,
   },
+  selectionCombineRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  selectionCombineItem: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  canvasSelectionEdge: {
+    position: 'absolute',
+    backgroundColor: '#22c55e',
+    zIndex: 3,
+  },
   movePreviewBox: {
     position: 'absolute',
     borderWidth: 2,
@@ -12437,4 +14843,17 @@ const styles = StyleSheet.create({
     position: 'absolute',
     backgroundColor: '#3b82f6',
   },
+  mirrorLineDiagonal: {
+    position: 'absolute',
+    backgroundColor: '#3b82f6',
+  },
+  symmetryCenter: {
+    position: 'absolute',
+    borderWidth: 2,
+    borderColor: '#3b82f6',
+    backgroundColor: 'transparent',
+  },
+  symmetryOptionDisabled: {
+    opacity: 0.4,
+  },
 });
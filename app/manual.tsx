@@ -80,22 +80,22 @@ export default function ManualScreen() {
 
         <ThemedText type="defaultSemiBold" style={styles.subsection}>File view</ThemedText>
         <ThemedText type="default" style={styles.para}>
-          The File view is your home screen. It shows all your saved designs as a grid of cards. Tap a card to open that design in the Modify view. Long press a card for the file options menu: Download, Download SVG (web), Duplicate, or Delete. New File (＋) creates a new design at maximum resolution. Select Mode lets you select multiple files to delete or export. Settings (gear) opens app settings. The File title at the top is tappable and takes you to the Tile Sets area.
+          The File view is your home screen. It shows all your saved designs as a grid of cards. Tap a card to open that design in the Modify view. Long press a card for the file options menu: Download, Download SVG (web), Download .tile, Tags, Move to folder, History, Duplicate, or Delete. History lists earlier versions of the design, saved automatically while you edit plus checkpoints you name yourself; restore one (the current version is kept as a checkpoint), duplicate it as a new file, or delete it. New Folder (folder icon) adds a folder inside the open one; folders can hold folders. Tap a folder card to open it and use the path above the grid to go back up; long press a folder card (or tap ⋯ in the path) to rename, move or delete it. Deleting a folder keeps its designs and moves them up one level. New designs and imports go into the open folder. Tags are free words for a design (commas or spaces between them). Search above the grid finds designs by name or tag in the open folder and the folders inside it; every word must match, and a word starting with # only matches tags. Sort orders designs by Updated, Created, Name, Size or Tile set and is remembered. New File (＋) creates a new design at maximum resolution. Select Mode lets you select multiple files to delete, export or move into a folder. Export PDF (web) makes a print-ready vector PDF: pick the page size and orientation, a physical size per tile (for example 2 cm), a DPI or fit to page, margins, bleed, and crop marks; Poster tiling splits large designs over several labelled pages that line up once trimmed. Export Plotter SVG (web) downloads a paths-only SVG for pen plotters and laser cutters: plain strokes with no fills, lines joined across tiles, duplicates removed, one layer per resolution level and line color. Export Tiled Map (web) downloads a ZIP with a Tiled .tmx map, the same map as Tiled JSON, and its tileset image, one layer per resolution level; Import also opens Tiled maps whose tiles are named after tiles in this app. With one file selected, Share Link in the Export menu copies (web) or shares a link that opens the design as a new file; patterns have the same option. Designs too large for a link must be exported as a file. Settings (gear) opens app settings. The File title at the top is tappable and takes you to the Tile Sets area.
         </ThemedText>
 
         <ThemedText type="defaultSemiBold" style={styles.subsection}>Modify view</ThemedText>
         <ThemedText type="default" style={styles.para}>
-          Where you edit a single design. &lt; Back (top left) saves and returns to the File view. The toolbar has Reset, Flood, Reconcile, and Mirror (cycling button). The brush panel at the bottom shows the tile palette and brush modes: Random, palette tiles, Clone, Erase, and Pattern. Double tap or long press the Random tile to open the Tile Set chooser. Settings (gear) opens Modify-view settings including Download PNG.
+          Where you edit a single design. &lt; Back (top left) saves and returns to the File view. The toolbar has Reset, Flood, Reconcile, Generate, Re-roll, and Mirror (cycling button). The brush panel at the bottom shows the tile palette and brush modes: Random, palette tiles, Clone, Erase, and Pattern. Double tap or long press the Random tile to open the Tile Set chooser. Settings (gear) opens Modify-view settings including Download PNG.
         </ThemedText>
 
         <ThemedText type="defaultSemiBold" style={styles.subsection}>Tile Sets list</ThemedText>
         <ThemedText type="default" style={styles.para}>
-          From File view, tap File to open the Tile Sets list. Tap a tile set card to open it in the Tile Set Editor. Long press (on web) for download. Create starts a new tile set (name + resolution 2, 3, or 4). Select Mode lets you delete multiple sets. Tap the Tile Sets title to go back to the File view.
+          From File view, tap File to open the Tile Sets list. Tap a tile set card to open it in the Tile Set Editor. Long press (on web) for download. Create starts a new tile set (name + resolution 2, 3, or 4). Import adds a .tileset file, or a new set from a ZIP or several SVG files drawn in a vector tool; each SVG must be named name_########.svg, the eight digits being its connections (1 = connected) clockwise from North, e.g. road_end_10000000.svg. Other files are skipped and listed. Select Mode lets you delete multiple sets. Tap the Tile Sets title to go back to the File view.
         </ThemedText>
 
         <ThemedText type="defaultSemiBold" style={styles.subsection}>Tile Set Editor</ThemedText>
         <ThemedText type="default" style={styles.para}>
-          Inside a tile set you see all its tiles. Tap a tile to open the Modify Tile view and edit that tile’s graphic. Add Tile adds a new tile. Select Mode lets you delete (or duplicate/download on web) multiple tiles. Settings lets you rename the tile set.
+          Inside a tile set you see all its tiles. Tap a tile to open the Modify Tile view and edit that tile’s graphic (tiles imported from SVG files are edited in your vector tool and imported again). Add Tile adds a new tile. Select Mode lets you delete (or duplicate/download on web) multiple tiles. Settings lets you rename the tile set.
         </ThemedText>
 
         <ThemedText type="defaultSemiBold" style={styles.subsection}>Modify Tile view</ThemedText>
@@ -109,6 +109,16 @@ export default function ManualScreen() {
         <ThemedText type="default" style={styles.para}>
           The toolbar at the top of the canvas uses these icons:
         </ThemedText>
+        <ToolRow
+          icon="undo"
+          label="Undo / Redo"
+          description="In the Modify view’s file menu. Steps back or forward through your edits: one stroke or tool action, on every layer it touched, including locks and layer visibility, lock and highlight. The history is saved with the design, so undo still works after closing it or restarting the app (up to 100 steps). Phone browsers: two-finger tap undoes, three-finger tap redoes."
+        />
+        <ToolRow
+          icon="select-drag"
+          label="Selection"
+          description="Tap: turns selection mode on or off; drag on the canvas to select. Clear, Flood, Reconcile, Generate, Lock, Move and Save selection as pattern then use only the selected cells. Long press: choose Rectangle, Lasso, Same Tile or Connected selection, set Replace, Add or Subtract, or use Select All and Invert."
+        />
         <ToolRow
           icon="refresh"
           label="Reset"
@@ -122,12 +132,22 @@ export default function ManualScreen() {
         <ToolRow
           icon="puzzle"
           label="Reconcile"
-          description="Tap: fixes invalid tile connections. Long press: Controlled Randomize."
+          description="Tap: fixes invalid tile connections and shows how many broken seams were found, fixed, and left unfixable; unfixable seams are marked with red dots. With Cross-Layer Connectivity and Reconcile All Layers on (Tile Sets chooser), repairs every visible layer together. With a selection, only the selected cells change and they are fitted to the tiles around them. Long press: Controlled Randomize (also limited to the selection)."
+        />
+        <ToolRow
+          icon="auto-fix"
+          label="Generate"
+          description="Fills the grid (or selection) with a tiling where every connection matches. Shows a message when no valid tiling exists."
+        />
+        <ToolRow
+          icon="dice-multiple"
+          label="Re-roll"
+          description="Tap: floods again with a new random seed. Long press: enter a seed number to reproduce a design. Same seed + same palette = identical canvas."
         />
         <ToolRow
           icon="flip-horizontal"
           label="Mirror"
-          description="Tap to cycle: off → horizontal → horizontal + vertical → vertical → off. Icon is blue when any mirroring is on (matches guide lines); guide lines show axes."
+          description="Tap to cycle: off → horizontal → horizontal + vertical → vertical → off. Icon is blue when any mirroring is on (matches guide lines); guide lines show axes. Long press: Symmetry — 2-fold or 4-fold rotation about the center, or diagonal mirror (square grids), for mandala-style designs."
         />
 
         <ThemedText type="defaultSemiBold" style={styles.subsection}>Brush panel</ThemedText>
@@ -140,8 +160,13 @@ export default function ManualScreen() {
           description="Tap to place a random compatible tile. Double tap or long press to open the Tile Set chooser."
         />
         <ThemedText type="default" style={styles.para}>
-          Palette tiles — Tap to select, then tap on the grid to place. Double tap a palette tile to cycle rotation and mirror; long press to add/remove from Favorites.
+          Palette tiles — Tap to select, then tap on the grid to place. Double tap a palette tile to cycle rotation and mirror; long press to open Tile Properties (Favorites, and Random Frequency for the tile or its whole tile set — Off, Rare, Less, Normal, More, Dominant).
         </ThemedText>
+        <ToolRow
+          icon="pencil"
+          label="Draw"
+          description="Drag to lay a connected line. Long press to switch to Path mode: tap a start cell, then an end cell, and a connected path is routed between them around locked cells and existing tiles."
+        />
         <ToolRow
           icon="content-copy"
           label="Clone"
@@ -165,12 +190,12 @@ export default function ManualScreen() {
 
         <ThemedText type="defaultSemiBold" style={styles.subsection}>Tile Set chooser</ThemedText>
         <ThemedText type="default" style={styles.para}>
-          Opened by double tap or long press on the Random brush. At the top: Allow Border Connections — when on, tiles at the grid edge can use connections as if they had neighbors; when off, edges behave as empty. Shows built-in categories and your user tile sets. Select one or more to define the active palette. Selected items have a green border. Confirm to update the palette.
+          Opened by double tap or long press on the Random brush. At the top: Allow Border Connections — when on, tiles at the grid edge can use connections as if they had neighbors; when off, edges behave as empty. Tileable (Wrap Edges), saved per file: opposite edges of the grid are neighbors for drawing, Flood, Reconcile and Generate, and exported images repeat seamlessly (resolution layers do not wrap). Shows built-in categories and your user tile sets. Select one or more to define the active palette. Selected items have a green border. Confirm to update the palette.
         </ThemedText>
 
         <ThemedText type="subtitle" style={styles.sectionTitle}>Settings</ThemedText>
         <ThemedText type="default" style={styles.para}>
-          View manual — Opens this manual. Show Debug — shows a debug overlay on the grid. Download PNG (Modify view only) — downloads the current canvas. Background Color, Background Line Color, Line Width — customize the grid look. Delete all local data — permanently deletes all files, tile sets, patterns, and favorites and resets all settings to their defaults (with confirmation). Settings are saved automatically.
+          View manual — Opens this manual. Show Debug — shows a debug overlay on the grid. Compact .tile export (File view) — downloads .tile files packed and compressed, much smaller; only this version of the app or later can open them. Download PNG (Modify view only) — downloads the current canvas. Export Timelapse (Modify view, web) — downloads a GIF or APNG animation of the edits made since the design or layer was opened; choose frames per second and the maximum number of frames. Background Color, Background Line Color, Line Width — customize the grid look. Back up library (File view) — saves one ZIP with all files, tile sets, patterns, favorites and settings (downloads on web, share sheet on a phone). Restore library (File view) — opens a backup ZIP; Merge adds it to your library, Replace restores only the backup; when merging, items that differ ask whether to keep yours, use the backup’s, or keep both. Delete all local data — permanently deletes all files, tile sets, patterns, and favorites and resets all settings to their defaults (with confirmation). Settings are saved automatically.
         </ThemedText>
 
         <ThemedText type="subtitle" style={styles.sectionTitle}>Tips</ThemedText>
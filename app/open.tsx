@@ -0,0 +1,10 @@
+import { Redirect, useLocalSearchParams } from 'expo-router';
+
+/**
+ * Share link entry point (/open?d=…, see utils/share-link.ts). Hands the payload to the
+ * File view, which decodes it and opens the design as a new file or pattern.
+ */
+export default function OpenSharedDesignScreen() {
+  const { d } = useLocalSearchParams<{ d?: string }>();
+  return <Redirect href={typeof d === 'string' && d.length > 0 ? { pathname: '/', params: { d } } : '/'} />;
+}
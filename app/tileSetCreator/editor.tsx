@@ -4,6 +4,7 @@ import { useLocalSearchParams, useRouter } from 'expo-router';
 import JSZip from 'jszip';
 import { useCallback, useEffect, useRef, useState } from 'react';
 import {
+    Alert,
     Animated,
     Platform,
     Pressable,
@@ -31,8 +32,10 @@ import {
     parseTileConnections,
     transformConnections,
 } from '@/utils/tile-compat';
+import { downloadUgcTileFile } from '@/utils/download-ugc-tile';
 import { exportTileCanvasAsSvg, renderTileCanvasToSvg } from '@/utils/tile-export';
 import { normalizeTiles, type Tile } from '@/utils/tile-grid';
+import { getTileThumbnailUri } from '@/utils/tile-svg-import';
 
 const HEADER_HEIGHT = 50;
 const FILE_GRID_COLUMNS_MOBILE = 4;
@@ -50,6 +53,10 @@ const normalizeCategories = (value: TileCategory[] | null | undefined) => {
 const getSourcesForCategories = (categories: TileCategory[]) =>
   categories.flatMap((category) => TILE_MANIFEST[category] ?? []);
 const getBorderStatus = (tile: TileSetTile, sources: Array<{ name?: string }>) => {
+  if (tile.svg) {
+    const bits = tile.connections ?? '00000000';
+    return { statuses: bits.split('').map((digit) => digit === '1'), bits };
+  }
   const rows = tile.grid.rows;
   const columns = tile.grid.columns;
   if (rows <= 0 || columns <= 0) {
@@ -190,6 +197,12 @@ export default function TileSetEditorScreen() {
     if (selectedTiles.length === 1) {
       if (Platform.OS === 'web' && typeof window !== 'undefined') {
         const { bits } = getBorderStatus(selectedTiles[0], sourcesForHooks);
+        const svgTile = selectedTiles[0].svg;
+        if (svgTile) {
+          void downloadUgcTileFile(svgTile, `${tileSet.name}_1_${bits}.svg`);
+          setShowTileExportMenu(false);
+          return;
+        }
         void exportTileCanvasAsSvg({
           tiles: selectedTiles[0].tiles,
           gridLayout: {
@@ -219,7 +232,7 @@ export default function TileSetEditorScreen() {
       const tile = selectedTiles[i];
       const { bits } = getBorderStatus(tile, sourcesForHooks);
       const fileName = `${tileSet.name}_${i + 1}_${bits}.svg`;
-      const svg = await renderTileCanvasToSvg({
+      const svg = tile.svg ?? (await renderTileCanvasToSvg({
         tiles: tile.tiles,
         gridLayout: {
           rows: tile.grid.rows,
@@ -232,7 +245,7 @@ export default function TileSetEditorScreen() {
         lineColor: tileSet.lineColor,
         lineWidth: tileSet.lineWidth,
         backgroundColor: null,
-      });
+      }));
       if (svg) {
         zip.file(fileName, svg);
       }
@@ -344,6 +357,9 @@ export default function TileSetEditorScreen() {
       });
     });
     return tilesToRemap.map((tile) => {
+      if (tile.svg) {
+        return tile;
+      }
       const total = tile.grid.rows * tile.grid.columns;
       const normalized = normalizeTiles(tile.tiles, total, prevSources.length);
       const remapped = normalized.map((placement) => {
@@ -419,6 +435,10 @@ export default function TileSetEditorScreen() {
       return;
     }
     const { bits } = getBorderStatus(tile, sources);
+    if (tile.svg) {
+      void downloadUgcTileFile(tile.svg, `${tileSet.name}_1_${bits}.svg`);
+      return;
+    }
     void exportTileCanvasAsSvg({
       tiles: tile.tiles,
       gridLayout: {
@@ -592,6 +612,7 @@ export default function TileSetEditorScreen() {
               tile.grid.columns > 0 && tile.grid.rows > 0
                 ? tile.grid.columns / tile.grid.rows
                 : 1;
+            const thumbnailUri = getTileThumbnailUri(tile);
             return (
               <Pressable
                 key={tile.id}
@@ -599,6 +620,14 @@ export default function TileSetEditorScreen() {
                 onPress={() => {
                   if (isSelectMode) {
                     toggleSelect(tile.id);
+                  } else if (tile.svg) {
+                    const message =
+                      'This tile was imported from an SVG file. Edit it in your vector tool and import it again.';
+                    if (Platform.OS === 'web') {
+                      window.alert(message);
+                    } else {
+                      Alert.alert('SVG tile', message);
+                    }
                   } else {
                     router.push({
                       pathname: '/tileSetCreator/modifyTile',
@@ -624,10 +653,10 @@ export default function TileSetEditorScreen() {
                     { width: cardWidth, aspectRatio: thumbAspect },
                   ]}
                 >
-              {tile.thumbnailUri ? (
+              {thumbnailUri ? (
                     <TileAsset
-                      source={{ uri: tile.thumbnailUri }}
-                      name="thumbnail.png"
+                      source={{ uri: thumbnailUri }}
+                      name={tile.thumbnailUri ? 'thumbnail.png' : 'thumbnail.svg'}
                       style={styles.fileThumbImage}
                       resizeMode="cover"
                     />
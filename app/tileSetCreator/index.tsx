@@ -32,9 +32,16 @@ import { useIsMobileWeb } from '@/hooks/use-is-mobile-web';
 import { usePersistedSettings } from '@/hooks/use-persisted-settings';
 import { useTileFiles } from '@/hooks/use-tile-files';
 import { type TileSetTile, useTileSets } from '@/hooks/use-tile-sets';
+import { confirmImportText } from '@/utils/confirm-import';
 import { downloadUgcTileFile } from '@/utils/download-ugc-tile';
 import { renderTileCanvasToDataUrl } from '@/utils/tile-export';
 import { type Tile } from '@/utils/tile-grid';
+import {
+  buildSvgTileSetPayload,
+  getTileThumbnailUri,
+  readSvgTileFilesFromZip,
+  type SvgTileFile,
+} from '@/utils/tile-svg-import';
 import { deserializeTileSet, serializeTileSet } from '@/utils/tile-ugc-format';
 
 const HEADER_HEIGHT = 50;
@@ -179,8 +186,9 @@ export default function TileSetCreatorScreen() {
 
         const tileThumbs: Array<string | null> = [];
         for (const tile of previewTiles) {
-          if (tile.thumbnailUri) {
-            tileThumbs.push(tile.thumbnailUri);
+          const thumbnailUri = getTileThumbnailUri(tile);
+          if (thumbnailUri) {
+            tileThumbs.push(thumbnailUri);
             continue;
           }
           const uri = await renderTileCanvasToDataUrl({
@@ -310,6 +318,36 @@ export default function TileSetCreatorScreen() {
     setShowCreateModal(true);
   };
 
+  const importSvgTiles = useCallback(
+    (files: SvgTileFile[], name: string) => {
+      const result = buildSvgTileSetPayload(files, {
+        name,
+        category: DEFAULT_CATEGORY as TileCategory,
+      });
+      const showMessage = (title: string, message: string) => {
+        if (Platform.OS === 'web') {
+          window.alert(`${title}: ${message}`);
+        } else {
+          Alert.alert(title, message);
+        }
+      };
+      if (!result.ok) {
+        showMessage('Invalid SVG tiles', result.error);
+        return;
+      }
+      importTileSet(result.payload);
+      if (result.skipped.length > 0) {
+        const shown = result.skipped.slice(0, 5).join(', ');
+        const more = result.skipped.length > 5 ? ` and ${result.skipped.length - 5} more` : '';
+        showMessage(
+          'Some files were skipped',
+          `Not named name_########.svg or not a valid SVG: ${shown}${more}`
+        );
+      }
+    },
+    [importTileSet]
+  );
+
   const handleImportTileSetPress = useCallback(async () => {
     if (Platform.OS === 'web') {
       importTileSetInputRef.current?.click();
@@ -319,14 +357,39 @@ export default function TileSetCreatorScreen() {
       const result = await DocumentPicker.getDocumentAsync({
         type: '*/*',
         copyToCacheDirectory: true,
+        multiple: true,
       });
       if (result.canceled) {
         return;
       }
+      const zipAsset = result.assets.find((asset) => /\.zip$/i.test(asset.name));
+      if (zipAsset) {
+        const base64 = await FileSystem.readAsStringAsync(zipAsset.uri, {
+          encoding: FileSystem.EncodingType.Base64,
+        });
+        const files = await readSvgTileFilesFromZip(base64, { base64: true });
+        importSvgTiles(files, zipAsset.name.replace(/\.zip$/i, ''));
+        return;
+      }
+      const svgAssets = result.assets.filter((asset) => /\.svg$/i.test(asset.name));
+      if (svgAssets.length > 0) {
+        const files: SvgTileFile[] = [];
+        for (const asset of svgAssets) {
+          const content = await FileSystem.readAsStringAsync(asset.uri, {
+            encoding: FileSystem.EncodingType.UTF8,
+          });
+          files.push({ name: asset.name, content });
+        }
+        importSvgTiles(files, 'SVG Tiles');
+        return;
+      }
       const uri = result.assets[0].uri;
       const content = await FileSystem.readAsStringAsync(uri, {
         encoding: FileSystem.EncodingType.UTF8,
       });
+      if (!(await confirmImportText(content, 'tileSet', 'Invalid .tileset file'))) {
+        return;
+      }
       const parseResult = deserializeTileSet(content);
       if (!parseResult.ok) {
         Alert.alert('Invalid .tileset file', parseResult.error);
@@ -336,7 +399,7 @@ export default function TileSetCreatorScreen() {
     } catch {
       Alert.alert('Import failed', 'Could not read the selected file.');
     }
-  }, [importTileSet]);
+  }, [importTileSet, importSvgTiles]);
 
   useEffect(() => {
     if (Platform.OS !== 'web' || typeof document === 'undefined') {
@@ -344,17 +407,42 @@ export default function TileSetCreatorScreen() {
     }
     const input = document.createElement('input');
     input.type = 'file';
-    input.accept = '.tileset,.json,application/octet-stream';
+    input.accept = '.tileset,.json,.zip,.svg,application/octet-stream,application/zip,image/svg+xml';
+    input.multiple = true;
     input.style.display = 'none';
     input.onchange = (e: Event) => {
       const target = e.target as HTMLInputElement;
-      const file = target?.files?.[0];
+      const selected = Array.from(target?.files ?? []);
+      const file = selected[0];
       if (!file) {
         return;
       }
+      const zipFile = selected.find((entry) => /\.zip$/i.test(entry.name));
+      const svgFiles = selected.filter((entry) => /\.svg$/i.test(entry.name));
+      if (zipFile || svgFiles.length > 0) {
+        const readSvgFiles = async () => {
+          if (zipFile) {
+            const files = await readSvgTileFilesFromZip(await zipFile.arrayBuffer());
+            importSvgTiles(files, zipFile.name.replace(/\.zip$/i, ''));
+            return;
+          }
+          const files = await Promise.all(
+            svgFiles.map(async (entry) => ({ name: entry.name, content: await entry.text() }))
+          );
+          importSvgTiles(files, 'SVG Tiles');
+        };
+        readSvgFiles().catch(() => {
+          window.alert('Import failed: Could not read the selected files.');
+        });
+        target.value = '';
+        return;
+      }
       const reader = new FileReader();
-      reader.onload = () => {
+      reader.onload = async () => {
         const text = reader.result as string;
+        if (!(await confirmImportText(text, 'tileSet', 'Invalid .tileset file'))) {
+          return;
+        }
         const parseResult = deserializeTileSet(text);
         if (!parseResult.ok) {
           if (typeof window !== 'undefined' && window.alert) {
@@ -375,7 +463,7 @@ export default function TileSetCreatorScreen() {
       }
       importTileSetInputRef.current = null;
     };
-  }, [importTileSet]);
+  }, [importTileSet, importSvgTiles]);
 
   const deleteSelected = () => {
     if (selectedIds.size === 0) {
@@ -1009,15 +1097,16 @@ const TileSetPreview = ({
                 />
               );
             }
-            if (tile.thumbnailUri) {
+            const thumbnailUri = getTileThumbnailUri(tile);
+            if (thumbnailUri) {
               return (
                 <ThemedView
                   key={`cell-${setId}-${previewIndex}`}
                   style={Platform.OS === 'web' ? styles.fileThumbCell : styles.fileThumbCellCapture}
                 >
                   <TileAsset
-                    source={{ uri: tile.thumbnailUri }}
-                    name="thumbnail.png"
+                    source={{ uri: thumbnailUri }}
+                    name={tile.thumbnailUri ? 'thumbnail.png' : 'thumbnail.svg'}
                     style={styles.fileThumbImage}
                     resizeMode="cover"
                   />
@@ -25,6 +25,7 @@ import { ThemedView } from '@/components/themed-view';
 import { TileAsset } from '@/components/tile-asset';
 import { TileAtlasSprite } from '@/components/tile-atlas-sprite';
 import { TileDebugOverlay } from '@/components/tile-debug-overlay';
+import { useGridUndoStack } from '@/hooks/use-grid-undo-stack';
 import { usePersistedSettings } from '@/hooks/use-persisted-settings';
 import { useTileAtlas } from '@/hooks/use-tile-atlas';
 import { useTileFiles } from '@/hooks/use-tile-files';
@@ -517,11 +518,7 @@ export default function ModifyTileScreen() {
     floodComplete,
     resetTiles,
     loadTiles,
-    undo,
-    redo,
     pushUndoForDragStart,
-    canUndo,
-    canRedo,
     clearCloneSource,
     setCloneSource,
     cloneSourceIndex,
@@ -553,7 +550,10 @@ export default function ModifyTileScreen() {
       : null,
     patternAnchorKey: selectedPattern?.id ?? null,
     isPartOfDragRef: isPartOfDragRef,
+    // gridUndo is declared below: it needs the grid's tiles and loadTiles.
+    onUndoStep: () => gridUndo.recordStep(),
   });
+  const gridUndo = useGridUndoStack(tiles, loadTiles);
 
   useEffect(() => {
     if (!showTileSetChooser && tileSetSelectionError) {
@@ -618,6 +618,7 @@ export default function ModifyTileScreen() {
       return;
     }
     loadTiles(tileEntry.tiles ?? []);
+    gridUndo.clear();
   }, [tileEntry?.id]);
 
   useEffect(() => {
@@ -1123,19 +1124,19 @@ export default function ModifyTileScreen() {
             <ToolbarButton
               label="Undo"
               icon="undo"
-              disabled={!canUndo}
+              disabled={!gridUndo.canUndo}
               onPress={() => {
                 dismissModifyBanner();
-                undo();
+                gridUndo.undo();
               }}
             />
             <ToolbarButton
               label="Redo"
               icon="redo"
-              disabled={!canRedo}
+              disabled={!gridUndo.canRedo}
               onPress={() => {
                 dismissModifyBanner();
-                redo();
+                gridUndo.redo();
               }}
             />
             <ToolbarButton
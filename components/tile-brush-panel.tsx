@@ -14,7 +14,7 @@ import {
     View,
 } from 'react-native';
 
-import { type TileSource } from '@/assets/images/tiles/manifest';
+import { TILE_MANIFEST, type TileSource } from '@/assets/images/tiles/manifest';
 import { PatternThumbnail } from '@/components/pattern-thumbnail';
 import { ThemedText } from '@/components/themed-text';
 import { TileAsset } from '@/components/tile-asset';
@@ -22,6 +22,17 @@ import { TileAtlasSprite } from '@/components/tile-atlas-sprite';
 import { type TileAtlas } from '@/utils/tile-atlas';
 import { type Tile } from '@/utils/tile-grid';
 import { getConnectionCountFromFileName } from '@/utils/tile-compat';
+import {
+  buildCategoryByName,
+  DEFAULT_TILE_WEIGHT,
+  emptyTileWeights,
+  getTileWeight,
+  getTileWeightSetKey,
+  normalizeTileWeights,
+  setTileWeight,
+  TILE_WEIGHT_PRESETS,
+  type TileWeights,
+} from '@/utils/tile-weights';
 
 type Brush =
   | { mode: 'random' }
@@ -58,6 +69,9 @@ type Props = {
   onPatternDoubleTap?: () => void;
   onRandomLongPress?: () => void;
   onRandomDoubleTap?: () => void;
+  /** Draw brush routes a path between two tapped cells instead of following the finger. */
+  drawPathMode?: boolean;
+  onDrawLongPress?: () => void;
   getRotation: (index: number) => number;
   getMirror: (index: number) => boolean;
   getMirrorVertical: (index: number) => boolean;
@@ -108,6 +122,8 @@ type FavoritesState = {
   lastColor: string;
   /** Last color to pre-select when opening Tile Properties for an unfavorited tile. */
   lastUnfavoritedColor: string;
+  /** Random palette weights (per tile name and per tile set). */
+  weights: TileWeights;
 };
 
 const FAVORITES_STORAGE_KEY = 'tile-brush-favorites-v1';
@@ -117,6 +133,7 @@ const defaultFavoritesState: FavoritesState = {
   favorites: {},
   lastColor: '#f59e0b',
   lastUnfavoritedColor: '#f59e0b',
+  weights: emptyTileWeights(),
 };
 
 /** Draft value meaning "remove from favorites". */
@@ -186,6 +203,7 @@ const favoritesStore = (() => {
             lastColor: parsed?.lastColor ?? defaultFavoritesState.lastColor,
             lastUnfavoritedColor:
               parsed?.lastUnfavoritedColor ?? defaultFavoritesState.lastUnfavoritedColor,
+            weights: normalizeTileWeights(parsed?.weights),
           };
         }
       } catch {
@@ -211,13 +229,50 @@ const favoritesStore = (() => {
     void AsyncStorage.setItem(FAVORITES_STORAGE_KEY, JSON.stringify(state));
   };
 
-  return { subscribe, setState, ensureLoaded, getState: () => state, clearFavorites };
+  /** Drop the in-memory state and read it again (after storage was rewritten). */
+  const reload = async () => {
+    await loading;
+    state = defaultFavoritesState;
+    loaded = false;
+    await ensureLoaded();
+  };
+
+  return { subscribe, setState, ensureLoaded, getState: () => state, clearFavorites, reload };
 })();
 
 export function clearBrushFavorites(): void {
   favoritesStore.clearFavorites();
 }
 
+/** Re-read favorites and weights from storage, e.g. after a library restore. */
+export function reloadBrushFavorites(): Promise<void> {
+  return favoritesStore.reload();
+}
+
+let builtInCategoryByName: Map<string, string> | null = null;
+const getBuiltInCategoryByName = () => {
+  if (!builtInCategoryByName) {
+    builtInCategoryByName = buildCategoryByName(TILE_MANIFEST);
+  }
+  return builtInCategoryByName;
+};
+
+/** Random palette weight by tile name (set in Tile Properties). Returns a new function when weights change. */
+export function useBrushTileWeight(): (name: string) => number {
+  const [weights, setWeights] = useState<TileWeights>(defaultFavoritesState.weights);
+  useEffect(() => {
+    const unsubscribe = favoritesStore.subscribe((next) => setWeights(next.weights));
+    void favoritesStore.ensureLoaded();
+    return () => {
+      unsubscribe();
+    };
+  }, []);
+  return useCallback(
+    (name: string) => getTileWeight(name, weights, getBuiltInCategoryByName()),
+    [weights]
+  );
+}
+
 export function TileBrushPanel({
   tileSources,
   selected,
@@ -237,6 +292,8 @@ export function TileBrushPanel({
   onPatternDoubleTap,
   onRandomLongPress,
   onRandomDoubleTap,
+  drawPathMode = false,
+  onDrawLongPress,
   getRotation,
   getMirror,
   getMirrorVertical,
@@ -284,10 +341,12 @@ export function TileBrushPanel({
     defaultFavoritesState.lastColor
   );
   const lastFavoriteColorRef = useRef(defaultFavoritesState.lastColor);
+  const [tileWeights, setTileWeights] = useState<TileWeights>(defaultFavoritesState.weights);
 
   useEffect(() => {
     const unsubscribe = favoritesStore.subscribe((next) => {
       setFavorites(next.favorites);
+      setTileWeights(next.weights);
       lastFavoriteColorRef.current = next.lastColor;
     });
     void favoritesStore.ensureLoaded();
@@ -510,6 +569,7 @@ export function TileBrushPanel({
       favorites: { ...current.favorites, [favoriteDialog.name]: trimmed },
       lastColor: trimmed,
       lastUnfavoritedColor: trimmed,
+      weights: current.weights,
     });
   };
 
@@ -526,10 +586,19 @@ export function TileBrushPanel({
         removedColor && favoriteColorOptions.includes(removedColor)
           ? removedColor
           : current.lastUnfavoritedColor,
+      weights: current.weights,
     });
     setFavoriteColorDraft(UNFAVORITE_SENTINEL);
   };
 
+  const applyWeight = (scope: 'tiles' | 'sets', key: string, value: number) => {
+    const current = favoritesStore.getState();
+    favoritesStore.setState({
+      ...current,
+      weights: setTileWeight(current.weights, scope, key, value),
+    });
+  };
+
   const closeFavoriteDialog = () => {
     setFavoriteDialog(null);
   };
@@ -550,6 +619,7 @@ export function TileBrushPanel({
           removedColor && favoriteColorOptions.includes(removedColor)
             ? removedColor
             : current.lastUnfavoritedColor,
+        weights: current.weights,
       });
       closeFavoriteDialog();
       return;
@@ -566,6 +636,7 @@ export function TileBrushPanel({
       },
       lastColor: nextColor,
       lastUnfavoritedColor: nextColor,
+      weights: favoritesStore.getState().weights,
     });
     lastFavoriteColorRef.current = nextColor;
     closeFavoriteDialog();
@@ -877,6 +948,10 @@ export function TileBrushPanel({
                     onRandomLongPress?.();
                     return;
                   }
+                  if (isDraw) {
+                    onDrawLongPress?.();
+                    return;
+                  }
                   if (isPatternThumb) {
                     if (!thumbMovingRef.current) {
                       onPatternThumbLongPress?.(entry.id);
@@ -900,7 +975,9 @@ export function TileBrushPanel({
                   isRandom
                     ? 'Random brush'
                     : isDraw
-                      ? 'Draw brush'
+                      ? drawPathMode
+                        ? 'Path brush'
+                        : 'Draw brush'
                       : isErase
                         ? 'Erase brush'
                         : isClone
@@ -938,13 +1015,13 @@ export function TileBrushPanel({
                 ) : isDraw ? (
                   <View style={styles.labelButton}>
                     <MaterialCommunityIcons
-                      name="pencil"
+                      name={drawPathMode ? 'vector-polyline' : 'pencil'}
                       size={itemSize * 0.4}
                       color="#fff"
                       style={styles.labelIcon}
                     />
                     <ThemedText type="default" style={styles.labelTextSmall}>
-                      Draw
+                      {drawPathMode ? 'Path' : 'Draw'}
                     </ThemedText>
                   </View>
                 ) : isErase ? (
@@ -1133,6 +1210,50 @@ export function TileBrushPanel({
                 </Pressable>
               </View>
             )}
+            {favoriteDialog != null && (
+              <View style={styles.modalSection}>
+                <ThemedText type="defaultSemiBold" style={styles.sectionLabel}>
+                  Random Frequency
+                </ThemedText>
+                {(() => {
+                  const setKey = getTileWeightSetKey(
+                    favoriteDialog.name,
+                    getBuiltInCategoryByName()
+                  );
+                  const rows: { scope: 'tiles' | 'sets'; key: string; label: string }[] = [
+                    { scope: 'tiles', key: favoriteDialog.name, label: 'This tile' },
+                    ...(setKey !== null
+                      ? [{ scope: 'sets' as const, key: setKey, label: 'Whole tile set' }]
+                      : []),
+                  ];
+                  return rows.map(({ scope, key, label }) => {
+                    const value = tileWeights[scope][key] ?? DEFAULT_TILE_WEIGHT;
+                    return (
+                      <View key={scope} style={styles.weightRow}>
+                        <ThemedText style={styles.weightRowLabel}>{label}</ThemedText>
+                        <View style={styles.weightOptions}>
+                          {TILE_WEIGHT_PRESETS.map((preset) => {
+                            const isActive = preset.value === value;
+                            return (
+                              <Pressable
+                                key={preset.label}
+                                onPress={() => applyWeight(scope, key, preset.value)}
+                                style={[styles.weightChip, isActive && styles.weightChipSelected]}
+                                accessibilityRole="button"
+                                accessibilityLabel={`${label} frequency ${preset.label}`}
+                                accessibilityState={{ selected: isActive }}
+                              >
+                                <ThemedText style={styles.weightChipText}>{preset.label}</ThemedText>
+                              </Pressable>
+                            );
+                          })}
+                        </View>
+                      </View>
+                    );
+                  });
+                })()}
+              </View>
+            )}
             {favoriteDialog != null && onSetOrientation && tileSources[favoriteDialog.index] && (
               <View style={styles.modalSection}>
                 <ThemedText type="defaultSemiBold" style={styles.sectionLabel}>
@@ -1436,6 +1557,33 @@ const styles = StyleSheet.create({
     color: '#111',
     marginBottom: 6,
   },
+  weightRow: {
+    gap: 4,
+  },
+  weightRowLabel: {
+    color: '#374151',
+    fontSize: 13,
+  },
+  weightOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  weightChip: {
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 6,
+  },
+  weightChipSelected: {
+    borderColor: '#22c55e',
+    borderWidth: 2,
+  },
+  weightChipText: {
+    color: '#111',
+    fontSize: 13,
+  },
   orientationGrid: {
     gap: 6,
   },
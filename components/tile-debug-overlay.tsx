@@ -1,5 +1,7 @@
 import { StyleSheet, View } from 'react-native';
 
+import type { InvalidEdge } from '@/utils/tile-seams';
+
 type Props = {
   connections: boolean[] | null;
 };
@@ -21,8 +23,82 @@ export function TileDebugOverlay({ connections }: Props) {
   );
 }
 
+type SeamOverlayProps = {
+  /** Broken seams (utils/tile-seams.ts) in full-grid cell indices. */
+  edges: InvalidEdge[];
+  /** Full-grid column count used by the edge cell indices. */
+  columns: number;
+  tileSize: number;
+  gap: number;
+  /** Visible window of the full grid (zoom); edges outside are skipped. */
+  minRow?: number;
+  minCol?: number;
+  visibleRows: number;
+  visibleColumns: number;
+};
+
+/** Red markers on broken seams, centred on the shared edge or corner of the two cells. */
+export function TileSeamOverlay({
+  edges,
+  columns,
+  tileSize,
+  gap,
+  minRow = 0,
+  minCol = 0,
+  visibleRows,
+  visibleColumns,
+}: SeamOverlayProps) {
+  if (edges.length === 0 || columns <= 0) {
+    return null;
+  }
+  const stride = tileSize + gap;
+  const size = Math.max(DOT_SIZE, Math.round(tileSize * 0.2));
+  return (
+    <>
+      {edges.map((edge) => {
+        const row = Math.floor(edge.cellIndex / columns) - minRow;
+        const col = (edge.cellIndex % columns) - minCol;
+        if (row < 0 || col < 0 || row >= visibleRows || col >= visibleColumns) {
+          return null;
+        }
+        const offset = SEAM_OFFSETS[edge.direction];
+        const centerX = col * stride + tileSize / 2 + (offset.dc * stride) / 2;
+        const centerY = row * stride + tileSize / 2 + (offset.dr * stride) / 2;
+        return (
+          <View
+            key={`seam-${edge.cellIndex}-${edge.direction}`}
+            style={[
+              styles.seam,
+              {
+                left: centerX - size / 2,
+                top: centerY - size / 2,
+                width: size,
+                height: size,
+                borderRadius: size / 2,
+              },
+              { pointerEvents: 'none' },
+            ]}
+          />
+        );
+      })}
+    </>
+  );
+}
+
 const DOT_SIZE = 6;
 
+/** Row/col step per direction 0..7 (N, NE, E, SE, S, SW, W, NW). */
+const SEAM_OFFSETS = [
+  { dr: -1, dc: 0 },
+  { dr: -1, dc: 1 },
+  { dr: 0, dc: 1 },
+  { dr: 1, dc: 1 },
+  { dr: 1, dc: 0 },
+  { dr: 1, dc: -1 },
+  { dr: 0, dc: -1 },
+  { dr: -1, dc: -1 },
+];
+
 const styles = StyleSheet.create({
   container: {
     ...StyleSheet.absoluteFillObject,
@@ -42,6 +118,13 @@ const styles = StyleSheet.create({
     backgroundColor: '#ef4444',
     opacity: 0.35,
   },
+  seam: {
+    position: 'absolute',
+    backgroundColor: '#ef4444',
+    borderWidth: 1,
+    borderColor: '#fff',
+    zIndex: 16,
+  },
   positions: [
     { left: '50%', top: 0, transform: [{ translateX: -DOT_SIZE / 2 }] }, // N
     {
@@ -0,0 +1,50 @@
+/**
+ * Tests the tile editor's undo stack (useGridUndoStack).
+ * @jest-environment jsdom
+ */
+import { act, renderHook } from '@testing-library/react';
+import { useState } from 'react';
+
+import type { Tile } from '@/utils/tile-grid';
+import { useGridUndoStack } from '../use-grid-undo-stack';
+
+const grid = (imageIndex: number): Tile[] =>
+  Array.from({ length: 4 }, () => ({ imageIndex, rotation: 0, mirrorX: false, mirrorY: false }));
+
+const renderStack = () =>
+  renderHook(() => {
+    const [tiles, setTiles] = useState(grid(-1));
+    const stack = useGridUndoStack(tiles, setTiles);
+    const edit = (next: Tile[]) => {
+      stack.recordStep();
+      setTiles(next);
+    };
+    return { tiles, edit, stack };
+  });
+
+describe('useGridUndoStack', () => {
+  it('undoes and redoes edits', () => {
+    const { result } = renderStack();
+    expect(result.current.stack.canUndo).toBe(false);
+    act(() => result.current.edit(grid(0)));
+    act(() => result.current.edit(grid(1)));
+    act(() => result.current.stack.undo());
+    expect(result.current.tiles).toEqual(grid(0));
+    act(() => result.current.stack.undo());
+    expect(result.current.tiles).toEqual(grid(-1));
+    expect(result.current.stack.canUndo).toBe(false);
+    act(() => result.current.stack.redo());
+    expect(result.current.tiles).toEqual(grid(0));
+    expect(result.current.stack.canRedo).toBe(true);
+  });
+
+  it('drops redo on a new edit and forgets everything on clear', () => {
+    const { result } = renderStack();
+    act(() => result.current.edit(grid(0)));
+    act(() => result.current.stack.undo());
+    act(() => result.current.edit(grid(2)));
+    expect(result.current.stack.canRedo).toBe(false);
+    act(() => result.current.stack.clear());
+    expect(result.current.stack.canUndo).toBe(false);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Tests for the Draw brush path mode (tap start cell, tap end cell).
+ * @jest-environment jsdom
+ */
+import { act, renderHook } from '@testing-library/react';
+import { buildCompatibilityTables } from '@/utils/tile-compat';
+import { useTileGrid } from '../use-tile-grid';
+
+const GRID_COLUMNS = 5;
+const GRID_ROWS = 5;
+
+const mockTileSources = [
+  { name: 'line_10001000.svg', source: {} },
+  { name: 'corner_10100000.svg', source: {} },
+  { name: 'end_10000000.svg', source: {} },
+] as unknown as Parameters<typeof useTileGrid>[0]['tileSources'];
+
+const tables = buildCompatibilityTables(mockTileSources);
+
+const baseParams = {
+  tileSources: mockTileSources,
+  availableWidth: 400,
+  availableHeight: 400,
+  gridGap: 2,
+  preferredTileSize: 40,
+  allowEdgeConnections: false,
+  fixedRows: GRID_ROWS,
+  fixedColumns: GRID_COLUMNS,
+  brush: { mode: 'draw' as const },
+  mirrorHorizontal: false,
+  mirrorVertical: false,
+  pattern: null,
+  drawPathMode: true,
+  randomSeed: 7,
+};
+
+const renderPathGrid = (extra: Partial<Parameters<typeof useTileGrid>[0]> = {}) =>
+  renderHook(() =>
+    useTileGrid({ ...baseParams, ...extra } as Parameters<typeof useTileGrid>[0])
+  );
+
+const connectionCount = (tile: { imageIndex: number; rotation: number; mirrorX: boolean; mirrorY: boolean }) =>
+  tables
+    .getConnectionsForPlacement(tile.imageIndex, tile.rotation, tile.mirrorX, tile.mirrorY)
+    ?.filter(Boolean).length ?? 0;
+
+describe('useTileGrid draw path mode', () => {
+  it('routes a connected path between two tapped cells', () => {
+    const { result } = renderPathGrid();
+    act(() => {
+      result.current.handlePress(0);
+    });
+    expect(result.current.drawPathStartIndex).toBe(0);
+    act(() => {
+      result.current.handlePress(24);
+    });
+    expect(result.current.drawPathStartIndex).toBeNull();
+    const tiles = result.current.fullTilesForSave;
+    const placed = tiles
+      .map((tile, index) => ({ tile, index }))
+      .filter(({ tile }) => tile.imageIndex >= 0);
+    // Manhattan distance 8 → 9 cells.
+    expect(placed).toHaveLength(9);
+    placed.forEach(({ tile, index }) => {
+      expect(connectionCount(tile)).toBe(index === 0 || index === 24 ? 1 : 2);
+    });
+  });
+
+  it('reports an error and leaves the grid unchanged when no route exists', () => {
+    const onDrawPathError = jest.fn();
+    // Column 2 locked from top to bottom.
+    const lockedCells = [2, 7, 12, 17, 22];
+    const { result } = renderPathGrid({ lockedCells, onDrawPathError });
+    act(() => {
+      result.current.handlePress(0);
+    });
+    act(() => {
+      result.current.handlePress(4);
+    });
+    expect(onDrawPathError).toHaveBeenCalledTimes(1);
+    expect(result.current.fullTilesForSave.every((tile) => tile.imageIndex < 0)).toBe(true);
+  });
+
+  it('tapping the start cell again cancels it', () => {
+    const { result } = renderPathGrid();
+    act(() => {
+      result.current.handlePress(6);
+    });
+    act(() => {
+      result.current.handlePress(6);
+    });
+    expect(result.current.drawPathStartIndex).toBeNull();
+    expect(result.current.fullTilesForSave.every((tile) => tile.imageIndex < 0)).toBe(true);
+  });
+});
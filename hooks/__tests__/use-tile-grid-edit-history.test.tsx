@@ -0,0 +1,69 @@
+/**
+ * Tests the edit history recorded for the timelapse export (getEditHistory).
+ * @jest-environment jsdom
+ */
+import { act, renderHook } from '@testing-library/react';
+import { useTileGrid } from '../use-tile-grid';
+
+const mockTileSources = [
+  { name: 'empty_00000000.svg', source: {} },
+  { name: 'line_10001000.svg', source: {} },
+  { name: 'corner_10100000.svg', source: {} },
+  { name: 'end_10000000.svg', source: {} },
+] as unknown as Parameters<typeof useTileGrid>[0]['tileSources'];
+
+const params = {
+  tileSources: mockTileSources,
+  availableWidth: 400,
+  availableHeight: 400,
+  gridGap: 2,
+  preferredTileSize: 40,
+  allowEdgeConnections: false,
+  fixedRows: 4,
+  fixedColumns: 4,
+  brush: { mode: 'random' as const },
+  mirrorHorizontal: false,
+  mirrorVertical: false,
+  pattern: null,
+  randomSeed: 7,
+} as Parameters<typeof useTileGrid>[0];
+
+const filledCount = (tiles: { imageIndex: number }[]) => tiles.filter((t) => t.imageIndex >= 0).length;
+
+describe('useTileGrid edit history', () => {
+  it('ends with the current tiles', () => {
+    const { result } = renderHook(() => useTileGrid(params));
+    const history = result.current.getEditHistory();
+    expect(history).toHaveLength(1);
+    expect(filledCount(history[0])).toBe(0);
+  });
+
+  it('records each undo step and keeps steps that were undone', () => {
+    const { result } = renderHook(() => useTileGrid(params));
+    act(() => {
+      result.current.floodFill();
+    });
+    const flooded = result.current.fullTilesForSave;
+    act(() => {
+      result.current.resetTiles();
+    });
+    // Undo reloads the layer from the file.
+    act(() => {
+      result.current.loadTiles(flooded, { keepEditHistory: true });
+    });
+    const history = result.current.getEditHistory();
+    // Empty grid before the flood, full grid before the reset, the reset grid, then the current (restored) grid.
+    expect(history.map(filledCount)).toEqual([0, 16, 0, 16]);
+  });
+
+  it('starts over when tiles are loaded', () => {
+    const { result } = renderHook(() => useTileGrid(params));
+    act(() => {
+      result.current.floodFill();
+    });
+    act(() => {
+      result.current.loadTiles(result.current.fullTilesForSave);
+    });
+    expect(result.current.getEditHistory()).toHaveLength(1);
+  });
+});
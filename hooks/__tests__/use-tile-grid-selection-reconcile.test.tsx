@@ -0,0 +1,101 @@
+/**
+ * Tests that Reconcile and Controlled Randomize stay inside the canvas selection and
+ * treat the tiles around it as fixed constraints.
+ * @jest-environment jsdom
+ */
+import { act, renderHook } from '@testing-library/react';
+import { buildCompatibilityTables } from '@/utils/tile-compat';
+import type { Tile } from '@/utils/tile-grid';
+import { useTileGrid } from '../use-tile-grid';
+
+const GRID_COLUMNS = 4;
+const GRID_ROWS = 3;
+const TOTAL_CELLS = GRID_COLUMNS * GRID_ROWS;
+
+const mockTileSources = [
+  { name: 'empty_00000000.svg', source: {} },
+  { name: 'line_10001000.svg', source: {} },
+  { name: 'end_10000000.svg', source: {} },
+  { name: 'line-alt_10001000.svg', source: {} },
+] as unknown as Parameters<typeof useTileGrid>[0]['tileSources'];
+
+const tables = buildCompatibilityTables(mockTileSources);
+
+const baseParams = {
+  tileSources: mockTileSources,
+  availableWidth: 400,
+  availableHeight: 400,
+  gridGap: 2,
+  preferredTileSize: 40,
+  allowEdgeConnections: false,
+  fixedRows: GRID_ROWS,
+  fixedColumns: GRID_COLUMNS,
+  brush: { mode: 'random' as const },
+  mirrorHorizontal: false,
+  mirrorVertical: false,
+  pattern: null,
+  randomSeed: 3,
+};
+
+const renderGrid = (extra: Partial<Parameters<typeof useTileGrid>[0]> = {}) =>
+  renderHook(() =>
+    useTileGrid({ ...baseParams, ...extra } as Parameters<typeof useTileGrid>[0])
+  );
+
+const place = (imageIndex: number, rotation = 0): Tile => ({
+  imageIndex,
+  rotation,
+  mirrorX: false,
+  mirrorY: false,
+  name: (mockTileSources[imageIndex] as { name: string }).name,
+});
+
+const connectionsOf = (tile: Tile) =>
+  tables.getConnectionsForPlacement(tile.imageIndex, tile.rotation, tile.mirrorX, tile.mirrorY);
+
+describe('useTileGrid selection-scoped reconcile', () => {
+  it('repairs only selected cells and fits them to the tiles outside', () => {
+    const tiles = Array.from({ length: TOTAL_CELLS }, () => place(0));
+    // Outside the selection: an end pointing E into cell 5.
+    tiles[4] = place(2, 90);
+    // Selected cell 5: an end pointing N, which breaks both its N and W seams.
+    tiles[5] = place(2, 0);
+    // Outside the selection and broken too; must be left alone.
+    tiles[11] = place(2, 0);
+    const { result } = renderGrid({ canvasSelection: { start: 5, end: 5 } });
+    act(() => {
+      result.current.loadTiles(tiles);
+    });
+    act(() => {
+      result.current.reconcileTiles();
+    });
+    const after = result.current.fullTilesForSave;
+    for (let index = 0; index < TOTAL_CELLS; index += 1) {
+      if (index !== 5) {
+        expect(after[index]).toEqual(tiles[index]);
+      }
+    }
+    // Only W connects: the tile outside reaches in from that side.
+    expect(connectionsOf(after[5])).toEqual([false, false, false, false, false, false, true, false]);
+  });
+
+  it('controlled randomize leaves tiles outside the selection unchanged', () => {
+    const tiles = Array.from({ length: TOTAL_CELLS }, () => place(1, 90));
+    const { result } = renderGrid({ canvasSelection: { start: 1, end: 6 } });
+    act(() => {
+      result.current.loadTiles(tiles);
+    });
+    act(() => {
+      result.current.controlledRandomize();
+    });
+    const after = result.current.fullTilesForSave;
+    const selected = new Set([1, 2, 5, 6]);
+    for (let index = 0; index < TOTAL_CELLS; index += 1) {
+      if (selected.has(index)) {
+        expect(connectionsOf(after[index])).toEqual(connectionsOf(tiles[index]));
+      } else {
+        expect(after[index]).toEqual(tiles[index]);
+      }
+    }
+  });
+});
@@ -0,0 +1,79 @@
+import { useCallback, useRef, useState } from 'react';
+
+import type { Tile } from '@/utils/tile-grid';
+import { sameTiles } from '@/utils/undo-log';
+
+const MAX_UNDO_STEPS = 50;
+
+/**
+ * Undo and redo for a grid that is not a canvas file (the tile set creator's tile editor);
+ * canvas files keep their undo history on the file (utils/undo-log.ts). Pass recordStep as
+ * useTileGrid's onUndoStep: it keeps the tiles as they were before each edit, and undo and
+ * redo put them back with the grid's loadTiles.
+ */
+export function useGridUndoStack(tiles: Tile[], loadTiles: (nextTiles: Tile[]) => void) {
+  const tilesRef = useRef(tiles);
+  tilesRef.current = tiles;
+  const loadTilesRef = useRef(loadTiles);
+  loadTilesRef.current = loadTiles;
+  const pastRef = useRef<Tile[][]>([]);
+  const futureRef = useRef<Tile[][]>([]);
+  const [counts, setCounts] = useState({ past: 0, future: 0 });
+
+  const updateCounts = useCallback(() => {
+    setCounts({ past: pastRef.current.length, future: futureRef.current.length });
+  }, []);
+
+  const recordStep = useCallback(() => {
+    const past = pastRef.current;
+    const snapshot = tilesRef.current;
+    if (past.length > 0 && sameTiles(past[past.length - 1], snapshot)) {
+      return;
+    }
+    if (past.length >= MAX_UNDO_STEPS) {
+      past.shift();
+    }
+    past.push(snapshot);
+    futureRef.current = [];
+    updateCounts();
+  }, [updateCounts]);
+
+  /** Move the newest entry of from that differs from the current tiles onto the grid. */
+  const step = useCallback(
+    (from: Tile[][], to: Tile[][]) => {
+      const current = tilesRef.current;
+      let next: Tile[] | undefined;
+      while (from.length > 0 && !next) {
+        const entry = from.pop()!;
+        if (!sameTiles(entry, current)) {
+          next = entry;
+        }
+      }
+      if (next) {
+        to.push(current);
+        loadTilesRef.current(next);
+      }
+      updateCounts();
+    },
+    [updateCounts]
+  );
+
+  const undo = useCallback(() => step(pastRef.current, futureRef.current), [step]);
+  const redo = useCallback(() => step(futureRef.current, pastRef.current), [step]);
+
+  /** Forget every step (e.g. when another tile is opened). */
+  const clear = useCallback(() => {
+    pastRef.current = [];
+    futureRef.current = [];
+    updateCounts();
+  }, [updateCounts]);
+
+  return {
+    recordStep,
+    undo,
+    redo,
+    clear,
+    canUndo: counts.past > 0,
+    canRedo: counts.future > 0,
+  };
+}
@@ -1,17 +1,28 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useCallback, useEffect, useMemo, useState } from 'react';
 
+import { DEFAULT_FILE_SORT, type FileSortKey } from '@/utils/file-browser';
+import type { SymmetryMode } from '@/utils/tile-symmetry';
+
 export type AppSettings = {
   preferredTileSize: number;
   showDebug: boolean;
   developerMode: boolean;
   allowEdgeConnections: boolean;
   crossLayerConnectivity: boolean;
+  /** Reconcile repairs every visible layer together (only when crossLayerConnectivity is on). */
+  reconcileAllLayers: boolean;
   mirrorHorizontal: boolean;
   mirrorVertical: boolean;
+  /** Rotation / diagonal symmetry on top of the mirror toggles. */
+  symmetryMode: SymmetryMode;
   backgroundColor: string;
   backgroundLineColor: string;
   backgroundLineWidth: number;
+  /** Download .tile files packed and deflated (smaller; read by this version and later). */
+  compactTileExport: boolean;
+  /** File view sort order (utils/file-browser.ts). */
+  fileSort: FileSortKey;
   /** Internal grid resolution level (1 = tile grid, 2 = 2×2, 3 = 4×4). UI shows reversed as L1=coarsest, Lmax=finest. */
   gridResolutionLevel?: number;
   tileSetCategories?: string[];
@@ -27,11 +38,15 @@ export const getDefaultSettings = (): AppSettings => ({
   developerMode: false,
   allowEdgeConnections: true,
   crossLayerConnectivity: false,
+  reconcileAllLayers: false,
   mirrorHorizontal: false,
   mirrorVertical: false,
+  symmetryMode: 'none',
   backgroundColor: '#050408',
   backgroundLineColor: '#2B2D30',
   backgroundLineWidth: 1,
+  compactTileExport: false,
+  fileSort: DEFAULT_FILE_SORT,
   gridResolutionLevel: 1,
   tileSetCategories: ['curved', 'angular'],
   tileSetIds: [],
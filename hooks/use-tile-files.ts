@@ -5,8 +5,36 @@ import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { Platform } from 'react-native';
 
 import { TILE_CATEGORIES, type TileCategory } from '@/assets/images/tiles/manifest';
+import {
+  canMoveFolder,
+  normalizeFolders,
+  normalizeTags,
+  type FileFolder,
+} from '@/utils/file-browser';
+import { removeFileSnapshots } from '@/utils/file-snapshots';
 import { getCellIndicesInRegion } from '@/utils/locked-regions';
+import { generateSeed, normalizeSeed } from '@/utils/seeded-random';
+import {
+  normalizeUndoLog,
+  recordUndoChanges,
+  redoFileCommand,
+  undoFileCommand,
+  type UndoLog,
+} from '@/utils/undo-log';
 import { renderTileCanvasToDataUrl, type OverlayLayerParams } from '@/utils/tile-export';
+import { getPackedCellLimit, isPackedTiles, unpackTiles } from '@/utils/tile-compact';
+import {
+    applyFileWrites,
+    createPersistedFiles,
+    joinStoredFile,
+    LEGACY_FILES_KEY,
+    planFileWrites,
+    readFileBodies,
+    readFileIndex,
+    removeAllFileRecords,
+    type PersistedFiles,
+    type StoredFile,
+} from '@/utils/tile-file-storage';
 import { applyRemovedSourcesToFile } from '@/utils/tile-file-sync';
 import {
     serializeTileFile,
@@ -33,6 +61,12 @@ export type TileFile = {
   thumbnailUri: string | null;
   previewUri: string | null;
   updatedAt: number;
+  /** When the file was created; older files have none (see getFileCreatedAt in utils/file-browser.ts). */
+  createdAt?: number;
+  /** Folder the File view lists the file in (utils/file-browser.ts); absent at the top level. */
+  folderId?: string;
+  /** Free-form tags, matched by the File view search. */
+  tags?: string[];
   /** Cell indices that are locked (cannot be modified by any tool). Level-1 (finest grid) only. */
   lockedCells?: number[];
   /** Per-layer locked cells for level 2+. Key = internal level; values are cell indices in that layer's coordinate space. */
@@ -45,14 +79,28 @@ export type TileFile = {
   layerEmphasized?: Record<number, boolean>;
   /** True when the file was added from the bundled samples (file view shows these in a separate section). */
   isSample?: boolean;
+  /** Seed for the random generators (Flood, Randomize, Generate, random brush). Same seed + palette = same result. */
+  seed?: number;
+  /** Tileable canvas: the tile grid wraps (left/right and top/bottom edges are neighbors) and exports repeat seamlessly. */
+  tileable?: boolean;
+  /** Undo/redo command log (utils/undo-log.ts); stored with the body, not exported in .tile files. */
+  undoLog?: UndoLog;
 };
 
-const FILES_KEY = 'tile-files-v1';
 const ACTIVE_KEY = 'tile-files-active-v1';
+/** File view folders (utils/file-browser.ts); files point at them with folderId. */
+const FOLDERS_KEY = 'tile-file-folders-v1';
+
+/** Stored bodies keep tile arrays packed (utils/tile-compact.ts); the loader reads both shapes. */
+const readStoredTiles = (value: unknown, grid: TileFile['grid'], level: number): unknown =>
+  isPackedTiles(value) ? unpackTiles(value, getPackedCellLimit(grid, level)) ?? [] : value;
 
 const createId = () =>
   `file-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
 
+const createFolderId = () =>
+  `folder-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
 const defaultFile = (category: TileCategory): TileFile => ({
   id: createId(),
   name: 'Autosave',
@@ -70,6 +118,17 @@ const defaultFile = (category: TileCategory): TileFile => ({
   updatedAt: Date.now(),
 });
 
+const parseStoredFolders = (raw: string | null): FileFolder[] => {
+  try {
+    return normalizeFolders(raw ? JSON.parse(raw) : []);
+  } catch {
+    return [];
+  }
+};
+
+const isValidCategory = (value: unknown): value is TileCategory =>
+  typeof value === 'string' && (TILE_CATEGORIES as string[]).includes(value);
+
 const normalizeCategories = (value: unknown, fallback: TileCategory) => {
   if (!Array.isArray(value)) {
     return [fallback];
@@ -81,204 +140,368 @@ const normalizeCategories = (value: unknown, fallback: TileCategory) => {
   return valid.length > 0 ? valid : [fallback];
 };
 
+/** Normalize a stored file (legacy blob entry, or index entry joined with its records) into a TileFile. */
+const normalizeStoredFile = (file: StoredFile, fallbackCategory: TileCategory): TileFile => {
+  const safeCategory = isValidCategory(file.category)
+    ? file.category
+    : fallbackCategory;
+  const categories = normalizeCategories(file.categories, safeCategory);
+  const grid =
+    file.grid &&
+    typeof file.grid.rows === 'number' &&
+    typeof file.grid.columns === 'number'
+      ? file.grid
+      : { rows: 0, columns: 0 };
+  const storedTiles = readStoredTiles(file.tiles, grid, 1);
+  const tiles = Array.isArray(storedTiles) ? (storedTiles as Tile[]) : [];
+  const totalCells =
+    typeof grid.rows === 'number' && typeof grid.columns === 'number'
+      ? grid.rows * grid.columns
+      : 0;
+  let lockedCells: number[] = Array.isArray(file.lockedCells)
+    ? file.lockedCells.filter(
+        (i): i is number =>
+          typeof i === 'number' &&
+          Number.isInteger(i) &&
+          i >= 0 &&
+          (totalCells <= 0 || i < totalCells)
+      )
+    : [];
+  const legacyRegions = (file as { lockedRegions?: Array<{ start: number; end: number }> }).lockedRegions;
+  if (lockedCells.length === 0 && Array.isArray(legacyRegions)) {
+    const cols = grid.columns ?? 0;
+    const seen = new Set<number>();
+    for (const r of legacyRegions) {
+      if (
+        r != null &&
+        typeof r.start === 'number' &&
+        typeof r.end === 'number' &&
+        cols > 0
+      ) {
+        getCellIndicesInRegion(r.start, r.end, cols).forEach((i) =>
+          seen.add(i)
+        );
+      }
+    }
+    lockedCells = Array.from(seen);
+  }
+  let layers: Record<number, Tile[]> | undefined;
+  const rawLayers = (file as { layers?: Record<string, unknown> }).layers;
+  if (rawLayers != null && typeof rawLayers === 'object' && !Array.isArray(rawLayers)) {
+    layers = {};
+    for (const key of Object.keys(rawLayers)) {
+      const level = parseInt(key, 10);
+      if (!Number.isInteger(level) || level < 2) continue;
+      const arr = readStoredTiles(rawLayers[key], grid, level);
+      if (!Array.isArray(arr)) continue;
+      // Migrate legacy (complete-only) tile arrays to expanded grid with partial cells
+      const migrated = migrateLegacyLayerTiles(arr as Tile[], grid.columns, grid.rows, level);
+      layers[level] = migrated ?? (arr as Tile[]);
+    }
+    if (Object.keys(layers).length === 0) layers = undefined;
+  }
+  let lockedCellsPerLayer: Record<number, number[]> | undefined;
+  const rawLockedPerLayer = (file as { lockedCellsPerLayer?: Record<string, unknown> }).lockedCellsPerLayer;
+  if (rawLockedPerLayer != null && typeof rawLockedPerLayer === 'object' && !Array.isArray(rawLockedPerLayer)) {
+    lockedCellsPerLayer = {};
+    for (const key of Object.keys(rawLockedPerLayer)) {
+      const level = parseInt(key, 10);
+      if (!Number.isInteger(level) || level < 2) continue;
+      const arr = rawLockedPerLayer[key];
+      if (!Array.isArray(arr)) continue;
+      const cells = (arr as unknown[]).filter(
+        (i): i is number => typeof i === 'number' && Number.isInteger(i) && i >= 0
+      );
+      if (cells.length === 0) continue;
+      // Migrate legacy locked cell indices to expanded grid
+      const migratedLocked = migrateLegacyLockedCells(cells, grid.columns, grid.rows, level);
+      if (migratedLocked && migratedLocked.length > 0) {
+        lockedCellsPerLayer[level] = migratedLocked;
+      } else {
+        lockedCellsPerLayer[level] = cells;
+      }
+    }
+    if (Object.keys(lockedCellsPerLayer).length === 0) lockedCellsPerLayer = undefined;
+  }
+  let layerVisibility: Record<number, boolean> | undefined;
+  const rawVis = (file as { layerVisibility?: Record<string, unknown> }).layerVisibility;
+  if (rawVis != null && typeof rawVis === 'object' && !Array.isArray(rawVis)) {
+    layerVisibility = {};
+    for (const key of Object.keys(rawVis)) {
+      const level = parseInt(key, 10);
+      if (Number.isInteger(level) && level >= 1 && rawVis[key] === false) {
+        layerVisibility[level] = false;
+      }
+    }
+    if (Object.keys(layerVisibility).length === 0) layerVisibility = undefined;
+  }
+  let layerLocked: Record<number, boolean> | undefined;
+  const rawLock = (file as { layerLocked?: Record<string, unknown> }).layerLocked;
+  if (rawLock != null && typeof rawLock === 'object' && !Array.isArray(rawLock)) {
+    layerLocked = {};
+    for (const key of Object.keys(rawLock)) {
+      const level = parseInt(key, 10);
+      if (Number.isInteger(level) && level >= 1 && rawLock[key] === true) {
+        layerLocked[level] = true;
+      }
+    }
+    if (Object.keys(layerLocked).length === 0) layerLocked = undefined;
+  }
+  let layerEmphasized: Record<number, boolean> | undefined;
+  const rawEmph = (file as { layerEmphasized?: Record<string, unknown> }).layerEmphasized;
+  if (rawEmph != null && typeof rawEmph === 'object' && !Array.isArray(rawEmph)) {
+    layerEmphasized = {};
+    for (const key of Object.keys(rawEmph)) {
+      const level = parseInt(key, 10);
+      if (Number.isInteger(level) && level >= 1 && rawEmph[key] === true) {
+        layerEmphasized[level] = true;
+      }
+    }
+    if (Object.keys(layerEmphasized).length === 0) layerEmphasized = undefined;
+  }
+  const undoLog = normalizeUndoLog(file.undoLog);
+  const tags = normalizeTags(file.tags);
+  return {
+    id: file.id ?? createId(),
+    name: file.name ?? 'Canvas',
+    tiles,
+    grid,
+    ...(layers && { layers }),
+    category: categories[0] ?? safeCategory,
+    categories,
+    tileSetIds: Array.isArray(file.tileSetIds)
+      ? file.tileSetIds.filter((entry) => typeof entry === 'string')
+      : [],
+    sourceNames: Array.isArray(file.sourceNames)
+      ? file.sourceNames.filter((entry) => typeof entry === 'string')
+      : [],
+    preferredTileSize: file.preferredTileSize ?? 45,
+    lineWidth: file.lineWidth ?? 10,
+    lineColor: file.lineColor ?? '#ffffff',
+    thumbnailUri: file.thumbnailUri ?? null,
+    previewUri: file.previewUri ?? null,
+    updatedAt: file.updatedAt ?? Date.now(),
+    ...(typeof file.createdAt === 'number' && { createdAt: file.createdAt }),
+    ...(typeof file.folderId === 'string' && { folderId: file.folderId }),
+    ...(tags.length > 0 && { tags }),
+    lockedCells,
+    ...(lockedCellsPerLayer && { lockedCellsPerLayer }),
+    ...(layerVisibility && { layerVisibility }),
+    ...(layerLocked && { layerLocked }),
+    ...(layerEmphasized && { layerEmphasized }),
+    isSample: file.isSample === true,
+    seed: normalizeSeed(file.seed) ?? generateSeed(),
+    ...(file.tileable === true && { tileable: true }),
+    ...(undoLog && { undoLog }),
+  };
+};
+
+/** Build a TileFile from a .tile payload (new file or restored snapshot); migrates legacy layer tiles. */
+const buildFileFromPayload = (
+  payload: TileFilePayload,
+  id: string,
+  thumbnailUri: string | null,
+  isSample: boolean
+): TileFile => {
+  const layersPayload = payload.layers;
+  const payloadCols = payload.gridLayout?.columns ?? 0;
+  const payloadRows = payload.gridLayout?.rows ?? 0;
+  let layers: Record<number, Tile[]> | undefined;
+  if (layersPayload && typeof layersPayload === 'object' && !Array.isArray(layersPayload)) {
+    layers = {};
+    for (const [k, v] of Object.entries(layersPayload)) {
+      const level = parseInt(k, 10);
+      if (Number.isInteger(level) && level >= 2 && Array.isArray(v)) {
+        const migrated = migrateLegacyLayerTiles(v, payloadCols, payloadRows, level);
+        layers[level] = migrated ?? v;
+      }
+    }
+    if (Object.keys(layers).length === 0) layers = undefined;
+  } else {
+    layers = undefined;
+  }
+  const nextFile: TileFile = {
+    id,
+    name: payload.name,
+    tiles: payload.tiles,
+    grid: payload.grid,
+    ...(layers && Object.keys(layers).length > 0 && { layers }),
+    category: payload.category,
+    categories: payload.categories,
+    tileSetIds: payload.tileSetIds,
+    sourceNames: payload.sourceNames,
+    preferredTileSize: payload.preferredTileSize,
+    lineWidth: payload.lineWidth,
+    lineColor: payload.lineColor,
+    thumbnailUri: thumbnailUri,
+    previewUri: null,
+    updatedAt: Date.now(),
+    createdAt: Date.now(),
+    lockedCells:
+      Array.isArray(payload.lockedCells) && payload.lockedCells.length > 0
+        ? payload.lockedCells
+        : undefined,
+    ...(payload.lockedCellsPerLayer &&
+      Object.keys(payload.lockedCellsPerLayer).length > 0 && {
+        lockedCellsPerLayer: payload.lockedCellsPerLayer,
+      }),
+    ...(payload.layerVisibility &&
+      Object.keys(payload.layerVisibility).length > 0 && {
+        layerVisibility: payload.layerVisibility,
+      }),
+    ...(payload.layerLocked &&
+      Object.keys(payload.layerLocked).length > 0 && {
+        layerLocked: payload.layerLocked,
+      }),
+    ...(payload.layerEmphasized &&
+      Object.keys(payload.layerEmphasized).length > 0 && {
+        layerEmphasized: payload.layerEmphasized,
+      }),
+    isSample,
+    seed: normalizeSeed(payload.seed) ?? generateSeed(),
+    ...(payload.tileable === true && { tileable: true }),
+  };
+  return nextFile;
+};
+
 export const useTileFiles = (defaultCategory: TileCategory) => {
   const [files, setFiles] = useState<TileFile[]>([]);
+  const [folders, setFolders] = useState<FileFolder[]>([]);
   const [activeFileId, setActiveFileId] = useState<string | null>(null);
   const [ready, setReady] = useState(false);
   const savingRef = useRef<Promise<void> | null>(null);
   const defaultCategoryRef = useRef(defaultCategory);
+  const filesRef = useRef<TileFile[]>([]);
+  /** What storage holds per file, so persistFiles only writes what changed (utils/tile-file-storage.ts). */
+  const persistedRef = useRef<PersistedFiles>(createPersistedFiles());
+  /** Files whose body (tiles, layers, locks) has not been read yet; they hold empty tiles until loadFileBodies. */
+  const unloadedIdsRef = useRef(new Set<string>());
+  /**
+   * Undo step that edits of the active file join (utils/undo-log.ts), or null while closed:
+   * edits made then (loading, hydrating) are not recorded.
+   */
+  const undoStepRef = useRef<number | null>(null);
+  const lastUndoStepRef = useRef(0);
+  const undoStepBegunRef = useRef(false);
+  // Edits of another file never join the step.
+  useEffect(() => {
+    undoStepRef.current = null;
+  }, [activeFileId]);
 
   useEffect(() => {
-    let mounted = true;
-    const load = async () => {
-      try {
-        const [filesRaw, activeRaw] = await Promise.all([
-          AsyncStorage.getItem(FILES_KEY),
-          AsyncStorage.getItem(ACTIVE_KEY),
-        ]);
-        if (!mounted) {
+    filesRef.current = files;
+  }, [files]);
+
+  /**
+   * Read the files from storage into state (on mount, and after storage was rewritten,
+   * e.g. by a library restore). isMounted stops a load whose component has gone.
+   */
+  const loadFromStorage = useCallback(async (isMounted: () => boolean = () => true) => {
+    try {
+      // Let queued saves land first so they cannot overwrite what is read here.
+      await savingRef.current?.catch(() => {});
+      persistedRef.current = createPersistedFiles();
+      unloadedIdsRef.current = new Set();
+      const [legacyRaw, activeRaw, foldersRaw] = await Promise.all([
+        AsyncStorage.getItem(LEGACY_FILES_KEY),
+        AsyncStorage.getItem(ACTIVE_KEY),
+        AsyncStorage.getItem(FOLDERS_KEY),
+      ]);
+      if (!isMounted()) {
+        return;
+      }
+      setFolders(parseStoredFolders(foldersRaw));
+      const fallbackCategory = defaultCategoryRef.current;
+      let parsed: TileFile[];
+      let activeId: string | null;
+      if (legacyRaw !== null) {
+        // One-time migration from the single blob: every body is in it, so write them all.
+        parsed = (JSON.parse(legacyRaw) as StoredFile[]).map((file) =>
+          normalizeStoredFile(file, fallbackCategory)
+        );
+        const plan = planFileWrites(parsed, createPersistedFiles(), new Set());
+        await applyFileWrites(plan);
+        await AsyncStorage.removeItem(LEGACY_FILES_KEY);
+        persistedRef.current = plan.next;
+        activeId = activeRaw || null;
+      } else {
+        const index = await readFileIndex();
+        const records = index?.records ?? [];
+        activeId = records.some((record) => record.id === activeRaw)
+          ? activeRaw
+          : (records[0]?.id ?? null);
+        // Only the active file's body is read now; the rest load when opened (loadFileBodies).
+        const bodies = await readFileBodies(activeId ? [activeId] : []);
+        if (!isMounted()) {
           return;
         }
-        const fallbackCategory = defaultCategoryRef.current;
-        const isValidCategory = (value: unknown): value is TileCategory =>
-          typeof value === 'string' && (TILE_CATEGORIES as string[]).includes(value);
-        const parsed = filesRaw
-          ? (JSON.parse(filesRaw) as Array<Partial<TileFile>>).map((file) => {
-              const safeCategory = isValidCategory(file.category)
-                ? file.category
-                : fallbackCategory;
-              const categories = normalizeCategories(file.categories, safeCategory);
-              const tiles = Array.isArray(file.tiles) ? file.tiles : [];
-              const grid =
-                file.grid &&
-                typeof file.grid.rows === 'number' &&
-                typeof file.grid.columns === 'number'
-                  ? file.grid
-                  : { rows: 0, columns: 0 };
-              const totalCells =
-                typeof grid.rows === 'number' && typeof grid.columns === 'number'
-                  ? grid.rows * grid.columns
-                  : 0;
-              let lockedCells: number[] = Array.isArray(file.lockedCells)
-                ? file.lockedCells.filter(
-                    (i): i is number =>
-                      typeof i === 'number' &&
-                      Number.isInteger(i) &&
-                      i >= 0 &&
-                      (totalCells <= 0 || i < totalCells)
-                  )
-                : [];
-              const legacyRegions = (file as { lockedRegions?: Array<{ start: number; end: number }> }).lockedRegions;
-              if (lockedCells.length === 0 && Array.isArray(legacyRegions)) {
-                const cols = grid.columns ?? 0;
-                const seen = new Set<number>();
-                for (const r of legacyRegions) {
-                  if (
-                    r != null &&
-                    typeof r.start === 'number' &&
-                    typeof r.end === 'number' &&
-                    cols > 0
-                  ) {
-                    getCellIndicesInRegion(r.start, r.end, cols).forEach((i) =>
-                      seen.add(i)
-                    );
-                  }
-                }
-                lockedCells = Array.from(seen);
-              }
-              let layers: Record<number, Tile[]> | undefined;
-              const rawLayers = (file as { layers?: Record<string, unknown> }).layers;
-              if (rawLayers != null && typeof rawLayers === 'object' && !Array.isArray(rawLayers)) {
-                layers = {};
-                for (const key of Object.keys(rawLayers)) {
-                  const level = parseInt(key, 10);
-                  if (!Number.isInteger(level) || level < 2) continue;
-                  const arr = rawLayers[key];
-                  if (!Array.isArray(arr)) continue;
-                  // Migrate legacy (complete-only) tile arrays to expanded grid with partial cells
-                  const migrated = migrateLegacyLayerTiles(arr as Tile[], grid.columns, grid.rows, level);
-                  layers[level] = migrated ?? (arr as Tile[]);
-                }
-                if (Object.keys(layers).length === 0) layers = undefined;
-              }
-              let lockedCellsPerLayer: Record<number, number[]> | undefined;
-              const rawLockedPerLayer = (file as { lockedCellsPerLayer?: Record<string, unknown> }).lockedCellsPerLayer;
-              if (rawLockedPerLayer != null && typeof rawLockedPerLayer === 'object' && !Array.isArray(rawLockedPerLayer)) {
-                lockedCellsPerLayer = {};
-                for (const key of Object.keys(rawLockedPerLayer)) {
-                  const level = parseInt(key, 10);
-                  if (!Number.isInteger(level) || level < 2) continue;
-                  const arr = rawLockedPerLayer[key];
-                  if (!Array.isArray(arr)) continue;
-                  const cells = (arr as unknown[]).filter(
-                    (i): i is number => typeof i === 'number' && Number.isInteger(i) && i >= 0
-                  );
-                  if (cells.length === 0) continue;
-                  // Migrate legacy locked cell indices to expanded grid
-                  const migratedLocked = migrateLegacyLockedCells(cells, grid.columns, grid.rows, level);
-                  if (migratedLocked && migratedLocked.length > 0) {
-                    lockedCellsPerLayer[level] = migratedLocked;
-                  } else {
-                    lockedCellsPerLayer[level] = cells;
-                  }
-                }
-                if (Object.keys(lockedCellsPerLayer).length === 0) lockedCellsPerLayer = undefined;
-              }
-              let layerVisibility: Record<number, boolean> | undefined;
-              const rawVis = (file as { layerVisibility?: Record<string, unknown> }).layerVisibility;
-              if (rawVis != null && typeof rawVis === 'object' && !Array.isArray(rawVis)) {
-                layerVisibility = {};
-                for (const key of Object.keys(rawVis)) {
-                  const level = parseInt(key, 10);
-                  if (Number.isInteger(level) && level >= 1 && rawVis[key] === false) {
-                    layerVisibility[level] = false;
-                  }
-                }
-                if (Object.keys(layerVisibility).length === 0) layerVisibility = undefined;
-              }
-              let layerLocked: Record<number, boolean> | undefined;
-              const rawLock = (file as { layerLocked?: Record<string, unknown> }).layerLocked;
-              if (rawLock != null && typeof rawLock === 'object' && !Array.isArray(rawLock)) {
-                layerLocked = {};
-                for (const key of Object.keys(rawLock)) {
-                  const level = parseInt(key, 10);
-                  if (Number.isInteger(level) && level >= 1 && rawLock[key] === true) {
-                    layerLocked[level] = true;
-                  }
-                }
-                if (Object.keys(layerLocked).length === 0) layerLocked = undefined;
-              }
-              let layerEmphasized: Record<number, boolean> | undefined;
-              const rawEmph = (file as { layerEmphasized?: Record<string, unknown> }).layerEmphasized;
-              if (rawEmph != null && typeof rawEmph === 'object' && !Array.isArray(rawEmph)) {
-                layerEmphasized = {};
-                for (const key of Object.keys(rawEmph)) {
-                  const level = parseInt(key, 10);
-                  if (Number.isInteger(level) && level >= 1 && rawEmph[key] === true) {
-                    layerEmphasized[level] = true;
-                  }
-                }
-                if (Object.keys(layerEmphasized).length === 0) layerEmphasized = undefined;
-              }
-              return {
-                id: file.id ?? createId(),
-                name: file.name ?? 'Canvas',
-                tiles,
-                grid,
-                ...(layers && { layers }),
-                category: categories[0] ?? safeCategory,
-                categories,
-                tileSetIds: Array.isArray(file.tileSetIds)
-                  ? file.tileSetIds.filter((entry) => typeof entry === 'string')
-                  : [],
-                sourceNames: Array.isArray(file.sourceNames)
-                  ? file.sourceNames.filter((entry) => typeof entry === 'string')
-                  : [],
-                preferredTileSize: file.preferredTileSize ?? 45,
-                lineWidth: file.lineWidth ?? 10,
-                lineColor: file.lineColor ?? '#ffffff',
-                thumbnailUri: file.thumbnailUri ?? null,
-                previewUri: file.previewUri ?? null,
-                updatedAt: file.updatedAt ?? Date.now(),
-                lockedCells,
-                ...(lockedCellsPerLayer && { lockedCellsPerLayer }),
-                ...(layerVisibility && { layerVisibility }),
-                ...(layerLocked && { layerLocked }),
-                ...(layerEmphasized && { layerEmphasized }),
-                isSample: file.isSample === true,
-              };
-            })
-          : [];
-        const activeId = activeRaw || null;
-        if (parsed.length === 0) {
-          setFiles([]);
-          setActiveFileId(null);
-          await AsyncStorage.setItem(FILES_KEY, JSON.stringify([]));
-          await AsyncStorage.removeItem(ACTIVE_KEY);
-        } else {
-          setFiles(parsed);
-          setActiveFileId(activeId ?? parsed[0].id);
+        persistedRef.current = index?.persisted ?? createPersistedFiles();
+        unloadedIdsRef.current = new Set(
+          records.map((record) => record.id).filter((id) => id !== activeId)
+        );
+        const activeBody = activeId ? bodies.get(activeId) : undefined;
+        const activePersisted = activeId ? persistedRef.current.byId.get(activeId) : undefined;
+        if (activeBody && activePersisted) {
+          activePersisted.body = activeBody.text;
         }
-      } catch (error) {
-        console.warn('Failed to load tile files', error);
-      } finally {
-        if (mounted) {
-          setReady(true);
+        parsed = records.map((record) =>
+          normalizeStoredFile(
+            record.id === activeId ? joinStoredFile(record, activeBody?.record ?? null, null) : record,
+            fallbackCategory
+          )
+        );
+        if (records.some((record) => normalizeSeed(record.seed) === null)) {
+          // Files saved before seeds existed got one above; store it so it stays the same.
+          const plan = planFileWrites(parsed, persistedRef.current, unloadedIdsRef.current);
+          await applyFileWrites(plan);
+          persistedRef.current = plan.next;
+          if (!isMounted()) {
+            return;
+          }
         }
       }
-    };
-    load();
+      if (parsed.length === 0) {
+        setFiles([]);
+        setActiveFileId(null);
+        const plan = planFileWrites([], persistedRef.current, new Set());
+        await applyFileWrites(plan);
+        persistedRef.current = plan.next;
+        await AsyncStorage.removeItem(ACTIVE_KEY);
+      } else {
+        setFiles(parsed);
+        setActiveFileId(activeId ?? parsed[0].id);
+      }
+    } catch (error) {
+      console.warn('Failed to load tile files', error);
+    } finally {
+      if (isMounted()) {
+        setReady(true);
+      }
+    }
+  }, []);
+
+  useEffect(() => {
+    let mounted = true;
+    void loadFromStorage(() => mounted);
     return () => {
       mounted = false;
     };
-  }, []);
+  }, [loadFromStorage]);
 
+  /**
+   * Write the changes from the last persisted state to next: only changed bodies and
+   * thumbnails, the index when an entry or the order changed, and removed files' records.
+   * Writes run one after another in call order.
+   */
   const persistFiles = useCallback(async (next: TileFile[], activeId: string | null) => {
-    if (savingRef.current) {
-      await savingRef.current;
-    }
+    const plan = planFileWrites(next, persistedRef.current, unloadedIdsRef.current);
+    persistedRef.current = plan.next;
+    const previous = savingRef.current;
     const promise = (async () => {
-      await AsyncStorage.setItem(FILES_KEY, JSON.stringify(next));
+      if (previous) {
+        await previous.catch(() => {});
+      }
+      await applyFileWrites(plan);
       if (activeId) {
         await AsyncStorage.setItem(ACTIVE_KEY, activeId);
       }
@@ -286,6 +509,10 @@ export const useTileFiles = (defaultCategory: TileCategory) => {
     savingRef.current = promise;
     try {
       await promise;
+    } catch (error) {
+      // Nothing is known to be stored any more: the next save rewrites every loaded file.
+      persistedRef.current = createPersistedFiles();
+      throw error;
     } finally {
       if (savingRef.current === promise) {
         savingRef.current = null;
@@ -293,6 +520,125 @@ export const useTileFiles = (defaultCategory: TileCategory) => {
     }
   }, []);
 
+  /** Body reads in flight by file id; loadFileBodies calls for the same file share one read. */
+  const bodyReadsRef = useRef(new Map<string, Promise<void>>());
+
+  /** The latest files state, with updates React has not rendered yet (filesRef lags a render). */
+  const readFilesState = useCallback(
+    () =>
+      new Promise<TileFile[]>((resolve) => {
+        setFiles((prev) => {
+          resolve(prev);
+          return prev;
+        });
+      }),
+    []
+  );
+
+  const readAndMergeBodies = useCallback(async (ids: string[]) => {
+    const bodies = await readFileBodies(ids);
+    const fallbackCategory = defaultCategoryRef.current;
+    const claimed = new Map<string, StoredFile>();
+    ids.forEach((id) => {
+      // A reload (loadFromStorage) may have reset the files while this was reading.
+      if (!unloadedIdsRef.current.delete(id)) return;
+      const body = bodies.get(id);
+      const persisted = persistedRef.current.byId.get(id);
+      if (body && persisted) {
+        persisted.body = body.text;
+      }
+      claimed.set(id, body?.record ?? {});
+    });
+    if (claimed.size > 0) {
+      setFiles((prev) =>
+        prev.map((file) => {
+          const body = claimed.get(file.id);
+          return body ? normalizeStoredFile(joinStoredFile(file, body, null), fallbackCategory) : file;
+        })
+      );
+    }
+  }, []);
+
+  /**
+   * Read the bodies of files that are not loaded yet and merge them into state. Resolves
+   * with the requested files as loaded (ids not in the list are left out).
+   */
+  const loadFileBodies = useCallback(async (ids: string[]): Promise<TileFile[]> => {
+    const toRead = ids.filter((id) => unloadedIdsRef.current.has(id) && !bodyReadsRef.current.has(id));
+    if (toRead.length > 0) {
+      const read = readAndMergeBodies(toRead).finally(() => {
+        toRead.forEach((id) => {
+          if (bodyReadsRef.current.get(id) === read) {
+            bodyReadsRef.current.delete(id);
+          }
+        });
+      });
+      toRead.forEach((id) => bodyReadsRef.current.set(id, read));
+    }
+    // Bodies another call is reading are waited for too, so no file comes back empty.
+    await Promise.all(ids.map((id) => bodyReadsRef.current.get(id)));
+    // From state, not filesRef: the merged bodies are not rendered yet.
+    const current = await readFilesState();
+    return ids
+      .map((id) => current.find((file) => file.id === id))
+      .filter((file): file is TileFile => file !== undefined);
+  }, [readAndMergeBodies, readFilesState]);
+
+  /**
+   * Start a new undo step: the next edits of the active file are undone together. Calls in
+   * the same tick join one step, so an operation may begin it from several places.
+   */
+  const beginUndoStep = useCallback(() => {
+    if (undoStepBegunRef.current) return;
+    undoStepBegunRef.current = true;
+    setTimeout(() => {
+      undoStepBegunRef.current = false;
+    }, 0);
+    lastUndoStepRef.current = Math.max(Date.now(), lastUndoStepRef.current + 1);
+    undoStepRef.current = lastUndoStepRef.current;
+  }, []);
+
+  /** Stop recording edits until the next beginUndoStep (e.g. while a file is opened). */
+  const endUndoStep = useCallback(() => {
+    undoStepRef.current = null;
+  }, []);
+
+  /**
+   * Recorder for the undo step open now: it records what changed from before to next. Taken
+   * when an edit is made, since the setFiles updater may run after the next step began.
+   */
+  const captureUndoStep = useCallback(() => {
+    const step = undoStepRef.current;
+    return (before: TileFile, next: TileFile): TileFile =>
+      step === null ? next : recordUndoChanges(before, next, step);
+  }, []);
+
+  /** Undo or redo the active file's last command; edits made meanwhile start a new step. */
+  const applyActiveFileCommand = useCallback(
+    (direction: 'undo' | 'redo') => {
+      if (!activeFileId) return;
+      undoStepRef.current = null;
+      setFiles((prev) => {
+        const current = prev.find((file) => file.id === activeFileId);
+        const restored = current
+          ? direction === 'undo'
+            ? undoFileCommand(current)
+            : redoFileCommand(current)
+          : null;
+        if (!restored) return prev;
+        const next = prev.map((file) =>
+          file.id === activeFileId ? { ...restored, updatedAt: Date.now() } : file
+        );
+        void persistFiles(next, activeFileId);
+        return next;
+      });
+    },
+    [activeFileId, persistFiles]
+  );
+
+  const undoActiveFile = useCallback(() => applyActiveFileCommand('undo'), [applyActiveFileCommand]);
+  const redoActiveFile = useCallback(() => applyActiveFileCommand('redo'), [applyActiveFileCommand]);
+
   const upsertActiveFile = useCallback(
     (payload: {
       tiles: Tile[];
@@ -311,6 +657,7 @@ export const useTileFiles = (defaultCategory: TileCategory) => {
       if (!activeFileId) {
         return;
       }
+      const recordUndo = captureUndoStep();
       setFiles((prev) => {
         const next = prev.map((file) => {
           if (file.id !== activeFileId) return file;
@@ -346,13 +693,13 @@ export const useTileFiles = (defaultCategory: TileCategory) => {
                     : file.lockedCells,
                 updatedAt: Date.now(),
               };
-          return result;
+          return recordUndo(file, result);
         });
         void persistFiles(next, activeFileId);
         return next;
       });
     },
-    [activeFileId, persistFiles]
+    [activeFileId, captureUndoStep, persistFiles]
   );
 
   const updateActiveFileLockedCells = useCallback(
@@ -360,45 +707,50 @@ export const useTileFiles = (defaultCategory: TileCategory) => {
       if (!activeFileId) {
         return;
       }
+      beginUndoStep();
+      const recordUndo = captureUndoStep();
       setFiles((prev) => {
         const next = prev.map((file) =>
           file.id === activeFileId
-            ? { ...file, lockedCells, updatedAt: Date.now() }
+            ? recordUndo(file, { ...file, lockedCells, updatedAt: Date.now() })
             : file
         );
         void persistFiles(next, activeFileId);
         return next;
       });
     },
-    [activeFileId, persistFiles]
+    [activeFileId, beginUndoStep, captureUndoStep, persistFiles]
   );
 
   const updateActiveFileLockedCellsForLayer = useCallback(
     (level: number, cells: number[]) => {
       if (!activeFileId || level < 2) return;
+      beginUndoStep();
+      const recordUndo = captureUndoStep();
       setFiles((prev) => {
         const next = prev.map((file) =>
           file.id === activeFileId
-            ? {
+            ? recordUndo(file, {
                 ...file,
                 lockedCellsPerLayer: {
                   ...(file.lockedCellsPerLayer ?? {}),
                   [level]: cells,
                 },
                 updatedAt: Date.now(),
-              }
+              })
             : file
         );
         void persistFiles(next, activeFileId);
         return next;
       });
     },
-    [activeFileId, persistFiles]
+    [activeFileId, beginUndoStep, captureUndoStep, persistFiles]
   );
 
   const updateActiveFileLayerCells = useCallback(
     (level: number, cellUpdates: Record<number, Tile>) => {
       if (!activeFileId || Object.keys(cellUpdates).length === 0) return;
+      const recordUndo = captureUndoStep();
       setFiles((prev) => {
         const fileIdx = prev.findIndex((f) => f.id === activeFileId);
         if (fileIdx === -1) return prev;
@@ -445,12 +797,12 @@ export const useTileFiles = (defaultCategory: TileCategory) => {
             updatedAt: Date.now(),
           };
         }
-        const next = prev.map((f, i) => (i === fileIdx ? updatedFile : f));
+        const next = prev.map((f, i) => (i === fileIdx ? recordUndo(file, updatedFile) : f));
         void persistFiles(next, activeFileId);
         return next;
       });
     },
-    [activeFileId, persistFiles]
+    [activeFileId, captureUndoStep, persistFiles]
   );
 
   const updateActiveFileLayer = useCallback(
@@ -462,125 +814,169 @@ export const useTileFiles = (defaultCategory: TileCategory) => {
       if (filled === 0 && tiles.length > 0) {
         console.warn(`[LAYER-DIAG] updateActiveFileLayer: writing all-blank tiles to level ${level} of file ${activeFileId}`, new Error().stack);
       }
+      const recordUndo = captureUndoStep();
       setFiles((prev) => {
         const next = prev.map((file) =>
           file.id === activeFileId
-            ? {
+            ? recordUndo(file, {
                 ...file,
                 layers: {
                   ...(file.layers ?? {}),
                   [level]: tiles,
                 },
                 updatedAt: Date.now(),
-              }
+              })
             : file
         );
         void persistFiles(next, activeFileId);
         return next;
       });
     },
-    [activeFileId, persistFiles]
+    [activeFileId, captureUndoStep, persistFiles]
   );
 
   const updateActiveFileTilesL1 = useCallback(
     (tiles: Tile[]) => {
       if (!activeFileId) return;
+      const recordUndo = captureUndoStep();
       setFiles((prev) => {
         const next = prev.map((file) =>
           file.id === activeFileId
-            ? { ...file, tiles, updatedAt: Date.now() }
+            ? recordUndo(file, { ...file, tiles, updatedAt: Date.now() })
             : file
         );
         void persistFiles(next, activeFileId);
         return next;
       });
     },
-    [activeFileId, persistFiles]
+    [activeFileId, captureUndoStep, persistFiles]
   );
 
   const updateActiveFileLayerVisibility = useCallback(
     (level: number, visible: boolean) => {
       if (!activeFileId || level < 1) return;
+      beginUndoStep();
+      const recordUndo = captureUndoStep();
       setFiles((prev) => {
         const next = prev.map((file) =>
           file.id === activeFileId
-            ? {
+            ? recordUndo(file, {
                 ...file,
                 layerVisibility: {
                   ...(file.layerVisibility ?? {}),
                   [level]: visible,
                 },
                 updatedAt: Date.now(),
-              }
+              })
             : file
         );
         void persistFiles(next, activeFileId);
         return next;
       });
     },
-    [activeFileId, persistFiles]
+    [activeFileId, beginUndoStep, captureUndoStep, persistFiles]
   );
 
   const updateActiveFileLayerLocked = useCallback(
     (level: number, locked: boolean) => {
       if (!activeFileId || level < 1) return;
+      beginUndoStep();
+      const recordUndo = captureUndoStep();
       setFiles((prev) => {
         const next = prev.map((file) =>
           file.id === activeFileId
-            ? {
+            ? recordUndo(file, {
                 ...file,
                 layerLocked: {
                   ...(file.layerLocked ?? {}),
                   [level]: locked,
                 },
                 updatedAt: Date.now(),
-              }
+              })
             : file
         );
         void persistFiles(next, activeFileId);
         return next;
       });
     },
-    [activeFileId, persistFiles]
+    [activeFileId, beginUndoStep, captureUndoStep, persistFiles]
   );
 
   const updateActiveFileLayerEmphasized = useCallback(
     (level: number, emphasized: boolean) => {
       if (!activeFileId || level < 1) return;
+      beginUndoStep();
+      const recordUndo = captureUndoStep();
       setFiles((prev) => {
         const next = prev.map((file) =>
           file.id === activeFileId
-            ? {
+            ? recordUndo(file, {
                 ...file,
                 layerEmphasized: {
                   ...(file.layerEmphasized ?? {}),
                   [level]: emphasized,
                 },
                 updatedAt: Date.now(),
-              }
+              })
             : file
         );
         void persistFiles(next, activeFileId);
         return next;
       });
     },
+    [activeFileId, beginUndoStep, captureUndoStep, persistFiles]
+  );
+
+  const updateActiveFileSeed = useCallback(
+    (seed: number) => {
+      if (!activeFileId) return;
+      setFiles((prev) => {
+        const next = prev.map((file) =>
+          file.id === activeFileId ? { ...file, seed, updatedAt: Date.now() } : file
+        );
+        void persistFiles(next, activeFileId);
+        return next;
+      });
+    },
     [activeFileId, persistFiles]
   );
 
-  const setActive = useCallback(
-    (id: string) => {
-      const now = Date.now();
+  const updateActiveFileTileable = useCallback(
+    (tileable: boolean) => {
+      if (!activeFileId) return;
       setFiles((prev) => {
         const next = prev.map((file) =>
-          file.id === id ? { ...file, updatedAt: now } : file
+          file.id === activeFileId ? { ...file, tileable, updatedAt: Date.now() } : file
         );
-        void persistFiles(next, id);
+        void persistFiles(next, activeFileId);
         return next;
       });
-      setActiveFileId(id);
-      void AsyncStorage.setItem(ACTIVE_KEY, id);
     },
-    [persistFiles]
+    [activeFileId, persistFiles]
+  );
+
+  /** Make a file active. Await loadFileBodies([id]) first to switch at once; otherwise the switch waits for the body. */
+  const setActive = useCallback(
+    (id: string) => {
+      const activate = () => {
+        const now = Date.now();
+        setFiles((prev) => {
+          const next = prev.map((file) =>
+            file.id === id ? { ...file, updatedAt: now } : file
+          );
+          void persistFiles(next, id);
+          return next;
+        });
+        setActiveFileId(id);
+        void AsyncStorage.setItem(ACTIVE_KEY, id);
+      };
+      if (unloadedIdsRef.current.has(id)) {
+        void loadFileBodies([id]).then(activate);
+      } else {
+        activate();
+      }
+    },
+    [loadFileBodies, persistFiles]
   );
 
   const createFile = useCallback(
@@ -593,6 +989,7 @@ export const useTileFiles = (defaultCategory: TileCategory) => {
         sourceNames?: string[];
         lineWidth?: number;
         lineColor?: string;
+        folderId?: string | null;
       }
     ) => {
       const nextCategories =
@@ -614,8 +1011,11 @@ export const useTileFiles = (defaultCategory: TileCategory) => {
         thumbnailUri: null,
         previewUri: null,
         updatedAt: Date.now(),
+        createdAt: Date.now(),
+        ...(options?.folderId && { folderId: options.folderId }),
         lockedCells: [],
         layerEmphasized: { 1: true, 2: true, 3: true },
+        seed: generateSeed(),
       };
       setFiles((prev) => {
         const next = [nextFile, ...prev];
@@ -630,7 +1030,8 @@ export const useTileFiles = (defaultCategory: TileCategory) => {
   );
 
   const duplicateFile = useCallback(
-    (id: string) => {
+    async (id: string) => {
+      await loadFileBodies([id]);
       setFiles((prev) => {
         const source = prev.find((file) => file.id === id);
         if (!source) {
@@ -650,6 +1051,7 @@ export const useTileFiles = (defaultCategory: TileCategory) => {
               )
             : undefined,
           updatedAt: Date.now(),
+          createdAt: Date.now(),
           lockedCells: Array.isArray(source.lockedCells)
             ? [...source.lockedCells]
             : [],
@@ -666,6 +1068,7 @@ export const useTileFiles = (defaultCategory: TileCategory) => {
             : undefined,
           layerLocked: source.layerLocked ? { ...source.layerLocked } : undefined,
           layerEmphasized: source.layerEmphasized ? { ...source.layerEmphasized } : undefined,
+          undoLog: undefined,
           isSample: false,
         };
         setActiveFileId(nextFile.id);
@@ -675,65 +1078,22 @@ export const useTileFiles = (defaultCategory: TileCategory) => {
         return next;
       });
     },
-    [persistFiles]
+    [loadFileBodies, persistFiles]
   );
 
   const createFileFromTileData = useCallback(
-    (payload: TileFilePayload, options?: { isSample?: boolean; thumbnailUri?: string | null }): string => {
-      const layersPayload = payload.layers;
-      const payloadCols = payload.gridLayout?.columns ?? 0;
-      const payloadRows = payload.gridLayout?.rows ?? 0;
-      let layers: Record<number, Tile[]> | undefined;
-      if (layersPayload && typeof layersPayload === 'object' && !Array.isArray(layersPayload)) {
-        layers = {};
-        for (const [k, v] of Object.entries(layersPayload)) {
-          const level = parseInt(k, 10);
-          if (Number.isInteger(level) && level >= 2 && Array.isArray(v)) {
-            const migrated = migrateLegacyLayerTiles(v, payloadCols, payloadRows, level);
-            layers[level] = migrated ?? v;
-          }
-        }
-        if (Object.keys(layers).length === 0) layers = undefined;
-      } else {
-        layers = undefined;
-      }
+    (
+      payload: TileFilePayload,
+      options?: { isSample?: boolean; thumbnailUri?: string | null; folderId?: string | null }
+    ): string => {
       const nextFile: TileFile = {
-        id: createId(),
-        name: payload.name,
-        tiles: payload.tiles,
-        grid: payload.grid,
-        ...(layers && Object.keys(layers).length > 0 && { layers }),
-        category: payload.category,
-        categories: payload.categories,
-        tileSetIds: payload.tileSetIds,
-        sourceNames: payload.sourceNames,
-        preferredTileSize: payload.preferredTileSize,
-        lineWidth: payload.lineWidth,
-        lineColor: payload.lineColor,
-        thumbnailUri: options?.thumbnailUri ?? null,
-        previewUri: null,
-        updatedAt: Date.now(),
-        lockedCells:
-          Array.isArray(payload.lockedCells) && payload.lockedCells.length > 0
-            ? payload.lockedCells
-            : undefined,
-        ...(payload.lockedCellsPerLayer &&
-          Object.keys(payload.lockedCellsPerLayer).length > 0 && {
-            lockedCellsPerLayer: payload.lockedCellsPerLayer,
-          }),
-        ...(payload.layerVisibility &&
-          Object.keys(payload.layerVisibility).length > 0 && {
-            layerVisibility: payload.layerVisibility,
-          }),
-        ...(payload.layerLocked &&
-          Object.keys(payload.layerLocked).length > 0 && {
-            layerLocked: payload.layerLocked,
-          }),
-        ...(payload.layerEmphasized &&
-          Object.keys(payload.layerEmphasized).length > 0 && {
-            layerEmphasized: payload.layerEmphasized,
-          }),
-        isSample: options?.isSample === true,
+        ...buildFileFromPayload(
+          payload,
+          createId(),
+          options?.thumbnailUri ?? null,
+          options?.isSample === true
+        ),
+        ...(options?.folderId && { folderId: options.folderId }),
       };
       setFiles((prev) => {
         const next = [nextFile, ...prev];
@@ -747,8 +1107,36 @@ export const useTileFiles = (defaultCategory: TileCategory) => {
     [persistFiles]
   );
 
+  /**
+   * Replace a file's contents with a .tile payload (a restored snapshot), keeping its id,
+   * name, sample flag, folder and tags. Thumbnails are cleared so the file grid renders the new tiles.
+   */
+  const restoreFileFromPayload = useCallback(
+    (id: string, payload: TileFilePayload) => {
+      setFiles((prev) => {
+        const current = prev.find((file) => file.id === id);
+        if (!current) {
+          return prev;
+        }
+        const restored: TileFile = {
+          ...buildFileFromPayload(payload, id, null, current.isSample === true),
+          name: current.name,
+          createdAt: current.createdAt,
+          folderId: current.folderId,
+          tags: current.tags,
+        };
+        unloadedIdsRef.current.delete(id);
+        const next = prev.map((file) => (file.id === id ? restored : file));
+        void persistFiles(next, activeFileId);
+        return next;
+      });
+    },
+    [activeFileId, persistFiles]
+  );
+
   const downloadTileFile = useCallback(async (file: TileFile) => {
-    const content = serializeTileFile(file);
+    const [loaded = file] = await loadFileBodies([file.id]);
+    const content = serializeTileFile(loaded);
     const sortedFiles = [...files].sort((a, b) => b.updatedAt - a.updatedAt);
     const fileIndex = sortedFiles.findIndex((f) => f.id === file.id);
     const index = fileIndex >= 0 ? fileIndex : 0;
@@ -773,7 +1161,7 @@ export const useTileFiles = (defaultCategory: TileCategory) => {
         await Sharing.shareAsync(target, { mimeType: 'application/json' });
       }
     }
-  }, [files]);
+  }, [files, loadFileBodies]);
 
   const downloadFile = useCallback(
     async (
@@ -787,8 +1175,9 @@ export const useTileFiles = (defaultCategory: TileCategory) => {
         overlayLayers?: OverlayLayerParams[];
       }
     ) => {
+      const [loaded = file] = await loadFileBodies([file.id]);
       const dataUrl = await renderTileCanvasToDataUrl({
-        tiles: file.tiles,
+        tiles: loaded.tiles,
         gridLayout: {
           rows: file.grid.rows,
           columns: file.grid.columns,
@@ -800,6 +1189,7 @@ export const useTileFiles = (defaultCategory: TileCategory) => {
         errorSource: null,
         lineColor: file.lineColor,
         lineWidth: file.lineWidth,
+        tileable: file.tileable,
         backgroundColor: options?.backgroundColor,
         strokeScaleByName: options?.strokeScaleByName,
         overlayLayers: options?.overlayLayers,
@@ -815,13 +1205,14 @@ export const useTileFiles = (defaultCategory: TileCategory) => {
       link.click();
       link.remove();
     },
-    []
+    [loadFileBodies]
   );
 
   const deleteFile = useCallback(
     (id: string) => {
       setFiles((prev) => {
         const remaining = prev.filter((file) => file.id !== id);
+        void removeFileSnapshots(id);
         if (remaining.length === 0) {
           setActiveFileId(null);
           void persistFiles([], null);
@@ -829,21 +1220,127 @@ export const useTileFiles = (defaultCategory: TileCategory) => {
         }
         const nextActive =
           activeFileId === id ? remaining[0].id : activeFileId ?? remaining[0].id;
-        setActiveFileId(nextActive);
+        unloadedIdsRef.current.delete(id);
+        if (unloadedIdsRef.current.has(nextActive)) {
+          // The active file is always loaded: switch once its body is read.
+          setActiveFileId(null);
+          void loadFileBodies([nextActive]).then(() => setActiveFileId(nextActive));
+        } else {
+          setActiveFileId(nextActive);
+        }
         void persistFiles(remaining, nextActive);
         return remaining;
       });
     },
-    [activeFileId, persistFiles]
+    [activeFileId, loadFileBodies, persistFiles]
   );
 
   const clearAllFiles = useCallback(async () => {
     setFiles([]);
+    setFolders([]);
     setActiveFileId(null);
-    await AsyncStorage.setItem(FILES_KEY, JSON.stringify([]));
-    await AsyncStorage.removeItem(ACTIVE_KEY);
+    unloadedIdsRef.current = new Set();
+    persistedRef.current = createPersistedFiles();
+    await removeAllFileRecords();
+    await AsyncStorage.multiRemove([ACTIVE_KEY, FOLDERS_KEY]);
+  }, []);
+
+  /** Apply updater to the folders and store the result. */
+  const updateFolders = useCallback((updater: (prev: FileFolder[]) => FileFolder[]) => {
+    setFolders((prev) => {
+      const next = updater(prev);
+      if (next !== prev) {
+        AsyncStorage.setItem(FOLDERS_KEY, JSON.stringify(next)).catch((error) =>
+          console.warn('Failed to save folders', error)
+        );
+      }
+      return next;
+    });
   }, []);
 
+  /**
+   * Apply update to every file in ids and store the result. Used for folder and tag changes,
+   * which do not count as edits: updatedAt is kept.
+   */
+  const updateFilesById = useCallback(
+    (ids: string[], update: (file: TileFile) => TileFile) => {
+      const idSet = new Set(ids);
+      setFiles((prev) => {
+        const next = prev.map((file) => (idSet.has(file.id) ? update(file) : file));
+        void persistFiles(next, activeFileId);
+        return next;
+      });
+    },
+    [activeFileId, persistFiles]
+  );
+
+  /** Add a folder inside parentId (null = top level); returns its id. */
+  const createFolder = useCallback(
+    (name: string, parentId: string | null) => {
+      const folder: FileFolder = { id: createFolderId(), name, parentId, createdAt: Date.now() };
+      updateFolders((prev) => [...prev, folder]);
+      return folder.id;
+    },
+    [updateFolders]
+  );
+
+  const renameFolder = useCallback(
+    (id: string, name: string) => {
+      updateFolders((prev) => prev.map((folder) => (folder.id === id ? { ...folder, name } : folder)));
+    },
+    [updateFolders]
+  );
+
+  /** Move a folder into parentId; ignored when parentId is the folder itself or inside it. */
+  const moveFolder = useCallback(
+    (id: string, parentId: string | null) => {
+      updateFolders((prev) =>
+        canMoveFolder(prev, id, parentId)
+          ? prev.map((folder) => (folder.id === id ? { ...folder, parentId } : folder))
+          : prev
+      );
+    },
+    [updateFolders]
+  );
+
+  /** Remove a folder; its files and folders move up into its parent. */
+  const deleteFolder = useCallback(
+    (id: string) => {
+      const folder = folders.find((entry) => entry.id === id);
+      if (!folder) return;
+      updateFolders((prev) =>
+        prev
+          .filter((entry) => entry.id !== id)
+          .map((entry) => (entry.parentId === id ? { ...entry, parentId: folder.parentId } : entry))
+      );
+      const ids = filesRef.current.filter((file) => file.folderId === id).map((file) => file.id);
+      if (ids.length > 0) {
+        updateFilesById(ids, (file) => ({ ...file, folderId: folder.parentId ?? undefined }));
+      }
+    },
+    [folders, updateFolders, updateFilesById]
+  );
+
+  /** Move files into folderId (null = top level). */
+  const moveFilesToFolder = useCallback(
+    (ids: string[], folderId: string | null) => {
+      updateFilesById(ids, (file) => ({ ...file, folderId: folderId ?? undefined }));
+    },
+    [updateFilesById]
+  );
+
+  /** Replace a file's tags (normalized with normalizeTags). */
+  const setFileTags = useCallback(
+    (id: string, tags: string[]) => {
+      const normalized = normalizeTags(tags);
+      updateFilesById([id], (file) => ({
+        ...file,
+        tags: normalized.length > 0 ? normalized : undefined,
+      }));
+    },
+    [updateFilesById]
+  );
+
   /**
    * Replaces tiles that reference removed sources (deleted tile set or tile)
    * with the tile_error tile so files do not become corrupted. Replaces both
@@ -852,13 +1349,15 @@ export const useTileFiles = (defaultCategory: TileCategory) => {
    * tile.name or sourceNames entry starting with that prefix is also replaced.
    */
   const replaceTileSourceNamesWithError = useCallback(
-    (
+    async (
       removedNames: string[],
       options?: { namePrefix?: string }
     ) => {
       if (removedNames.length === 0 && (options?.namePrefix ?? '') === '') {
         return;
       }
+      // Every file is checked, so read the bodies that have not been loaded yet.
+      await loadFileBodies(filesRef.current.map((file) => file.id));
       setFiles((prev) => {
         let anyChanged = false;
         const next = prev.map((file) => {
@@ -884,7 +1383,7 @@ export const useTileFiles = (defaultCategory: TileCategory) => {
         return next;
       });
     },
-    [activeFileId, persistFiles]
+    [activeFileId, loadFileBodies, persistFiles]
   );
 
   /**
@@ -899,6 +1398,7 @@ export const useTileFiles = (defaultCategory: TileCategory) => {
       if (replacements.length === 0) {
         return;
       }
+      await loadFileBodies(filesRef.current.map((file) => file.id));
       const oldToNew = new Map(replacements.map((r) => [r.oldName, r.newName]));
       let nextToPersist: TileFile[] | null = null;
       setFiles((prev) => {
@@ -941,7 +1441,7 @@ export const useTileFiles = (defaultCategory: TileCategory) => {
         await persistFiles(nextToPersist, activeFileId);
       }
     },
-    [activeFileId, persistFiles]
+    [activeFileId, loadFileBodies, persistFiles]
   );
 
   const activeFile = useMemo(
@@ -951,16 +1451,24 @@ export const useTileFiles = (defaultCategory: TileCategory) => {
 
   return {
     files,
+    folders,
     activeFile,
     activeFileId,
     setActive,
     createFile,
     createFileFromTileData,
+    restoreFileFromPayload,
     duplicateFile,
     downloadFile,
     downloadTileFile,
     deleteFile,
     clearAllFiles,
+    createFolder,
+    renameFolder,
+    moveFolder,
+    deleteFolder,
+    moveFilesToFolder,
+    setFileTags,
     upsertActiveFile,
     updateActiveFileLockedCells,
     updateActiveFileLockedCellsForLayer,
@@ -970,8 +1478,16 @@ export const useTileFiles = (defaultCategory: TileCategory) => {
     updateActiveFileLayerVisibility,
     updateActiveFileLayerLocked,
     updateActiveFileLayerEmphasized,
+    updateActiveFileSeed,
+    updateActiveFileTileable,
+    beginUndoStep,
+    endUndoStep,
+    undoActiveFile,
+    redoActiveFile,
     replaceTileSourceNames,
     replaceTileSourceNamesWithError,
+    loadFileBodies,
+    reloadFiles: loadFromStorage,
     ready,
   };
 };
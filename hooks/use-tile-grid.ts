@@ -1,7 +1,8 @@
 import { useCallback, useEffect, useMemo, useRef, useState, type MutableRefObject } from 'react';
 
 import { type TileSource } from '@/assets/images/tiles/manifest';
-import { validateDrawStroke } from '@/utils/draw-stroke';
+import type { CanvasSelection } from '@/utils/cell-selection';
+import { findDrawPath, getDrawPathDirections, validateDrawStroke } from '@/utils/draw-stroke';
 import { buildCompatibilityTables } from '@/utils/tile-compat';
 import {
     displayToPatternCell,
@@ -12,6 +13,24 @@ import {
     type CrossLayerContext,
     type CrossLayerEdgeMap,
 } from '@/utils/cross-layer-compat';
+import { reconcileLayers, type LayerReconcileResult } from '@/utils/cross-layer-reconcile';
+import { createSeededRandom, pickWeighted, shuffle, type RandomSource } from '@/utils/seeded-random';
+import {
+    buildReconcileReport,
+    findInvalidEdges,
+    type InvalidEdge,
+    type ReconcileReport,
+} from '@/utils/tile-seams';
+import {
+    getExtraSymmetryTransforms,
+    getSymmetryTransforms,
+    isSymmetryModeAvailable,
+    isSymmetryRepresentative,
+    transformCell,
+    transformTileBySymmetry,
+    type SymmetryMode,
+} from '@/utils/tile-symmetry';
+import { solveWaveFunctionCollapse, type WfcCandidate } from '@/utils/tile-wfc';
 import {
     applyGroupRotationToTile,
     normalizeRotationCW,
@@ -22,6 +41,7 @@ import {
     computeFixedGridLayout,
     computeGridLayout,
     getSpiralCellOrder,
+    getNeighborCellIndex,
     getSpiralCellOrderInRect,
     getTileSourceIndexByName,
     MAX_TILE_CANVAS_CELLS,
@@ -29,6 +49,7 @@ import {
     type GridLayout,
     type Tile
 } from '@/utils/tile-grid';
+import { sameTiles } from '@/utils/undo-log';
 
 type Params = {
   tileSources: TileSource[];
@@ -37,9 +58,13 @@ type Params = {
   gridGap: number;
   preferredTileSize: number;
   allowEdgeConnections: boolean;
+  /** Tileable canvas: left/right and top/bottom edges are neighbors, replacing the allowEdgeConnections border rule. */
+  wrapEdges?: boolean;
   suspendRemap?: boolean;
   randomRequiresLegal?: boolean;
   randomSourceIndices?: number[];
+  /** Relative random pick weight for a tile source name (see utils/tile-weights.ts); biases every random candidate pick. */
+  getTileWeight?: ((name: string) => number) | null;
   fixedRows?: number;
   fixedColumns?: number;
   /** When set with fixedRows/fixedColumns, use this tile size (e.g. for resolution layers). */
@@ -64,6 +89,8 @@ type Params = {
       };
   mirrorHorizontal: boolean;
   mirrorVertical: boolean;
+  /** Rotation / diagonal symmetry on top of the mirror toggles (utils/tile-symmetry.ts). */
+  symmetryMode?: SymmetryMode;
   pattern:
     | { tiles: Tile[]; width: number; height: number; rotation: number; mirrorX: boolean }
     | null;
@@ -76,23 +103,51 @@ type Params = {
     getterResult?: string | null;
     brushSourceName?: string | null;
   }) => void;
-  /** When set, clear/flood/reconcile apply only to cells in this rect (start/end cell indices). */
-  canvasSelection?: { start: number; end: number } | null;
+  /**
+   * When set, clear/flood/reconcile apply only to cells in this rect (start/end cell indices),
+   * or only to `cells` when the selection is freeform.
+   */
+  canvasSelection?: CanvasSelection | null;
   /** Locked cell indices. Tiles at these indices cannot be modified. */
   lockedCells?: number[] | null;
+  /**
+   * Called whenever an edit starts a new undo step (including pushUndoForDragStart), before the
+   * tiles change; the app begins a step of the file's undo log here (utils/undo-log.ts).
+   */
+  onUndoStep?: () => void;
   /** When true, handlePress does not push undo (caller pushes once at drag start via pushUndoForDragStart). */
   isPartOfDragRef?: MutableRefObject<boolean>;
   /** When set, the canvas displays only this region (zoom in). Bounds are in full-grid row/col. All edits apply to full grid; mirror is within zoom region. */
   zoomRegion?: { minRow: number; maxRow: number; minCol: number; maxCol: number } | null;
   /** Cross-layer context for checking tile connectivity across resolution layers. */
   crossLayerContext?: CrossLayerContext | null;
+  /** When true, invalidEdges lists the broken seams of the current grid (for the seam overlay). */
+  trackInvalidEdges?: boolean;
+  /** Draw brush path mode: tap a start cell, then an end cell, and a connected path is routed between them. */
+  drawPathMode?: boolean;
+  /** Called when a path cannot be placed (no route, or no tiles for its segments). */
+  onDrawPathError?: (message: string) => void;
+  /** Seed for every random choice (random brush, Flood, Randomize, Generate). Changing it restarts the stream; null = Math.random. */
+  randomSeed?: number | null;
   /** @deprecated Unused; zoom uses bounds and fullGridLayout. */
   fullGridColumns?: number;
   /** @deprecated Unused; zoom uses bounds and fullGridLayout. */
   fullGridRows?: number;
 };
 
-const MAX_UNDO_STEPS = 50;
+/** Snapshots kept for the timelapse export; undone steps stay in the history. */
+const MAX_EDIT_HISTORY_STEPS = 500;
+
+/** Append snapshot to the timelapse edit history unless it repeats the newest entry. */
+const pushEditHistory = (history: Tile[][], snapshot: Tile[]) => {
+  if (history.length > 0 && sameTiles(history[history.length - 1], snapshot)) {
+    return;
+  }
+  if (history.length >= MAX_EDIT_HISTORY_STEPS) {
+    history.shift();
+  }
+  history.push(snapshot);
+};
 
 // Toggle performance logging (only active in __DEV__)
 const PERF_LOG = typeof __DEV__ !== 'undefined' && __DEV__;
@@ -104,18 +159,38 @@ type Result = {
   randomFill: () => void;
   floodFill: (patternOriginRow?: number, patternOriginCol?: number) => void;
   floodComplete: (patternOriginRow?: number, patternOriginCol?: number) => void;
-  reconcileTiles: () => void;
+  /**
+   * Replace tiles whose connections do not match their neighbours. Returns how many broken seams were fixed.
+   * With a selection only cells inside it change; tiles outside are fixed constraints.
+   */
+  reconcileTiles: () => ReconcileReport;
+  /**
+   * Reconcile the editing layer and every layer in crossLayerContext together, treating cross-layer
+   * constraints as hard edges. Applies the editing layer (one undo step when anything changed) and returns
+   * all layers so the caller can persist the others. Null when there is no cross-layer context.
+   */
+  reconcileAllLayers: () => LayerReconcileResult | null;
+  /** Broken seams in full-grid indices; empty unless trackInvalidEdges is set. */
+  invalidEdges: InvalidEdge[];
+  /** Swap tiles for others with the same connections (inside the selection when one exists). */
   controlledRandomize: () => void;
+  /** Fill editable cells with a globally consistent tiling (constraint solver with backtracking). One undo step. */
+  generateTiles: () => GenerateResult;
+  /** Restart the random stream from seed, so the next Flood/Randomize/Generate reproduces the result for that seed. */
+  reseedRandom: (seed: number) => void;
   resetTiles: () => void;
-  loadTiles: (nextTiles: Tile[]) => void;
-  undo: () => void;
-  redo: () => void;
+  /**
+   * Replace the tiles without recording an undo step. The edit history starts over unless
+   * keepEditHistory is set (a reload of the same layer, e.g. after undo or redo).
+   */
+  loadTiles: (nextTiles: Tile[], options?: { keepEditHistory?: boolean }) => void;
   /** Call once at drag start so the whole stroke is one undo step. */
   pushUndoForDragStart: () => void;
-  /** Retroactively attach a side effect to the most recent undo entry (for drag strokes). */
-  patchLastUndoSideEffect: (sideEffect: UndoSideEffect) => void;
-  canUndo: boolean;
-  canRedo: boolean;
+  /**
+   * Every undo step since the layer was opened (oldest first, up to MAX_EDIT_HISTORY_STEPS),
+   * followed by the current tiles. Full-grid snapshots for the timelapse export.
+   */
+  getEditHistory: () => Tile[][];
   clearCloneSource: () => void;
   setCloneSource: (cellIndex: number) => void;
   cloneSourceIndex: number | null;
@@ -125,6 +200,8 @@ type Result = {
   totalCells: number;
   /** Call when pointer/touch releases so the next draw stroke starts fresh. */
   clearDrawStroke: () => void;
+  /** Path mode: visible cell index of the tapped start cell, waiting for the end cell. */
+  drawPathStartIndex: number | null;
   /** When zoomed, the effective full grid dimensions (may be capped). Use for visible↔full index mapping in the app. */
   fullGridColumnsForZoom?: number;
   fullGridRowsForZoom?: number;
@@ -148,29 +225,10 @@ type Result = {
   fullGridLayoutForSave: GridLayout;
   /** When zoomed and mirror is on: copy zoom region to mirror targets on the full grid (one undo step). No-op if not zoomed or no mirror. */
   mirrorZoomRegionToRestOfGrid: () => void;
-  /**
-   * Set this ref before calling resetTiles() (or any other operation that calls pushUndo) to
-   * attach side-effect data to the undo entry. The hook stores it and replays it on undo/redo
-   * so callers can restore data outside the hook (e.g. other resolution layers).
-   */
-  pendingUndoSideEffectRef: MutableRefObject<UndoSideEffect | null>;
-  /** After an undo applies an entry that had side-effect data, this ref holds that data and
-   *  undoSideEffectVersion is incremented. Read the ref inside a useEffect on that version. */
-  lastUndoSideEffectRef: MutableRefObject<UndoSideEffect | null>;
-  /** After a redo applies an entry that had side-effect data, this ref holds that data and
-   *  redoSideEffectVersion is incremented. Read the ref inside a useEffect on that version. */
-  lastRedoSideEffectRef: MutableRefObject<UndoSideEffect | null>;
-  undoSideEffectVersion: number;
-  redoSideEffectVersion: number;
 };
 
-/** Data attached to an undo/redo entry so callers can restore data outside the hook. */
-export type UndoSideEffect = {
-  /** State of other layers before the operation (restore on undo). Keyed by internal level. */
-  preClear: { [level: number]: Tile[] };
-  /** State of other layers after the operation (restore on redo). Keyed by internal level. */
-  postClear: { [level: number]: Tile[] };
-};
+/** Outcome of generateTiles: on failure the grid is left unchanged and error explains why. */
+export type GenerateResult = { ok: true } | { ok: false; error: string };
 
 const toConnectionKey = (connections: boolean[] | null) =>
   connections ? connections.map((value) => (value ? '1' : '0')).join('') : null;
@@ -182,17 +240,21 @@ export const useTileGrid = ({
   gridGap,
   preferredTileSize,
   allowEdgeConnections,
+  wrapEdges = false,
   suspendRemap = false,
   randomRequiresLegal = false,
   randomSourceIndices,
+  getTileWeight = null,
   fixedRows,
   fixedColumns,
   fixedTileSize,
   onTilesChange,
   onClonePaint,
+  onUndoStep,
   brush,
   mirrorHorizontal,
   mirrorVertical,
+  symmetryMode = 'none',
   pattern,
   patternAnchorKey,
   getFixedBrushSourceName,
@@ -204,6 +266,10 @@ export const useTileGrid = ({
   fullGridColumns,
   fullGridRows,
   crossLayerContext = null,
+  randomSeed = null,
+  drawPathMode = false,
+  onDrawPathError,
+  trackInvalidEdges = false,
 }: Params): Result => {
   const clearLogRef = useRef<{ clearId: number } | null>(null);
   const previousTileSourcesRef = useRef<TileSource[] | null>(null);
@@ -219,6 +285,33 @@ export const useTileGrid = ({
     }
     return new Set(randomSourceIndices);
   }, [randomSourceIndices]);
+  const randomRef = useRef<RandomSource>(Math.random);
+  const randomStreamSeedRef = useRef<number | null>(null);
+  const reseedRandom = useCallback((seed: number) => {
+    randomStreamSeedRef.current = seed;
+    randomRef.current = createSeededRandom(seed);
+  }, []);
+  useEffect(() => {
+    if (randomSeed === randomStreamSeedRef.current) {
+      return;
+    }
+    if (randomSeed === null) {
+      randomStreamSeedRef.current = null;
+      randomRef.current = Math.random;
+      return;
+    }
+    reseedRandom(randomSeed);
+  }, [randomSeed, reseedRandom]);
+  /** Relative pick weight per tileSources index; all 1 when no weights are set. */
+  const sourceWeights = useMemo(
+    () =>
+      getTileWeight ? tileSources.map((source) => getTileWeight(source.name)) : null,
+    [tileSources, getTileWeight]
+  );
+  const getSourceWeight = (index: number) => sourceWeights?.[index] ?? 1;
+  /** Random pick from placement candidates, biased by sourceWeights. Candidates must be non-empty. */
+  const pickCandidate = (candidates: Tile[]) =>
+    pickWeighted(candidates, (tile) => getSourceWeight(tile.imageIndex), randomRef.current);
 
   const fullGridLayout = useMemo(() => {
     if (fixedRows && fixedColumns) {
@@ -355,27 +448,50 @@ export const useTileGrid = ({
     return new Set(lockedCells);
   }, [lockedCells]);
 
+  /** Rotation / diagonal symmetry applies (mode set and fits the canvas or zoom region). */
+  const symmetryModeActive =
+    symmetryMode !== 'none' && isSymmetryModeAvailable(symmetryMode, gridLayout.rows, gridLayout.columns);
+  /** Transforms linking each cell to its mirror / symmetry copies (identity first). */
+  const symmetryTransforms = useMemo(
+    () =>
+      getSymmetryTransforms(
+        { mirrorHorizontal, mirrorVertical, symmetryMode },
+        gridLayout.rows,
+        gridLayout.columns
+      ),
+    [mirrorHorizontal, mirrorVertical, symmetryMode, gridLayout.rows, gridLayout.columns]
+  );
+  /** Any mirror or symmetry is on: tools drive part of the canvas and copy to the linked cells. */
+  const mirrorActive = symmetryTransforms.length > 1;
+
   const modifiableIndicesSet = useMemo(() => {
     const cols = isZoomed ? fullGridLayout.columns : gridLayout.columns;
     const rows = isZoomed && zoomBounds ? zoomBounds.maxRow - zoomBounds.minRow + 1 : gridLayout.rows;
-    const maxR = mirrorVertical ? Math.floor(rows / 2) : rows;
-    const maxC = mirrorHorizontal ? Math.floor(cols / 2) : cols;
+    const maxR = mirrorVertical && !symmetryModeActive ? Math.floor(rows / 2) : rows;
+    const maxC = mirrorHorizontal && !symmetryModeActive ? Math.floor(cols / 2) : cols;
+    // With rotation / diagonal symmetry the driven cells are the first cell of each orbit.
+    const isDriven = (row: number, col: number, regionRows: number, regionCols: number) =>
+      !symmetryModeActive ||
+      isSymmetryRepresentative(row, col, regionRows, regionCols, symmetryTransforms);
     const set = new Set<number>();
     if (selectionBounds) {
       const { minRow, maxRow, minCol, maxCol } = selectionBounds;
+      const shapeCells = canvasSelection?.cells ? new Set(canvasSelection.cells) : null;
       for (let row = minRow; row <= maxRow; row += 1) {
         for (let col = minCol; col <= maxCol; col += 1) {
           const index = row * cols + col;
+          if (shapeCells && !shapeCells.has(index)) continue;
           if (!lockedCellIndices?.has(index)) set.add(index);
         }
       }
     } else if (isZoomed && zoomBounds) {
       const zoomRows = zoomBounds.maxRow - zoomBounds.minRow + 1;
       const zoomCols = zoomBounds.maxCol - zoomBounds.minCol + 1;
-      const maxRZoom = mirrorVertical ? Math.floor(zoomRows / 2) : zoomRows;
-      const maxCZoom = mirrorHorizontal ? Math.floor(zoomCols / 2) : zoomCols;
+      const maxRZoom = mirrorVertical && !symmetryModeActive ? Math.floor(zoomRows / 2) : zoomRows;
+      const maxCZoom = mirrorHorizontal && !symmetryModeActive ? Math.floor(zoomCols / 2) : zoomCols;
       for (let row = 0; row < maxRZoom; row += 1) {
         for (let col = 0; col < maxCZoom; col += 1) {
+          if (!isDriven(row, col, zoomRows, zoomCols)) continue;
           const fullRow = zoomBounds.minRow + row;
           const fullCol = zoomBounds.minCol + col;
           const index = fullRow * fullGridLayout.columns + fullCol;
@@ -385,6 +501,7 @@ export const useTileGrid = ({
     } else {
       for (let row = 0; row < maxR; row += 1) {
         for (let col = 0; col < maxC; col += 1) {
+          if (!isDriven(row, col, rows, cols)) continue;
           const index = row * cols + col;
           if (!lockedCellIndices?.has(index)) set.add(index);
         }
@@ -393,11 +510,14 @@ export const useTileGrid = ({
     return set;
   }, [
     selectionBounds,
+    canvasSelection?.cells,
     lockedCellIndices,
     gridLayout.rows,
     gridLayout.columns,
     mirrorHorizontal,
     mirrorVertical,
+    symmetryModeActive,
+    symmetryTransforms,
     isZoomed,
     fullGridLayout.columns,
     zoomBounds,
@@ -426,12 +546,11 @@ export const useTileGrid = ({
   /** Allow set for writing draw/placement results: full grid when mirror on (so mirror targets get written), else modifiable only. */
   const drawPlacementAllowSet = useMemo(
     () =>
-      mirrorHorizontal || mirrorVertical
+      mirrorActive
         ? (lockedCellIndices ? allNonLockedIndicesSet : undefined)
         : modifiableIndicesSet,
     [
-      mirrorHorizontal,
-      mirrorVertical,
+      mirrorActive,
       lockedCellIndices,
       allNonLockedIndicesSet,
       modifiableIndicesSet,
@@ -457,6 +576,10 @@ export const useTileGrid = ({
   const [cloneCursorIndex, setCloneCursorIndex] = useState<number | null>(null);
   const patternAnchorRef = useRef<number | null>(null);
   const drawStrokeRef = useRef<number[]>([]);
+  const drawPathStartRef = useRef<number | null>(null);
+  const [drawPathStartIndex, setDrawPathStartIndex] = useState<number | null>(null);
+  // One path tap per gesture: dragging across cells must not pick the end cell.
+  const drawPathGestureRef = useRef(false);
   // Reusable sentinel array for draw-mode overwrite state (avoids 512-element allocation per press)
   const drawOverwriteSentinelRef = useRef<{ cells: number; tiles: Tile[] }>({ cells: 0, tiles: [] });
   const getDrawOverwriteSentinel = (): Tile[] => {
@@ -472,6 +595,8 @@ export const useTileGrid = ({
   const placementOrderRef = useRef(0);
   const onTilesChangeRef = useRef(onTilesChange);
   onTilesChangeRef.current = onTilesChange;
+  const onUndoStepRef = useRef(onUndoStep);
+  onUndoStepRef.current = onUndoStep;
   const latestTilesForPersistRef = useRef<Tile[]>(tiles);
   latestTilesForPersistRef.current = tiles;
   const persistTilesTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -526,17 +651,7 @@ export const useTileGrid = ({
     return result;
   };
 
-  type UndoEntry = { tiles: Tile[]; sideEffect?: UndoSideEffect };
-  const undoStackRef = useRef<UndoEntry[]>([]);
-  const redoStackRef = useRef<UndoEntry[]>([]);
-  const [undoCount, setUndoCount] = useState(0);
-  const [redoCount, setRedoCount] = useState(0);
-  const isUndoRedoRef = useRef(false);
-  const pendingUndoSideEffectRef = useRef<UndoSideEffect | null>(null);
-  const lastUndoSideEffectRef = useRef<UndoSideEffect | null>(null);
-  const lastRedoSideEffectRef = useRef<UndoSideEffect | null>(null);
-  const [undoSideEffectVersion, setUndoSideEffectVersion] = useState(0);
-  const [redoSideEffectVersion, setRedoSideEffectVersion] = useState(0);
+  const editHistoryRef = useRef<Tile[][]>([]);
   const bulkUpdateRef = useRef(false);
 
   const withBulkUpdate = (fn: () => void) => {
@@ -583,36 +698,17 @@ export const useTileGrid = ({
   };
 
   const pushUndo = useCallback(() => {
-    if (isUndoRedoRef.current) {
-      return;
-    }
+    onUndoStepRef.current?.();
     const t0 = PERF_LOG ? performance.now() : 0;
     const snapshot = [...lastTilesRef.current];
-    const stack = undoStackRef.current;
-    const top = stack.length > 0 ? stack[stack.length - 1] : null;
-    if (top && tilesEqual(snapshot, top.tiles)) {
-      pendingUndoSideEffectRef.current = null;
-      return;
-    }
-    if (stack.length >= MAX_UNDO_STEPS) {
-      stack.shift();
-    }
-    const sideEffect = pendingUndoSideEffectRef.current ?? undefined;
-    pendingUndoSideEffectRef.current = null;
-    stack.push({ tiles: snapshot, sideEffect });
-    redoStackRef.current = [];
-    setUndoCount(stack.length);
-    setRedoCount(0);
+    pushEditHistory(editHistoryRef.current, snapshot);
     if (PERF_LOG) console.log(`[PERF] pushUndo: ${(performance.now() - t0).toFixed(2)}ms | ${snapshot.length} tiles`);
   }, []);
 
-  /** Retroactively attach a side effect to the most recent undo entry. */
-  const patchLastUndoSideEffect = useCallback((sideEffect: UndoSideEffect) => {
-    const stack = undoStackRef.current;
-    if (stack.length > 0) {
-      stack[stack.length - 1].sideEffect = sideEffect;
-    }
-  }, []);
+  const getEditHistory = useCallback(
+    () => [...editHistoryRef.current, [...lastTilesRef.current]],
+    []
+  );
 
   const applyTilesInternal = useCallback(
     (nextTiles: Tile[]) => {
@@ -645,86 +741,12 @@ export const useTileGrid = ({
 
   const applyTiles = useCallback(
     (nextTiles: Tile[]) => {
-      if (!isUndoRedoRef.current) {
-        pushUndo();
-      }
+      pushUndo();
       applyTilesInternal(nextTiles);
     },
     [pushUndo, applyTilesInternal]
   );
 
-  const undo = useCallback(() => {
-    const stack = undoStackRef.current;
-    if (stack.length === 0) {
-      return;
-    }
-    isUndoRedoRef.current = true;
-    setTiles((prev) => {
-      const prevNorm = normalizeTiles(prev, internalTotalCells, tileSourcesLength);
-      let next: UndoEntry | undefined;
-      while (stack.length > 0) {
-        next = stack.pop();
-        if (next && !tilesEqual(prevNorm, next.tiles)) {
-          break;
-        }
-        next = undefined;
-      }
-      if (!next) {
-        return prev;
-      }
-      redoStackRef.current.push({
-        tiles: prevNorm.map((t) => ({ ...t, name: t.name })),
-        sideEffect: next.sideEffect,
-      });
-      setUndoCount(undoStackRef.current.length);
-      setRedoCount(redoStackRef.current.length);
-      if (next.sideEffect) {
-        lastUndoSideEffectRef.current = next.sideEffect;
-        setUndoSideEffectVersion((v) => v + 1);
-      }
-      return normalizeTiles(next.tiles, internalTotalCells, tileSourcesLength);
-    });
-    requestAnimationFrame(() => {
-      isUndoRedoRef.current = false;
-    });
-  }, [internalTotalCells, tileSourcesLength]);
-
-  const redo = useCallback(() => {
-    const stack = redoStackRef.current;
-    if (stack.length === 0) {
-      return;
-    }
-    isUndoRedoRef.current = true;
-    setTiles((prev) => {
-      const prevNorm = normalizeTiles(prev, internalTotalCells, tileSourcesLength);
-      let next: UndoEntry | undefined;
-      while (stack.length > 0) {
-        next = stack.pop();
-        if (next && !tilesEqual(prevNorm, next.tiles)) {
-          break;
-        }
-        next = undefined;
-      }
-      if (!next) {
-        return prev;
-      }
-      undoStackRef.current.push({
-        tiles: prevNorm.map((t) => ({ ...t, name: t.name })),
-        sideEffect: next.sideEffect,
-      });
-      setUndoCount(undoStackRef.current.length);
-      setRedoCount(redoStackRef.current.length);
-      if (next.sideEffect) {
-        lastRedoSideEffectRef.current = next.sideEffect;
-        setRedoSideEffectVersion((v) => v + 1);
-      }
-      return normalizeTiles(next.tiles, internalTotalCells, tileSourcesLength);
-    });
-    requestAnimationFrame(() => {
-      isUndoRedoRef.current = false;
-    });
-  }, [internalTotalCells, tileSourcesLength]);
-
   useEffect(() => {
     // Cancel any in-flight debounce so an empty-grid intermediate state
     // (from structural resize) is not persisted to the file before loadTiles fires.
@@ -769,6 +791,11 @@ export const useTileGrid = ({
     }
   }, [brush.mode]);
 
+  useEffect(() => {
+    drawPathStartRef.current = null;
+    setDrawPathStartIndex(null);
+  }, [brush.mode, drawPathMode, zoomRegion]);
+
   const compatTables = useMemo(
     () => buildCompatibilityTables(tileSources),
     [tileSourcesKey]
@@ -776,14 +803,17 @@ export const useTileGrid = ({
   const connectionsByIndex = compatTables.connectionsByIndex;
 
   /** Resolve tile to index in current tileSources for connection lookup. Pattern-placed tiles may have imageIndex from pattern context; name is authoritative for display and must be used so connection logic matches the visible tile. */
-  const getEffectiveConnectionIndex = (tile: Tile): number => {
-    if (!tile || tile.imageIndex < 0) return -1;
-    if (tile.name != null && tile.name !== '') {
-      const byName = getTileSourceIndexByName(tileSources, tile.name);
-      if (byName >= 0) return byName;
-    }
-    return tile.imageIndex;
-  };
+  const getEffectiveConnectionIndex = useCallback(
+    (tile: Tile): number => {
+      if (!tile || tile.imageIndex < 0) return -1;
+      if (tile.name != null && tile.name !== '') {
+        const byName = getTileSourceIndexByName(tileSources, tile.name);
+        if (byName >= 0) return byName;
+      }
+      return tile.imageIndex;
+    },
+    [tileSources]
+  );
 
   const getPairsForDirection = (index: number) => {
     switch (index) {
@@ -971,15 +1001,15 @@ export const useTileGrid = ({
 
     const neighborConstraints = directions
       .map((dir, index) => {
-        const r = row + dir.dr;
-        const c = col + dir.dc;
-        if (r < 0 || c < 0 || r >= placementRows || c >= placementCols) {
+        const neighborIndex = getNeighborCellIndex(
+          row, col, dir.dr, dir.dc, placementRows, placementCols, wrapEdges
+        );
+        if (neighborIndex < 0) {
           if (!allowEdgeConnections) {
             return { pairs: getPairsForDirection(index), connections: new Array(8).fill(false) };
           }
           return null;
         }
-        const neighborIndex = r * placementCols + c;
         if (
           selectionSet &&
           !allowEdgeConnections &&
@@ -1088,7 +1118,7 @@ export const useTileGrid = ({
     if (candidates.length === 0) {
       return null;
     }
-    return candidates[Math.floor(Math.random() * candidates.length)];
+    return pickCandidate(candidates);
   };
 
   const getInitializedNeighborCount = (cellIndex: number, tilesState: Tile[]) => {
@@ -1106,12 +1136,12 @@ export const useTileGrid = ({
     ];
     let count = 0;
     for (const dir of directions) {
-      const r = row + dir.dr;
-      const c = col + dir.dc;
-      if (r < 0 || c < 0 || r >= placementRows || c >= placementCols) {
+      const neighborIndex = getNeighborCellIndex(
+        row, col, dir.dr, dir.dc, placementRows, placementCols, wrapEdges
+      );
+      if (neighborIndex < 0) {
         continue;
       }
-      const neighborIndex = r * placementCols + c;
       const neighborTile = tilesState[neighborIndex];
       if (neighborTile && neighborTile.imageIndex >= 0) {
         count += 1;
@@ -1181,9 +1211,10 @@ export const useTileGrid = ({
     ];
 
     const sameLayerOk = directions.every((dir, index) => {
-      const r = row + dir.dr;
-      const c = col + dir.dc;
-      if (r < 0 || c < 0 || r >= placementRows || c >= placementCols) {
+      const neighborIndex = getNeighborCellIndex(
+        row, col, dir.dr, dir.dc, placementRows, placementCols, wrapEdges
+      );
+      if (neighborIndex < 0) {
         if (!allowEdgeConnections) {
           return getPairsForDirection(index).every(
             ([candidateIndex]) => transformed[candidateIndex] === false
@@ -1191,7 +1222,6 @@ export const useTileGrid = ({
         }
         return true;
       }
-      const neighborIndex = r * placementCols + c;
       if (
         selectionSet &&
         !allowEdgeConnections &&
@@ -1379,6 +1409,16 @@ export const useTileGrid = ({
         mirrorY: placement.mirrorY,
       });
     }
+    if (symmetryModeActive) {
+      symmetryTransforms.forEach((transform) => {
+        const image = transformCell(row, col, rows, cols, transform);
+        if (!image) return;
+        const index = indexToPlace(image.row, image.col);
+        if (!placements.has(index)) {
+          placements.set(index, transformTileBySymmetry(placement, transform));
+        }
+      });
+    }
 
     return placements;
   };
@@ -1410,6 +1450,12 @@ export const useTileGrid = ({
     if (mirrorHorizontal && mirrorVertical) {
       targets.add(indexAt(rows - 1 - row, cols - 1 - col));
     }
+    if (symmetryModeActive) {
+      symmetryTransforms.forEach((transform) => {
+        const image = transformCell(row, col, rows, cols, transform);
+        if (image) targets.add(indexAt(image.row, image.col));
+      });
+    }
 
     targets.delete(cellIndex);
     return Array.from(targets);
@@ -1489,7 +1535,7 @@ export const useTileGrid = ({
       }
       const tile =
         zeroCandidates.length > 0
-          ? zeroCandidates[Math.floor(Math.random() * zeroCandidates.length)]
+          ? pickCandidate(zeroCandidates)
           : ({ imageIndex: -1, rotation: 0, mirrorX: false, mirrorY: false } as Tile);
       applyPlacementsToArrayOverride(
         next,
@@ -1515,7 +1561,7 @@ export const useTileGrid = ({
     }
     if (endCandidates.length === 0) return prevTiles;
     const endTile =
-      endCandidates[Math.floor(Math.random() * endCandidates.length)];
+      pickCandidate(endCandidates);
     applyPlacementsToArrayOverride(
       next,
       getMirroredPlacements(lastIndex, endTile),
@@ -1528,6 +1574,7 @@ export const useTileGrid = ({
   const clearDrawStroke = useCallback(() => {
     const stroke = [...drawStrokeRef.current];
     drawStrokeRef.current = [];
+    drawPathGestureRef.current = false;
     if (stroke.length > 0) {
       setTiles((prev) => {
         getNextPlacementOrder();
@@ -1581,6 +1628,120 @@ export const useTileGrid = ({
     };
   };
 
+  /**
+   * Route a path from startIndex to endIndex (full-grid indices) through empty editable cells,
+   * avoiding cells that an existing tile connects into, and fill it with end caps and
+   * two-connection tiles. Start and end are overwritten.
+   */
+  const buildDrawPathTiles = (
+    startIndex: number,
+    endIndex: number
+  ): { ok: true; tiles: Tile[] } | { ok: false; error: string } => {
+    const current = normalizeTiles(lastTilesRef.current, internalTotalCells, tileSourcesLength);
+    const pathCells =
+      mirrorActive ? allNonLockedIndicesSet : modifiableIndicesSet;
+    if (!pathCells.has(startIndex) || !pathCells.has(endIndex)) {
+      return { ok: false, error: 'Path start and end must be editable cells.' };
+    }
+    const getPlacedConnections = (tile: Tile) => {
+      const index = getEffectiveConnectionIndex(tile);
+      return index < 0
+        ? null
+        : compatTables.getConnectionsForPlacement(index, tile.rotation, tile.mirrorX, tile.mirrorY);
+    };
+    const directions = [
+      { dr: -1, dc: 0 },
+      { dr: -1, dc: 1 },
+      { dr: 0, dc: 1 },
+      { dr: 1, dc: 1 },
+      { dr: 1, dc: 0 },
+      { dr: 1, dc: -1 },
+      { dr: 0, dc: -1 },
+      { dr: -1, dc: -1 },
+    ];
+    const isConnectedInto = (cell: number) => {
+      const row = Math.floor(cell / placementCols);
+      const col = cell % placementCols;
+      for (let d = 0; d < 8; d += 1) {
+        const neighbor = getNeighborCellIndex(
+          row, col, directions[d].dr, directions[d].dc, placementRows, placementCols, wrapEdges
+        );
+        if (neighbor < 0) continue;
+        if (neighbor === startIndex || neighbor === endIndex) continue;
+        const conn = getPlacedConnections(current[neighbor]);
+        if (conn?.[(d + 4) % 8]) return true;
+      }
+      return false;
+    };
+    const path = findDrawPath(
+      startIndex,
+      endIndex,
+      placementCols,
+      placementRows,
+      (cell) => pathCells.has(cell) && current[cell].imageIndex < 0 && !isConnectedInto(cell)
+    );
+    if (!path) {
+      return {
+        ok: false,
+        error: 'No route between these cells. Paths run through empty cells and cannot cut across existing connections.',
+      };
+    }
+    const candidatesByKey = new Map<string, Tile[]>();
+    const placements: { cell: number; tile: Tile }[] = [];
+    for (const [i, required] of getDrawPathDirections(path, placementCols).entries()) {
+      const key = [...required].sort().join(',');
+      let candidates = candidatesByKey.get(key);
+      if (!candidates) {
+        candidates = getCandidatesWithExactConnections(required, randomSourceSet);
+        if (candidates.length === 0) {
+          candidates = getCandidatesWithExactConnections(required, null);
+        }
+        candidatesByKey.set(key, candidates);
+      }
+      if (candidates.length === 0) {
+        return {
+          ok: false,
+          error: 'The tile set has no tile for part of this path (it needs end caps, straights and corners).',
+        };
+      }
+      placements.push({ cell: path[i], tile: pickCandidate(candidates) });
+    }
+    getNextPlacementOrder();
+    const next = [...current];
+    placements.forEach(({ cell, tile }) => {
+      applyPlacementsToArrayOverride(
+        next,
+        getMirroredPlacements(cell, tile),
+        drawPlacementAllowSet ?? undefined
+      );
+    });
+    return { ok: true, tiles: normalizeTiles(next, internalTotalCells, tileSourcesLength) };
+  };
+
+  const handleDrawPathPress = (cellIndex: number, fullIndex: number) => {
+    if (isPartOfDragRef?.current) {
+      if (drawPathGestureRef.current) {
+        return;
+      }
+      drawPathGestureRef.current = true;
+    }
+    const startIndex = drawPathStartRef.current;
+    if (startIndex === null || startIndex === fullIndex) {
+      // First tap picks the start; tapping it again cancels.
+      drawPathStartRef.current = startIndex === null ? fullIndex : null;
+      setDrawPathStartIndex(startIndex === null ? cellIndex : null);
+      return;
+    }
+    drawPathStartRef.current = null;
+    setDrawPathStartIndex(null);
+    const result = buildDrawPathTiles(startIndex, fullIndex);
+    if (!result.ok) {
+      onDrawPathError?.(result.error);
+      return;
+    }
+    setTiles((prev) => (tilesEqual(prev, result.tiles) ? prev : result.tiles));
+  };
+
   const handlePress = (cellIndex: number) => {
     const fullIndex = isZoomed ? visibleToFull(cellIndex) : cellIndex;
     if (lockedCellIndices?.has(fullIndex)) {
@@ -1595,6 +1756,10 @@ export const useTileGrid = ({
         drawStrokeRef.current = [];
       }
     }
+    if (brush.mode === 'draw' && drawPathMode) {
+      handleDrawPathPress(cellIndex, fullIndex);
+      return;
+    }
     if (brush.mode === 'erase') {
       applyPlacement(fullIndex, {
         imageIndex: -1,
@@ -1785,7 +1950,7 @@ export const useTileGrid = ({
       );
       selection =
         validFirst.length > 0
-          ? validFirst[Math.floor(Math.random() * validFirst.length)]
+          ? pickCandidate(validFirst)
           : null;
     } else {
       selection = selectCompatibleTile(
@@ -1843,7 +2008,7 @@ export const useTileGrid = ({
         );
         const newStrokeFirst =
           validFirst.length > 0
-            ? validFirst[Math.floor(Math.random() * validFirst.length)]
+            ? pickCandidate(validFirst)
             : null;
         if (newStrokeFirst) {
           setTiles((prev) => {
@@ -1887,7 +2052,7 @@ export const useTileGrid = ({
       }
       const drawSelection =
         nthCandidates.length > 0
-          ? nthCandidates[Math.floor(Math.random() * nthCandidates.length)]
+          ? pickCandidate(nthCandidates)
           : null;
       if (!drawSelection) {
         return;
@@ -1914,7 +2079,7 @@ export const useTileGrid = ({
         return;
       }
       const prevTile =
-        prevCandidates[Math.floor(Math.random() * prevCandidates.length)];
+        pickCandidate(prevCandidates);
       const nextTiles = [...lastTilesRef.current];
       applyPlacementsToArrayOverride(
         nextTiles,
@@ -1990,14 +2155,14 @@ export const useTileGrid = ({
         if (current[i]) nextTiles[i] = { ...current[i] };
       });
     }
-    const mirrorOn = mirrorHorizontal || mirrorVertical;
+    const mirrorOn = mirrorActive;
     const allowSet = mirrorOn
       ? (lockedCellIndices ? allNonLockedIndicesSet : undefined)
       : (lockedCellIndices ? modifiableIndicesSet : null);
     getNextPlacementOrder();
     if (mirrorOn) {
       const driven = modifiableIndicesArray;
-      const start = Math.floor(Math.random() * Math.max(1, driven.length));
+      const start = Math.floor(randomRef.current() * Math.max(1, driven.length));
       for (let o = 0; o < driven.length; o += 1) {
         const index = driven[(start + o) % driven.length];
         const placement = getRandomPlacement(index, nextTiles);
@@ -2008,7 +2173,7 @@ export const useTileGrid = ({
         );
       }
     } else {
-      const startIndex = Math.floor(Math.random() * internalTotalCells);
+      const startIndex = Math.floor(randomRef.current() * internalTotalCells);
       for (let offset = 0; offset < internalTotalCells; offset += 1) {
         const index = (startIndex + offset) % internalTotalCells;
         if (lockedCellIndices?.has(index)) {
@@ -2034,7 +2199,7 @@ export const useTileGrid = ({
     if (brush.mode === 'clone') {
       return;
     }
-    const mirrorOnFlood = mirrorHorizontal || mirrorVertical;
+    const mirrorOnFlood = mirrorActive;
     const floodAllowSet =
       mirrorOnFlood
         ? (lockedCellIndices ? allNonLockedIndicesSet : undefined)
@@ -2081,7 +2246,7 @@ export const useTileGrid = ({
           ? [...normalizeTiles(tiles, internalTotalCells, tileSourcesLength)]
           : buildInitialTiles(internalTotalCells);
       const colsForIndex = isZoomed ? fullGridLayout.columns : gridLayout.columns;
-      if (selectionBounds && !mirrorHorizontal && !mirrorVertical) {
+      if (selectionBounds && !mirrorActive) {
         modifiableIndicesSet.forEach((index) => {
           const row = Math.floor(index / colsForIndex);
           const col = index % colsForIndex;
@@ -2097,7 +2262,7 @@ export const useTileGrid = ({
               }
             : { imageIndex: -1, rotation: 0, mirrorX: false, mirrorY: false };
         });
-      } else if (mirrorHorizontal || mirrorVertical) {
+      } else if (mirrorActive) {
         for (const index of modifiableIndicesArray) {
           const row = Math.floor(index / colsForIndex);
           const col = index % colsForIndex;
@@ -2136,7 +2301,7 @@ export const useTileGrid = ({
       if (modifiableIndicesSet.size === 0) {
         return;
       }
-      if (mirrorHorizontal || mirrorVertical || selectionBounds || (isZoomed && zoomBounds)) {
+      if (mirrorActive || selectionBounds || (isZoomed && zoomBounds)) {
         const nextTiles =
           selectionBounds || lockedCellIndices?.size || (isZoomed && zoomBounds)
             ? [...normalizeTiles(tiles, internalTotalCells, tileSourcesLength)]
@@ -2161,7 +2326,7 @@ export const useTileGrid = ({
                   selectionBounds.maxRow,
                   selectionBounds.maxCol,
                   fullGridLayout.columns
-                ).filter((i) => !lockedCellIndices?.has(i))
+                ).filter((i) => modifiableIndicesSet.has(i))
               : isZoomed && zoomBounds
                 ? getSpiralCellOrderInRect(
                     zoomBounds.minRow,
@@ -2180,7 +2345,7 @@ export const useTileGrid = ({
                     );
                   })()
             : modifiableIndicesArray.length > 0
-              ? [...modifiableIndicesArray].sort(() => Math.random() - 0.5)
+              ? shuffle(modifiableIndicesArray, randomRef.current)
               : modifiableIndicesArray;
         if (brush.mode === 'draw' && indices.length > 0) {
           for (let i = 0; i < indices.length; i += 1) {
@@ -2247,7 +2412,7 @@ export const useTileGrid = ({
             }
             const placement =
               candidates.length > 0
-                ? candidates[Math.floor(Math.random() * candidates.length)]
+                ? pickCandidate(candidates)
                 : { imageIndex: -1, rotation: 0, mirrorX: false, mirrorY: false };
             applyPlacementsToArrayOverride(
               nextTiles,
@@ -2255,7 +2420,7 @@ export const useTileGrid = ({
               floodAllowSet
             );
           }
-        } else if (selectionBounds && !mirrorHorizontal && !mirrorVertical) {
+        } else if (selectionBounds && !mirrorActive) {
           indices.forEach((index) => {
             nextTiles[index] = getRandomPlacement(
               index,
@@ -2366,7 +2531,7 @@ export const useTileGrid = ({
           }
           const placement =
             candidates.length > 0
-              ? candidates[Math.floor(Math.random() * candidates.length)]
+              ? pickCandidate(candidates)
               : { imageIndex: -1, rotation: 0, mirrorX: false, mirrorY: false };
           applyPlacementsToArrayOverride(
             nextTiles,
@@ -2393,7 +2558,7 @@ export const useTileGrid = ({
     if (fixedIndex < 0 || fixedIndex >= tileSourcesLength) {
       return;
     }
-    if (mirrorHorizontal || mirrorVertical || selectionBounds) {
+    if (mirrorActive || selectionBounds) {
       const nextTiles =
         selectionBounds || lockedCellIndices?.size || (isZoomed && zoomBounds)
           ? [...normalizeTiles(tiles, internalTotalCells, tileSourcesLength)]
@@ -2405,7 +2570,7 @@ export const useTileGrid = ({
         mirrorY: false,
         name: fixedName,
       };
-      if (selectionBounds && !mirrorHorizontal && !mirrorVertical) {
+      if (selectionBounds && !mirrorActive) {
         modifiableIndicesSet.forEach((index) => {
           nextTiles[index] = { ...fixedTile, placedOrder: placementOrderRef.current };
         });
@@ -2477,7 +2642,7 @@ export const useTileGrid = ({
     if (brush.mode === 'clone') {
       return;
     }
-    const mirrorOnComplete = mirrorHorizontal || mirrorVertical;
+    const mirrorOnComplete = mirrorActive;
     const floodAllowSetComplete =
       mirrorOnComplete
         ? (lockedCellIndices ? allNonLockedIndicesSet : undefined)
@@ -2521,7 +2686,7 @@ export const useTileGrid = ({
       }
       const nextTiles = [...normalizeTiles(tiles, internalTotalCells, tileSourcesLength)];
       const colsForIndexComplete = isZoomed ? fullGridLayout.columns : gridLayout.columns;
-      if ((mirrorHorizontal || mirrorVertical) && !selectionBounds) {
+      if (mirrorActive && !selectionBounds) {
         const indicesToScan = isZoomed && zoomBounds ? allNonLockedIndicesSet : new Set(Array.from({ length: internalTotalCells }, (_, i) => i));
         for (const index of indicesToScan) {
           if (nextTiles[index].imageIndex >= 0) {
@@ -2532,14 +2697,14 @@ export const useTileGrid = ({
             drivenSet.add(index);
           }
         }
-      } else if ((mirrorHorizontal || mirrorVertical) && selectionBounds) {
+      } else if (mirrorActive && selectionBounds) {
         for (const index of modifiableIndicesSet) {
           if (nextTiles[index].imageIndex >= 0) continue;
           const targets = getMirrorTargets(index);
           if (targets.some((t) => nextTiles[t]?.imageIndex >= 0)) drivenSet.add(index);
         }
       }
-      if (mirrorHorizontal || mirrorVertical) {
+      if (mirrorActive) {
         for (const index of drivenSet) {
           if (nextTiles[index].imageIndex >= 0) {
             continue;
@@ -2583,7 +2748,7 @@ export const useTileGrid = ({
       if (tileSourcesLength <= 0) {
         return;
       }
-      if ((mirrorHorizontal || mirrorVertical) && !selectionBounds) {
+      if (mirrorActive && !selectionBounds) {
         const indicesToScanRand = isZoomed && zoomBounds ? allNonLockedIndicesSet : new Set(Array.from({ length: internalTotalCells }, (_, i) => i));
         for (const index of indicesToScanRand) {
           if (nextTiles[index].imageIndex >= 0) {
@@ -2594,7 +2759,7 @@ export const useTileGrid = ({
             drivenSet.add(index);
           }
         }
-      } else if ((mirrorHorizontal || mirrorVertical) && selectionBounds) {
+      } else if (mirrorActive && selectionBounds) {
         for (const index of modifiableIndicesSet) {
           if (nextTiles[index].imageIndex >= 0) continue;
           const targets = getMirrorTargets(index);
@@ -2632,7 +2797,7 @@ export const useTileGrid = ({
     withBulkUpdate(() => {
       setTiles((prev) => {
       const nextTiles = [...normalizeTiles(prev, internalTotalCells, tileSourcesLength)];
-      if ((mirrorHorizontal || mirrorVertical) && !selectionBounds) {
+      if (mirrorActive && !selectionBounds) {
         const indicesToScanFixed = isZoomed && zoomBounds ? allNonLockedIndicesSet : new Set(Array.from({ length: internalTotalCells }, (_, i) => i));
         for (const index of indicesToScanFixed) {
           if (nextTiles[index].imageIndex >= 0) {
@@ -2643,7 +2808,7 @@ export const useTileGrid = ({
             drivenSet.add(index);
           }
         }
-      } else if ((mirrorHorizontal || mirrorVertical) && selectionBounds) {
+      } else if (mirrorActive && selectionBounds) {
         for (const index of modifiableIndicesSet) {
           if (nextTiles[index].imageIndex >= 0) continue;
           const targets = getMirrorTargets(index);
@@ -2672,18 +2837,38 @@ export const useTileGrid = ({
     });
   };
 
-  const reconcileTiles = () => {
+  const collectInvalidEdges = (tilesState: Tile[], cells: Set<number> | null) =>
+    findInvalidEdges({
+      tiles: tilesState,
+      columns: placementCols,
+      rows: placementRows,
+      getConnections: (tile) => {
+        const index = getEffectiveConnectionIndex(tile);
+        return index < 0
+          ? null
+          : compatTables.getConnectionsForPlacement(index, tile.rotation, tile.mirrorX, tile.mirrorY);
+      },
+      allowEdgeConnections,
+      wrap: wrapEdges,
+      cells,
+    });
+
+  const reconcileTiles = (): ReconcileReport => {
     if (internalTotalCells <= 0 || tileSourcesLength <= 0) {
-      return;
+      return buildReconcileReport([], []);
     }
     getNextPlacementOrder();
     const snapshot = normalizeTiles(tiles, internalTotalCells, tileSourcesLength);
+    const invalidBefore = collectInvalidEdges(snapshot, modifiableIndicesSet);
     const nextTiles = [...snapshot];
     const allowedSet = randomSourceSet ?? null;
     const reconcileAllowSet =
-      mirrorHorizontal || mirrorVertical
+      mirrorActive
         ? (lockedCellIndices ? allNonLockedIndicesSet : undefined)
         : modifiableIndicesSet;
+    // With a selection, tiles outside it are fixed neighbours rather than a border,
+    // so the repaired region has to fit the finished work around it.
+    const neighborScope = selectionBounds ? null : modifiableIndicesSet;
     const maxPasses = Math.min(50, Math.max(8, gridLayout.rows + gridLayout.columns));
     for (let pass = 0; pass < maxPasses; pass += 1) {
       let changed = false;
@@ -2701,7 +2886,7 @@ export const useTileGrid = ({
           continue;
         }
         if (
-          isPlacementValid(index, tile, nextTiles, true, modifiableIndicesSet)
+          isPlacementValid(index, tile, nextTiles, true, neighborScope)
         ) {
           continue;
         }
@@ -2710,12 +2895,12 @@ export const useTileGrid = ({
           nextTiles,
           allowedSet,
           true,
-          modifiableIndicesSet
+          neighborScope
         );
         if (candidates.length === 0) {
           continue;
         }
-        const pick = candidates[Math.floor(Math.random() * candidates.length)];
+        const pick = pickCandidate(candidates);
         applyPlacementsToArrayOverride(nextTiles, getMirroredPlacements(index, pick), reconcileAllowSet);
         changed = true;
       }
@@ -2726,8 +2911,37 @@ export const useTileGrid = ({
     withBulkUpdate(() => {
       applyTiles(nextTiles);
     });
+    return buildReconcileReport(invalidBefore, collectInvalidEdges(nextTiles, modifiableIndicesSet));
   };
 
+  const invalidEdges = useMemo(() => {
+    if (!trackInvalidEdges) {
+      return [];
+    }
+    return findInvalidEdges({
+      tiles: renderTiles,
+      columns: placementCols,
+      rows: placementRows,
+      getConnections: (tile) => {
+        const index = getEffectiveConnectionIndex(tile);
+        return index < 0
+          ? null
+          : compatTables.getConnectionsForPlacement(index, tile.rotation, tile.mirrorX, tile.mirrorY);
+      },
+      allowEdgeConnections,
+      wrap: wrapEdges,
+    });
+  }, [
+    trackInvalidEdges,
+    renderTiles,
+    placementCols,
+    placementRows,
+    getEffectiveConnectionIndex,
+    compatTables,
+    allowEdgeConnections,
+    wrapEdges,
+  ]);
+
   const controlledRandomize = () => {
     if (internalTotalCells <= 0 || tileSourcesLength <= 0) {
       return;
@@ -2764,7 +2978,7 @@ export const useTileGrid = ({
       : compatTables.variantsByKey;
 
     const controlledRandomizeAllowSet =
-      mirrorHorizontal || mirrorVertical
+      mirrorActive
         ? (lockedCellIndices ? allNonLockedIndicesSet : undefined)
         : modifiableIndicesSet;
     const nextTiles = [...normalizeTiles(tiles, internalTotalCells, tileSourcesLength)];
@@ -2790,7 +3004,11 @@ export const useTileGrid = ({
       if (!candidates || candidates.length === 0) {
         continue;
       }
-      const pick = candidates[Math.floor(Math.random() * candidates.length)];
+      const pick = pickWeighted(
+        candidates,
+        (variant) => getSourceWeight(variant.index),
+        randomRef.current
+      );
       applyPlacementsToArrayOverride(
         nextTiles,
         getMirroredPlacements(index, {
@@ -2809,11 +3027,142 @@ export const useTileGrid = ({
     });
   };
 
+  /** Every placement (all variants) of the palette sources, weighted, for the solvers. */
+  const buildPaletteCandidates = (): WfcCandidate[] => {
+    const candidates: WfcCandidate[] = [];
+    connectionsByIndex.forEach((connections, index) => {
+      if (randomSourceSet && !randomSourceSet.has(index)) return;
+      const name = tileSources[index]?.name;
+      if (!connections) {
+        candidates.push({
+          tile: { imageIndex: index, rotation: 0, mirrorX: false, mirrorY: false, name },
+          connections: null,
+          weight: getSourceWeight(index),
+        });
+        return;
+      }
+      (compatTables.variantsByIndex[index] ?? []).forEach((variant) => {
+        candidates.push({
+          tile: {
+            imageIndex: index,
+            rotation: variant.rotation,
+            mirrorX: variant.mirrorX,
+            mirrorY: variant.mirrorY,
+            name,
+          },
+          connections: variant.connections,
+          weight: getSourceWeight(index),
+        });
+      });
+    });
+    return candidates;
+  };
+
+  const reconcileAllLayers = (): LayerReconcileResult | null => {
+    if (!crossLayerContext || internalTotalCells <= 0 || tileSourcesLength <= 0) {
+      return null;
+    }
+    const { editingLevel, baseColumns, baseRows, otherLayers } = crossLayerContext;
+    const layers: Record<number, Tile[]> = {
+      [editingLevel]: normalizeTiles(tiles, internalTotalCells, tileSourcesLength),
+    };
+    const lockedCells: Record<number, ReadonlySet<number>> = {};
+    if (lockedCellIndices) {
+      lockedCells[editingLevel] = lockedCellIndices;
+    }
+    Object.entries(otherLayers).forEach(([levelStr, layer]) => {
+      const level = Number(levelStr);
+      layers[level] = layer.tiles;
+      if (layer.lockedCells?.length) {
+        lockedCells[level] = new Set(layer.lockedCells);
+      }
+    });
+    const order = getNextPlacementOrder();
+    const result = reconcileLayers({
+      baseColumns,
+      baseRows,
+      layers,
+      lockedCells,
+      candidates: buildPaletteCandidates(),
+      getConnections: (tile) => {
+        const idx = getEffectiveConnectionIndex(tile);
+        if (idx < 0) return null;
+        return compatTables.getConnectionsForPlacement(idx, tile.rotation, tile.mirrorX, tile.mirrorY);
+      },
+      allowEdgeConnections,
+      tileable: crossLayerContext.tileable,
+      random: randomRef.current,
+      placedOrder: order,
+    });
+    // Push an undo step whenever any layer changed so the caller can attach the other layers to it.
+    if (result.changedLevels.length > 0) {
+      withBulkUpdate(() => {
+        applyTiles(result.layers[editingLevel]);
+      });
+    }
+    return result;
+  };
+
+  const generateTiles = (): GenerateResult => {
+    if (internalTotalCells <= 0 || tileSourcesLength <= 0) {
+      return { ok: false, error: 'No tiles available to generate with.' };
+    }
+    const mirrorOn = mirrorActive;
+    let editableSet: Set<number> = modifiableIndicesSet;
+    if (mirrorOn && selectionBounds) {
+      editableSet = new Set(modifiableIndicesSet);
+      modifiableIndicesSet.forEach((i) => {
+        getMirrorTargets(i).forEach((t) => editableSet.add(t));
+      });
+      if (lockedCellIndices) {
+        editableSet = new Set([...editableSet].filter((i) => !lockedCellIndices.has(i)));
+      }
+    } else if (mirrorOn) {
+      editableSet = allNonLockedIndicesSet;
+    }
+    if (editableSet.size === 0) {
+      return { ok: true };
+    }
+    const candidates = buildPaletteCandidates();
+    const current = normalizeTiles(tiles, internalTotalCells, tileSourcesLength);
+    const result = solveWaveFunctionCollapse({
+      columns: placementCols,
+      rows: placementRows,
+      tiles: current,
+      editableCells: editableSet,
+      candidates,
+      getConnections: (tile) => {
+        const idx = getEffectiveConnectionIndex(tile);
+        if (idx < 0) return null;
+        return compatTables.getConnectionsForPlacement(idx, tile.rotation, tile.mirrorX, tile.mirrorY);
+      },
+      allowEdgeConnections,
+      wrap: wrapEdges,
+      mirrorHorizontal,
+      mirrorVertical,
+      symmetryMode: symmetryModeActive ? symmetryMode : 'none',
+      mirrorBounds: isZoomed && zoomBounds ? zoomBounds : null,
+      cellConstraints: crossLayerEdgeMap,
+      random: randomRef.current,
+    });
+    if (!result.ok) {
+      return { ok: false, error: result.error };
+    }
+    const order = getNextPlacementOrder();
+    const nextTiles = result.tiles.map((tile, index) =>
+      editableSet.has(index) ? { ...tile, placedOrder: order } : tile
+    );
+    withBulkUpdate(() => {
+      applyTiles(nextTiles);
+    });
+    return { ok: true };
+  };
+
   const resetTiles = () => {
     markClear();
     if (selectionBounds) {
       let indices: number[] = modifiableIndicesArray;
-      if (mirrorHorizontal || mirrorVertical) {
+      if (mirrorActive) {
         const clearSet = new Set(modifiableIndicesSet);
         modifiableIndicesSet.forEach((i) => getMirrorTargets(i).forEach((t) => clearSet.add(t)));
         indices = [...clearSet].filter((i) => !lockedCellIndices?.has(i));
@@ -2856,14 +3205,15 @@ export const useTileGrid = ({
   };
 
   const loadTiles = useCallback(
-    (nextTiles: Tile[]) => {
+    (nextTiles: Tile[], options?: { keepEditHistory?: boolean }) => {
       const _filled = nextTiles.filter((t) => t.imageIndex >= 0).length;
       console.log(`[LAYER-DIAG] loadTiles | count=${nextTiles.length} | filled=${_filled}`, new Error().stack?.split('\n').slice(1, 4).join(' <- '));
-      undoStackRef.current = [];
-      redoStackRef.current = [];
-      pendingUndoSideEffectRef.current = null;
-      setUndoCount(0);
-      setRedoCount(0);
+      if (options?.keepEditHistory) {
+        // The tiles being replaced are a step too (e.g. the state an undo leaves).
+        pushEditHistory(editHistoryRef.current, [...lastTilesRef.current]);
+      } else {
+        editHistoryRef.current = [];
+      }
       applyTilesInternal(nextTiles);
     },
     [applyTilesInternal]
@@ -2998,6 +3348,11 @@ export const useTileGrid = ({
       const cols = fullGridLayout.columns;
       const rows = fullGridLayout.rows;
       if (cols <= 0 || rows <= 0 || rotW <= 0 || rotH <= 0) return;
+      const extraTransforms = getExtraSymmetryTransforms(
+        { mirrorHorizontal, mirrorVertical, symmetryMode },
+        rows,
+        cols
+      );
       pushUndo();
       withBulkUpdate(() => {
         setTiles((prev) => {
@@ -3045,6 +3400,12 @@ export const useTileGrid = ({
                 if (mr >= 0 && mr < rows && mc >= 0 && mc < cols && !lockedCellIndices?.has(mi))
                   next[mi] = { ...primaryTile, rotation: (primaryTile.rotation + 180) % 360 };
               }
+              for (const transform of extraTransforms) {
+                const image = transformCell(destRow, destCol, rows, cols, transform);
+                if (!image) continue;
+                const mi = image.row * cols + image.col;
+                if (!lockedCellIndices?.has(mi)) next[mi] = transformTileBySymmetry(primaryTile, transform);
+              }
             }
           }
           return next;
@@ -3060,6 +3421,7 @@ export const useTileGrid = ({
       pushUndo,
       mirrorHorizontal,
       mirrorVertical,
+      symmetryMode,
     ]
   );
 
@@ -3074,11 +3436,17 @@ export const useTileGrid = ({
   }, [isZoomed, visibleToFull]);
 
   const mirrorZoomRegionToRestOfGrid = useCallback(() => {
-    if (!isZoomed || !zoomBounds || (!mirrorHorizontal && !mirrorVertical)) {
-      return;
-    }
     const rows = fullGridLayout.rows;
     const cols = fullGridLayout.columns;
+    // Symmetry about the full canvas (the zoom region may not be square).
+    const extraTransforms = getExtraSymmetryTransforms(
+      { mirrorHorizontal, mirrorVertical, symmetryMode },
+      rows,
+      cols
+    );
+    if (!isZoomed || !zoomBounds || (!mirrorHorizontal && !mirrorVertical && extraTransforms.length === 0)) {
+      return;
+    }
     if (rows <= 0 || cols <= 0) return;
     pushUndo();
     setTiles((prev) => {
@@ -3117,6 +3485,14 @@ export const useTileGrid = ({
               };
             }
           }
+          for (const transform of extraTransforms) {
+            const image = transformCell(r, c, rows, cols, transform);
+            if (!image) continue;
+            const targetIndex = image.row * cols + image.col;
+            if (!lockedCellIndices?.has(targetIndex)) {
+              next[targetIndex] = transformTileBySymmetry(tile, transform);
+            }
+          }
         }
       }
       return next;
@@ -3126,6 +3502,7 @@ export const useTileGrid = ({
     zoomBounds,
     mirrorHorizontal,
     mirrorVertical,
+    symmetryMode,
     fullGridLayout.rows,
     fullGridLayout.columns,
     internalTotalCells,
@@ -3157,15 +3534,15 @@ export const useTileGrid = ({
     floodFill,
     floodComplete,
     reconcileTiles,
+    reconcileAllLayers,
+    invalidEdges,
     controlledRandomize,
+    generateTiles,
+    reseedRandom,
     resetTiles,
     loadTiles,
-    undo,
-    redo,
     pushUndoForDragStart: pushUndo,
-    patchLastUndoSideEffect,
-    canUndo: undoCount > 0,
-    canRedo: redoCount > 0,
+    getEditHistory,
     clearCloneSource,
     setCloneSource,
     cloneSourceIndex: brush.mode === 'clone' ? cloneSourceIndex : null,
@@ -3174,6 +3551,7 @@ export const useTileGrid = ({
     cloneCursorIndex: brush.mode === 'clone' ? cloneCursorIndex : null,
     totalCells,
     clearDrawStroke,
+    drawPathStartIndex: brush.mode === 'draw' && drawPathMode ? drawPathStartIndex : null,
     fullGridColumnsForZoom: isZoomed ? fullGridLayout.columns : undefined,
     fullGridRowsForZoom: isZoomed ? fullGridLayout.rows : undefined,
     moveRegion,
@@ -3182,10 +3560,5 @@ export const useTileGrid = ({
     fullTilesForSave: renderTiles,
     fullGridLayoutForSave: fullGridLayout,
     mirrorZoomRegionToRestOfGrid,
-    pendingUndoSideEffectRef,
-    lastUndoSideEffectRef,
-    lastRedoSideEffectRef,
-    undoSideEffectVersion,
-    redoSideEffectVersion,
   };
 };
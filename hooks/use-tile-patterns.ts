@@ -30,25 +30,27 @@ const createId = () =>
 export const useTilePatterns = () => {
   const [patterns, setPatterns] = useState<TilePattern[]>([]);
 
+  /** Read patterns from storage (on mount, and after storage was rewritten, e.g. by a library restore). */
+  const loadFromStorage = useCallback(async (isMounted: () => boolean = () => true) => {
+    try {
+      const raw = await AsyncStorage.getItem(STORAGE_KEY);
+      if (!isMounted()) {
+        return;
+      }
+      const parsed = raw ? (JSON.parse(raw) as TilePattern[]) : [];
+      setPatterns(parsed ?? []);
+    } catch (error) {
+      console.warn('Failed to load patterns', error);
+    }
+  }, []);
+
   useEffect(() => {
     let mounted = true;
-    const load = async () => {
-      try {
-        const raw = await AsyncStorage.getItem(STORAGE_KEY);
-        if (!mounted) {
-          return;
-        }
-        const parsed = raw ? (JSON.parse(raw) as TilePattern[]) : [];
-        setPatterns(parsed ?? []);
-      } catch (error) {
-        console.warn('Failed to load patterns', error);
-      }
-    };
-    load();
+    void loadFromStorage(() => mounted);
     return () => {
       mounted = false;
     };
-  }, []);
+  }, [loadFromStorage]);
 
   const persist = useCallback(async (next: TilePattern[]) => {
     try {
@@ -145,5 +147,6 @@ export const useTilePatterns = () => {
     deletePatterns,
     clearAllPatterns,
     updatePattern,
+    reloadPatterns: loadFromStorage,
   };
 };
@@ -23,6 +23,12 @@ export type TileSetTile = {
   thumbnailUri: string | null;
   previewUri: string | null;
   updatedAt: number;
+  /**
+   * SVG tiles (imported from vector files): markup used as the tile source instead of
+   * painting `tiles`, with 8-digit connection bits as in `name_########.svg`.
+   */
+  svg?: string;
+  connections?: string;
 };
 
 export type TileSet = {
@@ -77,6 +83,9 @@ const toConnectionKey = (connections: boolean[] | null) =>
   connections ? connections.map((value) => (value ? '1' : '0')).join('') : null;
 
 const getTileConnectivityBits = (tile: TileSetTile, sources: TileSource[]) => {
+  if (tile.svg) {
+    return tile.connections ?? '00000000';
+  }
   const rows = tile.grid.rows;
   const columns = tile.grid.columns;
   if (rows <= 0 || columns <= 0) {
@@ -216,6 +225,10 @@ export const useTileSets = (options?: {
               thumbnailUri: tile.thumbnailUri ?? null,
               previewUri: tile.previewUri ?? null,
               updatedAt: tile.updatedAt ?? Date.now(),
+              ...(typeof tile.svg === 'string' && {
+                svg: tile.svg,
+                connections: tile.connections ?? '00000000',
+              }),
             })),
           updatedAt: set.updatedAt ?? Date.now(),
         } as TileSet;
@@ -367,7 +380,7 @@ export const useTileSets = (options?: {
               tile.grid.rows > 0 ? tile.grid.rows : set.resolution;
             const fallbackColumns =
               tile.grid.columns > 0 ? tile.grid.columns : set.resolution;
-            const svg = await renderTileCanvasToSvg({
+            const svg = tile.svg ?? (await renderTileCanvasToSvg({
               tiles: tile.tiles,
               gridLayout: {
                 rows: fallbackRows,
@@ -382,7 +395,7 @@ export const useTileSets = (options?: {
               backgroundColor: null,
               sourceXmlCache: svgSourceCacheRef.current,
               outputSize: set.resolution * 256,
-            });
+            }));
           if (!svg) {
             if (prevSource) {
               bakedSources.push({ ...prevSource, name: qualifiedName });
@@ -649,6 +662,7 @@ export const useTileSets = (options?: {
           preserve && typeof (t as { updatedAt?: number }).updatedAt === 'number'
             ? (t as { updatedAt: number }).updatedAt
             : now,
+        ...(t.svg && { svg: t.svg, connections: t.connections ?? '00000000' }),
       }));
       const newSet: TileSet = {
         id: setId,
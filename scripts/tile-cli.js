@@ -0,0 +1,87 @@
+#!/usr/bin/env node
+/* global __dirname */
+/**
+ * Headless tile CLI: render .tile files to SVG/PNG, validate files, unpack bundles and
+ * generate canvases without opening the app.
+ * Usage: npm run tile-cli -- help   (or: node scripts/tile-cli.js help, from any directory)
+ *
+ * The commands live in utils/tile-cli.ts. This file only lets Node load the app's
+ * TypeScript: it transpiles .ts on require, resolves @/ paths, loads tile .svg assets as
+ * their file paths and stands in for the React Native modules utils/tile-export.ts imports
+ * (SVGs are read from disk). PNG output uses @resvg/resvg-js.
+ */
+
+const fs = require('fs');
+const Module = require('module');
+const path = require('path');
+const ts = require('typescript');
+
+const root = path.resolve(__dirname, '..');
+
+const readFileUri = (uri) => fs.promises.readFile(uri.replace(/^file:\/\//, ''), 'utf8');
+
+/** Module stand-ins: only what utils/tile-export.ts touches on its SVG path. */
+const NODE_STANDINS = {
+  'react-native': { Platform: { OS: 'node' }, Image: {} },
+  'expo-asset': { Asset: { fromModule: () => null } },
+  'expo-file-system': { readAsStringAsync: readFileUri },
+};
+
+for (const [name, exports] of Object.entries(NODE_STANDINS)) {
+  const standin = new Module(name);
+  standin.exports = exports;
+  standin.loaded = true;
+  require.cache[name] = standin;
+}
+
+const originalResolveFilename = Module._resolveFilename;
+Module._resolveFilename = function resolveFilename(request, ...rest) {
+  if (Object.prototype.hasOwnProperty.call(NODE_STANDINS, request)) {
+    return request;
+  }
+  const resolved = request.startsWith('@/') ? path.join(root, request.slice(2)) : request;
+  return originalResolveFilename.call(this, resolved, ...rest);
+};
+
+require.extensions['.ts'] = (module, filename) => {
+  const { outputText } = ts.transpileModule(fs.readFileSync(filename, 'utf8'), {
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2020,
+      esModuleInterop: true,
+    },
+    fileName: filename,
+  });
+  module._compile(outputText, filename);
+};
+require.extensions['.svg'] = (module, filename) => {
+  module.exports = filename;
+};
+
+const writeFile = async (file, data) => {
+  await fs.promises.mkdir(path.dirname(file), { recursive: true });
+  await fs.promises.writeFile(file, data);
+};
+
+const rasterizeSvg = async (svg) => {
+  const { Resvg } = require('@resvg/resvg-js');
+  return new Resvg(svg, { fitTo: { mode: 'original' } }).render().asPng();
+};
+
+const { runTileCli } = require('../utils/tile-cli.ts');
+
+runTileCli(process.argv.slice(2), {
+  readText: (file) => fs.promises.readFile(file, 'utf8'),
+  writeText: writeFile,
+  writeBinary: writeFile,
+  rasterizeSvg,
+  log: (message) => console.log(message),
+  error: (message) => console.error(message),
+})
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  });
@@ -0,0 +1,37 @@
+/** Minimal types for gifenc (the package ships none); only what utils/timelapse-export.ts uses. */
+declare module 'gifenc' {
+  export type Palette = number[][];
+
+  export type GifFrameOptions = {
+    palette?: Palette;
+    /** Frame delay in milliseconds. */
+    delay?: number;
+    /** 0 = loop forever, -1 = play once, n = repeat n times. */
+    repeat?: number;
+    transparent?: boolean;
+    transparentIndex?: number;
+    dispose?: number;
+  };
+
+  export type GifEncoder = {
+    writeFrame(index: Uint8Array, width: number, height: number, options?: GifFrameOptions): void;
+    finish(): void;
+    bytes(): Uint8Array;
+    bytesView(): Uint8Array;
+    reset(): void;
+  };
+
+  export function GIFEncoder(options?: { initialCapacity?: number; auto?: boolean }): GifEncoder;
+
+  export function quantize(
+    rgba: Uint8Array | Uint8ClampedArray,
+    maxColors: number,
+    options?: { format?: 'rgb565' | 'rgb444' | 'rgba4444'; oneBitAlpha?: boolean | number }
+  ): Palette;
+
+  export function applyPalette(
+    rgba: Uint8Array | Uint8ClampedArray,
+    palette: Palette,
+    format?: 'rgb565' | 'rgb444' | 'rgba4444'
+  ): Uint8Array;
+}
@@ -0,0 +1,144 @@
+/**
+ * Tests for freeform canvas selections (utils/cell-selection.ts).
+ */
+import {
+  combineSelection,
+  createSelectionFromCells,
+  getCellsWithSameTile,
+  getConnectedCells,
+  getLassoCells,
+  getSelectionCells,
+  invertSelection,
+  mapSelectionToLevel,
+  offsetSelection,
+} from '../cell-selection';
+import { getLevelGridInfo, type Tile } from '../tile-grid';
+import { parseTileConnections, transformConnections } from '../tile-compat';
+
+const tile = (name: string, rotation = 0): Tile => ({
+  imageIndex: 1,
+  rotation,
+  mirrorX: false,
+  mirrorY: false,
+  name,
+});
+const empty = (): Tile => ({ imageIndex: -1, rotation: 0, mirrorX: false, mirrorY: false });
+
+const getConnections = (t: Tile) => {
+  const parsed = t.name ? parseTileConnections(t.name) : null;
+  return parsed ? transformConnections(parsed, t.rotation, t.mirrorX, t.mirrorY) : null;
+};
+
+describe('createSelectionFromCells', () => {
+  it('keeps a full rectangle as start/end only', () => {
+    expect(createSelectionFromCells([5, 1, 2, 6], 4)).toEqual({ start: 1, end: 6 });
+  });
+
+  it('lists the cells of any other shape', () => {
+    expect(createSelectionFromCells([0, 5, 1], 4)).toEqual({ start: 0, end: 5, cells: [0, 1, 5] });
+  });
+
+  it('returns null when nothing is selected', () => {
+    expect(createSelectionFromCells([], 4)).toBeNull();
+  });
+});
+
+describe('combineSelection', () => {
+  const rect = { start: 0, end: 5 }; // cells 0, 1, 4, 5 on a 4-wide grid
+
+  it('adds and subtracts cells', () => {
+    expect(getSelectionCells(combineSelection(rect, [10], 'add', 4)!, 4)).toEqual([0, 1, 4, 5, 10]);
+    expect(combineSelection(rect, [4, 5], 'subtract', 4)).toEqual({ start: 0, end: 1 });
+  });
+
+  it('subtracting everything clears the selection', () => {
+    expect(combineSelection(rect, [0, 1, 4, 5], 'subtract', 4)).toBeNull();
+    expect(combineSelection(null, [0], 'subtract', 4)).toBeNull();
+  });
+});
+
+describe('invertSelection', () => {
+  it('selects every cell that was not selected', () => {
+    expect(invertSelection({ start: 0, end: 2, cells: [0, 2] }, 3, 2)).toEqual({
+      start: 0,
+      end: 5,
+      cells: [1, 3, 4, 5],
+    });
+    expect(invertSelection(null, 3, 2)).toEqual({ start: 0, end: 5 });
+  });
+});
+
+describe('getLassoCells', () => {
+  it('fills the inside of a closed loop', () => {
+    // Ring around the center of a 5x5 grid.
+    const path = [6, 7, 8, 13, 18, 17, 16, 11];
+    expect(getLassoCells(path, 5, 5)).toEqual([6, 7, 8, 11, 12, 13, 16, 17, 18]);
+  });
+
+  it('closes an open path back to its start', () => {
+    // Diagonal triangle: (0,0) → (0,3) → (3,3).
+    const cells = getLassoCells([0, 1, 2, 3, 8, 13, 18], 5, 5);
+    expect(cells).toContain(7);
+    expect(cells).not.toContain(10);
+  });
+});
+
+describe('getCellsWithSameTile', () => {
+  it('matches the tile source in any rotation', () => {
+    const tiles = [tile('a_10000000.svg'), tile('b_10000000.svg'), tile('a_10000000.svg', 90), empty()];
+    expect(getCellsWithSameTile(tiles, 0)).toEqual([0, 2]);
+    expect(getCellsWithSameTile(tiles, 3)).toEqual([3]);
+  });
+});
+
+describe('getConnectedCells', () => {
+  // 3x2 grid: a horizontal line through the top row, a lone end below it.
+  const tiles = [
+    tile('end_00100000.svg'),
+    tile('line_00100010.svg'),
+    tile('end_00000010.svg'),
+    tile('end_10000000.svg'),
+    empty(),
+    empty(),
+  ];
+
+  it('follows connections that match on both sides', () => {
+    expect(getConnectedCells({ tiles, columns: 3, rows: 2, getConnections }, 1)).toEqual([0, 1, 2]);
+  });
+
+  it('does not cross a one-sided connection', () => {
+    // Cell 3 points N into cell 0, which has no S connection.
+    expect(getConnectedCells({ tiles, columns: 3, rows: 2, getConnections }, 3)).toEqual([3]);
+  });
+
+  it('continues across opposite edges on a tileable grid', () => {
+    const wrapped = [tile('end_00000010.svg'), empty(), tile('end_00100000.svg')];
+    expect(getConnectedCells({ tiles: wrapped, columns: 3, rows: 1, getConnections }, 0)).toEqual([0]);
+    expect(
+      getConnectedCells({ tiles: wrapped, columns: 3, rows: 1, getConnections, wrap: true }, 0)
+    ).toEqual([0, 2]);
+  });
+});
+
+describe('mapSelectionToLevel', () => {
+  it('keeps only layer cells whose whole footprint is selected', () => {
+    const info = getLevelGridInfo(4, 4, 2)!;
+    // Top-left 2x2 block plus one cell of the block to its right.
+    const selection = createSelectionFromCells([0, 1, 4, 5, 2], 4)!;
+    const mapped = mapSelectionToLevel(selection, 4, info.cells, info.levelCols);
+    expect(mapped).not.toBeNull();
+    const cells = getSelectionCells(mapped!, info.levelCols);
+    expect(cells).toHaveLength(1);
+    expect(info.cells[cells[0]]).toMatchObject({ minRow: 0, maxRow: 1, minCol: 0, maxCol: 1 });
+  });
+});
+
+describe('offsetSelection', () => {
+  it('moves the rectangle and the cells together', () => {
+    expect(offsetSelection({ start: 0, end: 5, cells: [0, 5] }, 1, 2, 4)).toEqual({
+      start: 6,
+      end: 11,
+      cells: [6, 11],
+    });
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * Shared fixture for the generator and reconcile tests: five built-in style tiles, their
+ * compatibility tables, WFC candidates and a connection lookup.
+ */
+import { buildCompatibilityTables } from '../tile-compat';
+import type { Tile } from '../tile-grid';
+import type { WfcCandidate } from '../tile-wfc';
+
+export const sources = [
+  { name: 'empty_00000000.svg' },
+  { name: 'line_10001000.svg' },
+  { name: 'corner_10100000.svg' },
+  { name: 'cross_10101010.svg' },
+  { name: 'end_10000000.svg' },
+];
+export const tables = buildCompatibilityTables(sources);
+
+/** Every rotation/mirror variant of the given source indices. */
+export const buildCandidates = (indices: number[]): WfcCandidate[] =>
+  indices.flatMap((index) =>
+    tables.variantsByIndex[index].map((variant) => ({
+      tile: {
+        imageIndex: index,
+        rotation: variant.rotation,
+        mirrorX: variant.mirrorX,
+        mirrorY: variant.mirrorY,
+        name: sources[index].name,
+      },
+      connections: variant.connections,
+    }))
+  );
+
+export const getConnections = (tile: Tile) =>
+  tile.imageIndex < 0
+    ? null
+    : tables.getConnectionsForPlacement(tile.imageIndex, tile.rotation, tile.mirrorX, tile.mirrorY);
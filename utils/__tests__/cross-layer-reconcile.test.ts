@@ -0,0 +1,80 @@
+/**
+ * Tests for the joint cross-layer reconcile (utils/cross-layer-reconcile.ts).
+ */
+import { reconcileLayers } from '../cross-layer-reconcile';
+import { createSeededRandom } from '../seeded-random';
+import { buildInitialTiles, getLevelGridInfo, type Tile } from '../tile-grid';
+import { buildCandidates, getConnections } from './compat-fixture';
+
+const candidates = buildCandidates([0, 1, 2, 3, 4]);
+
+const tile = (imageIndex: number, rotation = 0): Tile => ({
+  imageIndex,
+  rotation,
+  mirrorX: false,
+  mirrorY: false,
+});
+
+const fill = (length: number, value: Tile) => Array.from({ length }, () => ({ ...value }));
+
+describe('reconcileLayers', () => {
+  const baseColumns = 4;
+  const baseRows = 4;
+  const l2 = getLevelGridInfo(baseColumns, baseRows, 2);
+
+  it('repairs both layers so no same-layer or cross-layer edge stays broken', () => {
+    if (!l2) throw new Error('expected level 2 grid');
+    // Dead-end tiles on both layers, each pointing at an empty neighbour.
+    const l1Tiles = fill(baseColumns * baseRows, tile(0));
+    l1Tiles[5] = tile(4);
+    const l2Tiles = buildInitialTiles(l2.levelCols * l2.levelRows);
+    l2Tiles[l2.levelCols + 1] = tile(4, 90);
+    const result = reconcileLayers({
+      baseColumns,
+      baseRows,
+      layers: { 1: l1Tiles, 2: l2Tiles },
+      candidates,
+      getConnections,
+      allowEdgeConnections: false,
+      random: createSeededRandom(4),
+    });
+    expect(result.invalidEdges).toBeGreaterThan(0);
+    expect(result.changedLevels).toEqual([1, 2]);
+    expect(result.unfixable).toBe(0);
+    expect(result.fixed).toBe(result.invalidEdges);
+  });
+
+  it('leaves locked cells alone and reports what they keep broken', () => {
+    const tiles = fill(baseColumns * baseRows, tile(0));
+    tiles[0] = tile(3);
+    const result = reconcileLayers({
+      baseColumns,
+      baseRows,
+      layers: { 1: tiles },
+      lockedCells: { 1: new Set([0]) },
+      candidates,
+      getConnections,
+      allowEdgeConnections: false,
+      random: createSeededRandom(2),
+    });
+    expect(result.layers[1][0]).toEqual(tiles[0]);
+    // The locked cross points N and W off the grid; nothing can repair those.
+    expect(result.unfixable).toBe(2);
+    expect(result.fixed).toBe(result.invalidEdges - 2);
+  });
+
+  it('returns the input untouched when nothing is broken', () => {
+    const layers = { 1: fill(baseColumns * baseRows, tile(0)) };
+    const result = reconcileLayers({
+      baseColumns,
+      baseRows,
+      layers,
+      candidates,
+      getConnections,
+      allowEdgeConnections: false,
+      random: createSeededRandom(1),
+    });
+    expect(result).toEqual({ layers, changedLevels: [], invalidEdges: 0, fixed: 0, unfixable: 0 });
+    expect(result.layers[1]).toBe(layers[1]);
+  });
+});
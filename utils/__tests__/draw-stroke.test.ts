@@ -4,7 +4,9 @@
  * 2) every other tile has exactly two connections (only toward stroke neighbors).
  */
 import {
+    findDrawPath,
     getDirectionFromTo,
+    getDrawPathDirections,
     getStrokeNeighborDirections,
     validateDrawStroke,
     type GetConnectionsForPlacement,
@@ -158,3 +160,41 @@ describe('validateDrawStroke', () => {
     );
   });
 });
+
+describe('findDrawPath', () => {
+  // 4x3 grid:
+  //  0  1  2  3
+  //  4  5  6  7
+  //  8  9 10 11
+  it('routes the shortest orthogonal path', () => {
+    const path = findDrawPath(0, 11, 4, 3, () => true);
+    expect(path).not.toBeNull();
+    expect(path).toHaveLength(6);
+    expect(path?.[0]).toBe(0);
+    expect(path?.[5]).toBe(11);
+    path?.slice(1).forEach((cell, i) => {
+      expect([0, 2, 4, 6]).toContain(getDirectionFromTo(path[i], cell, 4));
+    });
+  });
+
+  it('goes around blocked cells', () => {
+    const blocked = new Set([1, 5]);
+    const path = findDrawPath(0, 2, 4, 3, (cell) => !blocked.has(cell));
+    expect(path).toEqual([0, 4, 8, 9, 10, 6, 2]);
+  });
+
+  it('allows blocked endpoints but returns null when walled off', () => {
+    expect(findDrawPath(0, 1, 4, 3, () => false)).toEqual([0, 1]);
+    const wall = new Set([1, 5, 9]);
+    expect(findDrawPath(0, 3, 4, 3, (cell) => !wall.has(cell))).toBeNull();
+  });
+});
+
+describe('getDrawPathDirections', () => {
+  it('gives end caps one direction and inner cells two', () => {
+    const dirs = getDrawPathDirections([0, 1, 5], 4);
+    expect([...dirs[0]]).toEqual([2]);
+    expect([...dirs[1]].sort()).toEqual([4, 6]);
+    expect([...dirs[2]]).toEqual([0]);
+  });
+});
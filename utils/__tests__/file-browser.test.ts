@@ -0,0 +1,150 @@
+/**
+ * Tests for File view folders, tags, search and sort (utils/file-browser.ts).
+ */
+jest.mock('@/assets/images/tiles/manifest', () => ({
+  TILE_CATEGORIES: ['angular', 'curved'],
+  TILE_MANIFEST: { angular: [], curved: [] },
+}));
+
+import type { TileFile } from '@/hooks/use-tile-files';
+import {
+  canMoveFolder,
+  countFolderFiles,
+  flattenFolderTree,
+  getFileCreatedAt,
+  getFolderPath,
+  getVisibleFiles,
+  matchesFileSearch,
+  normalizeFolders,
+  normalizeTags,
+  sortFiles,
+  type FileFolder,
+} from '../file-browser';
+
+const makeFile = (id: string, overrides: Partial<TileFile> = {}): TileFile => ({
+  id,
+  name: `File ${id}`,
+  tiles: [],
+  grid: { rows: 1, columns: 1 },
+  category: 'angular',
+  categories: ['angular'],
+  tileSetIds: [],
+  sourceNames: [],
+  preferredTileSize: 45,
+  lineWidth: 4,
+  lineColor: '#ffffff',
+  thumbnailUri: null,
+  previewUri: null,
+  updatedAt: 1,
+  ...overrides,
+});
+
+const folder = (id: string, parentId: string | null, name = id): FileFolder => ({
+  id,
+  name,
+  parentId,
+  createdAt: 0,
+});
+
+// work > clients > acme; personal at the top level.
+const folders = [
+  folder('work', null, 'Work'),
+  folder('clients', 'work', 'Clients'),
+  folder('acme', 'clients', 'Acme'),
+  folder('personal', null, 'Personal'),
+];
+
+describe('folders', () => {
+  it('resets missing and looping parents to the top level', () => {
+    expect(normalizeFolders('x')).toEqual([]);
+    expect(
+      normalizeFolders([
+        { id: 'a', name: 'A', parentId: 'b' },
+        { id: 'b', name: 'B', parentId: 'a', createdAt: 5 },
+        { id: 'c', name: 'C', parentId: 'gone' },
+        { id: 4 },
+      ])
+    ).toEqual([folder('a', null, 'A'), { ...folder('b', 'a', 'B'), createdAt: 5 }, folder('c', null, 'C')]);
+  });
+
+  it('builds paths and the tree, and refuses moves into a folder itself', () => {
+    expect(getFolderPath(folders, 'acme').map((f) => f.id)).toEqual(['work', 'clients', 'acme']);
+    expect(getFolderPath(folders, null)).toEqual([]);
+    expect(flattenFolderTree(folders).map(({ folder: f, depth }) => [f.name, depth])).toEqual([
+      ['Personal', 0],
+      ['Work', 0],
+      ['Clients', 1],
+      ['Acme', 2],
+    ]);
+    expect(canMoveFolder(folders, 'work', 'acme')).toBe(false);
+    expect(canMoveFolder(folders, 'work', 'work')).toBe(false);
+    expect(canMoveFolder(folders, 'acme', 'personal')).toBe(true);
+    expect(canMoveFolder(folders, 'acme', null)).toBe(true);
+  });
+});
+
+describe('tags and search', () => {
+  it('splits, trims and dedupes tags', () => {
+    expect(normalizeTags(' blue, #wip  Blue,,client ')).toEqual(['blue', 'wip', 'client']);
+    expect(normalizeTags(['a', 3, '#b'])).toEqual(['a', 'b']);
+    expect(normalizeTags(undefined)).toEqual([]);
+  });
+
+  it('matches every word against the name or the tags', () => {
+    const file = { name: 'Kitchen floor', tags: ['client', 'Blue'] };
+    expect(matchesFileSearch(file, 'kitchen')).toBe(true);
+    expect(matchesFileSearch(file, 'floor blue')).toBe(true);
+    expect(matchesFileSearch(file, 'floor red')).toBe(false);
+    expect(matchesFileSearch(file, '#cli')).toBe(true);
+    expect(matchesFileSearch(file, '#kitchen')).toBe(false);
+    expect(matchesFileSearch(file, '  ')).toBe(true);
+  });
+
+  it('lists a folder, or search results in it and the folders inside it', () => {
+    const files = [
+      makeFile('top', { tags: ['blue'] }),
+      makeFile('w', { folderId: 'work', tags: ['blue'] }),
+      makeFile('a', { folderId: 'acme', tags: ['blue'] }),
+      makeFile('lost', { folderId: 'deleted' }),
+    ];
+    const ids = (list: TileFile[]) => list.map((file) => file.id);
+    expect(ids(getVisibleFiles(files, folders, null, ''))).toEqual(['top', 'lost']);
+    expect(ids(getVisibleFiles(files, folders, 'work', ''))).toEqual(['w']);
+    expect(ids(getVisibleFiles(files, folders, 'work', 'blue'))).toEqual(['w', 'a']);
+    expect(ids(getVisibleFiles(files, folders, null, 'blue'))).toEqual(['top', 'w', 'a']);
+    expect(countFolderFiles(files, folders, 'work')).toBe(2);
+  });
+});
+
+describe('sortFiles', () => {
+  const files = [
+    makeFile('file-300-x', { name: 'Canvas 10', updatedAt: 5, grid: { rows: 2, columns: 2 } }),
+    makeFile('b', {
+      name: 'canvas 2',
+      updatedAt: 9,
+      createdAt: 400,
+      tileSetIds: ['set-z'],
+    }),
+    makeFile('c', { name: 'Alpha', updatedAt: 7, createdAt: 100, tileSetIds: ['set-a'] }),
+  ];
+  const names = new Map([
+    ['set-a', 'Zigzag'],
+    ['set-z', 'Arcs'],
+  ]);
+  const order = (sort: Parameters<typeof sortFiles>[1]) =>
+    sortFiles(files, sort, names).map((file) => file.name);
+
+  it('sorts by each key', () => {
+    expect(order('updated')).toEqual(['canvas 2', 'Alpha', 'Canvas 10']);
+    expect(order('name')).toEqual(['Alpha', 'canvas 2', 'Canvas 10']);
+    expect(order('created')).toEqual(['canvas 2', 'Canvas 10', 'Alpha']);
+    expect(order('size')).toEqual(['Canvas 10', 'canvas 2', 'Alpha']);
+    // Files without tile sets sort by category ("angular").
+    expect(order('tileSet')).toEqual(['Canvas 10', 'canvas 2', 'Alpha']);
+  });
+
+  it('reads the creation time from the id of older files', () => {
+    expect(getFileCreatedAt(files[0])).toBe(300);
+    expect(getFileCreatedAt(makeFile('imported', { updatedAt: 8 }))).toBe(8);
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Tests for per-file version history (utils/file-snapshots.ts).
+ */
+jest.mock('@/assets/images/tiles/manifest', () => ({
+  TILE_CATEGORIES: ['angular', 'curved'],
+  TILE_MANIFEST: { angular: [], curved: [] },
+}));
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import type { TileFile } from '@/hooks/use-tile-files';
+import {
+  AUTO_SNAPSHOT_INTERVAL_MS,
+  deleteFileSnapshot,
+  getSnapshotKey,
+  listFileSnapshots,
+  MAX_AUTO_SNAPSHOT_AGE_MS,
+  MAX_AUTO_SNAPSHOTS,
+  MAX_NAMED_SNAPSHOTS,
+  planSnapshotAdd,
+  pruneSnapshots,
+  readFileSnapshot,
+  recordFileSnapshot,
+  removeAllFileSnapshots,
+  removeFileSnapshots,
+  type FileSnapshot,
+} from '../file-snapshots';
+
+const makeFile = (id: string, imageIndex = 0): TileFile => ({
+  id,
+  name: `File ${id}`,
+  tiles: [
+    { imageIndex, rotation: 90, mirrorX: false, mirrorY: false },
+    { imageIndex: -1, rotation: 0, mirrorX: false, mirrorY: false },
+  ],
+  grid: { rows: 1, columns: 2 },
+  layers: { 2: [{ imageIndex: 0, rotation: 0, mirrorX: true, mirrorY: false }] },
+  category: 'angular',
+  categories: ['angular'],
+  tileSetIds: [],
+  sourceNames: ['a.svg'],
+  preferredTileSize: 45,
+  lineWidth: 4,
+  lineColor: '#ffffff',
+  thumbnailUri: null,
+  previewUri: null,
+  updatedAt: 1,
+  seed: 7,
+});
+
+const auto = (id: string, createdAt: number): FileSnapshot => ({ id, createdAt, name: null });
+const named = (id: string, createdAt: number): FileSnapshot => ({ id, createdAt, name: id });
+
+beforeEach(async () => {
+  await removeAllFileSnapshots();
+  await AsyncStorage.clear();
+});
+
+describe('planSnapshotAdd / pruneSnapshots', () => {
+  it('folds auto snapshots within the interval into one entry', () => {
+    const list = [auto('a', 1000), named('n', 500)];
+    const plan = planSnapshotAdd(list, auto('b', 1000 + AUTO_SNAPSHOT_INTERVAL_MS - 1), 2000);
+    expect(plan.list.map((entry) => entry.id)).toEqual(['b', 'n']);
+    expect(plan.removed).toEqual(['a']);
+
+    const later = planSnapshotAdd(list, auto('c', 1000 + AUTO_SNAPSHOT_INTERVAL_MS), 2000);
+    expect(later.list.map((entry) => entry.id)).toEqual(['c', 'a', 'n']);
+    expect(planSnapshotAdd(list, named('m', 1001), 2000).list).toHaveLength(3);
+  });
+
+  it('caps auto snapshots by count and age and checkpoints by count', () => {
+    const now = MAX_AUTO_SNAPSHOT_AGE_MS * 2;
+    const autos = Array.from({ length: MAX_AUTO_SNAPSHOTS + 2 }, (_, i) => auto(`a${i}`, now - i));
+    const checkpoints = Array.from({ length: MAX_NAMED_SNAPSHOTS + 1 }, (_, i) => named(`n${i}`, 0));
+    const old = auto('old', now - MAX_AUTO_SNAPSHOT_AGE_MS - 1);
+    const plan = pruneSnapshots([old, ...autos, ...checkpoints], now);
+    expect(plan.removed).toEqual([
+      'old',
+      `a${MAX_AUTO_SNAPSHOTS}`,
+      `a${MAX_AUTO_SNAPSHOTS + 1}`,
+      `n${MAX_NAMED_SNAPSHOTS}`,
+    ]);
+  });
+});
+
+describe('recorded snapshots', () => {
+  it('stores snapshots apart from the file and reads them back as payloads', async () => {
+    const file = makeFile('f');
+    const entry = await recordFileSnapshot(file, 'First', 1000);
+    expect(entry).toMatchObject({ createdAt: 1000, name: 'First' });
+    expect(await listFileSnapshots('f')).toEqual([entry]);
+    const result = await readFileSnapshot('f', entry!.id);
+    expect(result.ok && result.payload).toMatchObject({
+      name: 'File f',
+      tiles: file.tiles,
+      layers: { 2: file.layers![2] },
+      seed: 7,
+    });
+    expect(await readFileSnapshot('f', 'missing')).toEqual({ ok: false, error: 'Snapshot not found' });
+  });
+
+  it('skips auto snapshots of unchanged files and replaces recent ones', async () => {
+    await recordFileSnapshot(makeFile('f'), null, 1000);
+    expect(await recordFileSnapshot(makeFile('f'), null, 2000)).toBeNull();
+    const replaced = await recordFileSnapshot(makeFile('f', 1), null, 3000);
+    expect(await listFileSnapshots('f')).toEqual([replaced]);
+    const keys = await AsyncStorage.getAllKeys();
+    expect(keys.filter((key) => key.startsWith(getSnapshotKey('f', '')))).toEqual([
+      getSnapshotKey('f', replaced!.id),
+    ]);
+    // A checkpoint is recorded even when nothing changed.
+    expect(await recordFileSnapshot(makeFile('f', 1), 'Same', 4000)).not.toBeNull();
+  });
+
+  it('deletes one snapshot, one file history or every history', async () => {
+    const first = await recordFileSnapshot(makeFile('f'), 'A', 1000);
+    const second = await recordFileSnapshot(makeFile('f'), 'B', 2000);
+    await recordFileSnapshot(makeFile('g'), 'C', 3000);
+    await deleteFileSnapshot('f', second!.id);
+    expect(await listFileSnapshots('f')).toEqual([first]);
+
+    await removeFileSnapshots('f');
+    expect(await listFileSnapshots('f')).toEqual([]);
+    expect(await listFileSnapshots('g')).toHaveLength(1);
+
+    await AsyncStorage.setItem('tile-settings-v1', '{}');
+    await removeAllFileSnapshots();
+    expect(await AsyncStorage.getAllKeys()).toEqual(['tile-settings-v1']);
+  });
+});
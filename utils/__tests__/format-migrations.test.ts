@@ -0,0 +1,121 @@
+/**
+ * Tests for the format migration registry (utils/format-migrations.ts).
+ */
+jest.mock('@/assets/images/tiles/manifest', () => ({
+  TILE_CATEGORIES: ['angular'],
+  TILE_MANIFEST: { angular: [] },
+}));
+
+import {
+  FORMAT_MIGRATIONS,
+  getMissingMigrationSteps,
+  migrateFormat,
+  migrateToCurrent,
+  type FormatRegistry,
+} from '../format-migrations';
+import { deserializeBundle } from '../tile-bundle-format';
+import { deserializeTileFile } from '../tile-format';
+import { deserializePattern, deserializeTileSet } from '../tile-ugc-format';
+
+// v1 stored a flat `size`; v2 split it into a grid; v3 added a seed.
+const registry: FormatRegistry = {
+  currentVersion: 3,
+  steps: {
+    1: ({ size, ...rest }) => ({ ...rest, grid: { rows: size, columns: size } }),
+    2: (data) => ({ ...data, seed: 0 }),
+  },
+};
+
+describe('migrateToCurrent', () => {
+  it('applies every step in order from the stored version', () => {
+    const result = migrateToCurrent({ v: 1, name: 'a', size: 2 }, registry);
+    expect(result).toEqual({
+      ok: true,
+      fromVersion: 1,
+      data: { v: 3, name: 'a', grid: { rows: 2, columns: 2 }, seed: 0 },
+    });
+  });
+
+  it('starts from an intermediate version', () => {
+    const result = migrateToCurrent({ v: 2, grid: { rows: 1, columns: 1 } }, registry);
+    expect(result.ok && result.data).toEqual({ v: 3, grid: { rows: 1, columns: 1 }, seed: 0 });
+  });
+
+  it('passes current data through unchanged', () => {
+    const data = { v: 3, seed: 5 };
+    expect(migrateToCurrent(data, registry)).toEqual({ ok: true, fromVersion: 3, data });
+  });
+
+  it('does not modify the input', () => {
+    const data = { v: 1, size: 2 };
+    migrateToCurrent(data, registry);
+    expect(data).toEqual({ v: 1, size: 2 });
+  });
+
+  it('rejects missing, invalid and newer versions', () => {
+    expect(migrateToCurrent({}, registry).ok).toBe(false);
+    expect(migrateToCurrent({ v: 0 }, registry).ok).toBe(false);
+    expect(migrateToCurrent({ v: 1.5 }, registry).ok).toBe(false);
+    expect(migrateToCurrent({ v: 4 }, registry).ok).toBe(false);
+  });
+
+  it('rejects a version with no registered step', () => {
+    const gap: FormatRegistry = { currentVersion: 3, steps: { 2: registry.steps[2] } };
+    expect(getMissingMigrationSteps(gap)).toEqual([1]);
+    expect(migrateToCurrent({ v: 1 }, gap)).toEqual({
+      ok: false,
+      error: 'No migration from version 1',
+    });
+  });
+});
+
+describe('FORMAT_MIGRATIONS', () => {
+  it('can read every earlier version of every format', () => {
+    for (const kind of Object.keys(FORMAT_MIGRATIONS) as (keyof typeof FORMAT_MIGRATIONS)[]) {
+      expect({ kind, missing: getMissingMigrationSteps(FORMAT_MIGRATIONS[kind]) }).toEqual({
+        kind,
+        missing: [],
+      });
+    }
+  });
+
+  it('reads version 1 of every format', () => {
+    expect(migrateFormat('tile', { v: 1 }).ok).toBe(true);
+    expect(migrateFormat('tileSet', { v: 1 }).ok).toBe(true);
+    expect(migrateFormat('pattern', { v: 1 }).ok).toBe(true);
+    expect(migrateFormat('bundle', { v: 1 }).ok).toBe(true);
+  });
+
+  it('upgrades v1 .tile data to v2 without changing it', () => {
+    const tiles = [{ imageIndex: 0, rotation: 90, mirrorX: false, mirrorY: false }];
+    expect(migrateFormat('tile', { v: 1, tiles, layers: { 2: tiles } })).toEqual({
+      ok: true,
+      fromVersion: 1,
+      data: { v: 2, tiles, layers: { 2: tiles } },
+    });
+  });
+});
+
+describe('deserializers', () => {
+  const newer = (kind: keyof typeof FORMAT_MIGRATIONS) => FORMAT_MIGRATIONS[kind].currentVersion + 1;
+
+  it('reject files newer than the app understands', () => {
+    const grid = { rows: 1, columns: 1 };
+    expect(deserializeTileFile(JSON.stringify({ v: newer('tile'), grid, tiles: [] })).ok).toBe(false);
+    expect(deserializeTileSet(JSON.stringify({ kind: 'tileSet', v: newer('tileSet') })).ok).toBe(false);
+    expect(deserializePattern(JSON.stringify({ kind: 'pattern', v: newer('pattern') })).ok).toBe(false);
+  });
+
+  it('reject a bundle whose embedded tile set is newer than the app understands', () => {
+    const bundle = {
+      kind: 'fileBundle',
+      v: FORMAT_MIGRATIONS.bundle.currentVersion,
+      tileSets: [{ setId: 's', payload: { kind: 'tileSet', v: newer('tileSet') } }],
+      file: { v: FORMAT_MIGRATIONS.tile.currentVersion },
+    };
+    expect(deserializeBundle(JSON.stringify(bundle))).toEqual({
+      ok: false,
+      error: 'Unsupported version in bundle',
+    });
+  });
+});
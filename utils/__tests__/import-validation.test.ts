@@ -0,0 +1,210 @@
+/**
+ * Tests for strict import validation (utils/import-validation.ts).
+ */
+jest.mock('@/assets/images/tiles/manifest', () => ({
+  TILE_CATEGORIES: ['angular', 'curved'],
+  TILE_MANIFEST: { angular: [], curved: [] },
+}));
+
+import {
+  formatImportIssue,
+  formatImportIssues,
+  hasFatalIssues,
+  validateImportText,
+  type ImportIssue,
+} from '../import-validation';
+import { serializeFileBundle, serializePatternBundle } from '../tile-bundle-format';
+import { deserializeTileFile, serializeTileFile } from '../tile-format';
+import type { Tile } from '../tile-grid';
+import { deserializeTileSet } from '../tile-ugc-format';
+
+const tile = (imageIndex: number, rotation = 0): Tile => ({
+  imageIndex,
+  rotation,
+  mirrorX: false,
+  mirrorY: false,
+});
+
+const file = {
+  name: 'Demo',
+  grid: { rows: 2, columns: 2 },
+  tiles: [tile(0), tile(0, 90), tile(-1), tile(0, 270)],
+  preferredTileSize: 45,
+  lineWidth: 4,
+  lineColor: '#ff0000',
+  sourceNames: ['tile_00000000.svg'],
+  tileSetIds: [],
+  category: 'angular' as const,
+  categories: ['angular' as const],
+};
+
+const lines = (issues: ImportIssue[]) =>
+  issues.map((issue) => `${issue.severity}: ${formatImportIssue(issue)}`);
+
+describe('validateImportText', () => {
+  it('reports nothing for files the app writes, in every encoding', () => {
+    for (const encoding of ['json', 'packed', 'deflated'] as const) {
+      expect(validateImportText(serializeTileFile(file, { encoding }), 'file')).toEqual({
+        kind: 'file',
+        issues: [],
+      });
+    }
+  });
+
+  it('lists every tile problem with its path', () => {
+    const data = JSON.parse(serializeTileFile(file));
+    data.tiles[0].rotation = 45;
+    data.tiles[1].imageIndex = 'x';
+    data.tiles[2] = null;
+    data.tiles[3].mirrorX = 'yes';
+    data.layers = { 2: [{ imageIndex: 0, rotation: 90.5 }], 1: [] };
+    expect(lines(validateImportText(JSON.stringify(data), 'file').issues)).toEqual([
+      'fatal: tiles[0].rotation must be a multiple of 90',
+      'repaired: tiles[1].imageIndex must be a whole number; the cell will be empty',
+      'repaired: tiles[2] must be a tile object; dropped, so the following tiles move back one cell',
+      'repaired: tiles[3].mirrorX must be true or false; using false',
+      'repaired: layers.1 is not a layer of 2 or above; ignored',
+      'repaired: layers.2[0].rotation must be a whole number; using 0',
+    ]);
+  });
+
+  it('reports settings the deserializer replaces, matching what it uses', () => {
+    const data = {
+      ...JSON.parse(serializeTileFile(file)),
+      tiles: [tile(0)],
+      lineWidth: -1,
+      category: 'nope',
+      sourceNames: ['a.svg', 3],
+      lockedCells: [0, 9],
+      layerVisibility: { 1: 'no' },
+    };
+    const report = validateImportText(JSON.stringify(data), 'file');
+    expect(hasFatalIssues(report)).toBe(false);
+    expect(report.issues.map(formatImportIssue)).toEqual([
+      'tiles has 1 entries for 4 cells; the remaining 3 will be empty',
+      'lineWidth must be a number of at least 0; using 10',
+      'sourceNames[1] must be a string; dropped, so the following names move down one index',
+      'category is not a known tile category; using "angular"',
+      'lockedCells[1] must be a cell index from 0 to 3; dropped',
+      'layerVisibility.1 must be true or false; ignored',
+    ]);
+    const result = deserializeTileFile(JSON.stringify(data));
+    expect(result.ok && result.payload).toMatchObject({
+      lineWidth: 10,
+      category: 'angular',
+      sourceNames: ['a.svg'],
+      lockedCells: [0],
+    });
+  });
+
+  it('makes what the deserializer rejects fatal', () => {
+    expect(validateImportText('nope', 'file').issues).toEqual([
+      { path: '', message: 'Not valid JSON', severity: 'fatal' },
+    ]);
+    expect(lines(validateImportText('{"v":9,"grid":{"rows":1,"columns":1}}', 'file').issues)).toEqual([
+      'fatal: v 9 is newer than this app can read (2)',
+    ]);
+    expect(lines(validateImportText('{"v":1,"grid":{"rows":"2","columns":1.5}}', 'file').issues)).toEqual([
+      'fatal: grid.rows must be a number',
+      'fatal: grid.columns must be a whole number of at least 0',
+    ]);
+    expect(lines(validateImportText('{"v":1,"tiles":{"palette":[],"cells":"zz"},"grid":{"rows":1,"columns":1}}', 'file').issues)).toEqual([
+      'fatal: tiles has malformed packed tile data',
+    ]);
+    expect(validateImportText('{"kind":"pattern","v":1}', 'file')).toEqual({
+      kind: null,
+      issues: [
+        { path: 'kind', message: 'is "pattern"; expected a .tile file or "fileBundle"', severity: 'fatal' },
+      ],
+    });
+  });
+
+  it('validates tile sets and their tiles', () => {
+    const set = {
+      kind: 'tileSet',
+      v: 1,
+      name: 'Set',
+      category: 'angular',
+      resolution: 12,
+      tiles: [
+        { id: 't1', name: 'A', grid: { rows: 1, columns: 1 }, tiles: [tile(0, 180)] },
+        { id: 't2', name: 'B', grid: { rows: 0, columns: 0 }, tiles: [], svg: '<svg viewBox="0 0 1 1"></svg>', connections: '12' },
+        'junk',
+      ],
+    };
+    expect(lines(validateImportText(JSON.stringify(set), 'tileSet').issues)).toEqual([
+      'repaired: resolution must be from 2 to 8; using 4',
+      'repaired: tiles[1].connections must be 8 digits of 0 or 1; using "00000000"',
+      'repaired: tiles[2] must be a tile object; dropped',
+    ]);
+    const result = deserializeTileSet(JSON.stringify(set));
+    expect(result.ok && result.payload.tiles.map((t) => t.connections)).toEqual([undefined, '00000000']);
+    expect(lines(validateImportText(JSON.stringify({ ...set, kind: 'pattern' }), 'tileSet').issues)).toEqual([
+      'fatal: kind is "pattern"; expected "tileSet"',
+    ]);
+  });
+
+  it('validates patterns and their layer tiles', () => {
+    const pattern = {
+      kind: 'pattern',
+      v: 1,
+      name: 'P',
+      category: 'angular',
+      width: 2,
+      height: 1,
+      tiles: [tile(0), tile(0, 30)],
+      createdAt: 1,
+      layerTiles: { 2: { width: 1, height: 1, tiles: [] }, 3: { width: 0, height: 1 } },
+    };
+    expect(lines(validateImportText(JSON.stringify(pattern), 'pattern').issues)).toEqual([
+      'fatal: tiles[1].rotation must be a multiple of 90',
+      'repaired: layerTiles.2.tiles has 0 entries for 1 cell; the remaining 1 will be empty',
+      'repaired: layerTiles.3 needs a positive width and height; ignored',
+    ]);
+  });
+
+  it('prefixes bundle members with their path', () => {
+    const tileSet = {
+      id: 'set-1',
+      name: 'S',
+      category: 'angular' as const,
+      categories: ['angular' as const],
+      resolution: 2,
+      lineWidth: 3,
+      lineColor: '#ffffff',
+      tiles: [],
+      updatedAt: 1,
+    };
+    const fileBundle = JSON.parse(
+      serializeFileBundle({ ...file, tileSetIds: ['set-1'] }, new Map([['set-1', tileSet]]))
+    );
+    expect(validateImportText(JSON.stringify(fileBundle), 'file')).toEqual({ kind: 'fileBundle', issues: [] });
+    fileBundle.file.tiles[2].rotation = 10;
+    fileBundle.tileSets[0].payload.lineColor = '';
+    fileBundle.tileSets.push({ payload: {} });
+    expect(lines(validateImportText(JSON.stringify(fileBundle), 'file').issues)).toEqual([
+      'repaired: tileSets[0].payload.lineColor must be a non-empty string; using #ffffff',
+      'fatal: tileSets[1].setId must be a string',
+      'fatal: tileSets[1].payload.v must be a format version number',
+      'fatal: file.tiles[2].rotation must be a multiple of 90',
+    ]);
+    const patternBundle = serializePatternBundle(
+      { name: 'P', category: 'angular', width: 1, height: 1, tiles: [tile(0)], createdAt: 1 },
+      new Map()
+    );
+    expect(validateImportText(patternBundle, 'pattern')).toEqual({ kind: 'patternBundle', issues: [] });
+  });
+});
+
+describe('formatImportIssues', () => {
+  it('caps the list and counts the rest', () => {
+    const issues: ImportIssue[] = [1, 2, 3].map((i) => ({
+      path: `tiles[${i}]`,
+      message: 'must be a tile object',
+      severity: 'repaired',
+    }));
+    expect(formatImportIssues(issues, 2)).toBe(
+      '• tiles[1] must be a tile object\n• tiles[2] must be a tile object\n…and 1 more'
+    );
+  });
+});
@@ -0,0 +1,311 @@
+/**
+ * Tests for the library backup archive and restore merge (utils/library-backup.ts).
+ */
+jest.mock('@/assets/images/tiles/manifest', () => ({
+  TILE_CATEGORIES: ['angular', 'curved'],
+  TILE_MANIFEST: { angular: [], curved: [] },
+}));
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import JSZip from 'jszip';
+
+import type { TileFile } from '@/hooks/use-tile-files';
+import type { TilePattern } from '@/hooks/use-tile-patterns';
+import type { TileSet } from '@/hooks/use-tile-sets';
+import type { FileFolder } from '@/utils/file-browser';
+import { getSnapshotKey, getSnapshotListKey } from '@/utils/file-snapshots';
+import {
+  createLibraryBackupZip,
+  findLibraryConflicts,
+  readLibraryBackupZip,
+  restoreLibrary,
+  writeLibraryToStorage,
+  type LibraryContents,
+} from '../library-backup';
+import { getFileBodyKey, readFileIndex } from '../tile-file-storage';
+import type { Tile } from '../tile-grid';
+
+const tile = (imageIndex: number, name?: string): Tile => ({
+  imageIndex,
+  rotation: 0,
+  mirrorX: false,
+  mirrorY: false,
+  ...(name && { name }),
+});
+
+const tileSet: TileSet = {
+  id: 'set-1',
+  name: 'Set',
+  category: 'angular',
+  categories: ['angular'],
+  resolution: 2,
+  lineWidth: 3,
+  lineColor: '#ffffff',
+  tiles: [
+    {
+      id: 'tile-1',
+      name: 'A',
+      tiles: [tile(0), tile(0), tile(-1), tile(0)],
+      grid: { rows: 2, columns: 2 },
+      preferredTileSize: 45,
+      thumbnailUri: null,
+      previewUri: null,
+      updatedAt: 5,
+    },
+  ],
+  updatedAt: 6,
+};
+
+const ugcName = 'set-1:tile-1_5_10000000.svg';
+
+const file: TileFile = {
+  id: 'file-1',
+  name: 'My canvas',
+  tiles: [tile(0, ugcName), tile(-1), tile(-1), tile(0, ugcName)],
+  grid: { rows: 2, columns: 2 },
+  layers: { 2: [tile(0, ugcName)] },
+  category: 'angular',
+  categories: ['angular'],
+  tileSetIds: ['set-1'],
+  sourceNames: [ugcName],
+  preferredTileSize: 45,
+  lineWidth: 4,
+  lineColor: '#ff0000',
+  thumbnailUri: 'data:image/png;base64,x',
+  previewUri: null,
+  updatedAt: 7,
+  createdAt: 2,
+  folderId: 'folder-1',
+  tags: ['blue', 'wip'],
+  lockedCells: [1],
+  layerVisibility: { 2: false },
+  seed: 42,
+};
+
+const pattern: TilePattern = {
+  id: 'pattern-1',
+  name: 'P',
+  category: 'angular',
+  width: 1,
+  height: 1,
+  tiles: [tile(0, ugcName)],
+  tileSetIds: ['set-1'],
+  createdAt: 8,
+};
+
+const folder: FileFolder = { id: 'folder-1', name: 'Work', parentId: null, createdAt: 3 };
+
+const library: LibraryContents = {
+  files: [file],
+  folders: [folder],
+  tileSets: [tileSet],
+  patterns: [pattern],
+  favorites: { favorites: { 'a.svg': '#f59e0b' }, lastColor: '#000000' },
+  settings: { showDebug: true },
+};
+
+const emptyLibrary: LibraryContents = {
+  files: [],
+  folders: [],
+  tileSets: [],
+  patterns: [],
+  favorites: null,
+  settings: null,
+};
+
+const roundTrip = async (contents: LibraryContents) => {
+  const data = await createLibraryBackupZip(contents, 100).generateAsync({ type: 'uint8array' });
+  return readLibraryBackupZip(data);
+};
+
+describe('library backup archive', () => {
+  it('lists every entry in the manifest', async () => {
+    const zip = createLibraryBackupZip(library, 100);
+    const manifest = JSON.parse(await zip.file('manifest.json')!.async('string'));
+    expect(manifest).toEqual({
+      kind: 'libraryBackup',
+      v: 1,
+      createdAt: 100,
+      files: [
+        {
+          id: 'file-1',
+          name: 'My canvas',
+          path: 'files/My_canvas_1.tile',
+          updatedAt: 7,
+          createdAt: 2,
+          folderId: 'folder-1',
+          tags: ['blue', 'wip'],
+        },
+      ],
+      folders: [folder],
+      tileSets: [{ id: 'set-1', name: 'Set', path: 'tilesets/Set_1.tileset', updatedAt: 6 }],
+      patterns: [{ id: 'pattern-1', name: 'P', path: 'patterns/P_1.tilepattern', tileSetIds: ['set-1'] }],
+      favorites: 'favorites.json',
+      settings: 'settings.json',
+    });
+    const bundle = JSON.parse(await zip.file('files/My_canvas_1.tile')!.async('string'));
+    expect(bundle.kind).toBe('fileBundle');
+    expect(bundle.tileSets.map((entry: { setId: string }) => entry.setId)).toEqual(['set-1']);
+    expect(bundle.file.layers).toEqual({ 2: [tile(0, ugcName)] });
+  });
+
+  it('restores files, tile sets, patterns and records with their ids', async () => {
+    const result = await roundTrip(library);
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.createdAt).toBe(100);
+    expect(result.skipped).toEqual([]);
+    expect(result.library.files).toEqual([
+      { ...file, thumbnailUri: null },
+    ]);
+    expect(result.library.folders).toEqual([folder]);
+    expect(result.library.tileSets).toEqual([tileSet]);
+    expect(result.library.patterns).toEqual([pattern]);
+    expect(result.library.favorites).toEqual(library.favorites);
+    expect(result.library.settings).toEqual(library.settings);
+  });
+
+  it('skips unreadable entries and rejects archives without a manifest', async () => {
+    const zip = createLibraryBackupZip(library, 100);
+    zip.file('patterns/P_1.tilepattern', 'not json');
+    const result = await readLibraryBackupZip(await zip.generateAsync({ type: 'uint8array' }));
+    expect(result.ok && result.skipped).toEqual(['patterns/P_1.tilepattern']);
+    expect(result.ok && result.library.patterns).toEqual([]);
+
+    const other = new JSZip();
+    other.file('a.txt', 'x');
+    expect(await readLibraryBackupZip(await other.generateAsync({ type: 'uint8array' }))).toEqual({
+      ok: false,
+      error: 'Not a library backup (no manifest.json)',
+    });
+    expect(await readLibraryBackupZip('nope')).toEqual({ ok: false, error: 'Not a ZIP archive' });
+  });
+
+  it('restores tile sets that are only embedded in file bundles', async () => {
+    const zip = createLibraryBackupZip(library, 100);
+    const manifest = JSON.parse(await zip.file('manifest.json')!.async('string'));
+    zip.file('manifest.json', JSON.stringify({ ...manifest, tileSets: [] }));
+    const result = await readLibraryBackupZip(await zip.generateAsync({ type: 'uint8array' }));
+    expect(result.ok && result.library.tileSets.map((set) => set.id)).toEqual(['set-1']);
+    expect(result.ok && result.library.tileSets[0].tiles[0].updatedAt).toBe(5);
+  });
+});
+
+describe('restoreLibrary', () => {
+  const edited: LibraryContents = {
+    ...library,
+    files: [{ ...file, name: 'Edited' }, { ...file, id: 'file-2' }],
+    favorites: { favorites: { 'a.svg': '#ffffff', 'b.svg': '#000000' } },
+    settings: { showDebug: false },
+  };
+
+  it('reports only ids whose contents differ', () => {
+    expect(findLibraryConflicts(library, edited)).toEqual({
+      files: ['file-1'],
+      tileSets: [],
+      patterns: [],
+    });
+  });
+
+  it('replaces the library with the backup', () => {
+    expect(restoreLibrary(library, emptyLibrary, 'replace')).toBe(emptyLibrary);
+  });
+
+  it('merges by id following the conflict policy', () => {
+    const keep = restoreLibrary(library, edited, 'merge', 'keepCurrent');
+    expect(keep.files.map((f) => [f.id, f.name])).toEqual([
+      ['file-1', 'My canvas'],
+      ['file-2', 'My canvas'],
+    ]);
+    expect(keep.tileSets).toEqual([tileSet]);
+    expect(keep.settings).toEqual({ showDebug: true });
+    expect(keep.favorites).toMatchObject({
+      favorites: { 'a.svg': '#f59e0b', 'b.svg': '#000000' },
+    });
+
+    const useBackup = restoreLibrary(library, edited, 'merge', 'useBackup');
+    expect(useBackup.files.map((f) => f.name)).toEqual(['Edited', 'My canvas']);
+    expect(useBackup.settings).toEqual({ showDebug: false });
+    expect(useBackup.favorites).toMatchObject({ favorites: { 'a.svg': '#ffffff' } });
+
+    const both = restoreLibrary(library, edited, 'merge', 'keepBoth');
+    expect(both.files.map((f) => f.name)).toEqual(['My canvas', 'Edited', 'My canvas']);
+    expect(both.files[1].id).toMatch(/^file-/);
+    expect(both.files[1].id).not.toBe('file-1');
+  });
+
+  it('merges folders by id without keeping one twice', () => {
+    const backup = {
+      ...library,
+      folders: [{ ...folder, name: 'Renamed' }, { ...folder, id: 'folder-2', parentId: 'folder-1' }],
+    };
+    const keep = restoreLibrary(library, backup, 'merge', 'keepBoth');
+    expect(keep.folders.map((f) => [f.id, f.name])).toEqual([
+      ['folder-1', 'Work'],
+      ['folder-2', 'Work'],
+    ]);
+    const useBackup = restoreLibrary(library, backup, 'merge', 'useBackup');
+    expect(useBackup.folders[0].name).toBe('Renamed');
+  });
+
+  it('points backup files and patterns at a tile set kept under a new id', () => {
+    const changedSet = { ...tileSet, name: 'Changed' };
+    const backup = { ...library, files: [{ ...file, id: 'file-2' }], tileSets: [changedSet] };
+    const merged = restoreLibrary(library, backup, 'merge', 'keepBoth');
+    const newSetId = merged.tileSets[1].id;
+    expect(newSetId).not.toBe('set-1');
+    const restored = merged.files[1];
+    expect(restored.tileSetIds).toEqual([newSetId]);
+    expect(restored.sourceNames).toEqual([`${newSetId}:tile-1_5_10000000.svg`]);
+    expect(restored.layers![2][0].name).toBe(`${newSetId}:tile-1_5_10000000.svg`);
+    // The backup's pattern now differs (it uses the backup's set), so both are kept.
+    expect(merged.patterns).toHaveLength(2);
+    expect(merged.patterns[1].tileSetIds).toEqual([newSetId]);
+    expect(merged.patterns[1].tiles[0].name).toBe(`${newSetId}:tile-1_5_10000000.svg`);
+  });
+});
+
+describe('writeLibraryToStorage', () => {
+  it('replaces the stored library', async () => {
+    await AsyncStorage.clear();
+    await AsyncStorage.setItem('tile-settings-v1', '{"showDebug":false}');
+    await writeLibraryToStorage({ ...library, settings: null });
+    const index = await readFileIndex();
+    expect(index!.records.map((record) => record.id)).toEqual(['file-1']);
+    expect(JSON.parse((await AsyncStorage.getItem('tile-file-folders-v1'))!)).toEqual([folder]);
+    expect(JSON.parse((await AsyncStorage.getItem('tile-sets-v1'))!)).toEqual([tileSet]);
+    expect(JSON.parse((await AsyncStorage.getItem('tile-patterns-v1'))!)).toEqual([pattern]);
+    expect(await AsyncStorage.getItem('tile-settings-v1')).toBeNull();
+  });
+
+  it('keeps the stored library when a write fails part-way', async () => {
+    await AsyncStorage.clear();
+    await writeLibraryToStorage({ ...library, files: [{ ...file, id: 'file-0' }] });
+    jest.mocked(AsyncStorage.multiSet).mockImplementationOnce(async (pairs) => {
+      await AsyncStorage.setItem(pairs[0][0], pairs[0][1]);
+      throw new Error('Storage full');
+    });
+    await expect(writeLibraryToStorage({ ...library, tileSets: [] })).rejects.toThrow('Storage full');
+    const index = await readFileIndex();
+    expect(index!.records.map((record) => record.id)).toEqual(['file-0']);
+    expect(await AsyncStorage.getItem(getFileBodyKey('file-0'))).not.toBeNull();
+    expect(JSON.parse((await AsyncStorage.getItem('tile-sets-v1'))!)).toEqual([tileSet]);
+  });
+
+  it('removes the records and history of files the library no longer has', async () => {
+    await AsyncStorage.clear();
+    await writeLibraryToStorage({ ...library, files: [{ ...file, id: 'file-0' }, file] });
+    await AsyncStorage.multiSet([
+      [getSnapshotListKey('file-0'), '[]'],
+      [getSnapshotKey('file-0', 'snap-1'), '{}'],
+      [getSnapshotListKey('file-1'), '[]'],
+    ]);
+    await writeLibraryToStorage(library);
+    const keys = await AsyncStorage.getAllKeys();
+    expect(keys.filter((key) => key.includes('file-0'))).toEqual([]);
+    expect(keys).toEqual(expect.arrayContaining([getFileBodyKey('file-1'), getSnapshotListKey('file-1')]));
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Tests for print PDF layout (utils/pdf-print.ts).
+ */
+import {
+  computePdfPrintLayout,
+  DEFAULT_PDF_PRINT_OPTIONS,
+  getCropMarkLines,
+  getPdfPageDimensions,
+  getSvgPixelSize,
+  type PdfPrintOptions,
+} from '../pdf-print';
+
+const options = (overrides: Partial<PdfPrintOptions>): PdfPrintOptions => ({
+  ...DEFAULT_PDF_PRINT_OPTIONS,
+  ...overrides,
+});
+
+describe('getPdfPageDimensions', () => {
+  it('swaps width and height for landscape', () => {
+    expect(getPdfPageDimensions('a4', 'portrait')).toEqual({ width: 210, height: 297 });
+    expect(getPdfPageDimensions('a4', 'landscape')).toEqual({ width: 297, height: 210 });
+  });
+});
+
+describe('computePdfPrintLayout', () => {
+  it('centres a design at the physical cell size on one page', () => {
+    // 8 × 10 cells of 45 px at 2 cm per cell = 16 × 20 cm.
+    const result = computePdfPrintLayout({ widthPx: 360, heightPx: 450, tileSizePx: 45 }, options({}));
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.layout.designWidthMm).toBeCloseTo(160);
+    expect(result.layout.designHeightMm).toBeCloseTo(200);
+    expect(result.layout.pages).toHaveLength(1);
+    const [page] = result.layout.pages;
+    expect(page.trim.x).toBeCloseTo(25);
+    expect(page.trim.y).toBeCloseTo(48.5);
+    expect(page.design).toEqual(page.trim);
+  });
+
+  it('sizes the design from the DPI', () => {
+    const result = computePdfPrintLayout(
+      { widthPx: 300, heightPx: 150, tileSizePx: 50 },
+      options({ scale: { mode: 'dpi', dpi: 300 } })
+    );
+    expect(result.ok && result.layout.designWidthMm).toBeCloseTo(25.4);
+    expect(result.ok && result.layout.designHeightMm).toBeCloseTo(12.7);
+  });
+
+  it('fits the design inside the margins', () => {
+    const result = computePdfPrintLayout(
+      { widthPx: 1000, heightPx: 500, tileSizePx: 50 },
+      options({ scale: { mode: 'fit' }, orientation: 'landscape', posterTiling: true })
+    );
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.layout.designWidthMm).toBeCloseTo(277);
+    expect(result.layout.pages).toHaveLength(1);
+  });
+
+  it('refuses a design larger than the page without poster tiling', () => {
+    const result = computePdfPrintLayout({ widthPx: 450, heightPx: 450, tileSizePx: 45 }, options({}));
+    expect(result).toEqual({
+      ok: false,
+      error:
+        'The design is 20 × 20 cm, larger than the 19 × 27.7 cm printable area. Use poster tiling, a larger page or a smaller tile size.',
+    });
+  });
+
+  it('tiles a large design across pages that butt together', () => {
+    // 40 × 30 cm on A4 portrait with 10 mm margins (19 × 27.7 cm printable).
+    const result = computePdfPrintLayout(
+      { widthPx: 800, heightPx: 600, tileSizePx: 40 },
+      options({ posterTiling: true })
+    );
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    const { layout } = result;
+    expect([layout.rows, layout.columns]).toEqual([2, 3]);
+    expect(layout.pages).toHaveLength(6);
+    const last = layout.pages[5];
+    expect([last.row, last.column]).toEqual([1, 2]);
+    expect(last.trim.x).toBe(10);
+    expect(last.trim.width).toBeCloseTo(400 - 2 * 190);
+    expect(last.trim.height).toBeCloseTo(300 - 277);
+    expect(last.design.x).toBeCloseTo(10 - 380);
+    expect(last.design.y).toBeCloseTo(10 - 277);
+    const widths = layout.pages.filter((p) => p.row === 0).map((p) => p.trim.width);
+    expect(widths.reduce((sum, w) => sum + w, 0)).toBeCloseTo(400);
+  });
+
+  it('does not add a page for a design that exactly fills the printable area', () => {
+    const result = computePdfPrintLayout(
+      { widthPx: 190, heightPx: 277, tileSizePx: 10 },
+      options({ scale: { mode: 'cell', cellSizeMm: 10 }, posterTiling: true })
+    );
+    expect(result.ok && result.layout.pages).toHaveLength(1);
+  });
+
+  it('limits the number of poster pages', () => {
+    const result = computePdfPrintLayout(
+      { widthPx: 4500, heightPx: 4500, tileSizePx: 45 },
+      options({ posterTiling: true, scale: { mode: 'cell', cellSizeMm: 50 } })
+    );
+    expect(result.ok).toBe(false);
+  });
+
+  it('rejects a bleed wider than the margin', () => {
+    const result = computePdfPrintLayout(
+      { widthPx: 100, heightPx: 100, tileSizePx: 10 },
+      options({ marginMm: 5, bleedMm: 10 })
+    );
+    expect(result).toEqual({ ok: false, error: 'Bleed must not be larger than the margin.' });
+  });
+});
+
+describe('getCropMarkLines', () => {
+  it('draws two marks per corner outside the bleed', () => {
+    const lines = getCropMarkLines({ x: 20, y: 20, width: 100, height: 50 }, 3, { width: 200, height: 200 });
+    expect(lines).toHaveLength(8);
+    expect(lines).toContainEqual([16, 20, 11, 20]);
+    expect(lines).toContainEqual([124, 70, 129, 70]);
+    expect(lines).toContainEqual([120, 16, 120, 11]);
+  });
+
+  it('shortens marks at the page edge and drops marks with no room', () => {
+    const lines = getCropMarkLines({ x: 6, y: 2, width: 100, height: 50 }, 3, { width: 200, height: 200 });
+    expect(lines).toContainEqual([2, 2, 0, 2]);
+    expect(lines.some(([, y1, , y2]) => y1 < 0 || y2 < 0)).toBe(false);
+    expect(lines).toHaveLength(6);
+  });
+});
+
+describe('getSvgPixelSize', () => {
+  it('reads the root size', () => {
+    expect(
+      getSvgPixelSize('<svg xmlns="http://www.w3.org/2000/svg" width="450" height="300" viewBox="0 0 450 300"></svg>')
+    ).toEqual({ width: 450, height: 300 });
+    expect(getSvgPixelSize('<svg></svg>')).toBeNull();
+  });
+});
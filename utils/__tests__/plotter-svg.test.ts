@@ -0,0 +1,152 @@
+/**
+ * Tests for the paths-only plotter SVG (utils/plotter-svg.ts).
+ */
+import {
+  buildPlotterSvg,
+  dedupePlotterSegments,
+  flattenSvgPath,
+  joinPlotterSegments,
+  parseSvgTransform,
+} from '../plotter-svg';
+
+const wrap = (content: string, size = 100) =>
+  `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${size} ${size}">${content}</svg>`;
+
+const getPathData = (svg: string) => [...svg.matchAll(/<path d="([^"]*)"/g)].map((m) => m[1]);
+
+describe('parseSvgTransform', () => {
+  it('composes transforms left to right', () => {
+    const m = parseSvgTransform('translate(10 20) rotate(90) scale(2)');
+    // (1, 0) scaled to (2, 0), rotated to (0, 2), then moved by (10, 20).
+    expect(m[0] * 1 + m[4]).toBeCloseTo(10);
+    expect(m[1] * 1 + m[5]).toBeCloseTo(22);
+  });
+});
+
+describe('flattenSvgPath', () => {
+  it('resolves relative, horizontal and vertical commands to absolute points', () => {
+    expect(flattenSvgPath('m10 10 h5 v5 l-5 0 z')).toEqual([
+      [
+        [10, 10],
+        [15, 10],
+        [15, 15],
+        [10, 15],
+        [10, 10],
+      ],
+    ]);
+  });
+
+  it('keeps curve end points exact and within tolerance in between', () => {
+    const [line] = flattenSvgPath('M0 0C0 55.23 44.77 100 100 100', undefined, 0.1);
+    expect(line[0]).toEqual([0, 0]);
+    expect(line[line.length - 1]).toEqual([100, 100]);
+    expect(line.length).toBeGreaterThan(10);
+  });
+
+  it('reads arcs with packed flags and applies the transform', () => {
+    const [line] = flattenSvgPath('M0 0a10 10 0 0010 10', [2, 0, 0, 2, 5, 5], 0.1);
+    expect(line[0]).toEqual([5, 5]);
+    const last = line[line.length - 1];
+    expect(last[0]).toBeCloseTo(25);
+    expect(last[1]).toBeCloseTo(25);
+    // Counter-clockwise short arc: centre (10, 0), i.e. (25, 5) after the transform.
+    for (const [x, y] of line) {
+      expect(Math.hypot(x - 25, y - 5)).toBeCloseTo(20, 5);
+    }
+  });
+});
+
+describe('dedupePlotterSegments', () => {
+  it('removes duplicates drawn in either direction and merges collinear overlaps', () => {
+    const result = dedupePlotterSegments([
+      { a: [0, 0], b: [10, 0] },
+      { a: [10, 0], b: [0, 0] },
+      { a: [5, 0], b: [15, 0] },
+      { a: [0, 5], b: [0, 6] },
+    ]);
+    expect(result).toHaveLength(2);
+    expect(result).toContainEqual({ a: [0, 0], b: [15, 0] });
+  });
+});
+
+describe('joinPlotterSegments', () => {
+  it('joins segments into open strokes and closed loops', () => {
+    const chains = joinPlotterSegments([
+      { a: [0, 0], b: [1, 0] },
+      { a: [2, 1], b: [1, 0] },
+      { a: [5, 5], b: [6, 5] },
+      { a: [6, 5], b: [6, 6] },
+      { a: [6, 6], b: [5, 5] },
+    ]);
+    expect(chains).toHaveLength(2);
+    expect(chains[0]).toEqual([
+      [0, 0],
+      [1, 0],
+      [2, 1],
+    ]);
+    expect(chains[1]).toHaveLength(4);
+    expect(chains[1][0]).toEqual(chains[1][3]);
+  });
+
+  it('continues straight through a crossing', () => {
+    const chains = joinPlotterSegments([
+      { a: [0, 1], b: [1, 1] },
+      { a: [1, 1], b: [2, 1] },
+      { a: [1, 0], b: [1, 1] },
+      { a: [1, 1], b: [1, 2] },
+    ]);
+    expect(chains).toHaveLength(2);
+    expect(chains.map((chain) => chain.length)).toEqual([3, 3]);
+  });
+});
+
+describe('buildPlotterSvg', () => {
+  it('joins lines across tile seams, drops fills and duplicate edges', () => {
+    const svg = wrap(
+      '<rect width="100" height="100" fill="#000" />' +
+        '<path d="M0 50L50 50" stroke="#fff" stroke-width="3" transform="translate(0 0)" />' +
+        '<path d="M0 50L50 50" stroke="#fff" stroke-width="3" transform="translate(50 0)" />' +
+        '<path d="M0 50L50 50" stroke="#fff" stroke-width="3" transform="translate(50 0)" />' +
+        '<circle cx="25" cy="25" r="5" fill="#f00" />'
+    );
+    const result = buildPlotterSvg([{ label: 'Level 1', svg }]);
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.pathCount).toBe(1);
+    expect(getPathData(result.svg)).toEqual(['M0 50L100 50']);
+    expect(result.svg).toContain('inkscape:label="Level 1"');
+    expect(result.svg).toContain('stroke="#fff"');
+    expect(result.svg).not.toMatch(/fill="#/);
+  });
+
+  it('groups by layer and colour and inherits strokes from groups', () => {
+    const result = buildPlotterSvg([
+      { label: 'Level 1', svg: wrap('<g stroke="#f00"><line x1="0" y1="0" x2="10" y2="0" /></g><line x1="0" y1="5" x2="10" y2="5" stroke="#00f" />') },
+      { label: 'Level 2', svg: wrap('<polyline points="0 0 10 10 20 0" stroke="#f00" />') },
+    ]);
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.pathCount).toBe(3);
+    expect(result.svg.match(/inkscape:label="Level 1 #[0-9a-f]+"/g)).toHaveLength(2);
+    expect(result.svg).toContain('inkscape:label="Level 2 #f00"');
+    expect(getPathData(result.svg)).toContain('M0 0L10 10 20 0');
+  });
+
+  it('clips partial cells to their viewport and counts raster images', () => {
+    const svg = wrap(
+      '<svg x="0" y="0" width="50" height="50" overflow="hidden"><g transform="translate(0 0)">' +
+        '<path d="M0 25L100 25" stroke="#fff" /></g></svg>' +
+        '<g transform="translate(50 50)"><image href="data:image/png;base64,AAAA" width="50" height="50" /></g>'
+    );
+    const result = buildPlotterSvg([{ label: 'Level 2', svg }]);
+    expect(result.ok && getPathData(result.svg)).toEqual(['M0 25L50 25']);
+    expect(result.ok && result.skippedImages).toBe(1);
+  });
+
+  it('fails when there is nothing to plot', () => {
+    expect(buildPlotterSvg([{ label: 'Level 1', svg: wrap('<rect width="10" height="10" fill="#000" />') }])).toEqual({
+      ok: false,
+      error: 'Nothing to plot: the design has no stroked lines.',
+    });
+  });
+});
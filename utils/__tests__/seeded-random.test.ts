@@ -0,0 +1,79 @@
+/**
+ * Tests for the seedable PRNG (utils/seeded-random.ts).
+ */
+import {
+  createSeededRandom,
+  MAX_SEED,
+  normalizeSeed,
+  pickWeighted,
+  shuffle,
+} from '../seeded-random';
+
+const take = (random: () => number, count: number) =>
+  Array.from({ length: count }, () => random());
+
+describe('createSeededRandom', () => {
+  it('produces the same sequence for the same seed', () => {
+    expect(take(createSeededRandom(42), 20)).toEqual(take(createSeededRandom(42), 20));
+  });
+
+  it('produces different sequences for different seeds', () => {
+    expect(take(createSeededRandom(1), 20)).not.toEqual(take(createSeededRandom(2), 20));
+  });
+
+  it('returns floats in [0, 1)', () => {
+    const values = take(createSeededRandom(MAX_SEED), 1000);
+    expect(values.every((v) => v >= 0 && v < 1)).toBe(true);
+  });
+});
+
+describe('normalizeSeed', () => {
+  it('accepts unsigned 32-bit integers and digit strings', () => {
+    expect(normalizeSeed(0)).toBe(0);
+    expect(normalizeSeed(MAX_SEED)).toBe(MAX_SEED);
+    expect(normalizeSeed(' 1234 ')).toBe(1234);
+  });
+
+  it('rejects everything else', () => {
+    expect(normalizeSeed(-1)).toBeNull();
+    expect(normalizeSeed(MAX_SEED + 1)).toBeNull();
+    expect(normalizeSeed(1.5)).toBeNull();
+    expect(normalizeSeed('12a')).toBeNull();
+    expect(normalizeSeed(undefined)).toBeNull();
+  });
+});
+
+describe('shuffle', () => {
+  it('is a deterministic permutation for a given seed', () => {
+    const items = Array.from({ length: 10 }, (_, i) => i);
+    const a = shuffle(items, createSeededRandom(7));
+    const b = shuffle(items, createSeededRandom(7));
+    expect(a).toEqual(b);
+    expect([...a].sort((x, y) => x - y)).toEqual(items);
+    expect(items).toEqual(Array.from({ length: 10 }, (_, i) => i));
+  });
+});
+
+describe('pickWeighted', () => {
+  it('picks in proportion to weight and never picks zero-weight items', () => {
+    const random = createSeededRandom(5);
+    const counts = { filler: 0, accent: 0, off: 0 };
+    const weights = { filler: 9, accent: 1, off: 0 };
+    const items = Object.keys(weights) as (keyof typeof weights)[];
+    for (let i = 0; i < 2000; i += 1) {
+      counts[pickWeighted(items, (item) => weights[item], random)] += 1;
+    }
+    expect(counts.off).toBe(0);
+    expect(counts.filler).toBeGreaterThan(counts.accent * 5);
+    expect(counts.accent).toBeGreaterThan(0);
+  });
+
+  it('falls back to a uniform pick when every weight is zero', () => {
+    const random = createSeededRandom(3);
+    const picked = new Set<string>();
+    for (let i = 0; i < 50; i += 1) {
+      picked.add(pickWeighted(['a', 'b'], () => 0, random));
+    }
+    expect(picked).toEqual(new Set(['a', 'b']));
+  });
+});
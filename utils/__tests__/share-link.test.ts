@@ -0,0 +1,103 @@
+/**
+ * Tests for design share links (utils/share-link.ts).
+ */
+jest.mock('@/assets/images/tiles/manifest', () => ({
+  TILE_CATEGORIES: ['angular'],
+  TILE_MANIFEST: { angular: [] },
+}));
+
+import { deflate } from 'pako';
+
+import {
+  decodeSharePayload,
+  encodeSharePayload,
+  MAX_SHARE_CONTENT_LENGTH,
+  MAX_SHARE_PAYLOAD_LENGTH,
+} from '../share-link';
+import { serializeFileBundle, serializePatternBundle } from '../tile-bundle-format';
+import { bytesToBase64 } from '../tile-compact';
+
+const tiles = Array.from({ length: 64 }, (_, i) => ({
+  imageIndex: i % 3 === 0 ? 0 : -1,
+  rotation: (i % 4) * 90,
+  mirrorX: false,
+  mirrorY: false,
+}));
+
+const fileBundle = serializeFileBundle(
+  {
+    name: 'Shared',
+    grid: { rows: 8, columns: 8 },
+    tiles,
+    preferredTileSize: 45,
+    lineWidth: 10,
+    lineColor: '#ffffff',
+    sourceNames: ['line_10001000.svg'],
+    tileSetIds: [],
+    category: 'angular',
+    categories: ['angular'],
+  },
+  new Map()
+);
+
+const encode = (json: string) => {
+  const result = encodeSharePayload(json);
+  if (!result.ok) throw new Error(result.error);
+  return result.payload;
+};
+
+describe('encodeSharePayload', () => {
+  it('produces URL-safe text that decodes to the same bundle', () => {
+    const payload = encode(fileBundle);
+    expect(payload).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeSharePayload(payload)).toEqual({ ok: true, kind: 'fileBundle', content: fileBundle });
+  });
+
+  it('carries pattern bundles', () => {
+    const pattern = serializePatternBundle(
+      { name: 'P', category: 'angular', width: 2, height: 1, tiles: tiles.slice(0, 2), createdAt: 1 },
+      new Map()
+    );
+    expect(decodeSharePayload(encode(pattern))).toMatchObject({ ok: true, kind: 'patternBundle' });
+  });
+
+  it('refuses designs whose link would be too long', () => {
+    let seed = 1;
+    const noise = Array.from({ length: MAX_SHARE_PAYLOAD_LENGTH }, () => {
+      seed = (seed * 48271) % 2147483647;
+      return String.fromCharCode(33 + (seed % 90));
+    }).join('');
+    expect(encodeSharePayload(JSON.stringify({ noise })).ok).toBe(false);
+  });
+});
+
+describe('decodeSharePayload', () => {
+  it('reports truncated links', () => {
+    const payload = encode(fileBundle);
+    for (const length of [payload.length - 1, payload.length - 6, Math.floor(payload.length / 2)]) {
+      expect(decodeSharePayload(payload.slice(0, length))).toEqual({
+        ok: false,
+        error: 'The link is incomplete. Ask for the full link again.',
+      });
+    }
+  });
+
+  it('rejects empty, oversized and non-design links', () => {
+    expect(decodeSharePayload('').ok).toBe(false);
+    expect(decodeSharePayload('A'.repeat(MAX_SHARE_PAYLOAD_LENGTH + 1))).toEqual({
+      ok: false,
+      error: 'The link is too large to open.',
+    });
+    // A short link that would inflate past MAX_SHARE_CONTENT_LENGTH is not inflated.
+    const bomb = bytesToBase64(deflate(' '.repeat(MAX_SHARE_CONTENT_LENGTH + 1)))
+      .replace(/\+/g, '-')
+      .replace(/\//g, '_')
+      .replace(/=+$/, '');
+    expect(bomb.length).toBeLessThan(MAX_SHARE_PAYLOAD_LENGTH);
+    expect(decodeSharePayload(bomb).ok).toBe(false);
+    expect(decodeSharePayload(encode(JSON.stringify({ v: 1, name: 'plain file' })))).toEqual({
+      ok: false,
+      error: 'The link could not be opened: Not a bundle file.',
+    });
+  });
+});
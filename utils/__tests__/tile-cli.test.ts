@@ -0,0 +1,258 @@
+/**
+ * Tests for the headless CLI commands (utils/tile-cli.ts).
+ */
+
+jest.mock('@/assets/images/tiles/manifest', () => ({
+  TILE_CATEGORIES: ['angular'],
+  TILE_MANIFEST: {
+    angular: [
+      { name: 'tile_00000000.svg', source: '/tiles/tile_00000000.svg' },
+      { name: 'tile_10001000.svg', source: '/tiles/tile_10001000.svg' },
+    ],
+  },
+}));
+jest.mock('@/assets/images/tiles/tile_error.svg', () => '/tiles/tile_error.svg');
+jest.mock('@/utils/tile-export', () => ({
+  renderTileCanvasToSvg: jest.fn(async () => '<svg />'),
+}));
+
+import { serializeFileBundle } from '../tile-bundle-format';
+import {
+  generateTileFile,
+  parseCliArgs,
+  runTileCli,
+  unpackBundleText,
+  validateTileText,
+  type TileCliIo,
+} from '../tile-cli';
+import { renderTileCanvasToSvg } from '../tile-export';
+import { deserializeTileFile, serializeTileFile } from '../tile-format';
+import type { Tile } from '../tile-grid';
+
+const renderMock = renderTileCanvasToSvg as jest.Mock;
+
+const tile = (name: string, rotation = 0): Tile => ({
+  imageIndex: 0,
+  rotation,
+  mirrorX: false,
+  mirrorY: false,
+  name,
+});
+
+const baseFile = {
+  name: 'Demo',
+  grid: { rows: 1, columns: 2 },
+  tiles: [tile('tile_10001000.svg'), tile('set-1:t1_5_00000000.svg')],
+  preferredTileSize: 45,
+  lineWidth: 4,
+  lineColor: '#ff0000',
+  sourceNames: ['tile_10001000.svg'],
+  tileSetIds: ['set-1'],
+  category: 'angular' as const,
+  categories: ['angular' as const],
+};
+
+const tileSet = {
+  id: 'set-1',
+  name: 'My Set',
+  category: 'angular' as const,
+  categories: ['angular' as const],
+  resolution: 2,
+  lineWidth: 3,
+  lineColor: '#ffffff',
+  tiles: [
+    {
+      id: 't1',
+      name: 'T',
+      grid: { rows: 0, columns: 0 },
+      preferredTileSize: 45,
+      tiles: [],
+      thumbnailUri: null,
+      previewUri: null,
+      updatedAt: 5,
+      svg: '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 10 10"><path d="M0 0L10 10" /></svg>',
+      connections: '00000000',
+    },
+  ],
+  updatedAt: 1,
+};
+
+const createIo = (files: Record<string, string>) => {
+  const written: Record<string, string | Uint8Array> = {};
+  const logs: string[] = [];
+  const errors: string[] = [];
+  const io: TileCliIo = {
+    readText: async (path) => {
+      if (!(path in files)) throw new Error(`ENOENT: ${path}`);
+      return files[path];
+    },
+    writeText: async (path, text) => {
+      written[path] = text;
+    },
+    writeBinary: async (path, data) => {
+      written[path] = data;
+    },
+    rasterizeSvg: async (svg) => new TextEncoder().encode(`png:${svg}`),
+    log: (message) => logs.push(message),
+    error: (message) => errors.push(message),
+  };
+  return { io, written, logs, errors };
+};
+
+beforeEach(() => {
+  renderMock.mockClear();
+});
+
+describe('parseCliArgs', () => {
+  it('splits command, positionals, valued and boolean flags', () => {
+    expect(
+      parseCliArgs(['render', 'a.tile', '--format', 'png', 'b.tile', '--tileable', 'c.tile', '--out=dist'])
+    ).toEqual({
+      command: 'render',
+      positionals: ['a.tile', 'b.tile', 'c.tile'],
+      flags: { format: 'png', tileable: 'true', out: 'dist' },
+    });
+  });
+
+  it('treats a trailing flag as boolean', () => {
+    expect(parseCliArgs(['validate', '--verbose']).flags).toEqual({ verbose: 'true' });
+  });
+});
+
+describe('validateTileText', () => {
+  it('describes files, patterns and bundles', () => {
+    expect(validateTileText(serializeTileFile(baseFile, { encoding: 'deflated' }))).toEqual({
+      ok: true,
+      kind: 'file',
+      summary: 'file "Demo" 2×1, 1 layer(s)',
+    });
+    const pattern = JSON.stringify({
+      kind: 'pattern',
+      v: 1,
+      name: 'Dots',
+      category: 'angular',
+      width: 2,
+      height: 1,
+      tiles: [tile('tile_00000000.svg'), tile('tile_00000000.svg')],
+      createdAt: 1,
+    });
+    expect(validateTileText(pattern)).toMatchObject({ ok: true, kind: 'pattern' });
+    const bundle = serializeFileBundle(baseFile, new Map([['set-1', tileSet]]));
+    expect(validateTileText(bundle)).toMatchObject({
+      ok: true,
+      kind: 'fileBundle',
+      summary: 'file "Demo" 2×1, 1 layer(s), 1 tile set(s)',
+    });
+  });
+
+  it('reports the deserializer error', () => {
+    expect(validateTileText('{"v":1,"grid":null}')).toEqual({ ok: false, error: 'Invalid grid' });
+    expect(validateTileText('not json')).toEqual({ ok: false, error: 'Invalid JSON' });
+  });
+});
+
+describe('unpackBundleText', () => {
+  it('writes the file and each embedded tile set', () => {
+    const bundle = serializeFileBundle(baseFile, new Map([['set-1', tileSet]]));
+    const result = unpackBundleText(bundle);
+    if (!result.ok) throw new Error(result.error);
+    expect(result.entries.map((e) => e.fileName)).toEqual(['Demo.tile', 'TileSet_My_Set.tileset']);
+    const file = deserializeTileFile(result.entries[0].text);
+    expect(file.ok && file.payload.tiles[1].name).toBe('set-1:t1_5_00000000.svg');
+    expect(JSON.parse(result.entries[1].text)).toMatchObject({ kind: 'tileSet', name: 'My Set' });
+  });
+
+  it('rejects a plain .tile file', () => {
+    expect(unpackBundleText(serializeTileFile(baseFile))).toEqual({
+      ok: false,
+      error: 'Not a bundle file',
+    });
+  });
+});
+
+describe('generateTileFile', () => {
+  it('floods every cell with one tile', () => {
+    const result = generateTileFile({
+      rows: 2,
+      columns: 2,
+      mode: 'flood',
+      categories: ['angular'],
+      tileName: 'tile_10001000.svg',
+      rotation: 90,
+      seed: 1,
+      name: 'Flood',
+    });
+    if (!result.ok) throw new Error(result.error);
+    expect(result.file.tiles).toHaveLength(4);
+    expect(new Set(result.file.tiles.map((t) => `${t.imageIndex}/${t.rotation}`))).toEqual(
+      new Set(['1/90'])
+    );
+  });
+
+  it('fills randomly with matching connections, reproducibly per seed', () => {
+    const options = { rows: 4, columns: 4, mode: 'random' as const, categories: ['angular' as const], seed: 7, name: 'R' };
+    const first = generateTileFile(options);
+    const second = generateTileFile(options);
+    if (!first.ok || !second.ok) throw new Error('generation failed');
+    expect(first.file.tiles).toEqual(second.file.tiles);
+    expect(first.file.seed).toBe(7);
+    // A vertical straight (rotation 0/180) must continue into the cell below.
+    first.file.tiles.forEach((t, i) => {
+      const vertical = t.imageIndex === 1 && t.rotation % 180 === 0;
+      const row = Math.floor(i / 4);
+      if (vertical && row < 3) {
+        const below = first.file.tiles[i + 4];
+        expect(below.imageIndex === 1 && below.rotation % 180 === 0).toBe(true);
+      }
+    });
+  });
+
+  it('rejects unknown flood tiles', () => {
+    expect(
+      generateTileFile({ rows: 1, columns: 1, mode: 'flood', categories: ['angular'], tileName: 'nope.svg', name: 'x' })
+    ).toEqual({ ok: false, error: 'Unknown tile "nope.svg" in angular' });
+  });
+});
+
+describe('runTileCli', () => {
+  it('renders files and bundles with resolved built-in and UGC sources', async () => {
+    const bundle = serializeFileBundle(baseFile, new Map([['set-1', tileSet]]));
+    const { io, written, errors } = createIo({ 'in/demo.tile': bundle });
+    const code = await runTileCli(['render', 'in/demo.tile', '--format', 'png', '--out', 'out', '--size', '90'], io);
+    expect(errors).toEqual([]);
+    expect(code).toBe(0);
+    expect(new TextDecoder().decode(written['out/demo.png'] as Uint8Array)).toBe('png:<svg />');
+    const params = renderMock.mock.calls[0][0];
+    expect(params.gridLayout).toEqual({ rows: 1, columns: 2, tileSize: 45 });
+    expect(params.tileSources.map((s: { name: string }) => s.name)).toEqual([
+      'tile_10001000.svg',
+      'set-1:t1_5_00000000.svg',
+    ]);
+    expect(params.tileSources[0].source).toBe('/tiles/tile_10001000.svg');
+    expect(params.ugcXmlBySourceName.get('set-1:t1_5_00000000.svg')).toContain('<path');
+    expect(params.strokeScaleByName.get('set-1:t1_5_00000000.svg')).toBe(2);
+    expect(params.lineColor).toBe('#ff0000');
+  });
+
+  it('keeps going after a bad input and exits 1', async () => {
+    const { io, written, errors } = createIo({ 'a.tile': serializeTileFile(baseFile), 'b.tile': 'x' });
+    const code = await runTileCli(['render', 'a.tile', 'b.tile', 'missing.tile'], io);
+    expect(code).toBe(1);
+    expect(Object.keys(written)).toEqual(['./a.svg']);
+    expect(errors).toEqual(['b.tile: Invalid JSON', 'missing.tile: ENOENT: missing.tile']);
+  });
+
+  it('validates, generates and reports usage errors', async () => {
+    const { io, written, logs } = createIo({ 'a.tile': serializeTileFile(baseFile), 'b.tile': '{"v":1}' });
+    expect(await runTileCli(['validate', 'a.tile', 'b.tile'], io)).toBe(1);
+    expect(logs).toEqual(['OK   a.tile: file "Demo" 2×1, 1 layer(s)', 'FAIL b.tile: Invalid grid']);
+    expect(
+      await runTileCli(['generate', 'gen/new.tile', '--rows', '2', '--columns', '3', '--seed', '9', '--encoding', 'packed'], io)
+    ).toBe(0);
+    const generated = deserializeTileFile(written['gen/new.tile'] as string);
+    expect(generated.ok && generated.payload).toMatchObject({ name: 'new', seed: 9, grid: { rows: 2, columns: 3 } });
+    expect(await runTileCli(['generate', 'x.tile', '--rows', '0', '--columns', '3'], io)).toBe(2);
+    expect(await runTileCli(['frobnicate'], io)).toBe(2);
+    expect(await runTileCli(['help'], io)).toBe(0);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Tests for the compact tile encoding (utils/tile-compact.ts).
+ */
+import {
+  deflateTileText,
+  getPackedCellLimit,
+  inflateTileText,
+  isDeflatedTileText,
+  isPackedTiles,
+  packTiles,
+  unpackTiles,
+} from '../tile-compact';
+import type { Tile } from '../tile-grid';
+
+const empty = (): Tile => ({ imageIndex: -1, rotation: 0, mirrorX: false, mirrorY: false });
+
+describe('packTiles', () => {
+  it('round-trips sources, rotations, mirrors and placed order', () => {
+    const tiles: Tile[] = [
+      { imageIndex: 0, rotation: 0, mirrorX: false, mirrorY: false, name: 'a.svg', placedOrder: 3 },
+      { imageIndex: 1, rotation: 270, mirrorX: true, mirrorY: true, name: 'b.svg' },
+      empty(),
+      { imageIndex: 0, rotation: 90, mirrorX: false, mirrorY: true, name: 'a.svg', placedOrder: 40 },
+    ];
+    const packed = packTiles(tiles);
+    expect(packed).not.toBeNull();
+    expect(packed!.palette).toEqual([[0, 'a.svg'], [1, 'b.svg'], [-1]]);
+    expect(unpackTiles(packed!, tiles.length)).toEqual(tiles);
+  });
+
+  it('run-length encodes repeated cells', () => {
+    const tiles = Array.from({ length: 512 }, empty);
+    const packed = packTiles(tiles)!;
+    expect(packed.cells).toBe(`0*${(512).toString(36)}`);
+    expect(packed.order).toBeUndefined();
+    expect(unpackTiles(packed, 512)).toEqual(tiles);
+  });
+
+  it('normalizes negative rotations and refuses non-right angles', () => {
+    const [tile] = unpackTiles(packTiles([{ ...empty(), rotation: -90 }])!, 1)!;
+    expect(tile.rotation).toBe(270);
+    expect(packTiles([{ ...empty(), rotation: 45 }])).toBeNull();
+  });
+});
+
+describe('unpackTiles', () => {
+  it('rejects records outside the palette and bad runs', () => {
+    expect(unpackTiles({ palette: [[-1]], cells: '10' }, 4)).toBeNull();
+    expect(unpackTiles({ palette: [[-1]], cells: '0*0' }, 4)).toBeNull();
+    expect(unpackTiles({ palette: [[-1]], cells: '0,0', order: '-' }, 4)).toBeNull();
+  });
+
+  it('rejects runs longer than the grid without expanding them', () => {
+    expect(unpackTiles({ palette: [[-1]], cells: '0*zzzzzz' }, 16)).toBeNull();
+    expect(unpackTiles({ palette: [[-1]], cells: '0*8,0*9' }, 16)).toBeNull();
+    expect(unpackTiles({ palette: [[-1]], cells: '0*g' }, 16)).toHaveLength(16);
+    expect(unpackTiles({ palette: [[-1]], cells: '0*2', order: '-*zzzzzz' }, 2)).toBeNull();
+  });
+
+  it('limits each layer to its own cell count', () => {
+    expect(getPackedCellLimit({ rows: 3, columns: 4 }, 1)).toBe(12);
+    expect(getPackedCellLimit({ rows: 0, columns: 4 }, 1)).toBe(0);
+    expect(getPackedCellLimit(undefined, 1)).toBe(0);
+    expect(getPackedCellLimit({ rows: 4, columns: 4 }, 2)).toBeGreaterThan(0);
+    expect(getPackedCellLimit({ rows: 4, columns: 4 }, 2)).toBeLessThan(16);
+  });
+
+  it('is detected by isPackedTiles', () => {
+    expect(isPackedTiles({ palette: [], cells: '' })).toBe(true);
+    expect(isPackedTiles([empty()])).toBe(false);
+  });
+});
+
+describe('deflateTileText', () => {
+  it('round-trips text behind the prefix', () => {
+    const text = JSON.stringify({ v: 1, name: 'Ünïcode ✓', cells: '0'.repeat(1000) });
+    const deflated = deflateTileText(text);
+    expect(isDeflatedTileText(deflated)).toBe(true);
+    expect(deflated.length).toBeLessThan(text.length);
+    expect(inflateTileText(deflated)).toBe(text);
+  });
+
+  it('stops inflating text longer than the limit', () => {
+    const deflated = deflateTileText(' '.repeat(100000));
+    expect(deflated.length).toBeLessThan(1000);
+    expect(inflateTileText(deflated, 99999)).toBeNull();
+    expect(inflateTileText(deflated, 100000)).toHaveLength(100000);
+  });
+
+  it('returns null for plain or corrupt text', () => {
+    expect(inflateTileText('{"v":1}')).toBeNull();
+    expect(inflateTileText('TILEZ1:bm90IGRlZmxhdGVk')).toBeNull();
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Tests for the per-file storage layout (utils/tile-file-storage.ts).
+ */
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import type { TileFile } from '@/hooks/use-tile-files';
+import { isPackedTiles } from '../tile-compact';
+import {
+  applyFileWrites,
+  createPersistedFiles,
+  FILES_INDEX_KEY,
+  getFileBodyKey,
+  getFileThumbsKey,
+  joinStoredFile,
+  LEGACY_FILES_KEY,
+  planFileWrites,
+  readFileBodies,
+  readFileIndex,
+  removeAllFileRecords,
+  splitStoredFile,
+} from '../tile-file-storage';
+
+const makeFile = (id: string, overrides: Partial<TileFile> = {}): TileFile => ({
+  id,
+  name: `File ${id}`,
+  tiles: [
+    { imageIndex: 0, rotation: 90, mirrorX: false, mirrorY: false },
+    { imageIndex: -1, rotation: 0, mirrorX: false, mirrorY: false },
+  ],
+  grid: { rows: 1, columns: 2 },
+  category: 'angular',
+  categories: ['angular'],
+  tileSetIds: [],
+  sourceNames: ['a.svg'],
+  preferredTileSize: 45,
+  lineWidth: 4,
+  lineColor: '#ffffff',
+  thumbnailUri: `data:image/png;base64,${id}`,
+  previewUri: null,
+  updatedAt: 1,
+  lockedCells: [1],
+  ...overrides,
+});
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  jest.clearAllMocks();
+});
+
+describe('splitStoredFile / joinStoredFile', () => {
+  it('keeps tiles out of the index and packs them in the body', () => {
+    const undoLog = { past: [{ step: 1, changes: [] }], future: [] };
+    const file = makeFile('a', { layers: { 2: [makeFile('x').tiles[0]] }, undoLog });
+    const texts = splitStoredFile(file);
+    const meta = JSON.parse(texts.meta);
+    const body = JSON.parse(texts.body!);
+    const thumbs = JSON.parse(texts.thumbs);
+    expect(meta).toMatchObject({ id: 'a', name: 'File a', grid: { rows: 1, columns: 2 } });
+    expect(meta).not.toHaveProperty('tiles');
+    expect(meta).not.toHaveProperty('thumbnailUri');
+    expect(meta).not.toHaveProperty('undoLog');
+    expect(isPackedTiles(body.tiles)).toBe(true);
+    expect(isPackedTiles(body.layers['2'])).toBe(true);
+    expect(body.lockedCells).toEqual([1]);
+    expect(body.undoLog).toEqual(undoLog);
+    expect(thumbs).toEqual({ thumbnailUri: 'data:image/png;base64,a', previewUri: null });
+    expect(joinStoredFile(meta, body, thumbs)).toEqual({ ...meta, ...thumbs, ...body });
+  });
+});
+
+describe('planFileWrites', () => {
+  it('writes nothing for unchanged files and only what changed otherwise', () => {
+    const a = makeFile('a');
+    const b = makeFile('b');
+    const first = planFileWrites([a, b], createPersistedFiles(), new Set());
+    expect(first.records.map(([key]) => key)).toEqual([
+      getFileBodyKey('a'),
+      getFileThumbsKey('a'),
+      getFileBodyKey('b'),
+      getFileThumbsKey('b'),
+    ]);
+    expect(first.index).not.toBeNull();
+
+    const same = planFileWrites([a, b], first.next, new Set());
+    expect(same).toMatchObject({ records: [], index: null, remove: [] });
+
+    const renamed = planFileWrites([{ ...a, name: 'Renamed' }, b], first.next, new Set());
+    expect(renamed.records).toEqual([]);
+    expect(JSON.parse(renamed.index!)[0].name).toBe('Renamed');
+
+    const edited = planFileWrites([a, { ...b, tiles: [...b.tiles].reverse() }], first.next, new Set());
+    expect(edited.records.map(([key]) => key)).toEqual([getFileBodyKey('b')]);
+    expect(edited.index).toBeNull();
+
+    const reordered = planFileWrites([b, a], first.next, new Set());
+    expect(reordered.records).toEqual([]);
+    expect(JSON.parse(reordered.index!).map((meta: TileFile) => meta.id)).toEqual(['b', 'a']);
+  });
+
+  it('removes deleted files and never writes an unloaded body', () => {
+    const a = makeFile('a');
+    const b = makeFile('b');
+    const first = planFileWrites([a, b], createPersistedFiles(), new Set());
+    expect(planFileWrites([b], first.next, new Set()).remove).toEqual([
+      getFileBodyKey('a'),
+      getFileThumbsKey('a'),
+    ]);
+    const unloaded = { ...b, tiles: [], lockedCells: [], name: 'Listed' };
+    const plan = planFileWrites([a, unloaded], first.next, new Set(['b']));
+    expect(plan.records).toEqual([]);
+    expect(plan.next.byId.get('b')!.body).toBe(first.next.byId.get('b')!.body);
+  });
+});
+
+describe('storage round trip', () => {
+  it('reads the index and thumbnails first and bodies on demand', async () => {
+    const a = makeFile('a');
+    const b = makeFile('b');
+    await applyFileWrites(planFileWrites([a, b], createPersistedFiles(), new Set()));
+    const index = await readFileIndex();
+    expect(index!.records.map((record) => record.id)).toEqual(['a', 'b']);
+    expect(index!.records[1]).toMatchObject({ thumbnailUri: 'data:image/png;base64,b' });
+    expect(index!.records[1]).not.toHaveProperty('tiles');
+    expect(AsyncStorage.getItem).not.toHaveBeenCalledWith(getFileBodyKey('b'));
+
+    const bodies = await readFileBodies(['b', 'missing']);
+    expect([...bodies.keys()]).toEqual(['b']);
+    expect(bodies.get('b')!.text).toBe(splitStoredFile(b).body);
+
+    // Nothing is rewritten when the loaded state matches storage.
+    const plan = planFileWrites([a, b], index!.persisted, new Set(['a', 'b']));
+    expect(plan).toMatchObject({ records: [], index: null, remove: [] });
+  });
+
+  it('returns null without an index and clears every record', async () => {
+    expect(await readFileIndex()).toBeNull();
+    await AsyncStorage.setItem(LEGACY_FILES_KEY, '[]');
+    await applyFileWrites(planFileWrites([makeFile('a')], createPersistedFiles(), new Set()));
+    await AsyncStorage.setItem('tile-settings-v1', '{}');
+    await removeAllFileRecords();
+    expect(await AsyncStorage.getAllKeys()).toEqual(['tile-settings-v1']);
+    expect(await AsyncStorage.getItem(FILES_INDEX_KEY)).toBeNull();
+  });
+});
@@ -81,6 +81,49 @@ describe('tile-format', () => {
       }
     });
 
+    it('round-trips the random seed and drops invalid seeds', () => {
+      const base = {
+        name: 'Seeded',
+        grid: { rows: 1, columns: 1 },
+        tiles: [{ imageIndex: -1, rotation: 0, mirrorX: false, mirrorY: false }],
+        preferredTileSize: 45,
+        lineWidth: 10,
+        lineColor: '#fff',
+        sourceNames: [],
+        tileSetIds: [],
+        category: validCategory as TileFilePayload['category'],
+        categories: [validCategory as TileFilePayload['category']],
+      };
+      const seeded = deserializeTileFile(serializeTileFile({ ...base, seed: 123456 }));
+      expect(seeded.ok && seeded.payload.seed).toBe(123456);
+      const invalid = deserializeTileFile(
+        JSON.stringify({ ...base, v: TILE_FORMAT_VERSION, seed: -5 })
+      );
+      expect(invalid.ok).toBe(true);
+      if (invalid.ok) {
+        expect(invalid.payload.seed).toBeUndefined();
+      }
+    });
+
+    it('round-trips the tileable flag only when set', () => {
+      const base = {
+        name: 'Wallpaper',
+        grid: { rows: 1, columns: 1 },
+        tiles: [{ imageIndex: -1, rotation: 0, mirrorX: false, mirrorY: false }],
+        preferredTileSize: 45,
+        lineWidth: 10,
+        lineColor: '#fff',
+        sourceNames: [],
+        tileSetIds: [],
+        category: validCategory as TileFilePayload['category'],
+        categories: [validCategory as TileFilePayload['category']],
+      };
+      const tileable = deserializeTileFile(serializeTileFile({ ...base, tileable: true }));
+      expect(tileable.ok && tileable.payload.tileable).toBe(true);
+      const plain = serializeTileFile({ ...base, tileable: false });
+      expect(JSON.parse(plain)).not.toHaveProperty('tileable');
+    });
+
     it('returns error for invalid JSON', () => {
       const result = deserializeTileFile('not json');
       expect(result.ok).toBe(false);
@@ -136,4 +179,59 @@ describe('tile-format', () => {
       }
     });
   });
+
+  describe('compact encodings', () => {
+    const tiles = Array.from({ length: 512 }, (_, i) => ({
+      imageIndex: i % 7 === 0 ? 0 : -1,
+      rotation: (i % 4) * 90,
+      mirrorX: i % 3 === 0,
+      mirrorY: false,
+      ...(i % 7 === 0 && { name: 'line_10001000.svg' }),
+    }));
+    const file = {
+      name: 'Big',
+      grid: { rows: 16, columns: 32 },
+      tiles,
+      layers: { 2: tiles.slice(0, 128) },
+      preferredTileSize: 45,
+      lineWidth: 10,
+      lineColor: '#ffffff',
+      sourceNames: ['line_10001000.svg'],
+      tileSetIds: [],
+      category: validCategory as TileFilePayload['category'],
+      categories: [validCategory as TileFilePayload['category']],
+    };
+
+    it('reads packed and deflated files back to the same payload', () => {
+      const plain = deserializeTileFile(serializeTileFile(file));
+      const packedJson = serializeTileFile(file, { encoding: 'packed' });
+      const deflated = serializeTileFile(file, { encoding: 'deflated' });
+      expect(packedJson.length).toBeLessThan(serializeTileFile(file).length / 4);
+      expect(deflated.length).toBeLessThan(packedJson.length);
+      expect(deserializeTileFile(packedJson)).toEqual(plain);
+      expect(deserializeTileFile(deflated)).toEqual(plain);
+    });
+
+    it('writes packed files as version 2 and still reads version 1 files', () => {
+      expect(TILE_FORMAT_VERSION).toBe(2);
+      expect(JSON.parse(serializeTileFile(file, { encoding: 'packed' })).v).toBe(2);
+      const v1 = { ...JSON.parse(serializeTileFile(file)), v: 1 };
+      const result = deserializeTileFile(JSON.stringify(v1));
+      expect(result).toEqual(deserializeTileFile(serializeTileFile(file)));
+      expect(result.ok && result.payload.v).toBe(2);
+    });
+
+    it('returns errors for corrupt compact data', () => {
+      const packed = JSON.parse(serializeTileFile(file, { encoding: 'packed' }));
+      packed.tiles.cells = 'zz';
+      expect(deserializeTileFile(JSON.stringify(packed))).toEqual({
+        ok: false,
+        error: 'Invalid packed tiles',
+      });
+      expect(deserializeTileFile('TILEZ1:???')).toEqual({
+        ok: false,
+        error: 'Invalid compressed .tile file',
+      });
+    });
+  });
 });
@@ -12,6 +12,7 @@ import {
     getLevelKRange,
     getLevelNtoMOffsets,
     getMaxGridResolutionLevel,
+    getNeighborCellIndex,
     getSpiralCellOrder,
     getSpiralCellOrderInRect,
     getTileSourceIndexByName,
@@ -188,6 +189,19 @@ describe('buildInitialTiles', () => {
   });
 });
 
+describe('getNeighborCellIndex', () => {
+  it('returns -1 off the grid unless wrapping', () => {
+    expect(getNeighborCellIndex(0, 0, -1, 0, 3, 4)).toBe(-1);
+    expect(getNeighborCellIndex(1, 1, 1, 1, 3, 4)).toBe(10);
+  });
+
+  it('wraps across opposite edges and corners on a tileable grid', () => {
+    expect(getNeighborCellIndex(0, 0, -1, 0, 3, 4, true)).toBe(8);
+    expect(getNeighborCellIndex(1, 3, 0, 1, 3, 4, true)).toBe(4);
+    expect(getNeighborCellIndex(0, 0, -1, -1, 3, 4, true)).toBe(11);
+  });
+});
+
 describe('getSpiralCellOrder', () => {
   it('starts at upper-left (index 0) and goes right then down then up then inward', () => {
     const order = getSpiralCellOrder(4, 3);
@@ -0,0 +1,126 @@
+/**
+ * Tests for invalid-connection diagnostics (utils/tile-seams.ts).
+ */
+import { buildCompatibilityTables } from '../tile-compat';
+import { buildInitialTiles, type Tile } from '../tile-grid';
+import {
+  buildReconcileReport,
+  findInvalidEdges,
+  formatReconcileSummary,
+} from '../tile-seams';
+
+const sources = [
+  { name: 'line_10001000.svg' },
+  { name: 'end_10000000.svg' },
+];
+const tables = buildCompatibilityTables(sources);
+const getConnections = (tile: Tile) =>
+  tables.getConnectionsForPlacement(tile.imageIndex, tile.rotation, tile.mirrorX, tile.mirrorY);
+
+const place = (imageIndex: number, rotation = 0): Tile => ({
+  imageIndex,
+  rotation,
+  mirrorX: false,
+  mirrorY: false,
+});
+
+describe('findInvalidEdges', () => {
+  it('reports nothing for matching neighbours', () => {
+    // 1x2: end pointing E (rotation 90) next to end pointing W (rotation 270).
+    const tiles = [place(1, 90), place(1, 270)];
+    expect(
+      findInvalidEdges({ tiles, columns: 2, rows: 1, getConnections, allowEdgeConnections: false })
+    ).toEqual([]);
+  });
+
+  it('reports a seam between two placed tiles once, with expected and actual bits', () => {
+    // End pointing E next to an end pointing N: only the left side connects.
+    const tiles = [place(1, 90), place(1, 0)];
+    const edges = findInvalidEdges({
+      tiles,
+      columns: 2,
+      rows: 1,
+      getConnections,
+      allowEdgeConnections: true,
+    });
+    expect(edges).toEqual([
+      { cellIndex: 0, direction: 2, neighborIndex: 1, expected: false, actual: true },
+    ]);
+  });
+
+  it('treats empty cells and borders as no connection', () => {
+    // 2x2 with a vertical line at cell 0: N points at the border, S at empty cell 2.
+    const tiles = buildInitialTiles(4);
+    tiles[0] = place(0);
+    const edges = findInvalidEdges({
+      tiles,
+      columns: 2,
+      rows: 2,
+      getConnections,
+      allowEdgeConnections: false,
+    });
+    expect(edges).toEqual([
+      { cellIndex: 0, direction: 0, neighborIndex: -1, expected: false, actual: true },
+      { cellIndex: 0, direction: 4, neighborIndex: 2, expected: false, actual: true },
+    ]);
+    const withBorders = findInvalidEdges({
+      tiles,
+      columns: 2,
+      rows: 2,
+      getConnections,
+      allowEdgeConnections: true,
+    });
+    expect(withBorders.map((edge) => edge.direction)).toEqual([4]);
+  });
+
+  it('checks seams across opposite edges on a tileable grid', () => {
+    // 1x3 of ends pointing E: the last one wraps around into cell 0, which does not point W.
+    const tiles = [place(1, 90), place(1, 270), place(1, 90)];
+    const flat = findInvalidEdges({
+      tiles,
+      columns: 3,
+      rows: 1,
+      getConnections,
+      allowEdgeConnections: true,
+    });
+    expect(flat).toEqual([]);
+    const wrapped = findInvalidEdges({
+      tiles,
+      columns: 3,
+      rows: 1,
+      getConnections,
+      allowEdgeConnections: true,
+      wrap: true,
+    });
+    expect(wrapped).toEqual([
+      { cellIndex: 0, direction: 6, neighborIndex: 2, expected: true, actual: false },
+    ]);
+  });
+
+  it('limits the report to seams touching the given cells', () => {
+    const tiles = buildInitialTiles(4);
+    tiles[0] = place(0);
+    tiles[3] = place(0);
+    const edges = findInvalidEdges({
+      tiles,
+      columns: 2,
+      rows: 2,
+      getConnections,
+      allowEdgeConnections: true,
+      cells: new Set([3]),
+    });
+    expect(edges).toEqual([
+      { cellIndex: 3, direction: 0, neighborIndex: 1, expected: false, actual: true },
+    ]);
+  });
+});
+
+describe('reconcile report', () => {
+  it('counts fixed and unfixable seams', () => {
+    const edge = { cellIndex: 0, direction: 2, neighborIndex: 1, expected: false, actual: true };
+    const report = buildReconcileReport([edge, { ...edge, direction: 4 }, { ...edge, direction: 6 }], [edge]);
+    expect(report).toMatchObject({ invalidEdges: 3, fixed: 2, unfixable: 1 });
+    expect(formatReconcileSummary(report)).toBe('3 invalid edges, 2 fixed, 1 unfixable');
+    expect(formatReconcileSummary(buildReconcileReport([], []))).toBe('No invalid edges.');
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Tests for importing tile sets from connection-named SVGs (utils/tile-svg-import.ts).
+ */
+jest.mock('@/assets/images/tiles/manifest', () => ({
+  TILE_CATEGORIES: ['angular'],
+  TILE_MANIFEST: { angular: [] },
+}));
+
+import JSZip from 'jszip';
+
+import {
+  buildSvgTileSetPayload,
+  normalizeSvgTileMarkup,
+  parseSvgTileFileName,
+  readSvgTileFilesFromZip,
+} from '../tile-svg-import';
+
+const SVG = '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100"><path d="M50 0V50"/></svg>';
+
+describe('parseSvgTileFileName', () => {
+  it('reads the tile name and connection digits', () => {
+    expect(parseSvgTileFileName('tiles/road_end_10000000.svg')).toEqual({
+      name: 'road_end',
+      connections: '10000000',
+    });
+  });
+
+  it('rejects names without 8 connection digits or not ending in .svg', () => {
+    expect(parseSvgTileFileName('road.svg')).toBeNull();
+    expect(parseSvgTileFileName('road_1000000.svg')).toBeNull();
+    expect(parseSvgTileFileName('road_10000000.png')).toBeNull();
+  });
+});
+
+describe('normalizeSvgTileMarkup', () => {
+  it('removes the prolog, comments, scripts and event handlers', () => {
+    const text =
+      '<?xml version="1.0"?>\n<!-- Generator: Vector Tool -->\n' +
+      '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 10 10" onload="x()">' +
+      '<script>alert(1)</script><path d="M0 0"/></svg>\n';
+    expect(normalizeSvgTileMarkup(text)).toBe(
+      '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 10 10"><path d="M0 0"/></svg>'
+    );
+  });
+
+  it('adds a viewBox from numeric width and height', () => {
+    expect(normalizeSvgTileMarkup('<svg width="64px" height="64"><rect/></svg>')).toBe(
+      '<svg width="64px" height="64" viewBox="0 0 64 64" xmlns="http://www.w3.org/2000/svg"><rect/></svg>'
+    );
+  });
+
+  it('rejects text that is not a sizeable svg', () => {
+    expect(normalizeSvgTileMarkup('<html></html>')).toBeNull();
+    expect(normalizeSvgTileMarkup('<svg width="100%" height="100%"></svg>')).toBeNull();
+  });
+});
+
+describe('buildSvgTileSetPayload', () => {
+  it('creates one SVG tile per named file in file name order', () => {
+    const result = buildSvgTileSetPayload(
+      [
+        { name: 'b_00100010.svg', content: SVG },
+        { name: 'a_10001000.svg', content: SVG },
+        { name: 'notes.svg', content: SVG },
+        { name: 'c_11110000.svg', content: 'broken' },
+      ],
+      { name: 'Roads', category: 'angular' as const }
+    );
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.payload).toMatchObject({ kind: 'tileSet', name: 'Roads', categories: ['angular'] });
+    expect(result.payload.tiles.map((t) => [t.name, t.connections])).toEqual([
+      ['a', '10001000'],
+      ['b', '00100010'],
+    ]);
+    expect(result.payload.tiles[0].svg).toBe(SVG);
+    expect(result.skipped).toEqual(['c_11110000.svg', 'notes.svg']);
+  });
+
+  it('fails when no file can be used', () => {
+    expect(buildSvgTileSetPayload([], { name: 'x', category: 'angular' as const })).toEqual({
+      ok: false,
+      error: 'No SVG files found',
+    });
+    expect(
+      buildSvgTileSetPayload([{ name: 'x.svg', content: SVG }], {
+        name: 'x',
+        category: 'angular' as const,
+      }).ok
+    ).toBe(false);
+  });
+});
+
+describe('readSvgTileFilesFromZip', () => {
+  it('reads SVGs from any folder and ignores other entries', async () => {
+    const zip = new JSZip();
+    zip.file('set/a_10000000.svg', SVG);
+    zip.file('set/readme.txt', 'hello');
+    zip.file('__MACOSX/set/._a_10000000.svg', 'fork');
+    zip.file('.hidden.svg', SVG);
+    const base64 = await zip.generateAsync({ type: 'base64' });
+    expect(await readSvgTileFilesFromZip(base64, { base64: true })).toEqual([
+      { name: 'a_10000000.svg', content: SVG },
+    ]);
+  });
+});
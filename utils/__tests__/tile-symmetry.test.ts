@@ -0,0 +1,150 @@
+/**
+ * Tests for canvas symmetry transforms (utils/tile-symmetry.ts).
+ */
+import { transformConnections, type TileConnections } from '../tile-compat';
+import {
+  composeSymmetry,
+  getExtraSymmetryTransforms,
+  getSymmetryTransforms,
+  isSymmetryRepresentative,
+  SYMMETRY_IDENTITY,
+  SYMMETRY_MIRROR_X,
+  SYMMETRY_MIRROR_Y,
+  SYMMETRY_ROTATE_180,
+  SYMMETRY_ROTATE_90,
+  SYMMETRY_TRANSPOSE,
+  transformCell,
+  transformConnectionsBySymmetry,
+  transformTileBySymmetry,
+} from '../tile-symmetry';
+
+// N, NE and E set: no symmetry of its own, so every transform gives a different result.
+const base: TileConnections = [true, true, true, false, false, false, false, false];
+
+const connectionsOf = (tile: { rotation: number; mirrorX: boolean; mirrorY: boolean }) =>
+  transformConnections(base, tile.rotation, tile.mirrorX, tile.mirrorY);
+
+describe('transformCell', () => {
+  it('rotates 90° clockwise about the center of a square region', () => {
+    expect(transformCell(0, 0, 4, 4, SYMMETRY_ROTATE_90)).toEqual({ row: 0, col: 3 });
+    expect(transformCell(1, 3, 4, 4, SYMMETRY_ROTATE_90)).toEqual({ row: 3, col: 2 });
+  });
+
+  it('mirrors across the main diagonal', () => {
+    expect(transformCell(0, 2, 3, 3, SYMMETRY_TRANSPOSE)).toEqual({ row: 2, col: 0 });
+    expect(transformCell(1, 1, 3, 3, SYMMETRY_TRANSPOSE)).toEqual({ row: 1, col: 1 });
+  });
+
+  it('matches the mirror tool for horizontal, vertical and 180° on any region', () => {
+    expect(transformCell(1, 0, 3, 5, SYMMETRY_MIRROR_X)).toEqual({ row: 1, col: 4 });
+    expect(transformCell(0, 1, 3, 5, SYMMETRY_MIRROR_Y)).toEqual({ row: 2, col: 1 });
+    expect(transformCell(0, 1, 3, 5, SYMMETRY_ROTATE_180)).toEqual({ row: 2, col: 3 });
+  });
+
+  it('returns null for quarter turns and diagonals of non-square regions', () => {
+    expect(transformCell(0, 0, 3, 5, SYMMETRY_ROTATE_90)).toBeNull();
+    expect(transformCell(0, 0, 3, 5, SYMMETRY_TRANSPOSE)).toBeNull();
+  });
+});
+
+describe('transformTileBySymmetry', () => {
+  it('keeps connections valid: the copy has the transformed connections', () => {
+    for (let transform = 0; transform < 8; transform += 1) {
+      for (const rotation of [0, 90, 180, 270]) {
+        for (const mirrorX of [false, true]) {
+          for (const mirrorY of [false, true]) {
+            const tile = { imageIndex: 0, rotation, mirrorX, mirrorY };
+            const copy = transformTileBySymmetry(tile, transform);
+            expect(connectionsOf(copy)).toEqual(
+              transformConnectionsBySymmetry(connectionsOf(tile), transform)
+            );
+          }
+        }
+      }
+    }
+  });
+
+  it('uses the mirror tool representation for mirrors and 180°', () => {
+    const tile = { imageIndex: 2, rotation: 90, mirrorX: false, mirrorY: false };
+    expect(transformTileBySymmetry(tile, SYMMETRY_MIRROR_X)).toEqual({ ...tile, mirrorX: true });
+    expect(transformTileBySymmetry(tile, SYMMETRY_MIRROR_Y)).toEqual({ ...tile, mirrorY: true });
+    expect(transformTileBySymmetry(tile, SYMMETRY_ROTATE_180)).toEqual({ ...tile, rotation: 270 });
+  });
+});
+
+describe('getSymmetryTransforms', () => {
+  const settings = { mirrorHorizontal: false, mirrorVertical: false };
+
+  it('builds the group for each mode', () => {
+    expect(getSymmetryTransforms({ ...settings, symmetryMode: 'none' }, 4, 4)).toEqual([
+      SYMMETRY_IDENTITY,
+    ]);
+    expect(getSymmetryTransforms({ ...settings, symmetryMode: 'rotate2' }, 4, 6)).toEqual([
+      SYMMETRY_IDENTITY,
+      SYMMETRY_ROTATE_180,
+    ]);
+    expect(getSymmetryTransforms({ ...settings, symmetryMode: 'rotate4' }, 4, 4)).toHaveLength(4);
+    expect(getSymmetryTransforms({ ...settings, symmetryMode: 'diagonal' }, 4, 4)).toEqual([
+      SYMMETRY_IDENTITY,
+      SYMMETRY_TRANSPOSE,
+    ]);
+  });
+
+  it('ignores square-only modes on non-square regions', () => {
+    expect(getSymmetryTransforms({ ...settings, symmetryMode: 'rotate4' }, 4, 6)).toEqual([
+      SYMMETRY_IDENTITY,
+    ]);
+  });
+
+  it('closes mirrors and diagonal into the full 8-fold group', () => {
+    const transforms = getSymmetryTransforms(
+      { mirrorHorizontal: true, mirrorVertical: false, symmetryMode: 'diagonal' },
+      4,
+      4
+    );
+    expect([...transforms].sort()).toEqual([0, 1, 2, 3, 4, 5, 6, 7]);
+    expect(transforms.slice(0, 2)).toEqual([SYMMETRY_IDENTITY, SYMMETRY_MIRROR_X]);
+  });
+
+  it('leaves out the copies the mirror tool already makes', () => {
+    expect(
+      getExtraSymmetryTransforms(
+        { mirrorHorizontal: true, mirrorVertical: true, symmetryMode: 'rotate2' },
+        4,
+        4
+      )
+    ).toEqual([]);
+    expect(
+      getExtraSymmetryTransforms(
+        { mirrorHorizontal: false, mirrorVertical: false, symmetryMode: 'rotate4' },
+        4,
+        4
+      ).sort()
+    ).toEqual([SYMMETRY_ROTATE_90, SYMMETRY_ROTATE_180, 3]);
+  });
+});
+
+describe('isSymmetryRepresentative', () => {
+  it('picks exactly one cell per 4-fold orbit', () => {
+    const transforms = getSymmetryTransforms(
+      { mirrorHorizontal: false, mirrorVertical: false, symmetryMode: 'rotate4' },
+      5,
+      5
+    );
+    let count = 0;
+    for (let row = 0; row < 5; row += 1) {
+      for (let col = 0; col < 5; col += 1) {
+        if (isSymmetryRepresentative(row, col, 5, 5, transforms)) count += 1;
+      }
+    }
+    // 24 cells in orbits of four, plus the center.
+    expect(count).toBe(7);
+  });
+});
+
+describe('composeSymmetry', () => {
+  it('composes two quarter turns into a half turn', () => {
+    expect(composeSymmetry(SYMMETRY_ROTATE_90, SYMMETRY_ROTATE_90)).toBe(SYMMETRY_ROTATE_180);
+    expect(composeSymmetry(SYMMETRY_MIRROR_X, SYMMETRY_MIRROR_Y)).toBe(SYMMETRY_ROTATE_180);
+  });
+});
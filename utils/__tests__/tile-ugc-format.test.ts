@@ -63,6 +63,36 @@ describe('tile-ugc-format', () => {
       expect(result.payload.tiles[0].tiles).toHaveLength(16);
     });
 
+    it('round-trips SVG tiles and drops invalid markup', () => {
+      const svgTile = (id: string, svg: string) => ({
+        id,
+        name: id,
+        grid: { rows: 4, columns: 4 },
+        preferredTileSize: 45,
+        tiles: [],
+        svg,
+        connections: '10100000',
+      });
+      const json = JSON.stringify({
+        kind: 'tileSet',
+        v: 1,
+        name: 'Vector',
+        category: validCategory,
+        tiles: [
+          svgTile('a', '<svg viewBox="0 0 10 10"><path d="M0 0"/></svg>'),
+          svgTile('b', 'not svg'),
+        ],
+      });
+      const result = deserializeTileSet(json);
+      expect(result.ok).toBe(true);
+      if (!result.ok) return;
+      expect(result.payload.tiles[0]).toMatchObject({
+        svg: '<svg viewBox="0 0 10 10" xmlns="http://www.w3.org/2000/svg"><path d="M0 0"/></svg>',
+        connections: '10100000',
+      });
+      expect(result.payload.tiles[1].svg).toBeUndefined();
+    });
+
     it('returns error for invalid JSON', () => {
       const result = deserializeTileSet('not json');
       expect(result.ok).toBe(false);
@@ -0,0 +1,55 @@
+/**
+ * Tests for random palette weights (utils/tile-weights.ts).
+ */
+import {
+  buildCategoryByName,
+  emptyTileWeights,
+  getTileWeight,
+  getTileWeightSetKey,
+  normalizeTileWeights,
+  setTileWeight,
+} from '../tile-weights';
+
+const categoryByName = buildCategoryByName({
+  angular: [{ name: 'line_10001000.svg' }],
+  curved: [{ name: 'curve_10100000.svg' }, { name: 'line_10001000.svg' }],
+});
+
+describe('tile-weights', () => {
+  it('resolves set keys for UGC and built-in tiles', () => {
+    expect(getTileWeightSetKey('set-1:tile_1_10000000.svg', categoryByName)).toBe('set-1');
+    expect(getTileWeightSetKey('curve_10100000.svg', categoryByName)).toBe('curved');
+    expect(getTileWeightSetKey('unknown.svg', categoryByName)).toBeNull();
+    // Names listed in several categories belong to the first one.
+    expect(getTileWeightSetKey('line_10001000.svg', categoryByName)).toBe('angular');
+  });
+
+  it('multiplies tile and set weights, defaulting to 1', () => {
+    let weights = emptyTileWeights();
+    expect(getTileWeight('line_10001000.svg', weights, categoryByName)).toBe(1);
+    weights = setTileWeight(weights, 'tiles', 'line_10001000.svg', 0.5);
+    weights = setTileWeight(weights, 'sets', 'angular', 4);
+    expect(getTileWeight('line_10001000.svg', weights, categoryByName)).toBe(2);
+    expect(getTileWeight('curve_10100000.svg', weights, categoryByName)).toBe(1);
+  });
+
+  it('setting the default weight removes the override', () => {
+    const weights = setTileWeight(
+      setTileWeight(emptyTileWeights(), 'tiles', 'a.svg', 3),
+      'tiles',
+      'a.svg',
+      1
+    );
+    expect(weights.tiles).toEqual({});
+  });
+
+  it('normalizes persisted weights and drops invalid entries', () => {
+    expect(
+      normalizeTileWeights({
+        tiles: { 'a.svg': 2, 'b.svg': -1, 'c.svg': 'x', 'd.svg': 1 },
+        sets: { angular: 0 },
+      })
+    ).toEqual({ tiles: { 'a.svg': 2 }, sets: { angular: 0 } });
+    expect(normalizeTileWeights(undefined)).toEqual(emptyTileWeights());
+  });
+});
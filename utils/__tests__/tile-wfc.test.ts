@@ -0,0 +1,214 @@
+/**
+ * Tests for the Wave Function Collapse generator (utils/tile-wfc.ts).
+ */
+import { createSeededRandom } from '../seeded-random';
+import type { TileConnections } from '../tile-compat';
+import { buildInitialTiles, type Tile } from '../tile-grid';
+import { findInvalidEdges } from '../tile-seams';
+import { solveWaveFunctionCollapse } from '../tile-wfc';
+import { buildCandidates, getConnections } from './compat-fixture';
+
+const dirDr = [-1, -1, 0, 1, 1, 1, 0, -1];
+const dirDc = [0, 1, 1, 1, 0, -1, -1, -1];
+
+const countInvalidEdges = (
+  tiles: Tile[],
+  columns: number,
+  rows: number,
+  allowEdgeConnections: boolean
+) => {
+  let invalid = 0;
+  tiles.forEach((tile, cell) => {
+    const conn = getConnections(tile) as TileConnections | null;
+    if (!conn) return;
+    const row = Math.floor(cell / columns);
+    const col = cell % columns;
+    for (let d = 0; d < 8; d += 1) {
+      const r = row + dirDr[d];
+      const c = col + dirDc[d];
+      if (r < 0 || c < 0 || r >= rows || c >= columns) {
+        if (!allowEdgeConnections && conn[d]) invalid += 1;
+        continue;
+      }
+      const neighbor = getConnections(tiles[r * columns + c]) as TileConnections | null;
+      if (neighbor && neighbor[(d + 4) % 8] !== conn[d]) invalid += 1;
+    }
+  });
+  return invalid;
+};
+
+describe('solveWaveFunctionCollapse', () => {
+  it('fills every editable cell with a tiling that has no invalid edges', () => {
+    const columns = 6;
+    const rows = 6;
+    const result = solveWaveFunctionCollapse({
+      columns,
+      rows,
+      tiles: buildInitialTiles(columns * rows),
+      editableCells: Array.from({ length: columns * rows }, (_, i) => i),
+      candidates: buildCandidates([0, 1, 2, 3, 4]),
+      getConnections,
+      allowEdgeConnections: false,
+      random: createSeededRandom(7),
+    });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.tiles.every((t) => t.imageIndex >= 0)).toBe(true);
+    expect(countInvalidEdges(result.tiles, columns, rows, false)).toBe(0);
+  });
+
+  it('keeps non-editable cells unchanged and satisfies their connections', () => {
+    const columns = 4;
+    const rows = 4;
+    const tiles = buildInitialTiles(columns * rows);
+    // Locked cross in the middle forces its four neighbours to connect back.
+    const lockedIndex = 1 * columns + 1;
+    tiles[lockedIndex] = { imageIndex: 3, rotation: 0, mirrorX: false, mirrorY: false };
+    const editable = Array.from({ length: columns * rows }, (_, i) => i).filter(
+      (i) => i !== lockedIndex
+    );
+    const result = solveWaveFunctionCollapse({
+      columns,
+      rows,
+      tiles,
+      editableCells: editable,
+      candidates: buildCandidates([0, 1, 2, 3, 4]),
+      getConnections,
+      allowEdgeConnections: false,
+      random: createSeededRandom(3),
+    });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.tiles[lockedIndex]).toEqual(tiles[lockedIndex]);
+    expect(countInvalidEdges(result.tiles, columns, rows, false)).toBe(0);
+  });
+
+  it('never places a zero-weight tile when alternatives fit', () => {
+    const columns = 5;
+    const rows = 5;
+    const candidates = buildCandidates([0, 1, 2, 3, 4]).map((candidate) => ({
+      ...candidate,
+      weight: candidate.tile.imageIndex === 3 ? 0 : 1,
+    }));
+    const result = solveWaveFunctionCollapse({
+      columns,
+      rows,
+      tiles: buildInitialTiles(columns * rows),
+      editableCells: Array.from({ length: columns * rows }, (_, i) => i),
+      candidates,
+      getConnections,
+      allowEdgeConnections: false,
+      random: createSeededRandom(5),
+    });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.tiles.some((t) => t.imageIndex === 3)).toBe(false);
+    expect(countInvalidEdges(result.tiles, columns, rows, false)).toBe(0);
+  });
+
+  it('reports when no valid tiling exists', () => {
+    // Only the cross tile is available, but border connections are not allowed.
+    const result = solveWaveFunctionCollapse({
+      columns: 2,
+      rows: 2,
+      tiles: buildInitialTiles(4),
+      editableCells: [0, 1, 2, 3],
+      candidates: buildCandidates([3]),
+      getConnections,
+      allowEdgeConnections: false,
+      random: createSeededRandom(1),
+    });
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error).toMatch(/No valid tiling/);
+    }
+  });
+
+  it('produces mirrored placements when mirror toggles are on', () => {
+    const columns = 4;
+    const rows = 4;
+    const result = solveWaveFunctionCollapse({
+      columns,
+      rows,
+      tiles: buildInitialTiles(columns * rows),
+      editableCells: Array.from({ length: columns * rows }, (_, i) => i),
+      candidates: buildCandidates([0, 1, 2, 4]),
+      getConnections,
+      allowEdgeConnections: false,
+      mirrorHorizontal: true,
+      mirrorVertical: true,
+      random: createSeededRandom(11),
+    });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(countInvalidEdges(result.tiles, columns, rows, false)).toBe(0);
+    for (let row = 0; row < rows; row += 1) {
+      for (let col = 0; col < columns; col += 1) {
+        const tile = result.tiles[row * columns + col];
+        const mirror = result.tiles[row * columns + (columns - 1 - col)];
+        const conn = getConnections(tile) as TileConnections;
+        const mirrorConn = getConnections(mirror) as TileConnections;
+        // Horizontal mirror: E and W swap.
+        expect(mirrorConn[2]).toBe(conn[6]);
+        expect(mirrorConn[0]).toBe(conn[0]);
+      }
+    }
+  });
+
+  it('matches tiles across opposite edges on a tileable grid', () => {
+    const columns = 4;
+    const rows = 3;
+    // Lines and crosses only: every cell connects N and S, so the top and bottom rows must meet.
+    const result = solveWaveFunctionCollapse({
+      columns,
+      rows,
+      tiles: buildInitialTiles(columns * rows),
+      editableCells: Array.from({ length: columns * rows }, (_, i) => i),
+      candidates: buildCandidates([1, 3]).filter((candidate) => candidate.connections?.[0]),
+      getConnections,
+      allowEdgeConnections: false,
+      wrap: true,
+      random: createSeededRandom(5),
+    });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(
+      findInvalidEdges({
+        tiles: result.tiles,
+        columns,
+        rows,
+        getConnections,
+        allowEdgeConnections: false,
+        wrap: true,
+      })
+    ).toEqual([]);
+  });
+
+  it('produces rotationally symmetric tilings with 4-fold symmetry', () => {
+    const size = 5;
+    const result = solveWaveFunctionCollapse({
+      columns: size,
+      rows: size,
+      tiles: buildInitialTiles(size * size),
+      editableCells: Array.from({ length: size * size }, (_, i) => i),
+      candidates: buildCandidates([0, 1, 2, 3, 4]),
+      getConnections,
+      allowEdgeConnections: false,
+      symmetryMode: 'rotate4',
+      random: createSeededRandom(13),
+    });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(countInvalidEdges(result.tiles, size, size, false)).toBe(0);
+    for (let row = 0; row < size; row += 1) {
+      for (let col = 0; col < size; col += 1) {
+        const conn = getConnections(result.tiles[row * size + col]) as TileConnections;
+        // Quarter turn clockwise: (row, col) -> (col, size - 1 - row), N -> E.
+        const turned = getConnections(result.tiles[col * size + (size - 1 - row)]) as TileConnections;
+        for (let d = 0; d < 8; d += 1) {
+          expect(turned[(d + 2) % 8]).toBe(conn[d]);
+        }
+      }
+    }
+  });
+});
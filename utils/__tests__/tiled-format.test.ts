@@ -0,0 +1,177 @@
+/**
+ * Tests for Tiled map export/import (utils/tiled-format.ts).
+ */
+jest.mock('@/assets/images/tiles/manifest', () => ({
+  TILE_CATEGORIES: ['angular'],
+  TILE_MANIFEST: { angular: [] },
+}));
+
+import {
+  buildTiledMap,
+  getTiledFlipFlags,
+  getTileOrientationFromTiledGid,
+  isTiledMapText,
+  parseTiledMap,
+  serializeTiledJson,
+  serializeTmx,
+  tiledMapToTileFile,
+  type TiledExportInput,
+} from '../tiled-format';
+import { getLevelGridInfo, type Tile } from '../tile-grid';
+
+const H = 0x80000000;
+const V = 0x40000000;
+const D = 0x20000000;
+
+const sourceNames = ['line_10001000.svg', 'corner_10100000.svg', 'set-1:tile_0.svg'];
+
+const tile = (imageIndex: number, rotation = 0, mirrorX = false, mirrorY = false): Tile => ({
+  imageIndex,
+  rotation,
+  mirrorX,
+  mirrorY,
+  ...(imageIndex >= 0 && { name: sourceNames[imageIndex] }),
+});
+
+const columns = 5;
+const rows = 3;
+const level2 = getLevelGridInfo(columns, rows, 2)!;
+
+const input: TiledExportInput = {
+  columns,
+  rows,
+  tileSize: 32,
+  sourceNames,
+  tiles: [
+    tile(0), tile(0, 90), tile(1, 180), tile(1, 270), tile(-1),
+    tile(0, 0, true), tile(1, 90, false, true), tile(2), tile(-1), tile(-1),
+    tile(-1), tile(-1), tile(-1), tile(-1), tile(2, 180, true),
+  ],
+  layers: {
+    2: level2.cells.map((_, index) =>
+      index === 0 ? tile(1, 90, true) : index === level2.cells.length - 1 ? tile(0, 270) : tile(-1)
+    ),
+  },
+  layerVisibility: { 2: false },
+  tileset: { image: 'map_tiles.png', width: 64, height: 64, tileSize: 32 },
+  largeTileset: { image: 'map_tiles_large.png', width: 128, height: 128, tileSize: 64 },
+};
+
+const importOptions = { name: 'Level', category: 'angular' as const, isKnownName: () => true };
+
+/** Compare tiles by how they look: the importer writes mirrorY as mirrorX + 180°. */
+const looks = (t: Tile) =>
+  t.imageIndex < 0
+    ? 'empty'
+    : `${t.name}|${getTiledFlipFlags(t)}`;
+
+describe('Tiled flip flags', () => {
+  it('match Tiled rotation conventions', () => {
+    expect(getTiledFlipFlags(tile(0))).toBe(0);
+    expect(getTiledFlipFlags(tile(0, 90))).toBe((D | H) >>> 0);
+    expect(getTiledFlipFlags(tile(0, 180))).toBe((H | V) >>> 0);
+    expect(getTiledFlipFlags(tile(0, 270))).toBe((D | V) >>> 0);
+    expect(getTiledFlipFlags(tile(0, 0, true))).toBe(H);
+    expect(getTiledFlipFlags(tile(0, 0, false, true))).toBe(V);
+  });
+
+  it('read back to the same orientation', () => {
+    for (const rotation of [0, 90, 180, 270]) {
+      for (const mirrorX of [false, true]) {
+        const t = tile(0, rotation, mirrorX);
+        expect(getTileOrientationFromTiledGid((1 + getTiledFlipFlags(t)) >>> 0)).toEqual({
+          rotation,
+          mirrorX,
+          mirrorY: false,
+        });
+      }
+    }
+  });
+});
+
+describe('buildTiledMap', () => {
+  const map = buildTiledMap(input);
+
+  it('writes level 1 as a tile layer with one gid per cell', () => {
+    const layer = map.layers[0];
+    expect(layer.type).toBe('tilelayer');
+    if (layer.type !== 'tilelayer') return;
+    expect(layer.data).toHaveLength(columns * rows);
+    expect(layer.data[0]).toBe(1);
+    expect(layer.data[4]).toBe(0);
+    expect(layer.data[1]).toBe((1 + (D | H)) >>> 0);
+  });
+
+  it('writes coarser levels as tile objects from the large tileset', () => {
+    const layer = map.layers[1];
+    expect(layer).toMatchObject({ type: 'objectgroup', name: 'Level 2', visible: false });
+    if (layer.type !== 'objectgroup') return;
+    expect(layer.objects).toHaveLength(2);
+    expect(layer.objects.every((o) => o.width === 64 && o.height === 64)).toBe(true);
+    expect((layer.objects[0].gid & 0x0fffffff) - map.tilesets[1].firstgid).toBe(1);
+  });
+
+  it('describes each tileset tile by source name', () => {
+    expect(map.tilesets.map((t) => t.firstgid)).toEqual([1, 4]);
+    expect(map.tilesets[0].tiles[2].properties).toEqual([
+      { name: 'name', type: 'string', value: 'set-1:tile_0.svg' },
+    ]);
+  });
+});
+
+describe('tiledMapToTileFile', () => {
+  const expectRoundTrip = (text: string) => {
+    expect(isTiledMapText(text)).toBe(true);
+    const parsed = parseTiledMap(text);
+    expect(parsed.ok).toBe(true);
+    if (!parsed.ok) return;
+    const result = tiledMapToTileFile(parsed.map, importOptions);
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    const { payload } = result;
+    expect(payload.grid).toEqual({ rows, columns });
+    expect(payload.preferredTileSize).toBe(32);
+    expect(payload.tileSetIds).toEqual(['set-1']);
+    expect(payload.layerVisibility).toEqual({ 2: false });
+    expect(payload.tiles.map(looks)).toEqual(input.tiles.map(looks));
+    expect(payload.layers?.[2].map(looks)).toEqual(input.layers![2].map(looks));
+    for (const t of payload.tiles) {
+      if (t.imageIndex >= 0) expect(payload.sourceNames[t.imageIndex]).toBe(t.name);
+    }
+  };
+
+  it('round-trips through .tmx', () => {
+    expectRoundTrip(serializeTmx(buildTiledMap(input)));
+  });
+
+  it('round-trips through Tiled JSON', () => {
+    expectRoundTrip(serializeTiledJson(buildTiledMap(input)));
+  });
+
+  it('names tiles from per-tile images when there is no name property', () => {
+    const tmx = serializeTmx(buildTiledMap({ ...input, layers: undefined })).replace(
+      /<properties>\s*<property name="name" value="([^"]*)"\/>\s*<\/properties>/g,
+      '<image source="tiles/$1" width="32" height="32"/>'
+    );
+    const parsed = parseTiledMap(tmx);
+    expect(parsed.ok && tiledMapToTileFile(parsed.map, importOptions).ok).toBe(true);
+  });
+
+  it('rejects maps whose tiles this app does not know', () => {
+    const parsed = parseTiledMap(serializeTiledJson(buildTiledMap(input)));
+    if (!parsed.ok) throw new Error(parsed.error);
+    expect(
+      tiledMapToTileFile(parsed.map, { ...importOptions, isKnownName: (n) => !n.includes(':') })
+    ).toEqual({ ok: false, error: 'Unknown tiles: set-1:tile_0.svg' });
+  });
+
+  it('rejects unsupported maps', () => {
+    expect(parseTiledMap('<map><tileset firstgid="1" source="a.tsx"/></map>').ok).toBe(false);
+    expect(
+      parseTiledMap(
+        '<map orientation="orthogonal" width="1" height="1" tilewidth="8"><layer width="1" height="1"><data encoding="base64">AAAA</data></layer></map>'
+      )
+    ).toEqual({ ok: false, error: 'Only CSV layer data is supported' });
+    expect(isTiledMapText('{"v":1,"tiles":[]}')).toBe(false);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Tests for the timelapse encoders (utils/timelapse-export.ts).
+ */
+import { inflate } from 'pako';
+
+import {
+  encodeApng,
+  encodeGif,
+  sampleTimelapseFrames,
+  type RgbaFrame,
+} from '../timelapse-export';
+
+const solidFrame = (width: number, height: number, rgba: [number, number, number, number]): RgbaFrame => {
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) data.set(rgba, i);
+  return { width, height, data };
+};
+
+type PngChunk = { type: string; data: Uint8Array };
+
+const readChunks = (bytes: Uint8Array): PngChunk[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: PngChunk[] = [];
+  let offset = 8;
+  while (offset < bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    chunks.push({ type, data: bytes.subarray(offset + 8, offset + 8 + length) });
+    offset += 12 + length;
+  }
+  return chunks;
+};
+
+describe('sampleTimelapseFrames', () => {
+  it('keeps short histories as they are', () => {
+    expect(sampleTimelapseFrames([1, 2, 3], 5)).toEqual([1, 2, 3]);
+  });
+
+  it('spreads frames evenly and keeps the first and last', () => {
+    const frames = Array.from({ length: 101 }, (_, i) => i);
+    expect(sampleTimelapseFrames(frames, 5)).toEqual([0, 25, 50, 75, 100]);
+  });
+});
+
+describe('encodeApng', () => {
+  const frames = [solidFrame(3, 2, [255, 0, 0, 255]), solidFrame(3, 2, [0, 0, 255, 255])];
+
+  it('writes one control chunk per frame and holds the last frame', () => {
+    const bytes = encodeApng(frames, 4);
+    expect(Array.from(bytes.subarray(0, 8))).toEqual([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+    const chunks = readChunks(bytes);
+    expect(chunks.map((c) => c.type)).toEqual(['IHDR', 'acTL', 'fcTL', 'IDAT', 'fcTL', 'fdAT', 'IEND']);
+    const actl = new DataView(chunks[1].data.buffer, chunks[1].data.byteOffset);
+    expect(actl.getUint32(0)).toBe(2);
+    const delay = (chunk: PngChunk) => new DataView(chunk.data.buffer, chunk.data.byteOffset).getUint16(20);
+    expect(delay(chunks[2])).toBe(250);
+    expect(delay(chunks[4])).toBe(2250);
+  });
+
+  it('stores every frame losslessly', () => {
+    const chunks = readChunks(encodeApng(frames, 4));
+    const firstRow = inflate(chunks[3].data).subarray(0, 13);
+    expect(Array.from(firstRow)).toEqual([0, 255, 0, 0, 255, 255, 0, 0, 255, 255, 0, 0, 255]);
+    const second = inflate(chunks[5].data.subarray(4));
+    expect(Array.from(second.subarray(1, 5))).toEqual([0, 0, 255, 255]);
+  });
+
+  it('rejects frames of different sizes', () => {
+    expect(() => encodeApng([frames[0], solidFrame(2, 2, [0, 0, 0, 255])], 4)).toThrow(
+      'Frames must all have the same size'
+    );
+  });
+});
+
+describe('encodeGif', () => {
+  it('writes a looping GIF with one image per frame', () => {
+    const bytes = encodeGif(
+      [solidFrame(4, 4, [255, 255, 255, 255]), solidFrame(4, 4, [0, 0, 0, 255])],
+      2
+    );
+    const text = String.fromCharCode(...bytes);
+    expect(text.startsWith('GIF89a')).toBe(true);
+    expect(text).toContain('NETSCAPE2.0');
+    expect(bytes[bytes.length - 1]).toBe(0x3b);
+    // Graphic control extensions carry the delay in hundredths of a second.
+    const delays: number[] = [];
+    for (let i = 0; i < bytes.length - 5; i += 1) {
+      if (bytes[i] === 0x21 && bytes[i + 1] === 0xf9 && bytes[i + 2] === 4) {
+        delays.push(bytes[i + 4] | (bytes[i + 5] << 8));
+      }
+    }
+    expect(delays).toEqual([50, 250]);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Tests for the per-file undo command log (utils/undo-log.ts).
+ */
+jest.mock('@/assets/images/tiles/manifest', () => ({
+  TILE_CATEGORIES: ['angular', 'curved'],
+  TILE_MANIFEST: { angular: [], curved: [] },
+}));
+
+import type { TileFile } from '@/hooks/use-tile-files';
+import {
+  diffUndoStates,
+  MAX_UNDO_COMMANDS,
+  normalizeUndoLog,
+  recordUndoChanges,
+  redoFileCommand,
+  undoFileCommand,
+} from '../undo-log';
+import type { Tile } from '../tile-grid';
+
+const tile = (imageIndex: number): Tile => ({
+  imageIndex,
+  rotation: 0,
+  mirrorX: false,
+  mirrorY: false,
+});
+
+const file: TileFile = {
+  id: 'f',
+  name: 'File',
+  tiles: [tile(0), tile(-1), tile(-1), tile(1)],
+  grid: { rows: 2, columns: 2 },
+  layers: { 2: [tile(2)] },
+  category: 'angular',
+  categories: ['angular'],
+  tileSetIds: [],
+  sourceNames: [],
+  preferredTileSize: 45,
+  lineWidth: 4,
+  lineColor: '#ffffff',
+  thumbnailUri: null,
+  previewUri: null,
+  updatedAt: 1,
+};
+
+const setCell = (source: TileFile, index: number, imageIndex: number): TileFile => ({
+  ...source,
+  tiles: source.tiles.map((t, i) => (i === index ? tile(imageIndex) : t)),
+});
+
+describe('diffUndoStates', () => {
+  it('lists changed cells, layers, fields and grid size', () => {
+    expect(diffUndoStates(file, { ...file })).toEqual([]);
+    expect(diffUndoStates(file, setCell(file, 1, 3))).toEqual([
+      { kind: 'cells', level: 1, cells: [[1, tile(-1), tile(3)]] },
+    ]);
+    const resized: TileFile = {
+      ...file,
+      grid: { rows: 1, columns: 2 },
+      tiles: file.tiles.slice(0, 2),
+      layers: undefined,
+      layerVisibility: { 2: false },
+    };
+    expect(diffUndoStates(file, resized)).toEqual([
+      { kind: 'grid', before: { rows: 2, columns: 2 }, after: { rows: 1, columns: 2 } },
+      { kind: 'layer', level: 1, before: file.tiles, after: resized.tiles },
+      { kind: 'layer', level: 2, before: file.layers![2], after: null },
+      { kind: 'field', field: 'layerVisibility', before: {}, after: { 2: false } },
+    ]);
+  });
+});
+
+describe('recordUndoChanges', () => {
+  it('joins changes of the same step and starts a new command otherwise', () => {
+    const first = recordUndoChanges(file, setCell(file, 1, 3), 10);
+    const joined = recordUndoChanges(first, { ...first, layers: { 2: [tile(4)] } }, 10);
+    expect(joined.undoLog!.past).toHaveLength(1);
+    expect(joined.undoLog!.past[0].changes).toHaveLength(2);
+    const next = recordUndoChanges(joined, setCell(joined, 2, 5), 11);
+    expect(next.undoLog!.past.map((command) => command.step)).toEqual([10, 11]);
+    expect(recordUndoChanges(next, { ...next, name: 'Renamed' }, 12).undoLog).toBe(next.undoLog);
+  });
+
+  it('keeps the newest commands and clears redo', () => {
+    let current = file;
+    for (let step = 0; step < MAX_UNDO_COMMANDS + 5; step += 1) {
+      current = recordUndoChanges(current, setCell(current, 1, step), step);
+    }
+    expect(current.undoLog!.past).toHaveLength(MAX_UNDO_COMMANDS);
+    expect(current.undoLog!.past[0].step).toBe(5);
+    const undone = undoFileCommand(current)!;
+    expect(undone.undoLog!.future).toHaveLength(1);
+    expect(recordUndoChanges(undone, setCell(undone, 0, 9), 999).undoLog!.future).toEqual([]);
+  });
+});
+
+describe('undoFileCommand / redoFileCommand', () => {
+  it('reverts and re-applies a step across layers, locks and grid size', () => {
+    const step1 = recordUndoChanges(file, setCell(file, 1, 3), 1);
+    const edited: TileFile = {
+      ...step1,
+      grid: { rows: 1, columns: 2 },
+      tiles: step1.tiles.slice(0, 2),
+      layers: { 2: [tile(5)], 3: [tile(6), tile(6)] },
+      lockedCells: [0],
+    };
+    const step2 = recordUndoChanges(step1, edited, 2);
+
+    const undone = undoFileCommand(step2)!;
+    expect(undone.grid).toEqual(file.grid);
+    expect(undone.tiles).toEqual(step1.tiles);
+    expect(undone.layers).toEqual(file.layers);
+    expect(undone.lockedCells).toEqual([]);
+
+    const first = undoFileCommand(undone)!;
+    expect(first.tiles).toEqual(file.tiles);
+    expect(undoFileCommand(first)).toBeNull();
+
+    const redone = redoFileCommand(redoFileCommand(first)!)!;
+    expect(redone.grid).toEqual(edited.grid);
+    expect(redone.tiles).toEqual(edited.tiles);
+    expect(redone.layers).toEqual(edited.layers);
+    expect(redone.lockedCells).toEqual([0]);
+    expect(redoFileCommand(redone)).toBeNull();
+  });
+});
+
+describe('normalizeUndoLog', () => {
+  it('drops malformed logs and commands', () => {
+    expect(normalizeUndoLog(undefined)).toBeUndefined();
+    expect(normalizeUndoLog({ past: 'x', future: [] })).toBeUndefined();
+    expect(normalizeUndoLog({ past: [], future: [] })).toBeUndefined();
+    const command = { step: 1, changes: [] };
+    expect(normalizeUndoLog({ past: [command, { step: 'x' }], future: [null] })).toEqual({
+      past: [command],
+      future: [],
+    });
+  });
+});
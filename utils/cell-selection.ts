@@ -0,0 +1,274 @@
+/**
+ * Freeform canvas selections: any set of cells rather than only a rectangle.
+ *
+ * A selection keeps start/end (the bounding rectangle, as before) so rectangle-based
+ * code keeps working; `cells` lists the exact cells when the shape is not a full
+ * rectangle. Selections are built by the selection tools (rectangle, lasso, same tile,
+ * connected component) and combined with replace / add / subtract / invert.
+ */
+import { getCellIndicesInRegion, getRegionBounds } from './locked-regions';
+import { getNeighborCellIndex, type LevelCellBounds, type Tile } from './tile-grid';
+
+export type CanvasSelection = {
+  start: number;
+  end: number;
+  /** Exact cells, row-major and sorted. Absent when every cell of the start/end rectangle is selected. */
+  cells?: number[];
+};
+
+export type SelectionTool = 'rect' | 'lasso' | 'sameTile' | 'connected';
+
+export type SelectionCombineMode = 'replace' | 'add' | 'subtract';
+
+export const SELECTION_TOOLS: { tool: SelectionTool; label: string }[] = [
+  { tool: 'rect', label: 'Rectangle' },
+  { tool: 'lasso', label: 'Lasso' },
+  { tool: 'sameTile', label: 'Same Tile' },
+  { tool: 'connected', label: 'Connected' },
+];
+
+export const SELECTION_COMBINE_MODES: { mode: SelectionCombineMode; label: string }[] = [
+  { mode: 'replace', label: 'Replace' },
+  { mode: 'add', label: 'Add' },
+  { mode: 'subtract', label: 'Subtract' },
+];
+
+/** Row/col offsets for directions 0..7 (N, NE, E, SE, S, SW, W, NW). */
+const DIRECTION_OFFSETS = [
+  { dr: -1, dc: 0 },
+  { dr: -1, dc: 1 },
+  { dr: 0, dc: 1 },
+  { dr: 1, dc: 1 },
+  { dr: 1, dc: 0 },
+  { dr: 1, dc: -1 },
+  { dr: 0, dc: -1 },
+  { dr: -1, dc: -1 },
+];
+
+/** Every selected cell index. */
+export function getSelectionCells(selection: CanvasSelection, columns: number): number[] {
+  return selection.cells
+    ? [...selection.cells]
+    : getCellIndicesInRegion(selection.start, selection.end, columns);
+}
+
+/**
+ * Selection covering exactly these cells, or null when there are none. A set that fills
+ * its bounding rectangle becomes a plain rectangle (no `cells`).
+ */
+export function createSelectionFromCells(
+  cells: Iterable<number>,
+  columns: number
+): CanvasSelection | null {
+  const sorted = [...new Set(cells)].filter((index) => index >= 0).sort((a, b) => a - b);
+  if (sorted.length === 0 || columns <= 0) {
+    return null;
+  }
+  let minRow = Infinity;
+  let maxRow = -Infinity;
+  let minCol = Infinity;
+  let maxCol = -Infinity;
+  for (const index of sorted) {
+    const row = Math.floor(index / columns);
+    const col = index % columns;
+    minRow = Math.min(minRow, row);
+    maxRow = Math.max(maxRow, row);
+    minCol = Math.min(minCol, col);
+    maxCol = Math.max(maxCol, col);
+  }
+  const start = minRow * columns + minCol;
+  const end = maxRow * columns + maxCol;
+  const isRectangle = sorted.length === (maxRow - minRow + 1) * (maxCol - minCol + 1);
+  return isRectangle ? { start, end } : { start, end, cells: sorted };
+}
+
+/** Apply a selection tool result to the current selection. */
+export function combineSelection(
+  current: CanvasSelection | null,
+  cells: Iterable<number>,
+  mode: SelectionCombineMode,
+  columns: number
+): CanvasSelection | null {
+  if (mode === 'replace' || !current) {
+    return mode === 'subtract' ? current : createSelectionFromCells(cells, columns);
+  }
+  const next = new Set(getSelectionCells(current, columns));
+  for (const index of cells) {
+    if (mode === 'add') next.add(index);
+    else next.delete(index);
+  }
+  return createSelectionFromCells(next, columns);
+}
+
+/** Every cell of the grid that is not selected (all cells when nothing is selected). */
+export function invertSelection(
+  selection: CanvasSelection | null,
+  columns: number,
+  rows: number
+): CanvasSelection | null {
+  const selected = new Set(selection ? getSelectionCells(selection, columns) : []);
+  const cells: number[] = [];
+  for (let index = 0; index < columns * rows; index += 1) {
+    if (!selected.has(index)) cells.push(index);
+  }
+  return createSelectionFromCells(cells, columns);
+}
+
+/**
+ * Cells enclosed by a lasso drawn through these cells (in drag order). The path is
+ * closed back to its first cell; cells whose centers fall inside the polygon through
+ * the path's cell centers are selected, along with every cell on the path.
+ */
+export function getLassoCells(path: number[], columns: number, rows: number): number[] {
+  const points = path
+    .filter((index) => index >= 0 && index < columns * rows)
+    .map((index) => ({ row: Math.floor(index / columns), col: index % columns }));
+  const result = new Set(points.map((p) => p.row * columns + p.col));
+  if (points.length < 3) {
+    return [...result].sort((a, b) => a - b);
+  }
+  const minRow = Math.min(...points.map((p) => p.row));
+  const maxRow = Math.max(...points.map((p) => p.row));
+  const minCol = Math.min(...points.map((p) => p.col));
+  const maxCol = Math.max(...points.map((p) => p.col));
+  for (let row = minRow; row <= maxRow; row += 1) {
+    for (let col = minCol; col <= maxCol; col += 1) {
+      // Even-odd rule on a ray toward +col; vertices share cell-center coordinates.
+      let inside = false;
+      for (let i = 0, j = points.length - 1; i < points.length; j = i, i += 1) {
+        const a = points[i];
+        const b = points[j];
+        if (a.row > row !== b.row > row) {
+          const crossCol = a.col + ((row - a.row) * (b.col - a.col)) / (b.row - a.row);
+          if (col < crossCol) inside = !inside;
+        }
+      }
+      if (inside) result.add(row * columns + col);
+    }
+  }
+  return [...result].sort((a, b) => a - b);
+}
+
+/** Identity used by "select same tile": source name when known, otherwise image index. */
+const getTileKey = (tile: Tile | undefined) => {
+  if (!tile || tile.imageIndex < 0) return `empty:${tile?.imageIndex ?? -1}`;
+  return tile.name ?? `index:${tile.imageIndex}`;
+};
+
+/**
+ * Cells holding the same tile source as cellIndex, in any rotation or mirror.
+ * On an empty cell this selects every empty cell.
+ */
+export function getCellsWithSameTile(tiles: Tile[], cellIndex: number): number[] {
+  if (cellIndex < 0 || cellIndex >= tiles.length) {
+    return [];
+  }
+  const key = getTileKey(tiles[cellIndex]);
+  const cells: number[] = [];
+  tiles.forEach((tile, index) => {
+    if (getTileKey(tile) === key) cells.push(index);
+  });
+  return cells;
+}
+
+export type ConnectedCellsParams = {
+  tiles: Tile[];
+  columns: number;
+  rows: number;
+  /** Connections of a placed tile, or null when unknown. */
+  getConnections: (tile: Tile) => boolean[] | null;
+  /** Tileable grid: components continue across opposite edges. */
+  wrap?: boolean;
+};
+
+/**
+ * Cells linked to cellIndex through matching connections: two neighbours are linked
+ * when each connects toward the other. A tile with no links selects only itself.
+ */
+export function getConnectedCells(
+  { tiles, columns, rows, getConnections, wrap = false }: ConnectedCellsParams,
+  cellIndex: number
+): number[] {
+  if (cellIndex < 0 || cellIndex >= columns * rows) {
+    return [];
+  }
+  const connectionsAt = (index: number) => {
+    const tile = tiles[index];
+    return tile && tile.imageIndex >= 0 ? getConnections(tile) : null;
+  };
+  const visited = new Set<number>([cellIndex]);
+  const queue = [cellIndex];
+  while (queue.length > 0) {
+    const index = queue.shift() as number;
+    const conn = connectionsAt(index);
+    if (!conn) continue;
+    const row = Math.floor(index / columns);
+    const col = index % columns;
+    for (let direction = 0; direction < 8; direction += 1) {
+      if (!conn[direction]) continue;
+      const { dr, dc } = DIRECTION_OFFSETS[direction];
+      const neighborIndex = getNeighborCellIndex(row, col, dr, dc, rows, columns, wrap);
+      if (neighborIndex < 0 || visited.has(neighborIndex)) continue;
+      if (connectionsAt(neighborIndex)?.[(direction + 4) % 8]) {
+        visited.add(neighborIndex);
+        queue.push(neighborIndex);
+      }
+    }
+  }
+  return [...visited].sort((a, b) => a - b);
+}
+
+/** The selection moved by whole cells; callers keep the moved rectangle on the grid. */
+export function offsetSelection(
+  selection: CanvasSelection,
+  dRow: number,
+  dCol: number,
+  columns: number
+): CanvasSelection {
+  const shift = (index: number) => index + dRow * columns + dCol;
+  return {
+    start: shift(selection.start),
+    end: shift(selection.end),
+    ...(selection.cells && { cells: selection.cells.map(shift) }),
+  };
+}
+
+/** Level-1 cells covered by a higher-layer cell. */
+export function getFootprintCells(bounds: LevelCellBounds, columns: number): number[] {
+  const cells: number[] = [];
+  for (let row = bounds.minRow; row <= bounds.maxRow; row += 1) {
+    for (let col = bounds.minCol; col <= bounds.maxCol; col += 1) {
+      cells.push(row * columns + col);
+    }
+  }
+  return cells;
+}
+
+/**
+ * Map a level-1 selection onto a layer grid: a layer cell is selected when its whole
+ * footprint is. Returns the selection in layer indices, or null when no cell qualifies.
+ */
+export function mapSelectionToLevel(
+  selection: CanvasSelection,
+  columns: number,
+  levelCells: LevelCellBounds[],
+  levelCols: number
+): CanvasSelection | null {
+  const selected = new Set(getSelectionCells(selection, columns));
+  const bounds = getRegionBounds(selection.start, selection.end, columns);
+  const cells: number[] = [];
+  levelCells.forEach((cell, index) => {
+    if (
+      cell.minRow < bounds.minRow ||
+      cell.maxRow > bounds.maxRow ||
+      cell.minCol < bounds.minCol ||
+      cell.maxCol > bounds.maxCol
+    ) {
+      return;
+    }
+    if (getFootprintCells(cell, columns).every((l1) => selected.has(l1))) {
+      cells.push(index);
+    }
+  });
+  return createSelectionFromCells(cells, levelCols);
+}
@@ -1,28 +1,34 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
-/** AsyncStorage keys for tile files (must match use-tile-files). */
-const FILES_KEY = 'tile-files-v1';
+import { removeAllFileSnapshots } from '@/utils/file-snapshots';
+import { removeAllFileRecords } from '@/utils/tile-file-storage';
+
+/** AsyncStorage key for the active tile file (must match use-tile-files). File records: utils/tile-file-storage.ts. */
 const ACTIVE_KEY = 'tile-files-active-v1';
+/** AsyncStorage key for File view folders (must match use-tile-files). */
+export const FILE_FOLDERS_KEY = 'tile-file-folders-v1';
 /** AsyncStorage keys for tile sets (must match use-tile-sets). */
-const TILE_SETS_KEY = 'tile-sets-v1';
+export const TILE_SETS_KEY = 'tile-sets-v1';
 const TILE_SETS_BAKES_KEY = 'tile-sets-bakes-v1';
 /** AsyncStorage key for brush favorites (must match tile-brush-panel). */
-const FAVORITES_KEY = 'tile-brush-favorites-v1';
+export const FAVORITES_KEY = 'tile-brush-favorites-v1';
 /** AsyncStorage key for patterns (must match use-tile-patterns). */
-const PATTERNS_KEY = 'tile-patterns-v1';
+export const PATTERNS_KEY = 'tile-patterns-v1';
 /** AsyncStorage key for settings (must match use-persisted-settings). */
-const SETTINGS_KEY = 'tile-settings-v1';
+export const SETTINGS_KEY = 'tile-settings-v1';
 
 /**
- * Removes all local data from AsyncStorage: saved files, tile sets (and bakes), favorites, patterns, and settings.
+ * Removes all local data from AsyncStorage: saved files (and their snapshots and folders), tile sets (and bakes), favorites, patterns, and settings.
  * Note: callers should preserve specific settings (like developerMode) before calling this if desired.
  * Callers should then reset in-memory state (e.g. clearAllFiles, reloadTileSets, clearFavorites, clearAllPatterns)
  * and reset settings to defaults (e.g. setSettings(getDefaultSettings())).
  */
 export async function clearAllLocalData(): Promise<void> {
   await Promise.all([
-    AsyncStorage.removeItem(FILES_KEY),
+    removeAllFileRecords(),
+    removeAllFileSnapshots(),
     AsyncStorage.removeItem(ACTIVE_KEY),
+    AsyncStorage.removeItem(FILE_FOLDERS_KEY),
     AsyncStorage.removeItem(TILE_SETS_KEY),
     AsyncStorage.removeItem(TILE_SETS_BAKES_KEY),
     AsyncStorage.removeItem(FAVORITES_KEY),
@@ -0,0 +1,58 @@
+/**
+ * Shows the strict import report (utils/import-validation.ts) before an import is applied.
+ * Fatal issues are listed in an alert and the import is refused; repaired issues are listed
+ * with Cancel / Import anyway. Clean imports go ahead without a prompt.
+ */
+
+import { Alert, Platform } from 'react-native';
+
+import {
+  formatImportIssues,
+  hasFatalIssues,
+  validateImportText,
+  type ImportReport,
+  type ImportTarget,
+} from '@/utils/import-validation';
+
+/** Resolves true when the import should continue. invalidTitle heads the fatal alert ("Invalid .tile file"). */
+export function confirmImportReport(report: ImportReport, invalidTitle: string): Promise<boolean> {
+  if (report.issues.length === 0) {
+    return Promise.resolve(true);
+  }
+  if (hasFatalIssues(report)) {
+    const fatal = report.issues.filter((issue) => issue.severity === 'fatal');
+    const message = formatImportIssues(fatal);
+    if (Platform.OS === 'web') {
+      window.alert(`${invalidTitle}\n\n${message}`);
+    } else {
+      Alert.alert(invalidTitle, message);
+    }
+    return Promise.resolve(false);
+  }
+  const count = report.issues.length;
+  const message = `${count} problem${count === 1 ? '' : 's'} will be repaired on import:\n\n${formatImportIssues(report.issues)}`;
+  if (Platform.OS === 'web') {
+    return Promise.resolve(window.confirm(`${message}\n\nImport anyway?`));
+  }
+  return new Promise((resolve) => {
+    Alert.alert(
+      'Import with repairs?',
+      message,
+      [
+        { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+        { text: 'Import anyway', onPress: () => resolve(true) },
+      ],
+      // Dismissing the alert without a button (Android back or tapping outside) cancels.
+      { cancelable: true, onDismiss: () => resolve(false) }
+    );
+  });
+}
+
+/** Validate import text for target and confirm it (see confirmImportReport). */
+export function confirmImportText(
+  text: string,
+  target: ImportTarget,
+  invalidTitle: string
+): Promise<boolean> {
+  return confirmImportReport(validateImportText(text, target), invalidTitle);
+}
@@ -0,0 +1,53 @@
+/**
+ * Choices shown before a library backup is restored (utils/library-backup.ts): merge or
+ * replace, then what to do with items that are in both libraries with different contents.
+ * Native shows one alert per question; web asks with two confirms, since it has no
+ * three-way dialog.
+ */
+
+import { Alert, Platform } from 'react-native';
+
+import type { LibraryConflictPolicy, LibraryRestoreMode } from '@/utils/library-backup';
+
+/** Resolves with the chosen mode, or null when cancelled. summary describes the backup. */
+export function chooseLibraryRestoreMode(summary: string): Promise<LibraryRestoreMode | null> {
+  const mergeHint = 'Merge adds the backup to your library. Replace deletes your library and restores only the backup.';
+  if (Platform.OS === 'web') {
+    if (window.confirm(`${summary}\n\n${mergeHint}\n\nOK: Merge. Cancel: more choices.`)) {
+      return Promise.resolve('merge');
+    }
+    return Promise.resolve(
+      window.confirm('Replace your library with the backup? Everything not in the backup is deleted. This cannot be undone.')
+        ? 'replace'
+        : null
+    );
+  }
+  return new Promise((resolve) => {
+    Alert.alert('Restore library?', `${summary}\n\n${mergeHint}`, [
+      { text: 'Cancel', style: 'cancel', onPress: () => resolve(null) },
+      { text: 'Replace', style: 'destructive', onPress: () => resolve('replace') },
+      { text: 'Merge', onPress: () => resolve('merge') },
+    ]);
+  });
+}
+
+/** Resolves with how a merge treats count conflicting items, or null when cancelled. */
+export function chooseLibraryConflictPolicy(count: number): Promise<LibraryConflictPolicy | null> {
+  const message = `${count} item${count === 1 ? ' is' : 's are'} in both your library and the backup with different contents.`;
+  if (Platform.OS === 'web') {
+    if (window.confirm(`${message}\n\nOK: keep both copies. Cancel: more choices.`)) {
+      return Promise.resolve('keepBoth');
+    }
+    return Promise.resolve(
+      window.confirm("Use the backup's versions? Cancel keeps yours.") ? 'useBackup' : 'keepCurrent'
+    );
+  }
+  return new Promise((resolve) => {
+    Alert.alert('Items already exist', message, [
+      { text: 'Cancel', style: 'cancel', onPress: () => resolve(null) },
+      { text: 'Keep mine', onPress: () => resolve('keepCurrent') },
+      { text: 'Use backup', onPress: () => resolve('useBackup') },
+      { text: 'Keep both', onPress: () => resolve('keepBoth') },
+    ]);
+  });
+}
@@ -15,7 +15,9 @@ export type CrossLayerContext = {
   baseColumns: number;
   baseRows: number;
   /** Other layers' tiles and grid info, keyed by internal level */
-  otherLayers: Record<number, { tiles: Tile[]; gridInfo: LevelGridInfo }>;
+  otherLayers: Record<number, { tiles: Tile[]; gridInfo: LevelGridInfo; lockedCells?: number[] }>;
+  /** Tileable file: the tile grid (level 1) wraps around. */
+  tileable?: boolean;
 };
 
 /** Opposite direction index */
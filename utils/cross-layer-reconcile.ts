@@ -0,0 +1,222 @@
+/**
+ * Joint reconcile across resolution layers: repairs L1, L2, L3 … together so a
+ * file with cross-layer connectivity can be fixed in one action. Each layer is
+ * checked against its own neighbours and against the constraints the other
+ * layers impose (buildCrossLayerEdgeMap), with those constraints treated as hard
+ * edges: false must not connect, true must connect.
+ */
+import { buildCrossLayerEdgeMap, type CrossLayerEdgeMap } from '@/utils/cross-layer-compat';
+import { pickWeighted, type RandomSource } from '@/utils/seeded-random';
+import type { TileConnections } from '@/utils/tile-compat';
+import {
+  getLevelGridInfo,
+  getNeighborCellIndex,
+  type LevelGridInfo,
+  type Tile,
+} from '@/utils/tile-grid';
+import { findInvalidEdges } from '@/utils/tile-seams';
+import type { WfcCandidate } from '@/utils/tile-wfc';
+
+const dirDr = [-1, -1, 0, 1, 1, 1, 0, -1];
+const dirDc = [0, 1, 1, 1, 0, -1, -1, -1];
+
+export type LayerReconcileParams = {
+  baseColumns: number;
+  baseRows: number;
+  /** Tiles per internal level (1 = tile grid); each array is row-major over that level's grid. */
+  layers: Record<number, Tile[]>;
+  /** Cells per level that must not change. */
+  lockedCells?: Record<number, ReadonlySet<number>>;
+  /** Replacement options (same shape as the generator's candidates). Candidates without connections are ignored. */
+  candidates: WfcCandidate[];
+  getConnections: (tile: Tile) => boolean[] | null;
+  allowEdgeConnections: boolean;
+  /** Tileable file: the tile grid (level 1) wraps around. Resolution layers never wrap. */
+  tileable?: boolean;
+  random: RandomSource;
+  /** Stamped on replaced tiles so later reconciles treat them as newest. */
+  placedOrder?: number;
+  maxPasses?: number;
+};
+
+export type LayerReconcileResult = {
+  /** All input levels; arrays are new only for levels that changed. */
+  layers: Record<number, Tile[]>;
+  changedLevels: number[];
+  /** Broken same-layer seams plus violated cross-layer edges, before. */
+  invalidEdges: number;
+  fixed: number;
+  /** Still broken afterwards (locked cells, or no candidate fits every constraint). */
+  unfixable: number;
+};
+
+type LevelState = { level: number; gridInfo: LevelGridInfo; tiles: Tile[]; wrap: boolean };
+
+/** True when conn satisfies same-layer neighbours (empty = no connection) and the cross-layer constraints. */
+const fitsCell = (
+  state: LevelState,
+  cellIndex: number,
+  conn: readonly boolean[],
+  edgeMap: CrossLayerEdgeMap,
+  getConnections: (tile: Tile) => boolean[] | null,
+  allowEdgeConnections: boolean
+) => {
+  const { levelCols, levelRows } = state.gridInfo;
+  const row = Math.floor(cellIndex / levelCols);
+  const col = cellIndex % levelCols;
+  const constraints = edgeMap.get(cellIndex);
+  for (let d = 0; d < 8; d += 1) {
+    const bit = Boolean(conn[d]);
+    const constraint = constraints?.[d];
+    if (constraint !== null && constraint !== undefined && constraint !== bit) {
+      return false;
+    }
+    const neighborIndex = getNeighborCellIndex(
+      row,
+      col,
+      dirDr[d],
+      dirDc[d],
+      levelRows,
+      levelCols,
+      state.wrap
+    );
+    if (neighborIndex < 0) {
+      if (!allowEdgeConnections && bit) return false;
+      continue;
+    }
+    const neighbor = state.tiles[neighborIndex];
+    if (!neighbor || neighbor.imageIndex < 0) {
+      if (bit) return false;
+      continue;
+    }
+    const neighborConn = getConnections(neighbor);
+    if (neighborConn && Boolean(neighborConn[(d + 4) % 8]) !== bit) {
+      return false;
+    }
+  }
+  return true;
+};
+
+const countCrossLayerViolations = (
+  state: LevelState,
+  edgeMap: CrossLayerEdgeMap,
+  getConnections: (tile: Tile) => boolean[] | null
+) => {
+  let count = 0;
+  edgeMap.forEach((constraints, cellIndex) => {
+    const tile = state.tiles[cellIndex];
+    const conn = tile && tile.imageIndex >= 0 ? getConnections(tile) : null;
+    if (!conn) return;
+    constraints.forEach((constraint, d) => {
+      if (constraint !== null && constraint !== Boolean(conn[d])) count += 1;
+    });
+  });
+  return count;
+};
+
+export function reconcileLayers({
+  baseColumns,
+  baseRows,
+  layers,
+  lockedCells = {},
+  candidates,
+  getConnections,
+  allowEdgeConnections,
+  tileable = false,
+  random,
+  placedOrder,
+  maxPasses = 12,
+}: LayerReconcileParams): LayerReconcileResult {
+  const states: LevelState[] = [];
+  Object.keys(layers)
+    .map(Number)
+    // Coarsest first: structure comes from the big tiles, finer layers fill in around it.
+    .sort((a, b) => b - a)
+    .forEach((level) => {
+      const gridInfo = getLevelGridInfo(baseColumns, baseRows, level);
+      if (!gridInfo) return;
+      states.push({ level, gridInfo, tiles: [...layers[level]], wrap: tileable && level === 1 });
+    });
+  const usable = candidates.filter(
+    (candidate): candidate is WfcCandidate & { connections: TileConnections } => candidate.connections !== null
+  );
+
+  const buildEdgeMap = (state: LevelState) => {
+    const otherLayers: Record<number, { tiles: Tile[]; gridInfo: LevelGridInfo }> = {};
+    states.forEach((other) => {
+      if (other.level !== state.level) {
+        otherLayers[other.level] = { tiles: other.tiles, gridInfo: other.gridInfo };
+      }
+    });
+    return buildCrossLayerEdgeMap(
+      state.level,
+      state.gridInfo.levelCols,
+      state.gridInfo.levelRows,
+      baseColumns,
+      baseRows,
+      otherLayers,
+      getConnections
+    );
+  };
+
+  const countInvalid = () =>
+    states.reduce((total, state) => {
+      const sameLayer = findInvalidEdges({
+        tiles: state.tiles,
+        columns: state.gridInfo.levelCols,
+        rows: state.gridInfo.levelRows,
+        getConnections,
+        allowEdgeConnections,
+        wrap: state.wrap,
+      }).length;
+      return total + sameLayer + countCrossLayerViolations(state, buildEdgeMap(state), getConnections);
+    }, 0);
+
+  const invalidBefore = countInvalid();
+  const changedLevels = new Set<number>();
+  if (invalidBefore > 0 && usable.length > 0) {
+    for (let pass = 0; pass < maxPasses; pass += 1) {
+      let changed = false;
+      for (const state of states) {
+        const edgeMap = buildEdgeMap(state);
+        const locked = lockedCells[state.level];
+        // Oldest placements first so the latest edits are the ones kept.
+        const indices = state.tiles
+          .map((tile, index) => (tile && tile.imageIndex >= 0 && !locked?.has(index) ? index : -1))
+          .filter((index) => index >= 0)
+          .sort((a, b) => (state.tiles[a].placedOrder ?? 0) - (state.tiles[b].placedOrder ?? 0));
+        for (const index of indices) {
+          const conn = getConnections(state.tiles[index]);
+          if (!conn || fitsCell(state, index, conn, edgeMap, getConnections, allowEdgeConnections)) {
+            continue;
+          }
+          const options = usable.filter((candidate) =>
+            fitsCell(state, index, candidate.connections, edgeMap, getConnections, allowEdgeConnections)
+          );
+          if (options.length === 0) continue;
+          const pick = pickWeighted(options, (candidate) => candidate.weight ?? 1, random);
+          state.tiles[index] = {
+            ...pick.tile,
+            ...(placedOrder !== undefined && { placedOrder }),
+          };
+          changedLevels.add(state.level);
+          changed = true;
+        }
+      }
+      if (!changed) break;
+    }
+  }
+  const invalidAfter = changedLevels.size > 0 ? countInvalid() : invalidBefore;
+
+  const nextLayers: Record<number, Tile[]> = { ...layers };
+  states.forEach((state) => {
+    if (changedLevels.has(state.level)) nextLayers[state.level] = state.tiles;
+  });
+  return {
+    layers: nextLayers,
+    changedLevels: [...changedLevels].sort((a, b) => a - b),
+    invalidEdges: invalidBefore,
+    fixed: Math.max(0, invalidBefore - invalidAfter),
+    unfixable: invalidAfter,
+  };
+}
@@ -97,3 +97,57 @@ export function validateDrawStroke(
   }
   return true;
 }
+
+/**
+ * Path brush routing: shortest orthogonal route from start to end (breadth-first,
+ * so every step costs the same). Intermediate cells must pass canEnter; start and
+ * end are always allowed. Returns the cells in order (start … end), or null when
+ * no route exists.
+ */
+export function findDrawPath(
+  start: number,
+  end: number,
+  columns: number,
+  rows: number,
+  canEnter: (cellIndex: number) => boolean
+): number[] | null {
+  const total = columns * rows;
+  if (start < 0 || end < 0 || start >= total || end >= total) return null;
+  if (start === end) return [start];
+  const previous = new Int32Array(total).fill(-1);
+  previous[start] = start;
+  const queue: number[] = [start];
+  for (let head = 0; head < queue.length; head += 1) {
+    const cell = queue[head];
+    const row = Math.floor(cell / columns);
+    const col = cell % columns;
+    // N, E, S, W
+    const neighbors = [
+      row > 0 ? cell - columns : -1,
+      col < columns - 1 ? cell + 1 : -1,
+      row < rows - 1 ? cell + columns : -1,
+      col > 0 ? cell - 1 : -1,
+    ];
+    for (const next of neighbors) {
+      if (next < 0 || previous[next] !== -1) continue;
+      if (next !== end && !canEnter(next)) continue;
+      previous[next] = cell;
+      if (next === end) {
+        const path = [end];
+        let at = end;
+        while (at !== start) {
+          at = previous[at];
+          path.push(at);
+        }
+        return path.reverse();
+      }
+      queue.push(next);
+    }
+  }
+  return null;
+}
+
+/** Connection directions each path cell needs: one toward each path neighbor (end caps get one, the rest two). */
+export function getDrawPathDirections(path: number[], columns: number): Set<number>[] {
+  return path.map((cellIndex, i) => getStrokeNeighborDirections(cellIndex, path, i, columns));
+}
@@ -0,0 +1,254 @@
+/**
+ * File view organisation: nestable folders, free-form tags, search and sort.
+ *
+ * Folders are stored apart from the files (hooks/use-tile-files.ts); a file points at its
+ * folder with TileFile.folderId. A file or folder whose folder no longer exists is shown at
+ * the top level. Tags, folderId and createdAt are kept in the file index, so search and sort
+ * work before file bodies are read.
+ */
+import type { TileFile } from '@/hooks/use-tile-files';
+
+export type FileFolder = {
+  id: string;
+  name: string;
+  /** Containing folder; null at the top level. */
+  parentId: string | null;
+  createdAt: number;
+};
+
+export type FileSortKey = 'name' | 'created' | 'updated' | 'size' | 'tileSet';
+
+export const FILE_SORT_OPTIONS: { key: FileSortKey; label: string }[] = [
+  { key: 'updated', label: 'Updated' },
+  { key: 'created', label: 'Created' },
+  { key: 'name', label: 'Name' },
+  { key: 'size', label: 'Size' },
+  { key: 'tileSet', label: 'Tile set' },
+];
+
+export const DEFAULT_FILE_SORT: FileSortKey = 'updated';
+
+export const isFileSortKey = (value: unknown): value is FileSortKey =>
+  FILE_SORT_OPTIONS.some((option) => option.key === value);
+
+const compareNames = (a: string, b: string) =>
+  a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+
+const isFolder = (value: unknown): value is FileFolder => {
+  const folder = value as FileFolder | null;
+  return (
+    folder != null &&
+    typeof folder === 'object' &&
+    typeof folder.id === 'string' &&
+    typeof folder.name === 'string'
+  );
+};
+
+/**
+ * Stored folders, or [] when missing or malformed. Parents that do not exist, and parents
+ * that would make a folder contain itself, are reset to the top level.
+ */
+export function normalizeFolders(value: unknown): FileFolder[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  const folders = value.filter(isFolder).map((folder) => ({
+    id: folder.id,
+    name: folder.name,
+    parentId: typeof folder.parentId === 'string' ? folder.parentId : null,
+    createdAt: typeof folder.createdAt === 'number' ? folder.createdAt : 0,
+  }));
+  const ids = new Set(folders.map((folder) => folder.id));
+  const result = folders.map((folder) =>
+    folder.parentId !== null && !ids.has(folder.parentId) ? { ...folder, parentId: null } : folder
+  );
+  result.forEach((folder, index) => {
+    if (folder.parentId !== null && getDescendantFolderIds(result, folder.id).has(folder.parentId)) {
+      result[index] = { ...folder, parentId: null };
+    }
+  });
+  return result;
+}
+
+/** The folder and every folder inside it, at any depth. */
+export function getDescendantFolderIds(folders: FileFolder[], folderId: string): Set<string> {
+  const ids = new Set([folderId]);
+  let added = true;
+  while (added) {
+    added = false;
+    folders.forEach((folder) => {
+      if (folder.parentId !== null && ids.has(folder.parentId) && !ids.has(folder.id)) {
+        ids.add(folder.id);
+        added = true;
+      }
+    });
+  }
+  return ids;
+}
+
+/** Folders from the top level down to folderId (empty at the top level or for a missing folder). */
+export function getFolderPath(folders: FileFolder[], folderId: string | null): FileFolder[] {
+  const byId = new Map(folders.map((folder) => [folder.id, folder]));
+  const path: FileFolder[] = [];
+  let current = folderId !== null ? byId.get(folderId) : undefined;
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = current.parentId !== null ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+}
+
+/** True when folderId may be moved into parentId (not into itself or a folder inside it). */
+export const canMoveFolder = (folders: FileFolder[], folderId: string, parentId: string | null) =>
+  parentId === null || !getDescendantFolderIds(folders, folderId).has(parentId);
+
+/** Folders directly inside parentId, by name. */
+export function getChildFolders(folders: FileFolder[], parentId: string | null): FileFolder[] {
+  return folders
+    .filter((folder) => folder.parentId === parentId)
+    .sort((a, b) => compareNames(a.name, b.name));
+}
+
+/** Every folder as a flat list in tree order with its depth (e.g. for a "Move to" picker). */
+export function flattenFolderTree(folders: FileFolder[]): { folder: FileFolder; depth: number }[] {
+  const result: { folder: FileFolder; depth: number }[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    getChildFolders(folders, parentId).forEach((folder) => {
+      result.push({ folder, depth });
+      visit(folder.id, depth + 1);
+    });
+  };
+  visit(null, 0);
+  return result;
+}
+
+/** The folder a file is shown in: its folderId when that folder exists, otherwise the top level. */
+export const getFileFolderId = (file: TileFile, folderIds: Set<string>): string | null =>
+  file.folderId && folderIds.has(file.folderId) ? file.folderId : null;
+
+/**
+ * Tags from free text ("red, tiles #wip") or a stored list: split on commas and spaces,
+ * leading '#' removed, empty and repeated (case-insensitive) tags dropped.
+ */
+export function normalizeTags(value: unknown): string[] {
+  const parts =
+    typeof value === 'string'
+      ? value.split(/[\s,]+/)
+      : Array.isArray(value)
+        ? value.filter((entry): entry is string => typeof entry === 'string')
+        : [];
+  const seen = new Set<string>();
+  const tags: string[] = [];
+  parts.forEach((part) => {
+    const tag = part.trim().replace(/^#+/, '');
+    const key = tag.toLowerCase();
+    if (tag.length > 0 && !seen.has(key)) {
+      seen.add(key);
+      tags.push(tag);
+    }
+  });
+  return tags;
+}
+
+/**
+ * True when every word of query is found in the file's name or one of its tags
+ * (case-insensitive). A word starting with '#' only matches tags that start with it.
+ */
+export function matchesFileSearch(file: Pick<TileFile, 'name' | 'tags'>, query: string): boolean {
+  const words = query.toLowerCase().split(/\s+/).filter((word) => word.length > 0);
+  const name = file.name.toLowerCase();
+  const tags = (file.tags ?? []).map((tag) => tag.toLowerCase());
+  return words.every((word) => {
+    if (word.startsWith('#')) {
+      const prefix = word.slice(1);
+      return tags.some((tag) => tag.startsWith(prefix));
+    }
+    return name.includes(word) || tags.some((tag) => tag.includes(word));
+  });
+}
+
+/** When the file was created; files saved before createdAt was kept use the time in their id. */
+export function getFileCreatedAt(file: Pick<TileFile, 'id' | 'createdAt' | 'updatedAt'>): number {
+  if (typeof file.createdAt === 'number') {
+    return file.createdAt;
+  }
+  const fromId = /^file-(\d+)-/.exec(file.id);
+  return fromId ? Number(fromId[1]) : file.updatedAt;
+}
+
+/** Grid cells of the file (rows × columns). */
+export const getFileSize = (file: Pick<TileFile, 'grid'>) => file.grid.rows * file.grid.columns;
+
+/**
+ * The tile sets a file uses as a sort label: their names, sorted and joined; files that only
+ * use built-in tiles are labelled by category.
+ */
+export function getFileTileSetLabel(
+  file: Pick<TileFile, 'tileSetIds' | 'category'>,
+  tileSetNames: Map<string, string>
+): string {
+  const names = file.tileSetIds
+    .map((id) => tileSetNames.get(id))
+    .filter((name): name is string => name !== undefined)
+    .sort(compareNames);
+  return names.length > 0 ? names.join(', ') : file.category;
+}
+
+/**
+ * Files in sort order: name and tile set A–Z; created, updated and size newest or largest
+ * first. Ties are broken by most recently updated.
+ */
+export function sortFiles(
+  files: TileFile[],
+  sort: FileSortKey,
+  tileSetNames: Map<string, string> = new Map()
+): TileFile[] {
+  const compare = (a: TileFile, b: TileFile): number => {
+    switch (sort) {
+      case 'name':
+        return compareNames(a.name, b.name);
+      case 'created':
+        return getFileCreatedAt(b) - getFileCreatedAt(a);
+      case 'size':
+        return getFileSize(b) - getFileSize(a);
+      case 'tileSet':
+        return compareNames(
+          getFileTileSetLabel(a, tileSetNames),
+          getFileTileSetLabel(b, tileSetNames)
+        );
+      case 'updated':
+        return 0;
+    }
+  };
+  return [...files].sort((a, b) => compare(a, b) || b.updatedAt - a.updatedAt);
+}
+
+/**
+ * The files the File view lists in folderId: without a query, the files directly in it; with
+ * a query, the matching files in it and in every folder inside it.
+ */
+export function getVisibleFiles(
+  files: TileFile[],
+  folders: FileFolder[],
+  folderId: string | null,
+  query: string
+): TileFile[] {
+  const folderIds = new Set(folders.map((folder) => folder.id));
+  if (query.trim().length === 0) {
+    return files.filter((file) => getFileFolderId(file, folderIds) === folderId);
+  }
+  const scope = folderId !== null ? getDescendantFolderIds(folders, folderId) : null;
+  return files.filter((file) => {
+    const fileFolderId = getFileFolderId(file, folderIds);
+    return (
+      (scope === null || (fileFolderId !== null && scope.has(fileFolderId))) &&
+      matchesFileSearch(file, query)
+    );
+  });
+}
+
+/** Number of files in the folder and the folders inside it. */
+export function countFolderFiles(files: TileFile[], folders: FileFolder[], folderId: string): number {
+  const scope = getDescendantFolderIds(folders, folderId);
+  return files.filter((file) => file.folderId != null && scope.has(file.folderId)).length;
+}
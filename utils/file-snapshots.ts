@@ -0,0 +1,227 @@
+/**
+ * Per-file version history: snapshots of a canvas file kept apart from the file records
+ * (utils/tile-file-storage.ts), so the file list never loads them.
+ *
+ * - the list ('tile-file-snapshots-v1:<fileId>'): snapshot entries, newest first.
+ * - each snapshot ('tile-file-snapshot-v1:<fileId>:<snapshotId>'): the file as packed .tile
+ *   text (serializeTileFile), read when the history is shown or a snapshot is restored.
+ *
+ * Auto snapshots (name null) are taken on background saves. Saves within
+ * AUTO_SNAPSHOT_INTERVAL_MS of the last auto snapshot replace it, so a burst of edits keeps
+ * one entry. Autos are capped by count and age; named checkpoints only by count.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import type { TileFile } from '@/hooks/use-tile-files';
+import { deserializeTileFile, serializeTileFile, type DeserializeResult } from '@/utils/tile-format';
+
+const SNAPSHOT_LIST_KEY_PREFIX = 'tile-file-snapshots-v1:';
+const SNAPSHOT_KEY_PREFIX = 'tile-file-snapshot-v1:';
+
+export const AUTO_SNAPSHOT_INTERVAL_MS = 60_000;
+export const MAX_AUTO_SNAPSHOTS = 20;
+export const MAX_AUTO_SNAPSHOT_AGE_MS = 14 * 24 * 60 * 60 * 1000;
+export const MAX_NAMED_SNAPSHOTS = 20;
+
+export const getSnapshotListKey = (fileId: string) => `${SNAPSHOT_LIST_KEY_PREFIX}${fileId}`;
+export const getSnapshotKey = (fileId: string, snapshotId: string) =>
+  `${SNAPSHOT_KEY_PREFIX}${fileId}:${snapshotId}`;
+
+/** True for every snapshot key (lists and contents), e.g. to clear local data. */
+export const isSnapshotKey = (key: string) =>
+  key.startsWith(SNAPSHOT_LIST_KEY_PREFIX) || key.startsWith(SNAPSHOT_KEY_PREFIX);
+
+export type FileSnapshot = {
+  id: string;
+  createdAt: number;
+  /** Checkpoint name; null for auto snapshots. */
+  name: string | null;
+};
+
+export type SnapshotPlan = {
+  /** The new list, newest first. */
+  list: FileSnapshot[];
+  /** Ids of snapshots dropped from the list. */
+  removed: string[];
+};
+
+const createSnapshotId = (now: number) => `snap-${now}-${Math.random().toString(36).slice(2, 8)}`;
+
+/** Drops auto snapshots past the count or age cap and named checkpoints past the count cap. */
+export function pruneSnapshots(list: FileSnapshot[], now: number): SnapshotPlan {
+  const kept: FileSnapshot[] = [];
+  const removed: string[] = [];
+  let autoCount = 0;
+  let namedCount = 0;
+  for (const entry of list) {
+    const keep =
+      entry.name === null
+        ? autoCount < MAX_AUTO_SNAPSHOTS && now - entry.createdAt <= MAX_AUTO_SNAPSHOT_AGE_MS
+        : namedCount < MAX_NAMED_SNAPSHOTS;
+    if (keep) {
+      if (entry.name === null) {
+        autoCount += 1;
+      } else {
+        namedCount += 1;
+      }
+      kept.push(entry);
+    } else {
+      removed.push(entry.id);
+    }
+  }
+  return { list: kept, removed };
+}
+
+/**
+ * Adds entry to the front of list. An auto entry replaces the newest auto snapshot when that
+ * one is within AUTO_SNAPSHOT_INTERVAL_MS; the result is then pruned.
+ */
+export function planSnapshotAdd(list: FileSnapshot[], entry: FileSnapshot, now: number): SnapshotPlan {
+  const replaced =
+    entry.name === null
+      ? list.find(
+          (snapshot) =>
+            snapshot.name === null && entry.createdAt - snapshot.createdAt < AUTO_SNAPSHOT_INTERVAL_MS
+        )
+      : undefined;
+  const rest = replaced ? list.filter((snapshot) => snapshot !== replaced) : list;
+  const pruned = pruneSnapshots([entry, ...rest], now);
+  return {
+    list: pruned.list,
+    removed: replaced ? [replaced.id, ...pruned.removed] : pruned.removed,
+  };
+}
+
+/** Latest snapshot text per file, so unchanged saves do not add auto snapshots. */
+const latestContentByFile = new Map<string, string>();
+/** Per-file write chain: list updates never interleave. */
+const pendingByFile = new Map<string, Promise<unknown>>();
+
+const runForFile = <T>(fileId: string, task: () => Promise<T>): Promise<T> => {
+  const previous = pendingByFile.get(fileId) ?? Promise.resolve();
+  const next = previous.catch(() => {}).then(task);
+  pendingByFile.set(fileId, next);
+  void next
+    .catch(() => {})
+    .then(() => {
+      if (pendingByFile.get(fileId) === next) {
+        pendingByFile.delete(fileId);
+      }
+    });
+  return next;
+};
+
+const isSnapshotEntry = (value: unknown): value is FileSnapshot => {
+  const entry = value as FileSnapshot | null;
+  return (
+    entry != null &&
+    typeof entry === 'object' &&
+    typeof entry.id === 'string' &&
+    typeof entry.createdAt === 'number' &&
+    (entry.name === null || typeof entry.name === 'string')
+  );
+};
+
+const readSnapshotList = async (fileId: string): Promise<FileSnapshot[]> => {
+  const raw = await AsyncStorage.getItem(getSnapshotListKey(fileId));
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter(isSnapshotEntry) : [];
+  } catch {
+    return [];
+  }
+};
+
+/** The file's snapshots, newest first; waits for pending writes. */
+export function listFileSnapshots(fileId: string): Promise<FileSnapshot[]> {
+  return runForFile(fileId, () => readSnapshotList(fileId));
+}
+
+/** Reads one snapshot as a .tile payload; fails when it was removed or cannot be read. */
+export async function readFileSnapshot(fileId: string, snapshotId: string): Promise<DeserializeResult> {
+  const text = await runForFile(fileId, () => AsyncStorage.getItem(getSnapshotKey(fileId, snapshotId)));
+  if (text === null) {
+    return { ok: false, error: 'Snapshot not found' };
+  }
+  return deserializeTileFile(text);
+}
+
+/**
+ * Records file as a snapshot: an auto snapshot when name is null (skipped when the file did
+ * not change since the last snapshot), a named checkpoint otherwise. Resolves with the new
+ * entry, or null when nothing was recorded.
+ */
+export function recordFileSnapshot(
+  file: TileFile,
+  name: string | null,
+  now = Date.now()
+): Promise<FileSnapshot | null> {
+  const content = serializeTileFile(file, { encoding: 'packed' });
+  return runForFile(file.id, async () => {
+    const list = await readSnapshotList(file.id);
+    if (name === null) {
+      let latest = latestContentByFile.get(file.id);
+      if (latest === undefined && list.length > 0) {
+        latest = (await AsyncStorage.getItem(getSnapshotKey(file.id, list[0].id))) ?? undefined;
+      }
+      if (latest === content) {
+        latestContentByFile.set(file.id, content);
+        return null;
+      }
+    }
+    const entry: FileSnapshot = { id: createSnapshotId(now), createdAt: now, name };
+    const plan = planSnapshotAdd(list, entry, now);
+    await AsyncStorage.setItem(getSnapshotKey(file.id, entry.id), content);
+    await AsyncStorage.setItem(getSnapshotListKey(file.id), JSON.stringify(plan.list));
+    if (plan.removed.length > 0) {
+      await AsyncStorage.multiRemove(plan.removed.map((id) => getSnapshotKey(file.id, id)));
+    }
+    latestContentByFile.set(file.id, content);
+    return entry;
+  });
+}
+
+/** Removes one snapshot from the file's history. */
+export function deleteFileSnapshot(fileId: string, snapshotId: string): Promise<void> {
+  return runForFile(fileId, async () => {
+    const list = await readSnapshotList(fileId);
+    const next = list.filter((entry) => entry.id !== snapshotId);
+    if (next.length === 0) {
+      await AsyncStorage.removeItem(getSnapshotListKey(fileId));
+    } else {
+      await AsyncStorage.setItem(getSnapshotListKey(fileId), JSON.stringify(next));
+    }
+    await AsyncStorage.removeItem(getSnapshotKey(fileId, snapshotId));
+    latestContentByFile.delete(fileId);
+  });
+}
+
+/** Ids of the files that have a history. */
+export async function listSnapshotFileIds(): Promise<string[]> {
+  const keys = await AsyncStorage.getAllKeys();
+  return keys
+    .filter((key) => key.startsWith(SNAPSHOT_LIST_KEY_PREFIX))
+    .map((key) => key.slice(SNAPSHOT_LIST_KEY_PREFIX.length));
+}
+
+/** Removes a file's whole history (e.g. when the file is deleted). */
+export function removeFileSnapshots(fileId: string): Promise<void> {
+  return runForFile(fileId, async () => {
+    const keys = await AsyncStorage.getAllKeys();
+    const contentPrefix = getSnapshotKey(fileId, '');
+    await AsyncStorage.multiRemove([
+      getSnapshotListKey(fileId),
+      ...keys.filter((key) => key.startsWith(contentPrefix)),
+    ]);
+    latestContentByFile.delete(fileId);
+  });
+}
+
+/** Removes the history of every file. */
+export async function removeAllFileSnapshots(): Promise<void> {
+  await Promise.all([...pendingByFile.values()].map((pending) => pending.catch(() => {})));
+  const keys = await AsyncStorage.getAllKeys();
+  await AsyncStorage.multiRemove(keys.filter(isSnapshotKey));
+  latestContentByFile.clear();
+}
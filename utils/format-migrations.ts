@@ -0,0 +1,71 @@
+/**
+ * Versioned migrations for the exported formats: .tile files, tile sets, patterns and bundles.
+ *
+ * Every format carries `v`. Deserializers run the data through migrateFormat first: it
+ * applies the registered steps one version at a time (v1 → v2 → …) until the data is at
+ * the current version, so the rest of each parser only ever sees the current shape.
+ *
+ * To change a format: bump its currentVersion here, register the step from the previous
+ * version under that version number, and add a test for the step.
+ */
+
+export type FormatKind = 'tile' | 'tileSet' | 'pattern' | 'bundle';
+
+export type FormatData = Record<string, unknown>;
+
+/** Upgrades data of one version to the next. The runner sets `v` on the result. */
+export type FormatMigration = (data: FormatData) => FormatData;
+
+export type FormatRegistry = {
+  /** Version written by the serializer and the newest version the deserializer accepts. */
+  currentVersion: number;
+  /** Steps keyed by the version they upgrade from (steps[1] turns v1 into v2). */
+  steps: Record<number, FormatMigration>;
+};
+
+export const FORMAT_MIGRATIONS: Record<FormatKind, FormatRegistry> = {
+  // v2: `tiles` and each `layers` entry may be packed (utils/tile-compact.ts); v1 only had
+  // plain Tile[] arrays, which v2 still reads, so the step changes nothing but `v`.
+  tile: { currentVersion: 2, steps: { 1: (data) => data } },
+  tileSet: { currentVersion: 1, steps: {} },
+  pattern: { currentVersion: 1, steps: {} },
+  bundle: { currentVersion: 1, steps: {} },
+};
+
+export type MigrateResult =
+  | { ok: true; data: FormatData; fromVersion: number }
+  | { ok: false; error: string };
+
+/** Upgrade data to the registry's current version. Data newer than the current version is rejected. */
+export function migrateToCurrent(data: FormatData, registry: FormatRegistry): MigrateResult {
+  const v = data.v;
+  if (typeof v !== 'number' || !Number.isInteger(v) || v < 1) {
+    return { ok: false, error: 'Missing or invalid version' };
+  }
+  if (v > registry.currentVersion) {
+    return { ok: false, error: `Version ${v} is newer than supported (${registry.currentVersion})` };
+  }
+  let current = data;
+  for (let version = v; version < registry.currentVersion; version += 1) {
+    const step = registry.steps[version];
+    if (!step) {
+      return { ok: false, error: `No migration from version ${version}` };
+    }
+    current = { ...step(current), v: version + 1 };
+  }
+  return { ok: true, data: current, fromVersion: v };
+}
+
+/** Upgrade data of this format to its current version (see FORMAT_MIGRATIONS). */
+export function migrateFormat(kind: FormatKind, data: FormatData): MigrateResult {
+  return migrateToCurrent(data, FORMAT_MIGRATIONS[kind]);
+}
+
+/** Versions below currentVersion with no registered step; empty when every old version can be read. */
+export function getMissingMigrationSteps(registry: FormatRegistry): number[] {
+  const missing: number[] = [];
+  for (let version = 1; version < registry.currentVersion; version += 1) {
+    if (!registry.steps[version]) missing.push(version);
+  }
+  return missing;
+}
@@ -0,0 +1,540 @@
+/**
+ * Strict validation for imported .tile files, tile sets, patterns and bundles.
+ *
+ * The deserializers are lenient: they stop at the first fatal problem and quietly coerce
+ * everything else (a bad tile becomes an empty cell, a bad setting falls back to its
+ * default). validateImportText walks the same data and reports every problem with its JSON
+ * path, e.g. `tiles[37].rotation must be a multiple of 90`. Fatal issues mean the import is
+ * refused; repaired issues say what the deserializer will use instead, so the import flows
+ * can show them before the user commits.
+ */
+
+import { TILE_CATEGORIES } from '@/assets/images/tiles/manifest';
+import { FORMAT_MIGRATIONS, type FormatKind } from '@/utils/format-migrations';
+import {
+  getPackedCellLimit,
+  inflateTileText,
+  isDeflatedTileText,
+  isPackedTiles,
+  unpackTiles,
+} from '@/utils/tile-compact';
+import { normalizeSvgTileMarkup } from '@/utils/tile-svg-import';
+import { normalizeSeed } from '@/utils/seeded-random';
+
+export type ImportIssueSeverity = 'fatal' | 'repaired';
+
+export type ImportIssue = {
+  /** JSON path of the offending value (`tiles[3].rotation`); empty for the whole document. */
+  path: string;
+  message: string;
+  severity: ImportIssueSeverity;
+};
+
+/** What the import flow expects: a canvas file, a pattern or a tile set. Bundles count as files/patterns. */
+export type ImportTarget = 'file' | 'pattern' | 'tileSet';
+
+export type ImportKind = 'file' | 'fileBundle' | 'pattern' | 'patternBundle' | 'tileSet';
+
+export type ImportReport = {
+  /** Detected document kind; null when the text could not be read at all. */
+  kind: ImportKind | null;
+  issues: ImportIssue[];
+};
+
+type Data = Record<string, unknown>;
+
+const fatal = (list: ImportIssue[], path: string, message: string) => {
+  list.push({ path, message, severity: 'fatal' });
+};
+
+const repaired = (list: ImportIssue[], path: string, message: string) => {
+  list.push({ path, message, severity: 'repaired' });
+};
+
+const DEFAULT_TILE_SIZE = 45;
+const FALLBACK_CATEGORY = TILE_CATEGORIES[0];
+
+const at = (base: string, key: string | number) =>
+  typeof key === 'number' ? `${base}[${key}]` : base ? `${base}.${key}` : key;
+
+const isObject = (value: unknown): value is Data =>
+  value != null && typeof value === 'object' && !Array.isArray(value);
+
+const isWholeNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value);
+
+const isCategory = (value: unknown) =>
+  typeof value === 'string' && (TILE_CATEGORIES as string[]).includes(value);
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/** Check `v` the way migrateFormat does; false when the document cannot be read. */
+function checkVersion(data: Data, kind: FormatKind, path: string, list: ImportIssue[]): boolean {
+  const v = data.v;
+  const current = FORMAT_MIGRATIONS[kind].currentVersion;
+  if (!isWholeNumber(v) || v < 1) {
+    fatal(list, at(path, 'v'), 'must be a format version number');
+    return false;
+  }
+  if (v > current) {
+    fatal(list, at(path, 'v'), `${v} is newer than this app can read (${current})`);
+    return false;
+  }
+  for (let version = v; version < current; version += 1) {
+    if (!FORMAT_MIGRATIONS[kind].steps[version]) {
+      fatal(list, at(path, 'v'), `${v} cannot be upgraded to ${current}`);
+      return false;
+    }
+  }
+  return true;
+}
+
+function checkTile(raw: unknown, path: string, list: ImportIssue[]) {
+  if (!isObject(raw)) {
+    repaired(list, path, 'must be a tile object; dropped, so the following tiles move back one cell');
+    return;
+  }
+  if (!isWholeNumber(raw.imageIndex)) {
+    repaired(list, at(path, 'imageIndex'), 'must be a whole number; the cell will be empty');
+  } else if (raw.imageIndex < -2) {
+    fatal(list, at(path, 'imageIndex'), 'must be -2 (error), -1 (empty) or a source index');
+  }
+  const rotation = raw.rotation;
+  if (rotation !== undefined) {
+    if (!isWholeNumber(rotation)) {
+      repaired(list, at(path, 'rotation'), 'must be a whole number; using 0');
+    } else if (rotation % 90 !== 0) {
+      fatal(list, at(path, 'rotation'), 'must be a multiple of 90');
+    } else if (Math.abs(rotation) >= 360) {
+      repaired(list, at(path, 'rotation'), `must be below 360; using ${rotation % 360}`);
+    }
+  }
+  for (const key of ['mirrorX', 'mirrorY']) {
+    if (raw[key] !== undefined && typeof raw[key] !== 'boolean') {
+      repaired(list, at(path, key), 'must be true or false; using false');
+    }
+  }
+  if (raw.name !== undefined && (typeof raw.name !== 'string' || raw.name.length === 0)) {
+    repaired(list, at(path, 'name'), 'must be a non-empty string; ignored');
+  }
+}
+
+/** A grid's tile array: one tile per cell, truncated or padded with empty cells on import. */
+function checkTileArray(raw: unknown, path: string, cellCount: number, list: ImportIssue[]) {
+  if (!Array.isArray(raw)) {
+    if (cellCount > 0) {
+      const problem = raw === undefined ? 'is missing' : 'must be an array';
+      repaired(list, path, `${problem}; all ${plural(cellCount, 'cell')} will be empty`);
+    }
+    return;
+  }
+  if (raw.length > cellCount) {
+    repaired(
+      list,
+      path,
+      `has ${raw.length} entries for ${plural(cellCount, 'cell')}; the last ${raw.length - cellCount} are ignored`
+    );
+  } else if (raw.length < cellCount) {
+    repaired(
+      list,
+      path,
+      `has ${raw.length} entries for ${plural(cellCount, 'cell')}; the remaining ${cellCount - raw.length} will be empty`
+    );
+  }
+  raw.slice(0, cellCount).forEach((tile, index) => checkTile(tile, at(path, index), list));
+}
+
+/** A grid dimension; null when it cannot be used. */
+function checkDimension(raw: unknown, path: string, list: ImportIssue[]): number | null {
+  if (typeof raw !== 'number') {
+    fatal(list, path, 'must be a number');
+    return null;
+  }
+  if (!Number.isInteger(raw) || raw < 0) {
+    fatal(list, path, 'must be a whole number of at least 0');
+    return null;
+  }
+  return raw;
+}
+
+function checkName(data: Data, path: string, fallback: string, list: ImportIssue[]) {
+  if (data.name !== undefined && typeof data.name !== 'string') {
+    repaired(list, at(path, 'name'), `must be a string; using "${fallback}"`);
+  }
+}
+
+function checkStyle(data: Data, path: string, defaultLineWidth: number, list: ImportIssue[]) {
+  const { lineWidth, lineColor } = data;
+  if (lineWidth !== undefined && !(typeof lineWidth === 'number' && lineWidth >= 0)) {
+    repaired(list, at(path, 'lineWidth'), `must be a number of at least 0; using ${defaultLineWidth}`);
+  }
+  if (lineColor !== undefined && !(typeof lineColor === 'string' && lineColor.length > 0)) {
+    repaired(list, at(path, 'lineColor'), 'must be a non-empty string; using #ffffff');
+  }
+}
+
+function checkPreferredTileSize(data: Data, path: string, list: ImportIssue[]) {
+  const size = data.preferredTileSize;
+  if (size !== undefined && !(typeof size === 'number' && size > 0)) {
+    repaired(list, at(path, 'preferredTileSize'), `must be a positive number; using ${DEFAULT_TILE_SIZE}`);
+  }
+}
+
+function checkCategories(data: Data, path: string, list: ImportIssue[]) {
+  if (data.category !== undefined && !isCategory(data.category)) {
+    repaired(list, at(path, 'category'), `is not a known tile category; using "${FALLBACK_CATEGORY}"`);
+  }
+  const categories = data.categories;
+  if (categories === undefined) return;
+  if (!Array.isArray(categories)) {
+    repaired(list, at(path, 'categories'), 'must be an array; using category');
+    return;
+  }
+  categories.forEach((category, index) => {
+    if (!isCategory(category)) {
+      repaired(list, at(at(path, 'categories'), index), 'is not a known tile category; dropped');
+    }
+  });
+}
+
+function checkStringArray(data: Data, key: string, path: string, consequence: string, list: ImportIssue[]) {
+  const value = data[key];
+  if (value === undefined) return;
+  if (!Array.isArray(value)) {
+    repaired(list, at(path, key), 'must be an array of strings; ignored');
+    return;
+  }
+  value.forEach((entry, index) => {
+    if (typeof entry !== 'string') {
+      repaired(list, at(at(path, key), index), `must be a string; dropped${consequence}`);
+    }
+  });
+}
+
+/** Object keyed by layer level (`{ "2": … }`); calls visit for each usable entry. */
+function forEachLevel(
+  data: Data,
+  key: string,
+  path: string,
+  minLevel: number,
+  list: ImportIssue[],
+  visit: (value: unknown, levelPath: string) => void
+) {
+  const value = data[key];
+  if (value === undefined) return;
+  if (!isObject(value)) {
+    repaired(list, at(path, key), 'must be an object keyed by layer; ignored');
+    return;
+  }
+  for (const [level, entry] of Object.entries(value)) {
+    const levelPath = at(at(path, key), level);
+    const parsed = parseInt(level, 10);
+    if (!Number.isInteger(parsed) || parsed < minLevel) {
+      repaired(list, levelPath, `is not a layer of ${minLevel} or above; ignored`);
+      continue;
+    }
+    visit(entry, levelPath);
+  }
+}
+
+function checkCellIndexes(raw: unknown, path: string, cellCount: number | null, list: ImportIssue[]) {
+  if (!Array.isArray(raw)) {
+    repaired(list, path, 'must be an array; ignored');
+    return;
+  }
+  raw.forEach((cell, index) => {
+    const valid =
+      isWholeNumber(cell) && cell >= 0 && (cellCount === null || cell < cellCount);
+    if (!valid) {
+      const range = cellCount === null ? 'a cell index of 0 or more' : `a cell index from 0 to ${cellCount - 1}`;
+      repaired(list, at(path, index), `must be ${range}; dropped`);
+    }
+  });
+}
+
+/** Replace packed tile arrays with plain ones, reporting malformed packed data. Null when any is malformed. */
+function unpackFileTiles(data: Data, path: string, list: ImportIssue[]): Data | null {
+  let ok = true;
+  const unpack = (value: unknown, valuePath: string, level: number) => {
+    if (!isPackedTiles(value)) return value;
+    const tiles = unpackTiles(value, getPackedCellLimit(data.grid, level));
+    if (!tiles) {
+      fatal(list, valuePath, 'has malformed packed tile data');
+      ok = false;
+    }
+    return tiles;
+  };
+  const tiles = unpack(data.tiles, at(path, 'tiles'), 1);
+  let layers = data.layers;
+  if (isObject(layers)) {
+    layers = Object.fromEntries(
+      Object.entries(layers).map(([level, value]) => [
+        level,
+        unpack(value, at(at(path, 'layers'), level), parseInt(level, 10)),
+      ])
+    );
+  }
+  return ok ? { ...data, tiles, ...(layers !== undefined && { layers }) } : null;
+}
+
+/** Canvas file data (plain JSON, already inflated); path prefixes every issue (`file` inside bundles). */
+function checkTileFileData(raw: Data, path: string, list: ImportIssue[]) {
+  const data = unpackFileTiles(raw, path, list);
+  if (!data || !checkVersion(data, 'tile', path, list)) return;
+  checkName(data, path, 'Imported', list);
+  const gridPath = at(path, 'grid');
+  let cellCount: number | null = null;
+  if (!isObject(data.grid)) {
+    fatal(list, gridPath, 'must be an object with rows and columns');
+  } else {
+    const rows = checkDimension(data.grid.rows, at(gridPath, 'rows'), list);
+    const columns = checkDimension(data.grid.columns, at(gridPath, 'columns'), list);
+    if (rows !== null && columns !== null) cellCount = rows * columns;
+  }
+  if (cellCount !== null) {
+    checkTileArray(data.tiles, at(path, 'tiles'), cellCount, list);
+  }
+  forEachLevel(data, 'layers', path, 2, list, (value, levelPath) => {
+    if (!Array.isArray(value)) {
+      repaired(list, levelPath, 'must be an array of tiles; ignored');
+      return;
+    }
+    value.forEach((tile, index) => checkTile(tile, at(levelPath, index), list));
+  });
+  checkPreferredTileSize(data, path, list);
+  checkStyle(data, path, 10, list);
+  const shift = ', so the following names move down one index';
+  checkStringArray(data, 'sourceNames', path, shift, list);
+  checkStringArray(data, 'tileSetIds', path, '', list);
+  checkCategories(data, path, list);
+  if (data.lockedCells !== undefined) {
+    checkCellIndexes(data.lockedCells, at(path, 'lockedCells'), cellCount, list);
+  }
+  forEachLevel(data, 'lockedCellsPerLayer', path, 2, list, (value, levelPath) =>
+    checkCellIndexes(value, levelPath, null, list)
+  );
+  for (const key of ['layerVisibility', 'layerLocked', 'layerEmphasized']) {
+    forEachLevel(data, key, path, 1, list, (value, levelPath) => {
+      if (typeof value !== 'boolean') {
+        repaired(list, levelPath, 'must be true or false; ignored');
+      }
+    });
+  }
+  if (data.seed !== undefined && normalizeSeed(data.seed) === null) {
+    repaired(list, at(path, 'seed'), 'must be a whole number of at least 0; ignored');
+  }
+  if (data.tileable !== undefined && typeof data.tileable !== 'boolean') {
+    repaired(list, at(path, 'tileable'), 'must be true or false; using false');
+  }
+}
+
+function checkKind(data: Data, expected: string, path: string, list: ImportIssue[]): boolean {
+  if (data.kind === expected) return true;
+  const found = typeof data.kind === 'string' ? `is "${data.kind}"` : 'is missing';
+  fatal(list, at(path, 'kind'), `${found}; expected "${expected}"`);
+  return false;
+}
+
+function checkSetTile(raw: unknown, path: string, list: ImportIssue[]) {
+  if (!isObject(raw)) {
+    repaired(list, path, 'must be a tile object; dropped');
+    return;
+  }
+  if (raw.id !== undefined && typeof raw.id !== 'string') {
+    repaired(list, at(path, 'id'), 'must be a string; a new id is generated');
+  }
+  checkName(raw, path, 'Tile', list);
+  let cellCount = 0;
+  if (raw.grid !== undefined) {
+    const gridPath = at(path, 'grid');
+    if (!isObject(raw.grid)) {
+      repaired(list, gridPath, 'must be an object with rows and columns; using 0×0');
+    } else {
+      const dimension = (key: 'rows' | 'columns') => {
+        const value = (raw.grid as Data)[key];
+        if (typeof value === 'number') return checkDimension(value, at(gridPath, key), list) ?? 0;
+        repaired(list, at(gridPath, key), 'must be a number; using 0');
+        return 0;
+      };
+      cellCount = dimension('rows') * dimension('columns');
+    }
+  }
+  checkPreferredTileSize(raw, path, list);
+  if (raw.updatedAt !== undefined && !(typeof raw.updatedAt === 'number' && Number.isFinite(raw.updatedAt))) {
+    repaired(list, at(path, 'updatedAt'), 'must be a number; ignored');
+  }
+  checkTileArray(raw.tiles, at(path, 'tiles'), cellCount, list);
+  if (raw.svg === undefined) return;
+  if (typeof raw.svg !== 'string' || normalizeSvgTileMarkup(raw.svg) === null) {
+    repaired(list, at(path, 'svg'), 'must be SVG markup with a viewBox or width and height; ignored');
+    return;
+  }
+  const { connections } = raw;
+  if (!(typeof connections === 'string' && /^[01]{8}$/.test(connections))) {
+    repaired(list, at(path, 'connections'), 'must be 8 digits of 0 or 1; using "00000000"');
+  }
+}
+
+function checkTileSetData(data: Data, path: string, list: ImportIssue[]) {
+  if (!checkKind(data, 'tileSet', path, list) || !checkVersion(data, 'tileSet', path, list)) return;
+  checkName(data, path, 'Imported Set', list);
+  checkCategories(data, path, list);
+  const { resolution } = data;
+  if (resolution !== undefined && !(typeof resolution === 'number' && resolution >= 2 && resolution <= 8)) {
+    repaired(list, at(path, 'resolution'), 'must be from 2 to 8; using 4');
+  }
+  checkStyle(data, path, 3, list);
+  if (data.tiles === undefined) return;
+  if (!Array.isArray(data.tiles)) {
+    repaired(list, at(path, 'tiles'), 'must be an array; the set will have no tiles');
+    return;
+  }
+  data.tiles.forEach((tile, index) => checkSetTile(tile, at(at(path, 'tiles'), index), list));
+}
+
+/** Pattern width or height: a positive whole number, or 1 when missing or not positive. */
+function checkPatternSize(raw: unknown, path: string, list: ImportIssue[]): number | null {
+  if (raw === undefined) return 1;
+  if (typeof raw !== 'number' || raw <= 0) {
+    repaired(list, path, 'must be a positive number; using 1');
+    return 1;
+  }
+  if (!Number.isInteger(raw)) {
+    fatal(list, path, 'must be a whole number');
+    return null;
+  }
+  return raw;
+}
+
+function checkPatternData(data: Data, path: string, list: ImportIssue[]) {
+  if (!checkKind(data, 'pattern', path, list) || !checkVersion(data, 'pattern', path, list)) return;
+  checkName(data, path, 'Imported Pattern', list);
+  checkCategories(data, path, list);
+  const width = checkPatternSize(data.width, at(path, 'width'), list);
+  const height = checkPatternSize(data.height, at(path, 'height'), list);
+  if (width !== null && height !== null) {
+    checkTileArray(data.tiles, at(path, 'tiles'), width * height, list);
+  }
+  if (data.createdAt !== undefined && !(typeof data.createdAt === 'number' && Number.isFinite(data.createdAt))) {
+    repaired(list, at(path, 'createdAt'), 'must be a number; using the import time');
+  }
+  const level = data.createdAtLevel;
+  if (level !== undefined && !(isWholeNumber(level) && level >= 1)) {
+    repaired(list, at(path, 'createdAtLevel'), 'must be a whole number of at least 1; ignored');
+  }
+  forEachLevel(data, 'layerTiles', path, 1, list, (value, levelPath) => {
+    if (!isObject(value)) {
+      repaired(list, levelPath, 'must be an object with width, height and tiles; ignored');
+      return;
+    }
+    const levelWidth = value.width;
+    const levelHeight = value.height;
+    if (!(typeof levelWidth === 'number' && levelWidth > 0 && typeof levelHeight === 'number' && levelHeight > 0)) {
+      repaired(list, levelPath, 'needs a positive width and height; ignored');
+      return;
+    }
+    if (!Number.isInteger(levelWidth) || !Number.isInteger(levelHeight)) {
+      fatal(list, levelPath, 'width and height must be whole numbers');
+      return;
+    }
+    checkTileArray(value.tiles, at(levelPath, 'tiles'), levelWidth * levelHeight, list);
+  });
+}
+
+function checkBundleData(data: Data, member: 'file' | 'pattern', list: ImportIssue[]) {
+  if (!checkVersion(data, 'bundle', '', list)) return;
+  const { tileSets } = data;
+  if (!Array.isArray(tileSets)) {
+    fatal(list, 'tileSets', 'must be an array');
+  } else {
+    tileSets.forEach((entry, index) => {
+      const entryPath = at('tileSets', index);
+      if (!isObject(entry)) {
+        fatal(list, entryPath, 'must be an object with setId and payload');
+        return;
+      }
+      if (typeof entry.setId !== 'string') {
+        fatal(list, at(entryPath, 'setId'), 'must be a string');
+      }
+      if (!isObject(entry.payload)) {
+        fatal(list, at(entryPath, 'payload'), 'must be a tile set object');
+        return;
+      }
+      checkTileSetData({ kind: 'tileSet', ...entry.payload }, at(entryPath, 'payload'), list);
+    });
+  }
+  const payload = data[member];
+  if (!isObject(payload)) {
+    fatal(list, member, `must be a ${member === 'file' ? '.tile file' : 'pattern'} object`);
+  } else if (member === 'file') {
+    checkTileFileData(payload, member, list);
+  } else {
+    checkPatternData({ kind: 'pattern', ...payload }, member, list);
+  }
+}
+
+/**
+ * Validate import text for the given flow. 'file' accepts plain, packed and deflated .tile
+ * files and file bundles; 'pattern' accepts patterns and pattern bundles; 'tileSet' accepts
+ * tile sets. Tiled maps are not covered (see utils/tiled-format.ts).
+ */
+export function validateImportText(text: string, target: ImportTarget): ImportReport {
+  const list: ImportIssue[] = [];
+  const inflated = target === 'file' && isDeflatedTileText(text) ? inflateTileText(text) : text;
+  if (inflated === null) {
+    fatal(list, '', 'Compressed .tile data is corrupt');
+    return { kind: null, issues: list };
+  }
+  let data: unknown;
+  try {
+    data = JSON.parse(inflated);
+  } catch {
+    fatal(list, '', 'Not valid JSON');
+    return { kind: null, issues: list };
+  }
+  if (!isObject(data)) {
+    fatal(list, '', 'Must be a JSON object');
+    return { kind: null, issues: list };
+  }
+  if (target === 'file') {
+    if (data.kind === 'fileBundle') {
+      checkBundleData(data, 'file', list);
+      return { kind: 'fileBundle', issues: list };
+    }
+    if (data.kind !== undefined) {
+      const found = typeof data.kind === 'string' ? `is "${data.kind}"` : 'is not a string';
+      fatal(list, 'kind', `${found}; expected a .tile file or "fileBundle"`);
+      return { kind: null, issues: list };
+    }
+    checkTileFileData(data, '', list);
+    return { kind: 'file', issues: list };
+  }
+  if (target === 'pattern') {
+    if (data.kind === 'patternBundle') {
+      checkBundleData(data, 'pattern', list);
+      return { kind: 'patternBundle', issues: list };
+    }
+    checkPatternData(data, '', list);
+    return { kind: 'pattern', issues: list };
+  }
+  checkTileSetData(data, '', list);
+  return { kind: 'tileSet', issues: list };
+}
+
+export function hasFatalIssues(report: ImportReport): boolean {
+  return report.issues.some((issue) => issue.severity === 'fatal');
+}
+
+/** One line per issue (`tiles[3].rotation must be a multiple of 90`). */
+export function formatImportIssue(issue: ImportIssue): string {
+  return issue.path ? `${issue.path} ${issue.message}` : issue.message;
+}
+
+/** Bulleted issue list capped at maxLines, with a count of the rest. */
+export function formatImportIssues(issues: ImportIssue[], maxLines = 12): string {
+  const lines = issues.slice(0, maxLines).map((issue) => `• ${formatImportIssue(issue)}`);
+  if (issues.length > maxLines) {
+    lines.push(`…and ${issues.length - maxLines} more`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,632 @@
+/**
+ * Library backup archive: one ZIP holding every file, tile set and pattern plus the brush
+ * favorites and settings records, listed in manifest.json with their local ids. The manifest
+ * also holds the File view folders and each file's folder and tags.
+ *
+ *   manifest.json
+ *   files/<name>_<n>.tile             file bundles (.tile file + the tile sets it uses)
+ *   tilesets/<name>_<n>.tileset
+ *   patterns/<name>_<n>.tilepattern
+ *   favorites.json, settings.json     the stored records as they are
+ *
+ * Each entry is a normal export, so single items can also be imported by hand. Restore
+ * reads the archive back (readLibraryBackupZip), merges it into or replaces the current
+ * library with items matched by id (restoreLibrary), and writeLibraryToStorage stores the
+ * result; callers then reload each hook, as after clearAllLocalData.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import JSZip from 'jszip';
+
+import type { TileFile } from '@/hooks/use-tile-files';
+import type { TilePattern } from '@/hooks/use-tile-patterns';
+import type { TileSet } from '@/hooks/use-tile-sets';
+import {
+  FAVORITES_KEY,
+  FILE_FOLDERS_KEY,
+  PATTERNS_KEY,
+  SETTINGS_KEY,
+  TILE_SETS_KEY,
+} from '@/utils/clear-local-data';
+import { normalizeFolders, normalizeTags, type FileFolder } from '@/utils/file-browser';
+import { listSnapshotFileIds, removeFileSnapshots } from '@/utils/file-snapshots';
+import {
+  deserializeBundle,
+  getSetIdsFromPatternTiles,
+  normalizeBundledTileSet,
+  remapQualifiedName,
+  remapTileList,
+  serializeFileBundle,
+} from '@/utils/tile-bundle-format';
+import {
+  createPersistedFiles,
+  FILES_INDEX_KEY,
+  planFileWrites,
+  removeFileRecordsExcept,
+} from '@/utils/tile-file-storage';
+import { deserializeTileFile, serializeTileFile, type TileFilePayload } from '@/utils/tile-format';
+import type { Tile } from '@/utils/tile-grid';
+import {
+  deserializePattern,
+  deserializeTileSet,
+  serializePattern,
+  serializeTileSetForBundle,
+  type PatternExportPayload,
+  type TileSetExportPayload,
+} from '@/utils/tile-ugc-format';
+
+export const LIBRARY_BACKUP_VERSION = 1;
+
+const MANIFEST_PATH = 'manifest.json';
+const FAVORITES_PATH = 'favorites.json';
+const SETTINGS_PATH = 'settings.json';
+
+export type LibraryContents = {
+  files: TileFile[];
+  /** File view folders (use-tile-files). */
+  folders: FileFolder[];
+  tileSets: TileSet[];
+  patterns: TilePattern[];
+  /** Stored brush favorites record (tile-brush-panel); null when there is none. */
+  favorites: Record<string, unknown> | null;
+  /** Stored settings record (use-persisted-settings); null when there is none. */
+  settings: Record<string, unknown> | null;
+};
+
+type ManifestEntry = { id: string; name: string; path: string };
+
+export type LibraryBackupManifest = {
+  kind: 'libraryBackup';
+  v: number;
+  createdAt: number;
+  files: (ManifestEntry & {
+    updatedAt: number;
+    createdAt?: number;
+    isSample?: boolean;
+    folderId?: string;
+    tags?: string[];
+  })[];
+  folders: FileFolder[];
+  tileSets: (ManifestEntry & { updatedAt: number })[];
+  patterns: (ManifestEntry & { tileSetIds?: string[] })[];
+  favorites: string | null;
+  settings: string | null;
+};
+
+export type ReadLibraryBackupResult =
+  | {
+      ok: true;
+      library: LibraryContents;
+      createdAt: number;
+      /** Manifest paths that were missing or could not be read; the rest is restored. */
+      skipped: string[];
+    }
+  | { ok: false; error: string };
+
+export type LibraryRestoreMode = 'merge' | 'replace';
+
+/** What a merge does with an item whose id is in both libraries but whose contents differ. */
+export type LibraryConflictPolicy = 'keepCurrent' | 'useBackup' | 'keepBoth';
+
+export type LibraryConflicts = { files: string[]; tileSets: string[]; patterns: string[] };
+
+const createId = (prefix: string) =>
+  `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const entryPath = (folder: string, name: string, index: number, extension: string) =>
+  `${folder}/${name.replace(/[^\w-]+/g, '_') || 'untitled'}_${index + 1}.${extension}`;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  value != null && typeof value === 'object' && !Array.isArray(value);
+
+/** A file bundle whose file keeps layers and layer settings (serializeFileBundle writes level 1 only). */
+const serializeBackupFile = (file: TileFile, tileSetsById: Map<string, TileSet>) => {
+  const bundle = JSON.parse(serializeFileBundle(file, tileSetsById)) as Record<string, unknown>;
+  return JSON.stringify({ ...bundle, file: JSON.parse(serializeTileFile(file)) });
+};
+
+/** Build the backup archive; call generateAsync on the result for a blob or base64. */
+export function createLibraryBackupZip(library: LibraryContents, createdAt = Date.now()): JSZip {
+  const zip = new JSZip();
+  const tileSetsById = new Map(library.tileSets.map((set) => [set.id, set]));
+  const manifest: LibraryBackupManifest = {
+    kind: 'libraryBackup',
+    v: LIBRARY_BACKUP_VERSION,
+    createdAt,
+    files: library.files.map((file, index) => {
+      const path = entryPath('files', file.name, index, 'tile');
+      zip.file(path, serializeBackupFile(file, tileSetsById));
+      return {
+        id: file.id,
+        name: file.name,
+        path,
+        updatedAt: file.updatedAt,
+        ...(file.createdAt !== undefined && { createdAt: file.createdAt }),
+        ...(file.isSample && { isSample: true }),
+        ...(file.folderId && { folderId: file.folderId }),
+        ...(file.tags && file.tags.length > 0 && { tags: file.tags }),
+      };
+    }),
+    folders: library.folders,
+    tileSets: library.tileSets.map((set, index) => {
+      const path = entryPath('tilesets', set.name, index, 'tileset');
+      zip.file(path, serializeTileSetForBundle(set));
+      return { id: set.id, name: set.name, path, updatedAt: set.updatedAt };
+    }),
+    patterns: library.patterns.map((pattern, index) => {
+      const path = entryPath('patterns', pattern.name, index, 'tilepattern');
+      zip.file(path, serializePattern(pattern));
+      return {
+        id: pattern.id,
+        name: pattern.name,
+        path,
+        ...(pattern.tileSetIds && { tileSetIds: pattern.tileSetIds }),
+      };
+    }),
+    favorites: library.favorites ? FAVORITES_PATH : null,
+    settings: library.settings ? SETTINGS_PATH : null,
+  };
+  if (library.favorites) {
+    zip.file(FAVORITES_PATH, JSON.stringify(library.favorites));
+  }
+  if (library.settings) {
+    zip.file(SETTINGS_PATH, JSON.stringify(library.settings));
+  }
+  zip.file(MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+  return zip;
+}
+
+const tileSetFromPayload = (
+  id: string,
+  payload: TileSetExportPayload,
+  updatedAt: number
+): TileSet => ({
+  id,
+  name: payload.name,
+  category: payload.category,
+  categories: payload.categories ?? [payload.category],
+  resolution: payload.resolution,
+  lineWidth: payload.lineWidth,
+  lineColor: payload.lineColor,
+  tiles: payload.tiles.map((tile) => ({
+    id: tile.id,
+    name: tile.name,
+    tiles: tile.tiles,
+    grid: tile.grid,
+    preferredTileSize: tile.preferredTileSize,
+    thumbnailUri: null,
+    previewUri: null,
+    updatedAt: tile.updatedAt ?? updatedAt,
+    ...(tile.svg && { svg: tile.svg, connections: tile.connections ?? '00000000' }),
+  })),
+  updatedAt,
+});
+
+type FileEntryFields = {
+  id: string;
+  updatedAt: number;
+  createdAt?: number;
+  isSample: boolean;
+  folderId?: string;
+  tags: string[];
+};
+
+const fileFromPayload = (entry: FileEntryFields, payload: TileFilePayload): TileFile => ({
+  id: entry.id,
+  name: payload.name,
+  tiles: payload.tiles,
+  grid: payload.grid,
+  ...(payload.layers && { layers: payload.layers as Record<number, Tile[]> }),
+  category: payload.category,
+  categories: payload.categories,
+  tileSetIds: payload.tileSetIds,
+  sourceNames: payload.sourceNames,
+  preferredTileSize: payload.preferredTileSize,
+  lineWidth: payload.lineWidth,
+  lineColor: payload.lineColor,
+  thumbnailUri: null,
+  previewUri: null,
+  updatedAt: entry.updatedAt,
+  ...(entry.createdAt !== undefined && { createdAt: entry.createdAt }),
+  ...(entry.folderId !== undefined && { folderId: entry.folderId }),
+  ...(entry.tags.length > 0 && { tags: entry.tags }),
+  lockedCells: payload.lockedCells ?? [],
+  ...(payload.lockedCellsPerLayer && { lockedCellsPerLayer: payload.lockedCellsPerLayer }),
+  ...(payload.layerVisibility && { layerVisibility: payload.layerVisibility }),
+  ...(payload.layerLocked && { layerLocked: payload.layerLocked }),
+  ...(payload.layerEmphasized && { layerEmphasized: payload.layerEmphasized }),
+  ...(entry.isSample && { isSample: true }),
+  ...(payload.seed !== undefined && { seed: payload.seed }),
+  ...(payload.tileable && { tileable: true }),
+});
+
+const patternFromPayload = (
+  entry: { id: string; tileSetIds?: unknown },
+  payload: PatternExportPayload
+): TilePattern => ({
+  id: entry.id,
+  name: payload.name,
+  category: payload.category,
+  width: payload.width,
+  height: payload.height,
+  tiles: payload.tiles,
+  tileSetIds: Array.isArray(entry.tileSetIds)
+    ? entry.tileSetIds.filter((id): id is string => typeof id === 'string')
+    : getSetIdsFromPatternTiles([
+        ...payload.tiles,
+        ...Object.values(payload.layerTiles ?? {}).flatMap((layer) => layer.tiles),
+      ]),
+  createdAt: payload.createdAt,
+  ...(payload.createdAtLevel !== undefined && { createdAtLevel: payload.createdAtLevel }),
+  ...(payload.layerTiles && { layerTiles: payload.layerTiles }),
+});
+
+/** A manifest entry as read: id and path checked, other fields still unknown. */
+type ReadManifestEntry = ManifestEntry & Record<string, unknown>;
+
+const isManifestEntry = (value: unknown): value is ReadManifestEntry =>
+  isRecord(value) && typeof value.id === 'string' && typeof value.path === 'string';
+
+/**
+ * Read a backup archive. Entries that are missing or cannot be read are listed in skipped;
+ * tile sets only found embedded in file bundles are restored too.
+ */
+export async function readLibraryBackupZip(
+  data: ArrayBuffer | Uint8Array | Blob | string,
+  options?: { base64?: boolean }
+): Promise<ReadLibraryBackupResult> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data, { base64: options?.base64 === true });
+  } catch {
+    return { ok: false, error: 'Not a ZIP archive' };
+  }
+  const readText = (path: string) => zip.file(path)?.async('string') ?? Promise.resolve(null);
+  const manifestText = await readText(MANIFEST_PATH);
+  if (manifestText === null) {
+    return { ok: false, error: 'Not a library backup (no manifest.json)' };
+  }
+  let manifest: Record<string, unknown>;
+  try {
+    const parsed = JSON.parse(manifestText) as unknown;
+    if (!isRecord(parsed) || parsed.kind !== 'libraryBackup') {
+      return { ok: false, error: 'Not a library backup' };
+    }
+    manifest = parsed;
+  } catch {
+    return { ok: false, error: 'Invalid manifest.json' };
+  }
+  if (typeof manifest.v !== 'number' || manifest.v > LIBRARY_BACKUP_VERSION) {
+    return { ok: false, error: 'Unsupported library backup version' };
+  }
+  const entries = (key: 'files' | 'tileSets' | 'patterns') =>
+    (Array.isArray(manifest[key]) ? (manifest[key] as unknown[]) : []).filter(isManifestEntry);
+  const numberOr = (value: unknown, fallback: number) =>
+    typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+  const now = Date.now();
+  const skipped: string[] = [];
+
+  const tileSets: TileSet[] = [];
+  for (const entry of entries('tileSets')) {
+    const text = await readText(entry.path);
+    const result = text === null ? null : deserializeTileSet(text);
+    if (!result?.ok) {
+      skipped.push(entry.path);
+      continue;
+    }
+    tileSets.push(tileSetFromPayload(entry.id, result.payload, numberOr(entry.updatedAt, now)));
+  }
+
+  const files: TileFile[] = [];
+  for (const entry of entries('files')) {
+    const text = await readText(entry.path);
+    const bundle = text === null ? null : deserializeBundle(text);
+    const result =
+      bundle?.ok && bundle.kind === 'fileBundle'
+        ? deserializeTileFile(JSON.stringify(bundle.payload.file))
+        : null;
+    if (!bundle?.ok || bundle.kind !== 'fileBundle' || !result?.ok) {
+      skipped.push(entry.path);
+      continue;
+    }
+    bundle.payload.tileSets.forEach(({ setId, payload }) => {
+      if (typeof setId === 'string' && !tileSets.some((set) => set.id === setId)) {
+        tileSets.push(tileSetFromPayload(setId, normalizeBundledTileSet(payload), now));
+      }
+    });
+    files.push(
+      fileFromPayload(
+        {
+          id: entry.id,
+          updatedAt: numberOr(entry.updatedAt, now),
+          ...(typeof entry.createdAt === 'number' && { createdAt: entry.createdAt }),
+          isSample: entry.isSample === true,
+          ...(typeof entry.folderId === 'string' && { folderId: entry.folderId }),
+          tags: normalizeTags(entry.tags),
+        },
+        result.payload
+      )
+    );
+  }
+
+  const patterns: TilePattern[] = [];
+  for (const entry of entries('patterns')) {
+    const text = await readText(entry.path);
+    const result = text === null ? null : deserializePattern(text);
+    if (!result?.ok) {
+      skipped.push(entry.path);
+      continue;
+    }
+    patterns.push(patternFromPayload(entry, result.payload));
+  }
+
+  const readRecord = async (key: 'favorites' | 'settings') => {
+    const path = manifest[key];
+    if (typeof path !== 'string') {
+      return null;
+    }
+    const text = await readText(path);
+    try {
+      const value = text === null ? null : (JSON.parse(text) as unknown);
+      if (isRecord(value)) {
+        return value;
+      }
+    } catch {
+      // listed below
+    }
+    skipped.push(path);
+    return null;
+  };
+
+  return {
+    ok: true,
+    library: {
+      files,
+      folders: normalizeFolders(manifest.folders),
+      tileSets,
+      patterns,
+      favorites: await readRecord('favorites'),
+      settings: await readRecord('settings'),
+    },
+    createdAt: numberOr(manifest.createdAt, now),
+    skipped,
+  };
+}
+
+const fileContent = (file: TileFile) => serializeTileFile(file);
+const tileSetContent = (set: TileSet) => serializeTileSetForBundle(set);
+const patternContent = (pattern: TilePattern) =>
+  `${serializePattern(pattern)}${JSON.stringify(pattern.tileSetIds ?? [])}`;
+
+const conflictingIds = <T extends { id: string }>(
+  current: T[],
+  backup: T[],
+  content: (item: T) => string
+) => {
+  const byId = new Map(current.map((item) => [item.id, item]));
+  return backup
+    .filter((item) => {
+      const existing = byId.get(item.id);
+      return existing !== undefined && content(existing) !== content(item);
+    })
+    .map((item) => item.id);
+};
+
+/** Ids in both libraries whose contents differ; identical items are not conflicts. */
+export function findLibraryConflicts(
+  current: LibraryContents,
+  backup: LibraryContents
+): LibraryConflicts {
+  return {
+    files: conflictingIds(current.files, backup.files, fileContent),
+    tileSets: conflictingIds(current.tileSets, backup.tileSets, tileSetContent),
+    patterns: conflictingIds(current.patterns, backup.patterns, patternContent),
+  };
+}
+
+/**
+ * Backup items added to current by id: new ids are appended, identical items are kept once,
+ * and conflicts follow policy ('keepBoth' adds the backup item under a new id, reported in
+ * the returned map).
+ */
+const mergeById = <T extends { id: string }>(
+  current: T[],
+  backup: T[],
+  content: (item: T) => string,
+  policy: LibraryConflictPolicy,
+  idPrefix: string
+): { items: T[]; renamed: Map<string, string> } => {
+  const items = [...current];
+  const renamed = new Map<string, string>();
+  backup.forEach((item) => {
+    const index = items.findIndex((existing) => existing.id === item.id);
+    if (index === -1) {
+      items.push(item);
+    } else if (content(items[index]) === content(item) || policy === 'keepCurrent') {
+      // Already there.
+    } else if (policy === 'useBackup') {
+      items[index] = item;
+    } else {
+      const id = createId(idPrefix);
+      renamed.set(item.id, id);
+      items.push({ ...item, id });
+    }
+  });
+  return { items, renamed };
+};
+
+const remapSetIdList = (ids: string[], setIds: Map<string, string>) =>
+  ids.map((id) => setIds.get(id) ?? id);
+
+/** Point a backup file at tile sets that were added under new ids (as remapFilePayload does for bundles). */
+const remapFileSets = (file: TileFile, setIds: Map<string, string>): TileFile => {
+  if (setIds.size === 0) {
+    return file;
+  }
+  const layers =
+    file.layers &&
+    Object.fromEntries(
+      Object.entries(file.layers).map(([level, tiles]) => [level, remapTileList(tiles, setIds)])
+    );
+  return {
+    ...file,
+    tiles: remapTileList(file.tiles, setIds),
+    ...(layers && { layers }),
+    tileSetIds: remapSetIdList(file.tileSetIds, setIds),
+    sourceNames: file.sourceNames.map((name) => remapQualifiedName(name, setIds)),
+  };
+};
+
+/** Same for a backup pattern (as remapPatternTileNames does for bundles). */
+const remapPatternSets = (pattern: TilePattern, setIds: Map<string, string>): TilePattern => {
+  if (setIds.size === 0) {
+    return pattern;
+  }
+  const layerTiles =
+    pattern.layerTiles &&
+    Object.fromEntries(
+      Object.entries(pattern.layerTiles).map(([level, layer]) => [
+        level,
+        { ...layer, tiles: remapTileList(layer.tiles, setIds) },
+      ])
+    );
+  return {
+    ...pattern,
+    tiles: remapTileList(pattern.tiles, setIds),
+    ...(layerTiles && { layerTiles }),
+    ...(pattern.tileSetIds && { tileSetIds: remapSetIdList(pattern.tileSetIds, setIds) }),
+  };
+};
+
+/** Favorites merge per tile name (and weights per tile and set); backup entries win when preferred. */
+const mergeFavorites = (
+  current: Record<string, unknown> | null,
+  backup: Record<string, unknown> | null,
+  preferBackup: boolean
+): Record<string, unknown> | null => {
+  if (!current || !backup) {
+    return current ?? backup;
+  }
+  const [base, over] = preferBackup ? [current, backup] : [backup, current];
+  const field = (record: Record<string, unknown>, key: string) =>
+    isRecord(record[key]) ? (record[key] as Record<string, unknown>) : {};
+  const baseWeights = field(base, 'weights');
+  const overWeights = field(over, 'weights');
+  return {
+    ...base,
+    ...over,
+    favorites: { ...field(base, 'favorites'), ...field(over, 'favorites') },
+    weights: {
+      tiles: { ...field(baseWeights, 'tiles'), ...field(overWeights, 'tiles') },
+      sets: { ...field(baseWeights, 'sets'), ...field(overWeights, 'sets') },
+    },
+  };
+};
+
+/**
+ * The library after restoring backup. 'replace' returns the backup as it is. 'merge' keeps
+ * every current item and adds the backup's by id (see mergeById); favorites are merged per
+ * tile, and settings are taken from the backup only with 'useBackup'. When a tile set is
+ * kept twice, the backup's files and patterns are pointed at its new id. Folders are never
+ * kept twice (files point at them by id): a differing folder is replaced only with 'useBackup'.
+ */
+export function restoreLibrary(
+  current: LibraryContents,
+  backup: LibraryContents,
+  mode: LibraryRestoreMode,
+  policy: LibraryConflictPolicy = 'keepCurrent'
+): LibraryContents {
+  if (mode === 'replace') {
+    return backup;
+  }
+  const tileSets = mergeById(current.tileSets, backup.tileSets, tileSetContent, policy, 'tileset');
+  const files = mergeById(
+    current.files,
+    backup.files.map((file) => remapFileSets(file, tileSets.renamed)),
+    fileContent,
+    policy,
+    'file'
+  );
+  const patterns = mergeById(
+    current.patterns,
+    backup.patterns.map((pattern) => remapPatternSets(pattern, tileSets.renamed)),
+    patternContent,
+    policy,
+    'pattern'
+  );
+  const folders = mergeById(
+    current.folders,
+    backup.folders,
+    (folder) => JSON.stringify(folder),
+    policy === 'useBackup' ? 'useBackup' : 'keepCurrent',
+    'folder'
+  );
+  const preferBackup = policy === 'useBackup';
+  return {
+    files: files.items,
+    folders: normalizeFolders(folders.items),
+    tileSets: tileSets.items,
+    patterns: patterns.items,
+    favorites: mergeFavorites(current.favorites, backup.favorites, preferBackup),
+    settings:
+      preferBackup && backup.settings
+        ? { ...current.settings, ...backup.settings }
+        : current.settings ?? backup.settings,
+  };
+}
+
+const readStoredRecord = async (key: string) => {
+  try {
+    const raw = await AsyncStorage.getItem(key);
+    const value = raw ? (JSON.parse(raw) as unknown) : null;
+    return isRecord(value) ? value : null;
+  } catch {
+    return null;
+  }
+};
+
+/** Favorites and settings as stored (both are written through on every change). */
+export async function readStoredPreferences(): Promise<
+  Pick<LibraryContents, 'favorites' | 'settings'>
+> {
+  const [favorites, settings] = await Promise.all([
+    readStoredRecord(FAVORITES_KEY),
+    readStoredRecord(SETTINGS_KEY),
+  ]);
+  return { favorites, settings };
+}
+
+/**
+ * Replace the stored library with library. Callers then reload the hooks (reloadFiles,
+ * reloadTileSets, reloadPatterns, reloadBrushFavorites, reload settings).
+ *
+ * The file records are written first and the index with the lists after them; only then are
+ * the records and histories of files the library no longer has removed. A write that fails
+ * leaves the old library in place (files restored under an existing id may hold the new body).
+ */
+export async function writeLibraryToStorage(library: LibraryContents): Promise<void> {
+  const plan = planFileWrites(library.files, createPersistedFiles(), new Set());
+  if (plan.records.length > 0) {
+    await AsyncStorage.multiSet(plan.records);
+  }
+  await AsyncStorage.multiSet([
+    [FILES_INDEX_KEY, plan.next.index ?? '[]'],
+    [FILE_FOLDERS_KEY, JSON.stringify(library.folders)],
+    [TILE_SETS_KEY, JSON.stringify(library.tileSets)],
+    [PATTERNS_KEY, JSON.stringify(library.patterns)],
+  ]);
+  const records: [string, Record<string, unknown> | null][] = [
+    [FAVORITES_KEY, library.favorites],
+    [SETTINGS_KEY, library.settings],
+  ];
+  for (const [key, value] of records) {
+    if (value) {
+      await AsyncStorage.setItem(key, JSON.stringify(value));
+    } else {
+      await AsyncStorage.removeItem(key);
+    }
+  }
+  const fileIds = new Set(library.files.map((file) => file.id));
+  await removeFileRecordsExcept(fileIds);
+  const historyIds = await listSnapshotFileIds();
+  await Promise.all(historyIds.filter((id) => !fileIds.has(id)).map((id) => removeFileSnapshots(id)));
+}
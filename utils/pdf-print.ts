@@ -0,0 +1,353 @@
+/**
+ * Print-ready PDF export: designs rendered by renderTileCanvasToSvg are placed on physical
+ * pages (vector, via jsPDF + svg2pdf.js) at a chosen scale, with margins, bleed and crop
+ * marks, optionally tiled across several pages as a poster.
+ *
+ * Layout (computePdfPrintLayout, getCropMarkLines) is pure and in millimetres; buildPrintPdf
+ * needs DOMParser, so it runs on web only.
+ */
+import { jsPDF } from 'jspdf';
+import { svg2pdf } from 'svg2pdf.js';
+
+export type PdfPageSize = 'a4' | 'a3' | 'a2' | 'letter' | 'tabloid';
+
+/** Portrait page sizes in millimetres. */
+export const PDF_PAGE_SIZES: Record<PdfPageSize, { label: string; width: number; height: number }> = {
+  a4: { label: 'A4', width: 210, height: 297 },
+  a3: { label: 'A3', width: 297, height: 420 },
+  a2: { label: 'A2', width: 420, height: 594 },
+  letter: { label: 'Letter', width: 215.9, height: 279.4 },
+  tabloid: { label: 'Tabloid', width: 279.4, height: 431.8 },
+};
+
+export type PdfOrientation = 'portrait' | 'landscape';
+
+/**
+ * How big the design prints: a physical size per grid cell, a print resolution for the
+ * design's pixel size, or as large as fits on one page.
+ */
+export type PdfPrintScale =
+  | { mode: 'cell'; cellSizeMm: number }
+  | { mode: 'dpi'; dpi: number }
+  | { mode: 'fit' };
+
+export type PdfPrintOptions = {
+  pageSize: PdfPageSize;
+  orientation: PdfOrientation;
+  scale: PdfPrintScale;
+  marginMm: number;
+  /** Background printed past the trim edge so cutting slightly off leaves no white edge. */
+  bleedMm: number;
+  cropMarks: boolean;
+  /** Split designs larger than the printable area over several pages. Ignored for 'fit'. */
+  posterTiling: boolean;
+};
+
+export const DEFAULT_PDF_PRINT_OPTIONS: PdfPrintOptions = {
+  pageSize: 'a4',
+  orientation: 'portrait',
+  scale: { mode: 'cell', cellSizeMm: 20 },
+  marginMm: 10,
+  bleedMm: 3,
+  cropMarks: true,
+  posterTiling: false,
+};
+
+export const PDF_CELL_SIZE_OPTIONS_MM = [10, 20, 30, 50];
+export const PDF_DPI_OPTIONS = [72, 150, 300];
+export const PDF_MARGIN_OPTIONS_MM = [5, 10, 15];
+export const PDF_BLEED_OPTIONS_MM = [0, 3, 5];
+
+/** Poster tiling stops here so a tiny tile size cannot produce thousands of pages. */
+export const MAX_PDF_PAGES = 200;
+
+const CROP_MARK_LENGTH_MM = 5;
+/** Space between the bleed edge and the start of a crop mark. */
+const CROP_MARK_OFFSET_MM = 1;
+const EPSILON_MM = 0.01;
+
+export type PdfRect = { x: number; y: number; width: number; height: number };
+
+export type PdfPrintPage = {
+  row: number;
+  column: number;
+  /** The part of the design printed on this page, in page coordinates (the cut line). */
+  trim: PdfRect;
+  /** Where the whole design is drawn on this page; only `trim` plus bleed is visible. */
+  design: PdfRect;
+};
+
+export type PdfPrintLayout = {
+  pageWidthMm: number;
+  pageHeightMm: number;
+  designWidthMm: number;
+  designHeightMm: number;
+  rows: number;
+  columns: number;
+  pages: PdfPrintPage[];
+};
+
+export type PdfPrintLayoutResult =
+  | { ok: true; layout: PdfPrintLayout }
+  | { ok: false; error: string };
+
+const formatCm = (mm: number) => `${Math.round(mm) / 10}`;
+
+/** Page width and height in millimetres for the size and orientation. */
+export function getPdfPageDimensions(pageSize: PdfPageSize, orientation: PdfOrientation) {
+  const { width, height } = PDF_PAGE_SIZES[pageSize];
+  return orientation === 'landscape'
+    ? { width: Math.max(width, height), height: Math.min(width, height) }
+    : { width: Math.min(width, height), height: Math.max(width, height) };
+}
+
+/**
+ * Place a design of `widthPx` × `heightPx` (one grid cell = `tileSizePx`) on pages.
+ * Without poster tiling the design is centred on one page and must fit inside the margins;
+ * with it, pages are filled from the top-left margin corner so neighbouring pages butt
+ * together once trimmed.
+ */
+export function computePdfPrintLayout(
+  size: { widthPx: number; heightPx: number; tileSizePx: number },
+  options: PdfPrintOptions
+): PdfPrintLayoutResult {
+  const { width: pageWidthMm, height: pageHeightMm } = getPdfPageDimensions(
+    options.pageSize,
+    options.orientation
+  );
+  const margin = Math.max(0, options.marginMm);
+  const bleed = Math.max(0, options.bleedMm);
+  if (bleed > margin) {
+    return { ok: false, error: 'Bleed must not be larger than the margin.' };
+  }
+  const usableWidth = pageWidthMm - 2 * margin;
+  const usableHeight = pageHeightMm - 2 * margin;
+  if (usableWidth <= 0 || usableHeight <= 0) {
+    return { ok: false, error: 'Margins leave no room on the page.' };
+  }
+  if (size.widthPx <= 0 || size.heightPx <= 0 || size.tileSizePx <= 0) {
+    return { ok: false, error: 'The design is empty.' };
+  }
+  const { scale } = options;
+  let mmPerPx: number;
+  if (scale.mode === 'fit') {
+    mmPerPx = Math.min(usableWidth / size.widthPx, usableHeight / size.heightPx);
+  } else if (scale.mode === 'dpi') {
+    if (!(scale.dpi > 0)) {
+      return { ok: false, error: 'DPI must be greater than 0.' };
+    }
+    mmPerPx = 25.4 / scale.dpi;
+  } else {
+    if (!(scale.cellSizeMm > 0)) {
+      return { ok: false, error: 'Tile size must be greater than 0.' };
+    }
+    mmPerPx = scale.cellSizeMm / size.tileSizePx;
+  }
+  const designWidthMm = size.widthPx * mmPerPx;
+  const designHeightMm = size.heightPx * mmPerPx;
+  const base = { pageWidthMm, pageHeightMm, designWidthMm, designHeightMm };
+  const fits =
+    designWidthMm <= usableWidth + EPSILON_MM && designHeightMm <= usableHeight + EPSILON_MM;
+
+  if (fits || scale.mode === 'fit' || !options.posterTiling) {
+    if (!fits) {
+      return {
+        ok: false,
+        error: `The design is ${formatCm(designWidthMm)} × ${formatCm(designHeightMm)} cm, larger than the ${formatCm(usableWidth)} × ${formatCm(usableHeight)} cm printable area. Use poster tiling, a larger page or a smaller tile size.`,
+      };
+    }
+    const trim = {
+      x: (pageWidthMm - designWidthMm) / 2,
+      y: (pageHeightMm - designHeightMm) / 2,
+      width: designWidthMm,
+      height: designHeightMm,
+    };
+    return {
+      ok: true,
+      layout: { ...base, rows: 1, columns: 1, pages: [{ row: 0, column: 0, trim, design: trim }] },
+    };
+  }
+
+  const columns = Math.ceil(designWidthMm / usableWidth - EPSILON_MM / usableWidth);
+  const rows = Math.ceil(designHeightMm / usableHeight - EPSILON_MM / usableHeight);
+  if (rows * columns > MAX_PDF_PAGES) {
+    return {
+      ok: false,
+      error: `Poster tiling would need ${rows * columns} pages (at most ${MAX_PDF_PAGES}). Choose a larger page or a smaller tile size.`,
+    };
+  }
+  const pages: PdfPrintPage[] = [];
+  for (let row = 0; row < rows; row += 1) {
+    for (let column = 0; column < columns; column += 1) {
+      const offsetX = column * usableWidth;
+      const offsetY = row * usableHeight;
+      pages.push({
+        row,
+        column,
+        trim: {
+          x: margin,
+          y: margin,
+          width: Math.min(usableWidth, designWidthMm - offsetX),
+          height: Math.min(usableHeight, designHeightMm - offsetY),
+        },
+        design: {
+          x: margin - offsetX,
+          y: margin - offsetY,
+          width: designWidthMm,
+          height: designHeightMm,
+        },
+      });
+    }
+  }
+  return { ok: true, layout: { ...base, rows, columns, pages } };
+}
+
+/** Rect grown by `amount` on every side. */
+export const expandPdfRect = (rect: PdfRect, amount: number): PdfRect => ({
+  x: rect.x - amount,
+  y: rect.y - amount,
+  width: rect.width + 2 * amount,
+  height: rect.height + 2 * amount,
+});
+
+/**
+ * Crop marks for a trim box: at each corner, one horizontal and one vertical line in line
+ * with the trim edges, starting just outside the bleed and shortened to stay on the page.
+ * Marks with no room (bleed reaching the page edge) are left out.
+ */
+export function getCropMarkLines(
+  trim: PdfRect,
+  bleedMm: number,
+  page: { width: number; height: number }
+): [number, number, number, number][] {
+  const offset = bleedMm + CROP_MARK_OFFSET_MM;
+  const lines: [number, number, number, number][] = [];
+  const left = trim.x;
+  const right = trim.x + trim.width;
+  const top = trim.y;
+  const bottom = trim.y + trim.height;
+  const outward = (from: number, direction: -1 | 1, limit: number) => {
+    const start = from + direction * offset;
+    const end = from + direction * (offset + CROP_MARK_LENGTH_MM);
+    const clamped = direction < 0 ? Math.max(end, limit) : Math.min(end, limit);
+    return Math.abs(clamped - start) > EPSILON_MM && (clamped - start) * direction > 0
+      ? [start, clamped]
+      : null;
+  };
+  for (const y of [top, bottom]) {
+    const leftMark = outward(left, -1, 0);
+    const rightMark = outward(right, 1, page.width);
+    if (leftMark) lines.push([leftMark[0], y, leftMark[1], y]);
+    if (rightMark) lines.push([rightMark[0], y, rightMark[1], y]);
+  }
+  for (const x of [left, right]) {
+    const topMark = outward(top, -1, 0);
+    const bottomMark = outward(bottom, 1, page.height);
+    if (topMark) lines.push([x, topMark[0], x, topMark[1]]);
+    if (bottomMark) lines.push([x, bottomMark[0], x, bottomMark[1]]);
+  }
+  return lines;
+}
+
+/** Width and height of a root <svg> element in user units (renderTileCanvasToSvg output). */
+export function getSvgPixelSize(svg: string): { width: number; height: number } | null {
+  const root = svg.match(/<svg\b[^>]*>/i)?.[0];
+  const width = Number(root?.match(/\swidth="([\d.]+)"/)?.[1]);
+  const height = Number(root?.match(/\sheight="([\d.]+)"/)?.[1]);
+  return width > 0 && height > 0 ? { width, height } : null;
+}
+
+export type PdfPrintDesign = {
+  name: string;
+  svg: string;
+  /** Size of one grid cell in the SVG, for the 'cell' scale. */
+  tileSizePx: number;
+  /** Fills the bleed around the design; no bleed fill when omitted. */
+  backgroundColor?: string;
+};
+
+export type PdfPrintResult =
+  | { ok: true; data: ArrayBuffer; pageCount: number }
+  | { ok: false; error: string };
+
+/**
+ * One PDF with every design, each starting on a new page. Poster pages are labelled with
+ * the design name and their row and column in the top margin. Web only (DOMParser).
+ */
+export async function buildPrintPdf(
+  designs: PdfPrintDesign[],
+  options: PdfPrintOptions
+): Promise<PdfPrintResult> {
+  if (designs.length === 0) {
+    return { ok: false, error: 'Nothing to print.' };
+  }
+  const layouts: { design: PdfPrintDesign; layout: PdfPrintLayout }[] = [];
+  for (const design of designs) {
+    const size = getSvgPixelSize(design.svg);
+    if (!size) {
+      return { ok: false, error: `Unable to render ${design.name}.` };
+    }
+    const result = computePdfPrintLayout(
+      { widthPx: size.width, heightPx: size.height, tileSizePx: design.tileSizePx },
+      options
+    );
+    if (!result.ok) {
+      return { ok: false, error: designs.length > 1 ? `${design.name}: ${result.error}` : result.error };
+    }
+    layouts.push({ design, layout: result.layout });
+  }
+  const { width: pageWidth, height: pageHeight } = getPdfPageDimensions(
+    options.pageSize,
+    options.orientation
+  );
+  const doc = new jsPDF({ unit: 'mm', format: [pageWidth, pageHeight], orientation: options.orientation });
+  const parser = new DOMParser();
+  let pageCount = 0;
+  for (const { design, layout } of layouts) {
+    for (const page of layout.pages) {
+      if (pageCount > 0) {
+        doc.addPage([pageWidth, pageHeight], options.orientation);
+      }
+      pageCount += 1;
+      const visible = expandPdfRect(page.trim, options.bleedMm);
+      doc.saveGraphicsState();
+      doc.rect(visible.x, visible.y, visible.width, visible.height, null);
+      doc.clip();
+      doc.discardPath();
+      if (design.backgroundColor && options.bleedMm > 0) {
+        const bleedArea = expandPdfRect(page.design, options.bleedMm);
+        doc.setFillColor(design.backgroundColor);
+        doc.rect(bleedArea.x, bleedArea.y, bleedArea.width, bleedArea.height, 'F');
+      }
+      // svg2pdf may modify the element it renders; parse a fresh one per page.
+      const element = parser.parseFromString(design.svg, 'image/svg+xml').documentElement;
+      await svg2pdf(element, doc, {
+        x: page.design.x,
+        y: page.design.y,
+        width: page.design.width,
+        height: page.design.height,
+      });
+      doc.restoreGraphicsState();
+      if (options.cropMarks) {
+        doc.setDrawColor('#000000');
+        doc.setLineWidth(0.2);
+        for (const [x1, y1, x2, y2] of getCropMarkLines(page.trim, options.bleedMm, {
+          width: pageWidth,
+          height: pageHeight,
+        })) {
+          doc.line(x1, y1, x2, y2);
+        }
+      }
+      if (layout.pages.length > 1 && options.marginMm >= 5) {
+        doc.setFontSize(7);
+        doc.setTextColor('#000000');
+        doc.text(
+          `${design.name} - row ${page.row + 1} of ${layout.rows}, column ${page.column + 1} of ${layout.columns}`,
+          page.trim.x + 2,
+          Math.max(3, options.marginMm / 2 - 1)
+        );
+      }
+    }
+  }
+  return { ok: true, data: doc.output('arraybuffer'), pageCount };
+}
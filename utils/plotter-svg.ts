@@ -0,0 +1,815 @@
+/**
+ * "Paths only" SVG for pen plotters and laser cutters.
+ *
+ * Takes renderTileCanvasToSvg output (one SVG per resolution level), flattens every stroked
+ * shape to absolute coordinates, drops fills, removes duplicate and overlapping edges,
+ * joins segments that meet (also across tile seams) into long strokes and writes one
+ * Inkscape layer per level with a sub-layer per stroke colour. Pure string processing, so
+ * it runs on any platform.
+ */
+
+export type PlotterLayerInput = {
+  /** Layer name in the output, e.g. "Level 1". */
+  label: string;
+  /** renderTileCanvasToSvg output for this layer only (no background). */
+  svg: string;
+};
+
+export type PlotterSvgOptions = {
+  /** Largest distance (px) between a curve and the straight segments replacing it. */
+  tolerance?: number;
+  /** Decimal places kept in coordinates; points closer than this are joined. */
+  precision?: number;
+};
+
+export type PlotterSvgResult =
+  | { ok: true; svg: string; pathCount: number; skippedImages: number }
+  | { ok: false; error: string };
+
+type Point = [number, number];
+/** Affine matrix [a, b, c, d, e, f] as in SVG matrix(). */
+type Matrix = [number, number, number, number, number, number];
+type Box = { minX: number; minY: number; maxX: number; maxY: number };
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+const DEFAULT_TOLERANCE = 0.25;
+const DEFAULT_PRECISION = 2;
+const MAX_CURVE_SEGMENTS = 256;
+
+const multiply = (m: Matrix, n: Matrix): Matrix => [
+  m[0] * n[0] + m[2] * n[1],
+  m[1] * n[0] + m[3] * n[1],
+  m[0] * n[2] + m[2] * n[3],
+  m[1] * n[2] + m[3] * n[3],
+  m[0] * n[4] + m[2] * n[5] + m[4],
+  m[1] * n[4] + m[3] * n[5] + m[5],
+];
+
+const apply = (m: Matrix, x: number, y: number): Point => [
+  m[0] * x + m[2] * y + m[4],
+  m[1] * x + m[3] * y + m[5],
+];
+
+/** Largest factor the matrix stretches a length by (for curve flattening). */
+const getMatrixScale = (m: Matrix) =>
+  Math.max(Math.hypot(m[0], m[1]), Math.hypot(m[2], m[3])) || 1;
+
+const NUMBER_PATTERN = /[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g;
+
+/** Parse an SVG transform list (translate, scale, rotate, skewX, skewY, matrix). */
+export function parseSvgTransform(value: string | undefined): Matrix {
+  let result: Matrix = IDENTITY;
+  if (!value) {
+    return result;
+  }
+  const pattern = /(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/gi;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(value)) !== null) {
+    const args = (match[2].match(NUMBER_PATTERN) ?? []).map(Number);
+    const name = match[1].toLowerCase();
+    let next: Matrix = IDENTITY;
+    if (name === 'matrix' && args.length === 6) {
+      next = args as Matrix;
+    } else if (name === 'translate') {
+      next = [1, 0, 0, 1, args[0] ?? 0, args[1] ?? 0];
+    } else if (name === 'scale') {
+      next = [args[0] ?? 1, 0, 0, args[1] ?? args[0] ?? 1, 0, 0];
+    } else if (name === 'rotate') {
+      const angle = ((args[0] ?? 0) * Math.PI) / 180;
+      const cos = Math.cos(angle);
+      const sin = Math.sin(angle);
+      const [cx, cy] = [args[1] ?? 0, args[2] ?? 0];
+      next = multiply(
+        multiply([1, 0, 0, 1, cx, cy], [cos, sin, -sin, cos, 0, 0]),
+        [1, 0, 0, 1, -cx, -cy]
+      );
+    } else if (name === 'skewx') {
+      next = [1, 0, Math.tan(((args[0] ?? 0) * Math.PI) / 180), 1, 0, 0];
+    } else if (name === 'skewy') {
+      next = [1, Math.tan(((args[0] ?? 0) * Math.PI) / 180), 0, 1, 0, 0];
+    }
+    result = multiply(result, next);
+  }
+  return result;
+}
+
+// ── Path flattening ──
+
+/** Reads path data; arc flags may be written without separators (e.g. "a1 1 0 011 1"). */
+const createPathReader = (d: string) => {
+  let index = 0;
+  const skip = () => {
+    while (index < d.length && /[\s,]/.test(d[index])) index += 1;
+  };
+  return {
+    command(): string | null {
+      skip();
+      const char = d[index];
+      if (char && /[MmLlHhVvCcSsQqTtAaZz]/.test(char)) {
+        index += 1;
+        return char;
+      }
+      return null;
+    },
+    number(): number {
+      skip();
+      NUMBER_PATTERN.lastIndex = index;
+      const match = NUMBER_PATTERN.exec(d);
+      if (!match || match.index !== index) {
+        throw new Error('Invalid path data');
+      }
+      index += match[0].length;
+      return Number(match[0]);
+    },
+    flag(): boolean {
+      skip();
+      const char = d[index];
+      if (char !== '0' && char !== '1') {
+        throw new Error('Invalid arc flag');
+      }
+      index += 1;
+      return char === '1';
+    },
+    done() {
+      skip();
+      return index >= d.length;
+    },
+  };
+};
+
+const curveSegmentCount = (secondDifference: number, factor: number, tolerance: number) =>
+  Math.min(
+    MAX_CURVE_SEGMENTS,
+    Math.max(1, Math.ceil(Math.sqrt((factor * secondDifference) / tolerance)))
+  );
+
+/**
+ * Flatten SVG path data to polylines in absolute coordinates (after `matrix`). Curves use
+ * evenly spaced parameters so a curve and its reverse give the same points.
+ */
+export function flattenSvgPath(d: string, matrix: Matrix = IDENTITY, tolerance = DEFAULT_TOLERANCE): Point[][] {
+  const reader = createPathReader(d);
+  const polylines: Point[][] = [];
+  let current: Point[] = [];
+  let x = 0;
+  let y = 0;
+  let startX = 0;
+  let startY = 0;
+  let lastControl: Point | null = null;
+  let lastCommand = '';
+  const finish = () => {
+    if (current.length > 1) polylines.push(current);
+    current = [];
+  };
+  const lineTo = (nx: number, ny: number) => {
+    if (current.length === 0) current.push(apply(matrix, x, y));
+    current.push(apply(matrix, nx, ny));
+    x = nx;
+    y = ny;
+  };
+  const cubicTo = (c1: Point, c2: Point, end: Point) => {
+    const p0 = apply(matrix, x, y);
+    const p1 = apply(matrix, c1[0], c1[1]);
+    const p2 = apply(matrix, c2[0], c2[1]);
+    const p3 = apply(matrix, end[0], end[1]);
+    const secondDifference = Math.max(
+      Math.hypot(p0[0] - 2 * p1[0] + p2[0], p0[1] - 2 * p1[1] + p2[1]),
+      Math.hypot(p1[0] - 2 * p2[0] + p3[0], p1[1] - 2 * p2[1] + p3[1])
+    );
+    const count = curveSegmentCount(secondDifference, 0.75, tolerance);
+    if (current.length === 0) current.push(p0);
+    for (let i = 1; i <= count; i += 1) {
+      const t = i / count;
+      const u = 1 - t;
+      current.push(
+        i === count
+          ? p3
+          : [
+              u * u * u * p0[0] + 3 * u * u * t * p1[0] + 3 * u * t * t * p2[0] + t * t * t * p3[0],
+              u * u * u * p0[1] + 3 * u * u * t * p1[1] + 3 * u * t * t * p2[1] + t * t * t * p3[1],
+            ]
+      );
+    }
+    x = end[0];
+    y = end[1];
+  };
+  const quadTo = (c: Point, end: Point) => {
+    const p0 = apply(matrix, x, y);
+    const p1 = apply(matrix, c[0], c[1]);
+    const p2 = apply(matrix, end[0], end[1]);
+    const count = curveSegmentCount(
+      Math.hypot(p0[0] - 2 * p1[0] + p2[0], p0[1] - 2 * p1[1] + p2[1]),
+      0.25,
+      tolerance
+    );
+    if (current.length === 0) current.push(p0);
+    for (let i = 1; i <= count; i += 1) {
+      const t = i / count;
+      const u = 1 - t;
+      current.push(
+        i === count
+          ? p2
+          : [
+              u * u * p0[0] + 2 * u * t * p1[0] + t * t * p2[0],
+              u * u * p0[1] + 2 * u * t * p1[1] + t * t * p2[1],
+            ]
+      );
+    }
+    x = end[0];
+    y = end[1];
+  };
+  // Endpoint to centre parameterization (SVG 1.1 implementation notes F.6.5).
+  const arcTo = (
+    rxIn: number,
+    ryIn: number,
+    angleDeg: number,
+    largeArc: boolean,
+    sweep: boolean,
+    ex: number,
+    ey: number
+  ) => {
+    let rx = Math.abs(rxIn);
+    let ry = Math.abs(ryIn);
+    if (rx === 0 || ry === 0 || (ex === x && ey === y)) {
+      lineTo(ex, ey);
+      return;
+    }
+    const phi = (angleDeg * Math.PI) / 180;
+    const cos = Math.cos(phi);
+    const sin = Math.sin(phi);
+    const dx = (x - ex) / 2;
+    const dy = (y - ey) / 2;
+    const x1 = cos * dx + sin * dy;
+    const y1 = -sin * dx + cos * dy;
+    const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+    if (lambda > 1) {
+      rx *= Math.sqrt(lambda);
+      ry *= Math.sqrt(lambda);
+    }
+    const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+    const denominator = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+    const coefficient =
+      (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / denominator));
+    const cx1 = (coefficient * rx * y1) / ry;
+    const cy1 = (-coefficient * ry * x1) / rx;
+    const cx = cos * cx1 - sin * cy1 + (x + ex) / 2;
+    const cy = sin * cx1 + cos * cy1 + (y + ey) / 2;
+    const angle = (ux: number, uy: number, vx: number, vy: number) =>
+      Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+    const theta1 = angle(1, 0, (x1 - cx1) / rx, (y1 - cy1) / ry);
+    let delta = angle((x1 - cx1) / rx, (y1 - cy1) / ry, (-x1 - cx1) / rx, (-y1 - cy1) / ry);
+    if (!sweep && delta > 0) delta -= 2 * Math.PI;
+    if (sweep && delta < 0) delta += 2 * Math.PI;
+    const radius = Math.max(rx, ry) * getMatrixScale(matrix);
+    const step = radius > tolerance ? 2 * Math.acos(1 - tolerance / radius) : Math.PI / 2;
+    const count = Math.min(MAX_CURVE_SEGMENTS, Math.max(1, Math.ceil(Math.abs(delta) / step)));
+    if (current.length === 0) current.push(apply(matrix, x, y));
+    for (let i = 1; i <= count; i += 1) {
+      if (i === count) {
+        current.push(apply(matrix, ex, ey));
+        break;
+      }
+      const theta = theta1 + (delta * i) / count;
+      const px = rx * Math.cos(theta);
+      const py = ry * Math.sin(theta);
+      current.push(apply(matrix, cos * px - sin * py + cx, sin * px + cos * py + cy));
+    }
+    x = ex;
+    y = ey;
+  };
+
+  while (!reader.done()) {
+    let command = reader.command();
+    if (!command) {
+      // Implicit repeat of the previous command; a moveto repeats as lineto.
+      if (!lastCommand || lastCommand === 'Z' || lastCommand === 'z') {
+        throw new Error('Invalid path data');
+      }
+      command = lastCommand === 'M' ? 'L' : lastCommand === 'm' ? 'l' : lastCommand;
+    }
+    const relative = command === command.toLowerCase();
+    const ox = relative ? x : 0;
+    const oy = relative ? y : 0;
+    switch (command.toUpperCase()) {
+      case 'M': {
+        finish();
+        x = ox + reader.number();
+        y = oy + reader.number();
+        startX = x;
+        startY = y;
+        lastControl = null;
+        break;
+      }
+      case 'L':
+        lineTo(ox + reader.number(), oy + reader.number());
+        lastControl = null;
+        break;
+      case 'H':
+        lineTo(ox + reader.number(), y);
+        lastControl = null;
+        break;
+      case 'V':
+        lineTo(x, oy + reader.number());
+        lastControl = null;
+        break;
+      case 'C': {
+        const c1: Point = [ox + reader.number(), oy + reader.number()];
+        const c2: Point = [ox + reader.number(), oy + reader.number()];
+        const end: Point = [ox + reader.number(), oy + reader.number()];
+        cubicTo(c1, c2, end);
+        lastControl = c2;
+        break;
+      }
+      case 'S': {
+        const c1: Point =
+          lastControl && /[CcSs]/.test(lastCommand) ? [2 * x - lastControl[0], 2 * y - lastControl[1]] : [x, y];
+        const c2: Point = [ox + reader.number(), oy + reader.number()];
+        const end: Point = [ox + reader.number(), oy + reader.number()];
+        cubicTo(c1, c2, end);
+        lastControl = c2;
+        break;
+      }
+      case 'Q': {
+        const c: Point = [ox + reader.number(), oy + reader.number()];
+        const end: Point = [ox + reader.number(), oy + reader.number()];
+        quadTo(c, end);
+        lastControl = c;
+        break;
+      }
+      case 'T': {
+        const c: Point =
+          lastControl && /[QqTt]/.test(lastCommand) ? [2 * x - lastControl[0], 2 * y - lastControl[1]] : [x, y];
+        const end: Point = [ox + reader.number(), oy + reader.number()];
+        quadTo(c, end);
+        lastControl = c;
+        break;
+      }
+      case 'A': {
+        const rx = reader.number();
+        const ry = reader.number();
+        const angle = reader.number();
+        const largeArc = reader.flag();
+        const sweep = reader.flag();
+        arcTo(rx, ry, angle, largeArc, sweep, ox + reader.number(), oy + reader.number());
+        lastControl = null;
+        break;
+      }
+      case 'Z': {
+        if (current.length > 0) {
+          lineTo(startX, startY);
+        }
+        finish();
+        x = startX;
+        y = startY;
+        lastControl = null;
+        break;
+      }
+    }
+    lastCommand = command;
+  }
+  finish();
+  return polylines;
+}
+
+// ── Shapes ──
+
+const num = (attrs: Record<string, string>, name: string) => {
+  const value = Number.parseFloat(attrs[name] ?? '');
+  return Number.isFinite(value) ? value : 0;
+};
+
+/** Path data for a basic shape element, or null when it has no outline. */
+const getShapePathData = (tag: string, attrs: Record<string, string>): string | null => {
+  switch (tag) {
+    case 'path':
+      return attrs.d ?? null;
+    case 'line':
+      return `M${num(attrs, 'x1')} ${num(attrs, 'y1')}L${num(attrs, 'x2')} ${num(attrs, 'y2')}`;
+    case 'polyline':
+    case 'polygon': {
+      const values = (attrs.points?.match(NUMBER_PATTERN) ?? []).map(Number);
+      if (values.length < 4) return null;
+      const pairs: string[] = [];
+      for (let i = 0; i + 1 < values.length; i += 2) pairs.push(`${values[i]} ${values[i + 1]}`);
+      return `M${pairs.join('L')}${tag === 'polygon' ? 'Z' : ''}`;
+    }
+    case 'rect': {
+      const [x, y, w, h] = [num(attrs, 'x'), num(attrs, 'y'), num(attrs, 'width'), num(attrs, 'height')];
+      if (w <= 0 || h <= 0) return null;
+      let rx = attrs.rx !== undefined ? num(attrs, 'rx') : num(attrs, 'ry');
+      let ry = attrs.ry !== undefined ? num(attrs, 'ry') : rx;
+      rx = Math.min(Math.max(0, rx), w / 2);
+      ry = Math.min(Math.max(0, ry), h / 2);
+      if (rx === 0 || ry === 0) {
+        return `M${x} ${y}H${x + w}V${y + h}H${x}Z`;
+      }
+      return (
+        `M${x + rx} ${y}H${x + w - rx}A${rx} ${ry} 0 0 1 ${x + w} ${y + ry}` +
+        `V${y + h - ry}A${rx} ${ry} 0 0 1 ${x + w - rx} ${y + h}` +
+        `H${x + rx}A${rx} ${ry} 0 0 1 ${x} ${y + h - ry}` +
+        `V${y + ry}A${rx} ${ry} 0 0 1 ${x + rx} ${y}Z`
+      );
+    }
+    case 'circle':
+    case 'ellipse': {
+      const cx = num(attrs, 'cx');
+      const cy = num(attrs, 'cy');
+      const rx = tag === 'circle' ? num(attrs, 'r') : num(attrs, 'rx');
+      const ry = tag === 'circle' ? rx : num(attrs, 'ry');
+      if (rx <= 0 || ry <= 0) return null;
+      return `M${cx + rx} ${cy}A${rx} ${ry} 0 0 1 ${cx - rx} ${cy}A${rx} ${ry} 0 0 1 ${cx + rx} ${cy}Z`;
+    }
+    default:
+      return null;
+  }
+};
+
+const parseAttributes = (text: string) => {
+  const attrs: Record<string, string> = {};
+  const pattern = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    attrs[match[1]] = match[2] ?? match[3] ?? '';
+  }
+  const style = attrs.style;
+  if (style) {
+    for (const declaration of style.split(';')) {
+      const [name, ...rest] = declaration.split(':');
+      const value = rest.join(':').replace(/!important/i, '').trim();
+      if (name?.trim() && value) attrs[name.trim()] = value;
+    }
+  }
+  return attrs;
+};
+
+type StrokedShape = { stroke: string; strokeWidth: number; polylines: Point[][]; clip: Box | null };
+
+type ParsedLayerSvg = { width: number; height: number; shapes: StrokedShape[]; skippedImages: number };
+
+const SHAPE_TAGS = new Set(['path', 'line', 'polyline', 'polygon', 'rect', 'circle', 'ellipse']);
+/** Elements whose children are never drawn directly. */
+const HIDDEN_CONTAINER_TAGS = new Set(['defs', 'clippath', 'mask', 'symbol', 'pattern', 'marker', 'style', 'title', 'desc', 'metadata']);
+
+const intersectBoxes = (a: Box | null, b: Box): Box => ({
+  minX: Math.max(a?.minX ?? -Infinity, b.minX),
+  minY: Math.max(a?.minY ?? -Infinity, b.minY),
+  maxX: Math.min(a?.maxX ?? Infinity, b.maxX),
+  maxY: Math.min(a?.maxY ?? Infinity, b.maxY),
+});
+
+/**
+ * Stroked shapes of an SVG with their inherited stroke and transforms resolved. Nested
+ * <svg> viewports with overflow hidden (partial overlay cells) become clip boxes.
+ */
+const parseLayerSvg = (svg: string, tolerance: number): ParsedLayerSvg => {
+  type Context = { tag: string; matrix: Matrix; stroke: string; strokeWidth: number; clip: Box | null; hidden: boolean };
+  const root: Context = { tag: '', matrix: IDENTITY, stroke: 'none', strokeWidth: 1, clip: null, hidden: false };
+  const stack: Context[] = [root];
+  const shapes: StrokedShape[] = [];
+  let width = 0;
+  let height = 0;
+  let skippedImages = 0;
+  let sawRoot = false;
+  const source = svg.replace(/<!--[\s\S]*?-->/g, '').replace(/<!\[CDATA\[[\s\S]*?\]\]>/g, '');
+  const tagPattern = /<(\/?)([\w:-]+)([^>]*?)(\/?)>/g;
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(source)) !== null) {
+    const [, closing, rawTag, attrText, selfClosing] = match;
+    const tag = rawTag.toLowerCase();
+    if (closing) {
+      for (let i = stack.length - 1; i > 0; i -= 1) {
+        if (stack[i].tag === tag) {
+          stack.length = i;
+          break;
+        }
+      }
+      continue;
+    }
+    const parent = stack[stack.length - 1];
+    const attrs = parseAttributes(attrText);
+    let matrix = multiply(parent.matrix, parseSvgTransform(attrs.transform));
+    let clip = parent.clip;
+    if (tag === 'svg') {
+      if (!sawRoot) {
+        sawRoot = true;
+        width = num(attrs, 'width');
+        height = num(attrs, 'height');
+      } else {
+        matrix = multiply(matrix, [1, 0, 0, 1, num(attrs, 'x'), num(attrs, 'y')]);
+        const w = num(attrs, 'width');
+        const h = num(attrs, 'height');
+        if (w > 0 && h > 0 && attrs.overflow !== 'visible') {
+          const [x0, y0] = apply(matrix, 0, 0);
+          const [x1, y1] = apply(matrix, w, h);
+          clip = intersectBoxes(clip, {
+            minX: Math.min(x0, x1),
+            minY: Math.min(y0, y1),
+            maxX: Math.max(x0, x1),
+            maxY: Math.max(y0, y1),
+          });
+        }
+      }
+    }
+    const stroke = attrs.stroke !== undefined ? attrs.stroke.trim().toLowerCase() : parent.stroke;
+    const strokeWidthValue = Number.parseFloat(attrs['stroke-width'] ?? '');
+    const context: Context = {
+      tag,
+      matrix,
+      stroke: stroke === 'inherit' ? parent.stroke : stroke,
+      strokeWidth: Number.isFinite(strokeWidthValue) ? strokeWidthValue : parent.strokeWidth,
+      clip,
+      hidden:
+        parent.hidden ||
+        HIDDEN_CONTAINER_TAGS.has(tag) ||
+        attrs.display === 'none' ||
+        attrs.visibility === 'hidden',
+    };
+    if (!context.hidden) {
+      if (tag === 'image') {
+        skippedImages += 1;
+      } else if (SHAPE_TAGS.has(tag) && context.stroke !== 'none' && context.stroke !== 'transparent') {
+        const d = getShapePathData(tag, attrs);
+        if (d) {
+          try {
+            const polylines = flattenSvgPath(d, context.matrix, tolerance);
+            if (polylines.length > 0) {
+              shapes.push({ stroke: context.stroke, strokeWidth: context.strokeWidth, polylines, clip });
+            }
+          } catch {
+            // Skip shapes with malformed path data; the rest of the design still plots.
+          }
+        }
+      }
+    }
+    if (!selfClosing) {
+      stack.push(context);
+    }
+  }
+  return { width, height, shapes, skippedImages };
+};
+
+// ── Segment clean-up and joining ──
+
+type Segment = { a: Point; b: Point };
+
+/** Liang–Barsky clip of a segment to a box; null when fully outside. */
+const clipSegment = (segment: Segment, box: Box): Segment | null => {
+  const [x0, y0] = segment.a;
+  const dx = segment.b[0] - x0;
+  const dy = segment.b[1] - y0;
+  let t0 = 0;
+  let t1 = 1;
+  const edges: [number, number][] = [
+    [-dx, x0 - box.minX],
+    [dx, box.maxX - x0],
+    [-dy, y0 - box.minY],
+    [dy, box.maxY - y0],
+  ];
+  for (const [p, q] of edges) {
+    if (p === 0) {
+      if (q < 0) return null;
+      continue;
+    }
+    const r = q / p;
+    if (p < 0) {
+      if (r > t1) return null;
+      if (r > t0) t0 = r;
+    } else {
+      if (r < t0) return null;
+      if (r < t1) t1 = r;
+    }
+  }
+  return {
+    a: [x0 + t0 * dx, y0 + t0 * dy],
+    b: [x0 + t1 * dx, y0 + t1 * dy],
+  };
+};
+
+/**
+ * Snap segments to `precision` decimals and merge every group of collinear segments that
+ * overlap or touch into single segments, which removes duplicate edges drawn by two tiles.
+ */
+export function dedupePlotterSegments(segments: Segment[], precision = DEFAULT_PRECISION): Segment[] {
+  const factor = 10 ** precision;
+  const snap = (p: Point): Point => [Math.round(p[0] * factor) / factor, Math.round(p[1] * factor) / factor];
+  const epsilon = 1 / factor;
+  const groups = new Map<string, { t0: number; t1: number; a: Point; b: Point }[]>();
+  for (const segment of segments) {
+    let a = snap(segment.a);
+    let b = snap(segment.b);
+    if (a[0] > b[0] || (a[0] === b[0] && a[1] > b[1])) [a, b] = [b, a];
+    const length = Math.hypot(b[0] - a[0], b[1] - a[1]);
+    if (length < epsilon / 2) continue;
+    const ux = (b[0] - a[0]) / length;
+    const uy = (b[1] - a[1]) / length;
+    const offset = a[0] * -uy + a[1] * ux;
+    const key = `${Math.round(Math.atan2(uy, ux) * 1e4)}|${Math.round(offset * factor)}`;
+    const t0 = a[0] * ux + a[1] * uy;
+    const list = groups.get(key) ?? [];
+    list.push({ t0, t1: t0 + length, a, b });
+    groups.set(key, list);
+  }
+  const result: Segment[] = [];
+  for (const list of groups.values()) {
+    list.sort((p, q) => p.t0 - q.t0);
+    let current = { ...list[0] };
+    for (let i = 1; i < list.length; i += 1) {
+      const next = list[i];
+      if (next.t0 <= current.t1 + epsilon) {
+        if (next.t1 > current.t1) {
+          current.t1 = next.t1;
+          current.b = next.b;
+        }
+      } else {
+        result.push({ a: current.a, b: current.b });
+        current = { ...next };
+      }
+    }
+    result.push({ a: current.a, b: current.b });
+  }
+  return result;
+}
+
+/**
+ * Join segments that share end points into as few polylines as possible. At a junction
+ * the straightest continuation is taken, so lines crossing tile seams stay one stroke.
+ * Closed loops repeat their first point at the end.
+ */
+export function joinPlotterSegments(segments: Segment[]): Point[][] {
+  const key = (p: Point) => `${p[0]},${p[1]}`;
+  const adjacency = new Map<string, number[]>();
+  segments.forEach((segment, index) => {
+    for (const point of [segment.a, segment.b]) {
+      const k = key(point);
+      const list = adjacency.get(k) ?? [];
+      list.push(index);
+      adjacency.set(k, list);
+    }
+  });
+  const used = new Array<boolean>(segments.length).fill(false);
+  const otherEnd = (index: number, from: string) =>
+    key(segments[index].a) === from ? segments[index].b : segments[index].a;
+  const walk = (start: Point): Point[] => {
+    const chain: Point[] = [start];
+    let at = start;
+    let direction: Point | null = null;
+    for (;;) {
+      const candidates = (adjacency.get(key(at)) ?? []).filter((index) => !used[index]);
+      if (candidates.length === 0) break;
+      let best = candidates[0];
+      if (direction && candidates.length > 1) {
+        let bestScore = -Infinity;
+        for (const index of candidates) {
+          const end = otherEnd(index, key(at));
+          const length = Math.hypot(end[0] - at[0], end[1] - at[1]) || 1;
+          const score = (direction[0] * (end[0] - at[0]) + direction[1] * (end[1] - at[1])) / length;
+          if (score > bestScore) {
+            bestScore = score;
+            best = index;
+          }
+        }
+      }
+      used[best] = true;
+      const next = otherEnd(best, key(at));
+      const length = Math.hypot(next[0] - at[0], next[1] - at[1]) || 1;
+      direction = [(next[0] - at[0]) / length, (next[1] - at[1]) / length];
+      chain.push(next);
+      at = next;
+    }
+    return chain;
+  };
+  const chains: Point[][] = [];
+  // Open ends first so open strokes are not split in the middle, then the remaining loops.
+  const starts = [...adjacency.entries()]
+    .filter(([, list]) => list.length % 2 === 1)
+    .map(([, list]) => list[0]);
+  for (const index of starts) {
+    if (used[index]) continue;
+    const segment = segments[index];
+    const start = (adjacency.get(key(segment.a)) ?? []).length % 2 === 1 ? segment.a : segment.b;
+    const chain = walk(start);
+    if (chain.length > 1) chains.push(chain);
+  }
+  segments.forEach((segment, index) => {
+    if (used[index]) return;
+    const chain = walk(segment.a);
+    if (chain.length > 1) chains.push(chain);
+  });
+  return chains;
+}
+
+/** Nearest-next ordering (reversing strokes where that is shorter) to cut pen-up travel. */
+const orderChains = (chains: Point[][]): Point[][] => {
+  const remaining = [...chains];
+  const ordered: Point[][] = [];
+  let at: Point = [0, 0];
+  while (remaining.length > 0) {
+    let bestIndex = 0;
+    let bestReverse = false;
+    let bestDistance = Infinity;
+    remaining.forEach((chain, index) => {
+      const start = Math.hypot(chain[0][0] - at[0], chain[0][1] - at[1]);
+      const last = chain[chain.length - 1];
+      const end = Math.hypot(last[0] - at[0], last[1] - at[1]);
+      if (start < bestDistance) {
+        bestDistance = start;
+        bestIndex = index;
+        bestReverse = false;
+      }
+      if (end < bestDistance) {
+        bestDistance = end;
+        bestIndex = index;
+        bestReverse = true;
+      }
+    });
+    const [chain] = remaining.splice(bestIndex, 1);
+    const next = bestReverse ? [...chain].reverse() : chain;
+    ordered.push(next);
+    at = next[next.length - 1];
+  }
+  return ordered;
+};
+
+const escapeAttribute = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+
+const formatNumber = (value: number, precision: number) => {
+  const text = value.toFixed(precision).replace(/\.?0+$/, '');
+  return text === '-0' ? '0' : text;
+};
+
+const chainToPathData = (chain: Point[], precision: number) => {
+  const closed =
+    chain.length > 2 &&
+    chain[0][0] === chain[chain.length - 1][0] &&
+    chain[0][1] === chain[chain.length - 1][1];
+  const points = closed ? chain.slice(0, -1) : chain;
+  const format = (p: Point) => `${formatNumber(p[0], precision)} ${formatNumber(p[1], precision)}`;
+  return `M${format(points[0])}L${points.slice(1).map(format).join(' ')}${closed ? 'Z' : ''}`;
+};
+
+/**
+ * Paths-only SVG from one renderTileCanvasToSvg output per layer. Every layer must have
+ * the same canvas size. Raster tile images cannot be traced and are counted in
+ * `skippedImages`.
+ */
+export function buildPlotterSvg(
+  layers: PlotterLayerInput[],
+  options: PlotterSvgOptions = {}
+): PlotterSvgResult {
+  const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+  const precision = options.precision ?? DEFAULT_PRECISION;
+  let width = 0;
+  let height = 0;
+  let skippedImages = 0;
+  let pathCount = 0;
+  const layerParts: string[] = [];
+  layers.forEach((layer, layerIndex) => {
+    const parsed = parseLayerSvg(layer.svg, tolerance);
+    width = width || parsed.width;
+    height = height || parsed.height;
+    skippedImages += parsed.skippedImages;
+    const byColor = new Map<string, { strokeWidth: number; segments: Segment[] }>();
+    for (const shape of parsed.shapes) {
+      const group = byColor.get(shape.stroke) ?? { strokeWidth: shape.strokeWidth, segments: [] };
+      for (const polyline of shape.polylines) {
+        for (let i = 1; i < polyline.length; i += 1) {
+          const segment = { a: polyline[i - 1], b: polyline[i] };
+          const clipped = shape.clip ? clipSegment(segment, shape.clip) : segment;
+          if (clipped) group.segments.push(clipped);
+        }
+      }
+      byColor.set(shape.stroke, group);
+    }
+    const colorParts: string[] = [];
+    let colorIndex = 0;
+    for (const [color, group] of byColor) {
+      const chains = orderChains(joinPlotterSegments(dedupePlotterSegments(group.segments, precision)));
+      if (chains.length === 0) continue;
+      colorIndex += 1;
+      pathCount += chains.length;
+      colorParts.push(
+        `<g id="layer-${layerIndex + 1}-color-${colorIndex}" inkscape:groupmode="layer" inkscape:label="${escapeAttribute(`${layer.label} ${color}`)}" fill="none" stroke="${escapeAttribute(color)}" stroke-width="${formatNumber(group.strokeWidth, precision)}" stroke-linecap="round" stroke-linejoin="round">` +
+          chains.map((chain) => `<path d="${chainToPathData(chain, precision)}"/>`).join('') +
+          '</g>'
+      );
+    }
+    if (colorParts.length > 0) {
+      layerParts.push(
+        `<g id="layer-${layerIndex + 1}" inkscape:groupmode="layer" inkscape:label="${escapeAttribute(layer.label)}">${colorParts.join('')}</g>`
+      );
+    }
+  });
+  if (pathCount === 0) {
+    return { ok: false, error: 'Nothing to plot: the design has no stroked lines.' };
+  }
+  return {
+    ok: true,
+    svg:
+      `<svg xmlns="http://www.w3.org/2000/svg" xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+      layerParts.join('') +
+      '</svg>',
+    pathCount,
+    skippedImages,
+  };
+}
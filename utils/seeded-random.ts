@@ -0,0 +1,87 @@
+/**
+ * Seedable pseudo-random number generator for reproducible tile generation.
+ * Same seed → same sequence on every platform (pure 32-bit integer math).
+ */
+
+/** Returns a float in [0, 1), like Math.random. */
+export type RandomSource = () => number;
+
+/** Largest seed value; seeds are unsigned 32-bit integers. */
+export const MAX_SEED = 0xffffffff;
+
+/**
+ * Create a Mulberry32 generator for the given seed. Non-integer or
+ * out-of-range seeds are folded into the unsigned 32-bit range.
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = Math.floor(Number.isFinite(seed) ? seed : 0) >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Pick a fresh seed (not itself reproducible; used for new files and re-rolls). */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * (MAX_SEED + 1)) >>> 0;
+}
+
+/**
+ * Validate a stored or typed seed. Accepts integers in [0, MAX_SEED] and
+ * digit-only strings; returns null for anything else.
+ */
+export function normalizeSeed(value: unknown): number | null {
+  let n: number;
+  if (typeof value === 'number') {
+    n = value;
+  } else if (typeof value === 'string' && /^\s*\d+\s*$/.test(value)) {
+    n = parseInt(value.trim(), 10);
+  } else {
+    return null;
+  }
+  if (!Number.isInteger(n) || n < 0 || n > MAX_SEED) {
+    return null;
+  }
+  return n;
+}
+
+/** Fisher–Yates shuffle into a new array (engine-independent, unlike sort with a random comparator). */
+export function shuffle<T>(items: readonly T[], random: RandomSource): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i -= 1) {
+    const j = Math.floor(random() * (i + 1));
+    const tmp = result[i];
+    result[i] = result[j];
+    result[j] = tmp;
+  }
+  return result;
+}
+
+/**
+ * Pick one item with probability proportional to getWeight(item). Items must be non-empty.
+ * Falls back to a uniform pick when every weight is 0 so a palette of "Off" tiles still fills.
+ */
+export function pickWeighted<T>(
+  items: readonly T[],
+  getWeight: (item: T) => number,
+  random: RandomSource
+): T {
+  let total = 0;
+  for (const item of items) {
+    total += Math.max(0, getWeight(item));
+  }
+  if (total <= 0) {
+    return items[Math.floor(random() * items.length)];
+  }
+  let threshold = random() * total;
+  for (const item of items) {
+    threshold -= Math.max(0, getWeight(item));
+    if (threshold < 0) {
+      return item;
+    }
+  }
+  return items[items.length - 1];
+}
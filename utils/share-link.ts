@@ -0,0 +1,73 @@
+/**
+ * Share links for designs: a file or pattern bundle (utils/tile-bundle-format.ts),
+ * deflated and base64url encoded into the `d` query parameter of the /open route
+ * (app/open.tsx). Opening the link imports the design as a new file or pattern.
+ */
+import { deflate } from 'pako';
+
+import { deserializeBundle } from '@/utils/tile-bundle-format';
+import { base64ToBytes, bytesToBase64, inflateText } from '@/utils/tile-compact';
+
+/** Route that receives share links. */
+export const SHARE_LINK_PATH = 'open';
+
+/** Longest `d` value that is created or accepted; longer URLs are cut off by many chat apps and browsers. */
+export const MAX_SHARE_PAYLOAD_LENGTH = 16000;
+
+/** Longest bundle JSON a link may carry; decoding stops inflating past it. */
+export const MAX_SHARE_CONTENT_LENGTH = 4 * 1024 * 1024;
+
+export type EncodeShareResult = { ok: true; payload: string } | { ok: false; error: string };
+
+export type DecodeShareResult =
+  | { ok: true; kind: 'fileBundle' | 'patternBundle'; content: string }
+  | { ok: false; error: string };
+
+const toBase64Url = (base64: string) =>
+  base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (base64Url: string) => {
+  const base64 = base64Url.replace(/-/g, '+').replace(/_/g, '/');
+  return base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+};
+
+/** Encode serialized bundle JSON (serializeFileBundle / serializePatternBundle) for a share link. */
+export function encodeSharePayload(bundleJson: string): EncodeShareResult {
+  const tooLarge = 'This design is too large to share as a link. Export it as a file instead.';
+  if (bundleJson.length > MAX_SHARE_CONTENT_LENGTH) {
+    return { ok: false, error: tooLarge };
+  }
+  const payload = toBase64Url(bytesToBase64(deflate(bundleJson)));
+  if (payload.length > MAX_SHARE_PAYLOAD_LENGTH) {
+    return { ok: false, error: tooLarge };
+  }
+  return { ok: true, payload };
+}
+
+/**
+ * Decode the `d` parameter of a share link back to bundle JSON. Fails when the link
+ * was cut short or altered (the deflate stream and its checksum must be complete).
+ */
+export function decodeSharePayload(payload: string): DecodeShareResult {
+  const trimmed = payload.trim();
+  if (trimmed.length === 0) {
+    return { ok: false, error: 'The link does not contain a design.' };
+  }
+  if (trimmed.length > MAX_SHARE_PAYLOAD_LENGTH) {
+    return { ok: false, error: 'The link is too large to open.' };
+  }
+  let content: string | null;
+  try {
+    content = inflateText(base64ToBytes(fromBase64Url(trimmed)), MAX_SHARE_CONTENT_LENGTH);
+  } catch {
+    content = null;
+  }
+  if (content === null) {
+    return { ok: false, error: 'The link is incomplete. Ask for the full link again.' };
+  }
+  const bundle = deserializeBundle(content);
+  if (!bundle.ok) {
+    return { ok: false, error: `The link could not be opened: ${bundle.error}.` };
+  }
+  return { ok: true, kind: bundle.kind, content };
+}
@@ -6,22 +6,24 @@
 
 import type { TileCategory } from '@/assets/images/tiles/manifest';
 import type { TileSet } from '@/hooks/use-tile-sets';
+import { FORMAT_MIGRATIONS, migrateFormat } from '@/utils/format-migrations';
 import {
   TILE_FORMAT_VERSION,
   type TileFilePayload,
 } from '@/utils/tile-format';
 import type { Tile } from '@/utils/tile-grid';
 import {
-  TILE_UGC_FORMAT_VERSION,
+  PATTERN_FORMAT_VERSION,
   type PatternExportPayload,
   type TileSetExportPayload,
 } from '@/utils/tile-ugc-format';
 import {
+  deserializeTileSet,
   serializeTileSet,
   serializeTileSetForBundle,
 } from '@/utils/tile-ugc-format';
 
-export const TILE_BUNDLE_VERSION = 1;
+export const TILE_BUNDLE_VERSION = FORMAT_MIGRATIONS.bundle.currentVersion;
 
 export type TileSetInBundle = {
   setId: string;
@@ -122,7 +124,7 @@ export function serializePatternBundle(
 
   const patternPayload: PatternExportPayload = {
     kind: 'pattern',
-    v: TILE_UGC_FORMAT_VERSION,
+    v: PATTERN_FORMAT_VERSION,
     name: pattern.name,
     category: pattern.category,
     width: pattern.width,
@@ -161,6 +163,8 @@ export function serializeFileBundle(
     category: TileFilePayload['category'];
     categories: TileCategory[];
     lockedCells?: number[];
+    seed?: number;
+    tileable?: boolean;
   },
   tileSetsById: Map<string, TileSet>
 ): string {
@@ -191,6 +195,8 @@ export function serializeFileBundle(
     categories: file.categories ?? [file.category],
     ...(Array.isArray(file.lockedCells) &&
       file.lockedCells.length > 0 && { lockedCells: file.lockedCells }),
+    ...(typeof file.seed === 'number' && { seed: file.seed }),
+    ...(file.tileable === true && { tileable: true }),
   };
 
   const bundle: FileBundlePayload = {
@@ -202,9 +208,35 @@ export function serializeFileBundle(
   return JSON.stringify(bundle, null, 0);
 }
 
+/** Embedded tile sets carry their own versions; bring each to the current one. Null if any cannot be read. */
+function migrateBundledTileSets(entries: unknown[]): TileSetInBundle[] | null {
+  const result: TileSetInBundle[] = [];
+  for (const entry of entries) {
+    const payload = (entry as { payload?: unknown } | null)?.payload;
+    if (payload == null || typeof payload !== 'object') {
+      result.push(entry as TileSetInBundle);
+      continue;
+    }
+    const migrated = migrateFormat('tileSet', payload as Record<string, unknown>);
+    if (!migrated.ok) return null;
+    result.push({ ...(entry as TileSetInBundle), payload: migrated.data as TileSetExportPayload });
+  }
+  return result;
+}
+
+/**
+ * Repair an embedded tile set the way deserializeTileSet repairs a standalone one (ids and
+ * tile updatedAt are kept). Returns the payload unchanged when it cannot be read.
+ */
+export function normalizeBundledTileSet(payload: TileSetExportPayload): TileSetExportPayload {
+  const result = deserializeTileSet(JSON.stringify({ ...payload, kind: 'tileSet' }));
+  return result.ok ? result.payload : payload;
+}
+
 /**
  * Parse JSON and detect if it is a pattern or file bundle.
- * Does not validate inner payloads; caller should deserialize tile sets and pattern/file.
+ * Migrates the bundle and its embedded tile sets and pattern/file to their current versions
+ * but does not otherwise validate them; caller should deserialize tile sets and pattern/file.
  */
 export function deserializeBundle(json: string): DeserializeBundleResult {
   let data: unknown;
@@ -216,35 +248,51 @@ export function deserializeBundle(json: string): DeserializeBundleResult {
   if (data == null || typeof data !== 'object') {
     return { ok: false, error: 'Invalid bundle' };
   }
-  const o = data as Record<string, unknown>;
-  const v = o.v;
-  if (typeof v !== 'number' || v !== TILE_BUNDLE_VERSION) {
+  // Other formats have their own versions; only bundles are run through the bundle registry.
+  const { kind } = data as { kind?: unknown };
+  if (kind !== 'patternBundle' && kind !== 'fileBundle') {
+    return { ok: false, error: 'Not a bundle file' };
+  }
+  const migrated = migrateFormat('bundle', data as Record<string, unknown>);
+  if (!migrated.ok) {
     return { ok: false, error: 'Unsupported bundle version' };
   }
+  const o = migrated.data;
   if (o.kind === 'patternBundle') {
     if (!Array.isArray(o.tileSets) || typeof o.pattern !== 'object' || o.pattern == null) {
       return { ok: false, error: 'Invalid pattern bundle' };
     }
+    const tileSets = migrateBundledTileSets(o.tileSets);
+    const pattern = migrateFormat('pattern', o.pattern as Record<string, unknown>);
+    if (!tileSets || !pattern.ok) {
+      return { ok: false, error: 'Unsupported version in bundle' };
+    }
     return {
       ok: true,
       kind: 'patternBundle',
-      payload: data as PatternBundlePayload,
+      payload: { ...o, tileSets, pattern: pattern.data } as PatternBundlePayload,
     };
   }
   if (o.kind === 'fileBundle') {
     if (!Array.isArray(o.tileSets) || typeof o.file !== 'object' || o.file == null) {
       return { ok: false, error: 'Invalid file bundle' };
     }
+    const tileSets = migrateBundledTileSets(o.tileSets);
+    const file = migrateFormat('tile', o.file as Record<string, unknown>);
+    if (!tileSets || !file.ok) {
+      return { ok: false, error: 'Unsupported version in bundle' };
+    }
     return {
       ok: true,
       kind: 'fileBundle',
-      payload: data as FileBundlePayload,
+      payload: { ...o, tileSets, file: file.data } as FileBundlePayload,
     };
   }
   return { ok: false, error: 'Not a bundle file' };
 }
 
-function remapTileList(tiles: Tile[], oldToNewSetId: Map<string, string>): Tile[] {
+/** Point tile names (`setId:file`) from old set IDs to new set IDs; other tiles are kept. */
+export function remapTileList(tiles: Tile[], oldToNewSetId: Map<string, string>): Tile[] {
   return tiles.map((t) => {
     const name = t.name;
     if (typeof name !== 'string' || !name.includes(':')) return t;
@@ -281,7 +329,8 @@ export function remapPatternTileNames(
   return { ...pattern, tiles, ...(layerTiles && { layerTiles }) };
 }
 
-function remapQualifiedName(
+/** Point one qualified name (`setId:file`) from its old set ID to the new one. */
+export function remapQualifiedName(
   name: string,
   oldToNewSetId: Map<string, string>
 ): string {
@@ -294,7 +343,7 @@ function remapQualifiedName(
 }
 
 /**
- * Remap file tileSetIds, sourceNames, and each tile's name from old set IDs to new set IDs after importing embedded tile sets.
+ * Remap file tileSetIds, sourceNames, and each tile's name (layers included) from old set IDs to new set IDs after importing embedded tile sets.
  * Tile names must be remapped so that when the canvas resolves by tile.name it finds the newly imported set's baked source.
  */
 export function remapFilePayload(
@@ -313,5 +362,13 @@ export function remapFilePayload(
     if (typeof name !== 'string' || !name.includes(':')) return tile;
     return { ...tile, name: remapQualifiedName(name, oldToNewSetId) };
   });
-  return { ...file, tileSetIds, sourceNames, tiles };
+  const layers =
+    file.layers &&
+    Object.fromEntries(
+      Object.entries(file.layers).map(([level, layerTiles]) => [
+        level,
+        remapTileList(layerTiles, oldToNewSetId),
+      ])
+    );
+  return { ...file, tileSetIds, sourceNames, tiles, ...(layers && { layers }) };
 }
@@ -0,0 +1,683 @@
+/**
+ * Headless commands behind scripts/tile-cli.js: render .tile files and file bundles to
+ * SVG or PNG, validate files, unpack bundles and generate canvases. Reads and writes go
+ * through a TileCliIo so the same code runs under Node and in tests; scripts/tile-cli.js
+ * supplies the Node file system and the PNG rasterizer.
+ */
+
+import {
+  TILE_CATEGORIES,
+  TILE_MANIFEST,
+  type TileCategory,
+  type TileSource,
+} from '@/assets/images/tiles/manifest';
+import { createSeededRandom, generateSeed, normalizeSeed } from '@/utils/seeded-random';
+import { getSetIdAndLegacyFromQualifiedName, parseBakedName } from '@/utils/tile-baked-name';
+import {
+  deserializeBundle,
+  type FileBundlePayload,
+  type TileSetInBundle,
+} from '@/utils/tile-bundle-format';
+import { buildCompatibilityTables } from '@/utils/tile-compat';
+import { renderTileCanvasToSvg, type RenderSvgOverlayLayer } from '@/utils/tile-export';
+import {
+  deserializeTileFile,
+  serializeTileFile,
+  TILE_FORMAT_VERSION,
+  type TileFileEncoding,
+  type TileFilePayload,
+} from '@/utils/tile-format';
+import { getLevelGridInfo, type Tile } from '@/utils/tile-grid';
+import { deserializePattern, deserializeTileSet } from '@/utils/tile-ugc-format';
+import { solveWaveFunctionCollapse, type WfcCandidate } from '@/utils/tile-wfc';
+
+const ERROR_TILE = require('@/assets/images/tiles/tile_error.svg');
+
+/** Same gap as the canvas and the app's exports (GRID_GAP in app/index.tsx). */
+const GRID_GAP = 0;
+/** Defaults deserializeTileFile falls back to; used for generated files. */
+const DEFAULT_TILE_SIZE = 45;
+const DEFAULT_LINE_WIDTH = 10;
+const DEFAULT_LINE_COLOR = '#ffffff';
+/** Baked UGC tiles are rendered at 256 px per resolution step, as in useTileSets. */
+const UGC_BAKE_SIZE_PER_STEP = 256;
+const MAX_GENERATE_CELLS = 512 * 512;
+
+export type TileCliIo = {
+  readText: (path: string) => Promise<string>;
+  /** Writes a file, creating its directory when needed. */
+  writeText: (path: string, text: string) => Promise<void>;
+  writeBinary: (path: string, data: Uint8Array) => Promise<void>;
+  /** SVG → PNG bytes at the SVG's own size. Absent = PNG output is not available. */
+  rasterizeSvg?: (svg: string) => Promise<Uint8Array>;
+  log: (message: string) => void;
+  error: (message: string) => void;
+};
+
+export type ParsedCliArgs = {
+  command: string | null;
+  positionals: string[];
+  flags: Record<string, string>;
+};
+
+/** Flags that take no value. */
+const BOOLEAN_FLAGS = new Set(['help', 'tileable']);
+
+export const TILE_CLI_USAGE = [
+  'Usage: node scripts/tile-cli.js <command> [options]',
+  '',
+  'Commands:',
+  '  render <file.tile...>   Render .tile files or file bundles to SVG or PNG',
+  '      --format svg|png    Output format (default svg)',
+  '      --out <dir>         Output directory (default: next to each input)',
+  '      --size <px>         Size of the longer side (default: file tile size × cells)',
+  '      --background <css>  Background colour (default transparent)',
+  '  validate <file...>      Check .tile, .tileset, .tilepattern and bundle files',
+  '  unpack <bundle>         Write the file or pattern and each embedded tile set',
+  '      --out <dir>         Output directory (default: next to the bundle)',
+  '  generate <out.tile>     Create a canvas',
+  '      --rows <n> --columns <n>',
+  '      --mode random|flood random = matching connections; flood = one tile everywhere',
+  '      --tile <name>       Tile for flood (e.g. tile_00000000.svg)',
+  '      --rotation <deg>    Rotation for flood (0, 90, 180, 270; default 0)',
+  '      --categories <a,b>  Built-in tile categories (default the first)',
+  '      --seed <n>          Random seed (stored in the file)',
+  '      --tileable          Wrap edges (seamless repeat)',
+  '      --encoding json|packed|deflated',
+].join('\n');
+
+/** Split argv (without node and script) into command, positionals and --flags. */
+export function parseCliArgs(argv: string[]): ParsedCliArgs {
+  const positionals: string[] = [];
+  const flags: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      positionals.push(arg);
+      continue;
+    }
+    const eq = arg.indexOf('=');
+    const key = eq >= 0 ? arg.slice(2, eq) : arg.slice(2);
+    if (eq >= 0) {
+      flags[key] = arg.slice(eq + 1);
+    } else if (BOOLEAN_FLAGS.has(key) || i + 1 >= argv.length || argv[i + 1].startsWith('--')) {
+      flags[key] = 'true';
+    } else {
+      flags[key] = argv[i + 1];
+      i += 1;
+    }
+  }
+  return { command: positionals.shift() ?? null, positionals, flags };
+}
+
+const getDirName = (path: string) => {
+  const slash = path.lastIndexOf('/');
+  return slash > 0 ? path.slice(0, slash) : slash === 0 ? '/' : '.';
+};
+
+const getBaseName = (path: string) => {
+  const name = path.slice(path.lastIndexOf('/') + 1);
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(0, dot) : name;
+};
+
+const joinPath = (dir: string, name: string) => `${dir.replace(/\/+$/, '')}/${name}`;
+
+const toSafeFileName = (name: string, fallback: string) =>
+  name.replace(/[^\w\s-]+/g, '').trim().replace(/\s+/g, '_') || fallback;
+
+const parsePositiveInt = (value: string | undefined): number | null => {
+  if (value == null || !/^\d+$/.test(value)) return null;
+  const n = parseInt(value, 10);
+  return n > 0 ? n : null;
+};
+
+const isTileCategory = (value: string): value is TileCategory =>
+  (TILE_CATEGORIES as string[]).includes(value);
+
+const getBuiltInSources = (categories: TileCategory[]): TileSource[] =>
+  categories.flatMap((category) => [...(TILE_MANIFEST[category] ?? [])]);
+
+let builtInByName: Map<string, TileSource> | null = null;
+const findBuiltInSource = (name: string) => {
+  if (!builtInByName) {
+    builtInByName = new Map(getBuiltInSources(TILE_CATEGORIES).map((s) => [s.name, s]));
+  }
+  return builtInByName.get(name) ?? null;
+};
+
+export type LoadedTileFile = {
+  file: TileFilePayload;
+  /** Tile sets embedded in a file bundle (empty for a plain .tile). */
+  tileSets: TileSetInBundle[];
+};
+
+/** Parse a .tile file (plain, packed or deflated) or a file bundle. */
+export function loadTileFileText(
+  text: string
+): { ok: true; loaded: LoadedTileFile } | { ok: false; error: string } {
+  const bundle = deserializeBundle(text);
+  if (bundle.ok) {
+    if (bundle.kind !== 'fileBundle') {
+      return { ok: false, error: 'Pattern bundles have no canvas to render' };
+    }
+    const payload: FileBundlePayload = bundle.payload;
+    const file = deserializeTileFile(JSON.stringify(payload.file));
+    if (!file.ok) {
+      return { ok: false, error: file.error };
+    }
+    return { ok: true, loaded: { file: file.payload, tileSets: payload.tileSets } };
+  }
+  const file = deserializeTileFile(text);
+  if (!file.ok) {
+    return { ok: false, error: file.error };
+  }
+  return { ok: true, loaded: { file: file.payload, tileSets: [] } };
+}
+
+/**
+ * SVG for a UGC tile ("setId:tileId_…_bits.svg") from the tile sets embedded in a bundle:
+ * the tile's own markup for SVG tiles, else its grid rendered with the set's built-in tiles
+ * (what useTileSets bakes). Null when the set or tile is not embedded.
+ */
+async function bakeBundledTile(
+  name: string,
+  tileSets: TileSetInBundle[]
+): Promise<{ svg: string; resolution: number } | null> {
+  const qualified = getSetIdAndLegacyFromQualifiedName(name);
+  const parsed = qualified ? parseBakedName(qualified.legacy) : null;
+  if (!qualified || !parsed) return null;
+  const set = tileSets.find((entry) => entry.setId === qualified.setId)?.payload;
+  const tile = set?.tiles.find((t) => t.id === parsed.tileId);
+  if (!set || !tile) return null;
+  const resolution = Math.max(1, set.resolution);
+  if (tile.svg) return { svg: tile.svg, resolution };
+  const svg = await renderTileCanvasToSvg({
+    tiles: tile.tiles,
+    gridLayout: {
+      rows: tile.grid.rows > 0 ? tile.grid.rows : set.resolution,
+      columns: tile.grid.columns > 0 ? tile.grid.columns : set.resolution,
+      tileSize: tile.preferredTileSize,
+    },
+    tileSources: getBuiltInSources(set.categories),
+    gridGap: 0,
+    errorSource: null,
+    outputSize: set.resolution * UGC_BAKE_SIZE_PER_STEP,
+  });
+  return svg ? { svg, resolution } : null;
+}
+
+export type RenderTileFileOptions = {
+  /** Size of the longer side in px; default = preferredTileSize per cell. */
+  size?: number;
+  backgroundColor?: string;
+};
+
+/**
+ * Render a loaded file as the File view's SVG export does: visible level 1 tiles plus every
+ * visible resolution layer, file line colour and width. Built-in tiles are resolved by name
+ * from the manifest; UGC tiles from the bundle's embedded tile sets (else the error tile).
+ */
+export async function renderTileFileToSvg(
+  { file, tileSets }: LoadedTileFile,
+  options: RenderTileFileOptions = {}
+): Promise<string | null> {
+  const { rows, columns } = file.grid;
+  if (rows <= 0 || columns <= 0) return null;
+  const tileSize =
+    options.size && options.size > 0
+      ? options.size / Math.max(rows, columns)
+      : file.preferredTileSize;
+  const ugcXmlBySourceName = new Map<string, string>();
+  const strokeScaleByName = new Map<string, number>();
+  const resolveSource = async (name: string): Promise<TileSource> => {
+    const builtIn = findBuiltInSource(name);
+    if (builtIn) return builtIn;
+    const baked = name.includes(':') ? await bakeBundledTile(name, tileSets) : null;
+    if (baked) {
+      ugcXmlBySourceName.set(name, baked.svg);
+      strokeScaleByName.set(name, baked.resolution);
+    }
+    return { name, source: ERROR_TILE } as TileSource;
+  };
+  // Index-only tiles (no name) point into sourceNames, so those keep their order.
+  const tileSources: TileSource[] = [];
+  for (const name of file.sourceNames) {
+    tileSources.push(await resolveSource(name));
+  }
+  if (tileSources.length === 0) {
+    tileSources.push(...getBuiltInSources(file.categories));
+  }
+  const listed = new Set<string>(tileSources.map((s) => s.name));
+  const allTiles = [file.tiles, ...Object.values(file.layers ?? {})].flat();
+  for (const { name } of allTiles) {
+    if (!name || listed.has(name)) continue;
+    listed.add(name);
+    tileSources.push(await resolveSource(name));
+  }
+
+  const cellCount = rows * columns;
+  const baseTiles: Tile[] =
+    file.layerVisibility?.[1] === false
+      ? Array.from({ length: cellCount }, () => ({
+          imageIndex: -1,
+          rotation: 0,
+          mirrorX: false,
+          mirrorY: false,
+        }))
+      : file.tiles;
+  const overlayLayers: RenderSvgOverlayLayer[] = [];
+  Object.keys(file.layers ?? {})
+    .map(Number)
+    .sort((a, b) => a - b)
+    .forEach((level) => {
+      if (file.layerVisibility?.[level] === false) return;
+      const levelInfo = getLevelGridInfo(columns, rows, level);
+      const layerTiles = file.layers?.[level] ?? [];
+      if (!levelInfo || layerTiles.length !== levelInfo.cells.length) return;
+      overlayLayers.push({
+        level,
+        tiles: layerTiles,
+        levelInfo,
+        level1TileSize: tileSize,
+        gridGap: GRID_GAP,
+        lineColor: file.lineColor,
+        lineWidth: file.lineWidth,
+        strokeScaleByName,
+      });
+    });
+
+  return renderTileCanvasToSvg({
+    tiles: baseTiles,
+    gridLayout: { rows, columns, tileSize },
+    tileSources,
+    gridGap: GRID_GAP,
+    errorSource: ERROR_TILE,
+    lineColor: file.lineColor,
+    lineWidth: file.lineWidth,
+    backgroundColor: options.backgroundColor,
+    ugcXmlBySourceName,
+    strokeScaleByName,
+    overlayLayers: overlayLayers.length > 0 ? overlayLayers : undefined,
+    tileable: file.tileable,
+  });
+}
+
+export type ValidateResult =
+  | { ok: true; kind: 'file' | 'fileBundle' | 'patternBundle' | 'tileSet' | 'pattern'; summary: string }
+  | { ok: false; error: string };
+
+/** Detect the kind of a .tile/.tileset/.tilepattern/bundle text and run its deserializer. */
+export function validateTileText(text: string): ValidateResult {
+  let kind: unknown = null;
+  try {
+    const data = JSON.parse(text) as { kind?: unknown } | null;
+    kind = data?.kind ?? null;
+  } catch {
+    // Not JSON: a deflated .tile, or invalid (deserializeTileFile reports which).
+  }
+  if (kind === 'fileBundle' || kind === 'patternBundle') {
+    const bundle = deserializeBundle(text);
+    if (!bundle.ok) return bundle;
+    for (const { setId, payload } of bundle.payload.tileSets) {
+      const set = deserializeTileSet(JSON.stringify(payload));
+      if (!set.ok) return { ok: false, error: `Tile set ${setId}: ${set.error}` };
+    }
+    const sets = `${bundle.payload.tileSets.length} tile set(s)`;
+    if (bundle.kind === 'patternBundle') {
+      const pattern = deserializePattern(JSON.stringify(bundle.payload.pattern));
+      if (!pattern.ok) return pattern;
+      const { name, width, height } = pattern.payload;
+      return { ok: true, kind: 'patternBundle', summary: `pattern "${name}" ${width}×${height}, ${sets}` };
+    }
+    const file = deserializeTileFile(JSON.stringify(bundle.payload.file));
+    if (!file.ok) return file;
+    return { ok: true, kind: 'fileBundle', summary: `${describeFile(file.payload)}, ${sets}` };
+  }
+  if (kind === 'tileSet') {
+    const set = deserializeTileSet(text);
+    if (!set.ok) return set;
+    return { ok: true, kind: 'tileSet', summary: `tile set "${set.payload.name}", ${set.payload.tiles.length} tile(s)` };
+  }
+  if (kind === 'pattern') {
+    const pattern = deserializePattern(text);
+    if (!pattern.ok) return pattern;
+    const { name, width, height } = pattern.payload;
+    return { ok: true, kind: 'pattern', summary: `pattern "${name}" ${width}×${height}` };
+  }
+  const file = deserializeTileFile(text);
+  if (!file.ok) return file;
+  return { ok: true, kind: 'file', summary: describeFile(file.payload) };
+}
+
+function describeFile(file: TileFilePayload) {
+  const levels = 1 + Object.keys(file.layers ?? {}).length;
+  return `file "${file.name}" ${file.grid.columns}×${file.grid.rows}, ${levels} layer(s)`;
+}
+
+export type UnpackedEntry = { fileName: string; text: string };
+
+/**
+ * Split a bundle into the standalone exports the app writes: `{name}.tile` or
+ * `Pattern_{name}.tilepattern`, plus `TileSet_{name}.tileset` per embedded set. Tiles keep
+ * their original set ids; importing the tile sets first gives them new ids in the app.
+ */
+export function unpackBundleText(
+  text: string
+): { ok: true; entries: UnpackedEntry[] } | { ok: false; error: string } {
+  const bundle = deserializeBundle(text);
+  if (!bundle.ok) return bundle;
+  const entries: UnpackedEntry[] = [];
+  const used = new Set<string>();
+  const unique = (fileName: string) => {
+    const dot = fileName.lastIndexOf('.');
+    let candidate = fileName;
+    for (let n = 2; used.has(candidate); n += 1) {
+      candidate = `${fileName.slice(0, dot)}_${n}${fileName.slice(dot)}`;
+    }
+    used.add(candidate);
+    return candidate;
+  };
+  if (bundle.kind === 'fileBundle') {
+    const file = deserializeTileFile(JSON.stringify(bundle.payload.file));
+    if (!file.ok) return file;
+    entries.push({
+      fileName: unique(`${toSafeFileName(file.payload.name, 'TileCanvas')}.tile`),
+      text: serializeTileFile(file.payload),
+    });
+  } else {
+    const pattern = deserializePattern(JSON.stringify(bundle.payload.pattern));
+    if (!pattern.ok) return pattern;
+    entries.push({
+      fileName: unique(`Pattern_${toSafeFileName(pattern.payload.name, 'Pattern')}.tilepattern`),
+      text: JSON.stringify(pattern.payload, null, 0),
+    });
+  }
+  for (const { setId, payload } of bundle.payload.tileSets) {
+    const set = deserializeTileSet(JSON.stringify(payload));
+    if (!set.ok) return { ok: false, error: `Tile set ${setId}: ${set.error}` };
+    entries.push({
+      fileName: unique(`TileSet_${toSafeFileName(set.payload.name, 'TileSet')}.tileset`),
+      text: JSON.stringify(set.payload, null, 0),
+    });
+  }
+  return { ok: true, entries };
+}
+
+export type GenerateOptions = {
+  rows: number;
+  columns: number;
+  mode: 'random' | 'flood';
+  categories: TileCategory[];
+  /** Flood: tile name placed in every cell. */
+  tileName?: string;
+  /** Flood: rotation of that tile. */
+  rotation?: number;
+  seed?: number;
+  tileable?: boolean;
+  name: string;
+};
+
+/**
+ * Build a canvas from built-in tiles. Random fills every cell with matching connections
+ * (the Generate solver, edge connections allowed as in the default settings); flood puts
+ * one tile in every cell.
+ */
+export function generateTileFile(
+  options: GenerateOptions
+): { ok: true; file: TileFilePayload } | { ok: false; error: string } {
+  const { rows, columns, categories } = options;
+  const cellCount = rows * columns;
+  if (rows <= 0 || columns <= 0 || cellCount > MAX_GENERATE_CELLS) {
+    return { ok: false, error: `Grid must be between 1×1 and ${MAX_GENERATE_CELLS} cells` };
+  }
+  const sources = getBuiltInSources(categories);
+  if (sources.length === 0) {
+    return { ok: false, error: 'No tiles in the selected categories' };
+  }
+  const seed = options.seed ?? generateSeed();
+  const random = createSeededRandom(seed);
+  let tiles: Tile[];
+  if (options.mode === 'flood') {
+    const imageIndex = sources.findIndex((s) => s.name === options.tileName);
+    if (imageIndex < 0) {
+      return { ok: false, error: `Unknown tile "${options.tileName ?? ''}" in ${categories.join(', ')}` };
+    }
+    const rotation = options.rotation ?? 0;
+    if (![0, 90, 180, 270].includes(rotation)) {
+      return { ok: false, error: 'Rotation must be 0, 90, 180 or 270' };
+    }
+    tiles = Array.from({ length: cellCount }, () => ({
+      imageIndex,
+      rotation,
+      mirrorX: false,
+      mirrorY: false,
+      name: sources[imageIndex].name,
+    }));
+  } else {
+    const compatTables = buildCompatibilityTables(sources);
+    const candidates: WfcCandidate[] = [];
+    sources.forEach((source, index) => {
+      const variants = compatTables.variantsByIndex[index] ?? [];
+      if (!compatTables.connectionsByIndex[index]) {
+        candidates.push({
+          tile: { imageIndex: index, rotation: 0, mirrorX: false, mirrorY: false, name: source.name },
+          connections: null,
+        });
+        return;
+      }
+      variants.forEach((variant) => {
+        candidates.push({
+          tile: {
+            imageIndex: index,
+            rotation: variant.rotation,
+            mirrorX: variant.mirrorX,
+            mirrorY: variant.mirrorY,
+            name: source.name,
+          },
+          connections: variant.connections,
+        });
+      });
+    });
+    const result = solveWaveFunctionCollapse({
+      columns,
+      rows,
+      tiles: Array.from({ length: cellCount }, () => ({
+        imageIndex: -1,
+        rotation: 0,
+        mirrorX: false,
+        mirrorY: false,
+      })),
+      editableCells: Array.from({ length: cellCount }, (_, i) => i),
+      candidates,
+      getConnections: (tile) =>
+        compatTables.getConnectionsForPlacement(tile.imageIndex, tile.rotation, tile.mirrorX, tile.mirrorY),
+      allowEdgeConnections: true,
+      wrap: options.tileable === true,
+      random,
+    });
+    if (!result.ok) {
+      return { ok: false, error: result.error };
+    }
+    tiles = result.tiles;
+  }
+  return {
+    ok: true,
+    file: {
+      v: TILE_FORMAT_VERSION,
+      name: options.name,
+      grid: { rows, columns },
+      tiles,
+      preferredTileSize: DEFAULT_TILE_SIZE,
+      lineWidth: DEFAULT_LINE_WIDTH,
+      lineColor: DEFAULT_LINE_COLOR,
+      sourceNames: sources.map((s) => s.name),
+      tileSetIds: [],
+      category: categories[0],
+      categories,
+      seed,
+      ...(options.tileable === true && { tileable: true }),
+    },
+  };
+}
+
+async function runRender(args: ParsedCliArgs, io: TileCliIo): Promise<number> {
+  const format = args.flags.format ?? 'svg';
+  if (format !== 'svg' && format !== 'png') {
+    io.error(`Unknown format "${format}" (use svg or png)`);
+    return 2;
+  }
+  if (format === 'png' && !io.rasterizeSvg) {
+    io.error('PNG output is not available');
+    return 2;
+  }
+  const size = args.flags.size != null ? parsePositiveInt(args.flags.size) : undefined;
+  if (size === null) {
+    io.error('--size must be a positive integer');
+    return 2;
+  }
+  if (args.positionals.length === 0) {
+    io.error('render: no input files');
+    return 2;
+  }
+  let failures = 0;
+  for (const input of args.positionals) {
+    try {
+      const loaded = loadTileFileText(await io.readText(input));
+      if (!loaded.ok) throw new Error(loaded.error);
+      const svg = await renderTileFileToSvg(loaded.loaded, {
+        size,
+        backgroundColor: args.flags.background,
+      });
+      if (!svg) throw new Error('Empty canvas');
+      const output = joinPath(args.flags.out ?? getDirName(input), `${getBaseName(input)}.${format}`);
+      if (format === 'png' && io.rasterizeSvg) {
+        await io.writeBinary(output, await io.rasterizeSvg(svg));
+      } else {
+        await io.writeText(output, svg);
+      }
+      io.log(`${input} → ${output}`);
+    } catch (error) {
+      failures += 1;
+      io.error(`${input}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  return failures > 0 ? 1 : 0;
+}
+
+async function runValidate(args: ParsedCliArgs, io: TileCliIo): Promise<number> {
+  if (args.positionals.length === 0) {
+    io.error('validate: no input files');
+    return 2;
+  }
+  let failures = 0;
+  for (const input of args.positionals) {
+    let result: ValidateResult;
+    try {
+      result = validateTileText(await io.readText(input));
+    } catch (error) {
+      result = { ok: false, error: error instanceof Error ? error.message : String(error) };
+    }
+    if (result.ok) {
+      io.log(`OK   ${input}: ${result.summary}`);
+    } else {
+      failures += 1;
+      io.log(`FAIL ${input}: ${result.error}`);
+    }
+  }
+  return failures > 0 ? 1 : 0;
+}
+
+async function runUnpack(args: ParsedCliArgs, io: TileCliIo): Promise<number> {
+  const input = args.positionals[0];
+  if (!input) {
+    io.error('unpack: no bundle given');
+    return 2;
+  }
+  const result = unpackBundleText(await io.readText(input));
+  if (!result.ok) {
+    io.error(`${input}: ${result.error}`);
+    return 1;
+  }
+  const dir = args.flags.out ?? getDirName(input);
+  for (const entry of result.entries) {
+    const output = joinPath(dir, entry.fileName);
+    await io.writeText(output, entry.text);
+    io.log(output);
+  }
+  return 0;
+}
+
+async function runGenerate(args: ParsedCliArgs, io: TileCliIo): Promise<number> {
+  const output = args.positionals[0];
+  const rows = parsePositiveInt(args.flags.rows);
+  const columns = parsePositiveInt(args.flags.columns);
+  const mode = args.flags.mode ?? 'random';
+  const categoryNames = (args.flags.categories ?? TILE_CATEGORIES[0] ?? '')
+    .split(',')
+    .map((c) => c.trim())
+    .filter(Boolean);
+  const unknown = categoryNames.filter((c) => !isTileCategory(c));
+  const encoding = (args.flags.encoding ?? 'json') as TileFileEncoding;
+  const seed = args.flags.seed != null ? normalizeSeed(args.flags.seed) : undefined;
+  const rotation = args.flags.rotation != null ? Number(args.flags.rotation) : undefined;
+  const problem = !output
+    ? 'generate: no output file given'
+    : rows == null || columns == null
+      ? '--rows and --columns must be positive integers'
+      : mode !== 'random' && mode !== 'flood'
+        ? `Unknown mode "${mode}" (use random or flood)`
+        : mode === 'flood' && !args.flags.tile
+          ? 'flood needs --tile <name>'
+          : unknown.length > 0
+            ? `Unknown categories: ${unknown.join(', ')} (have ${TILE_CATEGORIES.join(', ')})`
+            : !['json', 'packed', 'deflated'].includes(encoding)
+              ? `Unknown encoding "${encoding}"`
+              : seed === null
+                ? '--seed must be an integer from 0 to 4294967295'
+                : null;
+  if (problem || !output || rows == null || columns == null || seed === null) {
+    io.error(problem ?? TILE_CLI_USAGE);
+    return 2;
+  }
+  const result = generateTileFile({
+    rows,
+    columns,
+    mode: mode as GenerateOptions['mode'],
+    categories: categoryNames as TileCategory[],
+    tileName: args.flags.tile,
+    rotation,
+    seed,
+    tileable: args.flags.tileable === 'true',
+    name: getBaseName(output),
+  });
+  if (!result.ok) {
+    io.error(result.error);
+    return 1;
+  }
+  await io.writeText(output, serializeTileFile(result.file, { encoding }));
+  io.log(`${output} (seed ${result.file.seed})`);
+  return 0;
+}
+
+/** Run one CLI invocation; returns the process exit code (0 ok, 1 failed input, 2 usage error). */
+export async function runTileCli(argv: string[], io: TileCliIo): Promise<number> {
+  const args = parseCliArgs(argv);
+  if (!args.command || args.command === 'help' || args.flags.help === 'true') {
+    io.log(TILE_CLI_USAGE);
+    return args.command ? 0 : 2;
+  }
+  switch (args.command) {
+    case 'render':
+      return runRender(args, io);
+    case 'validate':
+      return runValidate(args, io);
+    case 'unpack':
+      return runUnpack(args, io);
+    case 'generate':
+      return runGenerate(args, io);
+    default:
+      io.error(`Unknown command "${args.command}"\n\n${TILE_CLI_USAGE}`);
+      return 2;
+  }
+}
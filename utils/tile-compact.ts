@@ -0,0 +1,223 @@
+/**
+ * Compact encoding for tile grids and .tile text.
+ *
+ * packTiles replaces a verbose Tile[] with a palette of distinct sources plus run-length
+ * encoded per-cell records; deflateTileText wraps a whole file string in deflate + base64
+ * behind DEFLATED_TILE_PREFIX. Both are reversible and detected on read.
+ */
+import { deflate, Inflate } from 'pako';
+
+import { getLevelGridInfo, type Tile } from '@/utils/tile-grid';
+
+/** Marks .tile text that is deflated and base64 encoded (JSON text always starts with `{`). */
+export const DEFLATED_TILE_PREFIX = 'TILEZ1:';
+
+/** Longest text inflateTileText returns; deflate expands up to ~1000×, so small inputs could fill memory. */
+export const MAX_INFLATED_TILE_TEXT_LENGTH = 16 * 1024 * 1024;
+
+export type PackedTiles = {
+  /** Distinct sources: [imageIndex] or [imageIndex, name]. */
+  palette: ([number] | [number, string])[];
+  /**
+   * Comma-separated base-36 cell records, `record*count` for a run of equal records.
+   * Record = palette index * 16 + quarter turns * 4 + mirrorX * 2 + mirrorY.
+   */
+  cells: string;
+  /** Runs of base-36 placedOrder values (`-` = none). Omitted when no tile has one. */
+  order?: string;
+};
+
+const encodeRuns = (tokens: string[]) => {
+  const runs: string[] = [];
+  let i = 0;
+  while (i < tokens.length) {
+    let count = 1;
+    while (i + count < tokens.length && tokens[i + count] === tokens[i]) count += 1;
+    runs.push(count > 1 ? `${tokens[i]}*${count.toString(36)}` : tokens[i]);
+    i += count;
+  }
+  return runs.join(',');
+};
+
+/** Expand runs; null when malformed or when they hold more than maxCount tokens (checked before expanding). */
+const decodeRuns = (text: string, maxCount: number): string[] | null => {
+  if (text.length === 0) return [];
+  const tokens: string[] = [];
+  for (const run of text.split(',')) {
+    const [token, countText] = run.split('*');
+    const count = countText === undefined ? 1 : parseInt(countText, 36);
+    if (token.length === 0 || !Number.isInteger(count) || count < 1) return null;
+    if (tokens.length + count > maxCount) return null;
+    for (let i = 0; i < count; i += 1) tokens.push(token);
+  }
+  return tokens;
+};
+
+/**
+ * Pack tiles into a palette and run-length records. Returns null when a tile cannot be
+ * packed (rotation not a multiple of 90); callers then keep the verbose array.
+ * Only imageIndex, rotation, mirrors, name and placedOrder are kept.
+ */
+export function packTiles(tiles: Tile[]): PackedTiles | null {
+  const palette: PackedTiles['palette'] = [];
+  const paletteIndexByKey = new Map<string, number>();
+  const records: string[] = [];
+  const order: string[] = [];
+  let hasOrder = false;
+  for (const tile of tiles) {
+    const rotation = ((tile.rotation % 360) + 360) % 360;
+    if (rotation % 90 !== 0 || !Number.isInteger(tile.imageIndex)) {
+      return null;
+    }
+    const key = `${tile.imageIndex}|${tile.name ?? ''}`;
+    let paletteIndex = paletteIndexByKey.get(key);
+    if (paletteIndex === undefined) {
+      paletteIndex = palette.length;
+      paletteIndexByKey.set(key, paletteIndex);
+      palette.push(tile.name ? [tile.imageIndex, tile.name] : [tile.imageIndex]);
+    }
+    const record =
+      paletteIndex * 16 + (rotation / 90) * 4 + (tile.mirrorX ? 2 : 0) + (tile.mirrorY ? 1 : 0);
+    records.push(record.toString(36));
+    if (typeof tile.placedOrder === 'number' && Number.isInteger(tile.placedOrder) && tile.placedOrder >= 0) {
+      hasOrder = true;
+      order.push(tile.placedOrder.toString(36));
+    } else {
+      order.push('-');
+    }
+  }
+  return {
+    palette,
+    cells: encodeRuns(records),
+    ...(hasOrder && { order: encodeRuns(order) }),
+  };
+}
+
+/** True when value has the shape written by packTiles. */
+export function isPackedTiles(value: unknown): value is PackedTiles {
+  if (value == null || typeof value !== 'object' || Array.isArray(value)) {
+    return false;
+  }
+  const o = value as Record<string, unknown>;
+  return Array.isArray(o.palette) && typeof o.cells === 'string';
+}
+
+/**
+ * Most cells a packed array may expand to: the grid's cells at level 1, that resolution
+ * layer's cells at level 2+ (see getLevelGridInfo), 0 when grid is not a valid grid.
+ */
+export function getPackedCellLimit(grid: unknown, level: number): number {
+  const { rows, columns } = (grid ?? {}) as { rows?: unknown; columns?: unknown };
+  if (
+    typeof rows !== 'number' ||
+    typeof columns !== 'number' ||
+    !Number.isInteger(rows) ||
+    !Number.isInteger(columns) ||
+    rows <= 0 ||
+    columns <= 0
+  ) {
+    return 0;
+  }
+  if (level <= 1) {
+    return rows * columns;
+  }
+  const info = getLevelGridInfo(columns, rows, level);
+  return info ? info.levelCols * info.levelRows : 0;
+}
+
+/**
+ * Expand packed tiles back into a Tile[]; null when the data is malformed or holds more than
+ * maxCells cells (see getPackedCellLimit), so untrusted run counts never expand unbounded.
+ */
+export function unpackTiles(packed: PackedTiles, maxCells: number): Tile[] | null {
+  const records = decodeRuns(packed.cells, maxCells);
+  const order = typeof packed.order === 'string' ? decodeRuns(packed.order, maxCells) : undefined;
+  if (!records || order === null || (order && order.length !== records.length)) {
+    return null;
+  }
+  const tiles: Tile[] = [];
+  for (let i = 0; i < records.length; i += 1) {
+    const record = parseInt(records[i], 36);
+    const entry = Number.isInteger(record) ? packed.palette[Math.floor(record / 16)] : undefined;
+    if (!Array.isArray(entry) || typeof entry[0] !== 'number') {
+      return null;
+    }
+    const [imageIndex, name] = entry;
+    const placedOrder = order && order[i] !== '-' ? parseInt(order[i], 36) : NaN;
+    tiles.push({
+      imageIndex,
+      rotation: ((record >> 2) & 3) * 90,
+      mirrorX: (record & 2) !== 0,
+      mirrorY: (record & 1) !== 0,
+      ...(typeof name === 'string' && name.length > 0 && { name }),
+      ...(Number.isInteger(placedOrder) && { placedOrder }),
+    });
+  }
+  return tiles;
+}
+
+export const bytesToBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+};
+
+export const base64ToBytes = (base64: string) => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i += 1) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+/** Deflate text and prefix it with DEFLATED_TILE_PREFIX. */
+export function deflateTileText(text: string): string {
+  return DEFLATED_TILE_PREFIX + bytesToBase64(deflate(text));
+}
+
+export function isDeflatedTileText(text: string): boolean {
+  return text.startsWith(DEFLATED_TILE_PREFIX);
+}
+
+/**
+ * Inflate deflated bytes to text; null when the data is not complete valid deflate data or
+ * the text would be longer than maxLength (inflating stops there).
+ */
+export function inflateText(bytes: Uint8Array, maxLength: number): string | null {
+  const inflater = new Inflate({ to: 'string' });
+  const chunks: string[] = [];
+  let length = 0;
+  inflater.onData = (chunk: unknown) => {
+    if (typeof chunk !== 'string') {
+      throw new Error('Expected text');
+    }
+    length += chunk.length;
+    if (length > maxLength) {
+      throw new Error('Inflated text too long');
+    }
+    chunks.push(chunk);
+  };
+  try {
+    inflater.push(bytes, true);
+  } catch {
+    return null;
+  }
+  return inflater.err === 0 ? chunks.join('') : null;
+}
+
+/** Reverse deflateTileText; null when the text is not valid deflated data or inflates past maxLength. */
+export function inflateTileText(
+  text: string,
+  maxLength = MAX_INFLATED_TILE_TEXT_LENGTH
+): string | null {
+  if (!isDeflatedTileText(text)) {
+    return null;
+  }
+  try {
+    return inflateText(base64ToBytes(text.slice(DEFLATED_TILE_PREFIX.length).trim()), maxLength);
+  } catch {
+    return null;
+  }
+}
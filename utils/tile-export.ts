@@ -18,6 +18,8 @@ type ExportParams = {
   backgroundLineColor?: string;
   backgroundLineWidth?: number;
   fileName?: string;
+  /** Tileable file: size the image to one full repeat period so copies placed edge to edge line up. */
+  tileable?: boolean;
 };
 
 type ExportResult = { ok: true } | { ok: false; error: string };
@@ -127,6 +129,13 @@ export const buildSourceXmlCache = async (
   return cache;
 };
 
+/**
+ * Width (or height) of the exported image. A tileable canvas keeps the trailing gap so
+ * the image is exactly one repeat period (count × (tileSize + gap)).
+ */
+const getCanvasExtent = (count: number, tileSize: number, gap: number, tileable = false) =>
+  count * tileSize + gap * Math.max(0, tileable ? count : count - 1);
+
 const loadImage = (uri: string) =>
   new Promise<HTMLImageElement>((resolve, reject) => {
     const img = new window.Image();
@@ -276,6 +285,7 @@ export const exportTileCanvasAsPng = async ({
   gridGap,
   blankSource,
   errorSource,
+  tileable,
   fileName = 'tile-canvas.png',
 }: ExportParams): Promise<ExportResult> => {
   const dataUrl = await renderTileCanvasToDataUrl({
@@ -285,6 +295,7 @@ export const exportTileCanvasAsPng = async ({
     gridGap,
     blankSource,
     errorSource,
+    tileable,
   });
   if (!dataUrl) {
     return { ok: false, error: 'Unable to render canvas preview.' };
@@ -301,6 +312,8 @@ export const exportTileCanvasAsPng = async ({
 
 /** One overlay layer (e.g. L2 or L3) for SVG export; same shape as OverlayLayerParams. */
 export type RenderSvgOverlayLayer = {
+  /** Resolution level (2, 3, …); used to name the layer in layered exports. */
+  level?: number;
   tiles: Tile[];
   levelInfo: LevelGridInfo;
   level1TileSize: number;
@@ -324,6 +337,7 @@ export const renderTileCanvasToSvg = async ({
   outputSize,
   strokeScaleByName,
   overlayLayers,
+  tileable = false,
 }: Omit<ExportParams, 'blankSource' | 'backgroundLineColor' | 'backgroundLineWidth' | 'fileName'> & {
   sourceXmlCache?: Map<string, string>;
   /** Pre-read UGC SVG XML by source name; used first so export never relies on file/URI load for UGC. */
@@ -336,12 +350,8 @@ export const renderTileCanvasToSvg = async ({
     return null;
   }
 
-  const totalWidth =
-    gridLayout.columns * gridLayout.tileSize +
-    gridGap * Math.max(0, gridLayout.columns - 1);
-  const totalHeight =
-    gridLayout.rows * gridLayout.tileSize +
-    gridGap * Math.max(0, gridLayout.rows - 1);
+  const totalWidth = getCanvasExtent(gridLayout.columns, gridLayout.tileSize, gridGap, tileable);
+  const totalHeight = getCanvasExtent(gridLayout.rows, gridLayout.tileSize, gridGap, tileable);
 
   const svgParts: string[] = [];
   const normalizedSize =
@@ -750,6 +760,7 @@ export const exportTileCanvasAsSvg = async ({
   sourceXmlCache,
   ugcXmlBySourceName,
   overlayLayers,
+  tileable,
   fileName = 'tile-canvas.svg',
 }: Omit<ExportParams, 'blankSource' | 'backgroundLineColor' | 'backgroundLineWidth'> & {
   strokeScaleByName?: Map<string, number>;
@@ -773,6 +784,7 @@ export const exportTileCanvasAsSvg = async ({
     ugcXmlBySourceName,
     strokeScaleByName,
     overlayLayers,
+    tileable,
   });
   if (!svg) {
     return { ok: false, error: 'Unable to render SVG.' };
@@ -817,6 +829,7 @@ export const renderTileCanvasToDataUrl = async ({
   maxDimension = 256,
   format = 'image/png',
   quality,
+  tileable = false,
 }: Omit<ExportParams, 'fileName'> & {
   strokeScaleByName?: Map<string, number>;
   overlayLayers?: OverlayLayerParams[];
@@ -834,12 +847,8 @@ export const renderTileCanvasToDataUrl = async ({
     return null;
   }
 
-  const totalWidth =
-    gridLayout.columns * gridLayout.tileSize +
-    gridGap * Math.max(0, gridLayout.columns - 1);
-  const totalHeight =
-    gridLayout.rows * gridLayout.tileSize +
-    gridGap * Math.max(0, gridLayout.rows - 1);
+  const totalWidth = getCanvasExtent(gridLayout.columns, gridLayout.tileSize, gridGap, tileable);
+  const totalHeight = getCanvasExtent(gridLayout.rows, gridLayout.tileSize, gridGap, tileable);
 
   const canvas = document.createElement('canvas');
   canvas.width = totalWidth;
@@ -859,12 +868,16 @@ export const renderTileCanvasToDataUrl = async ({
     ctx.strokeStyle = backgroundLineColor;
     ctx.lineWidth = lineWidthValue;
     ctx.beginPath();
-    for (let col = 1; col < gridLayout.columns; col += 1) {
+    // Tileable: also draw the outer lines; each is half clipped, so repeats join into full lines.
+    const firstLine = tileable ? 0 : 1;
+    const lastColumnLine = tileable ? gridLayout.columns : gridLayout.columns - 1;
+    const lastRowLine = tileable ? gridLayout.rows : gridLayout.rows - 1;
+    for (let col = firstLine; col <= lastColumnLine; col += 1) {
       const x = col * (gridLayout.tileSize + gridGap);
       ctx.moveTo(x, 0);
       ctx.lineTo(x, totalHeight);
     }
-    for (let row = 1; row < gridLayout.rows; row += 1) {
+    for (let row = firstLine; row <= lastRowLine; row += 1) {
       const y = row * (gridLayout.tileSize + gridGap);
       ctx.moveTo(0, y);
       ctx.lineTo(totalWidth, y);
@@ -0,0 +1,263 @@
+/**
+ * Per-file AsyncStorage layout for canvas files (hooks/use-tile-files.ts).
+ *
+ * Files used to live in one blob ('tile-files-v1') that was rewritten on every save. Each
+ * file is now split into three records so a save only writes what changed:
+ * - the index ('tile-files-index-v2'): one small meta entry per file (name, grid, settings,
+ *   updatedAt, …) in list order; read on start-up to list the files.
+ * - the body ('tile-file-body-v2:<id>'): tiles, layers and locked cells, packed; read when
+ *   the file is opened.
+ * - the thumbnails ('tile-file-thumbs-v2:<id>'): thumbnailUri and previewUri (data URLs on
+ *   web, the bulk of the old blob); read on start-up for the file grid.
+ * A legacy blob is migrated once by the hook (read it, write this layout, remove the blob).
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import type { TileFile } from '@/hooks/use-tile-files';
+import { packTiles, type PackedTiles } from '@/utils/tile-compact';
+import type { Tile } from '@/utils/tile-grid';
+
+export const LEGACY_FILES_KEY = 'tile-files-v1';
+export const FILES_INDEX_KEY = 'tile-files-index-v2';
+const FILE_BODY_KEY_PREFIX = 'tile-file-body-v2:';
+const FILE_THUMBS_KEY_PREFIX = 'tile-file-thumbs-v2:';
+
+export const getFileBodyKey = (id: string) => `${FILE_BODY_KEY_PREFIX}${id}`;
+export const getFileThumbsKey = (id: string) => `${FILE_THUMBS_KEY_PREFIX}${id}`;
+
+/** True for every per-file key (bodies and thumbnails), e.g. to clear local data. */
+export const isFileRecordKey = (key: string) =>
+  key.startsWith(FILE_BODY_KEY_PREFIX) || key.startsWith(FILE_THUMBS_KEY_PREFIX);
+
+/** Fields stored in the body record; everything except thumbnails goes in the index. */
+const BODY_FIELDS = [
+  'tiles',
+  'layers',
+  'lockedCells',
+  'lockedCellsPerLayer',
+  'undoLog',
+] as const satisfies readonly (keyof TileFile)[];
+const THUMB_FIELDS = ['thumbnailUri', 'previewUri'] as const satisfies readonly (keyof TileFile)[];
+
+/** A file's body and thumbnail records as written; tile arrays in the body may be packed. */
+type StoredBody = Omit<Pick<TileFile, (typeof BODY_FIELDS)[number]>, 'tiles' | 'layers'> & {
+  tiles: PackedTiles | Tile[];
+  layers?: Record<number, PackedTiles | Tile[]>;
+};
+type StoredThumbs = Pick<TileFile, (typeof THUMB_FIELDS)[number]>;
+
+/**
+ * A file as read back from storage: an index entry joined with its records, or a legacy
+ * blob entry. Not validated (see normalizeStoredFile in the hook); tile arrays may be packed.
+ */
+export type StoredFile = Partial<Omit<TileFile, 'tiles' | 'layers'> & Pick<StoredBody, 'tiles' | 'layers'>>;
+
+/** What was last written for one file; `file` lets unchanged files skip serialization. */
+export type PersistedFileTexts = {
+  file: TileFile | null;
+  meta: string;
+  /** Null while the body has not been read (lazy files): it is then never written. */
+  body: string | null;
+  thumbs: string;
+};
+
+export type PersistedFiles = {
+  index: string | null;
+  byId: Map<string, PersistedFileTexts>;
+};
+
+export type FileWritePlan = {
+  /** Bodies and thumbnails, written before the index. */
+  records: [string, string][];
+  /** New index text; null when unchanged. */
+  index: string | null;
+  /** Keys of removed files, removed after the index. */
+  remove: string[];
+  next: PersistedFiles;
+};
+
+export const createPersistedFiles = (): PersistedFiles => ({ index: null, byId: new Map() });
+
+const pickFields = <T, K extends keyof T>(source: T, fields: readonly K[]): Partial<Pick<T, K>> => {
+  const picked: Partial<Pick<T, K>> = {};
+  fields.forEach((key) => {
+    if (source[key] !== undefined) {
+      picked[key] = source[key];
+    }
+  });
+  return picked;
+};
+
+/** JSON texts of a file's index entry, body (tile arrays packed) and thumbnails. */
+export function splitStoredFile(file: TileFile): Omit<PersistedFileTexts, 'file'> {
+  const {
+    tiles,
+    layers,
+    lockedCells,
+    lockedCellsPerLayer,
+    undoLog,
+    thumbnailUri,
+    previewUri,
+    ...meta
+  } = file;
+  const body: StoredBody = {
+    tiles: packTiles(tiles) ?? tiles,
+    layers:
+      layers &&
+      Object.fromEntries(
+        Object.entries(layers).map(([level, levelTiles]) => [
+          level,
+          packTiles(levelTiles) ?? levelTiles,
+        ])
+      ),
+    lockedCells,
+    lockedCellsPerLayer,
+    undoLog,
+  };
+  const thumbs: StoredThumbs = { thumbnailUri, previewUri };
+  // JSON.stringify leaves out fields that are undefined.
+  return {
+    meta: JSON.stringify(meta),
+    body: JSON.stringify(body),
+    thumbs: JSON.stringify(thumbs),
+  };
+}
+
+/** The stored shape of one file (as the legacy blob held it) from its records; missing parts are left out. */
+export function joinStoredFile(
+  meta: StoredFile,
+  body: StoredFile | null,
+  thumbs: StoredFile | null
+): StoredFile {
+  return { ...meta, ...(thumbs && pickFields(thumbs, THUMB_FIELDS)), ...(body && pickFields(body, BODY_FIELDS)) };
+}
+
+/**
+ * Writes that bring storage from `previous` to `files`: changed bodies and thumbnails, the
+ * index when an entry or the order changed, and the records of removed files. Files in
+ * `unloadedIds` keep their stored body.
+ */
+export function planFileWrites(
+  files: TileFile[],
+  previous: PersistedFiles,
+  unloadedIds: ReadonlySet<string>
+): FileWritePlan {
+  const records: [string, string][] = [];
+  const byId = new Map<string, PersistedFileTexts>();
+  for (const file of files) {
+    const before = previous.byId.get(file.id);
+    if (before && before.file === file) {
+      byId.set(file.id, before);
+      continue;
+    }
+    const texts = splitStoredFile(file);
+    const body = unloadedIds.has(file.id) ? before?.body ?? null : texts.body;
+    if (body !== null && body !== before?.body) {
+      records.push([getFileBodyKey(file.id), body]);
+    }
+    if (texts.thumbs !== before?.thumbs) {
+      records.push([getFileThumbsKey(file.id), texts.thumbs]);
+    }
+    byId.set(file.id, { file, meta: texts.meta, body, thumbs: texts.thumbs });
+  }
+  const remove: string[] = [];
+  previous.byId.forEach((_, id) => {
+    if (!byId.has(id)) {
+      remove.push(getFileBodyKey(id), getFileThumbsKey(id));
+    }
+  });
+  const index = `[${files.map((file) => byId.get(file.id)!.meta).join(',')}]`;
+  return {
+    records,
+    index: index === previous.index ? null : index,
+    remove,
+    next: { index, byId },
+  };
+}
+
+export async function applyFileWrites(plan: FileWritePlan): Promise<void> {
+  if (plan.records.length > 0) {
+    await AsyncStorage.multiSet(plan.records);
+  }
+  if (plan.index !== null) {
+    await AsyncStorage.setItem(FILES_INDEX_KEY, plan.index);
+  }
+  if (plan.remove.length > 0) {
+    await AsyncStorage.multiRemove(plan.remove);
+  }
+}
+
+const isStoredFile = (value: unknown): value is StoredFile =>
+  value != null && typeof value === 'object' && !Array.isArray(value);
+
+const parseRecord = (text: string | null | undefined): StoredFile | null => {
+  if (!text) return null;
+  const value: unknown = JSON.parse(text);
+  return isStoredFile(value) ? value : null;
+};
+
+export type StoredFileIndex = {
+  /** Index entries joined with their thumbnails, in list order. */
+  records: (StoredFile & { id: string })[];
+  persisted: PersistedFiles;
+};
+
+/** Read the index and every file's thumbnails; null when there is no index yet. Bodies are not read. */
+export async function readFileIndex(): Promise<StoredFileIndex | null> {
+  const indexText = await AsyncStorage.getItem(FILES_INDEX_KEY);
+  if (indexText === null) {
+    return null;
+  }
+  const parsed: unknown = JSON.parse(indexText);
+  const metas = (Array.isArray(parsed) ? parsed : []).filter(
+    (entry: unknown): entry is StoredFile & { id: string } =>
+      isStoredFile(entry) && typeof entry.id === 'string'
+  );
+  const thumbEntries = await AsyncStorage.multiGet(metas.map((meta) => getFileThumbsKey(meta.id)));
+  const thumbsByKey = new Map(thumbEntries);
+  const byId = new Map<string, PersistedFileTexts>();
+  const records = metas.map((meta) => {
+    const thumbsText = thumbsByKey.get(getFileThumbsKey(meta.id)) ?? null;
+    byId.set(meta.id, { file: null, meta: JSON.stringify(meta), body: null, thumbs: thumbsText ?? '{}' });
+    return { ...joinStoredFile(meta, null, parseRecord(thumbsText)), id: meta.id };
+  });
+  return { records, persisted: { index: indexText, byId } };
+}
+
+/** Read the bodies of the given files (raw body records and their text, by id). Missing bodies are left out. */
+export async function readFileBodies(
+  ids: string[]
+): Promise<Map<string, { record: StoredFile; text: string }>> {
+  const bodies = new Map<string, { record: StoredFile; text: string }>();
+  if (ids.length === 0) {
+    return bodies;
+  }
+  const entries = await AsyncStorage.multiGet(ids.map(getFileBodyKey));
+  entries.forEach(([key, text], i) => {
+    const record = parseRecord(text);
+    if (record && text && key === getFileBodyKey(ids[i])) {
+      bodies.set(ids[i], { record, text });
+    }
+  });
+  return bodies;
+}
+
+/** Remove the index and every per-file record (the legacy blob too). */
+export async function removeAllFileRecords(): Promise<void> {
+  const keys = await AsyncStorage.getAllKeys();
+  await AsyncStorage.multiRemove([
+    LEGACY_FILES_KEY,
+    FILES_INDEX_KEY,
+    ...keys.filter(isFileRecordKey),
+  ]);
+}
+
+/** Remove the legacy blob and the records of every file not in keepIds (the index is left). */
+export async function removeFileRecordsExcept(keepIds: ReadonlySet<string>): Promise<void> {
+  const kept = new Set([...keepIds].flatMap((id) => [getFileBodyKey(id), getFileThumbsKey(id)]));
+  const keys = await AsyncStorage.getAllKeys();
+  await AsyncStorage.multiRemove([
+    LEGACY_FILES_KEY,
+    ...keys.filter((key) => isFileRecordKey(key) && !kept.has(key)),
+  ]);
+}
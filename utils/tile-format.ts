@@ -1,12 +1,25 @@
 /**
  * Serialize/deserialize a tile canvas to the custom .tile file format.
- * Format is versioned JSON for future compatibility.
+ * Format is versioned JSON for future compatibility. Tile arrays may be packed and the
+ * whole text deflated (utils/tile-compact.ts); the deserializer detects both.
  */
 
 import { TILE_CATEGORIES, type TileCategory } from '@/assets/images/tiles/manifest';
+import { FORMAT_MIGRATIONS, migrateFormat } from '@/utils/format-migrations';
+import { normalizeSeed } from '@/utils/seeded-random';
+import {
+  deflateTileText,
+  getPackedCellLimit,
+  inflateTileText,
+  isDeflatedTileText,
+  isPackedTiles,
+  packTiles,
+  unpackTiles,
+  type PackedTiles,
+} from '@/utils/tile-compact';
 import type { Tile } from '@/utils/tile-grid';
 
-export const TILE_FORMAT_VERSION = 1;
+export const TILE_FORMAT_VERSION = FORMAT_MIGRATIONS.tile.currentVersion;
 
 export type TileFilePayload = {
   v: number;
@@ -31,6 +44,10 @@ export type TileFilePayload = {
   layerLocked?: Record<number, boolean>;
   /** Per-layer emphasize. Omitted = not emphasized. */
   layerEmphasized?: Record<number, boolean>;
+  /** Random seed for Flood/Randomize/Generate (unsigned 32-bit). Omitted = unseeded. */
+  seed?: number;
+  /** Left/right and top/bottom edges of the tile grid are neighbors (seamless repeat). Omitted = false. */
+  tileable?: boolean;
 };
 
 type TileFileExport = {
@@ -40,6 +57,19 @@ type TileFileExport = {
   updatedAt?: never;
 } & TileFilePayload;
 
+/**
+ * How serializeTileFile writes tiles: 'json' = one object per tile (default),
+ * 'packed' = palette + run-length records, 'deflated' = packed, then deflated and base64 encoded.
+ */
+export type TileFileEncoding = 'json' | 'packed' | 'deflated';
+
+type PackedTileFileExport = Omit<TileFileExport, 'tiles' | 'layers'> & {
+  tiles: Tile[] | PackedTiles;
+  layers?: Record<string, Tile[] | PackedTiles>;
+};
+
+const packOrKeep = (tiles: Tile[]) => packTiles(tiles) ?? tiles;
+
 function isValidCategory(value: unknown): value is TileCategory {
   return (
     typeof value === 'string' && (TILE_CATEGORIES as string[]).includes(value)
@@ -92,7 +122,9 @@ export function serializeTileFile(file: {
   layerVisibility?: Record<number, boolean>;
   layerLocked?: Record<number, boolean>;
   layerEmphasized?: Record<number, boolean>;
-}): string {
+  seed?: number;
+  tileable?: boolean;
+}, options?: { encoding?: TileFileEncoding }): string {
   const layersExport =
     file.layers && Object.keys(file.layers).length > 0
       ? Object.fromEntries(
@@ -138,8 +170,46 @@ export function serializeTileFile(file: {
           Object.entries(file.layerEmphasized).map(([k, v]) => [String(k), v])
         ),
       }),
+    ...(normalizeSeed(file.seed) !== null && { seed: file.seed }),
+    ...(file.tileable === true && { tileable: true }),
+  };
+  const encoding = options?.encoding ?? 'json';
+  if (encoding === 'json') {
+    return JSON.stringify(payload, null, 0);
+  }
+  const packed: PackedTileFileExport = {
+    ...payload,
+    tiles: packOrKeep(payload.tiles),
+    ...(payload.layers && {
+      layers: Object.fromEntries(
+        Object.entries(payload.layers).map(([k, v]) => [k, packOrKeep(v)])
+      ),
+    }),
   };
-  return JSON.stringify(payload, null, 0);
+  const text = JSON.stringify(packed, null, 0);
+  return encoding === 'deflated' ? deflateTileText(text) : text;
+}
+
+/** Replace packed tile arrays (tiles and each layer) with plain Tile[]; null when one is malformed. */
+function unpackTileArrays(o: Record<string, unknown>): Record<string, unknown> | null {
+  let tiles = o.tiles;
+  if (isPackedTiles(tiles)) {
+    tiles = unpackTiles(tiles, getPackedCellLimit(o.grid, 1));
+    if (!tiles) return null;
+  }
+  let layers = o.layers;
+  if (layers != null && typeof layers === 'object' && !Array.isArray(layers)) {
+    const unpacked: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(layers as Record<string, unknown>)) {
+      const layerTiles = isPackedTiles(value)
+        ? unpackTiles(value, getPackedCellLimit(o.grid, parseInt(key, 10)))
+        : value;
+      if (!layerTiles) return null;
+      unpacked[key] = layerTiles;
+    }
+    layers = unpacked;
+  }
+  return { ...o, tiles, ...(layers !== undefined && { layers }) };
 }
 
 export type DeserializeResult =
@@ -147,24 +217,32 @@ export type DeserializeResult =
   | { ok: false; error: string };
 
 /**
- * Deserialize a .tile file string into a validated payload.
+ * Deserialize a .tile file string (plain, packed or deflated) into a validated payload.
  * Caller should create a TileFile from payload (new id, updatedAt, thumbnailUri/previewUri null).
  */
 export function deserializeTileFile(json: string): DeserializeResult {
+  const text = isDeflatedTileText(json) ? inflateTileText(json) : json;
+  if (text === null) {
+    return { ok: false, error: 'Invalid compressed .tile file' };
+  }
   let data: unknown;
   try {
-    data = JSON.parse(json);
+    data = JSON.parse(text);
   } catch {
     return { ok: false, error: 'Invalid JSON' };
   }
   if (data == null || typeof data !== 'object') {
     return { ok: false, error: 'Invalid .tile file' };
   }
-  const o = data as Record<string, unknown>;
-  const v = o.v;
-  if (typeof v !== 'number' || v !== TILE_FORMAT_VERSION) {
+  const unpacked = unpackTileArrays(data as Record<string, unknown>);
+  if (!unpacked) {
+    return { ok: false, error: 'Invalid packed tiles' };
+  }
+  const migrated = migrateFormat('tile', unpacked);
+  if (!migrated.ok) {
     return { ok: false, error: 'Unsupported .tile version' };
   }
+  const o = migrated.data;
   const name = typeof o.name === 'string' ? o.name : 'Imported';
   const grid = o.grid;
   if (
@@ -301,6 +379,7 @@ export function deserializeTileFile(json: string): DeserializeResult {
     }
     if (Object.keys(layerEmphasized).length === 0) layerEmphasized = undefined;
   }
+  const seed = normalizeSeed(o.seed);
   const payload: TileFilePayload = {
     v: TILE_FORMAT_VERSION,
     name,
@@ -319,6 +398,8 @@ export function deserializeTileFile(json: string): DeserializeResult {
     ...(layerVisibility && Object.keys(layerVisibility).length > 0 && { layerVisibility }),
     ...(layerLocked && Object.keys(layerLocked).length > 0 && { layerLocked }),
     ...(layerEmphasized && Object.keys(layerEmphasized).length > 0 && { layerEmphasized }),
+    ...(seed !== null && { seed }),
+    ...(o.tileable === true && { tileable: true }),
   };
   return { ok: true, payload };
 }
@@ -105,6 +105,31 @@ function getSquarestDimensionsEven(maxCells: number): { rows: number; columns: n
   return { rows, columns };
 }
 
+/**
+ * Index of the cell (dr, dc) away from (row, col), or -1 when that is off the grid.
+ * With wrap (tileable canvas) the grid is a torus: leaving one edge re-enters on the
+ * opposite edge, so every cell has all eight neighbors.
+ */
+export function getNeighborCellIndex(
+  row: number,
+  col: number,
+  dr: number,
+  dc: number,
+  rows: number,
+  columns: number,
+  wrap = false
+): number {
+  let r = row + dr;
+  let c = col + dc;
+  if (wrap) {
+    r = ((r % rows) + rows) % rows;
+    c = ((c % columns) + columns) % columns;
+  } else if (r < 0 || c < 0 || r >= rows || c >= columns) {
+    return -1;
+  }
+  return r * columns + c;
+}
+
 export const pickRotation = () => {
   const options = [0, 90, 180, 270];
   return options[Math.floor(Math.random() * options.length)];
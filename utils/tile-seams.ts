@@ -0,0 +1,123 @@
+/**
+ * Invalid-connection diagnostics: find seams where neighbouring tiles disagree
+ * (one side connects, the other does not), using the same rules as placement
+ * validation. Empty cells count as "no connection"; grid borders count as
+ * "no connection" unless edge connections are allowed. On a tileable (wrapping)
+ * grid there is no border: seams across opposite edges are checked like any other.
+ */
+import { getNeighborCellIndex, type Tile } from './tile-grid';
+
+/** Row/col offsets for directions 0..7 (N, NE, E, SE, S, SW, W, NW). */
+const DIRECTION_OFFSETS = [
+  { dr: -1, dc: 0 },
+  { dr: -1, dc: 1 },
+  { dr: 0, dc: 1 },
+  { dr: 1, dc: 1 },
+  { dr: 1, dc: 0 },
+  { dr: 1, dc: -1 },
+  { dr: 0, dc: -1 },
+  { dr: -1, dc: -1 },
+];
+
+export type InvalidEdge = {
+  cellIndex: number;
+  /** Direction 0..7 from cellIndex toward the neighbor (N=0, clockwise). */
+  direction: number;
+  /** Neighbor cell index, or -1 for the grid border. */
+  neighborIndex: number;
+  /** Bit the neighbor requires on this side (its own bit toward cellIndex; false for empty/border). */
+  expected: boolean;
+  /** Bit cellIndex actually has toward the neighbor. */
+  actual: boolean;
+};
+
+export type FindInvalidEdgesParams = {
+  tiles: Tile[];
+  columns: number;
+  rows: number;
+  /** Connections of a placed tile, or null when unknown (unknown tiles are skipped). */
+  getConnections: (tile: Tile) => boolean[] | null;
+  allowEdgeConnections: boolean;
+  /** Tileable grid: left/right and top/bottom edges are neighbors, so allowEdgeConnections does not apply. */
+  wrap?: boolean;
+  /** When set, only seams touching these cells are reported. */
+  cells?: Set<number> | null;
+};
+
+/**
+ * List every broken seam once. A seam between two placed tiles is reported from
+ * the lower cell index; seams toward empty cells or the border are reported from
+ * the placed tile.
+ */
+export function findInvalidEdges({
+  tiles,
+  columns,
+  rows,
+  getConnections,
+  allowEdgeConnections,
+  wrap = false,
+  cells = null,
+}: FindInvalidEdgesParams): InvalidEdge[] {
+  const edges: InvalidEdge[] = [];
+  const connectionsAt = (index: number) => {
+    const tile = tiles[index];
+    return tile && tile.imageIndex >= 0 ? getConnections(tile) : null;
+  };
+  const total = Math.min(tiles.length, columns * rows);
+  for (let cellIndex = 0; cellIndex < total; cellIndex += 1) {
+    const conn = connectionsAt(cellIndex);
+    if (!conn) continue;
+    const row = Math.floor(cellIndex / columns);
+    const col = cellIndex % columns;
+    for (let direction = 0; direction < 8; direction += 1) {
+      const { dr, dc } = DIRECTION_OFFSETS[direction];
+      const neighborIndex = getNeighborCellIndex(row, col, dr, dc, rows, columns, wrap);
+      const actual = Boolean(conn[direction]);
+      if (neighborIndex < 0) {
+        if (!allowEdgeConnections && actual && (!cells || cells.has(cellIndex))) {
+          edges.push({ cellIndex, direction, neighborIndex: -1, expected: false, actual });
+        }
+        continue;
+      }
+      if (cells && !cells.has(cellIndex) && !cells.has(neighborIndex)) continue;
+      const neighborPlaced = (tiles[neighborIndex]?.imageIndex ?? -1) >= 0;
+      const neighborConn = connectionsAt(neighborIndex);
+      // Unknown neighbor tiles are not judged (same as placement validation).
+      if (neighborPlaced && (!neighborConn || neighborIndex < cellIndex)) continue;
+      const expected = neighborConn ? Boolean(neighborConn[(direction + 4) % 8]) : false;
+      if (expected !== actual) {
+        edges.push({ cellIndex, direction, neighborIndex, expected, actual });
+      }
+    }
+  }
+  return edges;
+}
+
+export type ReconcileReport = {
+  /** Broken seams before Reconcile. */
+  invalidEdges: number;
+  /** Seams Reconcile repaired. */
+  fixed: number;
+  /** Seams still broken afterwards (no compatible tile, or locked/outside the editable area). */
+  unfixable: number;
+  /** The remaining broken seams. */
+  remaining: InvalidEdge[];
+};
+
+export function buildReconcileReport(before: InvalidEdge[], after: InvalidEdge[]): ReconcileReport {
+  return {
+    invalidEdges: before.length,
+    fixed: Math.max(0, before.length - after.length),
+    unfixable: after.length,
+    remaining: after,
+  };
+}
+
+export function formatReconcileSummary(
+  report: Pick<ReconcileReport, 'invalidEdges' | 'fixed' | 'unfixable'>
+): string {
+  if (report.invalidEdges === 0 && report.unfixable === 0) {
+    return 'No invalid edges.';
+  }
+  return `${report.invalidEdges} invalid edges, ${report.fixed} fixed, ${report.unfixable} unfixable`;
+}
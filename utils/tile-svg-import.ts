@@ -0,0 +1,158 @@
+/**
+ * Build a UGC tile set from vector tiles drawn outside the app.
+ *
+ * Each SVG is named per AI_ASSET_RULES.md (`name_########.svg`, connection digits clockwise
+ * from North) and becomes a tile whose source is the SVG itself instead of a painted grid.
+ * Files arrive one by one or inside a ZIP (readSvgTileFilesFromZip).
+ */
+import JSZip from 'jszip';
+
+import type { TileCategory } from '@/assets/images/tiles/manifest';
+import { FORMAT_MIGRATIONS } from '@/utils/format-migrations';
+import { parseTileConnections } from '@/utils/tile-compat';
+import type { TileSetExportPayload } from '@/utils/tile-ugc-format';
+
+export type SvgTileFile = { name: string; content: string };
+
+export type SvgTileSetResult =
+  | { ok: true; payload: TileSetExportPayload; skipped: string[] }
+  | { ok: false; error: string };
+
+/** Default resolution of an imported set; only used if tiles are later painted over. */
+const SVG_TILE_SET_RESOLUTION = 4;
+
+const getBaseName = (path: string) => path.split(/[\\/]/).pop() ?? path;
+
+/** Tile name and 8-digit connection bits from `name_########.svg`; null for any other name. */
+export function parseSvgTileFileName(fileName: string): { name: string; connections: string } | null {
+  const baseName = getBaseName(fileName);
+  const connections = parseTileConnections(baseName);
+  const match = baseName.match(/^(.+)_[01]{8}\.svg$/i);
+  if (!connections || !match) {
+    return null;
+  }
+  return {
+    name: match[1],
+    connections: connections.map((value) => (value ? '1' : '0')).join(''),
+  };
+}
+
+/**
+ * Clean SVG markup for use as a tile source: drops the XML prolog, doctype, comments,
+ * scripts and event handler attributes, and adds xmlns and a viewBox (from numeric
+ * width/height) when missing. Null when the text is not a sizeable <svg> document.
+ */
+export function normalizeSvgTileMarkup(text: string): string | null {
+  const cleaned = text
+    .replace(/^\uFEFF/, '')
+    .replace(/<\?xml[\s\S]*?\?>/gi, '')
+    .replace(/<!DOCTYPE[^>[]*(\[[\s\S]*?\])?\s*>/gi, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<script\b[\s\S]*?<\/script\s*>/gi, '')
+    .replace(/\son[a-z]+\s*=\s*("[^"]*"|'[^']*')/gi, '')
+    .trim();
+  const root = cleaned.match(/^<svg\b([^>]*)>/i);
+  if (!root || !/<\/svg\s*>$/i.test(cleaned)) {
+    return null;
+  }
+  let attributes = root[1];
+  if (!/\bviewBox\s*=/i.test(attributes)) {
+    const width = attributes.match(/\swidth\s*=\s*["']\s*([\d.]+)(px)?\s*["']/i);
+    const height = attributes.match(/\sheight\s*=\s*["']\s*([\d.]+)(px)?\s*["']/i);
+    if (!width || !height || Number(width[1]) <= 0 || Number(height[1]) <= 0) {
+      return null;
+    }
+    attributes += ` viewBox="0 0 ${width[1]} ${height[1]}"`;
+  }
+  if (!/\sxmlns\s*=/i.test(attributes)) {
+    attributes += ' xmlns="http://www.w3.org/2000/svg"';
+  }
+  return `<svg${attributes}>${cleaned.slice(root[0].length)}`;
+}
+
+/** Data URI for SVG markup (thumbnails and baked sources on web). */
+export const svgToDataUri = (svg: string) =>
+  `data:image/svg+xml;utf8,${encodeURIComponent(svg)}`;
+
+/** Thumbnail for a tile set tile: the saved thumbnail, or the SVG itself for SVG tiles. */
+export const getTileThumbnailUri = (tile: { thumbnailUri: string | null; svg?: string }) =>
+  tile.thumbnailUri ?? (tile.svg ? svgToDataUri(tile.svg) : null);
+
+/** Every .svg file in a ZIP (any folder); macOS resource forks and hidden files are ignored. */
+export async function readSvgTileFilesFromZip(
+  data: ArrayBuffer | Uint8Array | string,
+  options?: { base64?: boolean }
+): Promise<SvgTileFile[]> {
+  const zip = await JSZip.loadAsync(data, { base64: options?.base64 === true });
+  const entries = Object.values(zip.files).filter((entry) => {
+    const baseName = getBaseName(entry.name);
+    return (
+      !entry.dir &&
+      !entry.name.startsWith('__MACOSX/') &&
+      !baseName.startsWith('.') &&
+      baseName.toLowerCase().endsWith('.svg')
+    );
+  });
+  const files: SvgTileFile[] = [];
+  for (const entry of entries) {
+    files.push({ name: getBaseName(entry.name), content: await entry.async('string') });
+  }
+  return files;
+}
+
+/**
+ * Tile set payload with one SVG tile per correctly named file, sorted by file name.
+ * Files with other names or unreadable markup are listed in `skipped`; fails when no
+ * file could be used.
+ */
+export function buildSvgTileSetPayload(
+  files: SvgTileFile[],
+  options: { name: string; category: TileCategory }
+): SvgTileSetResult {
+  const tiles: TileSetExportPayload['tiles'] = [];
+  const skipped: string[] = [];
+  const sorted = [...files].sort((a, b) =>
+    getBaseName(a.name).localeCompare(getBaseName(b.name), undefined, { numeric: true })
+  );
+  sorted.forEach((file, index) => {
+    const parsed = parseSvgTileFileName(file.name);
+    const svg = parsed ? normalizeSvgTileMarkup(file.content) : null;
+    if (!parsed || !svg) {
+      skipped.push(getBaseName(file.name));
+      return;
+    }
+    tiles.push({
+      id: `tile-${Date.now()}-${index}-${Math.random().toString(36).slice(2, 8)}`,
+      name: parsed.name,
+      grid: { rows: SVG_TILE_SET_RESOLUTION, columns: SVG_TILE_SET_RESOLUTION },
+      preferredTileSize: 45,
+      tiles: [],
+      svg,
+      connections: parsed.connections,
+    });
+  });
+  if (tiles.length === 0) {
+    return {
+      ok: false,
+      error:
+        files.length === 0
+          ? 'No SVG files found'
+          : 'No SVG files named name_########.svg (8 connection digits) were found',
+    };
+  }
+  return {
+    ok: true,
+    payload: {
+      kind: 'tileSet',
+      v: FORMAT_MIGRATIONS.tileSet.currentVersion,
+      name: options.name,
+      category: options.category,
+      categories: [options.category],
+      resolution: SVG_TILE_SET_RESOLUTION,
+      lineWidth: 3,
+      lineColor: '#ffffff',
+      tiles,
+    },
+    skipped,
+  };
+}
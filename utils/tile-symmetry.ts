@@ -0,0 +1,187 @@
+/**
+ * Canvas symmetry beyond the horizontal/vertical mirror toggles: 2-fold and 4-fold
+ * rotation about the canvas center and the diagonal mirror.
+ *
+ * A symmetry transform is an element of the square's symmetry group (D4), encoded
+ * 0–7 as `rotationSteps + 4 * mirror`: rotate rotationSteps × 90° clockwise, then
+ * mirror horizontally (E ↔ W) when mirror is set. The same encoding moves cells on
+ * the canvas, placed tiles (rotation/mirror) and connection arrays, so a tile copied
+ * to a symmetric cell keeps its connections valid.
+ */
+import type { TileConnections } from '@/utils/tile-compat';
+import type { Tile } from '@/utils/tile-grid';
+
+/** Extra symmetry on top of mirrorHorizontal/mirrorVertical. rotate4 and diagonal need a square region. */
+export type SymmetryMode = 'none' | 'rotate2' | 'rotate4' | 'diagonal';
+
+export const SYMMETRY_MODES: { mode: SymmetryMode; label: string; requiresSquare: boolean }[] = [
+  { mode: 'none', label: 'None', requiresSquare: false },
+  { mode: 'rotate2', label: '2-fold rotation', requiresSquare: false },
+  { mode: 'rotate4', label: '4-fold rotation', requiresSquare: true },
+  { mode: 'diagonal', label: 'Diagonal mirror', requiresSquare: true },
+];
+
+export type SymmetryTransform = number;
+
+export const SYMMETRY_IDENTITY: SymmetryTransform = 0;
+export const SYMMETRY_ROTATE_90: SymmetryTransform = 1;
+export const SYMMETRY_ROTATE_180: SymmetryTransform = 2;
+/** Horizontal mirror (flips columns; mirrorX on tiles). */
+export const SYMMETRY_MIRROR_X: SymmetryTransform = 4;
+/** Vertical mirror (flips rows; mirrorY on tiles). */
+export const SYMMETRY_MIRROR_Y: SymmetryTransform = 6;
+/** Mirror across the main diagonal (top-left to bottom-right). */
+export const SYMMETRY_TRANSPOSE: SymmetryTransform = 5;
+
+export type SymmetrySettings = {
+  mirrorHorizontal: boolean;
+  mirrorVertical: boolean;
+  symmetryMode?: SymmetryMode;
+};
+
+/** Where direction d (0=N … 7=NW, clockwise) points after the transform. */
+const mapDirection = (transform: SymmetryTransform, d: number) => {
+  const rotated = (d + 2 * (transform & 3)) % 8;
+  return transform & 4 ? (8 - rotated) % 8 : rotated;
+};
+
+const DIRECTION_MAPS = Array.from({ length: 8 }, (_, t) =>
+  Array.from({ length: 8 }, (_, d) => mapDirection(t, d))
+);
+
+const findTransform = (directions: number[]): SymmetryTransform =>
+  DIRECTION_MAPS.findIndex((map) => map.every((value, d) => value === directions[d]));
+
+/** composeSymmetry(a, b): apply b, then a. */
+export function composeSymmetry(a: SymmetryTransform, b: SymmetryTransform): SymmetryTransform {
+  return findTransform(DIRECTION_MAPS[b].map((d) => DIRECTION_MAPS[a][d]));
+}
+
+export const isSymmetryModeAvailable = (mode: SymmetryMode, rows: number, columns: number) =>
+  mode === 'none' ||
+  mode === 'rotate2' ||
+  (rows === columns && rows > 0);
+
+/**
+ * Every transform linking a cell to its symmetric copies (the group generated by the
+ * active mirrors and mode), identity first, then the mirror-tool transforms in the
+ * order the mirror tool applies them. Modes that do not fit the region are ignored.
+ */
+export function getSymmetryTransforms(
+  settings: SymmetrySettings,
+  rows: number,
+  columns: number
+): SymmetryTransform[] {
+  const generators: SymmetryTransform[] = [];
+  if (settings.mirrorHorizontal) generators.push(SYMMETRY_MIRROR_X);
+  if (settings.mirrorVertical) generators.push(SYMMETRY_MIRROR_Y);
+  const mode = settings.symmetryMode ?? 'none';
+  if (isSymmetryModeAvailable(mode, rows, columns)) {
+    if (mode === 'rotate2') generators.push(SYMMETRY_ROTATE_180);
+    if (mode === 'rotate4') generators.push(SYMMETRY_ROTATE_90);
+    if (mode === 'diagonal') generators.push(SYMMETRY_TRANSPOSE);
+  }
+  const group: SymmetryTransform[] = [SYMMETRY_IDENTITY];
+  for (let i = 0; i < group.length; i += 1) {
+    for (const generator of generators) {
+      const next = composeSymmetry(generator, group[i]);
+      if (!group.includes(next)) group.push(next);
+    }
+  }
+  const preferred = [SYMMETRY_IDENTITY, SYMMETRY_MIRROR_X, SYMMETRY_MIRROR_Y, SYMMETRY_ROTATE_180];
+  return [
+    ...preferred.filter((t) => group.includes(t)),
+    ...group.filter((t) => !preferred.includes(t)),
+  ];
+}
+
+/**
+ * Cell (row, col) of a rows × columns region after the transform, or null when the
+ * transform does not map the region onto itself (90° turns and diagonals of non-square regions).
+ */
+export function transformCell(
+  row: number,
+  col: number,
+  rows: number,
+  columns: number,
+  transform: SymmetryTransform
+): { row: number; col: number } | null {
+  if (transform & 1 && rows !== columns) return null;
+  // Doubled offsets from the center keep odd and even sizes in integers.
+  let y = 2 * row - (rows - 1);
+  let x = 2 * col - (columns - 1);
+  for (let step = 0; step < (transform & 3); step += 1) {
+    const nextY = x;
+    x = -y;
+    y = nextY;
+  }
+  if (transform & 4) x = -x;
+  return { row: (y + rows - 1) / 2, col: (x + columns - 1) / 2 };
+}
+
+export function transformConnectionsBySymmetry(
+  connections: TileConnections,
+  transform: SymmetryTransform
+): TileConnections {
+  const result = [...connections] as TileConnections;
+  connections.forEach((value, d) => {
+    result[DIRECTION_MAPS[transform][d]] = value;
+  });
+  return result;
+}
+
+/**
+ * Tile to place in the symmetric cell. The mirror-tool transforms keep the mirror tool's
+ * representation (toggle mirrorX / mirrorY, or rotate 180°); others are rebuilt as a
+ * rotation plus optional mirrorX.
+ */
+export function transformTileBySymmetry(tile: Tile, transform: SymmetryTransform): Tile {
+  if (transform === SYMMETRY_IDENTITY) return tile;
+  if (transform === SYMMETRY_MIRROR_X) return { ...tile, mirrorX: !tile.mirrorX };
+  if (transform === SYMMETRY_MIRROR_Y) return { ...tile, mirrorY: !tile.mirrorY };
+  if (transform === SYMMETRY_ROTATE_180) return { ...tile, rotation: (tile.rotation + 180) % 360 };
+  // Tile placement = rotate, then mirrorX, then mirrorY (see transformConnections).
+  const steps = ((Math.round(tile.rotation / 90) % 4) + 4) % 4;
+  let placement: SymmetryTransform = steps;
+  if (tile.mirrorX) placement = composeSymmetry(SYMMETRY_MIRROR_X, placement);
+  if (tile.mirrorY) placement = composeSymmetry(SYMMETRY_MIRROR_Y, placement);
+  const next = composeSymmetry(transform, placement);
+  return { ...tile, rotation: (next & 3) * 90, mirrorX: (next & 4) !== 0, mirrorY: false };
+}
+
+/**
+ * True when (row, col) is the first cell (row-major) of its symmetry orbit: the cells
+ * tools drive before copying to the symmetric positions.
+ */
+export function isSymmetryRepresentative(
+  row: number,
+  col: number,
+  rows: number,
+  columns: number,
+  transforms: SymmetryTransform[]
+): boolean {
+  const index = row * columns + col;
+  return transforms.every((transform) => {
+    const image = transformCell(row, col, rows, columns, transform);
+    return !image || image.row * columns + image.col >= index;
+  });
+}
+
+/**
+ * Transforms that add copies beyond the mirror tool's own (identity, horizontal, vertical
+ * and — with both mirrors — 180°), for code paths that already apply the mirrors.
+ */
+export function getExtraSymmetryTransforms(
+  settings: SymmetrySettings,
+  rows: number,
+  columns: number
+): SymmetryTransform[] {
+  const { mirrorHorizontal, mirrorVertical } = settings;
+  return getSymmetryTransforms(settings, rows, columns).filter(
+    (transform) =>
+      transform !== SYMMETRY_IDENTITY &&
+      !(transform === SYMMETRY_MIRROR_X && mirrorHorizontal) &&
+      !(transform === SYMMETRY_MIRROR_Y && mirrorVertical) &&
+      !(transform === SYMMETRY_ROTATE_180 && mirrorHorizontal && mirrorVertical)
+  );
+}
@@ -4,10 +4,15 @@
  */
 
 import { TILE_CATEGORIES, type TileCategory } from '@/assets/images/tiles/manifest';
+import { FORMAT_MIGRATIONS, migrateFormat } from '@/utils/format-migrations';
 import type { Tile } from '@/utils/tile-grid';
+import { normalizeSvgTileMarkup } from '@/utils/tile-svg-import';
 import type { TileSet, TileSetTile } from '@/hooks/use-tile-sets';
 import type { TilePattern } from '@/hooks/use-tile-patterns';
 
+export const TILE_SET_FORMAT_VERSION = FORMAT_MIGRATIONS.tileSet.currentVersion;
+export const PATTERN_FORMAT_VERSION = FORMAT_MIGRATIONS.pattern.currentVersion;
+/** Version both formats started at; prefer TILE_SET_FORMAT_VERSION / PATTERN_FORMAT_VERSION. */
 export const TILE_UGC_FORMAT_VERSION = 1;
 
 /** Exported tile set (no setId; tile entries may include updatedAt so bundle import can preserve baked names). */
@@ -28,6 +33,9 @@ export type TileSetExportPayload = {
     tiles: Tile[];
     /** When present, bundle import preserves this so baked names match the file's sourceNames. */
     updatedAt?: number;
+    /** SVG tiles (see TileSetTile.svg): markup and 8-digit connection bits. */
+    svg?: string;
+    connections?: string;
   }>;
 };
 
@@ -85,7 +93,7 @@ function normalizeTile(raw: unknown): Tile | null {
 export function serializeTileSet(set: TileSet): string {
   const payload: TileSetExportPayload = {
     kind: 'tileSet',
-    v: TILE_UGC_FORMAT_VERSION,
+    v: TILE_SET_FORMAT_VERSION,
     name: set.name,
     category: set.category,
     categories: set.categories ?? [set.category],
@@ -98,6 +106,7 @@ export function serializeTileSet(set: TileSet): string {
       grid: t.grid,
       preferredTileSize: t.preferredTileSize,
       tiles: t.tiles,
+      ...(t.svg && { svg: t.svg, connections: t.connections ?? '00000000' }),
     })),
   };
   return JSON.stringify(payload, null, 0);
@@ -107,7 +116,7 @@ export function serializeTileSet(set: TileSet): string {
 export function serializeTileSetForBundle(set: TileSet): string {
   const payload: TileSetExportPayload = {
     kind: 'tileSet',
-    v: TILE_UGC_FORMAT_VERSION,
+    v: TILE_SET_FORMAT_VERSION,
     name: set.name,
     category: set.category,
     categories: set.categories ?? [set.category],
@@ -121,6 +130,7 @@ export function serializeTileSetForBundle(set: TileSet): string {
       preferredTileSize: t.preferredTileSize,
       tiles: t.tiles,
       updatedAt: t.updatedAt,
+      ...(t.svg && { svg: t.svg, connections: t.connections ?? '00000000' }),
     })),
   };
   return JSON.stringify(payload, null, 0);
@@ -132,7 +142,7 @@ export function serializeTileSetForBundle(set: TileSet): string {
 export function serializePattern(pattern: TilePattern): string {
   const payload: PatternExportPayload = {
     kind: 'pattern',
-    v: TILE_UGC_FORMAT_VERSION,
+    v: PATTERN_FORMAT_VERSION,
     name: pattern.name,
     category: pattern.category,
     width: pattern.width,
@@ -167,14 +177,15 @@ export function deserializeTileSet(json: string): DeserializeTileSetResult {
   if (data == null || typeof data !== 'object') {
     return { ok: false, error: 'Invalid .tile file' };
   }
-  const o = data as Record<string, unknown>;
-  if (o.kind !== 'tileSet') {
+  const input = data as Record<string, unknown>;
+  if (input.kind !== 'tileSet') {
     return { ok: false, error: 'Not a tile set .tile file' };
   }
-  const v = o.v;
-  if (typeof v !== 'number' || v !== TILE_UGC_FORMAT_VERSION) {
+  const migrated = migrateFormat('tileSet', input);
+  if (!migrated.ok) {
     return { ok: false, error: 'Unsupported .tile version' };
   }
+  const o = migrated.data;
   const name = typeof o.name === 'string' ? o.name : 'Imported Set';
   const fallbackCategory = TILE_CATEGORIES[0] as TileCategory;
   const category = isValidCategory(o.category) ? o.category : fallbackCategory;
@@ -244,12 +255,20 @@ export function deserializeTileSet(json: string): DeserializeTileSetResult {
       if (updatedAt !== undefined) {
         entry.updatedAt = updatedAt;
       }
+      const svg = typeof t.svg === 'string' ? normalizeSvgTileMarkup(t.svg) : null;
+      if (svg) {
+        entry.svg = svg;
+        entry.connections =
+          typeof t.connections === 'string' && /^[01]{8}$/.test(t.connections)
+            ? t.connections
+            : '00000000';
+      }
       tiles.push(entry);
     }
   }
   const payload: TileSetExportPayload = {
     kind: 'tileSet',
-    v: TILE_UGC_FORMAT_VERSION,
+    v: TILE_SET_FORMAT_VERSION,
     name,
     category: categories[0] ?? fallbackCategory,
     categories: categories.length > 0 ? categories : [fallbackCategory],
@@ -274,14 +293,15 @@ export function deserializePattern(json: string): DeserializePatternResult {
   if (data == null || typeof data !== 'object') {
     return { ok: false, error: 'Invalid .tile file' };
   }
-  const o = data as Record<string, unknown>;
-  if (o.kind !== 'pattern') {
+  const input = data as Record<string, unknown>;
+  if (input.kind !== 'pattern') {
     return { ok: false, error: 'Not a pattern .tile file' };
   }
-  const v = o.v;
-  if (typeof v !== 'number' || v !== TILE_UGC_FORMAT_VERSION) {
+  const migrated = migrateFormat('pattern', input);
+  if (!migrated.ok) {
     return { ok: false, error: 'Unsupported .tile version' };
   }
+  const o = migrated.data;
   const name = typeof o.name === 'string' ? o.name : 'Imported Pattern';
   const fallbackCategory = TILE_CATEGORIES[0] as TileCategory;
   const category = isValidCategory(o.category) ? o.category : fallbackCategory;
@@ -355,7 +375,7 @@ export function deserializePattern(json: string): DeserializePatternResult {
 
   const payload: PatternExportPayload = {
     kind: 'pattern',
-    v: TILE_UGC_FORMAT_VERSION,
+    v: PATTERN_FORMAT_VERSION,
     name,
     category,
     width,
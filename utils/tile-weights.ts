@@ -0,0 +1,110 @@
+/**
+ * Per-tile and per-tile-set weights for the random palette.
+ * A tile's effective weight is tileWeight × setWeight (both default 1); higher = picked more often.
+ */
+
+export type TileWeights = {
+  /** Keyed by tile source name. */
+  tiles: Record<string, number>;
+  /** Keyed by tile set key (UGC set id, or built-in category). */
+  sets: Record<string, number>;
+};
+
+export const DEFAULT_TILE_WEIGHT = 1;
+export const MAX_TILE_WEIGHT = 100;
+
+/** Presets offered in Tile Properties (Rare … Dominant). */
+export const TILE_WEIGHT_PRESETS: { label: string; value: number }[] = [
+  { label: 'Off', value: 0 },
+  { label: 'Rare', value: 0.1 },
+  { label: 'Less', value: 0.5 },
+  { label: 'Normal', value: 1 },
+  { label: 'More', value: 3 },
+  { label: 'Dominant', value: 10 },
+];
+
+export const emptyTileWeights = (): TileWeights => ({ tiles: {}, sets: {} });
+
+const isValidWeight = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= MAX_TILE_WEIGHT;
+
+const normalizeWeightMap = (raw: unknown): Record<string, number> => {
+  if (raw == null || typeof raw !== 'object' || Array.isArray(raw)) {
+    return {};
+  }
+  const result: Record<string, number> = {};
+  for (const [key, value] of Object.entries(raw as Record<string, unknown>)) {
+    // Default weights are implied; only store overrides.
+    if (isValidWeight(value) && value !== DEFAULT_TILE_WEIGHT) {
+      result[key] = value;
+    }
+  }
+  return result;
+};
+
+/** Validate persisted weights; invalid entries are dropped. */
+export function normalizeTileWeights(raw: unknown): TileWeights {
+  if (raw == null || typeof raw !== 'object') {
+    return emptyTileWeights();
+  }
+  const o = raw as Record<string, unknown>;
+  return { tiles: normalizeWeightMap(o.tiles), sets: normalizeWeightMap(o.sets) };
+}
+
+/** Built-in tile name → category, for resolving set keys of non-UGC tiles. First category wins. */
+export function buildCategoryByName(
+  manifest: Record<string, readonly { name: string }[]>
+): Map<string, string> {
+  const map = new Map<string, string>();
+  for (const [category, sources] of Object.entries(manifest)) {
+    for (const source of sources) {
+      if (!map.has(source.name)) {
+        map.set(source.name, category);
+      }
+    }
+  }
+  return map;
+}
+
+/**
+ * Tile set key for a source name: the set id for UGC names ("setId:tile.svg"),
+ * the built-in category otherwise, or null when unknown.
+ */
+export function getTileWeightSetKey(
+  name: string,
+  categoryByName: ReadonlyMap<string, string>
+): string | null {
+  const colon = name.indexOf(':');
+  if (colon > 0) {
+    return name.slice(0, colon);
+  }
+  return categoryByName.get(name) ?? null;
+}
+
+/** Effective weight for a tile source name (tile weight × set weight). */
+export function getTileWeight(
+  name: string,
+  weights: TileWeights,
+  categoryByName: ReadonlyMap<string, string>
+): number {
+  const tileWeight = weights.tiles[name] ?? DEFAULT_TILE_WEIGHT;
+  const setKey = getTileWeightSetKey(name, categoryByName);
+  const setWeight = setKey !== null ? weights.sets[setKey] ?? DEFAULT_TILE_WEIGHT : DEFAULT_TILE_WEIGHT;
+  return tileWeight * setWeight;
+}
+
+/** Return a copy with one tile or set weight changed (default weight removes the override). */
+export function setTileWeight(
+  weights: TileWeights,
+  scope: 'tiles' | 'sets',
+  key: string,
+  value: number
+): TileWeights {
+  const nextMap = { ...weights[scope] };
+  if (!isValidWeight(value) || value === DEFAULT_TILE_WEIGHT) {
+    delete nextMap[key];
+  } else {
+    nextMap[key] = value;
+  }
+  return { ...weights, [scope]: nextMap };
+}
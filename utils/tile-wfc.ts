@@ -0,0 +1,494 @@
+import { pickWeighted } from '@/utils/seeded-random';
+import type { TileConnections } from '@/utils/tile-compat';
+import { getNeighborCellIndex, type Tile } from '@/utils/tile-grid';
+import {
+  getSymmetryTransforms,
+  SYMMETRY_IDENTITY,
+  transformCell,
+  transformConnectionsBySymmetry,
+  transformTileBySymmetry,
+  type SymmetryMode,
+} from '@/utils/tile-symmetry';
+
+/**
+ * Wave Function Collapse solver for the tile canvas.
+ *
+ * Unlike the greedy per-cell picking of Random/Flood, the solver keeps a domain of
+ * possible connection patterns for every editable cell, propagates the 8-direction
+ * connection constraints (arc consistency) and backtracks on contradictions, so the
+ * result has no invalid seams when a solution exists.
+ *
+ * Candidates are grouped by connection key: the search runs over distinct 8-bit
+ * connection patterns, then a concrete tile (image, rotation, mirror) is picked for
+ * each cell among the candidates sharing the chosen pattern.
+ */
+
+// Direction indices: 0=N, 1=NE, 2=E, 3=SE, 4=S, 5=SW, 6=W, 7=NW
+const dirDr = [-1, -1, 0, 1, 1, 1, 0, -1];
+const dirDc = [0, 1, 1, 1, 0, -1, -1, -1];
+const oppositeDir = [4, 5, 6, 7, 0, 1, 2, 3];
+
+/** Transforms of a linked cell relative to its driver are symmetry transforms (utils/tile-symmetry.ts, 0–7). */
+const TRANSFORM_COUNT = 8;
+
+const DEFAULT_MAX_BACKTRACKS = 5000;
+
+export type WfcCandidate = {
+  tile: Tile;
+  /** Connections for this placement; null = tile has no connection info (fits anywhere). */
+  connections: TileConnections | null;
+  /** Relative pick weight (default 1). A connection pattern's weight is the sum of its candidates' weights. */
+  weight?: number;
+};
+
+export type WfcBounds = {
+  minRow: number;
+  maxRow: number;
+  minCol: number;
+  maxCol: number;
+};
+
+export type WfcOptions = {
+  columns: number;
+  rows: number;
+  /** Current tiles. Cells outside editableCells keep their tile and act as fixed constraints. */
+  tiles: Tile[];
+  /** Cells the solver may assign (e.g. all non-locked cells, or the selection). */
+  editableCells: Iterable<number>;
+  candidates: WfcCandidate[];
+  /** Connections of a fixed (non-editable) tile; null = no constraint. */
+  getConnections: (tile: Tile) => (boolean | null)[] | null;
+  allowEdgeConnections: boolean;
+  /** Tileable grid: opposite edges are neighbors (no border, so allowEdgeConnections does not apply). */
+  wrap?: boolean;
+  mirrorHorizontal?: boolean;
+  mirrorVertical?: boolean;
+  /** Rotation / diagonal symmetry linked on top of the mirrors. */
+  symmetryMode?: SymmetryMode;
+  /** Region the mirror axes are computed in (e.g. the zoom region). Defaults to the whole grid. */
+  mirrorBounds?: WfcBounds | null;
+  /** Extra per-cell constraints (e.g. cross-layer walls): false = must not connect in that direction. */
+  cellConstraints?: Map<number, (boolean | null)[]> | null;
+  /** Returns a float in [0, 1). Defaults to Math.random. */
+  random?: () => number;
+  /** Maximum number of backtracks before giving up. */
+  maxBacktracks?: number;
+};
+
+export type WfcResult =
+  | { ok: true; tiles: Tile[]; backtracks: number }
+  | { ok: false; error: string; backtracks: number };
+
+type OrbitMember = { cell: number; transform: number };
+
+type OrbitEdge = { fromTransform: number; dir: number; toTransform: number };
+
+const connectionsToBits = (connections: TileConnections) => {
+  let bits = 0;
+  for (let d = 0; d < 8; d += 1) {
+    if (connections[d]) bits |= 1 << d;
+  }
+  return bits;
+};
+
+const hasBit = (bits: number, dir: number) => (bits & (1 << dir)) !== 0;
+
+/**
+ * Fills the editable cells with a globally consistent tiling, or reports that none exists.
+ */
+export function solveWaveFunctionCollapse(options: WfcOptions): WfcResult {
+  const {
+    columns,
+    rows,
+    tiles,
+    candidates,
+    getConnections,
+    allowEdgeConnections,
+    wrap = false,
+    mirrorHorizontal = false,
+    mirrorVertical = false,
+    symmetryMode = 'none',
+    mirrorBounds = null,
+    cellConstraints = null,
+    random = Math.random,
+    maxBacktracks = DEFAULT_MAX_BACKTRACKS,
+  } = options;
+  const totalCells = columns * rows;
+  const editable = new Set<number>();
+  for (const cell of options.editableCells) {
+    if (cell >= 0 && cell < totalCells) editable.add(cell);
+  }
+  if (editable.size === 0) {
+    return { ok: true, tiles: [...tiles], backtracks: 0 };
+  }
+  if (candidates.length === 0) {
+    return { ok: false, error: 'No tiles available to generate with.', backtracks: 0 };
+  }
+
+  // --- Values: distinct connection patterns (plus one wildcard for tiles without connection info) ---
+  const keyIndexByBits = new Map<number, number>();
+  const candidatesByKey: WfcCandidate[][] = [];
+  let wildKey = -1;
+  for (const candidate of candidates) {
+    if (!candidate.connections) {
+      if (wildKey < 0) {
+        wildKey = candidatesByKey.length;
+        candidatesByKey.push([]);
+      }
+      candidatesByKey[wildKey].push(candidate);
+      continue;
+    }
+    const bits = connectionsToBits(candidate.connections);
+    let key = keyIndexByBits.get(bits);
+    if (key === undefined) {
+      key = candidatesByKey.length;
+      keyIndexByBits.set(bits, key);
+      candidatesByKey.push([]);
+    }
+    candidatesByKey[key].push(candidate);
+  }
+  const K = candidatesByKey.length;
+  const weightOf = (candidate: WfcCandidate) => Math.max(0, candidate.weight ?? 1);
+  const keyWeight = candidatesByKey.map((group) =>
+    group.reduce((sum, candidate) => sum + weightOf(candidate), 0)
+  );
+  // Connection bits of each value under each linked-cell transform (index: key * 8 + transform).
+  const transformedBits = new Array<number>(K * TRANSFORM_COUNT).fill(0);
+  for (let k = 0; k < K; k += 1) {
+    if (k === wildKey) continue;
+    const base = candidatesByKey[k][0].connections as TileConnections;
+    for (let t = 0; t < TRANSFORM_COUNT; t += 1) {
+      transformedBits[k * TRANSFORM_COUNT + t] = connectionsToBits(
+        transformConnectionsBySymmetry(base, t)
+      );
+    }
+  }
+  const bitsOf = (k: number, transform: number) => transformedBits[k * TRANSFORM_COUNT + transform];
+
+  // --- Orbits: cells linked by mirroring / symmetry share one decision ---
+  const bounds: WfcBounds = mirrorBounds ?? {
+    minRow: 0,
+    maxRow: rows - 1,
+    minCol: 0,
+    maxCol: columns - 1,
+  };
+  const boundsRows = bounds.maxRow - bounds.minRow + 1;
+  const boundsCols = bounds.maxCol - bounds.minCol + 1;
+  const symmetryTransforms = getSymmetryTransforms(
+    { mirrorHorizontal, mirrorVertical, symmetryMode },
+    boundsRows,
+    boundsCols
+  );
+  const orbitOf = new Int32Array(totalCells).fill(-1);
+  const orbits: OrbitMember[][] = [];
+  /** Transform pairs a value must look the same under (cell is its own symmetric image). */
+  const orbitSelfSymmetry: [number, number][][] = [];
+  const sortedEditable = Array.from(editable).sort((a, b) => a - b);
+  for (const cell of sortedEditable) {
+    if (orbitOf[cell] >= 0) continue;
+    const row = Math.floor(cell / columns);
+    const col = cell % columns;
+    const inBounds =
+      row >= bounds.minRow && row <= bounds.maxRow && col >= bounds.minCol && col <= bounds.maxCol;
+    const images: OrbitMember[] = [{ cell, transform: SYMMETRY_IDENTITY }];
+    if (inBounds) {
+      for (const transform of symmetryTransforms) {
+        if (transform === SYMMETRY_IDENTITY) continue;
+        const image = transformCell(
+          row - bounds.minRow,
+          col - bounds.minCol,
+          boundsRows,
+          boundsCols,
+          transform
+        );
+        if (!image) continue;
+        images.push({
+          cell: (bounds.minRow + image.row) * columns + bounds.minCol + image.col,
+          transform,
+        });
+      }
+    }
+    const orbitId = orbits.length;
+    const members: OrbitMember[] = [];
+    const selfSymmetry: [number, number][] = [];
+    for (const image of images) {
+      if (!editable.has(image.cell)) continue;
+      const existing = members.find((m) => m.cell === image.cell);
+      if (existing) {
+        if (existing.transform !== image.transform) {
+          selfSymmetry.push([existing.transform, image.transform]);
+        }
+        continue;
+      }
+      members.push(image);
+      orbitOf[image.cell] = orbitId;
+    }
+    orbits.push(members);
+    orbitSelfSymmetry.push(selfSymmetry);
+  }
+  const orbitCount = orbits.length;
+
+  const fixedBits = (cell: number): number | null => {
+    const tile = tiles[cell];
+    if (!tile || tile.imageIndex < 0) return null;
+    const connections = getConnections(tile);
+    if (!connections) return null;
+    let bits = 0;
+    for (let d = 0; d < 8; d += 1) {
+      if (connections[d] === true) bits |= 1 << d;
+    }
+    return bits;
+  };
+
+  // --- Domains with a trail so backtracking can restore removals ---
+  const domain = new Uint8Array(orbitCount * K);
+  const domainSize = new Int32Array(orbitCount);
+  const trail: number[] = [];
+  const removeValue = (orbit: number, k: number) => {
+    const slot = orbit * K + k;
+    if (domain[slot] === 0) return;
+    domain[slot] = 0;
+    domainSize[orbit] -= 1;
+    trail.push(slot);
+  };
+  const undoTo = (length: number) => {
+    while (trail.length > length) {
+      const slot = trail.pop() as number;
+      domain[slot] = 1;
+      domainSize[Math.floor(slot / K)] += 1;
+    }
+  };
+
+  const describeCell = (cell: number) =>
+    `row ${Math.floor(cell / columns) + 1}, column ${(cell % columns) + 1}`;
+
+  // --- Unary constraints: borders, fixed neighbours, self-adjacency, cross-layer walls ---
+  const isValueAllowedAlone = (orbit: number, k: number): boolean => {
+    const members = orbits[orbit];
+    if (k === wildKey) {
+      return members.every(({ cell }) => {
+        const cc = cellConstraints?.get(cell);
+        return !cc || !cc.some((c) => c === true);
+      });
+    }
+    for (const [a, b] of orbitSelfSymmetry[orbit]) {
+      if (bitsOf(k, a) !== bitsOf(k, b)) return false;
+    }
+    for (const { cell, transform } of members) {
+      const bits = bitsOf(k, transform);
+      const row = Math.floor(cell / columns);
+      const col = cell % columns;
+      const cc = cellConstraints?.get(cell);
+      for (let d = 0; d < 8; d += 1) {
+        const connects = hasBit(bits, d);
+        if (cc && cc[d] === false && connects) return false;
+        const neighbor = getNeighborCellIndex(row, col, dirDr[d], dirDc[d], rows, columns, wrap);
+        if (neighbor < 0) {
+          if (!allowEdgeConnections && connects) return false;
+          continue;
+        }
+        const neighborOrbit = orbitOf[neighbor];
+        if (neighborOrbit < 0) {
+          const neighborBits = fixedBits(neighbor);
+          if (neighborBits !== null && hasBit(neighborBits, oppositeDir[d]) !== connects) {
+            return false;
+          }
+          continue;
+        }
+        if (neighborOrbit === orbit) {
+          const neighborMember = members.find((m) => m.cell === neighbor);
+          if (
+            neighborMember &&
+            hasBit(bitsOf(k, neighborMember.transform), oppositeDir[d]) !== connects
+          ) {
+            return false;
+          }
+        }
+      }
+    }
+    return true;
+  };
+
+  for (let orbit = 0; orbit < orbitCount; orbit += 1) {
+    for (let k = 0; k < K; k += 1) {
+      if (isValueAllowedAlone(orbit, k)) {
+        domain[orbit * K + k] = 1;
+        domainSize[orbit] += 1;
+      }
+    }
+    if (domainSize[orbit] === 0) {
+      return {
+        ok: false,
+        error: `No valid tiling exists: no tile fits the cell at ${describeCell(orbits[orbit][0].cell)}.`,
+        backtracks: 0,
+      };
+    }
+  }
+
+  // --- Binary constraints between neighbouring orbits ---
+  const neighborEdges: Map<number, OrbitEdge[]>[] = orbits.map(() => new Map());
+  orbits.forEach((members, orbit) => {
+    for (const { cell, transform } of members) {
+      const row = Math.floor(cell / columns);
+      const col = cell % columns;
+      for (let d = 0; d < 8; d += 1) {
+        const neighbor = getNeighborCellIndex(row, col, dirDr[d], dirDc[d], rows, columns, wrap);
+        if (neighbor < 0) continue;
+        const other = orbitOf[neighbor];
+        if (other < 0 || other === orbit) continue;
+        const otherMember = orbits[other].find((m) => m.cell === neighbor);
+        if (!otherMember) continue;
+        const edges = neighborEdges[orbit].get(other);
+        const edge = { fromTransform: transform, dir: d, toTransform: otherMember.transform };
+        if (edges) edges.push(edge);
+        else neighborEdges[orbit].set(other, [edge]);
+      }
+    }
+  });
+
+  /** Removes values of `orbit` with no support in `other`. Returns false on contradiction. */
+  const revise = (orbit: number, other: number, edges: OrbitEdge[]): { changed: boolean; ok: boolean } => {
+    if (wildKey >= 0 && domain[other * K + wildKey] === 1) {
+      return { changed: false, ok: true };
+    }
+    const supported = new Set<number>();
+    for (let w = 0; w < K; w += 1) {
+      if (domain[other * K + w] === 0) continue;
+      let signature = 0;
+      edges.forEach((edge, i) => {
+        if (hasBit(bitsOf(w, edge.toTransform), oppositeDir[edge.dir])) signature |= 1 << i;
+      });
+      supported.add(signature);
+    }
+    let changed = false;
+    for (let v = 0; v < K; v += 1) {
+      if (domain[orbit * K + v] === 0 || v === wildKey) continue;
+      let signature = 0;
+      edges.forEach((edge, i) => {
+        if (hasBit(bitsOf(v, edge.fromTransform), edge.dir)) signature |= 1 << i;
+      });
+      if (!supported.has(signature)) {
+        removeValue(orbit, v);
+        changed = true;
+      }
+    }
+    return { changed, ok: domainSize[orbit] > 0 };
+  };
+
+  const propagate = (start: number[]): boolean => {
+    const queue = [...start];
+    const queued = new Uint8Array(orbitCount);
+    start.forEach((o) => {
+      queued[o] = 1;
+    });
+    while (queue.length > 0) {
+      const changedOrbit = queue.shift() as number;
+      queued[changedOrbit] = 0;
+      for (const neighbor of neighborEdges[changedOrbit].keys()) {
+        const edges = neighborEdges[neighbor].get(changedOrbit) ?? [];
+        const { changed, ok } = revise(neighbor, changedOrbit, edges);
+        if (!ok) return false;
+        if (changed && !queued[neighbor]) {
+          queued[neighbor] = 1;
+          queue.push(neighbor);
+        }
+      }
+    }
+    return true;
+  };
+
+  const allOrbits = Array.from({ length: orbitCount }, (_, i) => i);
+  if (!propagate(allOrbits)) {
+    return { ok: false, error: 'No valid tiling exists for the current constraints.', backtracks: 0 };
+  }
+
+  const pickOrbit = (): number => {
+    let best = -1;
+    let bestSize = Infinity;
+    let ties = 0;
+    for (let orbit = 0; orbit < orbitCount; orbit += 1) {
+      const size = domainSize[orbit];
+      if (size <= 1) continue;
+      if (size < bestSize) {
+        best = orbit;
+        bestSize = size;
+        ties = 1;
+      } else if (size === bestSize) {
+        ties += 1;
+        if (random() * ties < 1) best = orbit;
+      }
+    }
+    return best;
+  };
+
+  const pickValue = (orbit: number): number => {
+    let total = 0;
+    for (let k = 0; k < K; k += 1) {
+      if (domain[orbit * K + k] === 1) total += keyWeight[k];
+    }
+    // All remaining values weigh 0: fall back to candidate counts so the cell still gets a tile.
+    const useCounts = total <= 0;
+    if (useCounts) {
+      for (let k = 0; k < K; k += 1) {
+        if (domain[orbit * K + k] === 1) total += candidatesByKey[k].length;
+      }
+    }
+    let threshold = random() * total;
+    let last = -1;
+    for (let k = 0; k < K; k += 1) {
+      if (domain[orbit * K + k] === 0) continue;
+      last = k;
+      threshold -= useCounts ? candidatesByKey[k].length : keyWeight[k];
+      if (threshold < 0) return k;
+    }
+    return last;
+  };
+
+  type Decision = { orbit: number; value: number; trailLength: number };
+  const decisions: Decision[] = [];
+  let backtracks = 0;
+  while (true) {
+    const orbit = pickOrbit();
+    if (orbit < 0) break;
+    const value = pickValue(orbit);
+    decisions.push({ orbit, value, trailLength: trail.length });
+    for (let k = 0; k < K; k += 1) {
+      if (k !== value) removeValue(orbit, k);
+    }
+    let consistent = propagate([orbit]);
+    while (!consistent) {
+      const last = decisions.pop();
+      if (!last) {
+        return { ok: false, error: 'No valid tiling exists for the current constraints.', backtracks };
+      }
+      backtracks += 1;
+      if (backtracks > maxBacktracks) {
+        return {
+          ok: false,
+          error: `Gave up after ${maxBacktracks} backtracks without finding a valid tiling.`,
+          backtracks,
+        };
+      }
+      undoTo(last.trailLength);
+      removeValue(last.orbit, last.value);
+      consistent = domainSize[last.orbit] > 0 && propagate([last.orbit]);
+    }
+  }
+
+  const nextTiles = [...tiles];
+  orbits.forEach((members, orbit) => {
+    let value = -1;
+    for (let k = 0; k < K; k += 1) {
+      if (domain[orbit * K + k] === 1) {
+        value = k;
+        break;
+      }
+    }
+    if (value < 0) return;
+    const driver = pickWeighted(candidatesByKey[value], weightOf, random);
+    for (const { cell, transform } of members) {
+      nextTiles[cell] = transformTileBySymmetry({ ...driver.tile }, transform);
+    }
+  });
+  return { ok: true, tiles: nextTiles, backtracks };
+}
@@ -0,0 +1,715 @@
+/**
+ * Tiled map editor export/import (.tmx XML and Tiled JSON), for using canvases as game levels.
+ *
+ * Level 1 becomes a tile layer. Coarser resolution levels (2, 3, …) become object layers of
+ * tile objects, since their cells are larger than the map grid and can overhang its edges.
+ * Tileset tile i is file source i (sourceNames order) and carries a `name` property with the
+ * source name, which is how an edited map is matched back to tiles on import. Rotation and
+ * mirroring are written as Tiled flip flags in the high bits of each gid.
+ */
+import type { TileCategory } from '@/assets/images/tiles/manifest';
+import { getSetIdsFromFileSourceNames } from '@/utils/tile-bundle-format';
+import { TILE_FORMAT_VERSION, type TileFilePayload } from '@/utils/tile-format';
+import { getLevelGridInfo, type Tile } from '@/utils/tile-grid';
+
+const FLIPPED_HORIZONTALLY = 0x80000000;
+const FLIPPED_VERTICALLY = 0x40000000;
+const FLIPPED_DIAGONALLY = 0x20000000;
+/** Also clears the hexagonal rotation flag (0x10000000), unused for orthogonal maps. */
+const GID_MASK = 0x0fffffff;
+
+export type TiledProperty = { name: string; type: 'string' | 'int'; value: string | number };
+
+export type TiledTilesetTile = { id: number; image?: string; properties?: TiledProperty[] };
+
+export type TiledTileset = {
+  firstgid: number;
+  name: string;
+  tilewidth: number;
+  tileheight: number;
+  tilecount: number;
+  columns: number;
+  image: string;
+  imagewidth: number;
+  imageheight: number;
+  margin: number;
+  spacing: number;
+  tiles: TiledTilesetTile[];
+};
+
+export type TiledTileLayer = {
+  id: number;
+  name: string;
+  type: 'tilelayer';
+  width: number;
+  height: number;
+  x: number;
+  y: number;
+  opacity: number;
+  visible: boolean;
+  properties?: TiledProperty[];
+  data: number[];
+};
+
+export type TiledObject = {
+  id: number;
+  gid: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: number;
+  visible: boolean;
+};
+
+export type TiledObjectLayer = {
+  id: number;
+  name: string;
+  type: 'objectgroup';
+  draworder: 'topdown';
+  x: number;
+  y: number;
+  opacity: number;
+  visible: boolean;
+  properties?: TiledProperty[];
+  objects: TiledObject[];
+};
+
+export type TiledMap = {
+  type: 'map';
+  version: string;
+  tiledversion: string;
+  orientation: 'orthogonal';
+  renderorder: 'right-down';
+  width: number;
+  height: number;
+  tilewidth: number;
+  tileheight: number;
+  infinite: boolean;
+  nextlayerid: number;
+  nextobjectid: number;
+  layers: (TiledTileLayer | TiledObjectLayer)[];
+  tilesets: TiledTileset[];
+};
+
+/** Tileset image (e.g. from buildTileAtlas): tiles in source order, row-major. */
+export type TiledTilesetImage = {
+  image: string;
+  width: number;
+  height: number;
+  tileSize: number;
+};
+
+// ── Orientation ──
+// 2×2 matrices [a, b, c, d] mapping (x, y) → (a·x + b·y, c·x + d·y) with y pointing down.
+
+type Matrix = [number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1];
+const ROTATE_90: Matrix = [0, -1, 1, 0];
+const FLIP_X: Matrix = [-1, 0, 0, 1];
+const FLIP_Y: Matrix = [1, 0, 0, -1];
+const FLIP_DIAGONAL: Matrix = [0, 1, 1, 0];
+
+/** m after n. */
+const multiply = (m: Matrix, n: Matrix): Matrix => [
+  m[0] * n[0] + m[1] * n[2],
+  m[0] * n[1] + m[1] * n[3],
+  m[2] * n[0] + m[3] * n[2],
+  m[2] * n[1] + m[3] * n[3],
+];
+
+const rotation = (quarterTurns: number): Matrix => {
+  let m = IDENTITY;
+  for (let i = 0; i < ((quarterTurns % 4) + 4) % 4; i += 1) m = multiply(ROTATE_90, m);
+  return m;
+};
+
+/** The app draws a tile rotated clockwise, then mirrored. */
+const tileMatrix = (rotationDeg: number, mirrorX: boolean, mirrorY: boolean): Matrix => {
+  let m = rotation(Math.round(rotationDeg / 90));
+  if (mirrorX) m = multiply(FLIP_X, m);
+  if (mirrorY) m = multiply(FLIP_Y, m);
+  return m;
+};
+
+/** Tiled applies the diagonal flip first, then horizontal, then vertical. */
+const flagsMatrix = (flags: number): Matrix => {
+  let m = IDENTITY;
+  if (flags & FLIPPED_DIAGONALLY) m = multiply(FLIP_DIAGONAL, m);
+  if (flags & FLIPPED_HORIZONTALLY) m = multiply(FLIP_X, m);
+  if (flags & FLIPPED_VERTICALLY) m = multiply(FLIP_Y, m);
+  return m;
+};
+
+const sameMatrix = (m: Matrix, n: Matrix) => m.every((value, i) => value === n[i]);
+
+const FLAG_COMBINATIONS = [0, 1, 2, 3, 4, 5, 6, 7].map(
+  (bits) =>
+    ((bits & 1 ? FLIPPED_HORIZONTALLY : 0) |
+      (bits & 2 ? FLIPPED_VERTICALLY : 0) |
+      (bits & 4 ? FLIPPED_DIAGONALLY : 0)) >>>
+    0
+);
+
+/** Tiled flip flags that draw a tile the way the app does. */
+export function getTiledFlipFlags(tile: Pick<Tile, 'rotation' | 'mirrorX' | 'mirrorY'>): number {
+  const target = tileMatrix(tile.rotation, tile.mirrorX, tile.mirrorY);
+  return FLAG_COMBINATIONS.find((flags) => sameMatrix(flagsMatrix(flags), target)) ?? 0;
+}
+
+/** Rotation and mirror for an orientation matrix; mirrorY is never needed (it equals mirrorX + 180°). */
+const orientationFromMatrix = (m: Matrix) => {
+  for (let quarterTurns = 0; quarterTurns < 4; quarterTurns += 1) {
+    for (const mirrorX of [false, true]) {
+      if (sameMatrix(tileMatrix(quarterTurns * 90, mirrorX, false), m)) {
+        return { rotation: quarterTurns * 90, mirrorX, mirrorY: false };
+      }
+    }
+  }
+  return { rotation: 0, mirrorX: false, mirrorY: false };
+};
+
+/** Rotation and mirror of a tile drawn with these Tiled flip flags. */
+export function getTileOrientationFromTiledGid(gid: number) {
+  return orientationFromMatrix(flagsMatrix(gid));
+}
+
+/**
+ * Tile objects cannot flip diagonally; they use a clockwise rotation about the object's
+ * bottom-left corner plus horizontal/vertical flips. Offsets move that corner so the
+ * rotated image covers the cell again (in cell sizes, from the cell's top-left).
+ */
+const OBJECT_ROTATIONS = [
+  { degrees: 0, dx: 0, dy: 1 },
+  { degrees: 90, dx: 0, dy: 0 },
+  { degrees: 180, dx: 1, dy: 0 },
+  { degrees: 270, dx: 1, dy: 1 },
+];
+
+const OBJECT_FLAGS = [0, FLIPPED_HORIZONTALLY, FLIPPED_VERTICALLY, (FLIPPED_HORIZONTALLY | FLIPPED_VERTICALLY) >>> 0];
+
+const getObjectOrientation = (tile: Tile) => {
+  const target = tileMatrix(tile.rotation, tile.mirrorX, tile.mirrorY);
+  for (const objectRotation of OBJECT_ROTATIONS) {
+    for (const flags of OBJECT_FLAGS) {
+      const m = multiply(rotation(objectRotation.degrees / 90), flagsMatrix(flags));
+      if (sameMatrix(m, target)) return { ...objectRotation, flags };
+    }
+  }
+  return { ...OBJECT_ROTATIONS[0], flags: 0 };
+};
+
+// ── Export ──
+
+export type TiledExportInput = {
+  columns: number;
+  rows: number;
+  /** Level-1 cell size in pixels (map tile size). */
+  tileSize: number;
+  /** Tileset tile i = source i. */
+  sourceNames: string[];
+  tiles: Tile[];
+  /** Resolution layers 2, 3, … in each level's cell order (getLevelGridInfo). */
+  layers?: Record<number, Tile[]>;
+  layerVisibility?: Record<number, boolean>;
+  /** Image for the level-1 tileset. */
+  tileset: TiledTilesetImage;
+  /** Optional higher-resolution image used by the coarser levels' tile objects. */
+  largeTileset?: TiledTilesetImage;
+};
+
+const buildTileset = (
+  name: string,
+  firstgid: number,
+  image: TiledTilesetImage,
+  sourceNames: string[]
+): TiledTileset => ({
+  firstgid,
+  name,
+  tilewidth: image.tileSize,
+  tileheight: image.tileSize,
+  tilecount: sourceNames.length,
+  columns: Math.max(1, Math.floor(image.width / image.tileSize)),
+  image: image.image,
+  imagewidth: image.width,
+  imageheight: image.height,
+  margin: 0,
+  spacing: 0,
+  tiles: sourceNames.map((sourceName, id) => ({
+    id,
+    properties: [{ name: 'name', type: 'string', value: sourceName }],
+  })),
+});
+
+const levelProperty = (level: number): TiledProperty[] => [
+  { name: 'level', type: 'int', value: level },
+];
+
+/** Build a Tiled map (JSON shape) from a canvas and its tileset image(s). */
+export function buildTiledMap(input: TiledExportInput): TiledMap {
+  const { columns, rows, tileSize, sourceNames } = input;
+  const isPlaced = (tile: Tile | undefined): tile is Tile =>
+    !!tile && tile.imageIndex >= 0 && tile.imageIndex < sourceNames.length;
+  const tilesets = [buildTileset('tiles', 1, input.tileset, sourceNames)];
+  if (input.largeTileset) {
+    tilesets.push(buildTileset('tiles_large', 1 + sourceNames.length, input.largeTileset, sourceNames));
+  }
+  const objectFirstGid = tilesets[tilesets.length - 1].firstgid;
+
+  const layers: TiledMap['layers'] = [];
+  let nextObjectId = 1;
+  layers.push({
+    id: 1,
+    name: 'Level 1',
+    type: 'tilelayer',
+    width: columns,
+    height: rows,
+    x: 0,
+    y: 0,
+    opacity: 1,
+    visible: input.layerVisibility?.[1] !== false,
+    properties: levelProperty(1),
+    data: Array.from({ length: columns * rows }, (_, index) => {
+      const tile = input.tiles[index];
+      return isPlaced(tile) ? (1 + tile.imageIndex + getTiledFlipFlags(tile)) >>> 0 : 0;
+    }),
+  });
+  const levels = Object.keys(input.layers ?? {})
+    .map(Number)
+    .filter((level) => Number.isInteger(level) && level >= 2)
+    .sort((a, b) => a - b);
+  for (const level of levels) {
+    const info = getLevelGridInfo(columns, rows, level);
+    const levelTiles = input.layers?.[level] ?? [];
+    if (!info || levelTiles.length !== info.cells.length) continue;
+    const size = Math.pow(2, level - 1) * tileSize;
+    const objects: TiledObject[] = [];
+    info.cells.forEach((cell, index) => {
+      const tile = levelTiles[index];
+      if (!isPlaced(tile)) return;
+      const orientation = getObjectOrientation(tile);
+      objects.push({
+        id: nextObjectId++,
+        gid: (objectFirstGid + tile.imageIndex + orientation.flags) >>> 0,
+        x: ((cell.fullMinCol ?? cell.minCol) + orientation.dx * Math.pow(2, level - 1)) * tileSize,
+        y: ((cell.fullMinRow ?? cell.minRow) + orientation.dy * Math.pow(2, level - 1)) * tileSize,
+        width: size,
+        height: size,
+        rotation: orientation.degrees,
+        visible: true,
+      });
+    });
+    layers.push({
+      id: layers.length + 1,
+      name: `Level ${level}`,
+      type: 'objectgroup',
+      draworder: 'topdown',
+      x: 0,
+      y: 0,
+      opacity: 1,
+      visible: input.layerVisibility?.[level] !== false,
+      properties: levelProperty(level),
+      objects,
+    });
+  }
+  return {
+    type: 'map',
+    version: '1.10',
+    tiledversion: '1.10.2',
+    orientation: 'orthogonal',
+    renderorder: 'right-down',
+    width: columns,
+    height: rows,
+    tilewidth: tileSize,
+    tileheight: tileSize,
+    infinite: false,
+    nextlayerid: layers.length + 1,
+    nextobjectid: nextObjectId,
+    layers,
+    tilesets,
+  };
+}
+
+export function serializeTiledJson(map: TiledMap): string {
+  return JSON.stringify(map, null, 2);
+}
+
+const escapeXml = (value: string | number) =>
+  String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const propertiesXml = (properties: TiledProperty[] | undefined, indent: string) => {
+  if (!properties || properties.length === 0) return [];
+  return [
+    `${indent}<properties>`,
+    ...properties.map(
+      (p) =>
+        `${indent} <property name="${escapeXml(p.name)}"${p.type === 'int' ? ' type="int"' : ''} value="${escapeXml(p.value)}"/>`
+    ),
+    `${indent}</properties>`,
+  ];
+};
+
+/** Write the map as .tmx XML (CSV layer data). */
+export function serializeTmx(map: TiledMap): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<map version="${map.version}" tiledversion="${map.tiledversion}" orientation="${map.orientation}" renderorder="${map.renderorder}" width="${map.width}" height="${map.height}" tilewidth="${map.tilewidth}" tileheight="${map.tileheight}" infinite="0" nextlayerid="${map.nextlayerid}" nextobjectid="${map.nextobjectid}">`,
+  ];
+  for (const tileset of map.tilesets) {
+    lines.push(
+      ` <tileset firstgid="${tileset.firstgid}" name="${escapeXml(tileset.name)}" tilewidth="${tileset.tilewidth}" tileheight="${tileset.tileheight}" tilecount="${tileset.tilecount}" columns="${tileset.columns}">`,
+      `  <image source="${escapeXml(tileset.image)}" width="${tileset.imagewidth}" height="${tileset.imageheight}"/>`
+    );
+    for (const tile of tileset.tiles) {
+      lines.push(`  <tile id="${tile.id}">`, ...propertiesXml(tile.properties, '   '), '  </tile>');
+    }
+    lines.push(' </tileset>');
+  }
+  for (const layer of map.layers) {
+    const visible = layer.visible ? '' : ' visible="0"';
+    if (layer.type === 'tilelayer') {
+      lines.push(
+        ` <layer id="${layer.id}" name="${escapeXml(layer.name)}" width="${layer.width}" height="${layer.height}"${visible}>`,
+        ...propertiesXml(layer.properties, '  '),
+        '  <data encoding="csv">'
+      );
+      for (let row = 0; row < layer.height; row += 1) {
+        const rowData = layer.data.slice(row * layer.width, (row + 1) * layer.width).join(',');
+        lines.push(row < layer.height - 1 ? `${rowData},` : rowData);
+      }
+      lines.push('</data>', ' </layer>');
+    } else {
+      lines.push(
+        ` <objectgroup id="${layer.id}" name="${escapeXml(layer.name)}"${visible}>`,
+        ...propertiesXml(layer.properties, '  ')
+      );
+      for (const o of layer.objects) {
+        const rotationAttr = o.rotation !== 0 ? ` rotation="${o.rotation}"` : '';
+        lines.push(
+          `  <object id="${o.id}" gid="${o.gid}" x="${o.x}" y="${o.y}" width="${o.width}" height="${o.height}"${rotationAttr}/>`
+        );
+      }
+      lines.push(' </objectgroup>');
+    }
+  }
+  lines.push('</map>');
+  return lines.join('\n');
+}
+
+// ── Import ──
+
+export type ParseTiledResult = { ok: true; map: TiledMap } | { ok: false; error: string };
+
+/** True when text looks like a Tiled map (.tmx XML or Tiled JSON) rather than a .tile file. */
+export function isTiledMapText(text: string): boolean {
+  const trimmed = text.trimStart();
+  if (trimmed.startsWith('<')) {
+    return /<map\b/.test(trimmed);
+  }
+  return /"type"\s*:\s*"map"/.test(trimmed) && /"orientation"\s*:/.test(trimmed);
+}
+
+const unescapeXml = (value: string) =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+const parseAttributes = (text: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  for (const match of text.matchAll(/([\w:-]+)\s*=\s*"([^"]*)"/g)) {
+    attributes[match[1]] = unescapeXml(match[2]);
+  }
+  return attributes;
+};
+
+/** Elements named tag: attributes and inner XML ('' when self-closing). */
+const findElements = (xml: string, tag: string) =>
+  [...xml.matchAll(new RegExp(`<${tag}\\b([^>]*?)(?:/>|>([\\s\\S]*?)</${tag}>)`, 'g'))].map(
+    (match) => ({ attributes: parseAttributes(match[1]), inner: match[2] ?? '', index: match.index ?? 0 })
+  );
+
+const parseXmlProperties = (inner: string): TiledProperty[] =>
+  findElements(inner, 'property').map(({ attributes }) =>
+    attributes.type === 'int'
+      ? { name: attributes.name ?? '', type: 'int', value: Number(attributes.value) }
+      : { name: attributes.name ?? '', type: 'string', value: attributes.value ?? '' }
+  );
+
+const toNumber = (value: unknown, fallback = 0) => {
+  const n = typeof value === 'string' ? Number(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : fallback;
+};
+
+const parseTmx = (xml: string): ParseTiledResult => {
+  const mapMatch = xml.match(/<map\b([^>]*)>/);
+  if (!mapMatch) {
+    return { ok: false, error: 'Not a Tiled map' };
+  }
+  const mapAttributes = parseAttributes(mapMatch[1]);
+  const tilesets: TiledTileset[] = [];
+  for (const { attributes, inner } of findElements(xml, 'tileset')) {
+    if (attributes.source) {
+      return { ok: false, error: 'External tilesets (.tsx) are not supported; embed the tileset in the map' };
+    }
+    const image = findElements(inner, 'image')[0]?.attributes;
+    tilesets.push({
+      firstgid: toNumber(attributes.firstgid, 1),
+      name: attributes.name ?? '',
+      tilewidth: toNumber(attributes.tilewidth),
+      tileheight: toNumber(attributes.tileheight),
+      tilecount: toNumber(attributes.tilecount),
+      columns: toNumber(attributes.columns),
+      image: image?.source ?? '',
+      imagewidth: toNumber(image?.width),
+      imageheight: toNumber(image?.height),
+      margin: toNumber(attributes.margin),
+      spacing: toNumber(attributes.spacing),
+      tiles: findElements(inner, 'tile').map((tile) => ({
+        id: toNumber(tile.attributes.id),
+        image: findElements(tile.inner, 'image')[0]?.attributes.source,
+        properties: parseXmlProperties(tile.inner),
+      })),
+    });
+  }
+  const layerElements = [
+    ...findElements(xml, 'layer').map((element) => ({ ...element, kind: 'layer' as const })),
+    ...findElements(xml, 'objectgroup').map((element) => ({ ...element, kind: 'objectgroup' as const })),
+  ].sort((a, b) => a.index - b.index);
+  const layers: TiledMap['layers'] = [];
+  for (const element of layerElements) {
+    const common = {
+      id: toNumber(element.attributes.id),
+      name: element.attributes.name ?? '',
+      x: 0,
+      y: 0,
+      opacity: 1,
+      visible: element.attributes.visible !== '0',
+      properties: parseXmlProperties(element.inner.replace(/<data\b[\s\S]*?<\/data>/, '')),
+    };
+    if (element.kind === 'layer') {
+      const data = findElements(element.inner, 'data')[0];
+      if (!data || (data.attributes.encoding ?? '') !== 'csv') {
+        return { ok: false, error: 'Only CSV layer data is supported' };
+      }
+      layers.push({
+        ...common,
+        type: 'tilelayer',
+        width: toNumber(element.attributes.width),
+        height: toNumber(element.attributes.height),
+        data: data.inner
+          .split(',')
+          .map((value) => value.trim())
+          .filter((value) => value.length > 0)
+          .map((value) => toNumber(value)),
+      });
+    } else {
+      layers.push({
+        ...common,
+        type: 'objectgroup',
+        draworder: 'topdown',
+        objects: findElements(element.inner, 'object').map(({ attributes }) => ({
+          id: toNumber(attributes.id),
+          gid: toNumber(attributes.gid),
+          x: toNumber(attributes.x),
+          y: toNumber(attributes.y),
+          width: toNumber(attributes.width),
+          height: toNumber(attributes.height),
+          rotation: toNumber(attributes.rotation),
+          visible: attributes.visible !== '0',
+        })),
+      });
+    }
+  }
+  return {
+    ok: true,
+    map: {
+      type: 'map',
+      version: mapAttributes.version ?? '',
+      tiledversion: mapAttributes.tiledversion ?? '',
+      orientation: 'orthogonal',
+      renderorder: 'right-down',
+      width: toNumber(mapAttributes.width),
+      height: toNumber(mapAttributes.height),
+      tilewidth: toNumber(mapAttributes.tilewidth),
+      tileheight: toNumber(mapAttributes.tileheight),
+      infinite: mapAttributes.infinite === '1',
+      nextlayerid: toNumber(mapAttributes.nextlayerid),
+      nextobjectid: toNumber(mapAttributes.nextobjectid),
+      layers,
+      tilesets,
+    },
+  };
+};
+
+/** Parse .tmx XML or Tiled JSON. Only embedded tilesets and CSV / array layer data are read. */
+export function parseTiledMap(text: string): ParseTiledResult {
+  const trimmed = text.trimStart();
+  let result: ParseTiledResult;
+  if (trimmed.startsWith('<')) {
+    result = parseTmx(trimmed);
+  } else {
+    let data: unknown;
+    try {
+      data = JSON.parse(trimmed);
+    } catch {
+      return { ok: false, error: 'Invalid JSON' };
+    }
+    if (data == null || typeof data !== 'object' || (data as { type?: unknown }).type !== 'map') {
+      return { ok: false, error: 'Not a Tiled map' };
+    }
+    const map = data as TiledMap;
+    if (!Array.isArray(map.layers) || !Array.isArray(map.tilesets)) {
+      return { ok: false, error: 'Not a Tiled map' };
+    }
+    if (map.tilesets.some((tileset) => 'source' in tileset)) {
+      return { ok: false, error: 'External tilesets are not supported; embed the tileset in the map' };
+    }
+    if (map.layers.some((layer) => layer.type === 'tilelayer' && !Array.isArray(layer.data))) {
+      return { ok: false, error: 'Only CSV layer data is supported' };
+    }
+    result = { ok: true, map };
+  }
+  if (result.ok) {
+    const { map } = result;
+    if (map.orientation !== 'orthogonal' || map.infinite) {
+      return { ok: false, error: 'Only finite orthogonal maps are supported' };
+    }
+    if (map.width <= 0 || map.height <= 0 || map.tilewidth <= 0) {
+      return { ok: false, error: 'Invalid map size' };
+    }
+  }
+  return result;
+}
+
+export type TiledImportOptions = {
+  name: string;
+  category: TileCategory;
+  /** Whether a source name exists in this app (built-in or user tile set). */
+  isKnownName: (name: string) => boolean;
+};
+
+export type TiledImportResult = { ok: true; payload: TileFilePayload } | { ok: false; error: string };
+
+const getLayerLevel = (layer: TiledTileLayer | TiledObjectLayer) => {
+  const property = layer.properties?.find((p) => p.name === 'level');
+  const level = toNumber(property?.value, NaN);
+  if (Number.isInteger(level) && level >= 1) return level;
+  const fromName = layer.name.match(/level\s*(\d+)/i);
+  if (fromName) return Number(fromName[1]);
+  return layer.type === 'tilelayer' ? 1 : null;
+};
+
+/** File for a parsed Tiled map; every used tile must name a source this app knows. */
+export function tiledMapToTileFile(map: TiledMap, options: TiledImportOptions): TiledImportResult {
+  const { width: columns, height: rows, tilewidth: tileSize } = map;
+  const tilesets = [...map.tilesets].sort((a, b) => b.firstgid - a.firstgid);
+  const sourceNames: string[] = [];
+  const sourceIndexByName = new Map<string, number>();
+  const unknownNames = new Set<string>();
+  let missingName = false;
+
+  const resolveGid = (gid: number): Tile | null => {
+    const localGid = gid & GID_MASK;
+    if (localGid === 0) return null;
+    const tileset = tilesets.find((t) => t.firstgid <= localGid);
+    if (!tileset) return null;
+    const id = localGid - tileset.firstgid;
+    const entry = tileset.tiles?.find((t) => t.id === id);
+    const property = entry?.properties?.find((p) => p.name === 'name');
+    const name =
+      typeof property?.value === 'string' && property.value.length > 0
+        ? property.value
+        : entry?.image?.split('/').pop();
+    if (!name) {
+      missingName = true;
+      return null;
+    }
+    if (!options.isKnownName(name)) {
+      unknownNames.add(name);
+      return null;
+    }
+    let imageIndex = sourceIndexByName.get(name);
+    if (imageIndex === undefined) {
+      imageIndex = sourceNames.length;
+      sourceIndexByName.set(name, imageIndex);
+      sourceNames.push(name);
+    }
+    return { imageIndex, ...getTileOrientationFromTiledGid(gid), name };
+  };
+
+  const empty = (): Tile => ({ imageIndex: -1, rotation: 0, mirrorX: false, mirrorY: false });
+  let tiles: Tile[] | null = null;
+  const layers: Record<number, Tile[]> = {};
+  const layerVisibility: Record<number, boolean> = {};
+  for (const layer of map.layers) {
+    const level = getLayerLevel(layer);
+    if (level === null) continue;
+    if (level === 1 && layer.type === 'tilelayer') {
+      if (tiles) continue;
+      tiles = Array.from({ length: columns * rows }, (_, index) =>
+        index < layer.data.length ? resolveGid(layer.data[index]) ?? empty() : empty()
+      );
+      if (!layer.visible) layerVisibility[1] = false;
+      continue;
+    }
+    if (level < 2 || layer.type !== 'objectgroup' || layers[level]) continue;
+    const info = getLevelGridInfo(columns, rows, level);
+    if (!info) continue;
+    const cellTiles = Math.pow(2, level - 1);
+    const levelTiles = info.cells.map(empty);
+    for (const object of layer.objects) {
+      const objectRotation = OBJECT_ROTATIONS.find((r) => r.degrees === ((object.rotation % 360) + 360) % 360);
+      if (!objectRotation || Math.round(object.width / tileSize) !== cellTiles) continue;
+      const col = Math.round(object.x / tileSize) - objectRotation.dx * cellTiles;
+      const row = Math.round(object.y / tileSize) - objectRotation.dy * cellTiles;
+      const cellIndex = info.cells.findIndex(
+        (cell) => (cell.fullMinCol ?? cell.minCol) === col && (cell.fullMinRow ?? cell.minRow) === row
+      );
+      const tile = cellIndex >= 0 ? resolveGid(object.gid) : null;
+      if (!tile) continue;
+      const m = multiply(rotation(objectRotation.degrees / 90), flagsMatrix(object.gid));
+      levelTiles[cellIndex] = { ...tile, ...orientationFromMatrix(m) };
+    }
+    layers[level] = levelTiles;
+    if (!layer.visible) layerVisibility[level] = false;
+  }
+
+  if (unknownNames.size > 0) {
+    const names = [...unknownNames];
+    const more = names.length > 3 ? ` and ${names.length - 3} more` : '';
+    return { ok: false, error: `Unknown tiles: ${names.slice(0, 3).join(', ')}${more}` };
+  }
+  if (missingName) {
+    return { ok: false, error: 'Tileset tiles need a "name" property or an image file name' };
+  }
+  if (!tiles) {
+    return { ok: false, error: 'The map has no tile layer' };
+  }
+  const tileSetIds = getSetIdsFromFileSourceNames(sourceNames);
+  return {
+    ok: true,
+    payload: {
+      v: TILE_FORMAT_VERSION,
+      name: options.name,
+      grid: { rows, columns },
+      tiles,
+      ...(Object.keys(layers).length > 0 && { layers }),
+      preferredTileSize: tileSize,
+      lineWidth: 10,
+      lineColor: '#ffffff',
+      sourceNames,
+      tileSetIds,
+      category: options.category,
+      categories: [options.category],
+      ...(Object.keys(layerVisibility).length > 0 && { layerVisibility }),
+    },
+  };
+}
@@ -0,0 +1,202 @@
+/**
+ * Animated timelapse export of a design's edit history (GIF or APNG).
+ *
+ * Frames are full-grid tile snapshots (useTileGrid getEditHistory). The caller renders each
+ * one to RGBA pixels (renderTileCanvasToDataUrl + dataUrlToRgba on web); the encoders here
+ * are pure so they run in tests and on any platform.
+ */
+import { GIFEncoder, applyPalette, quantize } from 'gifenc';
+import { deflate } from 'pako';
+
+export type TimelapseFormat = 'gif' | 'apng';
+
+export type TimelapseOptions = {
+  format: TimelapseFormat;
+  /** Frames per second (1–30). */
+  fps: number;
+  /** Longest timelapse in frames; longer histories are sampled evenly. */
+  maxFrames: number;
+};
+
+export const DEFAULT_TIMELAPSE_OPTIONS: TimelapseOptions = { format: 'gif', fps: 4, maxFrames: 60 };
+
+export const TIMELAPSE_FPS_OPTIONS = [2, 4, 8, 12];
+export const TIMELAPSE_MAX_FRAME_OPTIONS = [30, 60, 120, 240];
+
+/** Extra delay on the last frame so the finished design is visible before the loop restarts. */
+const FINAL_FRAME_HOLD_MS = 2000;
+
+export type RgbaFrame = { width: number; height: number; data: Uint8Array | Uint8ClampedArray };
+
+/**
+ * Pick at most maxFrames frames spread evenly over the history, always keeping the first
+ * and last. Consecutive duplicates are the caller's concern (the undo stack has none).
+ */
+export function sampleTimelapseFrames<T>(frames: T[], maxFrames: number): T[] {
+  const limit = Math.max(2, Math.floor(maxFrames));
+  if (frames.length <= limit) {
+    return frames;
+  }
+  const sampled: T[] = [];
+  for (let i = 0; i < limit; i += 1) {
+    sampled.push(frames[Math.round((i * (frames.length - 1)) / (limit - 1))]);
+  }
+  return sampled;
+}
+
+const getFrameDelays = (count: number, fps: number) => {
+  const delay = Math.round(1000 / Math.min(30, Math.max(1, fps)));
+  return Array.from({ length: count }, (_, i) =>
+    i === count - 1 && count > 1 ? delay + FINAL_FRAME_HOLD_MS : delay
+  );
+};
+
+const assertSameSize = (frames: RgbaFrame[]) => {
+  if (frames.length === 0) {
+    throw new Error('No frames to encode');
+  }
+  const { width, height } = frames[0];
+  for (const frame of frames) {
+    if (frame.width !== width || frame.height !== height || frame.data.length !== width * height * 4) {
+      throw new Error('Frames must all have the same size');
+    }
+  }
+};
+
+/** Looping animated GIF; each frame gets its own 256-colour palette. */
+export function encodeGif(frames: RgbaFrame[], fps: number): Uint8Array {
+  assertSameSize(frames);
+  const delays = getFrameDelays(frames.length, fps);
+  const gif = GIFEncoder();
+  frames.forEach((frame, i) => {
+    const palette = quantize(frame.data, 256);
+    const index = applyPalette(frame.data, palette);
+    gif.writeFrame(index, frame.width, frame.height, { palette, delay: delays[i], repeat: 0 });
+  });
+  gif.finish();
+  return gif.bytes();
+}
+
+// ── APNG ──
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n += 1) {
+    let c = n;
+    for (let k = 0; k < 8; k += 1) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array) => {
+  let c = 0xffffffff;
+  for (let i = 0; i < bytes.length; i += 1) c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+};
+
+const uint32 = (value: number) => [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+const uint16 = (value: number) => [(value >>> 8) & 0xff, value & 0xff];
+
+const chunk = (type: string, data: ArrayLike<number>) => {
+  const bytes = new Uint8Array(12 + data.length);
+  bytes.set(uint32(data.length), 0);
+  for (let i = 0; i < 4; i += 1) bytes[4 + i] = type.charCodeAt(i);
+  bytes.set(data, 8);
+  bytes.set(uint32(crc32(bytes.subarray(4, 8 + data.length))), 8 + data.length);
+  return bytes;
+};
+
+/** Scanlines with filter type 0 (none), deflated. */
+const compressFrame = (frame: RgbaFrame) => {
+  const rowLength = frame.width * 4;
+  const raw = new Uint8Array((rowLength + 1) * frame.height);
+  for (let y = 0; y < frame.height; y += 1) {
+    raw.set(frame.data.subarray(y * rowLength, (y + 1) * rowLength), y * (rowLength + 1) + 1);
+  }
+  return deflate(raw);
+};
+
+/** Looping animated PNG (full-colour RGBA); every frame covers the whole image. */
+export function encodeApng(frames: RgbaFrame[], fps: number): Uint8Array {
+  assertSameSize(frames);
+  const { width, height } = frames[0];
+  const delays = getFrameDelays(frames.length, fps);
+  const parts: Uint8Array[] = [Uint8Array.from(PNG_SIGNATURE)];
+  parts.push(chunk('IHDR', [...uint32(width), ...uint32(height), 8, 6, 0, 0, 0]));
+  parts.push(chunk('acTL', [...uint32(frames.length), ...uint32(0)]));
+  let sequence = 0;
+  frames.forEach((frame, i) => {
+    parts.push(
+      chunk('fcTL', [
+        ...uint32(sequence),
+        ...uint32(width),
+        ...uint32(height),
+        ...uint32(0),
+        ...uint32(0),
+        ...uint16(delays[i]),
+        ...uint16(1000),
+        0, // dispose: none
+        0, // blend: source
+      ])
+    );
+    sequence += 1;
+    const compressed = compressFrame(frame);
+    if (i === 0) {
+      parts.push(chunk('IDAT', compressed));
+    } else {
+      const data = new Uint8Array(4 + compressed.length);
+      data.set(uint32(sequence), 0);
+      data.set(compressed, 4);
+      parts.push(chunk('fdAT', data));
+      sequence += 1;
+    }
+  });
+  parts.push(chunk('IEND', []));
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const bytes = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+}
+
+export function encodeTimelapse(frames: RgbaFrame[], options: TimelapseOptions): Uint8Array {
+  return options.format === 'apng' ? encodeApng(frames, options.fps) : encodeGif(frames, options.fps);
+}
+
+export const getTimelapseFileExtension = (format: TimelapseFormat) =>
+  format === 'apng' ? 'png' : 'gif';
+
+export const getTimelapseMimeType = (format: TimelapseFormat) =>
+  format === 'apng' ? 'image/apng' : 'image/gif';
+
+/** Decode a rendered frame (data URL) to RGBA pixels, at `size` or the image's own size. Web only. */
+export function dataUrlToRgba(
+  dataUrl: string,
+  size?: { width: number; height: number }
+): Promise<RgbaFrame> {
+  return new Promise((resolve, reject) => {
+    const img = new window.Image();
+    img.onload = () => {
+      const width = size?.width ?? img.naturalWidth;
+      const height = size?.height ?? img.naturalHeight;
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Canvas is not available'));
+        return;
+      }
+      ctx.drawImage(img, 0, 0, width, height);
+      resolve({ width, height, data: ctx.getImageData(0, 0, width, height).data });
+    };
+    img.onerror = () => reject(new Error('Failed to load frame'));
+    img.src = dataUrl;
+  });
+}
@@ -0,0 +1,224 @@
+/**
+ * Per-file undo history as a command log (hooks/use-tile-files.ts keeps it on TileFile.undoLog
+ * and stores it with the file body, so undo survives closing and reopening a design).
+ *
+ * A command is one user step: the list of changes it made to the file, each holding the values
+ * before and after so it can be undone and redone. Changes cover every resolution layer's tiles
+ * (changed cells only, or the whole layer when its size changed), locked cells, the per-layer
+ * visibility/lock/emphasize flags and the grid size. A step can grow while it is open (a drag
+ * stroke, or an operation that updates several layers one after another); undo reverts its
+ * changes last to first.
+ */
+import type { TileFile } from '@/hooks/use-tile-files';
+import type { Tile } from '@/utils/tile-grid';
+
+export const MAX_UNDO_COMMANDS = 100;
+
+/** File fields restored as a whole (default when absent: [] or {}). */
+export const UNDO_FIELDS = [
+  'lockedCells',
+  'lockedCellsPerLayer',
+  'layerVisibility',
+  'layerLocked',
+  'layerEmphasized',
+] as const;
+
+export type UndoField = (typeof UNDO_FIELDS)[number];
+
+/** One changed cell: index, tile before, tile after. */
+export type UndoCell = [number, Tile, Tile];
+
+export type UndoChange =
+  /** Changed cells of one level (1 = the tile grid, 2+ = file.layers). */
+  | { kind: 'cells'; level: number; cells: UndoCell[] }
+  /** A whole level whose length changed or that was added or removed (null = absent). */
+  | { kind: 'layer'; level: number; before: Tile[] | null; after: Tile[] | null }
+  | { kind: 'field'; field: UndoField; before: unknown; after: unknown }
+  | {
+      kind: 'grid';
+      before: { rows: number; columns: number };
+      after: { rows: number; columns: number };
+    };
+
+export type UndoCommand = {
+  /** When the step began; also identifies the step so later changes join it. */
+  step: number;
+  changes: UndoChange[];
+};
+
+export type UndoLog = {
+  /** Oldest first; the last command is undone next. */
+  past: UndoCommand[];
+  /** Undone commands, the last one is redone next. */
+  future: UndoCommand[];
+};
+
+/** The parts of a file that undo restores. */
+type UndoState = Pick<TileFile, 'grid' | 'tiles' | 'layers' | UndoField>;
+
+const emptyField = (field: UndoField) => (field === 'lockedCells' ? [] : {});
+
+const tilesEqual = (a: Tile | undefined, b: Tile | undefined) =>
+  a === b ||
+  (a !== undefined &&
+    b !== undefined &&
+    a.imageIndex === b.imageIndex &&
+    a.rotation === b.rotation &&
+    a.mirrorX === b.mirrorX &&
+    a.mirrorY === b.mirrorY &&
+    a.name === b.name);
+
+/** True when both lists hold the same tiles (e.g. to skip writing unchanged grid tiles). */
+export const sameTiles = (a: Tile[] | null | undefined, b: Tile[] | null | undefined) =>
+  a === b || (!!a && !!b && a.length === b.length && a.every((tile, i) => tilesEqual(tile, b[i])));
+
+const getLevelTiles = (state: UndoState, level: number): Tile[] | null =>
+  level === 1 ? state.tiles : state.layers?.[level] ?? null;
+
+const getLevels = (before: UndoState, after: UndoState) => {
+  const levels = new Set([1]);
+  for (const state of [before, after]) {
+    for (const key of Object.keys(state.layers ?? {})) {
+      levels.add(Number(key));
+    }
+  }
+  return [...levels].sort((a, b) => a - b);
+};
+
+/** The changes that turn before into after, or an empty list when undo has nothing to record. */
+export function diffUndoStates(before: UndoState, after: UndoState): UndoChange[] {
+  const changes: UndoChange[] = [];
+  if (before.grid.rows !== after.grid.rows || before.grid.columns !== after.grid.columns) {
+    changes.push({ kind: 'grid', before: { ...before.grid }, after: { ...after.grid } });
+  }
+  for (const level of getLevels(before, after)) {
+    const from = getLevelTiles(before, level);
+    const to = getLevelTiles(after, level);
+    if (from === to) continue;
+    if (!from || !to || from.length !== to.length) {
+      changes.push({ kind: 'layer', level, before: from, after: to });
+      continue;
+    }
+    const cells: UndoCell[] = [];
+    for (let i = 0; i < to.length; i += 1) {
+      if (!tilesEqual(from[i], to[i])) {
+        cells.push([i, from[i], to[i]]);
+      }
+    }
+    if (cells.length > 0) {
+      changes.push({ kind: 'cells', level, cells });
+    }
+  }
+  for (const field of UNDO_FIELDS) {
+    const from = before[field] ?? emptyField(field);
+    const to = after[field] ?? emptyField(field);
+    if (from !== to && JSON.stringify(from) !== JSON.stringify(to)) {
+      changes.push({ kind: 'field', field, before: from, after: to });
+    }
+  }
+  return changes;
+}
+
+const setLevelTiles = (file: TileFile, level: number, tiles: Tile[] | null): TileFile => {
+  if (level === 1) {
+    return { ...file, tiles: tiles ?? [] };
+  }
+  const layers = { ...(file.layers ?? {}) };
+  if (tiles) {
+    layers[level] = tiles;
+  } else {
+    delete layers[level];
+  }
+  return { ...file, layers: Object.keys(layers).length > 0 ? layers : undefined };
+};
+
+const applyChange = (file: TileFile, change: UndoChange, direction: 'undo' | 'redo'): TileFile => {
+  const useBefore = direction === 'undo';
+  switch (change.kind) {
+    case 'grid':
+      return { ...file, grid: { ...(useBefore ? change.before : change.after) } };
+    case 'layer':
+      return setLevelTiles(file, change.level, useBefore ? change.before : change.after);
+    case 'field':
+      return { ...file, [change.field]: useBefore ? change.before : change.after };
+    case 'cells': {
+      const tiles = [...(getLevelTiles(file, change.level) ?? [])];
+      for (const [index, before, after] of change.cells) {
+        if (index < tiles.length) {
+          tiles[index] = useBefore ? before : after;
+        }
+      }
+      return setLevelTiles(file, change.level, tiles);
+    }
+  }
+};
+
+/**
+ * Record the changes from before to after in after.undoLog: they join the last command when it
+ * belongs to step, otherwise they start a new command (and clear redo). Returns after unchanged
+ * when nothing undoable changed.
+ */
+export function recordUndoChanges(before: TileFile, after: TileFile, step: number): TileFile {
+  const changes = diffUndoStates(before, after);
+  if (changes.length === 0) {
+    return after;
+  }
+  const past = before.undoLog?.past ?? [];
+  const last = past[past.length - 1];
+  const nextPast =
+    last && last.step === step
+      ? [...past.slice(0, -1), { step, changes: [...last.changes, ...changes] }]
+      : [...past, { step, changes }].slice(-MAX_UNDO_COMMANDS);
+  return { ...after, undoLog: { past: nextPast, future: [] } };
+}
+
+/** Revert the file's last command; null when there is nothing to undo. */
+export function undoFileCommand(file: TileFile): TileFile | null {
+  const past = file.undoLog?.past ?? [];
+  const command = past[past.length - 1];
+  if (!command) return null;
+  let next = file;
+  for (let i = command.changes.length - 1; i >= 0; i -= 1) {
+    next = applyChange(next, command.changes[i], 'undo');
+  }
+  return {
+    ...next,
+    undoLog: { past: past.slice(0, -1), future: [...(file.undoLog?.future ?? []), command] },
+  };
+}
+
+/** Re-apply the file's last undone command; null when there is nothing to redo. */
+export function redoFileCommand(file: TileFile): TileFile | null {
+  const future = file.undoLog?.future ?? [];
+  const command = future[future.length - 1];
+  if (!command) return null;
+  let next = file;
+  for (const change of command.changes) {
+    next = applyChange(next, change, 'redo');
+  }
+  return {
+    ...next,
+    undoLog: { past: [...(file.undoLog?.past ?? []), command], future: future.slice(0, -1) },
+  };
+}
+
+const isUndoCommand = (value: unknown): value is UndoCommand => {
+  const command = value as UndoCommand | null;
+  return (
+    command != null &&
+    typeof command === 'object' &&
+    typeof command.step === 'number' &&
+    Array.isArray(command.changes)
+  );
+};
+
+/** A stored undo log, or undefined when missing or malformed. */
+export function normalizeUndoLog(value: unknown): UndoLog | undefined {
+  const log = value as UndoLog | null;
+  if (log == null || typeof log !== 'object' || !Array.isArray(log.past) || !Array.isArray(log.future)) {
+    return undefined;
+  }
+  const past = log.past.filter(isUndoCommand);
+  const future = log.future.filter(isUndoCommand);
+  return past.length > 0 || future.length > 0 ? { past, future } : undefined;
+}